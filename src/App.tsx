@@ -37,6 +37,7 @@ import { PublicLanding } from '@/components/public/PublicLanding';
 import { ProjectsApiTest } from '@/components/dashboard/ProjectsApiTest';
 import { FeedbackRoutes } from '@/components/dashboard/feedback/FeedbackRoutes';
 import { FeedbackSubmissionInterface } from '@/components/dashboard/feedback/FeedbackSubmissionInterface';
+import { FeedbackTrackingPage } from '@/components/dashboard/feedback/FeedbackTrackingPage';
 import { FeedbackProvider } from '@/contexts/FeedbackContext';
 // New all-outcomes and all-outputs pages will be created as OutcomesDetails and OutputsDetails
 import { Toaster as ShadToaster } from '@/components/ui/toaster';
@@ -162,6 +163,9 @@ function AppWithNotifications() {
               />
             </FeedbackProvider>
           } />
+
+          {/* Public feedback tracking by code - no account needed */}
+          <Route path="/feedback/track" element={<FeedbackTrackingPage />} />
           
           {/* Authenticated routes - wrapped in dashboard context providers */}
           <Route path="/dashboard/*" element={
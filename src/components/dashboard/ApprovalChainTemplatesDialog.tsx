@@ -0,0 +1,386 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { GitBranch, Loader2, Plus, Trash2, Edit, ArrowDown } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { useAuth } from '@/contexts/AuthContext';
+import { reportWorkflowService } from '@/services/reportWorkflowService';
+import { userManagementService, User } from '@/services/userManagementService';
+import { ApprovalChainStage, ApprovalChainTemplate, Report, ReportApprovalStep } from '@/types/dashboard';
+import { APPROVAL_CHAIN, getAuthLevelDisplayName, validateApprovalChainTemplate } from '@/lib/reportWorkflowUtils';
+import { toast } from '@/hooks/use-toast';
+
+interface ApprovalChainTemplatesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+}
+
+const REPORT_CATEGORIES: { value: Report['category']; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'bimonthly', label: 'Bi-monthly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'bi-annual', label: 'Bi-annual' },
+  { value: 'annual', label: 'Annual' },
+  { value: 'adhoc', label: 'Ad-hoc' },
+];
+
+const ANY_CATEGORY = 'any';
+const ANY_USER = 'any';
+
+const newStage = (index: number): ApprovalChainStage => ({
+  id: uuidv4(),
+  name: `Stage ${index + 1}`,
+  approvers: [{ role: 'project-admin' }],
+  requiredApprovals: 1,
+});
+
+const getScopeLabel = (template: ApprovalChainTemplate) => {
+  const category = REPORT_CATEGORIES.find(c => c.value === template.reportCategory)?.label;
+  return `${template.projectId ? 'This project' : 'All projects'} · ${category ? `${category} reports` : 'All report categories'}`;
+};
+
+/** Project admins define the approval route (stages, parallel approvers, due dates) per report category. */
+export function ApprovalChainTemplatesDialog({ isOpen, onClose, projectId }: ApprovalChainTemplatesDialogProps) {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<ApprovalChainTemplate[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<{ template: ApprovalChainTemplate; isNew: boolean } | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setEditing(null);
+    setLoading(true);
+    Promise.all([
+      reportWorkflowService.getApprovalChainTemplates(projectId),
+      userManagementService.getUsers({ limit: 500, isActive: true }),
+    ])
+      .then(([loadedTemplates, usersResponse]) => {
+        setTemplates(loadedTemplates);
+        setUsers(usersResponse.users ?? []);
+      })
+      .catch(error => console.error('Error loading approval chain templates:', error))
+      .finally(() => setLoading(false));
+  }, [isOpen, projectId]);
+
+  const startNew = () => {
+    setErrors([]);
+    setEditing({
+      isNew: true,
+      template: {
+        id: uuidv4(),
+        name: '',
+        projectId,
+        stages: [newStage(0)],
+        createdAt: new Date().toISOString(),
+        createdBy: user?.id || '',
+      },
+    });
+  };
+
+  const updateTemplate = (updates: Partial<ApprovalChainTemplate>) => {
+    setEditing(prev => (prev ? { ...prev, template: { ...prev.template, ...updates } } : prev));
+  };
+
+  const updateStage = (stageId: string, updates: Partial<ApprovalChainStage>) => {
+    if (!editing) return;
+    updateTemplate({
+      stages: editing.template.stages.map(stage => (stage.id === stageId ? { ...stage, ...updates } : stage)),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const validationErrors = validateApprovalChainTemplate(editing.template);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    setSaving(true);
+    try {
+      const saved = await reportWorkflowService.saveApprovalChainTemplate(
+        { ...editing.template, updatedAt: new Date().toISOString() },
+        editing.isNew
+      );
+      setTemplates(prev => (editing.isNew ? [...prev, saved] : prev.map(t => (t.id === saved.id ? saved : t))));
+      setEditing(null);
+      toast({ title: 'Approval chain saved', description: `"${saved.name}" applies to new reports from now on.` });
+    } catch (error) {
+      console.error('Error saving approval chain template:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save approval chain',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: ApprovalChainTemplate) => {
+    if (!window.confirm(`Delete the approval chain "${template.name}"? Reports already in review keep their steps.`)) return;
+    try {
+      await reportWorkflowService.deleteApprovalChainTemplate(template.id);
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+    } catch (error) {
+      console.error('Error deleting approval chain template:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete approval chain',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const userName = (id?: string) => {
+    const u = users.find(candidate => candidate.id === id);
+    return u ? `${u.firstName} ${u.lastName}`.trim() || u.email : undefined;
+  };
+
+  const renderEditor = (template: ApprovalChainTemplate) => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="chainName">Name</Label>
+          <Input
+            id="chainName"
+            value={template.name}
+            onChange={(e) => updateTemplate({ name: e.target.value })}
+            placeholder="e.g. Donor annual report"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Report category</Label>
+          <Select
+            value={template.reportCategory || ANY_CATEGORY}
+            onValueChange={(value) => updateTemplate({ reportCategory: value === ANY_CATEGORY ? undefined : value as Report['category'] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_CATEGORY}>All categories</SelectItem>
+              {REPORT_CATEGORIES.map(category => (
+                <SelectItem key={category.value} value={category.value}>{category.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {template.stages.map((stage, stageIndex) => (
+          <React.Fragment key={stage.id}>
+            {stageIndex > 0 && <ArrowDown className="w-4 h-4 mx-auto text-gray-400" />}
+            <div className="p-3 border rounded-lg space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_9rem_9rem_auto] gap-3 items-end">
+                <div className="space-y-1">
+                  <Label className="text-xs">Stage {stageIndex + 1}</Label>
+                  <Input value={stage.name} onChange={(e) => updateStage(stage.id, { name: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Approvals required</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={stage.approvers.length}
+                    value={stage.requiredApprovals}
+                    onChange={(e) => updateStage(stage.id, { requiredApprovals: parseInt(e.target.value, 10) || 1 })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Due after (days)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={stage.dueInDays ?? ''}
+                    placeholder="No due date"
+                    onChange={(e) => updateStage(stage.id, { dueInDays: e.target.value === '' ? undefined : parseInt(e.target.value, 10) })}
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={template.stages.length === 1}
+                  onClick={() => updateTemplate({ stages: template.stages.filter(s => s.id !== stage.id) })}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs">
+                  Approvers{stage.approvers.length > 1 ? ' (review in parallel)' : ''}
+                </Label>
+                {stage.approvers.map((approver, approverIndex) => {
+                  const updateApprover = (updates: Partial<typeof approver>) =>
+                    updateStage(stage.id, {
+                      approvers: stage.approvers.map((a, i) => (i === approverIndex ? { ...a, ...updates } : a)),
+                    });
+                  return (
+                    <div key={approverIndex} className="grid grid-cols-1 md:grid-cols-[11rem_1fr_10rem_auto] gap-2">
+                      <Select value={approver.role} onValueChange={(value) => updateApprover({ role: value as ReportApprovalStep['requiredRole'] })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {APPROVAL_CHAIN.map(level => (
+                            <SelectItem key={level} value={level}>{getAuthLevelDisplayName(level)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={approver.userId || ANY_USER}
+                        onValueChange={(value) => updateApprover({ userId: value === ANY_USER ? undefined : value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ANY_USER}>Any user with this role</SelectItem>
+                          {users.map(u => (
+                            <SelectItem key={u.id} value={u.id}>{userName(u.id)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        value={approver.label || ''}
+                        onChange={(e) => updateApprover({ label: e.target.value || undefined })}
+                        placeholder="Label, e.g. Finance"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={stage.approvers.length === 1}
+                        onClick={() => updateStage(stage.id, {
+                          approvers: stage.approvers.filter((_, i) => i !== approverIndex),
+                          requiredApprovals: Math.min(stage.requiredApprovals, stage.approvers.length - 1),
+                        })}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateStage(stage.id, { approvers: [...stage.approvers, { role: 'project-admin' }] })}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Parallel approver
+                </Button>
+              </div>
+            </div>
+          </React.Fragment>
+        ))}
+        <Button
+          variant="outline"
+          onClick={() => updateTemplate({ stages: [...template.stages, newStage(template.stages.length)] })}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add stage
+        </Button>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-600 list-disc pl-5">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !saving && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitBranch className="w-5 h-5" />
+            Approval Chains
+          </DialogTitle>
+          <DialogDescription>
+            The most specific chain for a report's project and category applies when it is uploaded; reports with no
+            matching chain go Branch → Project → Country → Global.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500 py-6 justify-center">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading approval chains...
+          </div>
+        ) : editing ? (
+          renderEditor(editing.template)
+        ) : (
+          <div className="space-y-3">
+            {templates.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-4">No approval chains yet; reports use the standard chain.</p>
+            )}
+            {templates.map(template => (
+              <div key={template.id} className="flex items-start justify-between gap-4 p-3 border rounded-lg">
+                <div className="space-y-1 min-w-0">
+                  <p className="font-medium">{template.name}</p>
+                  <p className="text-xs text-gray-500">{getScopeLabel(template)}</p>
+                  <div className="flex items-center gap-1 flex-wrap">
+                    {template.stages.map((stage, index) => (
+                      <React.Fragment key={stage.id}>
+                        {index > 0 && <span className="text-gray-400">→</span>}
+                        <Badge variant="secondary" className="text-xs">
+                          {stage.name}
+                          {stage.approvers.length > 1 && ` (${stage.requiredApprovals}/${stage.approvers.length})`}
+                        </Badge>
+                      </React.Fragment>
+                    ))}
+                  </div>
+                </div>
+                {/* Organisation-wide chains are managed by global admins */}
+                {template.projectId === projectId && (
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => { setErrors([]); setEditing({ template, isNew: false }); }}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(template)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          {editing ? (
+            <>
+              <Button variant="outline" onClick={() => setEditing(null)} disabled={saving}>
+                Back
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              <Button onClick={startNew} disabled={loading}>
+                <Plus className="w-4 h-4 mr-2" />
+                New chain
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
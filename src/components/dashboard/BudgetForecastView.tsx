@@ -0,0 +1,155 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Gauge } from 'lucide-react';
+import { formatMoney } from '@/lib/exchangeRates';
+import { BUDGET_CATEGORIES, BudgetForecast, FORECAST_STATUSES, ForecastStatus, getLinesTrendingOver } from '@/lib/budgetForecast';
+
+interface BudgetForecastViewProps {
+  forecast: BudgetForecast;
+}
+
+const STATUS_STYLES: Record<ForecastStatus, string> = {
+  OVERSPENT: 'bg-red-100 text-red-800',
+  TRENDING_OVER: 'bg-amber-100 text-amber-800',
+  ON_TRACK: 'bg-green-100 text-green-800',
+  UNDERSPENDING: 'bg-blue-100 text-blue-800',
+  NO_BUDGET: 'bg-gray-100 text-gray-600',
+};
+
+export function ForecastStatusBadge({ status }: { status: ForecastStatus }) {
+  return <Badge className={`text-[10px] ${STATUS_STYLES[status]}`}>{FORECAST_STATUSES[status]}</Badge>;
+}
+
+// Year-end projection of every budget line from its burn rate so far, with the lines heading over budget first
+export function BudgetForecastView({ forecast }: BudgetForecastViewProps) {
+  const format = (amount: number) => formatMoney(amount, forecast.currency);
+  const trendingOver = getLinesTrendingOver(forecast);
+  const projectedVariance = forecast.totalBudget - forecast.projectedSpend;
+  const elapsedPercent = Math.round(forecast.elapsedFraction * 100);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-600">Spent to Date</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-orange-600">{format(forecast.totalSpent)}</div>
+            <p className="text-xs text-gray-500">{elapsedPercent}% of {forecast.year} elapsed</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-600">Burn Rate</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-gray-900">{format(forecast.burnRatePerMonth)}</div>
+            <p className="text-xs text-gray-500">per month</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-600">Projected Year-End Spend</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-blue-600">{format(forecast.projectedSpend)}</div>
+            <p className="text-xs text-gray-500">of {format(forecast.totalBudget)} budget</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-600">Projected Variance</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${projectedVariance < 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {projectedVariance < 0 ? '-' : ''}{format(Math.abs(projectedVariance))}
+            </div>
+            <p className="text-xs text-gray-500">{projectedVariance < 0 ? 'over budget' : 'under budget'} at the current rate</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {trendingOver.length > 0 && (
+        <Card className="border-amber-200">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-amber-800">
+              <AlertTriangle className="w-5 h-5" />
+              Lines Trending Over Budget ({trendingOver.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-2 text-sm">
+              {trendingOver.map(item => (
+                <li key={item.key} className="flex items-center justify-between gap-2">
+                  <span>
+                    <span className="font-medium">{item.activityTitle}</span>
+                    <span className="text-gray-600"> · {item.label}</span>
+                  </span>
+                  <span className="flex items-center gap-2">
+                    <span className="text-red-700">
+                      {format(item.projected - item.budget)} over
+                    </span>
+                    <ForecastStatusBadge status={item.status} />
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="w-5 h-5" />
+            Budget Line Forecast
+          </CardTitle>
+          <p className="text-sm text-gray-600">
+            Year-end spend assumes each line keeps spending at its average monthly rate so far. Activities without
+            budget lines are forecast from their quarterly costs.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Activity</th>
+                  <th className="text-left p-2">Line</th>
+                  <th className="text-right p-2">Budget</th>
+                  <th className="text-right p-2">Spent</th>
+                  <th className="text-right p-2">Burn / month</th>
+                  <th className="text-right p-2">Year-end forecast</th>
+                  <th className="text-right p-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {forecast.items.map(item => {
+                  const highlight = item.status === 'OVERSPENT' || item.status === 'TRENDING_OVER';
+                  return (
+                    <tr key={item.key} className={`border-b ${highlight ? 'bg-amber-50' : ''}`}>
+                      <td className="p-2">{item.activityTitle}</td>
+                      <td className="p-2">
+                        {item.label}
+                        {item.category && <span className="ml-2 text-xs text-gray-500">{BUDGET_CATEGORIES[item.category]}</span>}
+                      </td>
+                      <td className="p-2 text-right text-blue-600">{format(item.budget)}</td>
+                      <td className="p-2 text-right text-orange-600">{format(item.spent)}</td>
+                      <td className="p-2 text-right">{format(item.burnRatePerMonth)}</td>
+                      <td className={`p-2 text-right font-medium ${highlight ? 'text-red-700' : ''}`}>{format(item.projected)}</td>
+                      <td className="p-2 text-right">
+                        <ForecastStatusBadge status={item.status} />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronDown, ChevronRight, Loader2, Plus, Receipt, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { financialApi, BudgetCategory, BudgetLineItem } from '@/lib/api/financialApi';
+import { formatMoney } from '@/lib/exchangeRates';
+import { BUDGET_CATEGORIES, BudgetLineForecast, getBudgetLineSpent } from '@/lib/budgetForecast';
+import { ForecastStatusBadge } from './BudgetForecastView';
+
+interface BudgetLineItemsProps {
+  activityId: string;
+  year: number;
+  currency: string; // Lines and actuals are recorded in the activity's currency
+  annualBudget: number;
+  lines: BudgetLineItem[];
+  forecasts: BudgetLineForecast[]; // In the display currency, keyed by budget line
+  displayCurrency: string;
+  canEdit: boolean;
+  onLineSaved: (line: BudgetLineItem) => void;
+  onLineDeleted: (lineId: string) => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export function BudgetLineItems({
+  activityId,
+  year,
+  currency,
+  annualBudget,
+  lines,
+  forecasts,
+  displayCurrency,
+  canEdit,
+  onLineSaved,
+  onLineDeleted,
+}: BudgetLineItemsProps) {
+  const [newLine, setNewLine] = useState<{ category: BudgetCategory; description: string; budget: string }>({
+    category: 'PERSONNEL',
+    description: '',
+    budget: '',
+  });
+  const [expandedLineId, setExpandedLineId] = useState<string | null>(null);
+  const [actual, setActual] = useState({ amount: '', date: today(), description: '', reference: '' });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const allocated = lines.reduce((sum, line) => sum + (line.budget || 0), 0);
+  const unallocated = annualBudget - allocated;
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : failure,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddLine = () => run(async () => {
+    const saved = await financialApi.createBudgetLineItem({
+      activityId,
+      year,
+      category: newLine.category,
+      description: newLine.description.trim() || BUDGET_CATEGORIES[newLine.category],
+      budget: parseFloat(newLine.budget) || 0,
+    });
+    onLineSaved(saved);
+    setNewLine({ category: newLine.category, description: '', budget: '' });
+  }, 'Failed to add budget line');
+
+  const handleBudgetChange = (line: BudgetLineItem, value: string) => {
+    const budget = parseFloat(value) || 0;
+    if (budget === line.budget) return;
+    run(async () => onLineSaved(await financialApi.updateBudgetLineItem(line.id, { budget })), 'Failed to update budget line');
+  };
+
+  const handleDeleteLine = (line: BudgetLineItem) => {
+    if (!confirm(`Delete the budget line "${line.description}" and its ${line.actuals?.length || 0} posted actual(s)?`)) return;
+    run(async () => {
+      await financialApi.deleteBudgetLineItem(line.id);
+      onLineDeleted(line.id);
+    }, 'Failed to delete budget line');
+  };
+
+  const handlePostActual = (line: BudgetLineItem) => run(async () => {
+    const saved = await financialApi.postBudgetActual(line.id, {
+      amount: parseFloat(actual.amount) || 0,
+      date: actual.date,
+      description: actual.description.trim() || undefined,
+      reference: actual.reference.trim() || undefined,
+    });
+    onLineSaved(saved);
+    setActual({ amount: '', date: actual.date, description: '', reference: '' });
+  }, 'Failed to post actual');
+
+  const handleDeleteActual = (line: BudgetLineItem, actualId: string) =>
+    run(async () => onLineSaved(await financialApi.deleteBudgetActual(line.id, actualId)), 'Failed to delete actual');
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-gray-900 flex items-center gap-2">
+          <Receipt className="w-4 h-4" />
+          Budget Lines
+        </h4>
+        {lines.length > 0 && (
+          <span className={`text-xs ${unallocated < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+            {formatMoney(allocated, currency)} of {formatMoney(annualBudget, currency)} allocated
+            {unallocated !== 0 && ` (${unallocated < 0 ? 'over by ' : ''}${formatMoney(Math.abs(unallocated), currency)}${unallocated > 0 ? ' unallocated' : ''})`}
+          </span>
+        )}
+      </div>
+
+      {lines.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No budget lines yet. Break the annual budget into donor lines to post actuals against them and forecast each line.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-gray-600">
+                <th className="text-left p-2">Line</th>
+                <th className="text-right p-2">Budget</th>
+                <th className="text-right p-2">Actual</th>
+                <th className="text-right p-2">Remaining</th>
+                <th className="text-right p-2">Year-end forecast</th>
+                <th className="p-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {lines.map(line => {
+                const spent = getBudgetLineSpent(line);
+                const forecast = forecasts.find(item => item.budgetLineId === line.id);
+                const isExpanded = expandedLineId === line.id;
+                return (
+                  <React.Fragment key={line.id}>
+                    <tr className="border-b">
+                      <td className="p-2">
+                        <button
+                          type="button"
+                          className="flex items-center gap-1 text-left"
+                          onClick={() => setExpandedLineId(isExpanded ? null : line.id)}
+                        >
+                          {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                          <span className="font-medium">{line.description}</span>
+                        </button>
+                        <span className="ml-4 text-xs text-gray-500">{BUDGET_CATEGORIES[line.category]}</span>
+                      </td>
+                      <td className="p-2 text-right">
+                        {canEdit ? (
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            defaultValue={line.budget}
+                            onBlur={(e) => handleBudgetChange(line, e.target.value)}
+                            className="h-8 w-32 ml-auto text-right"
+                          />
+                        ) : (
+                          formatMoney(line.budget, currency)
+                        )}
+                      </td>
+                      <td className="p-2 text-right text-orange-600">{formatMoney(spent, currency)}</td>
+                      <td className={`p-2 text-right ${line.budget - spent < 0 ? 'text-red-600' : ''}`}>
+                        {formatMoney(line.budget - spent, currency)}
+                      </td>
+                      <td className="p-2 text-right">
+                        {forecast && (
+                          <div className="flex flex-col items-end gap-1">
+                            <span>{formatMoney(forecast.projected, displayCurrency)}</span>
+                            <ForecastStatusBadge status={forecast.status} />
+                          </div>
+                        )}
+                      </td>
+                      <td className="p-2 text-right">
+                        {canEdit && (
+                          <Button variant="ghost" size="sm" onClick={() => handleDeleteLine(line)} disabled={isSaving} aria-label="Delete budget line">
+                            <Trash2 className="w-4 h-4 text-red-600" />
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="border-b bg-gray-50">
+                        <td colSpan={6} className="p-3 space-y-3">
+                          {(line.actuals || []).length === 0 ? (
+                            <p className="text-xs text-gray-500">No actuals posted against this line yet.</p>
+                          ) : (
+                            <ul className="space-y-1">
+                              {[...line.actuals]
+                                .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+                                .map(item => (
+                                  <li key={item.id} className="flex items-center justify-between gap-2 text-xs">
+                                    <span>
+                                      {new Date(item.date).toLocaleDateString()} · {formatMoney(item.amount, currency)}
+                                      {item.description && ` · ${item.description}`}
+                                      {item.reference && <span className="text-gray-500"> (ref {item.reference})</span>}
+                                      {item.postedBy && <span className="text-gray-500"> by {item.postedBy}</span>}
+                                    </span>
+                                    {canEdit && (
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-6"
+                                        onClick={() => handleDeleteActual(line, item.id)}
+                                        disabled={isSaving}
+                                        aria-label="Delete actual"
+                                      >
+                                        <Trash2 className="w-3 h-3 text-red-600" />
+                                      </Button>
+                                    )}
+                                  </li>
+                                ))}
+                            </ul>
+                          )}
+                          {canEdit && (
+                            <div className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+                              <div>
+                                <Label className="text-xs">Amount ({currency})</Label>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  step="0.01"
+                                  value={actual.amount}
+                                  onChange={(e) => setActual({ ...actual, amount: e.target.value })}
+                                  className="h-8"
+                                />
+                              </div>
+                              <div>
+                                <Label className="text-xs">Date</Label>
+                                <Input
+                                  type="date"
+                                  value={actual.date}
+                                  onChange={(e) => setActual({ ...actual, date: e.target.value })}
+                                  className="h-8"
+                                />
+                              </div>
+                              <div>
+                                <Label className="text-xs">Description</Label>
+                                <Input
+                                  value={actual.description}
+                                  onChange={(e) => setActual({ ...actual, description: e.target.value })}
+                                  className="h-8"
+                                />
+                              </div>
+                              <div>
+                                <Label className="text-xs">Reference</Label>
+                                <Input
+                                  value={actual.reference}
+                                  onChange={(e) => setActual({ ...actual, reference: e.target.value })}
+                                  placeholder="Voucher no."
+                                  className="h-8"
+                                />
+                              </div>
+                              <Button
+                                size="sm"
+                                onClick={() => handlePostActual(line)}
+                                disabled={isSaving || !(parseFloat(actual.amount) > 0) || !actual.date}
+                              >
+                                {isSaving ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Plus className="w-4 h-4 mr-1" />}
+                                Post Actual
+                              </Button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {canEdit && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end pt-2 border-t">
+          <div>
+            <Label className="text-xs">Category</Label>
+            <Select value={newLine.category} onValueChange={(value) => setNewLine({ ...newLine, category: value as BudgetCategory })}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(BUDGET_CATEGORIES) as BudgetCategory[]).map(category => (
+                  <SelectItem key={category} value={category}>{BUDGET_CATEGORIES[category]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs">Description</Label>
+            <Input
+              value={newLine.description}
+              onChange={(e) => setNewLine({ ...newLine, description: e.target.value })}
+              placeholder="e.g. Field officer salaries"
+              className="h-8"
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Budget ({currency})</Label>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={newLine.budget}
+              onChange={(e) => setNewLine({ ...newLine, budget: e.target.value })}
+              className="h-8"
+            />
+          </div>
+          <Button size="sm" onClick={handleAddLine} disabled={isSaving || !(parseFloat(newLine.budget) >= 0) || newLine.budget === ''}>
+            {isSaving ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Plus className="w-4 h-4 mr-1" />}
+            Add Line
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
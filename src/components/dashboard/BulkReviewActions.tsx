@@ -93,7 +93,13 @@ export function BulkReviewActions({
   const handleBulkApprove = async () => {
     try {
       setIsSubmitting(true);
-      const result = await reportWorkflowService.bulkApprove(selectedReports, approveComment);
+      // Unresolved annotations block approval unless the reviewer overrides them
+      const unresolvedCounts = await Promise.all(selectedReports.map(id => reportWorkflowService.getUnresolvedAnnotationCount(id)));
+      const withUnresolved = unresolvedCounts.filter(count => count > 0).length;
+      if (withUnresolved > 0 && !window.confirm(`${withUnresolved} of the selected reports have unresolved annotations. Approve them anyway?`)) {
+        return;
+      }
+      const result = await reportWorkflowService.bulkApprove(selectedReports, approveComment, withUnresolved > 0);
       toast({ 
         title: 'Bulk Approval Complete', 
         description: `Successfully approved ${result.success} reports. ${result.failed > 0 ? `${result.failed} failed.` : ''}`,
@@ -0,0 +1,245 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { MultiSelect } from '@/components/ui/multi-select';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, ShieldCheck, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { formsApi } from '@/lib/api/formsApi';
+import { DATA_QUALITY_RULE_TYPES, createDataQualityRule, getDefaultDataQualityRules } from '@/lib/dataQuality';
+import { DataQualityRule, DataQualityRuleType, Form, FormSettings } from './form-creation-wizard/types';
+
+interface DataQualityRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  form: Form;
+  onSaved: (settings: FormSettings) => void;
+}
+
+const QUESTION_TYPE_FOR_RULE: Partial<Record<DataQualityRuleType, string>> = {
+  LOCATION_BOUNDS: 'LOCATION',
+  NUMBER_OUTLIER: 'NUMBER',
+};
+
+const parseNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+export function DataQualityRulesDialog({ open, onOpenChange, projectId, form, onSaved }: DataQualityRulesDialogProps) {
+  const [rules, setRules] = useState<DataQualityRule[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved rules each time the dialog opens
+  useEffect(() => {
+    if (open) setRules(form.settings?.dataQuality?.rules || getDefaultDataQualityRules());
+  }, [open, form.settings]);
+
+  const questions = form.sections.flatMap(section => section.questions || []);
+
+  const getQuestionOptions = (rule: DataQualityRule) => {
+    const type = QUESTION_TYPE_FOR_RULE[rule.type];
+    return questions
+      .filter(question => (type ? question.type === type : !['IMAGE_UPLOAD', 'VIDEO_UPLOAD', 'AUDIO_UPLOAD', 'FILE_UPLOAD', 'LOCATION'].includes(question.type)))
+      .map(question => ({ value: question.id, label: question.title || 'Untitled question' }));
+  };
+
+  const updateRule = (id: string, updates: Partial<DataQualityRule>) => {
+    setRules(prev => prev.map(rule => (rule.id === id ? { ...rule, ...updates } : rule)));
+  };
+
+  const updateBounds = (rule: DataQualityRule, field: keyof NonNullable<DataQualityRule['bounds']>, value: string) => {
+    const bounds = { minLatitude: -90, maxLatitude: 90, minLongitude: -180, maxLongitude: 180, ...rule.bounds };
+    const parsed = parseNumber(value);
+    updateRule(rule.id, { bounds: { ...bounds, [field]: parsed ?? bounds[field] } });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const settings = { ...form.settings, dataQuality: { rules } };
+      await formsApi.updateForm(projectId, form.id, { settings });
+      onSaved(settings);
+      onOpenChange(false);
+      toast({
+        title: 'Rules Saved',
+        description: 'Responses are being re-checked with the updated rules.',
+      });
+    } catch (error) {
+      console.error('Failed to save data quality rules:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save data quality rules',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderRuleSettings = (rule: DataQualityRule) => {
+    switch (rule.type) {
+      case 'DUPLICATE_RESPONDENT':
+        return (
+          <div>
+            <Label className="text-xs">Match on</Label>
+            <MultiSelect
+              options={getQuestionOptions(rule)}
+              value={rule.questionIds || []}
+              onChange={(questionIds) => updateRule(rule.id, { questionIds })}
+              placeholder="Respondent email or user account"
+            />
+            <p className="text-xs text-gray-500 mt-1">Pick identifying questions (e.g. name and phone number) for anonymous forms</p>
+          </div>
+        );
+      case 'FAST_COMPLETION':
+        return (
+          <div className="w-48">
+            <Label className="text-xs">Minimum time (seconds)</Label>
+            <Input
+              type="number"
+              min={1}
+              value={rule.minSeconds ?? ''}
+              onChange={(e) => updateRule(rule.id, { minSeconds: parseNumber(e.target.value) })}
+            />
+          </div>
+        );
+      case 'LOCATION_BOUNDS':
+        return (
+          <div className="space-y-2">
+            <div>
+              <Label className="text-xs">Questions</Label>
+              <MultiSelect
+                options={getQuestionOptions(rule)}
+                value={rule.questionIds || []}
+                onChange={(questionIds) => updateRule(rule.id, { questionIds })}
+                placeholder="All location questions"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Only accept points inside an area</Label>
+              <Switch
+                checked={!!rule.bounds}
+                onCheckedChange={(checked) => updateRule(rule.id, {
+                  bounds: checked ? { minLatitude: -90, maxLatitude: 90, minLongitude: -180, maxLongitude: 180 } : undefined,
+                })}
+              />
+            </div>
+            {rule.bounds && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {([
+                  ['minLatitude', 'Min latitude'],
+                  ['maxLatitude', 'Max latitude'],
+                  ['minLongitude', 'Min longitude'],
+                  ['maxLongitude', 'Max longitude'],
+                ] as const).map(([field, label]) => (
+                  <div key={field}>
+                    <Label className="text-xs">{label}</Label>
+                    <Input
+                      type="number"
+                      step="any"
+                      defaultValue={rule.bounds![field]}
+                      onBlur={(e) => updateBounds(rule, field, e.target.value)}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      case 'NUMBER_OUTLIER':
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_12rem] gap-2">
+            <div>
+              <Label className="text-xs">Questions</Label>
+              <MultiSelect
+                options={getQuestionOptions(rule)}
+                value={rule.questionIds || []}
+                onChange={(questionIds) => updateRule(rule.id, { questionIds })}
+                placeholder="All number questions"
+              />
+            </div>
+            <div>
+              <Label className="text-xs">Standard deviations</Label>
+              <Input
+                type="number"
+                min={1}
+                step="0.5"
+                value={rule.maxZScore ?? ''}
+                onChange={(e) => updateRule(rule.id, { maxZScore: parseNumber(e.target.value) })}
+              />
+            </div>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" />
+            Data Quality Rules
+          </DialogTitle>
+          <DialogDescription>
+            Responses that break a rule are flagged in the response table so they can be confirmed or cleared
+            before the data is used.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {rules.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-4">No rules. Add one below to start checking responses.</p>
+          )}
+          {rules.map(rule => (
+            <div key={rule.id} className={`border rounded-md p-3 space-y-3 ${rule.enabled ? '' : 'opacity-60'}`}>
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <div className="text-sm font-medium">{DATA_QUALITY_RULE_TYPES[rule.type].label}</div>
+                  <div className="text-xs text-gray-500">{DATA_QUALITY_RULE_TYPES[rule.type].description}</div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch checked={rule.enabled} onCheckedChange={(enabled) => updateRule(rule.id, { enabled })} />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setRules(prev => prev.filter(r => r.id !== rule.id))}
+                    aria-label="Remove rule"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+              {rule.enabled && renderRuleSettings(rule)}
+            </div>
+          ))}
+
+          <Select value="" onValueChange={(type) => setRules(prev => [...prev, createDataQualityRule(type as DataQualityRuleType)])}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Add a rule" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DATA_QUALITY_RULE_TYPES) as DataQualityRuleType[]).map(type => (
+                <SelectItem key={type} value={type}>{DATA_QUALITY_RULE_TYPES[type].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Rules
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,211 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowRightLeft, Loader2, Plus, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { financialApi, ExchangeRate, SaveExchangeRateDto } from '@/lib/api/financialApi';
+import { BASE_CURRENCY, CURRENCIES, getRatePeriodLabel } from '@/lib/exchangeRates';
+
+interface ExchangeRateTableProps {
+  year: number;
+  rates: ExchangeRate[];
+  canManage: boolean;
+  onRatesChange: (rates: ExchangeRate[]) => void;
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const samePeriod = (rate: ExchangeRate, dto: SaveExchangeRateDto) =>
+  rate.currency === dto.currency && rate.year === dto.year && rate.period === dto.period &&
+  (dto.period === 'MONTH' ? rate.month === dto.month : rate.quarter === dto.quarter);
+
+export function ExchangeRateTable({ year, rates, canManage, onRatesChange }: ExchangeRateTableProps) {
+  const [currency, setCurrency] = useState('TZS');
+  const [period, setPeriod] = useState<'MONTH' | 'QUARTER'>('QUARTER');
+  const [periodValue, setPeriodValue] = useState('1');
+  const [rate, setRate] = useState('');
+  const [source, setSource] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const yearRates = useMemo(
+    () => rates
+      .filter(r => r.year === year)
+      .sort((a, b) =>
+        a.currency.localeCompare(b.currency) ||
+        (a.period === 'MONTH' ? (a.month || 0) : (a.quarter || 0) * 3) - (b.period === 'MONTH' ? (b.month || 0) : (b.quarter || 0) * 3)
+      ),
+    [rates, year]
+  );
+
+  const handleSave = async () => {
+    const value = parseFloat(rate);
+    if (!value || value <= 0) return;
+
+    const dto: SaveExchangeRateDto = {
+      currency,
+      year,
+      period,
+      ...(period === 'MONTH' ? { month: Number(periodValue) } : { quarter: Number(periodValue) }),
+      rate: value,
+      source: source.trim() || undefined,
+    };
+
+    setIsSaving(true);
+    try {
+      const saved = await financialApi.saveExchangeRate(dto);
+      onRatesChange([...rates.filter(r => r.id !== saved.id && !samePeriod(r, dto)), saved]);
+      setRate('');
+      toast({
+        title: 'Rate Saved',
+        description: `1 ${BASE_CURRENCY} = ${value} ${currency} for ${getRatePeriodLabel(dto)}`,
+      });
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save exchange rate',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (target: ExchangeRate) => {
+    if (!confirm(`Delete the ${target.currency} rate for ${getRatePeriodLabel(target)}?`)) return;
+    try {
+      await financialApi.deleteExchangeRate(target.id);
+      onRatesChange(rates.filter(r => r.id !== target.id));
+    } catch (error) {
+      console.error('Error deleting exchange rate:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete exchange rate',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArrowRightLeft className="w-5 h-5" />
+          Exchange Rates {year}
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Rates are units of each currency per 1 {BASE_CURRENCY}. Costs are converted with the rate for the quarter
+          they were spent in: a quarterly rate if recorded, otherwise the average of that quarter's monthly rates,
+          otherwise the most recent earlier rate.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canManage && (
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end p-4 bg-gray-50 rounded-lg">
+            <div>
+              <Label className="text-xs">Currency</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.filter(c => c.code !== BASE_CURRENCY).map(c => (
+                    <SelectItem key={c.code} value={c.code}>{c.code} – {c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs">Period</Label>
+              <Select
+                value={period}
+                onValueChange={(value: 'MONTH' | 'QUARTER') => {
+                  setPeriod(value);
+                  setPeriodValue('1');
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="QUARTER">Quarter</SelectItem>
+                  <SelectItem value="MONTH">Month</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs">{period === 'MONTH' ? 'Month' : 'Quarter'}</Label>
+              <Select value={periodValue} onValueChange={setPeriodValue}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {period === 'MONTH'
+                    ? MONTHS.map((name, index) => <SelectItem key={name} value={String(index + 1)}>{name}</SelectItem>)
+                    : [1, 2, 3, 4].map(q => <SelectItem key={q} value={String(q)}>Q{q}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs">Rate (per 1 {BASE_CURRENCY})</Label>
+              <Input type="number" min="0" step="any" value={rate} onChange={(e) => setRate(e.target.value)} placeholder="e.g. 2500" />
+            </div>
+            <div>
+              <Label className="text-xs">Source (optional)</Label>
+              <Input value={source} onChange={(e) => setSource(e.target.value)} placeholder="e.g. Central bank" />
+            </div>
+            <Button onClick={handleSave} disabled={isSaving || !(parseFloat(rate) > 0)}>
+              {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+              Save Rate
+            </Button>
+          </div>
+        )}
+
+        {yearRates.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No exchange rates recorded for {year}. Costs in other currencies use the most recent earlier rate.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Currency</th>
+                  <th className="text-left p-2">Period</th>
+                  <th className="text-right p-2">Rate</th>
+                  <th className="text-left p-2">Source</th>
+                  <th className="text-left p-2">Updated</th>
+                  {canManage && <th className="p-2" />}
+                </tr>
+              </thead>
+              <tbody>
+                {yearRates.map(r => (
+                  <tr key={r.id} className="border-b">
+                    <td className="p-2 font-medium">{r.currency}</td>
+                    <td className="p-2">{getRatePeriodLabel(r)}</td>
+                    <td className="p-2 text-right font-mono">{r.rate.toLocaleString('en-US', { maximumFractionDigits: 4 })}</td>
+                    <td className="p-2 text-gray-600">{r.source || '—'}</td>
+                    <td className="p-2 text-gray-600">
+                      {new Date(r.updatedAt).toLocaleDateString()}
+                      {r.updatedBy && ` by ${r.updatedBy}`}
+                    </td>
+                    {canManage && (
+                      <td className="p-2 text-right">
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(r)} aria-label="Delete rate">
+                          <Trash2 className="w-4 h-4 text-red-600" />
+                        </Button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { createEnhancedPermissionManager } from '@/lib/permissions';
@@ -23,19 +23,22 @@ import {
   Activity as ActivityIcon,
   Calculator,
   AlertCircle,
-  Loader2
+  Loader2,
+  ArrowRightLeft,
+  Upload
 } from 'lucide-react';
 import { useDashboard } from '@/contexts/DashboardContext';
 import { useProjects } from '@/contexts/ProjectsContext';
 import { 
   LegacyActivityFinancialData, 
-  FinancialSummary,
   Activity 
 } from '@/types/dashboard';
 import { 
   financialApi,
   ProjectFinancialData,
   ActivityFinancialData,
+  ExchangeRate,
+  BudgetLineItem,
   CreateProjectFinancialDataDto,
   CreateActivityFinancialDataDto,
   UpdateActivityFinancialDataDto
@@ -43,6 +46,13 @@ import {
 import { format } from 'date-fns';
 import { FinancialCharts } from './FinancialCharts';
 import { AddFinancialDataModal } from './modals/AddFinancialDataModal';
+import { FinancialImportModal } from './modals/FinancialImportModal';
+import { ExchangeRateTable } from './ExchangeRateTable';
+import { BudgetLineItems } from './BudgetLineItems';
+import { BudgetForecastView } from './BudgetForecastView';
+import { GrantsPanel } from './GrantsPanel';
+import { BASE_CURRENCY, CURRENCIES, convertActivityFinancials, formatMoney, getCurrency } from '@/lib/exchangeRates';
+import { BudgetLineForecast, forecastBudget } from '@/lib/budgetForecast';
 
 export default function Financial() {
   const { projectId } = useParams<{ projectId: string }>();
@@ -54,13 +64,18 @@ export default function Financial() {
     permissionManager.hasResourcePermission('finance', 'update', 'regional') ||
     permissionManager.hasResourcePermission('finance', 'update', 'global')
   ) : false;
+  // Exchange rates are shared across projects, so only regional or global finance admins maintain them
+  const canManageRates =
+    permissionManager.hasResourcePermission('finance', 'update', 'regional') ||
+    permissionManager.hasResourcePermission('finance', 'update', 'global');
   const { currentProject } = useDashboard();
   const { projects, getProjectActivities } = useProjects();
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
-  const [selectedCurrency, setSelectedCurrency] = useState<'USD' | 'TZS' | 'KSH' | 'CIF'>('USD');
+  const [selectedCurrency, setSelectedCurrency] = useState<string>(BASE_CURRENCY);
   const [projectFinancialData, setProjectFinancialData] = useState<ProjectFinancialData | null>(null);
   const [activitiesFinancialData, setActivitiesFinancialData] = useState<ActivityFinancialData[]>([]);
-  const [summary, setSummary] = useState<FinancialSummary | null>(null);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [budgetLines, setBudgetLines] = useState<BudgetLineItem[]>([]);
   const [isEditing, setIsEditing] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -71,43 +86,23 @@ export default function Financial() {
   // Modal state
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedActivity, setSelectedActivity] = useState<Activity | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
-  // Currency conversion rates (example rates - in production, these should come from an API)
-  const currencyRates = {
-    USD: 1,
-    TZS: 2500, // 1 USD = 2500 TZS (approximate)
-    KSH: 150,  // 1 USD = 150 KSH (approximate)
-    CIF: 1.1   // 1 USD = 1.1 CIF (approximate)
-  };
-
-  // Helper function to convert amount to selected currency
-  const convertCurrency = (amount: number, fromCurrency: 'USD' = 'USD'): number => {
-    if (fromCurrency === selectedCurrency) return amount;
-    return amount * currencyRates[selectedCurrency] / currencyRates[fromCurrency];
-  };
+  // Budgets and costs converted into the selected currency at the rate effective in each quarter
+  const converted = useMemo(
+    () => convertActivityFinancials(projectId || '', selectedYear, activitiesFinancialData, exchangeRates, selectedCurrency),
+    [projectId, selectedYear, activitiesFinancialData, exchangeRates, selectedCurrency]
+  );
+  const summary = activitiesFinancialData.length > 0 ? converted.summary : null;
 
-  // Helper function to get currency symbol
-  const getCurrencySymbol = (currency: string): string => {
-    switch (currency) {
-      case 'USD': return '$';
-      case 'TZS': return 'TSh';
-      case 'KSH': return 'KSh';
-      case 'CIF': return 'CIF';
-      default: return '$';
-    }
-  };
+  // Year-end projection of each budget line from its burn rate, in the selected currency
+  const forecast = useMemo(
+    () => forecastBudget(selectedYear, activitiesFinancialData, budgetLines, exchangeRates, selectedCurrency),
+    [selectedYear, activitiesFinancialData, budgetLines, exchangeRates, selectedCurrency]
+  );
 
-  // Helper function to format currency amount
-  const formatCurrency = (amount: number): string => {
-    const convertedAmount = convertCurrency(amount);
-    const symbol = getCurrencySymbol(selectedCurrency);
-    
-    if (selectedCurrency === 'USD') {
-      return `${symbol}${convertedAmount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
-    } else {
-      return `${symbol} ${convertedAmount.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
-    }
-  };
+  // Helper function to format an amount that is already in the selected currency
+  const formatCurrency = (amount: number): string => formatMoney(amount, selectedCurrency);
 
   useEffect(() => {
     if (projectId) {
@@ -116,6 +111,18 @@ export default function Financial() {
     }
   }, [projectId, selectedYear]);
 
+  // All years are loaded so quarters without a rate can fall back to the most recent earlier one
+  useEffect(() => {
+    const loadExchangeRates = async () => {
+      try {
+        setExchangeRates(await financialApi.getExchangeRates());
+      } catch (error) {
+        console.error('Error loading exchange rates:', error);
+      }
+    };
+    loadExchangeRates();
+  }, []);
+
   const loadActivities = async () => {
     if (!projectId) return;
     try {
@@ -139,6 +146,7 @@ export default function Financial() {
       // Load activities financial data first (independent of project financial data)
         const activities = await getProjectActivities(projectId);
         const allActivitiesData: ActivityFinancialData[] = [];
+        const allBudgetLines: BudgetLineItem[] = [];
         
         for (const activity of activities) {
           try {
@@ -148,10 +156,18 @@ export default function Financial() {
           } catch (err) {
             // Activity doesn't have financial data yet, skip
           console.log(`⏭️ No financial data for activity ${activity.title}`);
+            continue;
+          }
+
+          try {
+            allBudgetLines.push(...await financialApi.getBudgetLineItems(activity.id, selectedYear));
+          } catch {
+            // Budget not broken into lines yet; the activity is forecast from its quarterly costs
           }
         }
         
         setActivitiesFinancialData(allActivitiesData);
+        setBudgetLines(allBudgetLines);
       console.log('📊 Total activities with financial data:', allActivitiesData.length);
       
       // Load project financial data
@@ -162,23 +178,13 @@ export default function Financial() {
       setProjectFinancialData(safeProjectData.length > 0 ? safeProjectData[0] : null);
       console.log('🏢 Project financial data:', safeProjectData.length > 0 ? 'Found' : 'Not found');
       
-      // Try to load summary regardless of project data (activities might exist without project summary)
-      try {
-        const summaryData = await financialApi.getFinancialSummary(projectId, selectedYear);
-        setSummary(summaryData);
-        console.log('📈 Summary data loaded:', summaryData);
-      } catch (summaryError) {
-        console.log('⚠️ No summary data available for year', selectedYear);
-        setSummary(null);
-      }
-      
     } catch (error: any) {
       console.error('❌ Error loading financial data:', error);
       const errorMessage = error.message || 'Failed to load financial data';
       setError(`Failed to load financial data: ${errorMessage}`);
       setProjectFinancialData(null);
-      setSummary(null);
       setActivitiesFinancialData([]);
+      setBudgetLines([]);
     } finally {
       setIsLoading(false);
     }
@@ -277,6 +283,10 @@ export default function Financial() {
       if (updates.notes !== undefined) {
         updateDto.notes = updates.notes;
       }
+
+      if (updates.currency !== undefined) {
+        updateDto.currency = updates.currency;
+      }
       
       const updatedActivity = await financialApi.updateActivityFinancialData(existingActivity.id, updateDto);
       
@@ -304,6 +314,7 @@ export default function Financial() {
       setActivitiesFinancialData(prev => 
         prev.filter(activity => activity.id !== existingActivity.id)
       );
+      setBudgetLines(prev => prev.filter(line => line.activityId !== activityId));
       
       // Reload summary to reflect changes
       await loadFinancialData();
@@ -313,6 +324,18 @@ export default function Financial() {
     }
   };
 
+  const saveBudgetLine = (line: BudgetLineItem) => {
+    setBudgetLines(prev =>
+      prev.some(existing => existing.id === line.id)
+        ? prev.map(existing => (existing.id === line.id ? line : existing))
+        : [...prev, line]
+    );
+  };
+
+  const removeBudgetLine = (lineId: string) => {
+    setBudgetLines(prev => prev.filter(line => line.id !== lineId));
+  };
+
   const saveFinancialData = () => {
     setIsEditing(false);
     loadFinancialData();
@@ -356,6 +379,7 @@ export default function Financial() {
     totalAnnualBudget: activity.totalAnnualBudget,
     totalAnnualCost: activity.totalAnnualCost,
     variance: activity.variance,
+    currency: activity.currency || BASE_CURRENCY,
     notes: activity.notes,
     lastUpdated: activity.lastUpdated,
     createdBy: '', // Not available in new format
@@ -393,9 +417,9 @@ export default function Financial() {
           <p className="text-gray-600">
             Track costs, budgets, and variances for {currentProject?.name}
           </p>
-          {selectedCurrency !== 'USD' && (
+          {selectedCurrency !== BASE_CURRENCY && (
             <p className="text-sm text-blue-600 mt-1">
-              💱 Displaying amounts in {selectedCurrency}. All data is stored in USD and converted for display.
+              💱 Displaying totals in {selectedCurrency}, converted at the exchange rate effective in each quarter.
             </p>
           )}
         </div>
@@ -413,18 +437,26 @@ export default function Financial() {
             </SelectContent>
           </Select>
           
-          <Select value={selectedCurrency} onValueChange={(value: 'USD' | 'TZS' | 'KSH' | 'CIF') => setSelectedCurrency(value)}>
+          <Select value={selectedCurrency} onValueChange={setSelectedCurrency}>
             <SelectTrigger className="w-32">
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="USD">USD ($)</SelectItem>
-              <SelectItem value="TZS">TZS (TSh)</SelectItem>
-              <SelectItem value="KSH">KSH (KSh)</SelectItem>
-              <SelectItem value="CIF">CIF</SelectItem>
+              {CURRENCIES.map(currency => (
+                <SelectItem key={currency.code} value={currency.code}>
+                  {currency.code}{currency.symbol !== currency.code ? ` (${currency.symbol})` : ''}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
           
+          {canWrite && (
+            <Button variant="outline" onClick={() => setIsImportOpen(true)} className="flex items-center gap-2">
+              <Upload className="w-4 h-4" />
+              Import
+            </Button>
+          )}
+
           <Button 
             variant={isEditing ? "default" : "outline"}
             onClick={() => isEditing ? saveFinancialData() : setIsEditing(true)}
@@ -454,11 +486,14 @@ export default function Financial() {
             {canRead && <TabsTrigger value="activities">Activities</TabsTrigger>}
             {canRead && <TabsTrigger value="quarterly">Quarterly Breakdown</TabsTrigger>}
             {canRead && <TabsTrigger value="charts">Charts</TabsTrigger>}
+            {canRead && <TabsTrigger value="forecast">Forecast</TabsTrigger>}
+            {canRead && <TabsTrigger value="grants">Grants</TabsTrigger>}
+            {canRead && <TabsTrigger value="rates">Exchange Rates</TabsTrigger>}
           </TabsList>
 
           {/* Overview Tab */}
           <TabsContent value="overview" className="space-y-4">
-            {!summary && activitiesFinancialData.length === 0 ? (
+            {!summary ? (
               <Card>
                 <CardContent className="p-8 text-center">
                   <DollarSign className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -468,7 +503,7 @@ export default function Financial() {
                   </p>
                 </CardContent>
               </Card>
-            ) : summary ? (
+            ) : (
               <>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <Card>
@@ -531,60 +566,42 @@ export default function Financial() {
                 </div>
               </CardContent>
             </Card>
+                {/* Rates applied */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-base">
+                      <ArrowRightLeft className="w-4 h-4" />
+                      Exchange Rates Applied
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2 text-sm">
+                    {converted.appliedRates.length === 0 && converted.missingRates.length === 0 ? (
+                      <p className="text-gray-600">All amounts are recorded in {selectedCurrency}; no conversion was needed.</p>
+                    ) : (
+                      <>
+                        <p className="text-gray-600">
+                          Amounts recorded in other currencies are converted through {BASE_CURRENCY} using the rate for the quarter they were spent in
+                          (annual budgets are spread evenly across the quarters).
+                        </p>
+                        <ul className="space-y-1">
+                          {converted.appliedRates.map(rate => (
+                            <li key={`${rate.currency}-${rate.quarter}`} className={rate.isFallback ? 'text-amber-700' : 'text-gray-700'}>
+                              Q{rate.quarter}: 1 {BASE_CURRENCY} = {rate.rate.toLocaleString('en-US', { maximumFractionDigits: 4 })} {rate.currency}
+                              <span className="text-gray-500"> · {rate.basis}</span>
+                            </li>
+                          ))}
+                        </ul>
+                        {converted.missingRates.length > 0 && (
+                          <p className="text-red-700">
+                            No exchange rate is recorded for {Array.from(new Set(converted.missingRates.map(m => m.currency))).join(', ')}.
+                            Amounts in {converted.missingRates.length === 1 ? 'this currency' : 'these currencies'} are left out of the totals until a rate is added.
+                          </p>
+                        )}
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
               </>
-            ) : (
-              // Fallback when we have activity data but no summary
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <DollarSign className="w-5 h-5" />
-                    Activity Financial Overview
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-                    <Card>
-                      <CardHeader className="pb-2">
-                        <CardTitle className="text-sm font-medium text-gray-600">Total Budget</CardTitle>
-                      </CardHeader>
-                      <CardContent>
-                        <div className="text-2xl font-bold text-blue-600">
-                          {formatCurrency(activitiesFinancialData.reduce((sum, activity) => sum + (activity.totalAnnualBudget || 0), 0))}
-                        </div>
-                      </CardContent>
-                    </Card>
-                    
-                    <Card>
-                      <CardHeader className="pb-2">
-                        <CardTitle className="text-sm font-medium text-gray-600">Total Spent</CardTitle>
-                      </CardHeader>
-                      <CardContent>
-                        <div className="text-2xl font-bold text-orange-600">
-                          {formatCurrency(activitiesFinancialData.reduce((sum, activity) => sum + (activity.totalAnnualCost || 0), 0))}
-                        </div>
-                      </CardContent>
-                    </Card>
-                    
-                    <Card>
-                      <CardHeader className="pb-2">
-                        <CardTitle className="text-sm font-medium text-gray-600">Variance</CardTitle>
-                      </CardHeader>
-                      <CardContent>
-                        <div className={`text-2xl font-bold flex items-center gap-2 ${getVarianceColor(activitiesFinancialData.reduce((sum, activity) => sum + (activity.variance || 0), 0))}`}>
-                          {getVarianceIcon(activitiesFinancialData.reduce((sum, activity) => sum + (activity.variance || 0), 0))}
-                          {formatCurrency(Math.abs(activitiesFinancialData.reduce((sum, activity) => sum + (activity.variance || 0), 0)))}
-                        </div>
-                      </CardContent>
-                    </Card>
-                  </div>
-                  <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-                    <p className="text-sm text-yellow-800">
-                      <strong>Note:</strong> Summary calculations are based on activity-level data. 
-                      For comprehensive reporting, ensure project-level financial data is also configured.
-                    </p>
-                  </div>
-                </CardContent>
-              </Card>
             )}
           </TabsContent>
 
@@ -604,6 +621,7 @@ export default function Financial() {
                     <ul className="text-sm text-blue-800 space-y-1">
                       <li>• <strong>Total Annual Budget:</strong> Enter the budget allocated for each activity</li>
                       <li>• <strong>Cost per Quarter:</strong> Enter actual costs incurred in each quarter (Q1, Q2, Q3, Q4)</li>
+                      <li>• <strong>Currency:</strong> Record amounts in the currency they were spent in; totals are converted at each quarter's exchange rate</li>
                       <li>• <strong>Total Annual Cost:</strong> Automatically calculated from quarterly costs</li>
                       <li>• <strong>Variance:</strong> Automatically calculated (Budget - Actual Cost)</li>
                     </ul>
@@ -644,20 +662,20 @@ export default function Financial() {
                                     <div>
                                       <Label className="text-sm text-gray-600">Annual Budget</Label>
                                       <div className="text-lg font-semibold text-blue-600">
-                                        {formatCurrency(existingData.totalAnnualBudget)}
+                                        {formatMoney(existingData.totalAnnualBudget, existingData.currency)}
                                       </div>
                                     </div>
                                     <div>
                                       <Label className="text-sm text-gray-600">Annual Cost</Label>
                                       <div className="text-lg font-semibold text-orange-600">
-                                        {formatCurrency(existingData.totalAnnualCost)}
+                                        {formatMoney(existingData.totalAnnualCost, existingData.currency)}
                                       </div>
                                     </div>
                                     <div>
                                       <Label className="text-sm text-gray-600">Variance</Label>
                                       <div className={`text-lg font-semibold flex items-center gap-1 ${getVarianceColor(existingData.variance)}`}>
                                         {getVarianceIcon(existingData.variance)}
-                                        {formatCurrency(Math.abs(existingData.variance))}
+                                        {formatMoney(Math.abs(existingData.variance), existingData.currency)}
                                       </div>
                                     </div>
                                   </div>
@@ -735,9 +753,12 @@ export default function Financial() {
                         isEditing={isEditing}
                         onUpdate={updateActivityData}
                         onRemove={removeActivityFinancialData}
-                        formatCurrency={formatCurrency}
-                        getCurrencySymbol={getCurrencySymbol}
-                        selectedCurrency={selectedCurrency}
+                        converted={converted.activities.find(activity => activity.activityId === activityData.activityId)}
+                        displayCurrency={selectedCurrency}
+                        budgetLines={budgetLines.filter(line => line.activityId === activityData.activityId)}
+                        forecasts={forecast.items.filter(item => item.activityId === activityData.activityId)}
+                        onBudgetLineSaved={saveBudgetLine}
+                        onBudgetLineDeleted={removeBudgetLine}
                       />
                     ))}
                     
@@ -768,7 +789,7 @@ export default function Financial() {
 
            {/* Charts Tab */}
            <TabsContent value="charts" className="space-y-4">
-             {!summary && activitiesFinancialData.length === 0 ? (
+             {!summary ? (
                <Card>
                  <CardContent className="p-8 text-center">
                    <TrendingUp className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -778,27 +799,31 @@ export default function Financial() {
                    </p>
                  </CardContent>
                </Card>
-             ) : summary ? (
-               <FinancialCharts summary={summary} />
              ) : (
-               <Card>
-                 <CardContent className="p-8 text-center">
-                   <TrendingUp className="h-12 w-12 text-yellow-400 mx-auto mb-4" />
-                   <h3 className="text-lg font-medium text-gray-900 mb-2">Charts Coming Soon</h3>
-                   <p className="text-sm text-gray-600">
-                     Activity-level financial data has been detected. Charts will be enhanced to display this data in a future update.
-                   </p>
-                   <div className="mt-4 text-sm text-blue-600">
-                     Activities with data: {activitiesFinancialData.length}
-                   </div>
-                 </CardContent>
-               </Card>
+               <FinancialCharts summary={summary} forecast={forecast} currency={selectedCurrency} />
              )}
            </TabsContent>
 
+          {/* Forecast Tab */}
+          <TabsContent value="forecast" className="space-y-4">
+            {!summary ? (
+              <Card>
+                <CardContent className="p-8 text-center">
+                  <TrendingUp className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">No Forecast Available</h3>
+                  <p className="text-sm text-gray-600">
+                    A year-end forecast will be available once budgets and spending are recorded for {selectedYear}.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <BudgetForecastView forecast={forecast} />
+            )}
+          </TabsContent>
+
            {/* Quarterly Breakdown Tab */}
            <TabsContent value="quarterly" className="space-y-4">
-             {!summary && activitiesFinancialData.length === 0 ? (
+             {!summary ? (
                <Card>
                  <CardContent className="p-8 text-center">
                    <Calendar className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -808,7 +833,7 @@ export default function Financial() {
                    </p>
                  </CardContent>
                </Card>
-             ) : summary ? (
+             ) : (
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
@@ -849,69 +874,33 @@ export default function Financial() {
                   </table>
                 </div>
               </CardContent>
-            </Card>
-             ) : (
-               // Fallback quarterly breakdown based on activity data
-               <Card>
-                 <CardHeader>
-                   <CardTitle className="flex items-center gap-2">
-                     <Calendar className="w-5 h-5" />
-                     Quarterly Breakdown (Activity-based)
-                   </CardTitle>
-                 </CardHeader>
-                 <CardContent>
-                   <div className="overflow-x-auto">
-                     <table className="w-full">
-                       <thead>
-                         <tr className="border-b">
-                           <th className="text-left p-2">Quarter</th>
-                           <th className="text-right p-2">Budget</th>
-                           <th className="text-right p-2">Spent</th>
-                           <th className="text-right p-2">Variance</th>
-                         </tr>
-                       </thead>
-                       <tbody>
-                         {['q1', 'q2', 'q3', 'q4'].map((quarter) => {
-                           const quarterBudget = activitiesFinancialData.reduce((sum, activity) => sum + (activity.totalAnnualBudget / 4), 0);
-                           const quarterSpent = activitiesFinancialData.reduce((sum, activity) => {
-                             const quarterCost = quarter === 'q1' ? activity.q1Cost : 
-                                                quarter === 'q2' ? activity.q2Cost :
-                                                quarter === 'q3' ? activity.q3Cost : activity.q4Cost;
-                             return sum + (quarterCost || 0);
-                           }, 0);
-                           const variance = quarterBudget - quarterSpent;
-                           
-                           return (
-                             <tr key={quarter} className="border-b">
-                               <td className="p-2 font-medium">{quarter.toUpperCase()}</td>
-                               <td className="p-2 text-right text-blue-600">
-                                 {formatCurrency(quarterBudget)}
-                               </td>
-                               <td className="p-2 text-right text-orange-600">
-                                 {formatCurrency(quarterSpent)}
-                               </td>
-                               <td className="p-2 text-right">
-                                 <Badge className={getVarianceColor(variance)}>
-                                   {getVarianceIcon(variance)}
-                                   {formatCurrency(Math.abs(variance))}
-                                 </Badge>
-                               </td>
-                             </tr>
-                           );
-                         })}
-                       </tbody>
-                     </table>
-                   </div>
-                   <div className="mt-4 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
-                     <p className="text-sm text-yellow-800">
-                       <strong>Note:</strong> Quarterly budget is estimated as annual budget ÷ 4. 
-                       Actual quarterly costs are from recorded activity data.
-                     </p>
-                </div>
-              </CardContent>
             </Card>
              )}
           </TabsContent>
+
+          {/* Grants Tab */}
+          <TabsContent value="grants" className="space-y-4">
+            {projectId && (
+              <GrantsPanel
+                projectId={projectId}
+                year={selectedYear}
+                activities={projectActivities}
+                activityRecords={activitiesFinancialData}
+                rates={exchangeRates}
+                canWrite={canWrite}
+              />
+            )}
+          </TabsContent>
+
+          {/* Exchange Rates Tab */}
+          <TabsContent value="rates" className="space-y-4">
+            <ExchangeRateTable
+              year={selectedYear}
+              rates={exchangeRates}
+              canManage={canManageRates}
+              onRatesChange={setExchangeRates}
+            />
+          </TabsContent>
         </Tabs>
 
         {/* Add Financial Data Modal */}
@@ -923,6 +912,17 @@ export default function Financial() {
           year={selectedYear}
           isLoading={isLoading}
         />
+
+        {/* Bulk import from accounting exports */}
+        <FinancialImportModal
+          isOpen={isImportOpen}
+          onClose={() => setIsImportOpen(false)}
+          activities={projectActivities}
+          year={selectedYear}
+          existing={activitiesFinancialData}
+          onBeforeImport={ensureProjectFinancialData}
+          onImported={loadFinancialData}
+        />
     </div>
   );
 }
@@ -932,13 +932,32 @@ interface ActivityFinancialCardProps {
   isEditing: boolean;
   onUpdate: (activityId: string, updates: Partial<LegacyActivityFinancialData>) => void;
   onRemove: (activityId: string) => void;
-  formatCurrency: (amount: number) => string;
-  getCurrencySymbol: (currency: string) => string;
-  selectedCurrency: 'USD' | 'TZS' | 'KSH' | 'CIF';
+  converted?: { budget: number; spent: number; variance: number }; // In the display currency
+  displayCurrency: string;
+  budgetLines: BudgetLineItem[];
+  forecasts: BudgetLineForecast[];
+  onBudgetLineSaved: (line: BudgetLineItem) => void;
+  onBudgetLineDeleted: (lineId: string) => void;
 }
 
-function ActivityFinancialCard({ activityData, isEditing, onUpdate, onRemove, formatCurrency, getCurrencySymbol, selectedCurrency }: ActivityFinancialCardProps) {
+function ActivityFinancialCard({
+  activityData,
+  isEditing,
+  onUpdate,
+  onRemove,
+  converted,
+  displayCurrency,
+  budgetLines,
+  forecasts,
+  onBudgetLineSaved,
+  onBudgetLineDeleted,
+}: ActivityFinancialCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const currency = activityData.currency || BASE_CURRENCY;
+  const showConverted = !!converted && currency !== displayCurrency;
+
+  // Amounts on the card are shown in the currency they were recorded in
+  const formatCurrency = (amount: number): string => formatMoney(amount, currency);
 
   const handleQuarterlyCostChange = (quarter: 'q1' | 'q2' | 'q3' | 'q4', value: string) => {
     const numValue = parseFloat(value) || 0;
@@ -1009,12 +1028,14 @@ function ActivityFinancialCard({ activityData, isEditing, onUpdate, onRemove, fo
               <div className="text-lg font-semibold text-blue-600">
                 {formatCurrency(activityData.totalAnnualBudget)}
               </div>
+              {showConverted && <div className="text-xs text-gray-500">≈ {formatMoney(converted!.budget, displayCurrency)}</div>}
             </div>
             <div>
               <Label className="text-sm text-gray-600">Annual Cost</Label>
               <div className="text-lg font-semibold text-orange-600">
                 {formatCurrency(activityData.totalAnnualCost)}
               </div>
+              {showConverted && <div className="text-xs text-gray-500">≈ {formatMoney(converted!.spent, displayCurrency)}</div>}
             </div>
             <div>
               <Label className="text-sm text-gray-600">Variance</Label>
@@ -1022,6 +1043,7 @@ function ActivityFinancialCard({ activityData, isEditing, onUpdate, onRemove, fo
                 {getVarianceIcon(activityData.variance)}
                 {formatCurrency(Math.abs(activityData.variance))}
               </div>
+              {showConverted && <div className="text-xs text-gray-500">≈ {formatMoney(Math.abs(converted!.variance), displayCurrency)}</div>}
             </div>
           </div>
 
@@ -1030,11 +1052,27 @@ function ActivityFinancialCard({ activityData, isEditing, onUpdate, onRemove, fo
             <div className="border rounded-lg p-4 bg-blue-50">
               <h4 className="font-medium text-blue-900 mb-3">Financial Data Entry</h4>
               
+              {/* Currency */}
+              <div className="mb-4">
+                <Label className="text-sm font-medium text-blue-800">Currency</Label>
+                <Select value={currency} onValueChange={(value) => onUpdate(activityData.activityId, { currency: value })} disabled={!isEditing}>
+                  <SelectTrigger className="mt-1 w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map(c => (
+                      <SelectItem key={c.code} value={c.code}>{c.code} – {c.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-600 mt-1">The budget and quarterly costs below are in this currency</p>
+              </div>
+
               {/* Annual Budget Input */}
               <div className="mb-4">
                 <Label className="text-sm font-medium text-blue-800">Total Annual Budget *</Label>
                 <div className="flex items-center gap-2 mt-1">
-                  <span className="text-gray-500">{getCurrencySymbol(selectedCurrency)}</span>
+                  <span className="text-gray-500">{getCurrency(currency).symbol}</span>
                   <Input
                     type="number"
                     value={activityData.totalAnnualBudget}
@@ -1058,7 +1096,7 @@ function ActivityFinancialCard({ activityData, isEditing, onUpdate, onRemove, fo
                     <div key={quarter} className="space-y-1">
                       <Label className="text-xs text-gray-600 font-medium">{quarter.toUpperCase()}</Label>
                       <div className="flex items-center gap-1">
-                        <span className="text-gray-500 text-sm">{getCurrencySymbol(selectedCurrency)}</span>
+                        <span className="text-gray-500 text-sm">{getCurrency(currency).symbol}</span>
                         <Input
                           type="number"
                           value={activityData.quarterlyCosts[quarter]}
@@ -1109,6 +1147,20 @@ function ActivityFinancialCard({ activityData, isEditing, onUpdate, onRemove, fo
             </div>
           </div>
 
+          {/* Budget Lines */}
+          <BudgetLineItems
+            activityId={activityData.activityId}
+            year={activityData.year}
+            currency={currency}
+            annualBudget={activityData.totalAnnualBudget}
+            lines={budgetLines}
+            forecasts={forecasts}
+            displayCurrency={displayCurrency}
+            canEdit={isEditing}
+            onLineSaved={onBudgetLineSaved}
+            onLineDeleted={onBudgetLineDeleted}
+          />
+
           {/* Notes */}
           <div>
             <Label className="text-sm font-medium">Notes</Label>
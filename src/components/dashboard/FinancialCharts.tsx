@@ -5,12 +5,16 @@ import { BarChart } from '@mui/x-charts/BarChart';
 import { PieChart } from '@mui/x-charts/PieChart';
 import { LineChart } from '@mui/x-charts/LineChart';
 import { MuiThemeProvider } from '../theme/MuiThemeProvider';
+import { BudgetForecast } from '@/lib/budgetForecast';
+import { BASE_CURRENCY, formatMoney } from '@/lib/exchangeRates';
 
 interface FinancialChartsProps {
   summary: FinancialSummary;
+  forecast?: BudgetForecast;
+  currency?: string; // Currency the summary and forecast amounts are in
 }
 
-export function FinancialCharts({ summary }: FinancialChartsProps) {
+export function FinancialCharts({ summary, forecast, currency = BASE_CURRENCY }: FinancialChartsProps) {
   // Prepare quarterly data for MUI-X charts
   const quarters = ['Q1', 'Q2', 'Q3', 'Q4'];
   const budgetData = [
@@ -45,18 +49,17 @@ export function FinancialCharts({ summary }: FinancialChartsProps) {
   ].filter(item => item.value > 0);
 
   // Format currency for tooltips
-  const formatCurrency = (value: number | null) => {
-    if (value === null) return '$0';
-    return `$${value.toLocaleString()}`;
-  };
+  const formatCurrency = (value: number | null) => formatMoney(value ?? 0, currency);
 
   // Format currency for PieChart (different signature required)
   const formatPieCurrency = (value: any) => {
     const numValue = typeof value === 'object' && value !== null ? value.value : value;
-    if (numValue === null || numValue === undefined) return '$0';
-    return `$${numValue.toLocaleString()}`;
+    return formatMoney(numValue ?? 0, currency);
   };
 
+  // Forecast points are missing on the months before (actual) or after (projected) the current one
+  const formatForecastValue = (value: number | null) => (value === null ? '' : formatCurrency(value));
+
   return (
     <MuiThemeProvider>
       <div className="space-y-6">
@@ -181,6 +184,50 @@ export function FinancialCharts({ summary }: FinancialChartsProps) {
         </CardContent>
       </Card>
 
+      {/* Burn Rate Forecast */}
+      {forecast && forecast.elapsedFraction > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Burn Rate Forecast</CardTitle>
+            <p className="text-sm text-gray-600">
+              Cumulative spend against an even spread of the budget, projected to year-end at the current monthly burn rate
+            </p>
+          </CardHeader>
+          <CardContent>
+            <div style={{ height: 350 }}>
+              <LineChart
+                xAxis={[{ scaleType: 'point', data: forecast.monthly.map(point => point.month) }]}
+                series={[
+                  {
+                    data: forecast.monthly.map(point => point.planned),
+                    label: 'Planned',
+                    color: '#3b82f6',
+                    showMark: false,
+                    valueFormatter: formatForecastValue,
+                  },
+                  {
+                    data: forecast.monthly.map(point => point.actual),
+                    label: 'Actual',
+                    color: '#f97316',
+                    valueFormatter: formatForecastValue,
+                  },
+                  {
+                    data: forecast.monthly.map(point => point.projected),
+                    label: 'Projected',
+                    color: forecast.projectedSpend > forecast.totalBudget ? '#dc2626' : '#10b981',
+                    showMark: false,
+                    valueFormatter: formatForecastValue,
+                  },
+                ]}
+                width={undefined}
+                height={300}
+                margin={{ left: 80, right: 20, top: 20, bottom: 40 }}
+              />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Financial Trend Line Chart */}
       <Card>
         <CardHeader>
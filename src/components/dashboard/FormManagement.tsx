@@ -28,7 +28,8 @@ import {
   Upload,
   Archive,
   XCircle,
-  RotateCcw
+  RotateCcw,
+  History
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useForm } from '@/contexts/FormContext';
@@ -39,6 +40,7 @@ import { Form } from './form-creation-wizard/types';
 import { formsApi } from '@/lib/api/formsApi';
 import { FormImportModal } from './form-management/FormImportModal';
 import { FormExportModal } from './form-management/FormExportModal';
+import { FormVersionHistory } from './form-management/FormVersionHistory';
 import { 
   saveFormManagementFilters, 
   loadFormManagementFilters, 
@@ -74,6 +76,7 @@ export function FormManagement() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [formToDelete, setFormToDelete] = useState<Form | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [versionHistoryForm, setVersionHistoryForm] = useState<Form | null>(null);
 
   // Load forms when component mounts or projectId changes
   useEffect(() => {
@@ -402,7 +405,8 @@ export function FormManagement() {
     }
 
     try {
-      await formsApi.restoreForm(projectId, form.id);
+      // Restoring re-opens the form for responses, so it goes through publishing to record its version
+      await formsApi.publishForm(projectId, form.id);
       await loadProjectForms(projectId);
       toast({
         title: "Form Restored",
@@ -731,6 +735,12 @@ export function FormManagement() {
                                   View Responses ({form.responseCount})
                                 </DropdownMenuItem>
                               )}
+                              {canViewForms && (
+                                <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setVersionHistoryForm(form); }}>
+                                  <History className="mr-2 h-4 w-4" />
+                                  Version History
+                                </DropdownMenuItem>
+                              )}
                               <DropdownMenuSeparator />
                               {form.status === 'PUBLISHED' && canViewForms && (
                                 <DropdownMenuItem onClick={(e) => { e.stopPropagation(); handleShareForm(form); }}>
@@ -823,6 +833,12 @@ export function FormManagement() {
                                 <BarChart3 className="mr-2 h-4 w-4" />
                                 View Responses ({form.responseCount})
                               </DropdownMenuItem>
+                            )}
+                            {canViewForms && (
+                              <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setVersionHistoryForm(form); }}>
+                                <History className="mr-2 h-4 w-4" />
+                                Version History
+                              </DropdownMenuItem>
                             )}
                               <DropdownMenuSeparator />
                             {form.status === 'PUBLISHED' && canViewForms && (
@@ -929,6 +945,16 @@ export function FormManagement() {
         </div>
       )}
 
+      {/* Version History Dialog */}
+      {projectId && (
+        <FormVersionHistory
+          open={!!versionHistoryForm}
+          onOpenChange={(open) => { if (!open) setVersionHistoryForm(null); }}
+          form={versionHistoryForm}
+          projectId={projectId}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <ConfirmationDialog
         open={deleteDialogOpen}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -26,17 +26,32 @@ import {
   Image,
   Video,
   Music,
-  Paperclip
+  Paperclip,
+  ShieldCheck
 } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { toast } from '@/hooks/use-toast';
 import { Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from '@/components/ui/pagination';
-import { Form, FormResponse, FormQuestion, MediaAttachment } from './form-creation-wizard/types';
+import * as XLSX from 'xlsx';
+import { Form, FormResponse, FormQuestion, FormVersion, MediaAttachment, ExportOptions, QualityFlagStatus, ResponseQualityFlag, ResponseViewQuery, SavedResponseView } from './form-creation-wizard/types';
 import { useForm } from '@/contexts/FormContext';
 import { formsApi } from '@/lib/api/formsApi';
 import { ResponseEditModal } from './ResponseEditModal';
+import { ResponseFilters } from './ResponseFilters';
+import { ResponseQualityFlags } from './ResponseQualityFlags';
+import { DataQualityRulesDialog } from './DataQualityRulesDialog';
 import { useAuth } from '@/contexts/AuthContext';
 import { createEnhancedPermissionManager } from '@/lib/permissions';
+import {
+  ResponseExportRecord,
+  ResponseExportOptions,
+  buildResponsesWorkbook,
+  buildSpssExport,
+  getResponseExportFileName,
+} from '@/lib/responseExport';
+import { getLanguageName, isMultilingualForm } from '@/lib/formTranslations';
+import { getFormAtVersion, getQuestionsById, mergeVersionSections } from '@/lib/formVersions';
+import { getResponseQualityFlags } from '@/lib/dataQuality';
 
 // Helper function to transform backend question format to frontend format
 const transformQuestionData = (question: any) => {
@@ -176,6 +191,17 @@ const transformFormData = (form: any): Form => {
   };
 };
 
+// Current form plus questions that only exist in the older versions these responses were submitted on,
+// so answers to questions removed since still get a column
+const withRetiredQuestions = (form: Form, versions: FormVersion[], responses: FlattenedResponse[]) => {
+  const usedVersions = new Set(responses.map(response => response.formVersion));
+  const olderSections = versions
+    .filter(version => version.version !== form.version && usedVersions.has(version.version))
+    .map(version => version.sections);
+  const merged = mergeVersionSections(form.sections, olderSections);
+  return { form: { ...form, sections: merged.sections }, retiredQuestionIds: merged.retiredQuestionIds };
+};
+
 // Helper function to parse repeatable section metadata from source field
 const parseRepeatableMetadata = (source: string | null | undefined): {
   isRepeatable: boolean;
@@ -407,6 +433,8 @@ interface FlattenedResponse {
   id: string;
   respondentEmail?: string;
   isComplete: boolean;
+  language?: string;
+  formVersion?: number;
   submittedAt: Date | null;
   startedAt: Date | null;
   data: Record<string, any>; // Flattened data with instance columns
@@ -463,6 +491,8 @@ const flattenGroupedResponses = (
       id: firstResponse.id,
       respondentEmail: firstResponse.respondentEmail,
       isComplete: firstResponse.isComplete,
+      language: firstResponse.language,
+      formVersion: firstResponse.formVersion,
       submittedAt: firstResponse.submittedAt || null,
       startedAt: firstResponse.startedAt || null,
       data,
@@ -500,6 +530,8 @@ const flattenGroupedResponses = (
       id: firstResponse.id,
       respondentEmail: firstResponse.respondentEmail,
       isComplete: groupedResponses.every(r => r.isComplete),
+      language: firstResponse.language,
+      formVersion: firstResponse.formVersion,
       submittedAt: firstResponse.submittedAt || null,
       startedAt: firstResponse.startedAt || null,
       data: mergedData,
@@ -568,6 +600,8 @@ const flattenGroupedResponses = (
     id: firstResponse.id, // Use first response ID as primary
     respondentEmail: firstResponse.respondentEmail,
     isComplete: groupedResponses.every(r => r.isComplete), // All must be complete
+    language: firstResponse.language,
+    formVersion: firstResponse.formVersion,
     submittedAt: firstResponse.submittedAt || null, // Use first submission time
     startedAt: firstResponse.startedAt || null, // Use first start time
     data: flattenedData,
@@ -576,6 +610,112 @@ const flattenGroupedResponses = (
   };
 };
 
+// Resolve the raw answer behind one export column (see getAllQuestionsInOrder) from a flattened response
+const getExportValue = (
+  flattenedResponse: FlattenedResponse,
+  { question, isConditional, parentQuestion, instanceKey }: {
+    question: FormQuestion;
+    isConditional: boolean;
+    parentQuestion?: FormQuestion;
+    instanceKey?: string;
+  }
+): unknown => {
+  const dataKey = instanceKey || question.id;
+  const parentQuestionId = parentQuestion?.id;
+
+  if (isConditional && parentQuestionId) {
+    let parentResponseValue;
+    if (instanceKey) {
+      // Repeatable conditional - parent may be data[parentId_instance_N] or data[parentId]["N"]
+      const instanceIndexStr = instanceKey.split('_instance_')[1];
+      parentResponseValue = flattenedResponse.data[`${parentQuestionId}_instance_${instanceIndexStr}`];
+      if (parentResponseValue === undefined && instanceIndexStr != null) {
+        const byParent = flattenedResponse.data[parentQuestionId];
+        if (typeof byParent === 'object' && byParent !== null && !Array.isArray(byParent)) {
+          parentResponseValue = byParent[instanceIndexStr] ?? byParent[Number(instanceIndexStr)];
+        }
+      }
+    } else {
+      parentResponseValue = flattenedResponse.data[parentQuestionId];
+    }
+    return typeof parentResponseValue === 'object' && parentResponseValue !== null
+      ? parentResponseValue[question.id]
+      : null;
+  }
+
+  // For main questions, use flattened data with instance key if applicable
+  let value = flattenedResponse.data[dataKey];
+  // Single response with repeatable data stored as object { "0": v0, "1": v1 } (or unexpanded legacy data)
+  if (value === undefined && instanceKey) {
+    const instanceIndexStr = instanceKey.split('_instance_')[1];
+    const byQuestion = flattenedResponse.data[question.id];
+    if (instanceIndexStr != null && typeof byQuestion === 'object' && byQuestion !== null && !Array.isArray(byQuestion)) {
+      value = byQuestion[instanceIndexStr] ?? byQuestion[Number(instanceIndexStr)];
+    }
+    // Scalar fallback: bare questionId holds the instance-0 value (old-format single-child responses)
+    if (value === undefined && instanceIndexStr === '0' && byQuestion !== undefined && (typeof byQuestion !== 'object' || Array.isArray(byQuestion))) {
+      value = byQuestion;
+    }
+  }
+  // Safety: if value is still the whole repeatable object (e.g. unexpanded), extract this instance
+  if (instanceKey && typeof value === 'object' && value !== null && !Array.isArray(value) && !('_parentValue' in value)) {
+    const instanceIndexStr = instanceKey.split('_instance_')[1];
+    if (instanceIndexStr != null && (instanceIndexStr in value || Number(instanceIndexStr) in value)) {
+      value = value[instanceIndexStr] ?? value[Number(instanceIndexStr)];
+    }
+  }
+  // Handle nested structure for parent questions that have conditional children
+  if (typeof value === 'object' && value !== null && !Array.isArray(value) && value._parentValue !== undefined) {
+    value = value._parentValue;
+  }
+  return value;
+};
+
+// Split a flattened response into the per-section shape used by the XLSX and SPSS exports
+const buildExportRecords = (
+  flattenedResponses: FlattenedResponse[],
+  allQuestions: ReturnType<typeof getAllQuestionsInOrder>
+): ResponseExportRecord[] =>
+  flattenedResponses.map(flattenedResponse => {
+    const values: Record<string, unknown> = {};
+    const instances: Record<string, Array<Record<string, unknown>>> = {};
+
+    allQuestions.forEach(entry => {
+      const value = getExportValue(flattenedResponse, entry);
+      if (entry.isRepeatable && entry.sectionId && entry.instanceIndex !== undefined) {
+        const sectionInstances = instances[entry.sectionId] || (instances[entry.sectionId] = []);
+        const answers = sectionInstances[entry.instanceIndex] || (sectionInstances[entry.instanceIndex] = {});
+        answers[entry.question.id] = value;
+      } else {
+        values[entry.question.id] = value;
+      }
+    });
+
+    // Drop trailing instances with no answers (columns are generated up to the max across all submissions)
+    Object.keys(instances).forEach(sectionId => {
+      const sectionInstances = Array.from(instances[sectionId], answers => answers || {});
+      while (
+        sectionInstances.length > 0 &&
+        Object.values(sectionInstances[sectionInstances.length - 1]).every(v => v === undefined || v === null || v === '' || (Array.isArray(v) && v.length === 0))
+      ) {
+        sectionInstances.pop();
+      }
+      instances[sectionId] = sectionInstances;
+    });
+
+    return {
+      id: flattenedResponse.id,
+      respondentEmail: flattenedResponse.respondentEmail,
+      isComplete: flattenedResponse.isComplete,
+      language: flattenedResponse.language,
+      submittedAt: flattenedResponse.submittedAt,
+      startedAt: flattenedResponse.startedAt,
+      values,
+      instances,
+      attachments: flattenedResponse.originalResponses.flatMap(r => r.attachments || []),
+    };
+  });
+
 // ResponseCell component for displaying different types of response data
 interface ResponseCellProps {
   question: FormQuestion;
@@ -799,6 +939,13 @@ function ResponseCell({ question, value, attachments, isEditable = false, onValu
         </div>
       );
 
+    case 'CALCULATED':
+      return (
+        <div className="text-xs font-mono leading-tight">
+          {value === undefined || value === null || value === '' ? '-' : typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value)}
+        </div>
+      );
+
     case 'LOCATION':
       if (!value) {
         return <div className="text-xs text-gray-400 leading-tight">No location captured</div>;
@@ -1083,6 +1230,7 @@ export function FormResponseViewer() {
   const canEdit = projectId ? permissionManager.canEditFormResponses(projectId) : false;
   const canDelete = projectId ? permissionManager.canDeleteFormResponses(projectId) : false;
   const canExport = projectId ? permissionManager.canExportFormResponses(projectId) : false;
+  const canEditForm = projectId ? permissionManager.canEditForms(projectId) : false;
   
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
@@ -1093,14 +1241,17 @@ export function FormResponseViewer() {
   };
   
   const [form, setForm] = useState<Form | null>(null);
+  const [formVersions, setFormVersions] = useState<FormVersion[]>([]);
   const [responses, setResponses] = useState<FlattenedResponse[]>([]);
   const [totalResponses, setTotalResponses] = useState(0);
   const [serverTotalPages, setServerTotalPages] = useState(1);
-  const [responseStats, setResponseStats] = useState({ totalAll: 0, totalComplete: 0, totalIncomplete: 0 });
+  const [responseStats, setResponseStats] = useState<{ totalAll: number; totalComplete: number; totalIncomplete: number; totalFlagged?: number }>({ totalAll: 0, totalComplete: 0, totalIncomplete: 0 });
   const [searchTerm, setSearchTerm] = useState('');
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [dateFilter, setDateFilter] = useState<string>('all');
+  const [viewQuery, setViewQuery] = useState<ResponseViewQuery>({}); // Column filters, submitted-by, source and sort
+  const [debouncedViewQuery, setDebouncedViewQuery] = useState<ResponseViewQuery>({});
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(10);
   const [editingCell, setEditingCell] = useState<{ rowIndex: number; questionId: string } | null>(null);
@@ -1108,15 +1259,47 @@ export function FormResponseViewer() {
   const [isLoading, setIsLoading] = useState(true);
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [selectedResponse, setSelectedResponse] = useState<FormResponse | null>(null);
+  const [qualityRulesOpen, setQualityRulesOpen] = useState(false);
 
-  // Debounce search term for API calls
+  // Debounce search term and filters for API calls
   useEffect(() => {
     const timer = setTimeout(() => {
       setDebouncedSearchTerm(searchTerm);
+      setDebouncedViewQuery(viewQuery);
       setCurrentPage(1); // Reset to first page on search
     }, 300);
     return () => clearTimeout(timer);
-  }, [searchTerm]);
+  }, [searchTerm, viewQuery]);
+
+  // Query sent to the server for the table and for exports (everything except paging)
+  const serverQuery = useMemo((): ResponseViewQuery => ({
+    search: debouncedSearchTerm || undefined,
+    status: statusFilter as 'all' | 'complete' | 'incomplete',
+    submittedWithin: dateFilter === 'all' ? undefined : dateFilter as ResponseViewQuery['submittedWithin'],
+    submittedBy: debouncedViewQuery.submittedBy?.trim() || undefined,
+    source: debouncedViewQuery.source,
+    language: debouncedViewQuery.language,
+    filters: debouncedViewQuery.filters,
+    sort: debouncedViewQuery.sort,
+    flaggedOnly: debouncedViewQuery.flaggedOnly || undefined,
+  }), [debouncedSearchTerm, statusFilter, dateFilter, debouncedViewQuery]);
+
+  // Flags the server raised for each row, keyed by flattened response ID (the primary response carries them)
+  const qualityFlags = useMemo(
+    () => new Map(responses.map(response => [response.id, getResponseQualityFlags(response.originalResponses[0] || {})])),
+    [responses]
+  );
+
+  // Stable so the filters panel can load saved views without refetching on every render
+  const handleApplyView = useCallback((view: SavedResponseView) => {
+    const { search, status, submittedWithin, ...rest } = view.query;
+    setSearchTerm(search || '');
+    setStatusFilter(status || 'all');
+    setDateFilter(submittedWithin || 'all');
+    setViewQuery(rest);
+    if (view.itemsPerPage) setItemsPerPage(view.itemsPerPage);
+    setCurrentPage(1);
+  }, []);
 
   // Load form data (once on mount)
   useEffect(() => {
@@ -1153,6 +1336,22 @@ export function FormResponseViewer() {
     loadFormData();
   }, [formId, projectId]);
 
+  // Load published version snapshots so each response can be read against the form it was submitted on
+  useEffect(() => {
+    const loadFormVersions = async () => {
+      if (formId && projectId) {
+        try {
+          const versions = await formsApi.getFormVersions(projectId, formId);
+          setFormVersions(versions.map(version => ({ ...version, sections: transformFormData({ sections: version.sections }).sections })));
+        } catch (error) {
+          console.error('❌ FormResponseViewer: Error loading form versions:', error);
+        }
+      }
+    };
+
+    loadFormVersions();
+  }, [formId, projectId]);
+
   // Load responses with server-side pagination
   useEffect(() => {
     const loadResponses = async () => {
@@ -1161,10 +1360,9 @@ export function FormResponseViewer() {
         try {
           console.log('🔄 FormResponseViewer: Loading responses page', currentPage, 'with', itemsPerPage, 'items');
           const result = await getFormResponses(projectId, formId, {
+            ...serverQuery,
             page: currentPage,
             limit: itemsPerPage,
-            search: debouncedSearchTerm || undefined,
-            status: statusFilter as 'all' | 'complete' | 'incomplete'
           });
           
           // Group and flatten responses for display
@@ -1222,7 +1420,7 @@ export function FormResponseViewer() {
     if (form) {
       loadResponses();
     }
-  }, [formId, projectId, currentPage, itemsPerPage, debouncedSearchTerm, statusFilter, form]); // form is a dependency now
+  }, [formId, projectId, currentPage, itemsPerPage, serverQuery, form]); // form is a dependency now
 
   // Server-side pagination - responses are already filtered and paginated
   const filteredResponses = responses;
@@ -1296,16 +1494,28 @@ export function FormResponseViewer() {
   
   const flattenedResponsesForView = responses; // responses are now already flattened
 
+  // Columns come from the current form plus questions only older versions on this page still have answers for
+  const { form: columnForm, retiredQuestionIds } = useMemo(
+    () => (form ? withRetiredQuestions(form, formVersions, responses) : { form: null, retiredQuestionIds: new Set<string>() }),
+    [form, formVersions, responses]
+  );
+
+  // Question definitions per published version, for rendering each row as it was submitted
+  const versionQuestions = useMemo(
+    () => new Map(formVersions.map(version => [version.version, getQuestionsById(version.sections)])),
+    [formVersions]
+  );
+
   // Memoize all questions in order (only recalculate when form or maxInstances change)
   const allQuestionsInOrder = useMemo(() => {
-    if (!form) return [];
-    const questions = getAllQuestionsInOrder(form, overallMaxInstances);
+    if (!columnForm) return [];
+    const questions = getAllQuestionsInOrder(columnForm, overallMaxInstances);
     console.log('🔍 Generated all questions in order (memoized):', {
       overallMaxInstances,
       totalColumns: questions.length
     });
     return questions;
-  }, [form, overallMaxInstances]);
+  }, [columnForm, overallMaxInstances]);
 
   // Handler functions
   const handleEditResponse = (rowData: any) => {
@@ -1356,6 +1566,29 @@ export function FormResponseViewer() {
     }));
   };
 
+  const handleReviewQualityFlag = async (responseId: string, flag: ResponseQualityFlag, status: QualityFlagStatus) => {
+    if (!projectId || !form) return;
+    try {
+      const reviews = await formsApi.reviewQualityFlag(projectId, form.id, responseId, { flagKey: flag.key, status });
+      setResponses(prev => prev.map(flattenedResponse => flattenedResponse.id === responseId
+        ? {
+          ...flattenedResponse,
+          originalResponses: flattenedResponse.originalResponses.map((original, index) =>
+            index === 0 ? { ...original, qualityReviews: reviews } : original
+          ),
+        }
+        : flattenedResponse
+      ));
+    } catch (error) {
+      console.error('Error reviewing quality flag:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the flag",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDeleteResponse = async (responseId: string) => {
     if (confirm('Are you sure you want to delete this response? This action cannot be undone.')) {
       try {
@@ -1387,6 +1620,7 @@ export function FormResponseViewer() {
         isComplete: flattenedResponse.isComplete,
         submittedAt: flattenedResponse.submittedAt,
         startedAt: flattenedResponse.startedAt,
+        formVersion: flattenedResponse.formVersion,
         originalResponses: flattenedResponse.originalResponses // Keep reference for editing
       });
     });
@@ -1405,6 +1639,7 @@ export function FormResponseViewer() {
         isComplete: false,
         submittedAt: null,
         startedAt: null,
+        formVersion: undefined,
         originalResponses: []
       });
     }
@@ -1489,7 +1724,10 @@ export function FormResponseViewer() {
     });
   };
 
-  const handleExportData = async () => {
+  const handleExportData = async (
+    format: ExportOptions['format'] = 'CSV',
+    choiceFormat: ResponseExportOptions['choiceFormat'] = 'LABELS'
+  ) => {
     if (!form || !projectId || !formId) return;
     if (!canExport) {
       toast({
@@ -1503,15 +1741,13 @@ export function FormResponseViewer() {
     // Show loading toast
     toast({
       title: "Exporting...",
-      description: "Fetching all responses for export. This may take a moment for large datasets.",
+      description: "Fetching all responses matching the current filters. This may take a moment for large datasets.",
     });
 
     try {
       // Fetch ALL responses using the optimized export endpoint
       console.log('📤 Starting export - fetching all responses...');
-      const exportResult = await formsApi.getFormResponsesForExport(projectId, formId, {
-        status: statusFilter as 'all' | 'complete' | 'incomplete'
-      });
+      const exportResult = await formsApi.getFormResponsesForExport(projectId, formId, serverQuery);
       console.log(`✅ Fetched ${exportResult.total} responses for export`);
 
       const allResponses = exportResult.responses;
@@ -1542,8 +1778,11 @@ export function FormResponseViewer() {
         }
       });
       
+      // Keep columns for questions removed since older versions were published
+      const exportForm = withRetiredQuestions(form, formVersions, flattenedResponses).form;
+
       // Calculate max instances from flattened responses (same logic as view)
-      const repeatableSections = getRepeatableSections(form);
+      const repeatableSections = getRepeatableSections(exportForm);
       const maxInstancesBySection = new Map<string, number>();
       
       repeatableSections.forEach(section => {
@@ -1592,6 +1831,35 @@ export function FormResponseViewer() {
         flattenedResponseCount: flattenedResponses.length
       });
     
+      if (format === 'EXCEL' || format === 'SPSS') {
+        const records = buildExportRecords(flattenedResponses, getAllQuestionsInOrder(exportForm, overallMaxInstances));
+        const downloadBlob = (blob: Blob, fileName: string) => {
+          const url = window.URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = fileName;
+          link.click();
+          window.URL.revokeObjectURL(url);
+        };
+
+        if (format === 'EXCEL') {
+          XLSX.writeFile(buildResponsesWorkbook(exportForm, records, { choiceFormat }), getResponseExportFileName(form, 'xlsx'));
+        } else {
+          const spss = buildSpssExport(exportForm, records);
+          // The BOM lets SPSS and spreadsheet tools detect UTF-8
+          downloadBlob(new Blob(['\uFEFF' + spss.data], { type: 'text/csv;charset=utf-8;' }), spss.dataFileName);
+          downloadBlob(new Blob([spss.syntax], { type: 'text/plain;charset=utf-8;' }), spss.syntaxFileName);
+        }
+
+        toast({
+          title: "Export Complete",
+          description: format === 'EXCEL'
+            ? `Exported ${records.length} submission${records.length !== 1 ? 's' : ''} to Excel.`
+            : `Exported ${records.length} submission${records.length !== 1 ? 's' : ''} for SPSS. Keep the .sps and .csv files in the same folder and run the syntax file.`,
+        });
+        return;
+      }
+    
     // Helper function to escape CSV values
     const escapeCsvValue = (value: any): string => {
       if (value === null || value === undefined) return '';
@@ -1651,11 +1919,13 @@ export function FormResponseViewer() {
     };
 
     // Create CSV content - metadata columns first, then question columns in same order as viewer (including repeatable instance columns)
-    const allQuestions = getAllQuestionsInOrder(form, overallMaxInstances);
+    const allQuestions = getAllQuestionsInOrder(exportForm, overallMaxInstances);
+    const includeLanguage = isMultilingualForm(form);
     const headers = [
       'Response ID',
       'Email',
       'Status',
+      ...(includeLanguage ? ['Language'] : []),
       'Submitted At',
       'Completion Time (minutes)'
     ];
@@ -1688,71 +1958,14 @@ export function FormResponseViewer() {
           flattenedResponse.id,
           flattenedResponse.respondentEmail || 'Anonymous',
           flattenedResponse.isComplete ? 'Complete' : 'Incomplete',
+          ...(includeLanguage ? [flattenedResponse.language ? getLanguageName(flattenedResponse.language) : ''] : []),
           flattenedResponse.submittedAt ? formatDate(flattenedResponse.submittedAt) : 'Not submitted',
           completionTime
         ];
         // Add question values in same order as viewer (including repeatable instance columns)
         allQuestions.forEach(({question, isConditional, parentQuestion, instanceKey}) => {
-          let value;
-            let attachments: MediaAttachment[] = [];
-            
-            // Determine the key to use for lookup
-            const dataKey = instanceKey || question.id;
-            const parentQuestionId = parentQuestion?.id;
-          
-          if (isConditional && parentQuestionId) {
-              // For conditional questions in repeatable sections
-              if (instanceKey) {
-                // Repeatable conditional - parent may be data[parentId_instance_N] or data[parentId]["N"]
-                const instanceIndexStr = instanceKey.split('_instance_')[1];
-                let parentResponseValue = flattenedResponse.data[`${parentQuestionId}_instance_${instanceIndexStr}`];
-                if (parentResponseValue === undefined && instanceIndexStr != null) {
-                  const byParent = flattenedResponse.data[parentQuestionId];
-                  if (typeof byParent === 'object' && byParent !== null && !Array.isArray(byParent)) {
-                    parentResponseValue = byParent[instanceIndexStr] ?? byParent[Number(instanceIndexStr)];
-                  }
-                }
-                if (typeof parentResponseValue === 'object' && parentResponseValue !== null) {
-                  value = parentResponseValue[question.id];
-                } else {
-                  value = null;
-                }
-              } else {
-                // Non-repeatable conditional question
-                const parentResponseValue = flattenedResponse.data[parentQuestionId];
-                if (typeof parentResponseValue === 'object' && parentResponseValue !== null) {
-                  value = parentResponseValue[question.id];
-                } else {
-                  value = null;
-                }
-              }
-            } else {
-              // For main questions, use flattened data with instance key if applicable
-              value = flattenedResponse.data[dataKey];
-              // Single response with repeatable data stored as object { "0": v0, "1": v1 } (or unexpanded legacy data)
-              if (value === undefined && instanceKey) {
-                const instanceIndexStr = instanceKey.split('_instance_')[1];
-                const byQuestion = flattenedResponse.data[question.id];
-                if (instanceIndexStr != null && typeof byQuestion === 'object' && byQuestion !== null && !Array.isArray(byQuestion)) {
-                  value = byQuestion[instanceIndexStr] ?? byQuestion[Number(instanceIndexStr)];
-                }
-                // Scalar fallback: bare questionId holds the instance-0 value (old-format single-child responses)
-                if (value === undefined && instanceIndexStr === '0' && byQuestion !== undefined && (typeof byQuestion !== 'object' || Array.isArray(byQuestion))) {
-                  value = byQuestion;
-                }
-              }
-              // Safety: if value is still the whole repeatable object (e.g. unexpanded), extract this instance
-              if (instanceKey && typeof value === 'object' && value !== null && !Array.isArray(value) && !('_parentValue' in value)) {
-                const instanceIndexStr = instanceKey.split('_instance_')[1];
-                if (instanceIndexStr != null && (instanceIndexStr in value || Number(instanceIndexStr) in value)) {
-                  value = value[instanceIndexStr] ?? value[Number(instanceIndexStr)];
-                }
-              }
-              // Handle nested structure for parent questions that have conditional children
-              if (typeof value === 'object' && value !== null && !Array.isArray(value) && value._parentValue !== undefined) {
-                value = value._parentValue;
-              }
-            }
+            const value = getExportValue(flattenedResponse, { question, isConditional, parentQuestion, instanceKey });
+            const attachments: MediaAttachment[] = [];
           
             // Get attachments for this question (check all original responses)
             flattenedResponse.originalResponses.forEach(originalResponse => {
@@ -1785,10 +1998,11 @@ export function FormResponseViewer() {
               row.push(combinedInfo || '');
             } else if (question.type === 'LOCATION') {
             // Flatten location into 4 columns
-            const lat = value && typeof value === 'object' ? (value.latitude ?? value.lat ?? '') : '';
-            const lng = value && typeof value === 'object' ? (value.longitude ?? value.lng ?? '') : '';
-            const acc = value && typeof value === 'object' ? (value.accuracy ?? '') : '';
-            const addr = value && typeof value === 'object' ? (value.address ?? '') : '';
+            const location = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+            const lat = location.latitude ?? location.lat ?? '';
+            const lng = location.longitude ?? location.lng ?? '';
+            const acc = location.accuracy ?? '';
+            const addr = location.address ?? '';
             row.push(String(lat));
             row.push(String(lng));
             row.push(String(acc));
@@ -1955,12 +2169,31 @@ export function FormResponseViewer() {
           <Badge variant={form.status === 'PUBLISHED' ? 'default' : 'secondary'}>
             {form.status}
           </Badge>
-          {canExport && (
-            <Button onClick={handleExportData} className="flex items-center gap-2">
-              <Download className="w-4 h-4" />
-              Export CSV
+          {canEditForm && (
+            <Button variant="outline" onClick={() => setQualityRulesOpen(true)}>
+              <ShieldCheck className="w-4 h-4 mr-2" />
+              Data Quality
+              {!!responseStats.totalFlagged && (
+                <Badge variant="secondary" className="ml-2 bg-amber-100 text-amber-800">{responseStats.totalFlagged}</Badge>
+              )}
             </Button>
           )}
+          {canExport && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button className="flex items-center gap-2">
+                  <Download className="w-4 h-4" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExportData('CSV')}>CSV (.csv)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExportData('EXCEL', 'LABELS')}>Excel (.xlsx) – choice labels</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExportData('EXCEL', 'VALUES')}>Excel (.xlsx) – choice values</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExportData('SPSS')}>SPSS (.sps + data)</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
         </div>
       </div>
 
@@ -2062,6 +2295,24 @@ export function FormResponseViewer() {
                   </Select>
                 </div>
               </div>
+
+              {projectId && (
+                <div className="mt-4">
+                  <ResponseFilters
+                    projectId={projectId}
+                    form={form}
+                    query={{
+                      ...viewQuery,
+                      search: searchTerm || undefined,
+                      status: statusFilter as 'all' | 'complete' | 'incomplete',
+                      submittedWithin: dateFilter === 'all' ? undefined : dateFilter as ResponseViewQuery['submittedWithin'],
+                    }}
+                    onQueryChange={(updates) => setViewQuery(prev => ({ ...prev, ...updates }))}
+                    itemsPerPage={itemsPerPage}
+                    onApplyView={handleApplyView}
+                  />
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -2111,6 +2362,9 @@ export function FormResponseViewer() {
                                   <div className="text-blue-500 text-xs">
                                     from: {parentQuestion?.title} → {parentOption?.label}
                                   </div>
+                                  {retiredQuestionIds.has(question.id) && (
+                                    <div className="text-amber-600 text-xs">not in current version</div>
+                                  )}
                                 </div>
                               </TableHead>
                             );
@@ -2130,6 +2384,9 @@ export function FormResponseViewer() {
                                     {question.type.replace('_', ' ')}
                                     {isRepeatable && <span className="text-purple-500 ml-1">(repeatable)</span>}
                                   </div>
+                                  {retiredQuestionIds.has(question.id) && (
+                                    <div className="text-amber-600 text-xs">not in current version</div>
+                                  )}
                                 </div>
                               </TableHead>
                             );
@@ -2167,8 +2424,19 @@ export function FormResponseViewer() {
                           </TableCell>
                             
                             {/* Question response cells - matching the header structure exactly */}
-                            {allQuestionsInOrder.map(({ question, isConditional, parentQuestion, instanceKey }) => {
-                              const cellKey = instanceKey || question.id;
+                            {allQuestionsInOrder.map(({ question: columnQuestion, isConditional, parentQuestion, instanceKey }) => {
+                              const cellKey = instanceKey || columnQuestion.id;
+
+                              // Render the answer with the question as it was in the row's version
+                              const rowVersionQuestions = row.formVersion !== undefined ? versionQuestions.get(row.formVersion) : undefined;
+                              if (rowVersionQuestions && !rowVersionQuestions.has(columnQuestion.id)) {
+                                return (
+                                  <TableCell key={cellKey} className="min-w-[150px] border border-gray-300 px-2 py-2 bg-gray-50">
+                                    <div className="text-gray-400 italic text-xs">Not in v{row.formVersion}</div>
+                                  </TableCell>
+                                );
+                              }
+                              const question = rowVersionQuestions?.get(columnQuestion.id) || columnQuestion;
                               
                               if (isConditional) {
                                 // For conditional questions, extract response from parent question's nested data
@@ -2273,6 +2541,16 @@ export function FormResponseViewer() {
                               <Badge variant={row.isComplete ? 'default' : 'secondary'} className="text-xs">
                                 {row.isExisting ? (row.isComplete ? 'Complete' : 'Incomplete') : 'Draft'}
                             </Badge>
+                              {row.isExisting && row.formVersion !== undefined && (
+                                <div className="text-[10px] text-gray-500 mt-1">v{row.formVersion}</div>
+                              )}
+                              {row.isExisting && row.responseId && (
+                                <ResponseQualityFlags
+                                  flags={qualityFlags.get(row.responseId) || []}
+                                  canReview={canEdit}
+                                  onReview={(flag, status) => handleReviewQualityFlag(row.responseId!, flag, status)}
+                                />
+                              )}
                           </TableCell>
                             <TableCell className="sticky right-0 bg-white z-10 border border-gray-300 px-2 py-2">
                               <div className="text-xs">
@@ -2471,6 +2749,16 @@ export function FormResponseViewer() {
             </CardContent>
       </Card>
       
+      {projectId && (
+        <DataQualityRulesDialog
+          open={qualityRulesOpen}
+          onOpenChange={setQualityRulesOpen}
+          projectId={projectId}
+          form={form}
+          onSaved={(settings) => setForm(prev => (prev ? { ...prev, settings } : prev))}
+        />
+      )}
+
       {/* Response Edit Modal */}
         {selectedResponse && form && projectId && (
           <ResponseEditModal
@@ -2479,7 +2767,7 @@ export function FormResponseViewer() {
               setEditModalOpen(false);
               setSelectedResponse(null);
             }}
-            form={form}
+            form={getFormAtVersion(form, formVersions, selectedResponse.formVersion)}
             response={selectedResponse}
             projectId={projectId}
             onResponseUpdated={handleResponseUpdated}
@@ -21,9 +21,10 @@ import {
   DialogFooter,
   DialogDescription,
 } from '@/components/ui/dialog';
-import { Target, Activity, TrendingUp, ChevronRight, Calendar, Gauge, LayoutDashboard, BarChart3, Pencil } from 'lucide-react';
+import { Target, Activity, TrendingUp, ChevronRight, Calendar, Gauge, LayoutDashboard, BarChart3, Pencil, CalendarClock } from 'lucide-react';
 import { strategicPlanApi, StrategicPlan, StrategicGoal, PlanKpi } from '@/lib/api/strategicPlanApi';
 import { toast } from 'sonner';
+import { ReportingComplianceTable } from './ReportingComplianceTable';
 
 // Helper functions
 const getPriorityColor = (priority: string) => {
@@ -256,7 +257,7 @@ export function GlobalOverview() {
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full max-w-md grid-cols-2 h-11">
+        <TabsList className="grid w-full max-w-2xl grid-cols-3 h-11">
           <TabsTrigger value="objectives" className="flex items-center gap-2">
             <LayoutDashboard className="h-4 w-4" />
             Objectives overview
@@ -265,6 +266,10 @@ export function GlobalOverview() {
             <BarChart3 className="h-4 w-4" />
             Organisation KPIs
           </TabsTrigger>
+          <TabsTrigger value="reporting" className="flex items-center gap-2">
+            <CalendarClock className="h-4 w-4" />
+            Reporting compliance
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="objectives" className="space-y-6 mt-6">
@@ -588,6 +593,10 @@ export function GlobalOverview() {
             </div>
           )}
         </TabsContent>
+
+        <TabsContent value="reporting" className="space-y-6 mt-6">
+          <ReportingComplianceTable />
+        </TabsContent>
       </Tabs>
 
       <Dialog open={editingKpiId !== null} onOpenChange={(open) => !open && closeEditKpi()}>
@@ -0,0 +1,425 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Edit, HandCoins, Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { Activity } from '@/types/dashboard';
+import { financialApi, ActivityFinancialData, ExchangeRate, Grant, GrantAllocation, SaveGrantDto } from '@/lib/api/financialApi';
+import { formatMoney } from '@/lib/exchangeRates';
+import { GRANT_STATUSES, GrantSummary, getAllocatedPercentage, isActivityEligible, summarizeGrant } from '@/lib/grants';
+import { GrantFormModal } from './modals/GrantFormModal';
+
+interface GrantsPanelProps {
+  projectId: string;
+  year: number;
+  activities: Activity[];
+  activityRecords: ActivityFinancialData[]; // Records for `year`, kept current by the Financial page
+  rates: ExchangeRate[];
+  canWrite: boolean;
+}
+
+const STATUS_STYLES: Record<Grant['status'], string> = {
+  PIPELINE: 'bg-gray-100 text-gray-700',
+  ACTIVE: 'bg-green-100 text-green-800',
+  CLOSED: 'bg-blue-100 text-blue-800',
+};
+
+// Donor awards funding the project, how much of each is spent, and the share of each activity's spend charged to them
+export function GrantsPanel({ projectId, year, activities, activityRecords, rates, canWrite }: GrantsPanelProps) {
+  const [grants, setGrants] = useState<Grant[]>([]);
+  const [allocations, setAllocations] = useState<GrantAllocation[]>([]);
+  const [allYearRecords, setAllYearRecords] = useState<ActivityFinancialData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingGrant, setEditingGrant] = useState<Grant | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [draftShares, setDraftShares] = useState<Record<string, Record<string, string>>>({}); // Activity ID -> grant ID -> %
+  const [savingActivityId, setSavingActivityId] = useState<string | null>(null);
+
+  // Awards span several years and can fund other projects too, so spend is summarised from every year's records
+  // of every activity charged to the grant, not just this project's records for the year on screen
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const projectGrants = await financialApi.getGrants(projectId);
+        const grantAllocations = await Promise.all(projectGrants.map(grant => financialApi.getGrantAllocations(grant.id)));
+        setGrants(projectGrants);
+        setAllocations(grantAllocations.flat());
+
+        const activityIds = new Set([
+          ...activities.map(activity => activity.id),
+          ...grantAllocations.flat().map(allocation => allocation.activityId),
+        ]);
+        const records: ActivityFinancialData[] = [];
+        for (const activityId of activityIds) {
+          try {
+            records.push(...(await financialApi.getActivityFinancialData(activityId)));
+          } catch {
+            // Activity has no financial data in any year
+          }
+        }
+        setAllYearRecords(records);
+      } catch (error) {
+        console.error('Error loading grants:', error);
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to load grants',
+          variant: 'destructive',
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, [projectId, activities]);
+
+  const summaries = useMemo<GrantSummary[]>(() => {
+    // This project's records for the year on screen come from the Financial page, which keeps them current
+    const projectActivityIds = new Set(activities.map(activity => activity.id));
+    const records = [
+      ...allYearRecords.filter(record => record.year !== year || !projectActivityIds.has(record.activityId)),
+      ...activityRecords,
+    ];
+    return grants.map(grant => summarizeGrant(grant, allocations, records, rates));
+  }, [grants, allocations, allYearRecords, activityRecords, activities, rates, year]);
+
+  const allocatableGrants = grants.filter(grant => grant.status !== 'CLOSED');
+
+  const getActivityTitle = (activityId: string) =>
+    activities.find(activity => activity.id === activityId)?.title || activityId;
+
+  const getShare = (activityId: string, grantId: string): string =>
+    draftShares[activityId]?.[grantId] ??
+    String(allocations.find(a => a.activityId === activityId && a.grantId === grantId && a.year === year)?.percentage ?? '');
+
+  const getDraftTotal = (activityId: string): number =>
+    allocatableGrants.reduce((sum, grant) => sum + (parseFloat(getShare(activityId, grant.id)) || 0), 0) +
+    // Shares on closed grants still count towards the activity's 100%
+    getAllocatedPercentage(allocations.filter(a => !allocatableGrants.some(grant => grant.id === a.grantId)), activityId, year);
+
+  const handleSaveGrant = async (data: SaveGrantDto) => {
+    const saved = editingGrant
+      ? await financialApi.updateGrant(editingGrant.id, data)
+      : await financialApi.createGrant(data);
+    setGrants(prev => (editingGrant ? prev.map(grant => (grant.id === saved.id ? saved : grant)) : [...prev, saved]));
+    toast({ title: editingGrant ? 'Grant Updated' : 'Grant Added', description: `${saved.donorName} – ${saved.title}` });
+  };
+
+  const handleDeleteGrant = async (grant: Grant) => {
+    if (!confirm(`Delete the grant "${grant.title}" from ${grant.donorName}? Its allocations will be removed.`)) return;
+    try {
+      await financialApi.deleteGrant(grant.id);
+      setGrants(prev => prev.filter(g => g.id !== grant.id));
+      setAllocations(prev => prev.filter(a => a.grantId !== grant.id));
+    } catch (error) {
+      console.error('Error deleting grant:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete grant',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleSaveAllocations = async (activityId: string) => {
+    const shares = allocatableGrants
+      .map(grant => ({ grantId: grant.id, percentage: parseFloat(getShare(activityId, grant.id)) || 0 }))
+      .filter(share => share.percentage > 0);
+    // Closed grants are not editable here but keep their historical share
+    const closed = allocations
+      .filter(a => a.activityId === activityId && a.year === year && !allocatableGrants.some(grant => grant.id === a.grantId))
+      .map(a => ({ grantId: a.grantId, percentage: a.percentage }));
+
+    setSavingActivityId(activityId);
+    try {
+      const saved = await financialApi.saveActivityGrantAllocations(activityId, year, [...shares, ...closed]);
+      setAllocations(prev => [...prev.filter(a => !(a.activityId === activityId && a.year === year)), ...saved]);
+      setDraftShares(prev => {
+        const next = { ...prev };
+        delete next[activityId];
+        return next;
+      });
+    } catch (error) {
+      console.error('Error saving grant allocations:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save grant allocations',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingActivityId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="p-8 flex items-center justify-center text-gray-600">
+          <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+          Loading grants...
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Grants & Donors</h2>
+          <p className="text-sm text-gray-600">
+            Spend is charged to each grant by its allocation share, for quarters inside the award period, in the donor's reporting currency.
+          </p>
+        </div>
+        {canWrite && (
+          <Button
+            onClick={() => {
+              setEditingGrant(null);
+              setIsFormOpen(true);
+            }}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Grant
+          </Button>
+        )}
+      </div>
+
+      {summaries.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <HandCoins className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No Grants Linked</h3>
+            <p className="text-sm text-gray-600">Add the donor awards that fund this project to track spend against each one.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {summaries.map(summary => {
+            const { grant } = summary;
+            const format = (amount: number) => formatMoney(amount, summary.currency);
+            return (
+              <Card key={grant.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <CardTitle className="text-base">{grant.donorName}</CardTitle>
+                      <p className="text-sm text-gray-700">{grant.title}</p>
+                      <p className="text-xs text-gray-500">
+                        {grant.awardReference && `${grant.awardReference} · `}
+                        {new Date(grant.startDate).toLocaleDateString()} – {new Date(grant.endDate).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Badge className={STATUS_STYLES[grant.status]}>{GRANT_STATUSES[grant.status]}</Badge>
+                      {canWrite && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              setEditingGrant(grant);
+                              setIsFormOpen(true);
+                            }}
+                            aria-label="Edit grant"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDeleteGrant(grant)} aria-label="Delete grant">
+                            <Trash2 className="w-4 h-4 text-red-600" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  <div className="grid grid-cols-3 gap-2">
+                    <div>
+                      <div className="text-xs text-gray-500">Award</div>
+                      <div className="font-semibold text-blue-600">{summary.awarded === null ? 'No rate' : format(summary.awarded)}</div>
+                      {summary.currency !== grant.currency && (
+                        <div className="text-xs text-gray-500">{formatMoney(grant.awardAmount, grant.currency)}</div>
+                      )}
+                    </div>
+                    <div>
+                      <div className="text-xs text-gray-500">Spent</div>
+                      <div className="font-semibold text-orange-600">{format(summary.spent)}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-gray-500">Remaining</div>
+                      <div className={`font-semibold ${summary.remaining !== null && summary.remaining < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {summary.remaining === null ? '–' : format(summary.remaining)}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="space-y-1">
+                    <div className="relative w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className={`h-2 rounded-full ${(summary.percentSpent ?? 0) > 100 ? 'bg-red-600' : 'bg-orange-500'}`}
+                        style={{ width: `${Math.min(100, summary.percentSpent ?? 0)}%` }}
+                      />
+                      {/* Where spend would be if it followed the award period evenly */}
+                      <div
+                        className="absolute top-[-2px] h-3 w-0.5 bg-gray-700"
+                        style={{ left: `${summary.periodElapsed * 100}%` }}
+                        title="Share of the award period elapsed"
+                      />
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {summary.percentSpent === null ? 'Share spent unknown' : `${summary.percentSpent.toFixed(1)}% spent`} · {Math.round(summary.periodElapsed * 100)}% of the award period elapsed
+                    </div>
+                  </div>
+
+                  {summary.byFiscalYear.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {summary.byFiscalYear.map(item => (
+                        <Badge key={item.label} variant="outline" className="text-xs">
+                          {item.label}: {format(item.spent)}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+
+                  {summary.byActivity.length > 0 && (
+                    <ul className="space-y-0.5 text-xs text-gray-700">
+                      {summary.byActivity.map(item => (
+                        <li key={item.activityId} className="flex justify-between gap-2">
+                          <span className="truncate">{item.activityTitle}</span>
+                          <span>{format(item.spent)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {grant.restrictions && <p className="text-xs text-gray-600 italic">Restrictions: {grant.restrictions}</p>}
+
+                  {(summary.ineligibleActivityIds.length > 0 || summary.outsidePeriod > 0 || summary.missingRates) && (
+                    <div className="space-y-1 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded p-2">
+                      {summary.ineligibleActivityIds.length > 0 && (
+                        <p className="flex gap-1">
+                          <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                          Allocated to activities the award does not cover: {summary.ineligibleActivityIds.map(getActivityTitle).join(', ')}
+                        </p>
+                      )}
+                      {summary.outsidePeriod > 0 && (
+                        <p className="flex gap-1">
+                          <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                          {format(summary.outsidePeriod)} of allocated spend falls outside the award period and is not counted
+                        </p>
+                      )}
+                      {summary.missingRates && (
+                        <p className="flex gap-1">
+                          <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                          {summary.awarded === null
+                            ? `The award has no exchange rate from ${grant.currency} to ${summary.currency}, so spend can't be compared with it`
+                            : `Some amounts have no exchange rate to ${summary.currency} and are left out`}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {allocatableGrants.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Allocation of Activity Spend, {year}</CardTitle>
+            <p className="text-sm text-gray-600">
+              The share of each activity's {year} costs charged to each grant. Whatever is not allocated is unfunded by these grants.
+            </p>
+          </CardHeader>
+          <CardContent>
+            {activityRecords.length === 0 ? (
+              <p className="text-sm text-gray-500">No activities have financial data for {year}.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-2">Activity</th>
+                      {allocatableGrants.map(grant => (
+                        <th key={grant.id} className="text-right p-2 whitespace-nowrap">{grant.donorName}</th>
+                      ))}
+                      <th className="text-right p-2">Total</th>
+                      {canWrite && <th className="p-2" />}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {activityRecords.map(record => {
+                      const total = getDraftTotal(record.activityId);
+                      const isDirty = !!draftShares[record.activityId];
+                      return (
+                        <tr key={record.id} className="border-b">
+                          <td className="p-2">{record.activityTitle}</td>
+                          {allocatableGrants.map(grant => {
+                            const eligible = isActivityEligible(grant, record.activityId);
+                            const share = getShare(record.activityId, grant.id);
+                            return (
+                              <td key={grant.id} className="p-2 text-right">
+                                {canWrite ? (
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    max="100"
+                                    step="1"
+                                    value={share}
+                                    onChange={(e) => setDraftShares(prev => ({
+                                      ...prev,
+                                      [record.activityId]: { ...prev[record.activityId], [grant.id]: e.target.value },
+                                    }))}
+                                    className={`h-8 w-20 ml-auto text-right ${!eligible && parseFloat(share) > 0 ? 'border-amber-400' : ''}`}
+                                    title={eligible ? undefined : 'This activity is not eligible under the grant'}
+                                    placeholder={eligible ? '0' : 'n/a'}
+                                  />
+                                ) : (
+                                  share ? `${share}%` : '—'
+                                )}
+                              </td>
+                            );
+                          })}
+                          <td className={`p-2 text-right font-medium ${total > 100 ? 'text-red-600' : total < 100 ? 'text-amber-700' : 'text-green-700'}`}>
+                            {total}%
+                          </td>
+                          {canWrite && (
+                            <td className="p-2 text-right">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleSaveAllocations(record.activityId)}
+                                disabled={!isDirty || total > 100 || savingActivityId === record.activityId}
+                              >
+                                {savingActivityId === record.activityId
+                                  ? <Loader2 className="w-4 h-4 animate-spin" />
+                                  : <Save className="w-4 h-4" />}
+                              </Button>
+                            </td>
+                          )}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <GrantFormModal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        onSubmit={handleSaveGrant}
+        projectId={projectId}
+        activities={activities}
+        grant={editingGrant}
+      />
+    </div>
+  );
+}
@@ -9,11 +9,8 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
 import { Calendar, FileText, MapPin, Building, Clock, Hash } from 'lucide-react';
 import { DateTimePicker } from '@/components/ui/date-time-picker';
+import { useProjects } from '@/contexts/ProjectsContext';
 import {
-  COUNTRIES,
-  PROJECTS,
-  REPORT_TYPES,
-  VERSION_CONTROLS,
   getProjectsByCountry,
   getRegionsByCountry,
   generateFileName,
@@ -38,6 +35,7 @@ export function NamingConventionForm({
   showPreview = true,
   disabled = false
 }: NamingConventionFormProps) {
+  const { namingRegistry } = useProjects();
   const [formData, setFormData] = useState<NamingConventionData>({
     countryCode: initialData?.countryCode || '',
     regionCode: initialData?.regionCode || '',
@@ -54,7 +52,7 @@ export function NamingConventionForm({
   // Update available projects when country changes
   useEffect(() => {
     if (formData.countryCode) {
-      const projects = getProjectsByCountry(formData.countryCode);
+      const projects = getProjectsByCountry(formData.countryCode, namingRegistry);
       setAvailableProjects(projects);
       
       // Reset project if it's not available for the selected country
@@ -65,12 +63,12 @@ export function NamingConventionForm({
       setAvailableProjects([]);
       setFormData(prev => ({ ...prev, projectCode: '' }));
     }
-  }, [formData.countryCode]);
+  }, [formData.countryCode, namingRegistry]);
 
   // Update available regions when country changes
   useEffect(() => {
     if (formData.countryCode) {
-      const regions = getRegionsByCountry(formData.countryCode);
+      const regions = getRegionsByCountry(formData.countryCode, namingRegistry);
       setAvailableRegions(regions);
       
       // Reset region if it's not available for the selected country
@@ -81,12 +79,12 @@ export function NamingConventionForm({
       setAvailableRegions([]);
       setFormData(prev => ({ ...prev, regionCode: '' }));
     }
-  }, [formData.countryCode]);
+  }, [formData.countryCode, namingRegistry]);
 
   // Validate form data whenever it changes
   useEffect(() => {
     if (formData.countryCode && formData.regionCode && formData.projectCode && formData.reportTypeCode) {
-      const validationResult = validateNamingConvention(formData);
+      const validationResult = validateNamingConvention(formData, namingRegistry);
       setValidation(validationResult);
       
       if (validationResult.isValid && onDataChange) {
@@ -96,14 +94,14 @@ export function NamingConventionForm({
     } else {
       setValidation({ isValid: false, errors: [] });
     }
-  }, [formData, onDataChange]);
+  }, [formData, onDataChange, namingRegistry]);
 
   const handleFieldChange = (field: keyof NamingConventionData, value: string | Date) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
   const getSelectedCountry = (): Country | undefined => {
-    return COUNTRIES.find(c => c.code === formData.countryCode);
+    return namingRegistry.countries.find(c => c.code === formData.countryCode);
   };
 
   const getSelectedRegion = (): Region | undefined => {
@@ -115,11 +113,11 @@ export function NamingConventionForm({
   };
 
   const getSelectedReportType = (): ReportType | undefined => {
-    return REPORT_TYPES.find(t => t.code === formData.reportTypeCode);
+    return namingRegistry.reportTypes.find(t => t.code === formData.reportTypeCode);
   };
 
   const getSelectedVersionControl = (): string => {
-    return VERSION_CONTROLS.find(v => v.code === formData.versionControl)?.name || '';
+    return namingRegistry.versionControls.find(v => v.code === formData.versionControl)?.name || '';
   };
 
   const generatedFileName = generateFileName(formData);
@@ -148,7 +146,7 @@ export function NamingConventionForm({
               <SelectValue placeholder="Select a country" />
             </SelectTrigger>
             <SelectContent>
-              {COUNTRIES.map((country) => (
+              {namingRegistry.countries.map((country) => (
                 <SelectItem key={country.code} value={country.code}>
                   {country.name} ({country.code})
                 </SelectItem>
@@ -236,7 +234,7 @@ export function NamingConventionForm({
               <SelectValue placeholder="Select a report type" />
             </SelectTrigger>
             <SelectContent>
-              {REPORT_TYPES.map((type) => (
+              {namingRegistry.reportTypes.map((type) => (
                 <SelectItem key={type.code} value={type.code}>
                   {type.name} ({type.code})
                 </SelectItem>
@@ -280,7 +278,7 @@ export function NamingConventionForm({
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="">No version control</SelectItem>
-              {VERSION_CONTROLS.map((version) => (
+              {namingRegistry.versionControls.map((version) => (
                 <SelectItem key={version.code} value={version.code}>
                   {version.name} ({version.code})
                 </SelectItem>
@@ -0,0 +1,390 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileSearch, Plus, Save, Trash2 } from 'lucide-react';
+import { useProjects } from '@/contexts/ProjectsContext';
+import { useNotification } from '@/hooks/useNotification';
+import { reportService } from '@/services/reportService';
+import {
+  NamingRegistry,
+  Project as NamingProject,
+  validateFileName,
+  validateNamingRegistry
+} from '@/lib/namingConvention';
+
+type CodeListKey = 'reportTypes' | 'versionControls';
+
+interface CodeListEntry {
+  code: string;
+  name: string;
+  description: string;
+}
+
+interface InvalidFile {
+  projectName: string;
+  fileName: string;
+  errors: string[];
+}
+
+// Radix selects cannot hold an empty value
+const NOT_LINKED = 'none';
+
+// Trims codes and names and drops empty area names left over from editing
+const normalizeRegistry = (registry: NamingRegistry): NamingRegistry => ({
+  ...registry,
+  countries: registry.countries.map(country => ({
+    ...country,
+    code: country.code.trim(),
+    name: country.name.trim(),
+    regions: country.regions.map(region => ({
+      ...region,
+      code: region.code.trim(),
+      name: region.name.trim(),
+      areas: region.areas.map(area => area.trim()).filter(Boolean)
+    }))
+  })),
+  projects: registry.projects.map(project => ({ ...project, code: project.code.trim(), name: project.name.trim() })),
+  reportTypes: registry.reportTypes.map(type => ({ ...type, code: type.code.trim(), name: type.name.trim() })),
+  versionControls: registry.versionControls.map(version => ({ ...version, code: version.code.trim(), name: version.name.trim() }))
+});
+
+function CodeListEditor({ entries, onChange }: { entries: CodeListEntry[]; onChange: (entries: CodeListEntry[]) => void }) {
+  const updateEntry = (index: number, changes: Partial<CodeListEntry>) => {
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {entries.map((entry, index) => (
+        <div key={index} className="grid grid-cols-[6rem_1fr_1fr_auto] gap-2">
+          <Input value={entry.code} onChange={e => updateEntry(index, { code: e.target.value })} placeholder="Code" />
+          <Input value={entry.name} onChange={e => updateEntry(index, { name: e.target.value })} placeholder="Name" />
+          <Input value={entry.description} onChange={e => updateEntry(index, { description: e.target.value })} placeholder="Description" />
+          <Button variant="ghost" size="icon" onClick={() => onChange(entries.filter((_, i) => i !== index))} aria-label="Remove">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => onChange([...entries, { code: '', name: '', description: '' }])}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add
+      </Button>
+    </div>
+  );
+}
+
+/** Global admin editor for the naming convention code lists, with a check of existing report files against them. */
+export function NamingRegistrySettings() {
+  const { projects, namingRegistry, saveNamingRegistry } = useProjects();
+  const { showSuccess, showError } = useNotification();
+  const [draft, setDraft] = useState<NamingRegistry>(namingRegistry);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [fileCheck, setFileCheck] = useState<{ checked: number; invalid: InvalidFile[] } | null>(null);
+
+  useEffect(() => {
+    setDraft(namingRegistry);
+    setErrors([]);
+  }, [namingRegistry]);
+
+  const hasChanges = draft !== namingRegistry;
+  const unlinkedProjects = projects.filter(project => !draft.projects.some(p => p.projectId === project.id));
+
+  // Countries and regions
+  const updateCountry = (index: number, changes: Partial<NamingRegistry['countries'][number]>) => {
+    setDraft(prev => {
+      const previousCode = prev.countries[index].code;
+      const newCode = changes.code;
+      return {
+        ...prev,
+        countries: prev.countries.map((country, i) => (i === index ? { ...country, ...changes } : country)),
+        // Projects follow their country when its code is renamed
+        projects: newCode === undefined
+          ? prev.projects
+          : prev.projects.map(project => (project.country === previousCode ? { ...project, country: newCode } : project))
+      };
+    });
+  };
+
+  const updateRegion = (countryIndex: number, regionIndex: number, changes: Partial<{ code: string; name: string; areas: string[] }>) => {
+    const country = draft.countries[countryIndex];
+    updateCountry(countryIndex, {
+      regions: country.regions.map((region, i) => (i === regionIndex ? { ...region, ...changes } : region))
+    });
+  };
+
+  // Projects
+  const updateProject = (index: number, changes: Partial<NamingProject>) => {
+    setDraft(prev => ({
+      ...prev,
+      projects: prev.projects.map((project, i) => (i === index ? { ...project, ...changes } : project))
+    }));
+  };
+
+  const setCodeList = (key: CodeListKey, entries: CodeListEntry[]) => {
+    setDraft(prev => ({ ...prev, [key]: entries }));
+  };
+
+  const handleSave = async () => {
+    const registry = normalizeRegistry(draft);
+    const validationErrors = validateNamingRegistry(registry);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    setIsSaving(true);
+    try {
+      await saveNamingRegistry(registry);
+      showSuccess('Naming Registry Saved', 'File naming now uses the updated code lists.');
+    } catch (error) {
+      showError('Failed to Save Naming Registry', error instanceof Error ? error.message : 'An unexpected error occurred. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCheckFiles = async () => {
+    setIsChecking(true);
+    setFileCheck(null);
+    try {
+      const registry = normalizeRegistry(draft);
+      const results = await Promise.all(projects.map(async project => {
+        try {
+          const { data } = await reportService.getReports(project.id);
+          return data.map(report => ({ projectName: project.name, fileName: report.title, ...validateFileName(report.title, registry) }));
+        } catch (error) {
+          console.error(`Error loading reports for project ${project.id}:`, error);
+          return [];
+        }
+      }));
+      const files = results.flat();
+      setFileCheck({
+        checked: files.length,
+        invalid: files.filter(file => !file.isValid).map(({ projectName, fileName, errors }) => ({ projectName, fileName, errors }))
+      });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Naming Convention Registry</CardTitle>
+        <CardDescription>
+          Country, region, project, report type and version codes used to name uploaded reports and media
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs defaultValue="countries">
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="countries">Countries</TabsTrigger>
+            <TabsTrigger value="projects">Projects</TabsTrigger>
+            <TabsTrigger value="reportTypes">Report Types</TabsTrigger>
+            <TabsTrigger value="versionControls">Versions</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="countries" className="space-y-3">
+            {draft.countries.map((country, countryIndex) => (
+              <div key={countryIndex} className="p-3 border rounded-lg space-y-2">
+                <div className="grid grid-cols-[6rem_1fr_auto] gap-2">
+                  <Input value={country.code} onChange={e => updateCountry(countryIndex, { code: e.target.value })} placeholder="Code" />
+                  <Input value={country.name} onChange={e => updateCountry(countryIndex, { name: e.target.value })} placeholder="Country name" />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDraft(prev => ({ ...prev, countries: prev.countries.filter((_, i) => i !== countryIndex) }))}
+                    aria-label="Remove country"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="pl-4 space-y-2">
+                  {country.regions.map((region, regionIndex) => (
+                    <div key={regionIndex} className="grid grid-cols-[6rem_1fr_1fr_auto] gap-2">
+                      <Input value={region.code} onChange={e => updateRegion(countryIndex, regionIndex, { code: e.target.value })} placeholder="Code" />
+                      <Input value={region.name} onChange={e => updateRegion(countryIndex, regionIndex, { name: e.target.value })} placeholder="Region name" />
+                      <Input
+                        value={region.areas.join(', ')}
+                        onChange={e => updateRegion(countryIndex, regionIndex, { areas: e.target.value.split(',').map(area => area.trimStart()) })}
+                        placeholder="Areas, comma separated"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => updateCountry(countryIndex, { regions: country.regions.filter((_, i) => i !== regionIndex) })}
+                        aria-label="Remove region"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateCountry(countryIndex, { regions: [...country.regions, { code: '', name: '', areas: [] }] })}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Region
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft(prev => ({ ...prev, countries: [...prev.countries, { code: '', name: '', regions: [] }] }))}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Country
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="projects" className="space-y-3">
+            {draft.projects.map((project, index) => (
+              <div key={index} className="p-3 border rounded-lg space-y-2">
+                <div className="grid grid-cols-[6rem_1fr_auto] gap-2">
+                  <Input value={project.code} onChange={e => updateProject(index, { code: e.target.value })} placeholder="Code" />
+                  <Input value={project.name} onChange={e => updateProject(index, { name: e.target.value })} placeholder="Name" />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDraft(prev => ({ ...prev, projects: prev.projects.filter((_, i) => i !== index) }))}
+                    aria-label="Remove project"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Input value={project.description} onChange={e => updateProject(index, { description: e.target.value })} placeholder="Description" />
+                <div className="grid grid-cols-2 gap-2">
+                  <Select value={project.country} onValueChange={value => updateProject(index, { country: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Country" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {draft.countries.filter(country => country.code).map(country => (
+                        <SelectItem key={country.code} value={country.code}>
+                          {country.name} ({country.code})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={project.projectId || NOT_LINKED}
+                    onValueChange={value => updateProject(index, { projectId: value === NOT_LINKED ? undefined : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Dashboard project" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_LINKED}>Not linked to a dashboard project</SelectItem>
+                      {projects.map(p => (
+                        <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft(prev => ({ ...prev, projects: [...prev.projects, { code: '', name: '', description: '', country: '' }] }))}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Project Code
+            </Button>
+            {unlinkedProjects.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">Dashboard projects without a naming code:</p>
+                <div className="flex flex-wrap gap-2">
+                  {unlinkedProjects.map(project => (
+                    <Badge key={project.id} variant="outline">{project.name}</Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="reportTypes">
+            <CodeListEditor entries={draft.reportTypes} onChange={entries => setCodeList('reportTypes', entries)} />
+          </TabsContent>
+
+          <TabsContent value="versionControls">
+            <CodeListEditor entries={draft.versionControls} onChange={entries => setCodeList('versionControls', entries)} />
+          </TabsContent>
+        </Tabs>
+
+        {errors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              <ul className="list-disc list-inside space-y-1">
+                {errors.map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button onClick={handleSave} disabled={!hasChanges || isSaving}>
+            <Save className="h-4 w-4 mr-2" />
+            {isSaving ? 'Saving...' : 'Save Registry'}
+          </Button>
+          <Button variant="outline" onClick={() => setDraft(namingRegistry)} disabled={!hasChanges || isSaving}>
+            Discard Changes
+          </Button>
+          <Button variant="outline" onClick={handleCheckFiles} disabled={isChecking || projects.length === 0}>
+            <FileSearch className="h-4 w-4 mr-2" />
+            {isChecking ? 'Checking...' : 'Check Existing Files'}
+          </Button>
+        </div>
+        {namingRegistry.updatedAt && (
+          <p className="text-xs text-muted-foreground">
+            Last updated {new Date(namingRegistry.updatedAt).toLocaleString()}
+            {namingRegistry.updatedByName ? ` by ${namingRegistry.updatedByName}` : ''}
+          </p>
+        )}
+
+        {fileCheck && (
+          <div className="space-y-2">
+            <p className="text-sm">
+              {fileCheck.invalid.length === 0
+                ? `All ${fileCheck.checked} report files match the code lists above.`
+                : `${fileCheck.invalid.length} of ${fileCheck.checked} report files do not match the code lists above.`}
+            </p>
+            {fileCheck.invalid.length > 0 && (
+              <div className="border rounded-lg max-h-80 overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Project</TableHead>
+                      <TableHead>File</TableHead>
+                      <TableHead>Problems</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {fileCheck.invalid.map((file, index) => (
+                      <TableRow key={index}>
+                        <TableCell className="text-sm">{file.projectName}</TableCell>
+                        <TableCell className="text-sm font-mono break-all">{file.fileName}</TableCell>
+                        <TableCell className="text-sm text-red-600">{file.errors.join('; ')}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -31,10 +31,8 @@ export function OfflineDemo() {
 
   const addTestFormResponse = () => {
     addToOfflineQueue('form_response', {
-      id: `test_response_${Date.now()}`,
       formId: 'test-form',
-      responses: { question1: 'Test answer' },
-      submittedAt: new Date(),
+      data: { question1: 'Test answer' },
       isComplete: true
     });
   };
@@ -160,7 +158,7 @@ export function OfflineDemo() {
         <CardContent className="space-y-4">
           <div className="flex space-x-2">
             <Button 
-              onClick={processOfflineQueue}
+              onClick={() => processOfflineQueue({ ignoreBackoff: true })}
               disabled={syncStatus.isSyncing || !isOnline}
               className="flex items-center space-x-2"
             >
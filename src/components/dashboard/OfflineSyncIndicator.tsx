@@ -12,7 +12,8 @@ import {
   CheckCircle, 
   Clock,
   Trash2,
-  Play
+  Play,
+  GitMerge
 } from 'lucide-react';
 
 export function OfflineSyncIndicator() {
@@ -23,11 +24,14 @@ export function OfflineSyncIndicator() {
     retryFailedItems,
     clearOfflineQueue,
     getOfflineQueue,
-    getFailedItems
+    getFailedItems,
+    getConflictItems,
+    resolveConflict
   } = useForm();
 
   const queue = getOfflineQueue();
   const failedItems = getFailedItems();
+  const conflictItems = getConflictItems();
 
   if (queue.length === 0 && isOnline) {
     return null; // Don't show anything when online and no queue
@@ -68,13 +72,27 @@ export function OfflineSyncIndicator() {
                 <span>{syncStatus.failedItems} Failed</span>
               </Badge>
             )}
+
+            {syncStatus.conflictItems > 0 && (
+              <Badge variant="outline" className="flex items-center space-x-1 border-amber-400 text-amber-700">
+                <GitMerge className="w-3 h-3" />
+                <span>{syncStatus.conflictItems} Conflict{syncStatus.conflictItems === 1 ? '' : 's'}</span>
+              </Badge>
+            )}
           </div>
           
-          {syncStatus.lastSyncTime && (
-            <span className="text-xs text-gray-500">
-              Last sync: {syncStatus.lastSyncTime.toLocaleTimeString()}
-            </span>
-          )}
+          <div className="flex flex-col items-end">
+            {syncStatus.lastSyncTime && (
+              <span className="text-xs text-gray-500">
+                Last sync: {syncStatus.lastSyncTime.toLocaleTimeString()}
+              </span>
+            )}
+            {isOnline && !syncStatus.isSyncing && syncStatus.nextRetryAt && (
+              <span className="text-xs text-gray-500">
+                Next retry: {syncStatus.nextRetryAt.toLocaleTimeString()}
+              </span>
+            )}
+          </div>
         </div>
 
         {/* Sync Progress */}
@@ -88,6 +106,44 @@ export function OfflineSyncIndicator() {
           </div>
         )}
 
+        {/* Conflicts */}
+        {conflictItems.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-amber-700">
+              Needs your attention ({conflictItems.length})
+            </div>
+            {conflictItems.map((item) => (
+              <div key={item.id} className="text-xs p-2 bg-amber-50 border border-amber-200 rounded space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="capitalize font-medium">{item.type.replace('_', ' ')}</span>
+                  <span className="text-gray-500">{new Date(item.timestamp).toLocaleString()}</span>
+                </div>
+                <div className="text-amber-800">
+                  {item.lastError || 'The form was changed on the server after this edit was made offline.'}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => resolveConflict(item.id, 'overwrite')}
+                    disabled={!isOnline || syncStatus.isSyncing}
+                  >
+                    {item.data?.missingMedia ? 'Send without attachment' : 'Keep my changes'}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => resolveConflict(item.id, 'discard')}
+                    disabled={syncStatus.isSyncing}
+                  >
+                    {item.data?.missingMedia ? 'Discard response' : 'Discard my changes'}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Queue Details */}
         {queue.length > 0 && (
           <div className="space-y-2">
@@ -101,15 +157,18 @@ export function OfflineSyncIndicator() {
                       {new Date(item.timestamp).toLocaleTimeString()}
                     </span>
                   </div>
-                  <div className="flex items-center space-x-1">
+                  <div className="flex items-center space-x-1" title={item.lastError}>
                     {item.retryCount > 0 && (
                       <Badge variant="outline" className="text-xs">
                         Retry {item.retryCount}/{item.maxRetries}
                       </Badge>
                     )}
-                    {item.retryCount >= item.maxRetries && (
+                    {item.status === 'failed' && (
                       <AlertCircle className="w-3 h-3 text-red-500" />
                     )}
+                    {item.status === 'conflict' && (
+                      <GitMerge className="w-3 h-3 text-amber-600" />
+                    )}
                   </div>
                 </div>
               ))}
@@ -127,7 +186,7 @@ export function OfflineSyncIndicator() {
           {isOnline && syncStatus.pendingItems > 0 && (
             <Button
               size="sm"
-              onClick={processOfflineQueue}
+              onClick={() => processOfflineQueue({ ignoreBackoff: true })}
               disabled={syncStatus.isSyncing}
               className="flex items-center space-x-1"
             >
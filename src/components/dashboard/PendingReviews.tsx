@@ -97,9 +97,18 @@ export function PendingReviews({ projectId, refreshTrigger }: PendingReviewsProp
     });
   };
 
+  // Unresolved annotations block approval: true to override them, null when the reviewer backs out
+  const confirmAnnotationOverride = async (reportId: string): Promise<boolean | null> => {
+    const unresolved = await reportWorkflowService.getUnresolvedAnnotationCount(reportId);
+    if (unresolved === 0) return false;
+    return window.confirm(`This report has ${unresolved} unresolved annotation(s). Approve it anyway?`) ? true : null;
+  };
+
   const handleQuickApprove = async (reportId: string) => {
     try {
-      await reportWorkflowService.review(reportId, 'APPROVE');
+      const override = await confirmAnnotationOverride(reportId);
+      if (override === null) return;
+      await reportWorkflowService.review(reportId, 'APPROVE', undefined, undefined, undefined, undefined, override);
       toast({ title: 'Approved', description: 'Report approved successfully.' });
       await loadPendingReviews();
     } catch (e: any) {
@@ -179,7 +188,9 @@ export function PendingReviews({ projectId, refreshTrigger }: PendingReviewsProp
 
   const handleReview = async (reportId: string, action: 'APPROVE' | 'REJECT' | 'REQUEST_CHANGES') => {
     try {
-      await reportWorkflowService.review(reportId, action);
+      const override = action === 'APPROVE' ? await confirmAnnotationOverride(reportId) : false;
+      if (override === null) return;
+      await reportWorkflowService.review(reportId, action, undefined, undefined, undefined, undefined, override);
       toast({ title: 'Success', description: `Review submitted: ${action}` });
       // Refresh lists
       const [pending, mine] = await Promise.all([
@@ -0,0 +1,530 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { saveAs } from 'file-saver';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, Loader2, Plus, RefreshCw, Send, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProjects } from '@/contexts/ProjectsContext';
+import { reportWorkflowService } from '@/services/reportWorkflowService';
+import { reportService } from '@/services/reportService';
+import { financialApi } from '@/lib/api/financialApi';
+import { ApprovalChainTemplate, ReportTemplate, ReportTemplateField, ReportingSchedule } from '@/types/dashboard';
+import { resolveApprovalChainTemplate } from '@/lib/reportWorkflowUtils';
+import {
+  FinancialSummaryValue,
+  KpiValueRow,
+  ReportFieldValue,
+  ReportFieldValues,
+  ReportingPeriod,
+  buildFinancialSummaryValue,
+  buildKpiRows,
+  buildReportPdf,
+  clearReportDraft,
+  createInitialValues,
+  getMissingRequiredFields,
+  getRecentReportingPeriods,
+  getReportFileName,
+  getTemplateSections,
+  getTemplatesForProject,
+  loadReportDraft,
+  saveReportDraft,
+} from '@/lib/reportTemplates';
+import { toast } from '@/hooks/use-toast';
+
+interface ReportBuilderProps {
+  projectId: string;
+  onSubmitted?: () => void;
+}
+
+const formatAmount = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 0 });
+
+/** Staff write a narrative report from a template; the PDF is uploaded into the approval workflow. */
+export function ReportBuilder({ projectId, onSubmitted }: ReportBuilderProps) {
+  const { user } = useAuth();
+  const { getProjectKPIs, getProjectById } = useProjects();
+  const [templates, setTemplates] = useState<ReportTemplate[]>([]);
+  const [chainTemplates, setChainTemplates] = useState<ApprovalChainTemplate[]>([]);
+  const [schedules, setSchedules] = useState<ReportingSchedule[]>([]);
+  const [loadingTemplates, setLoadingTemplates] = useState(true);
+  const [templateId, setTemplateId] = useState('');
+  const [periodKey, setPeriodKey] = useState('');
+  const [title, setTitle] = useState('');
+  const [values, setValues] = useState<ReportFieldValues>({});
+  const [isDirty, setIsDirty] = useState(false);
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+  const [loadingData, setLoadingData] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    setLoadingTemplates(true);
+    Promise.all([
+      reportWorkflowService.getReportTemplates(projectId),
+      reportWorkflowService.getApprovalChainTemplates(projectId).catch(error => {
+        console.error('Error loading approval chain templates:', error);
+        return [];
+      }),
+      reportWorkflowService.getReportingSchedules(projectId).catch(error => {
+        console.error('Error loading reporting schedules:', error);
+        return [];
+      }),
+    ])
+      .then(([loadedTemplates, loadedChains, loadedSchedules]) => {
+        setTemplates(getTemplatesForProject(loadedTemplates, projectId));
+        setChainTemplates(loadedChains);
+        setSchedules(loadedSchedules);
+      })
+      .catch(error => console.error('Error loading report templates:', error))
+      .finally(() => setLoadingTemplates(false));
+  }, [projectId]);
+
+  const template = templates.find(t => t.id === templateId);
+  const periods = useMemo(() => (template ? getRecentReportingPeriods(template.category) : []), [template]);
+  const period = periods.find(p => p.key === periodKey);
+  const projectName = getProjectById(projectId)?.name ?? projectId;
+  // The report counts towards the project's reporting schedule for this template, if there is one
+  const schedule = schedules.find(s => s.isActive && s.reportTemplateId === templateId && s.frequency === template?.category);
+  const approvalChain = useMemo(
+    () => resolveApprovalChainTemplate(chainTemplates, projectId, template?.category ?? 'adhoc'),
+    [chainTemplates, projectId, template]
+  );
+
+  // Fills KPI and financial summary fields from project data, keeping comments already written
+  const pullProjectData = useCallback(async (
+    target: ReportTemplate,
+    targetPeriod: ReportingPeriod,
+    current: ReportFieldValues
+  ): Promise<ReportFieldValues> => {
+    const kpiFields = target.fields.filter(field => field.type === 'kpi');
+    const financialFields = target.fields.filter(field => field.type === 'financial-summary');
+    if (kpiFields.length === 0 && financialFields.length === 0) return current;
+
+    setLoadingData(true);
+    try {
+      const [kpis, summary] = await Promise.all([
+        kpiFields.length > 0 ? getProjectKPIs(projectId) : Promise.resolve([]),
+        financialFields.length > 0
+          ? financialApi.getFinancialSummary(projectId, targetPeriod.year).catch(error => {
+            console.error('Error loading financial summary:', error);
+            return null;
+          })
+          : Promise.resolve(null),
+      ]);
+
+      const next = { ...current };
+      kpiFields.forEach(field => {
+        next[field.id] = buildKpiRows(field, kpis, current[field.id] as KpiValueRow[] | undefined);
+      });
+      financialFields.forEach(field => {
+        if (summary) {
+          next[field.id] = buildFinancialSummaryValue(summary, targetPeriod, current[field.id] as FinancialSummaryValue | undefined);
+        }
+      });
+      return next;
+    } finally {
+      setLoadingData(false);
+    }
+  }, [projectId, getProjectKPIs]);
+  // Read through a ref so refreshed project data does not restart a report being written
+  const pullProjectDataRef = useRef(pullProjectData);
+  pullProjectDataRef.current = pullProjectData;
+
+  // Restore the draft for this template and period, or start a fresh report
+  useEffect(() => {
+    if (!template || !period) return;
+    setIsDirty(false);
+
+    const draft = loadReportDraft(projectId, template.id, period.key);
+    if (draft) {
+      setTitle(draft.title);
+      setValues(draft.values);
+      setDraftSavedAt(draft.savedAt);
+      return;
+    }
+
+    let cancelled = false;
+    const initial = createInitialValues(template);
+    setTitle(`${template.name} – ${period.label}`);
+    setValues(initial);
+    setDraftSavedAt(null);
+    pullProjectDataRef.current(template, period, initial).then(next => {
+      if (!cancelled) setValues(next);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, template, period]);
+
+  useEffect(() => {
+    if (!isDirty || !template || !period) return;
+    const timeout = setTimeout(() => {
+      saveReportDraft(projectId, template.id, period.key, { title, values });
+      setDraftSavedAt(new Date().toISOString());
+    }, 1000);
+    return () => clearTimeout(timeout);
+  }, [isDirty, title, values, projectId, template, period]);
+
+  const handleTemplateChange = (id: string) => {
+    const selected = templates.find(t => t.id === id);
+    setTemplateId(id);
+    if (!selected) return;
+    // Reports are usually written once a period has closed, so default to the previous one
+    const options = getRecentReportingPeriods(selected.category);
+    setPeriodKey((options[1] ?? options[0]).key);
+  };
+
+  const setValue = (fieldId: string, value: ReportFieldValue) => {
+    setValues(prev => ({ ...prev, [fieldId]: value }));
+    setIsDirty(true);
+  };
+
+  const handleRefreshData = async () => {
+    if (!template || !period) return;
+    const next = await pullProjectData(template, period, values);
+    setValues(next);
+    setIsDirty(true);
+  };
+
+  const buildPdf = () => {
+    if (!template || !period) return null;
+    return buildReportPdf(template, values, {
+      title: title.trim() || template.name,
+      projectName,
+      period,
+      preparedBy: user ? `${user.firstName} ${user.lastName}`.trim() || user.email : 'Unknown',
+    });
+  };
+
+  const handleDownload = () => {
+    const pdf = buildPdf();
+    if (pdf && template && period) saveAs(pdf, getReportFileName(template, period));
+  };
+
+  const handleSubmit = async () => {
+    if (!template || !period) return;
+
+    const missing = getMissingRequiredFields(template, values);
+    if (missing.length > 0 || !title.trim()) {
+      toast({
+        title: 'Report incomplete',
+        description: missing.length > 0
+          ? `Fill in the required fields: ${missing.map(field => field.name).join(', ')}.`
+          : 'Give the report a title.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const pdf = buildPdf();
+      if (!pdf) return;
+      const file = new File([pdf], getReportFileName(template, period), { type: 'application/pdf' });
+      await reportService.uploadReportFile(projectId, file, {
+        title: title.trim(),
+        description: `${template.name} for ${projectName}, ${period.label}`,
+        category: 'ADHOC',
+        reportType: 'PROG',
+        reportFrequency: template.category,
+        approvalChainTemplateId: approvalChain.id === 'default' ? undefined : approvalChain.id,
+        reportTemplateId: template.id,
+        reportingPeriod: period.key,
+        templateValues: values,
+        reportingScheduleId: schedule?.id,
+      });
+
+      clearReportDraft(projectId, template.id, period.key);
+      setIsDirty(false);
+      setDraftSavedAt(null);
+      toast({ title: 'Report submitted', description: `"${title.trim()}" has been sent for approval.` });
+      onSubmitted?.();
+    } catch (error) {
+      console.error('Error submitting report:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to submit report',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderKpiField = (field: ReportTemplateField, rows: KpiValueRow[]) => {
+    if (rows.length === 0) {
+      return <p className="text-sm text-gray-500">No KPIs found for this project.</p>;
+    }
+    const updateRow = (kpiId: string, updates: Partial<KpiValueRow>) =>
+      setValue(field.id, rows.map(row => (row.kpiId === kpiId ? { ...row, ...updates } : row)));
+
+    return (
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-gray-600 text-left">
+              <th className="py-2 pr-2 font-medium">Indicator</th>
+              <th className="py-2 px-2 font-medium">Target</th>
+              <th className="py-2 px-2 font-medium">Achieved</th>
+              <th className="py-2 pl-2 font-medium">Comment</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.kpiId} className="border-b last:border-0">
+                <td className="py-2 pr-2">{row.name}</td>
+                <td className="py-2 px-2 whitespace-nowrap">
+                  {row.target === null ? '—' : `${row.target.toLocaleString()} ${row.unit}`}
+                </td>
+                <td className="py-2 px-2 w-32">
+                  <Input
+                    type="number"
+                    value={row.value ?? ''}
+                    onChange={(e) => updateRow(row.kpiId, { value: e.target.value === '' ? null : parseFloat(e.target.value) })}
+                  />
+                </td>
+                <td className="py-2 pl-2">
+                  <Input
+                    value={row.comment}
+                    onChange={(e) => updateRow(row.kpiId, { comment: e.target.value })}
+                    placeholder="Explain progress or variance"
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  const renderFinancialField = (field: ReportTemplateField, summary: FinancialSummaryValue | undefined) => {
+    if (!summary) {
+      return <p className="text-sm text-gray-500">No financial data for {period?.year}.</p>;
+    }
+    return (
+      <div className="space-y-3">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-gray-600">
+              <th className="py-2 pr-2 font-medium text-left"></th>
+              <th className="py-2 px-2 font-medium text-right">Budget</th>
+              <th className="py-2 px-2 font-medium text-right">Spent</th>
+              <th className="py-2 pl-2 font-medium text-right">Variance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.quarters.map(quarter => (
+              <tr key={quarter.quarter} className="border-b">
+                <td className="py-2 pr-2">{quarter.quarter}</td>
+                <td className="py-2 px-2 text-right">{formatAmount(quarter.budget)}</td>
+                <td className="py-2 px-2 text-right">{formatAmount(quarter.spent)}</td>
+                <td className="py-2 pl-2 text-right">{formatAmount(quarter.budget - quarter.spent)}</td>
+              </tr>
+            ))}
+            <tr className="font-medium">
+              <td className="py-2 pr-2">{summary.year} total</td>
+              <td className="py-2 px-2 text-right">{formatAmount(summary.totalBudget)}</td>
+              <td className="py-2 px-2 text-right">{formatAmount(summary.totalSpent)}</td>
+              <td className="py-2 pl-2 text-right">{formatAmount(summary.variance)}</td>
+            </tr>
+          </tbody>
+        </table>
+        <Textarea
+          value={summary.comment}
+          onChange={(e) => setValue(field.id, { ...summary, comment: e.target.value })}
+          placeholder="Comment on spending, e.g. reasons for under- or overspend"
+          rows={3}
+        />
+      </div>
+    );
+  };
+
+  const renderTableField = (field: ReportTemplateField, rows: string[][]) => {
+    const columns = field.columns ?? [];
+    const updateCell = (rowIndex: number, columnIndex: number, cell: string) =>
+      setValue(field.id, rows.map((row, r) => (r === rowIndex ? row.map((c, i) => (i === columnIndex ? cell : c)) : row)));
+
+    return (
+      <div className="space-y-2">
+        <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(0, 1fr)) auto` }}>
+          {columns.map(column => (
+            <span key={column} className="text-xs font-medium text-gray-600">{column}</span>
+          ))}
+          <span />
+          {rows.map((row, rowIndex) => (
+            <React.Fragment key={rowIndex}>
+              {columns.map((column, columnIndex) => (
+                <Input
+                  key={column}
+                  value={row[columnIndex] ?? ''}
+                  onChange={(e) => updateCell(rowIndex, columnIndex, e.target.value)}
+                />
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={rows.length === 1}
+                onClick={() => setValue(field.id, rows.filter((_, r) => r !== rowIndex))}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </React.Fragment>
+          ))}
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setValue(field.id, [...rows, columns.map(() => '')])}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add row
+        </Button>
+      </div>
+    );
+  };
+
+  const renderField = (field: ReportTemplateField) => {
+    const value = values[field.id];
+    switch (field.type) {
+      case 'kpi':
+        return renderKpiField(field, (value as KpiValueRow[] | undefined) ?? []);
+      case 'financial-summary':
+        return renderFinancialField(field, value as FinancialSummaryValue | undefined);
+      case 'table':
+        return renderTableField(field, (value as string[][] | undefined) ?? [(field.columns ?? []).map(() => '')]);
+      case 'textarea':
+        return <Textarea value={(value as string) ?? ''} onChange={(e) => setValue(field.id, e.target.value)} rows={6} />;
+      case 'select':
+        return (
+          <Select value={(value as string) || undefined} onValueChange={(option) => setValue(field.id, option)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select..." />
+            </SelectTrigger>
+            <SelectContent>
+              {(field.options ?? []).map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      default:
+        return (
+          <Input
+            type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+            value={(value as string) ?? ''}
+            onChange={(e) => setValue(field.id, e.target.value)}
+          />
+        );
+    }
+  };
+
+  if (loadingTemplates) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500 py-6 justify-center">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading report templates...
+      </div>
+    );
+  }
+
+  if (templates.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-6">
+        No report templates are available for this project yet. A project admin can create one under Report Templates.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Template</Label>
+          <Select value={templateId || undefined} onValueChange={handleTemplateChange}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a report template" />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map(t => (
+                <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {template && (
+          <div className="space-y-2">
+            <Label>Reporting period</Label>
+            <Select value={periodKey} onValueChange={setPeriodKey}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {periods.map(p => (
+                  <SelectItem key={p.key} value={p.key}>{p.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      {template && period && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="reportTitle">Title</Label>
+            <Input
+              id="reportTitle"
+              value={title}
+              onChange={(e) => {
+                setTitle(e.target.value);
+                setIsDirty(true);
+              }}
+            />
+            <div className="flex items-center gap-2 flex-wrap text-xs text-gray-500">
+              <span>
+                Approval route: {approvalChain.name} ({approvalChain.stages.map(stage => stage.name).join(' → ')})
+              </span>
+              {draftSavedAt && <Badge variant="outline">Draft saved {new Date(draftSavedAt).toLocaleTimeString()}</Badge>}
+            </div>
+          </div>
+
+          {getTemplateSections(template).map(({ section, fields }) => fields.length > 0 && (
+            <Card key={section.id}>
+              <CardHeader>
+                <CardTitle className="text-lg">{section.title}</CardTitle>
+                {section.description && <CardDescription>{section.description}</CardDescription>}
+              </CardHeader>
+              <CardContent className="space-y-5">
+                {fields.map(field => (
+                  <div key={field.id} className="space-y-2">
+                    <Label>
+                      {field.name}
+                      {field.required && <span className="text-red-500"> *</span>}
+                    </Label>
+                    {field.helpText && <p className="text-xs text-gray-500">{field.helpText}</p>}
+                    {renderField(field)}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+
+          <div className="flex items-center justify-end gap-2 flex-wrap">
+            <Button variant="outline" onClick={handleRefreshData} disabled={loadingData || submitting}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${loadingData ? 'animate-spin' : ''}`} />
+              Refresh project data
+            </Button>
+            <Button variant="outline" onClick={handleDownload} disabled={submitting}>
+              <Download className="w-4 h-4 mr-2" />
+              Download PDF
+            </Button>
+            <Button onClick={handleSubmit} disabled={submitting || loadingData}>
+              {submitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+              Submit for approval
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,599 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  RenderingCancelledException,
+  TextLayer,
+  type PDFDocumentProxy,
+  type PageViewport,
+  type RenderTask,
+} from 'pdfjs-dist';
+import 'pdfjs-dist/web/pdf_viewer.css';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BoxSelect, CheckCircle, ChevronLeft, ChevronRight, Highlighter, RotateCcw, Trash2 } from 'lucide-react';
+import { reportWorkflowService } from '@/services/reportWorkflowService';
+import { reportService } from '@/services/reportService';
+import { PdfPageRegion, ReportAnnotation, ReportDocumentVersion } from '@/types/dashboard';
+import { PageBox, mergeSelectionBoxes, toPageBox, toPdfRegion } from '@/lib/pdfRegions';
+import { loadPdfDocument } from '@/lib/pdfjs';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+interface AnnotatedReport {
+  id: string;
+  files?: { id: string; title?: string }[];
+}
+
+interface ReportDocumentAnnotatorProps {
+  report: AnnotatedReport; // Workflow report as returned by reportWorkflowService.getReportById
+  projectId?: string;
+  versions: ReportDocumentVersion[]; // Oldest first
+  annotations: ReportAnnotation[];
+  onAnnotationsChanged: () => void;
+}
+
+interface AnnotatableDocument {
+  fileId: string;
+  fileName: string;
+  versionId?: string;
+  versionNumber?: number;
+}
+
+interface DraftAnnotation {
+  regions: PdfPageRegion[];
+  quote?: string;
+}
+
+type AnnotationTool = 'text' | 'area';
+
+// A click without a drag marks an area of this size, in points, around the point
+const POINT_AREA = { width: 24, height: 16 };
+
+const isPdf = (fileName?: string) => !!fileName && fileName.toLowerCase().endsWith('.pdf');
+
+const boxStyle = (box: PageBox): React.CSSProperties => ({
+  left: box.left,
+  top: box.top,
+  width: box.width,
+  height: box.height,
+});
+
+const boxBetween = (a: { x: number; y: number }, b: { x: number; y: number }): PageBox => ({
+  left: Math.min(a.x, b.x),
+  top: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
+
+// PDF y runs up the page, so the highest region comes first in reading order
+const topOf = (annotation: ReportAnnotation) =>
+  Math.max(...annotation.regions.map(region => region.y + region.height), 0);
+
+const leftOf = (annotation: ReportAnnotation) =>
+  Math.min(...annotation.regions.map(region => region.x), Number.MAX_VALUE);
+
+/**
+ * PDF viewer where reviewers highlight passages or mark areas of a page and leave comments on them.
+ * Pages are rendered with pdf.js, so the regions line up for every reviewer whatever their browser.
+ */
+export function ReportDocumentAnnotator({ report, projectId, versions, annotations, onAnnotationsChanged }: ReportDocumentAnnotatorProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const frameRef = useRef<HTMLDivElement>(null);
+  const pageRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+
+  // Newest document first: the version chain when there is one, otherwise the report's attached files
+  const documents = useMemo<AnnotatableDocument[]>(() => {
+    if (versions.length > 0) {
+      return [...versions].reverse()
+        .filter(version => isPdf(version.fileName))
+        .map(version => ({ fileId: version.fileId, fileName: version.fileName, versionId: version.id, versionNumber: version.versionNumber }));
+    }
+    const files = Array.isArray(report.files) ? report.files : [];
+    return files.filter(file => isPdf(file.title)).map(file => ({ fileId: file.id, fileName: file.title || file.id }));
+  }, [versions, report.files]);
+
+  const [selectedFileId, setSelectedFileId] = useState('');
+  const [pdfDocument, setPdfDocument] = useState<PDFDocumentProxy | null>(null);
+  const [page, setPage] = useState(1);
+  const [frameWidth, setFrameWidth] = useState(0);
+  const [viewport, setViewport] = useState<PageViewport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [tool, setTool] = useState<AnnotationTool | null>(null);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [dragBox, setDragBox] = useState<PageBox | null>(null);
+  const [draft, setDraft] = useState<DraftAnnotation | null>(null);
+  const [draftComment, setDraftComment] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+
+  const currentDocument = documents.find(doc => doc.fileId === selectedFileId) ?? documents[0];
+  const currentFileId = currentDocument?.fileId;
+  const hasDocuments = documents.length > 0;
+  const pageCount = pdfDocument?.numPages ?? null;
+
+  useEffect(() => {
+    if (!currentFileId || !projectId) return;
+    let loadedDocument: PDFDocumentProxy | null = null;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setPdfDocument(null);
+      setViewport(null);
+      setPage(1);
+      try {
+        const { blob } = await reportService.getReportFileContent(projectId, currentFileId);
+        const pdf = await loadPdfDocument(new Uint8Array(await blob.arrayBuffer()));
+        if (cancelled) {
+          pdf.destroy();
+          return;
+        }
+        loadedDocument = pdf;
+        setPdfDocument(pdf);
+      } catch (e) {
+        if (!cancelled) {
+          toast({ title: 'Preview Failed', description: e instanceof Error ? e.message : 'Failed to load the document', variant: 'destructive' });
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+      loadedDocument?.destroy();
+    };
+  }, [currentFileId, projectId, toast]);
+
+  // Pages are rendered to the width of the viewer, and again when it is resized
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!hasDocuments || !frame) return;
+    const observer = new ResizeObserver(([entry]) => setFrameWidth(Math.floor(entry.contentRect.width)));
+    observer.observe(frame);
+    return () => observer.disconnect();
+  }, [hasDocuments]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const textLayerDiv = textLayerRef.current;
+    if (!pdfDocument || !canvas || !textLayerDiv || frameWidth <= 0) return;
+    let renderTask: RenderTask | null = null;
+    let textLayer: TextLayer | null = null;
+    let cancelled = false;
+
+    const render = async () => {
+      const pdfPage = await pdfDocument.getPage(page);
+      const context = canvas.getContext('2d');
+      if (cancelled || !context) return;
+
+      const pageViewport = pdfPage.getViewport({ scale: frameWidth / pdfPage.getViewport({ scale: 1 }).width });
+      const outputScale = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(pageViewport.width * outputScale);
+      canvas.height = Math.floor(pageViewport.height * outputScale);
+      setViewport(pageViewport);
+
+      textLayerDiv.replaceChildren();
+      renderTask = pdfPage.render({
+        canvasContext: context,
+        viewport: pageViewport,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+      });
+      textLayer = new TextLayer({ textContentSource: pdfPage.streamTextContent(), container: textLayerDiv, viewport: pageViewport });
+      await Promise.all([renderTask.promise, textLayer.render()]);
+    };
+    render().catch(e => {
+      if (cancelled || e instanceof RenderingCancelledException) return;
+      console.error('Error rendering PDF page:', e);
+      toast({ title: 'Preview Failed', description: 'Failed to display this page', variant: 'destructive' });
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+      textLayer?.cancel();
+    };
+  }, [pdfDocument, page, frameWidth, toast]);
+
+  // Annotations on this document in reading order; the numbers label both the page marks and the list
+  const documentAnnotations = useMemo(() =>
+    annotations
+      .filter(annotation => annotation.fileId === currentFileId)
+      .sort((a, b) => a.page - b.page || topOf(b) - topOf(a) || leftOf(a) - leftOf(b))
+      .map((annotation, index) => ({ annotation, number: index + 1 })),
+  [annotations, currentFileId]);
+
+  const visibleAnnotations = documentAnnotations.filter(({ annotation }) => showResolved || !annotation.resolved);
+  const pageAnnotations = visibleAnnotations.filter(({ annotation }) => annotation.page === page);
+  const unresolvedCount = documentAnnotations.filter(({ annotation }) => !annotation.resolved).length;
+
+  const pointFromEvent = (event: React.MouseEvent) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(rect.width, Math.max(0, event.clientX - rect.left)),
+      y: Math.min(rect.height, Math.max(0, event.clientY - rect.top)),
+    };
+  };
+
+  // Highlights come from the text the reviewer selects in the page's text layer
+  const handleTextSelection = () => {
+    const selection = window.getSelection();
+    const pageDiv = pageRef.current;
+    const textLayerDiv = textLayerRef.current;
+    if (tool !== 'text' || !viewport || !selection || selection.isCollapsed || !pageDiv || !textLayerDiv) return;
+
+    const range = selection.getRangeAt(0);
+    if (!textLayerDiv.contains(range.commonAncestorContainer)) return;
+    const origin = pageDiv.getBoundingClientRect();
+    const boxes = mergeSelectionBoxes(
+      Array.from(range.getClientRects()).map(rect => ({
+        left: rect.left - origin.left,
+        top: rect.top - origin.top,
+        width: rect.width,
+        height: rect.height,
+      })),
+      viewport.width,
+      viewport.height
+    );
+    const quote = selection.toString().replace(/\s+/g, ' ').trim();
+    if (boxes.length === 0 || !quote) return;
+
+    selection.removeAllRanges();
+    setDraft({ regions: boxes.map(box => toPdfRegion(viewport, box)), quote });
+  };
+
+  const handleMouseDown = (event: React.MouseEvent) => {
+    const point = pointFromEvent(event);
+    setDraft(null);
+    setDragStart(point);
+    setDragBox(boxBetween(point, point));
+  };
+
+  const handleMouseMove = (event: React.MouseEvent) => {
+    if (dragStart) setDragBox(boxBetween(dragStart, pointFromEvent(event)));
+  };
+
+  const handleMouseUp = (event: React.MouseEvent) => {
+    if (!dragStart || !viewport) return;
+    const point = pointFromEvent(event);
+    let box = boxBetween(dragStart, point);
+    if (box.width < 4 && box.height < 4) {
+      const width = POINT_AREA.width * viewport.scale;
+      const height = POINT_AREA.height * viewport.scale;
+      box = { left: point.x - width / 2, top: point.y - height / 2, width, height };
+    }
+    setDragStart(null);
+    setDragBox(null);
+    setDraft({ regions: [toPdfRegion(viewport, box)] });
+  };
+
+  const cancelDraft = () => {
+    setDraft(null);
+    setDragStart(null);
+    setDragBox(null);
+    setDraftComment('');
+  };
+
+  const chooseTool = (next: AnnotationTool) => {
+    setTool(tool === next ? null : next);
+    cancelDraft();
+  };
+
+  const handleSaveAnnotation = async () => {
+    if (!currentDocument || !draft || !draftComment.trim() || isSaving) return;
+    try {
+      setIsSaving(true);
+      const saved = await reportWorkflowService.addReportAnnotation(report.id, {
+        fileId: currentDocument.fileId,
+        versionId: currentDocument.versionId,
+        page,
+        regions: draft.regions,
+        quote: draft.quote,
+        comment: draftComment.trim(),
+      });
+      cancelDraft();
+      setTool(null);
+      setSelectedAnnotationId(saved.id);
+      onAnnotationsChanged();
+    } catch (e) {
+      toast({ title: 'Failed', description: e instanceof Error ? e.message : 'Failed to save annotation', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleResolved = async (annotation: ReportAnnotation) => {
+    try {
+      await reportWorkflowService.setAnnotationResolved(annotation.id, !annotation.resolved);
+      onAnnotationsChanged();
+    } catch (e) {
+      toast({ title: 'Failed', description: e instanceof Error ? e.message : 'Failed to update annotation', variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async (annotation: ReportAnnotation) => {
+    if (!window.confirm('Delete this annotation?')) return;
+    try {
+      await reportWorkflowService.deleteReportAnnotation(annotation.id);
+      onAnnotationsChanged();
+    } catch (e) {
+      toast({ title: 'Failed', description: e instanceof Error ? e.message : 'Failed to delete annotation', variant: 'destructive' });
+    }
+  };
+
+  const goToPage = (next: number) => {
+    setPage(Math.max(1, pageCount ? Math.min(pageCount, next) : next));
+    cancelDraft();
+  };
+
+  if (!hasDocuments) {
+    return (
+      <Card className="w-full">
+        <CardContent className="py-6">
+          <p className="text-sm text-muted-foreground text-center">
+            Inline annotation is available for PDF documents. Download the file to review it.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Highlighter className="h-5 w-5" />
+            Document Annotations
+            {unresolvedCount > 0 && (
+              <Badge className="bg-yellow-100 text-yellow-800">{unresolvedCount} unresolved</Badge>
+            )}
+          </CardTitle>
+          {documents.length > 1 && (
+            <Select value={currentDocument?.fileId} onValueChange={setSelectedFileId}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {documents.map(doc => (
+                  <SelectItem key={doc.fileId} value={doc.fileId}>
+                    {doc.versionNumber ? `Version ${doc.versionNumber}` : doc.fileName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-[1fr_18rem] gap-4">
+          <div className="space-y-3 min-w-0">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => goToPage(page - 1)} disabled={page <= 1}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="text-sm">Page {page}{pageCount ? ` of ${pageCount}` : ''}</span>
+                <Button variant="outline" size="sm" onClick={() => goToPage(page + 1)} disabled={!pageCount || page >= pageCount}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant={tool === 'text' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => chooseTool('text')}
+                  disabled={!viewport}
+                  className="gap-2"
+                >
+                  <Highlighter className="h-4 w-4" />
+                  Highlight Text
+                </Button>
+                <Button
+                  variant={tool === 'area' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => chooseTool('area')}
+                  disabled={!viewport}
+                  className="gap-2"
+                >
+                  <BoxSelect className="h-4 w-4" />
+                  Mark Area
+                </Button>
+              </div>
+            </div>
+            {tool === 'text' && !draft && (
+              <p className="text-xs text-muted-foreground">Select the passage you want to comment on.</p>
+            )}
+            {tool === 'area' && !draft && (
+              <p className="text-xs text-muted-foreground">Drag over a table, chart or other area, or click to mark a point.</p>
+            )}
+
+            <div ref={frameRef} className="w-full border rounded bg-gray-100 overflow-hidden">
+              {loading || !pdfDocument ? (
+                <div className="flex items-center justify-center aspect-[1/1.414]">
+                  {loading ? (
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">The document could not be displayed.</p>
+                  )}
+                </div>
+              ) : (
+                <div
+                  ref={pageRef}
+                  className="relative"
+                  style={{
+                    width: viewport?.width,
+                    height: viewport?.height,
+                    '--scale-factor': viewport?.scale ?? 1,
+                  } as React.CSSProperties}
+                  onMouseUp={handleTextSelection}
+                >
+                  <canvas ref={canvasRef} className="block" style={{ width: viewport?.width, height: viewport?.height }} />
+                  <div ref={textLayerRef} className={`textLayer ${tool === 'text' ? '' : 'pointer-events-none select-none'}`} />
+
+                  {viewport && (
+                    <div className="absolute inset-0 z-10 pointer-events-none">
+                      {pageAnnotations.map(({ annotation, number }) => {
+                        const boxes = annotation.regions.map(region => toPageBox(viewport, region));
+                        if (boxes.length === 0) return null;
+                        const colour = annotation.resolved ? 'bg-green-300/30 border-green-500' : 'bg-yellow-300/50 border-yellow-500';
+                        return (
+                          <React.Fragment key={annotation.id}>
+                            {boxes.map((box, index) => (
+                              <div
+                                key={index}
+                                style={boxStyle(box)}
+                                className={`absolute mix-blend-multiply rounded-sm ${colour} ${annotation.quote ? '' : 'border-2'} ${
+                                  selectedAnnotationId === annotation.id ? 'ring-2 ring-blue-500' : ''
+                                }`}
+                              />
+                            ))}
+                            <button
+                              type="button"
+                              style={{ left: boxes[0].left - 10, top: boxes[0].top - 10 }}
+                              onClick={() => setSelectedAnnotationId(annotation.id)}
+                              className={`absolute pointer-events-auto h-5 w-5 rounded-full text-white text-xs flex items-center justify-center ${
+                                annotation.resolved ? 'bg-green-500' : 'bg-yellow-500'
+                              }`}
+                              title={annotation.comment}
+                            >
+                              {number}
+                            </button>
+                          </React.Fragment>
+                        );
+                      })}
+                      {draft?.regions.map((region, index) => (
+                        <div
+                          key={index}
+                          style={boxStyle(toPageBox(viewport, region))}
+                          className="absolute border-2 border-dashed border-blue-500 bg-blue-300/30"
+                        />
+                      ))}
+                      {dragBox && (
+                        <div style={boxStyle(dragBox)} className="absolute border-2 border-dashed border-blue-500 bg-blue-300/30" />
+                      )}
+                    </div>
+                  )}
+
+                  {tool === 'area' && (
+                    <div
+                      className="absolute inset-0 z-20 cursor-crosshair select-none"
+                      onMouseDown={handleMouseDown}
+                      onMouseMove={handleMouseMove}
+                      onMouseUp={handleMouseUp}
+                      onMouseLeave={handleMouseUp}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+
+            {draft && (
+              <div className="space-y-2 p-3 border rounded-lg">
+                {draft.quote && (
+                  <p className="text-xs italic text-muted-foreground border-l-2 pl-2">"{draft.quote}"</p>
+                )}
+                <div className="space-y-1">
+                  <Label htmlFor="annotation-comment">Comment</Label>
+                  <Textarea
+                    id="annotation-comment"
+                    value={draftComment}
+                    onChange={(e) => setDraftComment(e.target.value)}
+                    placeholder="What needs to change here?"
+                    className="min-h-[80px]"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={handleSaveAnnotation} disabled={!draftComment.trim() || isSaving}>
+                    {isSaving ? 'Saving...' : 'Save Annotation'}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={cancelDraft}>Discard</Button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold">Annotations ({visibleAnnotations.length})</h4>
+              <div className="flex items-center gap-2">
+                <Switch id="show-resolved" checked={showResolved} onCheckedChange={setShowResolved} />
+                <Label htmlFor="show-resolved" className="text-xs">Resolved</Label>
+              </div>
+            </div>
+            <div className="space-y-2 max-h-[60vh] overflow-auto">
+              {visibleAnnotations.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">No annotations yet</p>
+              ) : (
+                visibleAnnotations.map(({ annotation, number }) => (
+                  <div
+                    key={annotation.id}
+                    onClick={() => {
+                      setSelectedAnnotationId(annotation.id);
+                      if (annotation.page !== page) goToPage(annotation.page);
+                    }}
+                    className={`p-2 border rounded-lg cursor-pointer space-y-1 ${
+                      selectedAnnotationId === annotation.id ? 'border-blue-500 bg-blue-50' : ''
+                    } ${annotation.resolved ? 'opacity-70' : ''}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-xs font-medium">#{number} · Page {annotation.page}</span>
+                      {annotation.resolved && <Badge className="bg-green-100 text-green-800 text-xs">Resolved</Badge>}
+                    </div>
+                    {annotation.quote && (
+                      <p className="text-xs italic text-muted-foreground border-l-2 pl-2">"{annotation.quote}"</p>
+                    )}
+                    <p className="text-sm whitespace-pre-wrap">{annotation.comment}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {annotation.authorName} · {new Date(annotation.createdAt).toLocaleString()}
+                    </p>
+                    {annotation.resolved && annotation.resolvedByName && (
+                      <p className="text-xs text-muted-foreground">Resolved by {annotation.resolvedByName}</p>
+                    )}
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleToggleResolved(annotation);
+                        }}
+                      >
+                        {annotation.resolved
+                          ? <><RotateCcw className="h-3 w-3 mr-1" /> Reopen</>
+                          : <><CheckCircle className="h-3 w-3 mr-1" /> Resolve</>}
+                      </Button>
+                      {annotation.authorId === user?.id && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-2 text-xs text-red-600"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDelete(annotation);
+                          }}
+                        >
+                          <Trash2 className="h-3 w-3 mr-1" /> Delete
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
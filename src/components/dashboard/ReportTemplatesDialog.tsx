@@ -0,0 +1,472 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Edit, LayoutTemplate, Loader2, Plus, Trash2 } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProjects } from '@/contexts/ProjectsContext';
+import { reportWorkflowService } from '@/services/reportWorkflowService';
+import { Report, ReportTemplate, ReportTemplateField, ReportTemplateSection } from '@/types/dashboard';
+import { ProjectKpiSource, REPORT_TEMPLATE_FIELD_TYPE_LABELS, getTemplateSections, validateReportTemplate } from '@/lib/reportTemplates';
+import { toast } from '@/hooks/use-toast';
+
+interface ReportTemplatesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  canManageOrganisationTemplates: boolean;
+}
+
+const REPORT_CATEGORIES: { value: Report['category']; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'bimonthly', label: 'Bi-monthly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'bi-annual', label: 'Bi-annual' },
+  { value: 'annual', label: 'Annual' },
+  { value: 'adhoc', label: 'Ad-hoc' },
+];
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const newField = (sectionId: string, type: ReportTemplateField['type'] = 'textarea'): ReportTemplateField => ({
+  id: uuidv4(),
+  name: '',
+  type,
+  required: false,
+  sectionId,
+  columns: type === 'table' ? ['Item', 'Details'] : undefined,
+});
+
+/** Admins define narrative report templates: sections, typed fields, KPI tables and financial summaries. */
+export function ReportTemplatesDialog({ isOpen, onClose, projectId, canManageOrganisationTemplates }: ReportTemplatesDialogProps) {
+  const { user } = useAuth();
+  const { getProjectKPIs } = useProjects();
+  const [templates, setTemplates] = useState<ReportTemplate[]>([]);
+  const [projectKpis, setProjectKpis] = useState<ProjectKpiSource[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<{ template: ReportTemplate; isNew: boolean } | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setEditing(null);
+    setLoading(true);
+    Promise.all([reportWorkflowService.getReportTemplates(projectId), getProjectKPIs(projectId)])
+      .then(([loadedTemplates, kpis]) => {
+        setTemplates(loadedTemplates);
+        setProjectKpis(kpis);
+      })
+      .catch(error => console.error('Error loading report templates:', error))
+      .finally(() => setLoading(false));
+  }, [isOpen, projectId, getProjectKPIs]);
+
+  const canEdit = (template: ReportTemplate) => template.projectId === projectId || canManageOrganisationTemplates;
+
+  const startNew = () => {
+    const sectionId = uuidv4();
+    setErrors([]);
+    setEditing({
+      isNew: true,
+      template: {
+        id: uuidv4(),
+        name: '',
+        description: '',
+        category: 'quarterly',
+        projectId,
+        requiredAuthLevels: [],
+        sections: [{ id: sectionId, title: 'Executive summary' }],
+        fields: [{ ...newField(sectionId), name: 'Summary', required: true }],
+        createdAt: new Date().toISOString(),
+        createdBy: user?.id || '',
+      },
+    });
+  };
+
+  const updateTemplate = (updates: Partial<ReportTemplate>) => {
+    setEditing(prev => (prev ? { ...prev, template: { ...prev.template, ...updates } } : prev));
+  };
+
+  const updateSection = (sectionId: string, updates: Partial<ReportTemplateSection>) => {
+    if (!editing) return;
+    updateTemplate({
+      sections: (editing.template.sections ?? []).map(section => (section.id === sectionId ? { ...section, ...updates } : section)),
+    });
+  };
+
+  const removeSection = (sectionId: string) => {
+    if (!editing) return;
+    updateTemplate({
+      sections: (editing.template.sections ?? []).filter(section => section.id !== sectionId),
+      fields: editing.template.fields.filter(field => field.sectionId !== sectionId),
+    });
+  };
+
+  const updateField = (fieldId: string, updates: Partial<ReportTemplateField>) => {
+    if (!editing) return;
+    updateTemplate({
+      fields: editing.template.fields.map(field => (field.id === fieldId ? { ...field, ...updates } : field)),
+    });
+  };
+
+  // Moves a field within its section by swapping it with its neighbour there
+  const moveField = (field: ReportTemplateField, direction: -1 | 1) => {
+    if (!editing) return;
+    const fields = [...editing.template.fields];
+    const siblings = fields.filter(f => f.sectionId === field.sectionId);
+    const neighbour = siblings[siblings.indexOf(field) + direction];
+    if (!neighbour) return;
+    const from = fields.indexOf(field);
+    const to = fields.indexOf(neighbour);
+    [fields[from], fields[to]] = [fields[to], fields[from]];
+    updateTemplate({ fields });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const validationErrors = validateReportTemplate(editing.template);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    setSaving(true);
+    try {
+      const saved = await reportWorkflowService.saveReportTemplate(
+        { ...editing.template, updatedAt: new Date().toISOString() },
+        editing.isNew
+      );
+      setTemplates(prev => (editing.isNew ? [...prev, saved] : prev.map(t => (t.id === saved.id ? saved : t))));
+      setEditing(null);
+      toast({ title: 'Report template saved', description: `"${saved.name}" can now be used to write reports.` });
+    } catch (error) {
+      console.error('Error saving report template:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save report template',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: ReportTemplate) => {
+    if (!window.confirm(`Delete the report template "${template.name}"? Reports already written from it are kept.`)) return;
+    try {
+      await reportWorkflowService.deleteReportTemplate(template.id);
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+    } catch (error) {
+      console.error('Error deleting report template:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete report template',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const renderFieldSettings = (field: ReportTemplateField) => {
+    switch (field.type) {
+      case 'select':
+        return (
+          <Input
+            value={(field.options ?? []).join(', ')}
+            onChange={(e) => updateField(field.id, { options: e.target.value.split(',').map(option => option.trimStart()) })}
+            onBlur={(e) => updateField(field.id, { options: splitList(e.target.value) })}
+            placeholder="Choices, separated by commas"
+          />
+        );
+      case 'table':
+        return (
+          <Input
+            value={(field.columns ?? []).join(', ')}
+            onChange={(e) => updateField(field.id, { columns: e.target.value.split(',').map(column => column.trimStart()) })}
+            onBlur={(e) => updateField(field.id, { columns: splitList(e.target.value) })}
+            placeholder="Columns, separated by commas"
+          />
+        );
+      case 'kpi':
+        return projectKpis.length === 0 ? (
+          <p className="text-xs text-gray-500">This project has no KPIs yet; every project KPI is included when the report is written.</p>
+        ) : (
+          <div className="space-y-1">
+            <p className="text-xs text-gray-500">Leave all unticked to include every project KPI.</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-1">
+              {projectKpis.map(kpi => {
+                const selected = field.kpiIds ?? [];
+                return (
+                  <label key={kpi.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={selected.includes(kpi.id)}
+                      onCheckedChange={(checked) => updateField(field.id, {
+                        kpiIds: checked ? [...selected, kpi.id] : selected.filter(id => id !== kpi.id),
+                      })}
+                    />
+                    <span className="truncate">{kpi.name ?? kpi.title}</span>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        );
+      case 'financial-summary':
+        return <p className="text-xs text-gray-500">Budget and spending for the reporting year are filled in from the project's financial data.</p>;
+      default:
+        return null;
+    }
+  };
+
+  const renderEditor = (template: ReportTemplate) => {
+    const sections = template.sections ?? [];
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="templateName">Name</Label>
+            <Input
+              id="templateName"
+              value={template.name}
+              onChange={(e) => updateTemplate({ name: e.target.value })}
+              placeholder="e.g. Quarterly donor report"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Report category</Label>
+            <Select value={template.category} onValueChange={(value) => updateTemplate({ category: value as Report['category'] })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REPORT_CATEGORIES.map(category => (
+                  <SelectItem key={category.value} value={category.value}>{category.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="templateDescription">Description</Label>
+          <Textarea
+            id="templateDescription"
+            value={template.description}
+            onChange={(e) => updateTemplate({ description: e.target.value })}
+            placeholder="Printed under the report title"
+            rows={2}
+          />
+        </div>
+        {canManageOrganisationTemplates && (
+          <div className="flex items-center gap-2">
+            <Switch
+              id="templateScope"
+              checked={!template.projectId}
+              onCheckedChange={(checked) => updateTemplate({ projectId: checked ? undefined : projectId })}
+            />
+            <Label htmlFor="templateScope">Available to all projects</Label>
+          </div>
+        )}
+
+        {getTemplateSections(template).map(({ section, fields }) => {
+          const isRealSection = sections.some(s => s.id === section.id);
+          return (
+            <div key={section.id} className="p-3 border rounded-lg space-y-3">
+              <div className="flex items-start gap-2">
+                <div className="flex-1 space-y-2">
+                  <Input
+                    value={section.title}
+                    disabled={!isRealSection}
+                    onChange={(e) => updateSection(section.id, { title: e.target.value })}
+                    placeholder="Section title"
+                    className="font-medium"
+                  />
+                  {isRealSection && (
+                    <Input
+                      value={section.description || ''}
+                      onChange={(e) => updateSection(section.id, { description: e.target.value || undefined })}
+                      placeholder="Guidance for the person writing this section (optional)"
+                    />
+                  )}
+                </div>
+                {isRealSection && (
+                  <Button variant="ghost" size="sm" onClick={() => removeSection(section.id)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+
+              {fields.map((field, index) => (
+                <div key={field.id} className="pl-3 border-l-2 space-y-2">
+                  <div className="grid grid-cols-1 md:grid-cols-[1fr_11rem_auto_auto] gap-2 items-center">
+                    <Input
+                      value={field.name}
+                      onChange={(e) => updateField(field.id, { name: e.target.value })}
+                      placeholder="Field label"
+                    />
+                    <Select
+                      value={field.type}
+                      onValueChange={(value) => {
+                        const type = value as ReportTemplateField['type'];
+                        updateField(field.id, { type, columns: type === 'table' ? field.columns ?? ['Item', 'Details'] : field.columns });
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(REPORT_TEMPLATE_FIELD_TYPE_LABELS) as ReportTemplateField['type'][]).map(type => (
+                          <SelectItem key={type} value={type}>{REPORT_TEMPLATE_FIELD_TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <label className="flex items-center gap-2 text-sm whitespace-nowrap">
+                      <Checkbox
+                        checked={field.required}
+                        onCheckedChange={(checked) => updateField(field.id, { required: checked === true })}
+                      />
+                      Required
+                    </label>
+                    <div className="flex">
+                      <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => moveField(field, -1)}>
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" disabled={index === fields.length - 1} onClick={() => moveField(field, 1)}>
+                        <ArrowDown className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => updateTemplate({ fields: template.fields.filter(f => f.id !== field.id) })}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <Input
+                    value={field.helpText || ''}
+                    onChange={(e) => updateField(field.id, { helpText: e.target.value || undefined })}
+                    placeholder="Help text (optional)"
+                  />
+                  {renderFieldSettings(field)}
+                </div>
+              ))}
+
+              {isRealSection && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateTemplate({ fields: [...template.fields, newField(section.id)] })}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add field
+                </Button>
+              )}
+            </div>
+          );
+        })}
+
+        <Button
+          variant="outline"
+          onClick={() => updateTemplate({ sections: [...sections, { id: uuidv4(), title: '' }] })}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add section
+        </Button>
+
+        {errors.length > 0 && (
+          <ul className="text-sm text-red-600 list-disc pl-5">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !saving && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutTemplate className="w-5 h-5" />
+            Report Templates
+          </DialogTitle>
+          <DialogDescription>
+            Templates structure the reports staff write in-app. KPI tables and financial summaries are filled in
+            from project data, and the finished report goes through the approval workflow as a PDF.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500 py-6 justify-center">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading report templates...
+          </div>
+        ) : editing ? (
+          renderEditor(editing.template)
+        ) : (
+          <div className="space-y-3">
+            {templates.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-4">No report templates yet.</p>
+            )}
+            {templates.map(template => (
+              <div key={template.id} className="flex items-start justify-between gap-4 p-3 border rounded-lg">
+                <div className="space-y-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <p className="font-medium">{template.name}</p>
+                    <Badge variant="outline" className="text-xs">
+                      {REPORT_CATEGORIES.find(c => c.value === template.category)?.label ?? template.category}
+                    </Badge>
+                    {!template.projectId && <Badge variant="secondary" className="text-xs">All projects</Badge>}
+                  </div>
+                  {template.description && <p className="text-xs text-gray-500 line-clamp-2">{template.description}</p>}
+                  <p className="text-xs text-gray-500">
+                    {(template.sections ?? []).length} sections · {template.fields.length} fields
+                  </p>
+                </div>
+                {canEdit(template) && (
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => { setErrors([]); setEditing({ template, isNew: false }); }}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(template)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          {editing ? (
+            <>
+              <Button variant="outline" onClick={() => setEditing(null)} disabled={saving}>
+                Back
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              <Button onClick={startNew} disabled={loading}>
+                <Plus className="w-4 h-4 mr-2" />
+                New template
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -33,12 +33,10 @@ import { NamingConventionForm } from './NamingConventionForm';
 import { 
   NamingConventionData, 
   generateFileName, 
-  COUNTRIES,
-  PROJECTS,
-  REPORT_TYPES,
-  VERSION_CONTROLS,
+  getNamingProjectById,
   getProjectsByCountry,
-  getRegionsByCountry
+  getRegionsByCountry,
+  getReportTypeByCode
 } from '@/lib/namingConvention';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { DateTimePicker } from '@/components/ui/date-time-picker';
@@ -47,9 +45,11 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useDashboard } from '@/contexts/DashboardContext';
 import { useProjects } from '@/contexts/ProjectsContext';
 import { reportService } from '@/services/reportService';
+import { reportWorkflowService } from '@/services/reportWorkflowService';
+import { resolveApprovalChainTemplate } from '@/lib/reportWorkflowUtils';
 import { useNotification } from '@/hooks/useNotification';
 import { v4 as uuidv4 } from 'uuid';
-import { Report } from '@/types/dashboard';
+import { ApprovalChainTemplate, Report } from '@/types/dashboard';
 
 interface UploadedFile {
   id: string;
@@ -79,7 +79,7 @@ export function ReportUpload({
   const { createReportWithWorkflow } = useReport();
   const { user } = useAuth();
   const { currentProject } = useDashboard();
-  const { getProjectActivities, projects } = useProjects();
+  const { getProjectActivities, namingRegistry } = useProjects();
   const { projectId } = useParams();
   const { showSuccess, showError } = useNotification();
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
@@ -105,7 +105,7 @@ export function ReportUpload({
 
   // Helper function to check if categorization is complete
   const isCategorizationComplete = () => {
-    const basicComplete = categorization.regionCode && categorization.reportTypeCode;
+    const basicComplete = categorization.projectCode && categorization.regionCode && categorization.reportTypeCode;
     const activityComplete = categorization.reportTypeCode !== 'ACT' || categorization.activityId;
     return basicComplete && activityComplete;
   };
@@ -137,119 +137,62 @@ export function ReportUpload({
     loadActivities();
   }, [categorization.reportTypeCode, currentProject, getProjectActivities]);
 
-  // Auto-fill country and project from current project context
+  // Naming code an admin has linked to the current project in the naming registry
+  const linkedNamingProject = React.useMemo(
+    () => currentProject ? getNamingProjectById(currentProject.id, namingRegistry) : undefined,
+    [currentProject, namingRegistry]
+  );
+
+  // Auto-fill country and project from the linked naming code
   React.useEffect(() => {
     if (currentProject) {
-      console.log('🏗️ Auto-categorizing report for project:', currentProject);
-      
-      // Map project country to country code
-      const countryCodeMap: any = {
-        'kenya': 'KE',
-        'tanzania': 'TZ',
-        'uganda': 'UG',
-        'ethiopia': 'ET',
-        'south sudan': 'SS',
-        'sudan': 'SD'
-      };
-      
-      const countryCode = countryCodeMap[currentProject.country.toLowerCase()];
-      
-      // Generate project code from project ID or name
-      // Use project ID if it's already in a good format, otherwise generate from name
-      let projectCode = currentProject.id;
-      if (projectCode.length > 10) {
-        // If ID is too long (like CUID), generate from name
-        projectCode = currentProject.name
-          .toLowerCase()
-          .replace(/[^a-z0-9\s]/g, '') // Remove special characters
-          .split(' ')
-          .map(word => word.substring(0, 3)) // Take first 3 letters of each word
-          .join('-')
-          .substring(0, 10); // Limit to 10 characters
-      }
-      
-      // Auto-detect region from project description or name if available
-      let regionCode = 'W-UG';
+      const countryCode = linkedNamingProject?.country
+        || namingRegistry.countries.find(c => c.name.toLowerCase() === currentProject.country.toLowerCase())?.code
+        || '';
+
+      // Auto-detect region from region or area names in the project name or description
       const projectText = `${currentProject.name} ${currentProject.description || ''}`.toLowerCase();
-      
-      if (countryCode === 'KE'||"UG") {
-        if (projectText.includes('nairobi') || projectText.includes('central')) regionCode = 'KE-C';
-        else if (projectText.includes('coast') || projectText.includes('mombasa')) regionCode = 'KE-CO';
-        else if (projectText.includes('western')) regionCode = 'KE-W';
-        else if (projectText.includes('nyanza')) regionCode = 'KE-NY';
-        else if (projectText.includes('rift') || projectText.includes('valley')) regionCode = 'KE-RV';
-        else if (projectText.includes('eastern')) regionCode = 'KE-E';
-        else if (projectText.includes('north')) regionCode = 'KE-NE';
-      } else if (countryCode === 'TZ') {
-        if (projectText.includes('dar es salaam')) regionCode = 'TZ-DS';
-        else if (projectText.includes('arusha')) regionCode = 'TZ-AR';
-        else if (projectText.includes('dodoma')) regionCode = 'TZ-DO';
-        else if (projectText.includes('mwanza')) regionCode = 'TZ-MW';
-        // Add more Tanzania regions as needed
-      }
-      // Add more countries as needed
-      
-      if (countryCode) {
-        setCategorization(prev => ({
-          ...prev,
-          countryCode,
-          projectCode,
-          regionCode
-        }));
-        console.log('✅ Auto-categorization applied:', { countryCode, projectCode, regionCode });
-      }
+      const regionCode = getRegionsByCountry(countryCode, namingRegistry).find(region =>
+        [region.name, ...region.areas].some(name => projectText.includes(name.toLowerCase()))
+      )?.code || '';
+
+      setCategorization(prev => ({
+        ...prev,
+        countryCode,
+        projectCode: linkedNamingProject?.code || '',
+        regionCode
+      }));
     }
-  }, [currentProject]);
+  }, [currentProject, linkedNamingProject, namingRegistry]);
 
   // Report frequency state
   const [reportFrequency, setReportFrequency] = useState<'weekly' | 'bimonthly' | 'monthly' | 'quarterly' | 'bi-annual' | 'annual' | 'adhoc'>('adhoc');
 
-  // Dynamic project and region data
+  // Approval chain templates for this project; the one matching the frequency decides the approval route
+  const [chainTemplates, setChainTemplates] = useState<ApprovalChainTemplate[]>([]);
+
+  React.useEffect(() => {
+    if (!projectId) return;
+    reportWorkflowService.getApprovalChainTemplates(projectId)
+      .then(setChainTemplates)
+      .catch(error => console.error('Error loading approval chain templates:', error));
+  }, [projectId]);
+
+  const approvalChain = React.useMemo(
+    () => resolveApprovalChainTemplate(chainTemplates, projectId || '', reportFrequency),
+    [chainTemplates, projectId, reportFrequency]
+  );
+
+  // Project and region codes from the naming registry
   const availableProjects = React.useMemo(() => {
     if (!categorization.countryCode) return [];
-    
-    // Filter projects by country and convert to naming convention format
-    return projects
-      .filter(project => {
-        const countryMatches = {
-          'KE': ['kenya'],
-          'TZ': ['tanzania'],
-          'UG': ['uganda'],
-          'ET': ['ethiopia'],
-          'SS': ['south sudan'],
-          'SD': ['sudan']
-        };
-        const countryNames = countryMatches[categorization.countryCode as keyof typeof countryMatches] || [];
-        return countryNames.some(countryName => 
-          project.country.toLowerCase().includes(countryName)
-        );
-      })
-      .map(project => {
-        // Generate project code similar to auto-categorization logic
-        let projectCode = project.id;
-        if (projectCode.length > 10) {
-          projectCode = project.name
-            .toLowerCase()
-            .replace(/[^a-z0-9\s]/g, '')
-            .split(' ')
-            .map(word => word.substring(0, 3))
-            .join('-')
-            .substring(0, 10);
-        }
-        
-        return {
-          code: projectCode,
-          name: project.name,
-          description: project.description || '',
-          country: project.country
-        };
-      });
-  }, [projects, categorization.countryCode]);
+    return getProjectsByCountry(categorization.countryCode, namingRegistry);
+  }, [categorization.countryCode, namingRegistry]);
 
   const availableRegions = React.useMemo(() => {
     if (!categorization.countryCode) return [];
-    return getRegionsByCountry(categorization.countryCode);
-  }, [categorization.countryCode]);
+    return getRegionsByCountry(categorization.countryCode, namingRegistry);
+  }, [categorization.countryCode, namingRegistry]);
 
   const handleCategorizationChange = (field: keyof NamingConventionData, value: string | Date) => {
     setCategorization(prev => ({ ...prev, [field]: value }));
@@ -552,8 +495,8 @@ export function ReportUpload({
           console.log(`Processing file ${index + 1}:`, file);
           
           // Get the report type name
-          const reportType = REPORT_TYPES.find(t => t.code === categorization.reportTypeCode);
-          const project = PROJECTS.find(p => p.code === categorization.projectCode);
+          const reportType = getReportTypeByCode(categorization.reportTypeCode, namingRegistry);
+          const project = availableProjects.find(p => p.code === categorization.projectCode);
           
         // Map report type code to semantic category (separate from frequency)
         const typeToCategory: Record<string, string> = {
@@ -570,7 +513,8 @@ export function ReportUpload({
           reportType: categorization.reportTypeCode,
           activityId: categorization.reportTypeCode === 'ACT' ? categorization.activityId : undefined,
           reportFrequency: reportFrequency,
-          frequency: reportFrequency
+          frequency: reportFrequency,
+          approvalChainTemplateId: approvalChain.id === 'default' ? undefined : approvalChain.id
         };
           
         console.log('Uploading file with data:', reportData);
@@ -672,25 +616,25 @@ export function ReportUpload({
                 <Select
                   value={categorization.countryCode}
                   onValueChange={(value) => handleCategorizationChange('countryCode', value)}
-                  disabled={true}
+                  disabled={!!linkedNamingProject}
                 >
-                  <SelectTrigger className="bg-green-50 border-green-200">
+                  <SelectTrigger className={categorization.countryCode ? "bg-green-50 border-green-200" : ""}>
                     <SelectValue>
                       {categorization.countryCode ? (
                         <div className="flex items-center gap-2">
                           <CheckCircle className="w-4 h-4 text-green-600" />
                           <span>
-                            {COUNTRIES.find(c => c.code === categorization.countryCode)?.name || currentProject?.country}
+                            {namingRegistry.countries.find(c => c.code === categorization.countryCode)?.name || currentProject?.country}
                             <span className="text-gray-500 ml-1">({categorization.countryCode})</span>
                           </span>
                         </div>
                       ) : (
-                        "Auto-detecting country..."
+                        "Select a country"
                       )}
                     </SelectValue>
                   </SelectTrigger>
                   <SelectContent>
-                    {COUNTRIES.map((country) => (
+                    {namingRegistry.countries.map((country) => (
                       <SelectItem key={country.code} value={country.code}>
                         {country.name} ({country.code})
                       </SelectItem>
@@ -752,9 +696,9 @@ export function ReportUpload({
                 <Select
                   value={categorization.projectCode}
                   onValueChange={(value) => handleCategorizationChange('projectCode', value)}
-                  disabled={true}
+                  disabled={!!linkedNamingProject || !categorization.countryCode}
                 >
-                  <SelectTrigger className="bg-green-50 border-green-200">
+                  <SelectTrigger className={categorization.projectCode ? "bg-green-50 border-green-200" : ""}>
                     <SelectValue>
                       {categorization.projectCode ? (
                         <div className="flex items-center gap-2">
@@ -765,7 +709,7 @@ export function ReportUpload({
                           </span>
                         </div>
                       ) : (
-                        "Auto-detecting project..."
+                        "Select a project code"
                       )}
                     </SelectValue>
                   </SelectTrigger>
@@ -777,10 +721,16 @@ export function ReportUpload({
                     ))}
                   </SelectContent>
                 </Select>
-                <div className="flex items-center gap-2 text-xs text-green-600">
-                  <CheckCircle className="w-3 h-3" />
-                  <span>Auto-detected from current project: {currentProject?.name}</span>
-                </div>
+                {linkedNamingProject ? (
+                  <div className="flex items-center gap-2 text-xs text-green-600">
+                    <CheckCircle className="w-3 h-3" />
+                    <span>Auto-detected from current project: {currentProject?.name}</span>
+                  </div>
+                ) : (
+                  <p className="text-xs text-amber-600">
+                    {currentProject?.name || 'This project'} has no linked naming code. Select one, or ask a global admin to link it in Settings.
+                  </p>
+                )}
               </div>
 
               {/* Report Type Selection */}
@@ -797,7 +747,7 @@ export function ReportUpload({
                     <SelectValue placeholder="Select a report type" />
                   </SelectTrigger>
                   <SelectContent>
-                    {REPORT_TYPES.map((type) => (
+                    {namingRegistry.reportTypes.map((type) => (
                       <SelectItem key={type.code} value={type.code}>
                         {type.name} ({type.code})
                       </SelectItem>
@@ -863,6 +813,10 @@ export function ReportUpload({
                 <p className="text-sm text-gray-600">
                   Report upload time will be automatically set to current date/time
                 </p>
+                <p className="text-sm text-gray-600">
+                  Approval route: <span className="font-medium">{approvalChain.name}</span>
+                  {' '}({approvalChain.stages.map(stage => stage.name).join(' → ')})
+                </p>
               </div>
 
               {/* Version Control */}
@@ -880,7 +834,7 @@ export function ReportUpload({
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="none">No version control</SelectItem>
-                    {VERSION_CONTROLS.map((version) => (
+                    {namingRegistry.versionControls.map((version) => (
                       <SelectItem key={version.code} value={version.code}>
                         {version.name} ({version.code})
                       </SelectItem>
@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { AlertTriangle } from 'lucide-react';
+import { reportService } from '@/services/reportService';
+import { ReportDocumentVersion } from '@/types/dashboard';
+import { extractDocumentText, isTextComparable } from '@/lib/documentText';
+import { DiffSegment, DocumentComparison, collapseUnchangedRows, compareDocumentText } from '@/lib/documentDiff';
+
+interface ReportVersionComparisonProps {
+  projectId: string;
+  before: ReportDocumentVersion;
+  after: ReportDocumentVersion;
+}
+
+const SEGMENT_CLASSES: Record<DiffSegment['type'], string> = {
+  equal: '',
+  removed: 'bg-red-200 text-red-900 line-through',
+  added: 'bg-green-200 text-green-900',
+};
+
+const ROW_CLASSES = {
+  unchanged: { left: '', right: '' },
+  changed: { left: 'bg-red-50', right: 'bg-green-50' },
+  removed: { left: 'bg-red-50', right: 'bg-gray-50' },
+  added: { left: 'bg-gray-50', right: 'bg-green-50' },
+};
+
+const renderSegments = (segments?: DiffSegment[]) =>
+  segments?.map((segment, index) => (
+    <span key={index} className={SEGMENT_CLASSES[segment.type]}>{segment.text}</span>
+  ));
+
+/** Side-by-side text comparison of two versions of a report document. */
+export function ReportVersionComparison({ projectId, before, after }: ReportVersionComparisonProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<DocumentComparison | null>(null);
+  const [onlyChanges, setOnlyChanges] = useState(true);
+
+  const comparable = isTextComparable(before.fileName) && isTextComparable(after.fileName);
+
+  useEffect(() => {
+    if (!comparable) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      setComparison(null);
+      try {
+        const [beforeText, afterText] = await Promise.all([before, after].map(async version => {
+          const { blob } = await reportService.getReportFileContent(projectId, version.fileId);
+          return extractDocumentText(blob, version.fileName);
+        }));
+        if (cancelled) return;
+        if (beforeText === null || afterText === null) {
+          const unreadable = beforeText === null ? before : after;
+          setError(`No text could be read from version ${unreadable.versionNumber}. Scanned or password-protected documents cannot be compared.`);
+          return;
+        }
+        setComparison(compareDocumentText(beforeText, afterText));
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load the documents');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, before, after, comparable]);
+
+  const rows = useMemo(() => {
+    if (!comparison) return [];
+    return onlyChanges ? collapseUnchangedRows(comparison.rows) : comparison.rows;
+  }, [comparison, onlyChanges]);
+
+  if (!comparable) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Text comparison is available for PDF, Word (.docx) and text files. Download both versions to compare them.
+      </p>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        <span className="ml-2 text-sm text-muted-foreground">Reading both versions...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-start gap-2 p-3 border rounded-lg bg-yellow-50 text-sm text-yellow-800">
+        <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+        {error}
+      </div>
+    );
+  }
+
+  if (!comparison) return null;
+
+  const hasChanges = comparison.added + comparison.removed + comparison.changed > 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-2">
+          <Badge className="bg-yellow-100 text-yellow-800">{comparison.changed} changed</Badge>
+          <Badge className="bg-green-100 text-green-800">{comparison.added} added</Badge>
+          <Badge className="bg-red-100 text-red-800">{comparison.removed} removed</Badge>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="only-changes" checked={onlyChanges} onCheckedChange={setOnlyChanges} />
+          <Label htmlFor="only-changes" className="text-sm">Only show changes</Label>
+        </div>
+      </div>
+
+      {!hasChanges ? (
+        <p className="text-sm text-muted-foreground text-center py-4">The text of the two versions is identical.</p>
+      ) : (
+        <div className="border rounded-lg max-h-[60vh] overflow-auto text-sm">
+          <div className="grid grid-cols-2 sticky top-0 bg-white border-b font-medium z-10">
+            <div className="p-2 border-r truncate" title={before.fileName}>Version {before.versionNumber}: {before.fileName}</div>
+            <div className="p-2 truncate" title={after.fileName}>Version {after.versionNumber}: {after.fileName}</div>
+          </div>
+          {rows.map((row, index) =>
+            row.kind === 'collapsed' ? (
+              <div key={index} className="p-1 text-center text-xs text-muted-foreground bg-gray-50 border-b">
+                {row.count} unchanged paragraph{row.count === 1 ? '' : 's'}
+              </div>
+            ) : (
+              <div key={index} className="grid grid-cols-2 border-b last:border-b-0">
+                <div className={`p-2 border-r whitespace-pre-wrap ${ROW_CLASSES[row.kind].left}`}>
+                  {row.leftLine && <span className="mr-2 text-xs text-muted-foreground select-none">{row.leftLine}</span>}
+                  {renderSegments(row.left)}
+                </div>
+                <div className={`p-2 whitespace-pre-wrap ${ROW_CLASSES[row.kind].right}`}>
+                  {row.rightLine && <span className="mr-2 text-xs text-muted-foreground select-none">{row.rightLine}</span>}
+                  {renderSegments(row.right)}
+                </div>
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, FileText, GitCompare, MessageSquare, Upload } from 'lucide-react';
+import { reportWorkflowService } from '@/services/reportWorkflowService';
+import { reportService } from '@/services/reportService';
+import { ReportDocumentVersion } from '@/types/dashboard';
+import { getRevisionFileName } from '@/lib/namingConvention';
+import { useToast } from '@/hooks/use-toast';
+import { ReportVersionComparison } from './ReportVersionComparison';
+
+interface ReviewPerson {
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+}
+
+interface VersionReviewStep {
+  id: string;
+  stepOrder: number;
+  action?: string;
+  reviewer?: ReviewPerson;
+  reviewedVersionId?: string;
+}
+
+/** The parts of a workflow report (as returned by reportWorkflowService.getReportById) the history shows */
+interface VersionedWorkflowReport {
+  id: string;
+  approvalSteps?: VersionReviewStep[];
+  comments?: { versionId?: string }[];
+}
+
+interface ReportVersionHistoryProps {
+  report: VersionedWorkflowReport;
+  projectId?: string;
+  versions: ReportDocumentVersion[]; // Oldest first
+  canUploadRevision: boolean;
+  onRevisionSubmitted: () => void;
+}
+
+const personName = (person?: ReviewPerson) =>
+  person ? `${person.firstName || ''} ${person.lastName || ''}`.trim() || person.email || 'Unknown User' : 'Unknown User';
+
+/** Version chain of a report's document, with revision upload and a comparison between any two versions. */
+export function ReportVersionHistory({ report, projectId, versions, canUploadRevision, onRevisionSubmitted }: ReportVersionHistoryProps) {
+  const { toast } = useToast();
+  const [revisionFile, setRevisionFile] = useState<File | null>(null);
+  const [changeSummary, setChangeSummary] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [compareFromId, setCompareFromId] = useState('');
+  const [compareToId, setCompareToId] = useState('');
+  const [comparing, setComparing] = useState<{ before: ReportDocumentVersion; after: ReportDocumentVersion } | null>(null);
+
+  const latest = versions[versions.length - 1];
+  const steps = Array.isArray(report.approvalSteps) ? report.approvalSteps : [];
+  const comments = Array.isArray(report.comments) ? report.comments : [];
+
+  // Default to comparing the latest version with the one before it
+  useEffect(() => {
+    if (versions.length < 2) return;
+    setCompareFromId(versions[versions.length - 2].id);
+    setCompareToId(versions[versions.length - 1].id);
+    setComparing(null);
+  }, [versions]);
+
+  const handleUploadRevision = async () => {
+    if (!revisionFile || isUploading) return;
+    try {
+      setIsUploading(true);
+      const versionNumber = (latest?.versionNumber ?? 0) + 1;
+      const fileName = latest ? getRevisionFileName(latest.fileName, versionNumber, revisionFile.name) : revisionFile.name;
+      const file = new File([revisionFile], fileName, { type: revisionFile.type });
+
+      const version = await reportWorkflowService.uploadReportVersion(report.id, file, changeSummary.trim() || undefined);
+      await reportWorkflowService.resubmitWorkflow(report.id, [version.fileId], version.id);
+      toast({ title: 'Revision Submitted', description: `Version ${version.versionNumber} has been resubmitted for review.` });
+      setRevisionFile(null);
+      setChangeSummary('');
+      onRevisionSubmitted();
+    } catch (e) {
+      toast({
+        title: 'Upload Failed',
+        description: e instanceof Error ? e.message : 'Failed to upload the revised report',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDownload = async (version: ReportDocumentVersion) => {
+    if (!projectId || downloadingId) return;
+    try {
+      setDownloadingId(version.id);
+      await reportService.downloadReportFile(projectId, version.fileId);
+    } catch (e) {
+      toast({
+        title: 'Download Failed',
+        description: e instanceof Error ? e.message : 'Failed to download file',
+        variant: 'destructive'
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const handleCompare = () => {
+    const from = versions.find(version => version.id === compareFromId);
+    const to = versions.find(version => version.id === compareToId);
+    if (!from || !to || from.id === to.id) return;
+    setComparing(from.versionNumber < to.versionNumber ? { before: from, after: to } : { before: to, after: from });
+  };
+
+  return (
+    <div className="space-y-4">
+      {canUploadRevision && (
+        <Card className="w-full">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Upload className="h-5 w-5" />
+              Upload Revised Version
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="revision-file">Revised document</Label>
+              <Input
+                id="revision-file"
+                type="file"
+                accept=".pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.txt,.csv"
+                onChange={(e) => setRevisionFile(e.target.files?.[0] ?? null)}
+              />
+              {revisionFile && latest && (
+                <p className="text-xs text-muted-foreground">
+                  Will be saved as {getRevisionFileName(latest.fileName, latest.versionNumber + 1, revisionFile.name)}
+                </p>
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="revision-summary">What changed</Label>
+              <Textarea
+                id="revision-summary"
+                value={changeSummary}
+                onChange={(e) => setChangeSummary(e.target.value)}
+                placeholder="Summarise the changes made in response to the review..."
+                className="min-h-[80px]"
+              />
+            </div>
+            <Button onClick={handleUploadRevision} disabled={!revisionFile || isUploading} className="gap-2">
+              <Upload className="h-4 w-4" />
+              {isUploading ? 'Uploading...' : 'Upload & Resubmit'}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle>Document Versions</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3 max-h-[50vh] overflow-auto">
+          {versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No versions recorded for this report</p>
+          ) : (
+            [...versions].reverse().map(version => {
+              const reviews = steps.filter(step => step.reviewedVersionId === version.id);
+              const commentCount = comments.filter(comment => comment.versionId === version.id).length;
+              return (
+                <div key={version.id} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="flex items-start gap-3 min-w-0">
+                      <FileText className="h-5 w-5 text-blue-500 flex-shrink-0 mt-0.5" />
+                      <div className="min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="text-sm font-medium">Version {version.versionNumber}</span>
+                          {version.id === latest?.id && <Badge variant="secondary" className="text-xs">Current</Badge>}
+                        </div>
+                        <p className="text-sm truncate" title={version.fileName}>{version.fileName}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {version.uploadedByName || 'Unknown User'} · {new Date(version.uploadedAt).toLocaleString()}
+                        </p>
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDownload(version)}
+                      disabled={!projectId || downloadingId === version.id}
+                    >
+                      <Download className="h-4 w-4 mr-2" />
+                      {downloadingId === version.id ? 'Downloading...' : 'Download'}
+                    </Button>
+                  </div>
+                  {version.changeSummary && (
+                    <p className="text-sm text-foreground whitespace-pre-wrap">{version.changeSummary}</p>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    {reviews.map(step => (
+                      <Badge key={step.id} variant="outline" className="text-xs">
+                        Step {step.stepOrder}: {step.action || 'Reviewed'} by {personName(step.reviewer)}
+                      </Badge>
+                    ))}
+                    {commentCount > 0 && (
+                      <Badge variant="outline" className="text-xs gap-1">
+                        <MessageSquare className="h-3 w-3" />
+                        {commentCount} comment{commentCount === 1 ? '' : 's'}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+
+      {versions.length >= 2 && projectId && (
+        <Card className="w-full">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GitCompare className="h-5 w-5" />
+              Compare Versions
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-2">
+              {[
+                { label: 'From', value: compareFromId, onChange: setCompareFromId },
+                { label: 'To', value: compareToId, onChange: setCompareToId },
+              ].map(select => (
+                <div key={select.label} className="space-y-1">
+                  <Label>{select.label}</Label>
+                  <Select value={select.value} onValueChange={select.onChange}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue placeholder="Select version" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map(version => (
+                        <SelectItem key={version.id} value={version.id}>Version {version.versionNumber}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                onClick={handleCompare}
+                disabled={!compareFromId || !compareToId || compareFromId === compareToId}
+              >
+                Compare
+              </Button>
+            </div>
+            {comparing && (
+              <ReportVersionComparison projectId={projectId} before={comparing.before} after={comparing.after} />
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
 import { 
   CheckCircle, XCircle, MessageSquare, Clock, Download, FileText, Eye, SkipForward, 
   RotateCcw, X, UserPlus, AlertTriangle, Flag, Calendar, Users, Info
@@ -18,7 +19,10 @@ import { useToast } from '@/hooks/use-toast';
 import { useParams } from 'react-router-dom';
 import { apiClient } from '@/lib/api/client';
 import { ReportWorkflowProgress } from './ReportWorkflowProgress';
+import { ReportVersionHistory } from './ReportVersionHistory';
+import { ReportDocumentAnnotator } from './ReportDocumentAnnotator';
 import { useAuth } from '@/contexts/AuthContext';
+import { ReportAnnotation, ReportDocumentVersion } from '@/types/dashboard';
 
 interface ReportWorkflowDetailProps {
   reportId: string;
@@ -53,6 +57,11 @@ export function ReportWorkflowDetail({ reportId, onClose, onChanged }: ReportWor
   const [availableUsers, setAvailableUsers] = React.useState<any[]>([]);
   const [requestInfoData, setRequestInfoData] = React.useState({ requestedFrom: '', informationNeeded: '', deadline: '' });
   const [weightedApproval, setWeightedApproval] = React.useState<any>(null);
+  const [versions, setVersions] = React.useState<ReportDocumentVersion[]>([]);
+  const [commentVersionId, setCommentVersionId] = React.useState('');
+  const [annotations, setAnnotations] = React.useState<ReportAnnotation[]>([]);
+  const [overrideAnnotations, setOverrideAnnotations] = React.useState(false);
+  const [annotationsFailed, setAnnotationsFailed] = React.useState(false);
   const { toast } = useToast();
 
   React.useEffect(() => {
@@ -63,6 +72,20 @@ export function ReportWorkflowDetail({ reportId, onClose, onChanged }: ReportWor
         setReport(data);
         console.log(data);
 
+        try {
+          setVersions(await reportWorkflowService.getReportVersions(reportId));
+        } catch (e) {
+          console.warn('Failed to load report versions:', e);
+        }
+
+        try {
+          setAnnotations(await reportWorkflowService.getReportAnnotations(reportId));
+          setAnnotationsFailed(false);
+        } catch (e) {
+          console.warn('Failed to load annotations:', e);
+          setAnnotationsFailed(true);
+        }
+
         // Load available users for delegation/escalation if projectId is available
         if (projectId) {
           try {
@@ -89,10 +112,30 @@ export function ReportWorkflowDetail({ reportId, onClose, onChanged }: ReportWor
     load();
   }, [reportId, projectId]);
 
+  const loadVersions = async () => {
+    try {
+      setVersions(await reportWorkflowService.getReportVersions(reportId));
+    } catch (e) {
+      console.warn('Failed to load report versions:', e);
+      setVersions([]);
+    }
+  };
+
+  const loadAnnotations = async () => {
+    try {
+      setAnnotations(await reportWorkflowService.getReportAnnotations(reportId));
+      setAnnotationsFailed(false);
+    } catch (e) {
+      console.warn('Failed to load annotations:', e);
+      setAnnotationsFailed(true);
+    }
+  };
+
   const refetchWorkflow = async () => {
     try {
       const data = await reportWorkflowService.getReportById(reportId);
       setReport(data);
+      await Promise.all([loadVersions(), loadAnnotations()]);
     } catch (e) {
       console.error('Failed to refresh workflow detail:', e);
     }
@@ -117,6 +160,10 @@ export function ReportWorkflowDetail({ reportId, onClose, onChanged }: ReportWor
   const totalSteps = steps.length || 1;
   const currentIndex = steps.findIndex((s: any) => !s.isCompleted);
   const currentStep = currentIndex >= 0 ? currentIndex + 1 : totalSteps;
+  const latestVersion = versions[versions.length - 1];
+  const unresolvedAnnotations = annotations.filter(annotation => !annotation.resolved).length;
+  // Without the annotations there is no telling whether any are unresolved, so approval waits for them to load
+  const approvalBlocked = annotationsFailed || (unresolvedAnnotations > 0 && !overrideAnnotations);
 
   const statusColor = (status: string) => {
     const s = (status || '').toUpperCase();
@@ -144,10 +191,11 @@ export function ReportWorkflowDetail({ reportId, onClose, onChanged }: ReportWor
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-5 sticky top-0 bg-white z-10">
+        <TabsList className="grid w-full grid-cols-6 sticky top-0 bg-white z-10">
           <TabsTrigger value="details">Details</TabsTrigger>
           <TabsTrigger value="progress">Progress</TabsTrigger>
           <TabsTrigger value="review">Review</TabsTrigger>
+          <TabsTrigger value="versions">Versions</TabsTrigger>
           <TabsTrigger value="comments">Comments</TabsTrigger>
           <TabsTrigger value="history">History</TabsTrigger>
         </TabsList>
@@ -312,12 +360,49 @@ export function ReportWorkflowDetail({ reportId, onClose, onChanged }: ReportWor
           {report && <ReportWorkflowProgress workflow={report} />}
         </TabsContent>
 
-        <TabsContent value="review" className="w-full">
+        <TabsContent value="review" className="w-full space-y-4">
+          <ReportDocumentAnnotator
+            report={report}
+            projectId={projectId}
+            versions={versions}
+            annotations={annotations}
+            onAnnotationsChanged={loadAnnotations}
+          />
           <Card className="w-full">
             <CardHeader>
               <CardTitle>Take Action</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
+              {latestVersion && (
+                <p className="text-sm text-muted-foreground">
+                  You are reviewing version {latestVersion.versionNumber} ({latestVersion.fileName}).
+                </p>
+              )}
+              {annotationsFailed && (
+                <div className="p-3 border rounded-lg bg-yellow-50 flex flex-wrap items-center justify-between gap-2">
+                  <p className="flex items-center gap-2 text-sm text-yellow-800">
+                    <AlertTriangle className="h-4 w-4" />
+                    Annotations on this report could not be loaded. Approval is unavailable until they load.
+                  </p>
+                  <Button variant="outline" size="sm" onClick={loadAnnotations}>Retry</Button>
+                </div>
+              )}
+              {!annotationsFailed && unresolvedAnnotations > 0 && (
+                <div className="p-3 border rounded-lg bg-yellow-50 space-y-2">
+                  <p className="flex items-center gap-2 text-sm text-yellow-800">
+                    <AlertTriangle className="h-4 w-4" />
+                    {unresolvedAnnotations} unresolved annotation{unresolvedAnnotations === 1 ? '' : 's'} on this report. Resolve them before approving.
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="override-annotations"
+                      checked={overrideAnnotations}
+                      onCheckedChange={(checked) => setOverrideAnnotations(checked === true)}
+                    />
+                    <Label htmlFor="override-annotations" className="text-sm">Approve anyway, leaving them unresolved</Label>
+                  </div>
+                </div>
+              )}
               <div>
                 <label className="text-sm font-medium text-gray-700">Request changes note</label>
                 <Textarea
@@ -330,10 +415,18 @@ export function ReportWorkflowDetail({ reportId, onClose, onChanged }: ReportWor
               <div className="flex flex-wrap gap-2">
                 <Button 
                   onClick={async () => {
-                    if (hasActed || isSubmitting) return;
+                    if (hasActed || isSubmitting || approvalBlocked) return;
                     try {
                       setIsSubmitting(true);
-                      await reportWorkflowService.review(report.id, 'APPROVE');
+                      await reportWorkflowService.review(
+                        report.id,
+                        'APPROVE',
+                        undefined,
+                        unresolvedAnnotations > 0 ? `Approved with ${unresolvedAnnotations} unresolved annotation(s)` : undefined,
+                        undefined,
+                        latestVersion?.id,
+                        unresolvedAnnotations > 0
+                      );
                       setHasActed(true);
                       toast({ title: 'Approved', description: 'Your approval was recorded.' });
                       setActiveTab('history');
@@ -345,7 +438,7 @@ export function ReportWorkflowDetail({ reportId, onClose, onChanged }: ReportWor
                       setIsSubmitting(false);
                     }
                   }}
-                  disabled={isSubmitting || hasActed}
+                  disabled={isSubmitting || hasActed || approvalBlocked}
                   className="gap-2"
                 >
                   <CheckCircle className="h-4 w-4" /> Approve
@@ -356,7 +449,7 @@ export function ReportWorkflowDetail({ reportId, onClose, onChanged }: ReportWor
                     if (hasActed || isSubmitting) return;
                     try {
                       setIsSubmitting(true);
-                      await reportWorkflowService.review(report.id, 'REJECT');
+                      await reportWorkflowService.review(report.id, 'REJECT', undefined, undefined, undefined, latestVersion?.id);
                       setHasActed(true);
                       toast({ title: 'Rejected', description: 'Your rejection was recorded.' });
                       setActiveTab('history');
@@ -379,7 +472,7 @@ export function ReportWorkflowDetail({ reportId, onClose, onChanged }: ReportWor
                     if (hasActed || isSubmitting) return;
                     try {
                       setIsSubmitting(true);
-                      await reportWorkflowService.review(report.id, 'REQUEST_CHANGES', note);
+                      await reportWorkflowService.review(report.id, 'REQUEST_CHANGES', note, undefined, undefined, latestVersion?.id);
                       setHasActed(true);
                       toast({ title: 'Changes requested', description: 'Your request for changes was recorded.' });
                       setActiveTab('history');
@@ -404,7 +497,7 @@ export function ReportWorkflowDetail({ reportId, onClose, onChanged }: ReportWor
                       if (hasActed || isSubmitting) return;
                       try {
                         setIsSubmitting(true);
-                        await reportWorkflowService.review(report.id, 'SKIP');
+                        await reportWorkflowService.review(report.id, 'SKIP', undefined, undefined, undefined, latestVersion?.id);
                         setHasActed(true);
                         toast({ title: 'Skipped', description: 'This step has been skipped.' });
                         setActiveTab('history');
@@ -535,6 +628,19 @@ export function ReportWorkflowDetail({ reportId, onClose, onChanged }: ReportWor
           </Card>
         </TabsContent>
 
+        <TabsContent value="versions" className="w-full">
+          <ReportVersionHistory
+            report={report}
+            projectId={projectId}
+            versions={versions}
+            canUploadRevision={!!report.submittedByUser && (report.status === 'REJECTED' || report.status === 'CHANGES_REQUESTED')}
+            onRevisionSubmitted={async () => {
+              await refetchWorkflow();
+              onChanged?.();
+            }}
+          />
+        </TabsContent>
+
         <TabsContent value="comments" className="w-full">
           <Card className="w-full">
             <CardHeader>
@@ -549,12 +655,27 @@ export function ReportWorkflowDetail({ reportId, onClose, onChanged }: ReportWor
                   placeholder="Add a comment..."
                   className="min-h-[100px]"
                 />
+                {versions.length > 1 && (
+                  <div className="flex items-center gap-2">
+                    <Label className="text-sm">About</Label>
+                    <Select value={commentVersionId || latestVersion?.id} onValueChange={setCommentVersionId}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {versions.map(version => (
+                          <SelectItem key={version.id} value={version.id}>Version {version.versionNumber}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
                 <Button
                   onClick={async () => {
                     if (!comment.trim() || isSubmitting) return;
                     try {
                       setIsSubmitting(true);
-                      await reportWorkflowService.addComment(report.id, comment);
+                      await reportWorkflowService.addComment(report.id, comment, undefined, undefined, commentVersionId || latestVersion?.id);
                       setComment('');
                       toast({ title: 'Comment Added', description: 'Your comment has been added.' });
                       await refetchWorkflow();
@@ -591,9 +712,14 @@ export function ReportWorkflowDetail({ reportId, onClose, onChanged }: ReportWor
                             {new Date(comment.createdAt).toLocaleString()}
                           </p>
                         </div>
-                        {comment.isInternal && (
-                          <Badge variant="outline" className="text-xs">Internal</Badge>
-                        )}
+                        <div className="flex gap-1">
+                          {comment.versionNumber && (
+                            <Badge variant="secondary" className="text-xs">Version {comment.versionNumber}</Badge>
+                          )}
+                          {comment.isInternal && (
+                            <Badge variant="outline" className="text-xs">Internal</Badge>
+                          )}
+                        </div>
                       </div>
                       <p className="text-sm text-foreground whitespace-pre-wrap">{comment.content}</p>
                       
@@ -648,6 +774,9 @@ export function ReportWorkflowDetail({ reportId, onClose, onChanged }: ReportWor
                     {s.reviewer && (
                       <div className="text-xs text-muted-foreground mt-1">Reviewer: {`${s.reviewer.firstName || ''} ${s.reviewer.lastName || ''}`.trim() || s.reviewer.email}</div>
                     )}
+                    {s.reviewedVersionNumber && (
+                      <div className="text-xs text-muted-foreground mt-1">Reviewed version {s.reviewedVersionNumber}</div>
+                    )}
                     {s.action && (
                       <div className="mt-2 text-sm">
                         <span className="font-medium">Action:</span> {s.action}
@@ -26,16 +26,38 @@ interface ReportWorkflowProgressProps {
       delegatedTo?: string;
       escalationLevel?: number;
       approvalWeight?: number;
+      // Set when the workflow was built from an approval chain template
+      stageOrder?: number;
+      stageName?: string;
+      requiredApprovals?: number;
+      approverLabel?: string;
     }>;
   };
 }
 
 export function ReportWorkflowProgress({ workflow }: ReportWorkflowProgressProps) {
   const steps = workflow.approvalSteps || [];
-  const currentStepIndex = steps.findIndex((s) => !s.isCompleted);
-  const currentStep = currentStepIndex >= 0 ? currentStepIndex : steps.length;
-  const completedSteps = steps.filter((s) => s.isCompleted).length;
-  const totalSteps = steps.length || 1;
+
+  // Steps sharing a stage are reviewed in parallel; workflows without stages have one step per stage
+  const hasStages = steps.some((s) => s.stageOrder !== undefined);
+  const stageOrders = Array.from(new Set(steps.map((s) => s.stageOrder ?? s.stepOrder))).sort((a, b) => a - b);
+  const stages = stageOrders.map((order) => {
+    const stageSteps = steps.filter((s) => (s.stageOrder ?? s.stepOrder) === order);
+    const approvals = stageSteps.filter((s) => s.isCompleted && s.action !== 'REJECT').length;
+    const required = Math.min(stageSteps[0].requiredApprovals ?? stageSteps.length, stageSteps.length);
+    return {
+      order,
+      name: stageSteps[0].stageName,
+      steps: stageSteps,
+      approvals,
+      required,
+      isComplete: approvals >= required,
+    };
+  });
+  const currentStageIndex = stages.findIndex((stage) => !stage.isComplete);
+  const currentStage = currentStageIndex >= 0 ? currentStageIndex : stages.length;
+  const completedSteps = stages.filter((stage) => stage.isComplete).length;
+  const totalSteps = stages.length || 1;
 
   const getReviewerName = (step: any) => {
     if (step.reviewer) {
@@ -52,7 +74,7 @@ export function ReportWorkflowProgress({ workflow }: ReportWorkflowProgressProps
       }
       return <CheckCircle className="h-5 w-5 text-green-500" />;
     }
-    if (index === currentStep) {
+    if (index === currentStage) {
       return <Clock className="h-5 w-5 text-blue-500 animate-pulse" />;
     }
     return <Clock className="h-5 w-5 text-gray-400" />;
@@ -66,7 +88,15 @@ export function ReportWorkflowProgress({ workflow }: ReportWorkflowProgressProps
         </Badge>
       );
     }
-    if (index === currentStep) {
+    if (index < currentStage) {
+      // The stage got its required approvals from the other parallel reviewers
+      return (
+        <Badge variant="secondary" className="bg-gray-100 text-gray-500">
+          Not needed
+        </Badge>
+      );
+    }
+    if (index === currentStage) {
       return (
         <Badge variant="default" className="bg-blue-100 text-blue-800">
           In Review
@@ -91,7 +121,7 @@ export function ReportWorkflowProgress({ workflow }: ReportWorkflowProgressProps
         <CardTitle className="flex items-center justify-between">
           <span>Workflow Progress</span>
           <Badge variant="outline">
-            {completedSteps} of {totalSteps} steps
+            {completedSteps} of {totalSteps} {hasStages ? 'stages' : 'steps'}
           </Badge>
         </CardTitle>
       </CardHeader>
@@ -111,113 +141,138 @@ export function ReportWorkflowProgress({ workflow }: ReportWorkflowProgressProps
 
         {/* Timeline */}
         <div className="space-y-4">
-          {steps.map((step, index) => {
-            const isCurrent = index === currentStep;
-            const isPast = index < currentStep;
-            const isFuture = index > currentStep;
-            const overdue = isOverdue(step.dueDate);
+          {stages.map((stage, index) => {
+            const isCurrent = index === currentStage;
+            const isParallel = stage.steps.length > 1;
 
             return (
-              <div key={step.id} className="relative">
-                <div className="flex items-start gap-4">
-                  {/* Step Circle */}
-                  <div
-                    className={`
-                      w-12 h-12 rounded-full flex items-center justify-center flex-shrink-0
-                      ${step.isCompleted
-                        ? 'bg-green-500 text-white'
-                        : isCurrent
-                        ? 'bg-blue-500 text-white ring-4 ring-blue-200'
-                        : 'bg-gray-300 text-gray-600'
-                      }
-                    `}
-                  >
-                    {getStepStatusIcon(step, index)}
+              <div key={stage.order} className="relative">
+                {hasStages && (
+                  <div className="flex items-center gap-2 mb-2">
+                    <span className="font-medium text-sm">
+                      Stage {index + 1}{stage.name ? `: ${stage.name}` : ''}
+                    </span>
+                    {isParallel && (
+                      <Badge variant="outline" className="text-xs">
+                        {stage.approvals} of {stage.required} approvals
+                        {stage.required < stage.steps.length && ` (any ${stage.required} of ${stage.steps.length} reviewers)`}
+                      </Badge>
+                    )}
                   </div>
+                )}
 
-                  {/* Step Content */}
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center justify-between mb-1">
-                      <div className="flex items-center gap-2">
-                        <span className="font-medium text-sm">
-                          Step {step.stepOrder}
-                        </span>
-                        {step.isDelegated && (
-                          <Badge variant="outline" className="text-xs">
-                            Delegated
-                          </Badge>
-                        )}
-                        {step.escalationLevel && step.escalationLevel > 0 && (
-                          <Badge variant="destructive" className="text-xs">
-                            Escalated (Level {step.escalationLevel})
-                          </Badge>
-                        )}
-                      </div>
-                      {getStepStatusBadge(step, index)}
-                    </div>
-
-                    {/* Reviewer Info */}
-                    <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
-                      <User className="h-4 w-4" />
-                      <span>{getReviewerName(step)}</span>
-                      {step.approvalWeight && step.approvalWeight > 1 && (
-                        <Badge variant="outline" className="text-xs">
-                          Weight: {step.approvalWeight}
-                        </Badge>
-                      )}
-                      {step.delegatedTo && step.isDelegated && (
-                        <span className="text-xs">(Delegated from original reviewer)</span>
-                      )}
-                    </div>
-
-                    {/* Due Date */}
-                    {step.dueDate && (
-                      <div className={`flex items-center gap-2 text-xs mb-2 ${overdue ? 'text-red-600 font-medium' : 'text-muted-foreground'}`}>
-                        <Calendar className="h-3 w-3" />
-                        <span>
-                          Due: {new Date(step.dueDate).toLocaleDateString()}
-                          {overdue && ' (Overdue)'}
-                        </span>
-                      </div>
-                    )}
+                <div className={isParallel ? 'space-y-4 pl-4 border-l-2 border-dashed border-gray-200' : ''}>
+                  {stage.steps.map((step) => {
+                    const overdue = !step.isCompleted && isOverdue(step.dueDate);
 
-                    {/* Action and Comment */}
-                    {step.isCompleted && (
-                      <div className="mt-2 space-y-1">
-                        {step.action && (
-                          <div className="text-sm">
-                            <span className="font-medium">Action: </span>
-                            <span className="text-muted-foreground">{step.action}</span>
-                          </div>
-                        )}
-                        {step.comment && (
-                          <div className="text-sm text-muted-foreground bg-gray-50 p-2 rounded">
-                            {step.comment}
+                    return (
+                      <div key={step.id} className="flex items-start gap-4">
+                        {/* Step Circle */}
+                        <div
+                          className={`
+                            w-12 h-12 rounded-full flex items-center justify-center flex-shrink-0
+                            ${step.isCompleted
+                              ? 'bg-green-500 text-white'
+                              : isCurrent
+                              ? 'bg-blue-500 text-white ring-4 ring-blue-200'
+                              : 'bg-gray-300 text-gray-600'
+                            }
+                          `}
+                        >
+                          {getStepStatusIcon(step, index)}
+                        </div>
+
+                        {/* Step Content */}
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center justify-between mb-1">
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium text-sm">
+                                Step {step.stepOrder}
+                              </span>
+                              {step.approverLabel && (
+                                <Badge variant="outline" className="text-xs">
+                                  {step.approverLabel}
+                                </Badge>
+                              )}
+                              {step.isDelegated && (
+                                <Badge variant="outline" className="text-xs">
+                                  Delegated
+                                </Badge>
+                              )}
+                              {step.escalationLevel && step.escalationLevel > 0 && (
+                                <Badge variant="destructive" className="text-xs">
+                                  Escalated (Level {step.escalationLevel})
+                                </Badge>
+                              )}
+                            </div>
+                            {getStepStatusBadge(step, index)}
                           </div>
-                        )}
-                        {step.completedAt && (
-                          <div className="text-xs text-muted-foreground">
-                            Completed: {new Date(step.completedAt).toLocaleString()}
+
+                          {/* Reviewer Info */}
+                          <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+                            <User className="h-4 w-4" />
+                            <span>{getReviewerName(step)}</span>
+                            {step.approvalWeight && step.approvalWeight > 1 && (
+                              <Badge variant="outline" className="text-xs">
+                                Weight: {step.approvalWeight}
+                              </Badge>
+                            )}
+                            {step.delegatedTo && step.isDelegated && (
+                              <span className="text-xs">(Delegated from original reviewer)</span>
+                            )}
                           </div>
-                        )}
-                      </div>
-                    )}
 
-                    {/* Current Step Indicator */}
-                    {isCurrent && !step.isCompleted && (
-                      <div className="mt-2 text-sm text-blue-600 font-medium">
-                        ← Currently reviewing
+                          {/* Due Date */}
+                          {step.dueDate && (
+                            <div className={`flex items-center gap-2 text-xs mb-2 ${overdue ? 'text-red-600 font-medium' : 'text-muted-foreground'}`}>
+                              <Calendar className="h-3 w-3" />
+                              <span>
+                                Due: {new Date(step.dueDate).toLocaleDateString()}
+                                {overdue && ' (Overdue)'}
+                              </span>
+                            </div>
+                          )}
+
+                          {/* Action and Comment */}
+                          {step.isCompleted && (
+                            <div className="mt-2 space-y-1">
+                              {step.action && (
+                                <div className="text-sm">
+                                  <span className="font-medium">Action: </span>
+                                  <span className="text-muted-foreground">{step.action}</span>
+                                </div>
+                              )}
+                              {step.comment && (
+                                <div className="text-sm text-muted-foreground bg-gray-50 p-2 rounded">
+                                  {step.comment}
+                                </div>
+                              )}
+                              {step.completedAt && (
+                                <div className="text-xs text-muted-foreground">
+                                  Completed: {new Date(step.completedAt).toLocaleString()}
+                                </div>
+                              )}
+                            </div>
+                          )}
+
+                          {/* Current Step Indicator */}
+                          {isCurrent && !step.isCompleted && (
+                            <div className="mt-2 text-sm text-blue-600 font-medium">
+                              ← Currently reviewing
+                            </div>
+                          )}
+                        </div>
                       </div>
-                    )}
-                  </div>
+                    );
+                  })}
                 </div>
 
                 {/* Connector Line */}
-                {index < steps.length - 1 && (
+                {!hasStages && index < stages.length - 1 && (
                   <div
                     className={`
                       absolute left-6 top-12 w-0.5 h-8
-                      ${step.isCompleted ? 'bg-green-500' : 'bg-gray-300'}
+                      ${stage.isComplete ? 'bg-green-500' : 'bg-gray-300'}
                     `}
                   />
                 )}
@@ -234,9 +289,11 @@ export function ReportWorkflowProgress({ workflow }: ReportWorkflowProgressProps
               <span className="font-medium">{workflow.status}</span>
             </div>
             <div>
-              <span className="text-muted-foreground">Current Step: </span>
+              <span className="text-muted-foreground">{hasStages ? 'Current Stage: ' : 'Current Step: '}</span>
               <span className="font-medium">
-                {currentStep < steps.length ? `Step ${currentStep + 1}` : 'Completed'}
+                {currentStage < stages.length
+                  ? `${hasStages ? 'Stage' : 'Step'} ${currentStage + 1}${stages[currentStage].name ? ` (${stages[currentStage].name})` : ''}`
+                  : 'Completed'}
               </span>
             </div>
           </div>
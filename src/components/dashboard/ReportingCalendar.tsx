@@ -0,0 +1,209 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Calendar } from '@/components/ui/calendar';
+import { CalendarClock, CalendarDays, Settings } from 'lucide-react';
+import { reportWorkflowService } from '@/services/reportWorkflowService';
+import { ReportingSchedule } from '@/types/dashboard';
+import {
+  OBLIGATION_STATUS_LABELS,
+  ObligationStatus,
+  ReportWorkflowSource,
+  ReportingObligation,
+  buildReportingObligations,
+  toSubmittedReportRecords,
+} from '@/lib/reportingCalendar';
+import { ReportingScheduleDialog } from './ReportingScheduleDialog';
+
+interface ReportingCalendarProps {
+  projectId: string;
+  reports: ReportWorkflowSource[];
+  canManageSchedule: boolean;
+}
+
+const STATUS_BADGE_CLASSES: Record<ObligationStatus, string> = {
+  upcoming: 'bg-gray-100 text-gray-800',
+  'due-soon': 'bg-yellow-100 text-yellow-800',
+  overdue: 'bg-red-100 text-red-800',
+  submitted: 'bg-green-100 text-green-800',
+  'submitted-late': 'bg-orange-100 text-orange-800',
+};
+
+const STATUS_DAY_CLASSES: Record<ObligationStatus, string> = {
+  upcoming: 'ring-2 ring-inset ring-gray-300',
+  'due-soon': 'bg-yellow-200 text-yellow-900',
+  overdue: 'bg-red-500 text-white',
+  submitted: 'bg-green-200 text-green-900',
+  'submitted-late': 'bg-orange-200 text-orange-900',
+};
+
+// When several reports fall on one day the most urgent status colours it
+const STATUS_PRIORITY: ObligationStatus[] = ['overdue', 'due-soon', 'upcoming', 'submitted-late', 'submitted'];
+
+const sameDay = (a: Date, b: Date) => a.toDateString() === b.toDateString();
+
+const describeDue = (obligation: ReportingObligation) => {
+  if (obligation.report) {
+    return `Submitted ${new Date(obligation.report.submittedAt).toLocaleDateString()}`;
+  }
+  if (obligation.daysUntilDue < 0) {
+    const days = -obligation.daysUntilDue;
+    return `${days} day${days === 1 ? '' : 's'} overdue`;
+  }
+  if (obligation.daysUntilDue === 0) return 'Due today';
+  return `Due in ${obligation.daysUntilDue} day${obligation.daysUntilDue === 1 ? '' : 's'}`;
+};
+
+/** Calendar of the reports a project owes: upcoming, submitted and overdue, from its reporting schedules. */
+export function ReportingCalendar({ projectId, reports, canManageSchedule }: ReportingCalendarProps) {
+  const [schedules, setSchedules] = useState<ReportingSchedule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [month, setMonth] = useState(new Date());
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>();
+  const [scheduleDialogOpen, setScheduleDialogOpen] = useState(false);
+
+  const loadSchedules = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSchedules(await reportWorkflowService.getReportingSchedules(projectId));
+    } catch (error) {
+      console.error('Error loading reporting schedules:', error);
+      setSchedules([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadSchedules();
+  }, [loadSchedules]);
+
+  const obligations = useMemo(() => {
+    const now = new Date();
+    return buildReportingObligations(schedules, toSubmittedReportRecords(reports, projectId), {
+      from: new Date(now.getFullYear() - 1, now.getMonth(), 1),
+      to: new Date(now.getFullYear() + 1, now.getMonth() + 1, 0),
+      now,
+    });
+  }, [schedules, reports, projectId]);
+
+  const modifiers = useMemo(() => {
+    const byStatus = {} as Record<ObligationStatus, Date[]>;
+    STATUS_PRIORITY.forEach(status => {
+      byStatus[status] = [];
+    });
+    obligations.forEach(obligation => {
+      const sameDayObligations = obligations.filter(other => sameDay(other.dueDate, obligation.dueDate));
+      const status = STATUS_PRIORITY.find(candidate => sameDayObligations.some(other => other.status === candidate));
+      if (status && !byStatus[status].some(date => sameDay(date, obligation.dueDate))) {
+        byStatus[status].push(obligation.dueDate);
+      }
+    });
+    return byStatus;
+  }, [obligations]);
+
+  const overdue = obligations.filter(obligation => obligation.status === 'overdue');
+  const listed = selectedDay
+    ? obligations.filter(obligation => sameDay(obligation.dueDate, selectedDay))
+    : obligations.filter(obligation =>
+      obligation.dueDate.getFullYear() === month.getFullYear() && obligation.dueDate.getMonth() === month.getMonth()
+    );
+
+  const renderObligation = (obligation: ReportingObligation) => (
+    <div key={obligation.id} className="flex items-start justify-between gap-3 p-3 border rounded-lg">
+      <div className="min-w-0 space-y-1">
+        <p className="font-medium text-sm">{obligation.schedule.name}</p>
+        <p className="text-xs text-gray-500">
+          {obligation.period.label} · due {obligation.dueDate.toLocaleDateString()}
+          {obligation.schedule.donor && ` · ${obligation.schedule.donor}`}
+        </p>
+        <p className="text-xs text-gray-500">
+          {obligation.schedule.responsibleUserName || 'No one responsible'} · {describeDue(obligation)}
+        </p>
+      </div>
+      <Badge className={STATUS_BADGE_CLASSES[obligation.status]}>{OBLIGATION_STATUS_LABELS[obligation.status]}</Badge>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="w-5 h-5" />
+              Reporting Calendar
+            </CardTitle>
+            <CardDescription>Reports this project owes, from its reporting schedule</CardDescription>
+          </div>
+          {canManageSchedule && (
+            <Button variant="outline" size="sm" onClick={() => setScheduleDialogOpen(true)} className="gap-2">
+              <Settings className="h-4 w-4" />
+              Reporting Schedule
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!loading && schedules.length === 0 ? (
+          <div className="text-center py-6 space-y-2">
+            <CalendarClock className="w-8 h-8 mx-auto text-gray-400" />
+            <p className="text-sm text-gray-500">No reporting schedule has been set up for this project yet.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[auto_1fr] gap-6">
+            <div className="space-y-3">
+              <Calendar
+                mode="single"
+                month={month}
+                onMonthChange={(next) => {
+                  setMonth(next);
+                  setSelectedDay(undefined);
+                }}
+                selected={selectedDay}
+                onSelect={setSelectedDay}
+                modifiers={modifiers}
+                modifiersClassNames={STATUS_DAY_CLASSES}
+                className="border rounded-md"
+              />
+              <div className="flex flex-wrap gap-1">
+                {STATUS_PRIORITY.map(status => (
+                  <Badge key={status} className={`text-xs ${STATUS_BADGE_CLASSES[status]}`}>{OBLIGATION_STATUS_LABELS[status]}</Badge>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              {overdue.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium text-red-700">Overdue ({overdue.length})</h4>
+                  {overdue.map(renderObligation)}
+                </div>
+              )}
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">
+                  {selectedDay
+                    ? `Due on ${selectedDay.toLocaleDateString()}`
+                    : `Due in ${month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}`}
+                </h4>
+                {listed.length === 0 ? (
+                  <p className="text-sm text-gray-500">Nothing due.</p>
+                ) : (
+                  listed.filter(obligation => obligation.status !== 'overdue').map(renderObligation)
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <ReportingScheduleDialog
+        isOpen={scheduleDialogOpen}
+        onClose={() => setScheduleDialogOpen(false)}
+        projectId={projectId}
+        onSaved={loadSchedules}
+      />
+    </Card>
+  );
+}
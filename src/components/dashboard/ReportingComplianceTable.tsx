@@ -0,0 +1,158 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CalendarClock, RefreshCw } from 'lucide-react';
+import { useProjects } from '@/contexts/ProjectsContext';
+import { reportWorkflowService } from '@/services/reportWorkflowService';
+import { reportService } from '@/services/reportService';
+import { ReportingSchedule } from '@/types/dashboard';
+import {
+  SubmittedReportRecord,
+  buildReportingCompliance,
+  buildReportingObligations,
+  toSubmittedReportRecords,
+} from '@/lib/reportingCalendar';
+
+const getComplianceColor = (rate: number | null) => {
+  if (rate === null) return 'bg-gray-100 text-gray-800';
+  if (rate >= 90) return 'bg-green-100 text-green-800';
+  if (rate >= 70) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-red-100 text-red-800';
+};
+
+/** Reporting compliance across all projects with a reporting schedule, over the last twelve months. */
+export function ReportingComplianceTable() {
+  const { projects } = useProjects();
+  const [schedules, setSchedules] = useState<ReportingSchedule[]>([]);
+  const [reports, setReports] = useState<SubmittedReportRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadCompliance = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const allSchedules = await reportWorkflowService.getReportingSchedules();
+      const projectIds = Array.from(new Set(allSchedules.filter(s => s.isActive).map(s => s.projectId)));
+      const reportLists = await Promise.all(projectIds.map(async projectId => {
+        try {
+          const response = await reportService.getReports(projectId);
+          return toSubmittedReportRecords(response.data ?? [], projectId);
+        } catch (error) {
+          console.error(`Error loading reports for project ${projectId}:`, error);
+          return [];
+        }
+      }));
+      setSchedules(allSchedules);
+      setReports(reportLists.flat());
+    } catch (error) {
+      console.error('Error loading reporting compliance:', error);
+      setSchedules([]);
+      setReports([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCompliance();
+  }, [loadCompliance]);
+
+  const rows = useMemo(() => {
+    const now = new Date();
+    const obligations = buildReportingObligations(schedules, reports, {
+      from: new Date(now.getFullYear() - 1, now.getMonth(), now.getDate()),
+      to: new Date(now.getFullYear(), now.getMonth(), now.getDate() + 90),
+      now,
+    });
+    return buildReportingCompliance(obligations);
+  }, [schedules, reports]);
+
+  const getProjectName = (projectId: string) =>
+    projects.find(project => project.id === projectId)?.name || projectId;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Reporting compliance
+            </CardTitle>
+            <CardDescription>Reports due in the last twelve months per project, and whether they arrived on time</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadCompliance} disabled={isLoading} className="gap-2">
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            {isLoading ? 'Loading reporting schedules...' : 'No project has a reporting schedule yet.'}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Project</TableHead>
+                <TableHead className="text-right">On time</TableHead>
+                <TableHead className="text-right">Late</TableHead>
+                <TableHead className="text-right">Missing</TableHead>
+                <TableHead>Compliance</TableHead>
+                <TableHead>Next due</TableHead>
+                <TableHead>Overdue reports</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.projectId}>
+                  <TableCell className="font-medium">
+                    <Link to={`/dashboard/projects/${row.projectId}/reports`} className="hover:underline">
+                      {getProjectName(row.projectId)}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-right">{row.onTime}</TableCell>
+                  <TableCell className="text-right">{row.late}</TableCell>
+                  <TableCell className={`text-right ${row.missing > 0 ? 'text-red-600 font-semibold' : ''}`}>{row.missing}</TableCell>
+                  <TableCell>
+                    <Badge className={getComplianceColor(row.complianceRate)}>
+                      {row.complianceRate === null ? 'Nothing due yet' : `${row.complianceRate}%`}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {row.nextDue ? (
+                      <>
+                        <div>{row.nextDue.schedule.name}</div>
+                        <div className="text-xs text-muted-foreground">{row.nextDue.dueDate.toLocaleDateString()}</div>
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {row.overdue.length === 0 ? (
+                      <span className="text-muted-foreground">None</span>
+                    ) : (
+                      <ul className="space-y-1">
+                        {row.overdue.map(obligation => (
+                          <li key={obligation.id}>
+                            {obligation.schedule.name} · {obligation.period.label}
+                            <span className="text-xs text-red-600"> ({-obligation.daysUntilDue}d overdue)</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
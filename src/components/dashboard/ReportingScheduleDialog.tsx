@@ -0,0 +1,413 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarClock, Edit, Loader2, Plus, Trash2 } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { useAuth } from '@/contexts/AuthContext';
+import { reportWorkflowService } from '@/services/reportWorkflowService';
+import { userManagementService, User } from '@/services/userManagementService';
+import { ReportTemplate, ReportingSchedule } from '@/types/dashboard';
+import { SCHEDULE_FREQUENCIES } from '@/lib/reportingCalendar';
+import { getReportingPeriod, getTemplatesForProject } from '@/lib/reportTemplates';
+import { toast } from '@/hooks/use-toast';
+
+interface ReportingScheduleDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  onSaved?: () => void;
+}
+
+const NONE = 'none';
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Periods a deadline can be overridden for: the current one and the next few
+const getOverridablePeriods = (frequency: ReportingSchedule['frequency']) => {
+  const periods = [getReportingPeriod(frequency, new Date())];
+  while (periods.length < 8) {
+    const { end } = periods[periods.length - 1];
+    periods.push(getReportingPeriod(frequency, new Date(end.getFullYear(), end.getMonth(), end.getDate() + 1)));
+  }
+  return periods;
+};
+
+/** Project admins set which recurring reports the project owes, when they are due and who writes them. */
+export function ReportingScheduleDialog({ isOpen, onClose, projectId, onSaved }: ReportingScheduleDialogProps) {
+  const { user } = useAuth();
+  const [schedules, setSchedules] = useState<ReportingSchedule[]>([]);
+  const [templates, setTemplates] = useState<ReportTemplate[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<{ schedule: ReportingSchedule; isNew: boolean } | null>(null);
+  const [reminderInput, setReminderInput] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setEditing(null);
+    setLoading(true);
+    Promise.all([
+      reportWorkflowService.getReportingSchedules(projectId),
+      reportWorkflowService.getReportTemplates(projectId).catch(error => {
+        console.error('Error loading report templates:', error);
+        return [];
+      }),
+      userManagementService.getUsers({ limit: 500, isActive: true }),
+    ])
+      .then(([loadedSchedules, loadedTemplates, usersResponse]) => {
+        setSchedules(loadedSchedules);
+        setTemplates(getTemplatesForProject(loadedTemplates, projectId));
+        setUsers(usersResponse.users ?? []);
+      })
+      .catch(error => console.error('Error loading reporting schedules:', error))
+      .finally(() => setLoading(false));
+  }, [isOpen, projectId]);
+
+  const userName = (u: User) => `${u.firstName} ${u.lastName}`.trim() || u.email;
+
+  const startEditing = (schedule: ReportingSchedule, isNew: boolean) => {
+    setReminderInput(schedule.reminderDaysBefore.join(', '));
+    setEditing({ schedule, isNew });
+  };
+
+  const startNew = () => {
+    const now = new Date();
+    startEditing({
+      id: uuidv4(),
+      projectId,
+      name: '',
+      frequency: 'quarterly',
+      dueDaysAfterPeriod: 30,
+      reminderDaysBefore: [14, 3],
+      startDate: toDateInput(new Date(now.getFullYear(), 0, 1)),
+      isActive: true,
+      createdAt: now.toISOString(),
+      createdBy: user?.id || '',
+    }, true);
+  };
+
+  const updateSchedule = (updates: Partial<ReportingSchedule>) => {
+    setEditing(prev => (prev ? { ...prev, schedule: { ...prev.schedule, ...updates } } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const schedule: ReportingSchedule = {
+      ...editing.schedule,
+      name: editing.schedule.name.trim(),
+      reminderDaysBefore: Array.from(new Set(
+        reminderInput.split(',').map(value => parseInt(value, 10)).filter(days => Number.isFinite(days) && days > 0)
+      )).sort((a, b) => b - a),
+      updatedAt: new Date().toISOString(),
+    };
+    if (!schedule.name || !schedule.startDate) {
+      toast({ title: 'Missing details', description: 'Give the schedule a name and a start date.', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await reportWorkflowService.saveReportingSchedule(schedule, editing.isNew);
+      setSchedules(prev => (editing.isNew ? [...prev, saved] : prev.map(s => (s.id === saved.id ? saved : s))));
+      setEditing(null);
+      onSaved?.();
+      toast({ title: 'Reporting schedule saved', description: `"${saved.name}" is on the reporting calendar.` });
+    } catch (error) {
+      console.error('Error saving reporting schedule:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save reporting schedule',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (schedule: ReportingSchedule) => {
+    if (!window.confirm(`Delete the reporting schedule "${schedule.name}"? Submitted reports are kept.`)) return;
+    try {
+      await reportWorkflowService.deleteReportingSchedule(schedule.id);
+      setSchedules(prev => prev.filter(s => s.id !== schedule.id));
+      onSaved?.();
+    } catch (error) {
+      console.error('Error deleting reporting schedule:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete reporting schedule',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const renderOverrides = (schedule: ReportingSchedule) => {
+    const periods = getOverridablePeriods(schedule.frequency);
+    const overrides = Object.entries(schedule.dueDateOverrides ?? {});
+    const setOverrides = (entries: [string, string][]) =>
+      updateSchedule({ dueDateOverrides: entries.length > 0 ? Object.fromEntries(entries) : undefined });
+    const unused = periods.filter(period => !schedule.dueDateOverrides?.[period.key]);
+
+    return (
+      <div className="space-y-2">
+        <Label>Donor deadlines</Label>
+        <p className="text-xs text-gray-500">Set a different due date for particular periods, e.g. when a donor moves a deadline.</p>
+        {overrides.map(([periodKey, dueDate], index) => (
+          <div key={periodKey} className="grid grid-cols-[1fr_10rem_auto] gap-2">
+            <Select
+              value={periodKey}
+              onValueChange={(value) => setOverrides(overrides.map((entry, i) => (i === index ? [value, entry[1]] : entry)))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {periods.filter(period => period.key === periodKey || unused.includes(period)).map(period => (
+                  <SelectItem key={period.key} value={period.key}>{period.label}</SelectItem>
+                ))}
+                {!periods.some(period => period.key === periodKey) && <SelectItem value={periodKey}>{periodKey}</SelectItem>}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={dueDate}
+              onChange={(e) => setOverrides(overrides.map((entry, i) => (i === index ? [entry[0], e.target.value] : entry)))}
+            />
+            <Button variant="ghost" size="sm" onClick={() => setOverrides(overrides.filter((_, i) => i !== index))}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        {unused.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setOverrides([...overrides, [unused[0].key, toDateInput(unused[0].end)]])}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add deadline
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  const renderEditor = (schedule: ReportingSchedule) => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="scheduleName">Report</Label>
+          <Input
+            id="scheduleName"
+            value={schedule.name}
+            onChange={(e) => updateSchedule({ name: e.target.value })}
+            placeholder="e.g. Quarterly progress report"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="scheduleDonor">Donor</Label>
+          <Input
+            id="scheduleDonor"
+            value={schedule.donor || ''}
+            onChange={(e) => updateSchedule({ donor: e.target.value || undefined })}
+            placeholder="Optional"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Frequency</Label>
+          <Select
+            value={schedule.frequency}
+            onValueChange={(value) => updateSchedule({ frequency: value as ReportingSchedule['frequency'], dueDateOverrides: undefined })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SCHEDULE_FREQUENCIES.map(frequency => (
+                <SelectItem key={frequency.value} value={frequency.value}>{frequency.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="scheduleDueDays">Due (days after the period ends)</Label>
+          <Input
+            id="scheduleDueDays"
+            type="number"
+            min={0}
+            value={schedule.dueDaysAfterPeriod}
+            onChange={(e) => updateSchedule({ dueDaysAfterPeriod: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Responsible</Label>
+          <Select
+            value={schedule.responsibleUserId || NONE}
+            onValueChange={(value) => {
+              const responsible = users.find(u => u.id === value);
+              updateSchedule({
+                responsibleUserId: responsible?.id,
+                responsibleUserName: responsible ? userName(responsible) : undefined,
+              });
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Not assigned</SelectItem>
+              {users.map(u => (
+                <SelectItem key={u.id} value={u.id}>{userName(u)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="scheduleReminders">Reminders (days before due)</Label>
+          <Input
+            id="scheduleReminders"
+            value={reminderInput}
+            onChange={(e) => setReminderInput(e.target.value)}
+            placeholder="e.g. 14, 3"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Report template</Label>
+          <Select
+            value={schedule.reportTemplateId || NONE}
+            onValueChange={(value) => updateSchedule({ reportTemplateId: value === NONE ? undefined : value })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>None (uploaded file)</SelectItem>
+              {templates.filter(t => t.category === schedule.frequency).map(t => (
+                <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="scheduleStart">From</Label>
+            <Input
+              id="scheduleStart"
+              type="date"
+              value={schedule.startDate}
+              onChange={(e) => updateSchedule({ startDate: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="scheduleEnd">Until</Label>
+            <Input
+              id="scheduleEnd"
+              type="date"
+              value={schedule.endDate || ''}
+              onChange={(e) => updateSchedule({ endDate: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+      </div>
+
+      {renderOverrides(schedule)}
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id="scheduleActive"
+          checked={schedule.isActive}
+          onCheckedChange={(checked) => updateSchedule({ isActive: checked })}
+        />
+        <Label htmlFor="scheduleActive">Active</Label>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !saving && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5" />
+            Reporting Schedule
+          </DialogTitle>
+          <DialogDescription>
+            The recurring reports this project owes. The responsible person is reminded before each due date and
+            again once a report is overdue.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500 py-6 justify-center">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading reporting schedule...
+          </div>
+        ) : editing ? (
+          renderEditor(editing.schedule)
+        ) : (
+          <div className="space-y-3">
+            {schedules.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-4">No recurring reports scheduled for this project.</p>
+            )}
+            {schedules.map(schedule => (
+              <div key={schedule.id} className="flex items-start justify-between gap-4 p-3 border rounded-lg">
+                <div className="space-y-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <p className="font-medium">{schedule.name}</p>
+                    <Badge variant="outline" className="text-xs">
+                      {SCHEDULE_FREQUENCIES.find(f => f.value === schedule.frequency)?.label}
+                    </Badge>
+                    {schedule.donor && <Badge variant="secondary" className="text-xs">{schedule.donor}</Badge>}
+                    {!schedule.isActive && <Badge variant="outline" className="text-xs text-gray-500">Inactive</Badge>}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Due {schedule.dueDaysAfterPeriod} days after each period · {schedule.responsibleUserName || 'No one responsible'}
+                    {schedule.reminderDaysBefore.length > 0 && ` · Reminders ${schedule.reminderDaysBefore.join(' and ')} days before`}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => startEditing(schedule, false)}>
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(schedule)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          {editing ? (
+            <>
+              <Button variant="outline" onClick={() => setEditing(null)} disabled={saving}>
+                Back
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              <Button onClick={startNew} disabled={loading}>
+                <Plus className="w-4 h-4 mr-2" />
+                New schedule
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
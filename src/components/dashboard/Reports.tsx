@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useParams } from 'react-router-dom';
-import { FileText, Upload, Download, File, Eye, Trash2, Plus, FilePlus, Hash, MapPin, Building, FileText as FileTextIcon, RefreshCw, Users } from 'lucide-react';
+import { FileText, Upload, Download, File, Eye, Trash2, Plus, FilePlus, Hash, MapPin, Building, FileText as FileTextIcon, RefreshCw, Users, GitBranch, LayoutTemplate, FilePen, CalendarDays } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -16,10 +16,15 @@ import { useProjects } from '@/contexts/ProjectsContext';
 import { Report } from '@/types/dashboard';
 import { ReportUpload } from './ReportUpload';
 import { NamingConventionForm } from './NamingConventionForm';
-import { NamingConventionData, generateFileName, parseFileName, REPORT_TYPES } from '@/lib/namingConvention';
+import { NamingConventionData, generateFileName, parseFileName } from '@/lib/namingConvention';
 import { PendingReviews } from './PendingReviews';
 import { ReportWorkflowDetail } from './ReportWorkflowDetail';
 import { ReviewerWorkloadDashboard } from './ReviewerWorkloadDashboard';
+import { ApprovalChainTemplatesDialog } from './ApprovalChainTemplatesDialog';
+import { ReportTemplatesDialog } from './ReportTemplatesDialog';
+import { ReportBuilder } from './ReportBuilder';
+import { ReportingCalendar } from './ReportingCalendar';
+import { createEnhancedPermissionManager } from '@/lib/permissions';
 import { reportWorkflowService } from '@/services/reportWorkflowService';
 import { useReport } from '@/contexts/ReportContext';
 import { reportService } from '@/services/reportService';
@@ -27,12 +32,16 @@ import { useToast } from '@/hooks/use-toast';
 import { useNotification } from '@/hooks/useNotification';
 
 export function Reports() {
-  const { user } = useAuth();
-  const { getProjectActivities, getProjectOutputs, getProjectOutcomes } = useProjects();
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const { getProjectActivities, getProjectOutputs, getProjectOutcomes, namingRegistry } = useProjects();
   const { reports: contextReports } = useReport();
   const { toast } = useToast();
   const { showSuccess, showError } = useNotification();
   const { projectId } = useParams();
+  const [showReportingCalendar, setShowReportingCalendar] = useState(false);
+  const [chainTemplatesOpen, setChainTemplatesOpen] = useState(false);
+  const [reportTemplatesOpen, setReportTemplatesOpen] = useState(false);
+  const [builderOpen, setBuilderOpen] = useState(false);
   if (!user || !projectId) return null;
   
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
@@ -59,6 +68,9 @@ export function Reports() {
   const [openWorkflowId, setOpenWorkflowId] = useState<string | null>(null);
   const [pendingReviewsRefreshTrigger, setPendingReviewsRefreshTrigger] = useState(0);
   const [showWorkloadDashboard, setShowWorkloadDashboard] = useState(false);
+  const permissionManager = createEnhancedPermissionManager({ user, isAuthenticated, isLoading: authLoading });
+  const canManageApprovalChains = permissionManager.canAccessProject(projectId, 'admin');
+  const canEditReports = permissionManager.canEditReports(projectId);
 
   // Get project data for report creation
   const [activities, setActivities] = useState<any[]>([]);
@@ -508,6 +520,37 @@ export function Reports() {
             <Users className="h-4 w-4" />
             {showWorkloadDashboard ? 'Hide' : 'Show'} Workload
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowReportingCalendar(!showReportingCalendar)}
+            className="gap-2"
+          >
+            <CalendarDays className="h-4 w-4" />
+            {showReportingCalendar ? 'Hide' : 'Show'} Calendar
+          </Button>
+          {canManageApprovalChains && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setChainTemplatesOpen(true)}
+              className="gap-2"
+            >
+              <GitBranch className="h-4 w-4" />
+              Approval Chains
+            </Button>
+          )}
+          {canEditReports && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setReportTemplatesOpen(true)}
+              className="gap-2"
+            >
+              <LayoutTemplate className="h-4 w-4" />
+              Report Templates
+            </Button>
+          )}
           <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
             <DialogTrigger asChild>
               {/* <Button variant="secondary" className="gap-2">
@@ -588,6 +631,31 @@ export function Reports() {
               </div>
             </DialogContent>
           </Dialog>
+          {canEditReports && (
+            <Dialog open={builderOpen} onOpenChange={setBuilderOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline" className="gap-2">
+                  <FilePen className="h-4 w-4" />
+                  Write Report
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Write Report from Template</DialogTitle>
+                  <DialogDescription>
+                    KPI values and financial summaries are filled in from project data; the finished report is submitted for approval as a PDF
+                  </DialogDescription>
+                </DialogHeader>
+                <ReportBuilder
+                  projectId={projectId}
+                  onSubmitted={() => {
+                    setBuilderOpen(false);
+                    loadReports();
+                  }}
+                />
+              </DialogContent>
+            </Dialog>
+          )}
           <Dialog open={uploadDialogOpen} onOpenChange={setUploadDialogOpen}>
             <DialogTrigger asChild>
               <Button className="gap-2">
@@ -614,6 +682,28 @@ export function Reports() {
         </div>
       </div>
 
+      <ApprovalChainTemplatesDialog
+        isOpen={chainTemplatesOpen}
+        onClose={() => setChainTemplatesOpen(false)}
+        projectId={projectId}
+      />
+
+      <ReportTemplatesDialog
+        isOpen={reportTemplatesOpen}
+        onClose={() => setReportTemplatesOpen(false)}
+        projectId={projectId}
+        canManageOrganisationTemplates={permissionManager.isGlobalAdmin()}
+      />
+
+      {/* Reporting Calendar */}
+      {showReportingCalendar && (
+        <ReportingCalendar
+          projectId={projectId}
+          reports={reports}
+          canManageSchedule={canEditReports}
+        />
+      )}
+
       {/* Reviewer Workload Dashboard */}
       {showWorkloadDashboard && (
         <ReviewerWorkloadDashboard projectId={projectId} />
@@ -664,7 +754,7 @@ export function Reports() {
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Report Types</SelectItem>
-              {REPORT_TYPES.map((type) => (
+              {namingRegistry.reportTypes.map((type) => (
                 <SelectItem key={type.code} value={type.code}>
                   {type.name}
                 </SelectItem>
@@ -729,7 +819,7 @@ export function Reports() {
               <span className="ml-2">
                 • Filtered by: 
                 {selectedFrequency !== 'all' && <span className="ml-1 font-medium">{selectedFrequency}</span>}
-                {selectedReportType !== 'all' && <span className="ml-1 font-medium">{REPORT_TYPES.find(t => t.code === selectedReportType)?.name}</span>}
+                {selectedReportType !== 'all' && <span className="ml-1 font-medium">{namingRegistry.reportTypes.find(t => t.code === selectedReportType)?.name}</span>}
                 {selectedActivity !== 'all' && <span className="ml-1 font-medium">{activities.find(a => a.id === selectedActivity)?.title || activities.find(a => a.id === selectedActivity)?.name}</span>}
                 {selectedTimeRange !== 'all' && <span className="ml-1 font-medium">{selectedTimeRange}</span>}
               </span>
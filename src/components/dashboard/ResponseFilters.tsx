@@ -0,0 +1,428 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { MultiSelect } from '@/components/ui/multi-select';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ArrowDown, ArrowUp, Bookmark, Filter, Plus, Save, Trash2, X } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { formsApi } from '@/lib/api/formsApi';
+import { getFormLanguageSettings, getLanguageName, isMultilingualForm } from '@/lib/formTranslations';
+import { getEnabledQualityRules } from '@/lib/dataQuality';
+import { createFilter, getActiveFilters, getFilterType } from '@/lib/responseFilters';
+import {
+  Form,
+  ResponseColumnFilter,
+  ResponseSort,
+  ResponseViewQuery,
+  SavedResponseView,
+} from './form-creation-wizard/types';
+
+interface ResponseFiltersProps {
+  projectId: string;
+  form: Form;
+  query: ResponseViewQuery; // Everything currently applied to the table, used when saving a view
+  onQueryChange: (updates: Partial<ResponseViewQuery>) => void;
+  itemsPerPage: number;
+  onApplyView: (view: SavedResponseView) => void;
+}
+
+const UNSORTABLE_TYPES = ['LOCATION', 'LIKERT_SCALE', 'IMAGE_UPLOAD', 'VIDEO_UPLOAD', 'AUDIO_UPLOAD', 'FILE_UPLOAD'];
+
+const DEFAULT_SORT: ResponseSort = { field: 'submittedAt', direction: 'desc' };
+
+const parseNumber = (value: string) => (value.trim() === '' || isNaN(Number(value)) ? undefined : Number(value));
+
+export function ResponseFilters({
+  projectId,
+  form,
+  query,
+  onQueryChange,
+  itemsPerPage,
+  onApplyView,
+}: ResponseFiltersProps) {
+  const [showFilters, setShowFilters] = useState(false);
+  const [savedViews, setSavedViews] = useState<SavedResponseView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string>('');
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [saveAsDefault, setSaveAsDefault] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const defaultViewApplied = useRef(false);
+
+  const questions = useMemo(
+    () => form.sections.flatMap(section => section.questions.map(question => ({ question, sectionTitle: section.title }))),
+    [form]
+  );
+  const filterableQuestions = questions.filter(({ question }) => getFilterType(question) !== null);
+  const sortableQuestions = questions.filter(({ question }) => !UNSORTABLE_TYPES.includes(question.type));
+  const findQuestion = (questionId: string) => questions.find(({ question }) => question.id === questionId)?.question;
+
+  const filters = query.filters || [];
+  const sort = query.sort || DEFAULT_SORT;
+  const activeFilterCount = getActiveFilters(filters).length + (query.submittedBy ? 1 : 0) + (query.source ? 1 : 0) + (query.language ? 1 : 0);
+
+  // Load this user's saved views for the form and apply the default one once
+  useEffect(() => {
+    const loadViews = async () => {
+      try {
+        const views = await formsApi.getResponseViews(projectId, form.id);
+        setSavedViews(views);
+        const defaultView = views.find(view => view.isDefault);
+        if (defaultView && !defaultViewApplied.current) {
+          defaultViewApplied.current = true;
+          setActiveViewId(defaultView.id);
+          onApplyView(defaultView);
+        }
+      } catch (error) {
+        console.error('Failed to load saved response views:', error);
+      }
+    };
+    loadViews();
+  }, [projectId, form.id, onApplyView]);
+
+  const updateFilter = (index: number, updates: Partial<ResponseColumnFilter>) => {
+    onQueryChange({
+      filters: filters.map((filter, i) => (i === index ? { ...filter, ...updates } as ResponseColumnFilter : filter)),
+    });
+  };
+
+  const addFilter = (questionId: string) => {
+    const question = findQuestion(questionId);
+    const filter = question ? createFilter(question) : null;
+    if (filter) onQueryChange({ filters: [...filters, filter] });
+  };
+
+  const removeFilter = (index: number) => {
+    onQueryChange({ filters: filters.filter((_, i) => i !== index) });
+  };
+
+  const clearFilters = () => {
+    onQueryChange({ filters: [], submittedBy: undefined, source: undefined, language: undefined });
+  };
+
+  const handleSortFieldChange = (value: string) => {
+    onQueryChange({
+      sort: value.startsWith('question:')
+        ? { field: 'question', questionId: value.slice('question:'.length), direction: sort.direction }
+        : { field: value as ResponseSort['field'], direction: sort.direction },
+    });
+  };
+
+  const handleSelectView = (viewId: string) => {
+    const view = savedViews.find(v => v.id === viewId);
+    if (!view) return;
+    setActiveViewId(view.id);
+    onApplyView(view);
+  };
+
+  const openSaveDialog = () => {
+    const activeView = savedViews.find(v => v.id === activeViewId);
+    setViewName(activeView?.name || '');
+    setSaveAsDefault(activeView?.isDefault || false);
+    setSaveDialogOpen(true);
+  };
+
+  const handleSaveView = async () => {
+    const name = viewName.trim();
+    if (!name) return;
+
+    setIsSaving(true);
+    try {
+      const payload = {
+        name,
+        query: { ...query, filters: getActiveFilters(query.filters) },
+        itemsPerPage,
+        isDefault: saveAsDefault,
+      };
+      // Saving under an existing name updates that view instead of creating a duplicate
+      const existing = savedViews.find(v => v.name.toLowerCase() === name.toLowerCase());
+      const saved = existing
+        ? await formsApi.updateResponseView(projectId, form.id, existing.id, payload)
+        : await formsApi.createResponseView(projectId, form.id, payload);
+
+      setSavedViews(prev => {
+        const others = prev
+          .filter(v => v.id !== saved.id)
+          .map(v => (saved.isDefault ? { ...v, isDefault: false } : v));
+        return [...others, saved].sort((a, b) => a.name.localeCompare(b.name));
+      });
+      setActiveViewId(saved.id);
+      setSaveDialogOpen(false);
+      toast({
+        title: existing ? 'View Updated' : 'View Saved',
+        description: `"${saved.name}" is available in your saved views for this form.`,
+      });
+    } catch (error) {
+      console.error('Failed to save response view:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save view',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteView = async () => {
+    const view = savedViews.find(v => v.id === activeViewId);
+    if (!view || !confirm(`Delete the saved view "${view.name}"?`)) return;
+
+    try {
+      await formsApi.deleteResponseView(projectId, form.id, view.id);
+      setSavedViews(prev => prev.filter(v => v.id !== view.id));
+      setActiveViewId('');
+    } catch (error) {
+      console.error('Failed to delete response view:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete view',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const renderFilterEditor = (filter: ResponseColumnFilter, index: number) => {
+    const question = findQuestion(filter.questionId);
+    if (!question) return null;
+    const isDateTime = question.type === 'DATETIME';
+
+    return (
+      <div key={`${filter.questionId}-${index}`} className="flex flex-col md:flex-row md:items-center gap-2 p-2 border rounded-md bg-white">
+        <span className="text-sm font-medium md:w-56 truncate" title={question.title}>{question.title}</span>
+
+        {filter.type === 'CHOICE' && (
+          <MultiSelect
+            className="flex-1"
+            options={('options' in question ? question.options : []).map(option => ({ value: String(option.value), label: option.label }))}
+            value={filter.values}
+            onChange={(values) => updateFilter(index, { values })}
+            placeholder="Any value"
+          />
+        )}
+
+        {filter.type === 'NUMBER_RANGE' && (
+          <div className="flex items-center gap-2 flex-1">
+            <Input
+              type="number"
+              placeholder="Min"
+              value={filter.min ?? ''}
+              onChange={(e) => updateFilter(index, { min: parseNumber(e.target.value) })}
+            />
+            <span className="text-gray-400">–</span>
+            <Input
+              type="number"
+              placeholder="Max"
+              value={filter.max ?? ''}
+              onChange={(e) => updateFilter(index, { max: parseNumber(e.target.value) })}
+            />
+          </div>
+        )}
+
+        {filter.type === 'DATE_RANGE' && (
+          <div className="flex items-center gap-2 flex-1">
+            <Input
+              type="date"
+              value={filter.from || ''}
+              onChange={(e) => updateFilter(index, { from: e.target.value || undefined })}
+              title={isDateTime ? 'From (start of day)' : 'From'}
+            />
+            <span className="text-gray-400">–</span>
+            <Input
+              type="date"
+              value={filter.to || ''}
+              onChange={(e) => updateFilter(index, { to: e.target.value || undefined })}
+              title={isDateTime ? 'To (end of day)' : 'To'}
+            />
+          </div>
+        )}
+
+        <Button variant="ghost" size="sm" onClick={() => removeFilter(index)} aria-label="Remove filter">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    );
+  };
+
+  const sortValue = sort.field === 'question' && sort.questionId ? `question:${sort.questionId}` : sort.field;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col lg:flex-row lg:items-center gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant={showFilters ? 'secondary' : 'outline'} onClick={() => setShowFilters(!showFilters)}>
+            <Filter className="w-4 h-4 mr-2" />
+            Filters
+            {activeFilterCount > 0 && <Badge variant="secondary" className="ml-2">{activeFilterCount}</Badge>}
+          </Button>
+
+          <Select value={sortValue} onValueChange={handleSortFieldChange}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder="Sort by" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="submittedAt">Sort: Submitted at</SelectItem>
+              <SelectItem value="startedAt">Sort: Started at</SelectItem>
+              <SelectItem value="respondentEmail">Sort: Respondent</SelectItem>
+              {sortableQuestions.map(({ question }) => (
+                <SelectItem key={question.id} value={`question:${question.id}`}>
+                  Sort: {question.title || 'Untitled question'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => onQueryChange({ sort: { ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' } })}
+            title={sort.direction === 'asc' ? 'Ascending' : 'Descending'}
+          >
+            {sort.direction === 'asc' ? <ArrowUp className="w-4 h-4" /> : <ArrowDown className="w-4 h-4" />}
+          </Button>
+          {getEnabledQualityRules(form).length > 0 && (
+            <div className="flex items-center gap-2 ml-2">
+              <Checkbox
+                id="filter-flagged-only"
+                checked={!!query.flaggedOnly}
+                onCheckedChange={(checked) => onQueryChange({ flaggedOnly: checked === true || undefined })}
+              />
+              <Label htmlFor="filter-flagged-only" className="font-normal whitespace-nowrap">Flagged only</Label>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 lg:ml-auto">
+          <Bookmark className="w-4 h-4 text-gray-500" />
+          <Select value={activeViewId} onValueChange={handleSelectView}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue placeholder={savedViews.length > 0 ? 'Saved views' : 'No saved views'} />
+            </SelectTrigger>
+            <SelectContent>
+              {savedViews.map(view => (
+                <SelectItem key={view.id} value={view.id}>
+                  {view.name}{view.isDefault ? ' (default)' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={openSaveDialog}>
+            <Save className="w-4 h-4 mr-2" />
+            Save View
+          </Button>
+          {activeViewId && (
+            <Button variant="ghost" size="icon" onClick={handleDeleteView} title="Delete saved view">
+              <Trash2 className="w-4 h-4 text-red-600" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {showFilters && (
+        <div className="p-4 bg-gray-50 rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="filter-submitted-by" className="text-xs">Submitted by</Label>
+              <Input
+                id="filter-submitted-by"
+                placeholder="Respondent email or user ID"
+                value={query.submittedBy || ''}
+                onChange={(e) => onQueryChange({ submittedBy: e.target.value || undefined })}
+              />
+            </div>
+            <div>
+              <Label className="text-xs">Source</Label>
+              <Select value={query.source || 'all'} onValueChange={(value) => onQueryChange({ source: value === 'all' ? undefined : value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All sources</SelectItem>
+                  <SelectItem value="direct">Direct link</SelectItem>
+                  <SelectItem value="embed">Embedded form</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {isMultilingualForm(form) && (
+              <div>
+                <Label className="text-xs">Language</Label>
+                <Select value={query.language || 'all'} onValueChange={(value) => onQueryChange({ language: value === 'all' ? undefined : value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All languages</SelectItem>
+                    {getFormLanguageSettings(form).languages.map(code => (
+                      <SelectItem key={code} value={code}>{getLanguageName(code)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {filters.map(renderFilterEditor)}
+
+          <div className="flex items-center gap-2">
+            {filterableQuestions.length > 0 && (
+              <Select value="" onValueChange={addFilter}>
+                <SelectTrigger className="w-[260px]">
+                  <Plus className="w-4 h-4 mr-1" />
+                  <SelectValue placeholder="Add question filter..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {filterableQuestions.map(({ question, sectionTitle }) => (
+                    <SelectItem key={question.id} value={question.id}>
+                      {sectionTitle ? `${sectionTitle} › ` : ''}{question.title || 'Untitled question'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {activeFilterCount > 0 && (
+              <Button variant="ghost" size="sm" onClick={clearFilters}>
+                Clear filters
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Saves the current search, status, date range, filters, sort order and page size. Views are private to your account.
+            </p>
+            <div>
+              <Label htmlFor="view-name">Name</Label>
+              <Input
+                id="view-name"
+                value={viewName}
+                onChange={(e) => setViewName(e.target.value)}
+                placeholder="e.g. Incomplete embed responses"
+                onKeyDown={(e) => e.key === 'Enter' && handleSaveView()}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="view-default" checked={saveAsDefault} onCheckedChange={(checked) => setSaveAsDefault(checked === true)} />
+              <Label htmlFor="view-default" className="text-sm font-normal">Open this view by default</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSaveView} disabled={!viewName.trim() || isSaving}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
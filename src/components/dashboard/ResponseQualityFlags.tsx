@@ -0,0 +1,86 @@
+import React from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Check, RotateCcw, X } from 'lucide-react';
+import { DATA_QUALITY_RULE_TYPES } from '@/lib/dataQuality';
+import { QualityFlagStatus, ResponseQualityFlag } from './form-creation-wizard/types';
+
+interface ResponseQualityFlagsProps {
+  flags: ResponseQualityFlag[];
+  canReview: boolean;
+  onReview: (flag: ResponseQualityFlag, status: QualityFlagStatus) => void;
+}
+
+const STATUS_STYLES: Record<QualityFlagStatus, { className: string; label: string }> = {
+  open: { className: 'bg-amber-100 text-amber-800 border-amber-200', label: 'Needs review' },
+  confirmed: { className: 'bg-red-100 text-red-800 border-red-200', label: 'Confirmed problem' },
+  cleared: { className: 'bg-gray-100 text-gray-600 border-gray-200', label: 'Cleared' },
+};
+
+// Badge summarising a response's data quality flags, with a popover to confirm or clear each one
+export function ResponseQualityFlags({ flags, canReview, onReview }: ResponseQualityFlagsProps) {
+  if (flags.length === 0) return null;
+
+  const open = flags.filter(flag => flag.status === 'open').length;
+  const confirmed = flags.filter(flag => flag.status === 'confirmed').length;
+  const badgeStatus: QualityFlagStatus = confirmed > 0 ? 'confirmed' : open > 0 ? 'open' : 'cleared';
+  const badgeLabel = confirmed > 0 || open > 0
+    ? `${open + confirmed} flag${open + confirmed !== 1 ? 's' : ''}`
+    : 'Cleared';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" className="mt-1 block">
+          <Badge variant="outline" className={`text-[10px] gap-1 ${STATUS_STYLES[badgeStatus].className}`}>
+            <AlertTriangle className="w-3 h-3" />
+            {badgeLabel}
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="px-3 py-2 border-b text-sm font-medium">Data quality</div>
+        <ul className="divide-y max-h-72 overflow-y-auto">
+          {flags.map(flag => (
+            <li key={flag.key} className="px-3 py-2 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-medium">{DATA_QUALITY_RULE_TYPES[flag.type].label}</span>
+                <Badge variant="outline" className={`text-[10px] ${STATUS_STYLES[flag.status].className}`}>
+                  {STATUS_STYLES[flag.status].label}
+                </Badge>
+              </div>
+              <p className="text-xs text-gray-700">{flag.message}</p>
+              {flag.review?.reviewedBy && (
+                <p className="text-[10px] text-gray-500">
+                  Reviewed by {flag.review.reviewedBy} on {new Date(flag.review.reviewedAt).toLocaleDateString()}
+                </p>
+              )}
+              {canReview && (
+                <div className="flex gap-1 pt-1">
+                  {flag.status === 'open' ? (
+                    <>
+                      <Button size="sm" variant="outline" className="h-6 text-xs" onClick={() => onReview(flag, 'confirmed')}>
+                        <Check className="w-3 h-3 mr-1" />
+                        Confirm
+                      </Button>
+                      <Button size="sm" variant="outline" className="h-6 text-xs" onClick={() => onReview(flag, 'cleared')}>
+                        <X className="w-3 h-3 mr-1" />
+                        Clear
+                      </Button>
+                    </>
+                  ) : (
+                    <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={() => onReview(flag, 'open')}>
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      Reopen
+                    </Button>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+}
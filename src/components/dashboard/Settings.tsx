@@ -8,6 +8,7 @@ import { Label } from '@/components/ui/label';
 import { Eye, EyeOff } from 'lucide-react';
 import { authService } from '@/services/authService';
 import { useNotification } from '@/hooks/useNotification';
+import { NamingRegistrySettings } from './NamingRegistrySettings';
 
 export function Settings() {
   const { user } = useAuth();
@@ -228,6 +229,8 @@ export function Settings() {
               <Button variant="outline">View Audit Logs</Button>
             </CardContent>
           </Card>
+          <Separator />
+          <NamingRegistrySettings />
         </>
       )}
     </div>
@@ -1,5 +1,7 @@
 import React from 'react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { FeedbackResolutionDashboard } from './FeedbackResolutionDashboard';
+import { FeedbackTrendAnalytics } from './FeedbackTrendAnalytics';
 
 interface FeedbackAnalyticsProps {
   projectId: string;
@@ -7,5 +9,28 @@ interface FeedbackAnalyticsProps {
 }
 
 export function FeedbackAnalytics({ projectId, projectName = "ICS Organization" }: FeedbackAnalyticsProps) {
-  return <FeedbackResolutionDashboard projectId={projectId} />;
+  return (
+    <Tabs defaultValue="resolution">
+      <div className="max-w-7xl mx-auto px-6 pt-6">
+        <TabsList>
+          <TabsTrigger value="resolution">Resolution</TabsTrigger>
+          <TabsTrigger value="trends">Trends</TabsTrigger>
+        </TabsList>
+      </div>
+      <TabsContent value="resolution">
+        <FeedbackResolutionDashboard projectId={projectId} />
+      </TabsContent>
+      <TabsContent value="trends">
+        <div className="max-w-7xl mx-auto p-6 space-y-6">
+          <div>
+            <h1 className="text-3xl font-bold">Feedback Trends</h1>
+            <p className="text-gray-600 mt-2">
+              See what is being reported where, how quickly it is handled, and which issues keep coming back
+            </p>
+          </div>
+          <FeedbackTrendAnalytics />
+        </div>
+      </TabsContent>
+    </Tabs>
+  );
 }
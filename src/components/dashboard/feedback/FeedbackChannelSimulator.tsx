@@ -0,0 +1,183 @@
+import React, { useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Smartphone, Send, Loader2, RotateCcw } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useFeedback } from '@/contexts/FeedbackContext';
+import { FEEDBACK_CHANNEL_LABELS, FeedbackChannel } from '@/types/feedback';
+import { INTAKE_MENU_TEXT, createLocalChannelStub } from '@/lib/feedbackChannels';
+
+interface FeedbackChannelSimulatorProps {
+  projectId: string;
+}
+
+interface SimulatorLine {
+  id: number;
+  direction: 'INBOUND' | 'OUTBOUND';
+  channel: FeedbackChannel;
+  text: string;
+  payload: unknown;
+}
+
+const SIMULATED_CHANNELS: FeedbackChannel[] = ['SMS', 'USSD', 'WHATSAPP'];
+
+/**
+ * Development page for trying the SMS, USSD and WhatsApp intake without the gateways: messages typed here go through
+ * the webhook adapters and keyword/menu flow that the server's webhook endpoints run, and completed conversations
+ * create submissions on the development backend. Only routed in development builds.
+ */
+export function FeedbackChannelSimulator({ projectId }: FeedbackChannelSimulatorProps) {
+  const { createSubmission } = useFeedback();
+  const [channel, setChannel] = useState<FeedbackChannel>('SMS');
+  const [phone, setPhone] = useState('+254700000001');
+  const [text, setText] = useState('');
+  const [lines, setLines] = useState<SimulatorLine[]>([]);
+  const [sending, setSending] = useState(false);
+  const [showPayloads, setShowPayloads] = useState(false);
+
+  // The stub holds the conversation sessions, so it lives for the whole page rather than one render
+  const createSubmissionRef = useRef(createSubmission);
+  createSubmissionRef.current = createSubmission;
+  const [stub] = useState(() => createLocalChannelStub({
+    projectId,
+    submit: async (payload) => {
+      const created = await createSubmissionRef.current(payload);
+      toast({ title: 'Submission created', description: `${FEEDBACK_CHANNEL_LABELS[payload.channel]} feedback from ${payload.channelContact}` });
+      return created;
+    },
+  }));
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // An empty USSD message is the initial dial; other channels need text
+    if (!phone.trim() || (channel !== 'USSD' && !text.trim())) return;
+    setSending(true);
+    try {
+      const exchanges = await stub.send(channel, phone.trim(), text);
+      setLines(prev => {
+        const next = [...prev];
+        exchanges.forEach(exchange => {
+          next.push({ id: next.length, direction: 'INBOUND', channel, text: text || '(dial)', payload: exchange.inboundPayload });
+          next.push({ id: next.length, direction: 'OUTBOUND', channel, text: exchange.result.reply, payload: exchange.replyPayload });
+        });
+        return next;
+      });
+      setText('');
+    } catch (error) {
+      console.error('Error simulating channel message:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to process the message',
+        variant: 'destructive',
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleReset = () => {
+    stub.reset();
+    setLines([]);
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Smartphone className="w-8 h-8 text-blue-600" />
+          <div>
+            <h1 className="text-2xl font-bold">Channel Simulator</h1>
+            <p className="text-sm text-muted-foreground">
+              Try SMS, USSD and WhatsApp feedback intake against a local gateway stub.
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" onClick={handleReset}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-6">
+          <form onSubmit={handleSend} className="grid grid-cols-1 md:grid-cols-[10rem_12rem_1fr_auto] gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Channel</Label>
+              <Select value={channel} onValueChange={(value) => setChannel(value as FeedbackChannel)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SIMULATED_CHANNELS.map(c => (
+                    <SelectItem key={c} value={c}>{FEEDBACK_CHANNEL_LABELS[c]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="simPhone">Phone number</Label>
+              <Input id="simPhone" value={phone} onChange={(e) => setPhone(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="simText">Message</Label>
+              <Input
+                id="simText"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder={channel === 'USSD' ? 'Leave empty to dial, then enter a choice' : 'e.g. HI, 4, or COMPLAINT the water point is broken'}
+                autoComplete="off"
+              />
+            </div>
+            <Button type="submit" disabled={sending || !phone.trim()}>
+              {sending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+              Send
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between text-lg">
+            Conversation
+            <Button variant="ghost" size="sm" onClick={() => setShowPayloads(!showPayloads)}>
+              {showPayloads ? 'Hide payloads' : 'Show payloads'}
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {lines.length === 0 ? (
+            <div className="text-sm text-muted-foreground space-y-2">
+              <p>Send any message to start. Reporters see this menu:</p>
+              <pre className="p-3 bg-gray-50 rounded whitespace-pre-wrap">{INTAKE_MENU_TEXT}</pre>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {lines.map(line => (
+                <div
+                  key={line.id}
+                  className={`p-3 rounded-lg ${line.direction === 'INBOUND' ? 'bg-gray-50 mr-12' : 'bg-blue-50 ml-12'}`}
+                >
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+                    <Badge variant="outline" className="text-xs">{FEEDBACK_CHANNEL_LABELS[line.channel]}</Badge>
+                    {line.direction === 'INBOUND' ? 'Reporter' : 'ICS Feedback'}
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{line.text}</p>
+                  {showPayloads && (
+                    <pre className="mt-2 p-2 bg-white border rounded text-xs overflow-x-auto">
+                      {typeof line.payload === 'string' ? line.payload : JSON.stringify(line.payload, null, 2)}
+                    </pre>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -19,10 +19,13 @@ import {
   Users,
   MessageSquare,
   BarChart3,
-  Calendar
+  Calendar,
+  ShieldCheck
 } from 'lucide-react';
 import { useFeedback } from '@/contexts/FeedbackContext';
+import { useProjects } from '@/contexts/ProjectsContext';
 import { FeedbackSubmission } from '@/types/feedback';
+import { evaluateSubmissionSla, summarizeSlaCompliance } from '@/lib/feedbackSla';
 import { userManagementService, User } from '@/services/userManagementService';
 
 /** Days lookback, or all time */
@@ -60,7 +63,8 @@ function getDateRangeConfig(filter: DateRangeFilter): {
 }
 
 export function FeedbackResolutionDashboard({ projectId }: FeedbackResolutionDashboardProps) {
-  const { submissions, loading } = useFeedback();
+  const { submissions, forms, loading } = useFeedback();
+  const { projects } = useProjects();
   const [dateRange, setDateRange] = useState<DateRangeFilter>('all');
   const [userMap, setUserMap] = useState<Record<string, string>>({});
 
@@ -78,6 +82,9 @@ export function FeedbackResolutionDashboard({ projectId }: FeedbackResolutionDas
 
   const resolveUserName = (id: string) => userMap[id] ?? id;
 
+  const resolveProjectName = (id: string) =>
+    projects.find(project => project.id === id)?.name ?? (id === 'organization' ? 'ICS Organization' : id);
+
   const isResolvedOrClosed = (sub: FeedbackSubmission) =>
     sub.status === 'RESOLVED' || sub.status === 'CLOSED';
 
@@ -140,12 +147,10 @@ export function FeedbackResolutionDashboard({ projectId }: FeedbackResolutionDas
       ['SUBMITTED', 'ACKNOWLEDGED', 'IN_PROGRESS'].includes(sub.status)
     ).length;
 
-    const overdueCases = subs.filter(sub => {
-      if (!['SUBMITTED', 'ACKNOWLEDGED', 'IN_PROGRESS'].includes(sub.status)) return false;
-      const submittedDate = new Date(sub.submittedAt);
-      const daysSinceSubmission = Math.floor((now.getTime() - submittedDate.getTime()) / (1000 * 60 * 60 * 24));
-      return daysSinceSubmission > 7;
-    }).length;
+    // Overdue: an acknowledgement or closure deadline from the SOP SLA has passed while still open
+    const overdueCases = subs.filter(sub =>
+      evaluateSubmissionSla(sub, now, forms.find(form => form.id === sub.formId)).breaches.length > 0
+    ).length;
 
     const teamWorkload = calculateTeamWorkload(subs);
 
@@ -319,7 +324,11 @@ export function FeedbackResolutionDashboard({ projectId }: FeedbackResolutionDas
 
   const metrics = useMemo(
     () => calculateMetrics(filteredSubmissions, resolvedClosedInDuration),
-    [filteredSubmissions, resolvedClosedInDuration],
+    [filteredSubmissions, resolvedClosedInDuration, forms],
+  );
+  const slaCompliance = useMemo(
+    () => summarizeSlaCompliance(filteredSubmissions, new Date(), forms),
+    [filteredSubmissions, forms],
   );
   const trends = useMemo(
     () =>
@@ -361,6 +370,15 @@ export function FeedbackResolutionDashboard({ projectId }: FeedbackResolutionDas
     }
   };
 
+  const formatCompliance = (compliance: number | null) => (compliance === null ? 'N/A' : `${Math.round(compliance)}%`);
+
+  const getComplianceColor = (compliance: number | null) => {
+    if (compliance === null) return 'text-gray-500';
+    if (compliance >= 90) return 'text-green-600';
+    if (compliance >= 70) return 'text-orange-600';
+    return 'text-red-600';
+  };
+
   const handleExportReport = () => {
     const trendLabel = dateRange === 'all' ? 'Month-over-Month Trends' : 'Period-over-Period Trends';
 
@@ -374,7 +392,7 @@ export function FeedbackResolutionDashboard({ projectId }: FeedbackResolutionDas
       `Resolved / Closed in chosen duration,${metrics.resolvedClosedInDuration}`,
       `Avg Resolution Time,${metrics.averageResolutionTime}`,
       `Active Cases,${metrics.activeCases}`,
-      `Overdue Cases (>7 days),${metrics.overdueCases}`,
+      `Overdue Cases (SLA breached),${metrics.overdueCases}`,
       `Escalated Count,${metrics.escalatedCount}`,
       '',
       trendLabel,
@@ -390,6 +408,12 @@ export function FeedbackResolutionDashboard({ projectId }: FeedbackResolutionDas
       `Closed,${filteredSubmissions.filter(s => s.status === 'CLOSED').length}`,
       `Escalated,${filteredSubmissions.filter(s => s.status === 'ESCALATED').length}`,
       '',
+      'SLA Compliance by Project',
+      'Project,Submissions,Acknowledged On Time %,Closed On Time %,Open Breaches,Escalated',
+      ...slaCompliance.map(row =>
+        `"${resolveProjectName(row.projectId).replace(/"/g, '""')}",${row.total},${formatCompliance(row.acknowledgement.compliance)},${formatCompliance(row.closure.compliance)},${row.openBreaches},${row.escalated}`
+      ),
+      '',
       'Team Workload (active cases)',
       'Team Member,Active Cases',
       ...Object.entries(metrics.teamWorkload)
@@ -397,6 +421,7 @@ export function FeedbackResolutionDashboard({ projectId }: FeedbackResolutionDas
         .map(([memberId, count]) => `"${resolveUserName(memberId)}",${count}`),
       '',
       'All Submissions',
+      // Confidential cases are listed as the server sent them, redacted, so none of their content is exported
       'Title,Status,Priority,Submitted,Completed,Assigned To',
       ...filteredSubmissions
         .sort((a, b) => new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime())
@@ -636,6 +661,64 @@ export function FeedbackResolutionDashboard({ projectId }: FeedbackResolutionDas
         </Card>
       </div>
 
+      {/* SLA Compliance: acknowledgement and closure deadlines met per project */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-green-600" />
+            SLA Compliance by Project
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {slaCompliance.length === 0 ? (
+            <div className="text-center py-6 text-gray-500">
+              <ShieldCheck className="w-8 h-8 mx-auto mb-2 opacity-50" />
+              <p className="text-sm">No submissions in this period.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2 pr-4 font-medium">Project</th>
+                    <th className="py-2 pr-4 font-medium text-right">Submissions</th>
+                    <th className="py-2 pr-4 font-medium text-right">Acknowledged on time</th>
+                    <th className="py-2 pr-4 font-medium text-right">Closed on time</th>
+                    <th className="py-2 pr-4 font-medium text-right">Open breaches</th>
+                    <th className="py-2 font-medium text-right">Escalated</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {slaCompliance.map(row => (
+                    <tr key={row.projectId} className="border-b last:border-0">
+                      <td className="py-2 pr-4 font-medium">{resolveProjectName(row.projectId)}</td>
+                      <td className="py-2 pr-4 text-right">{row.total}</td>
+                      <td className={`py-2 pr-4 text-right ${getComplianceColor(row.acknowledgement.compliance)}`}>
+                        {formatCompliance(row.acknowledgement.compliance)}
+                      </td>
+                      <td className={`py-2 pr-4 text-right ${getComplianceColor(row.closure.compliance)}`}>
+                        {formatCompliance(row.closure.compliance)}
+                        {row.closure.atRisk > 0 && (
+                          <span className="block text-xs text-orange-600">{row.closure.atRisk} due soon</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        {row.openBreaches > 0 ? <Badge variant="destructive">{row.openBreaches}</Badge> : <span className="text-gray-500">0</span>}
+                      </td>
+                      <td className="py-2 text-right">{row.escalated}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500 mt-3">
+                SOP deadlines: acknowledgement within 24h (sensitive) or 72h, closure within 72h (categories 6–7) or 30 days.
+                Missed deadlines escalate Project → Regional → National.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Recent Activity: one row per submission (deduped by id), showing status and relevant date together */}
       <Card>
         <CardHeader>
@@ -5,6 +5,8 @@ import { FeedbackSubmissionInterface } from './FeedbackSubmissionInterface';
 import { FeedbackFormManagement } from './FeedbackFormManagement';
 import { FeedbackSubmissionsView } from './FeedbackSubmissionsView';
 import { FeedbackAnalytics } from './FeedbackAnalytics';
+import { FeedbackTrackingPage } from './FeedbackTrackingPage';
+import { FeedbackChannelSimulator } from './FeedbackChannelSimulator';
 import FeedbackFormDetails from './FeedbackFormDetails';
 import { RequireFeedbackPermission } from './RequireFeedbackPermission';
 
@@ -27,6 +29,7 @@ export function FeedbackRoutes({ projectId, projectName = "ICS Organization" }:
           />
         } 
       />
+      <Route path="track" element={<FeedbackTrackingPage />} />
       <Route element={<RequireFeedbackPermission permission="feedback:manage" />}>
         <Route path="forms/:id" element={<FeedbackFormDetails />} />
         <Route
@@ -35,6 +38,10 @@ export function FeedbackRoutes({ projectId, projectName = "ICS Organization" }:
             <FeedbackFormManagement projectId={projectId} projectName={projectName} />
           }
         />
+        {/* Development builds only: in production the gateways post to the server's webhook endpoints */}
+        {import.meta.env.DEV && (
+          <Route path="channels" element={<FeedbackChannelSimulator projectId={projectId} />} />
+        )}
       </Route>
       <Route element={<RequireFeedbackPermission permission="feedback:read" />}>
         <Route
@@ -1,10 +1,13 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/hooks/use-toast';
 import { 
   ArrowLeft,
   MessageSquare, 
@@ -19,13 +22,19 @@ import {
   AlertCircle,
   FileText,
   Eye,
-  Flag
+  Flag,
+  Lock,
+  Download,
+  Send,
+  Loader2
 } from 'lucide-react';
 import { FeedbackResolutionWorkflow } from './FeedbackResolutionWorkflow';
 import { FeedbackStatusTracker } from './FeedbackStatusTracker';
 import { useFeedback } from '@/contexts/FeedbackContext';
-import { FeedbackSubmission } from '@/types/feedback';
-import { getClosureDueDate, isSensitiveSopCategory, SOP_CATEGORY_LABELS } from '@/types/feedback';
+import { FeedbackAccessLogEntry, FeedbackSubmission } from '@/types/feedback';
+import { FEEDBACK_CHANNEL_LABELS, getClosureDueDate, isSensitiveSopCategory, SOP_CATEGORY_LABELS } from '@/types/feedback';
+import { isConfidentialSubmission } from '@/lib/feedbackConfidentiality';
+import { getReplyChannel } from '@/lib/feedbackChannels';
 
 interface FeedbackSubmissionDetailProps {
   submissionId: string;
@@ -39,7 +48,13 @@ export function FeedbackSubmissionDetail({ submissionId, onBack }: FeedbackSubmi
   const [assignTo, setAssignTo] = useState('');
   const [submission, setSubmission] = useState<FeedbackSubmission | null>(null);
   
-  const { getSubmissionById, loading } = useFeedback();
+  const [reply, setReply] = useState('');
+  const [shareReply, setShareReply] = useState(true);
+  const [sendingReply, setSendingReply] = useState(false);
+  const [accessLog, setAccessLog] = useState<FeedbackAccessLogEntry[]>([]);
+  const [accessLogLoading, setAccessLogLoading] = useState(false);
+  
+  const { getSubmissionById, refreshSubmission, loading, getSubmissionAccessLog, addCommunication, sendChannelReply } = useFeedback();
 
   useEffect(() => {
     if (submissionId) {
@@ -48,6 +63,31 @@ export function FeedbackSubmissionDetail({ submissionId, onBack }: FeedbackSubmi
     }
   }, [submissionId, getSubmissionById]);
 
+  // The list only has confidential cases redacted; the server returns them in full to focal points and logs the view
+  useEffect(() => {
+    if (submissionId) refreshSubmission(submissionId);
+  }, [submissionId, refreshSubmission]);
+
+  // Only focal points get confidential cases unredacted, and only they see who has accessed them
+  const showAccessLog = !!submission && !submission.isRedacted && isConfidentialSubmission(submission);
+
+  const loadAccessLog = useCallback(async () => {
+    setAccessLogLoading(true);
+    try {
+      const entries = await getSubmissionAccessLog(submissionId);
+      setAccessLog([...entries].sort((a, b) => new Date(b.accessedAt).getTime() - new Date(a.accessedAt).getTime()));
+    } catch (error) {
+      console.error('Error loading access log:', error);
+      setAccessLog([]);
+    } finally {
+      setAccessLogLoading(false);
+    }
+  }, [submissionId, getSubmissionAccessLog]);
+
+  useEffect(() => {
+    if (showAccessLog) loadAccessLog();
+  }, [showAccessLog, loadAccessLog]);
+
   // Loading state
   if (loading) {
     return (
@@ -181,6 +221,46 @@ export function FeedbackSubmissionDetail({ submissionId, onBack }: FeedbackSubmi
     }
   };
 
+  // Feedback that came in by SMS, USSD or WhatsApp is answered on the reporter's phone
+  const replyChannel = getReplyChannel(submission.channel);
+  const replyChannelLabel = replyChannel ? FEEDBACK_CHANNEL_LABELS[replyChannel] : null;
+
+  // Shared replies show on the reporter's tracking page as from "ICS Feedback Team", never by name
+  const handleSendReply = async () => {
+    if (!reply.trim()) return;
+    setSendingReply(true);
+    try {
+      if (shareReply && replyChannel) {
+        await sendChannelReply(submission.id, reply.trim());
+      } else {
+        await addCommunication(submission.id, {
+          type: shareReply ? 'PUBLIC_RESPONSE' : 'INTERNAL_NOTE',
+          direction: 'OUTBOUND',
+          content: reply.trim(),
+          isShareable: shareReply,
+        });
+      }
+      setReply('');
+      toast({
+        title: shareReply ? 'Response shared' : 'Message saved',
+        description: !shareReply
+          ? 'Only staff can see this message.'
+          : replyChannelLabel
+            ? `Sent to the reporter by ${replyChannelLabel}.`
+            : 'The reporter can read it with their tracking code.',
+      });
+    } catch (error) {
+      console.error('Error sending response:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to send response',
+        variant: 'destructive',
+      });
+    } finally {
+      setSendingReply(false);
+    }
+  };
+
   const handleStatusUpdate = () => {
     console.log('Updating status to:', newStatus);
     console.log('Resolution note:', resolutionNote);
@@ -218,6 +298,14 @@ export function FeedbackSubmissionDetail({ submissionId, onBack }: FeedbackSubmi
                 {getStatusIcon(displayData.status)}
                 {displayData.status.replace('_', ' ')}
               </Badge>
+              {submission.channel && submission.channel !== 'WEB' && (
+                <Badge variant="outline">Via {FEEDBACK_CHANNEL_LABELS[submission.channel]}</Badge>
+              )}
+              {submission.trackingCode && (
+                <span className="text-sm text-gray-600">
+                  Tracking code: <span className="font-mono">{submission.trackingCode}</span>
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -244,13 +332,26 @@ export function FeedbackSubmissionDetail({ submissionId, onBack }: FeedbackSubmi
 
       {/* Main Content */}
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className={`grid w-full ${showAccessLog ? 'grid-cols-4' : 'grid-cols-3'}`}>
           <TabsTrigger value="details">Details</TabsTrigger>
           <TabsTrigger value="resolution">Resolution</TabsTrigger>
           <TabsTrigger value="history">History</TabsTrigger>
+          {showAccessLog && <TabsTrigger value="access">Access Log</TabsTrigger>}
         </TabsList>
 
         <TabsContent value="details" className="space-y-6">
+          {submission.isRedacted && (
+            <div className="flex items-start gap-3 p-4 border rounded-lg bg-gray-50">
+              <Lock className="w-5 h-5 text-gray-500 mt-0.5 shrink-0" />
+              <div>
+                <p className="font-medium">Confidential case</p>
+                <p className="text-sm text-gray-600">
+                  Safeguarding and code-of-conduct cases can only be opened by the named safeguarding focal points.
+                  The reporter's identity and the case content are redacted.
+                </p>
+              </div>
+            </div>
+          )}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Submission Details */}
             <Card>
@@ -286,22 +387,88 @@ export function FeedbackSubmissionDetail({ submissionId, onBack }: FeedbackSubmi
             </Card>
 
             {/* Form Data */}
+            {!submission.isRedacted && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Form Responses</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {Object.entries(displayData.data).map(([key, value]) => (
+                    <div key={key}>
+                      <label className="text-sm font-medium text-gray-600 capitalize">
+                        {key.replace(/([A-Z])/g, ' $1').trim()}
+                      </label>
+                      <p className="mt-1 text-sm">{String(value)}</p>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          {/* Reporter communication: follow-ups from the tracking page and responses shared back */}
+          {!submission.isRedacted && (
             <Card>
               <CardHeader>
-                <CardTitle>Form Responses</CardTitle>
+                <CardTitle>Reporter Communication</CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                {Object.entries(displayData.data).map(([key, value]) => (
-                  <div key={key}>
-                    <label className="text-sm font-medium text-gray-600 capitalize">
-                      {key.replace(/([A-Z])/g, ' $1').trim()}
-                    </label>
-                    <p className="mt-1 text-sm">{String(value)}</p>
+                {displayData.communications.length === 0 ? (
+                  <p className="text-sm text-gray-500">No messages with the reporter yet.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {[...displayData.communications]
+                      .sort((a, b) => new Date(a.sentAt).getTime() - new Date(b.sentAt).getTime())
+                      .map(communication => (
+                        <div
+                          key={communication.id}
+                          className={`p-3 border rounded-lg ${communication.direction === 'INBOUND' ? 'bg-gray-50' : 'bg-blue-50'}`}
+                        >
+                          <div className="flex items-center gap-2 mb-1 flex-wrap">
+                            <span className="text-sm font-medium">
+                              {communication.direction === 'INBOUND' ? 'Reporter' : (communication.sentBy || 'Staff')}
+                            </span>
+                            {communication.type === 'FOLLOW_UP' && <Badge variant="outline" className="text-xs">Follow-up</Badge>}
+                            {(communication.type === 'SMS' || communication.type === 'WHATSAPP') && (
+                              <Badge variant="outline" className="text-xs">{FEEDBACK_CHANNEL_LABELS[communication.type]}</Badge>
+                            )}
+                            {communication.direction === 'OUTBOUND' && (
+                              <Badge variant={communication.isShareable ? 'default' : 'secondary'} className="text-xs">
+                                {communication.isShareable ? 'Shared with reporter' : 'Staff only'}
+                              </Badge>
+                            )}
+                            <span className="text-xs text-gray-500">{new Date(communication.sentAt).toLocaleString()}</span>
+                          </div>
+                          <p className="text-sm whitespace-pre-wrap">{communication.content}</p>
+                        </div>
+                      ))}
+                  </div>
+                )}
+                <div className="space-y-2 pt-2 border-t">
+                  <Textarea
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                    placeholder="Write a response..."
+                    rows={3}
+                  />
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-2">
+                      <Switch id="shareReply" checked={shareReply} onCheckedChange={setShareReply} />
+                      <Label htmlFor="shareReply" className="text-sm">
+                        {replyChannelLabel
+                          ? `Send to reporter by ${replyChannelLabel}`
+                          : `Share with reporter${submission.trackingCode ? '' : ' (no tracking code on this case)'}`}
+                      </Label>
+                    </div>
+                    <Button size="sm" onClick={handleSendReply} disabled={sendingReply || !reply.trim()}>
+                      {sendingReply ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+                      Send
+                    </Button>
                   </div>
-                ))}
+                </div>
               </CardContent>
             </Card>
-          </div>
+          )}
 
           {/* Attachments */}
           {displayData.attachments.length > 0 && (
@@ -472,6 +639,51 @@ export function FeedbackSubmissionDetail({ submissionId, onBack }: FeedbackSubmi
             </Card>
           )}
         </TabsContent>
+
+        {showAccessLog && (
+          <TabsContent value="access" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Lock className="w-5 h-5 text-red-600" />
+                  Access Log
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-gray-500 mb-4">
+                  Every view and export of this confidential case is recorded. Entries cannot be edited or removed.
+                </p>
+                {accessLogLoading ? (
+                  <p className="text-sm text-gray-500">Loading access log...</p>
+                ) : accessLog.length === 0 ? (
+                  <p className="text-sm text-gray-500">No access recorded yet.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {accessLog.map(entry => (
+                      <div key={entry.id} className="flex items-center justify-between p-3 border rounded-lg">
+                        <div className="flex items-center gap-3 min-w-0">
+                          <div className="p-2 bg-gray-100 rounded-full shrink-0">
+                            {entry.action === 'EXPORT' ? <Download className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                          </div>
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">{entry.userName || entry.userId}</p>
+                            {entry.details && <p className="text-xs text-gray-500 truncate">{entry.details}</p>}
+                          </div>
+                        </div>
+                        <div className="text-right shrink-0">
+                          <Badge variant={entry.action === 'EXPORT' ? 'destructive' : 'secondary'}>
+                            {entry.action === 'EXPORT' ? 'Exported' : 'Viewed'}
+                          </Badge>
+                          <p className="text-xs text-gray-500 mt-1">{new Date(entry.accessedAt).toLocaleString()}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
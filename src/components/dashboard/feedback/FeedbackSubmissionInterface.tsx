@@ -10,7 +10,11 @@ import {
   MapPin,
   Clock,
   Share2,
+  CheckCircle,
+  Copy,
+  Search,
 } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { toast } from '@/hooks/use-toast';
 import { FeedbackComplaintForm } from './forms/FeedbackComplaintForm';
 import { useFeedback } from '@/contexts/FeedbackContext';
@@ -22,6 +26,12 @@ import {
   type SopCategory,
 } from '@/types/feedback';
 
+interface SubmissionReceipt {
+  trackingCode: string;
+  hasPin: boolean;
+  closureNote: string;
+}
+
 interface FeedbackSubmissionInterfaceProps {
   projectId: string;
   projectName?: string;
@@ -32,6 +42,7 @@ export function FeedbackSubmissionInterface({
   projectName = 'ICS Program',
 }: FeedbackSubmissionInterfaceProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [receipt, setReceipt] = useState<SubmissionReceipt | null>(null);
   const [publicProjects, setPublicProjects] = useState<{ id: string; name: string }[]>([]);
   const { forms, categories, createSubmission } = useFeedback();
   const projectsContext = useOptionalProjects();
@@ -89,6 +100,7 @@ export function FeedbackSubmissionInterface({
       const form = forms.find((f) => f.category?.id === categoryId) || forms[0];
       const isSensitive = isSensitiveSopCategory(categoryNum);
       const submissionProjectId = (formData.projectId as string) || projectId;
+      const trackingPin = (formData.trackingPin as string) || undefined;
 
       const submissionData = {
         formId: form?.id || 'general_feedback_form',
@@ -118,9 +130,21 @@ export function FeedbackSubmissionInterface({
         submitterName: (formData.name as string)?.trim() || undefined,
         submitterEmail: undefined,
         stakeholderType: formData.isCommunityFacilitator === true ? 'community_facilitator' : undefined,
+        channel: 'WEB',
+        trackingPin, // The backend stores only a hash of it
       };
 
-      await createSubmission(submissionData);
+      const created = await createSubmission(submissionData);
+      // The backend generates the tracking code. Without one the reporter cannot follow the case, but the feedback
+      // is saved, so they are told not to submit it again
+      if (!created?.trackingCode) {
+        toast({
+          title: 'No tracking code',
+          description: 'Your feedback has been received, but no tracking code was issued for it. Please do not submit it again; contact the team to follow up.',
+          variant: 'destructive',
+        });
+        return;
+      }
 
       const closureNote = isSensitive
         ? 'Sensitive feedback is handled within 72 hours per ICS SOP.'
@@ -129,6 +153,11 @@ export function FeedbackSubmissionInterface({
         title: 'Thank you',
         description: `Your feedback has been received and will be reviewed. ${closureNote}`,
       });
+      setReceipt({
+        trackingCode: created.trackingCode,
+        hasPin: !!trackingPin,
+        closureNote,
+      });
     } catch (error) {
       console.error('Error submitting feedback:', error);
       toast({
@@ -141,6 +170,20 @@ export function FeedbackSubmissionInterface({
     }
   };
 
+  const handleCopyCode = async () => {
+    if (!receipt) return;
+    try {
+      await navigator.clipboard.writeText(receipt.trackingCode);
+      toast({ title: 'Code Copied!', description: 'Tracking code copied to clipboard.' });
+    } catch {
+      toast({
+        title: 'Copy Failed',
+        description: 'Please write the code down instead.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   return (
     <div className="max-w-3xl mx-auto p-6 space-y-6">
       <div className="flex items-center justify-between gap-3">
@@ -159,21 +202,58 @@ export function FeedbackSubmissionInterface({
 
       
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Record your complaint or feedback</CardTitle>
-          <p className="text-sm text-muted-foreground">
-            All fields except description and category are optional. Location and project help us route your feedback.
-          </p>
-        </CardHeader>
-        <CardContent>
-          <FeedbackComplaintForm
-            onSubmit={handleFormSubmit}
-            isSubmitting={isSubmitting}
-            projects={projectOptions}
-          />
-        </CardContent>
-      </Card>
+      {receipt ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              Feedback received
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">{receipt.closureNote}</p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="p-4 bg-blue-50 rounded-lg text-center space-y-2">
+              <p className="text-sm text-muted-foreground">Your tracking code</p>
+              <p className="text-2xl font-mono font-bold tracking-wider">{receipt.trackingCode}</p>
+              <Button variant="outline" size="sm" onClick={handleCopyCode}>
+                <Copy className="w-4 h-4 mr-2" />
+                Copy code
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Keep this code{receipt.hasPin ? ' and your PIN' : ''} safe. Use {receipt.hasPin ? 'them' : 'it'} on the tracking page to
+              see progress, read responses from the team and add more information, without creating an account.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button asChild>
+                <Link to="/feedback/track">
+                  <Search className="w-4 h-4 mr-2" />
+                  Track your feedback
+                </Link>
+              </Button>
+              <Button variant="outline" onClick={() => setReceipt(null)}>
+                Submit another
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Record your complaint or feedback</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              All fields except description and category are optional. Location and project help us route your feedback.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <FeedbackComplaintForm
+              onSubmit={handleFormSubmit}
+              isSubmitting={isSubmitting}
+              projects={projectOptions}
+            />
+          </CardContent>
+        </Card>
+      )}
 
       <Card>
         <CardHeader>
@@ -27,16 +27,55 @@ import {
   CheckCircle,
   XCircle,
   AlertCircle,
+  Lock,
+  ShieldAlert,
 } from 'lucide-react';
 import { FeedbackSubmissionDetail } from './FeedbackSubmissionDetail';
+import { SafeguardingFocalPointsDialog } from './SafeguardingFocalPointsDialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { createEnhancedPermissionManager } from '@/lib/permissions';
+import { isConfidentialSubmission } from '@/lib/feedbackConfidentiality';
 import {
   getClosureDueDate,
   isSensitiveSopCategory,
   isProgrammaticSopCategory,
   isOverdueForClosure,
   SOP_CATEGORY_LABELS,
+  type FeedbackSubmission,
   type SopCategory,
 } from '@/types/feedback';
+import { toast } from '@/hooks/use-toast';
+
+// List row for a submission; confidential cases arrive redacted unless fetched in full
+const toSubmissionRow = (submission: FeedbackSubmission) => {
+  const sopCat = submission.category?.sopCategory;
+  const due = getClosureDueDate(
+    submission.submittedAt,
+    sopCat,
+    submission.category?.closureDeadlineHours
+  );
+  return {
+    id: submission.id,
+    title: submission.data?.title || 'Feedback Submission',
+    type: submission.category?.name || 'General',
+    priority: submission.priority,
+    status: submission.status,
+    submitter: submission.isAnonymous ? 'Anonymous' : (submission.submitterName || 'Unknown'),
+    submitterEmail: submission.submitterEmail,
+    stakeholderType: submission.stakeholderType,
+    isAnonymous: submission.isAnonymous,
+    submittedAt: submission.submittedAt,
+    assignedTo: submission.assignedTo,
+    description: submission.data?.description || submission.data?.feedback || submission.data?.details || 'No description provided',
+    sopCategory: sopCat,
+    closureDueDate: due,
+    isSensitive: isSensitiveSopCategory(sopCat),
+    isProgrammatic: isProgrammaticSopCategory(sopCat),
+    isOverdue: isOverdueForClosure(submission.status, due),
+    isConfidential: isConfidentialSubmission(submission),
+    isRedacted: !!submission.isRedacted,
+  };
+};
 
 interface FeedbackSubmissionsViewProps {
   projectId: string;
@@ -49,8 +88,11 @@ export function FeedbackSubmissionsView({ projectId, projectName = "ICS Organiza
   const [priorityFilter, setPriorityFilter] = useState('all');
   const [sopFilter, setSopFilter] = useState<string>('all'); // 'all' | 'sensitive' | 'programmatic' | '1'..'8'
   const [selectedSubmission, setSelectedSubmission] = useState<string | null>(null);
+  const [focalPointsOpen, setFocalPointsOpen] = useState(false);
   
-  const { submissions, loading, updateSubmissionStatus, refreshSubmissions } = useFeedback();
+  const { submissions, loading, updateSubmissionStatus, refreshSubmissions, isFocalPoint, exportSubmissions } = useFeedback();
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const isGlobalAdmin = createEnhancedPermissionManager({ user, isAuthenticated, isLoading: authLoading }).isGlobalAdmin();
 
   // Fetch submissions when component mounts
   useEffect(() => {
@@ -58,35 +100,7 @@ export function FeedbackSubmissionsView({ projectId, projectName = "ICS Organiza
   }, [refreshSubmissions]);
 
   // Memoized transformation of submissions to prevent recalculation on every render
-  const transformedSubmissions = useMemo(() => {
-    return submissions.map(submission => {
-      const sopCat = submission.category?.sopCategory;
-      const due = getClosureDueDate(
-        submission.submittedAt,
-        sopCat,
-        submission.category?.closureDeadlineHours
-      );
-      return {
-        id: submission.id,
-        title: submission.data?.title || 'Feedback Submission',
-        type: submission.category?.name || 'General',
-        priority: submission.priority,
-        status: submission.status,
-        submitter: submission.isAnonymous ? 'Anonymous' : (submission.submitterName || 'Unknown'),
-        submitterEmail: submission.submitterEmail,
-        stakeholderType: submission.stakeholderType,
-        isAnonymous: submission.isAnonymous,
-        submittedAt: submission.submittedAt,
-        assignedTo: submission.assignedTo,
-        description: submission.data?.description || submission.data?.feedback || submission.data?.details || 'No description provided',
-        sopCategory: sopCat,
-        closureDueDate: due,
-        isSensitive: isSensitiveSopCategory(sopCat),
-        isProgrammatic: isProgrammaticSopCategory(sopCat),
-        isOverdue: isOverdueForClosure(submission.status, due),
-      };
-    });
-  }, [submissions]);
+  const transformedSubmissions = useMemo(() => submissions.map(toSubmissionRow), [submissions]);
 
 
   // Memoized utility functions
@@ -187,9 +201,44 @@ export function FeedbackSubmissionsView({ projectId, projectName = "ICS Organiza
     setSelectedSubmission(null);
   }, []);
 
-  const handleExportSubmissions = useCallback(() => {
-    console.log('Export submissions');
-  }, []);
+  // The server returns the cases in full to focal points and logs the export of each confidential one
+  const handleExportSubmissions = useCallback(async () => {
+    let exported: FeedbackSubmission[];
+    try {
+      exported = await exportSubmissions(filteredSubmissions.map(s => s.id), 'Submissions list CSV export');
+    } catch (error) {
+      console.error('Error exporting submissions:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to export submissions',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+    const rows = [
+      'Title,Description,SOP Category,Priority,Status,Submitter,Submitted,Due By,Assigned To',
+      ...exported.map(toSubmissionRow).map(s => [
+        escape(s.title),
+        escape(s.description),
+        s.sopCategory ?? '',
+        s.priority,
+        s.status,
+        escape(s.isAnonymous ? 'Anonymous' : s.submitter),
+        new Date(s.submittedAt).toISOString(),
+        s.closureDueDate ? s.closureDueDate.toISOString() : '',
+        escape(s.assignedTo || ''),
+      ].join(',')),
+    ];
+    const blob = new Blob([rows.join('\r\n')], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `feedback-submissions-${new Date().toISOString().slice(0, 10)}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }, [filteredSubmissions, exportSubmissions]);
 
   // Show detailed view if a submission is selected
   if (selectedSubmission) {
@@ -224,12 +273,29 @@ export function FeedbackSubmissionsView({ projectId, projectName = "ICS Organiza
             View and manage feedback submissions for {projectName}. Categorized by ICS SOP: sensitive (6–7) close within 72 hours; categories 1–5 close within 30 days.
           </p>
         </div>
-        <Button onClick={handleExportSubmissions} variant="outline" className="flex items-center gap-2">
-          <Download className="w-4 h-4" />
-          Export
-        </Button>
+        <div className="flex items-center gap-2">
+          {isGlobalAdmin && (
+            <Button onClick={() => setFocalPointsOpen(true)} variant="outline" className="flex items-center gap-2">
+              <ShieldAlert className="w-4 h-4" />
+              Focal Points
+            </Button>
+          )}
+          <Button onClick={handleExportSubmissions} variant="outline" className="flex items-center gap-2">
+            <Download className="w-4 h-4" />
+            Export
+          </Button>
+        </div>
       </div>
 
+      {allSubmissions.some(s => s.isRedacted) && (
+        <div className="flex items-center gap-2 p-3 text-sm text-gray-700 bg-gray-50 border rounded-lg">
+          <Lock className="w-4 h-4 text-gray-500 shrink-0" />
+          {isFocalPoint
+            ? 'Confidential cases are redacted in this list; opening or exporting one is recorded in its access log.'
+            : 'Safeguarding and code-of-conduct cases are restricted to safeguarding focal points; their reporter and content are redacted.'}
+        </div>
+      )}
+
       {/* SOP-aligned Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
         <Card>
@@ -406,7 +472,10 @@ export function FeedbackSubmissionsView({ projectId, projectName = "ICS Organiza
                   >
                     <TableCell>
                       <div>
-                        <p className="font-medium line-clamp-1">{submission.title}</p>
+                        <p className="font-medium line-clamp-1">
+                          {submission.isConfidential && <Lock className="inline w-3.5 h-3.5 mr-1 -mt-0.5 text-red-600" />}
+                          {submission.title}
+                        </p>
                         <p className="text-muted-foreground text-xs line-clamp-2 mt-0.5">
                           {submission.description}
                         </p>
@@ -489,6 +558,8 @@ export function FeedbackSubmissionsView({ projectId, projectName = "ICS Organiza
           )}
         </CardContent>
       </Card>
+
+      <SafeguardingFocalPointsDialog isOpen={focalPointsOpen} onClose={() => setFocalPointsOpen(false)} />
     </div>
   );
 }
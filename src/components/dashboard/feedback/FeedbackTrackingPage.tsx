@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Search, Loader2, MessageSquare, Send, User, Users } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { feedbackApi } from '@/services/feedbackApi';
+import { TrackedFeedbackCase } from '@/types/feedback';
+import {
+  PUBLIC_STATUS_LABELS,
+  TRACKING_PIN_PATTERN,
+  isValidTrackingCode,
+  normalizeTrackingCode,
+  toPublicTrackedCase,
+} from '@/lib/feedbackTracking';
+
+/** Public page where a reporter enters their tracking code (and PIN) to follow their case. */
+export function FeedbackTrackingPage() {
+  const [code, setCode] = useState('');
+  const [pin, setPin] = useState('');
+  const [trackedCase, setTrackedCase] = useState<TrackedFeedbackCase | null>(null);
+  const [lookupError, setLookupError] = useState<string | null>(null);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [followUp, setFollowUp] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const lookup = async (trackingCode: string) => {
+    const response = await feedbackApi.trackSubmission(trackingCode, pin || undefined);
+    setTrackedCase(toPublicTrackedCase(response as TrackedFeedbackCase));
+  };
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trackingCode = normalizeTrackingCode(code);
+    if (!isValidTrackingCode(trackingCode)) {
+      setLookupError('Please enter the tracking code you were given, e.g. ICS-7KX4-P9QM.');
+      return;
+    }
+    if (pin && !TRACKING_PIN_PATTERN.test(pin)) {
+      setLookupError('PIN must be 4 to 6 digits.');
+      return;
+    }
+
+    setCode(trackingCode);
+    setLookupError(null);
+    setIsLookingUp(true);
+    try {
+      await lookup(trackingCode);
+    } catch (error) {
+      console.error('Error looking up tracking code:', error);
+      // Same message for unknown codes and wrong PINs, so codes cannot be probed
+      setTrackedCase(null);
+      setLookupError('No feedback was found for this code and PIN. Please check them and try again.');
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const handleSendFollowUp = async () => {
+    if (!trackedCase || !followUp.trim()) return;
+    setIsSending(true);
+    try {
+      await feedbackApi.addTrackingFollowUp(trackedCase.trackingCode, { pin: pin || undefined, content: followUp.trim() });
+      setFollowUp('');
+      toast({ title: 'Information added', description: 'The team will see your message on the same case.' });
+      await lookup(trackedCase.trackingCode);
+    } catch (error) {
+      console.error('Error adding follow-up:', error);
+      toast({
+        title: 'Could not send',
+        description: 'There was an error adding your information. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const status = trackedCase ? PUBLIC_STATUS_LABELS[trackedCase.status] : null;
+
+  return (
+    <div className="max-w-3xl mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <Search className="w-8 h-8 text-blue-600" />
+        <div>
+          <h1 className="text-2xl font-bold">Track your feedback</h1>
+          <p className="text-sm text-muted-foreground">Enter the tracking code you received when you submitted feedback.</p>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-6">
+          <form onSubmit={handleLookup} className="grid grid-cols-1 md:grid-cols-[1fr_10rem_auto] gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="trackingCode">Tracking code</Label>
+              <Input
+                id="trackingCode"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="ICS-XXXX-XXXX"
+                autoComplete="off"
+                className="font-mono uppercase"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trackingPin">PIN (if you set one)</Label>
+              <Input
+                id="trackingPin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                maxLength={6}
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              />
+            </div>
+            <Button type="submit" disabled={isLookingUp || !code.trim()}>
+              {isLookingUp ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Search className="w-4 h-4 mr-2" />}
+              Check status
+            </Button>
+          </form>
+          {lookupError && <p className="text-sm text-red-600 mt-3">{lookupError}</p>}
+        </CardContent>
+      </Card>
+
+      {trackedCase && status && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between gap-2 flex-wrap">
+                <span className="font-mono">{trackedCase.trackingCode}</span>
+                <Badge variant={trackedCase.status === 'RESOLVED' || trackedCase.status === 'CLOSED' ? 'default' : 'secondary'}>
+                  {status.label}
+                </Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              <p>{status.description}</p>
+              {trackedCase.categoryName && (
+                <p className="text-muted-foreground">Category: {trackedCase.categoryName}</p>
+              )}
+              <p className="text-muted-foreground">
+                Submitted {new Date(trackedCase.submittedAt).toLocaleDateString()} · Last updated {new Date(trackedCase.updatedAt).toLocaleDateString()}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <MessageSquare className="w-5 h-5" />
+                Messages
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {trackedCase.messages.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No messages yet. Responses from the team will appear here.</p>
+              ) : (
+                <div className="space-y-3">
+                  {trackedCase.messages.map(message => (
+                    <div
+                      key={message.id}
+                      className={`p-3 rounded-lg ${message.direction === 'INBOUND' ? 'bg-gray-50 ml-8' : 'bg-blue-50 mr-8'}`}
+                    >
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+                        {message.direction === 'INBOUND' ? <User className="w-3 h-3" /> : <Users className="w-3 h-3" />}
+                        {message.direction === 'INBOUND' ? 'You' : 'ICS Feedback Team'}
+                        <span>· {new Date(message.sentAt).toLocaleString()}</span>
+                      </div>
+                      <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-2 pt-2 border-t">
+                <Label htmlFor="followUp">Add information to this case</Label>
+                <Textarea
+                  id="followUp"
+                  value={followUp}
+                  onChange={(e) => setFollowUp(e.target.value)}
+                  placeholder="Anything new the team should know..."
+                  rows={3}
+                />
+                <div className="flex justify-end">
+                  <Button onClick={handleSendFollowUp} disabled={isSending || !followUp.trim()}>
+                    {isSending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+                    Send
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Calendar, TrendingUp, TrendingDown, Minus, MapPin, Timer, Repeat } from 'lucide-react';
+import { StackedBarChart } from '@/components/visualizations/StackedBarChart';
+import { MultiLineChart } from '@/components/visualizations/MultiLineChart';
+import { useFeedback } from '@/contexts/FeedbackContext';
+import { SOP_CATEGORY_LABELS } from '@/types/feedback';
+import {
+  LocationLevel,
+  TrendDimension,
+  buildLocationCategoryHeatmap,
+  buildResponseTimeTrend,
+  buildSubmissionTrends,
+  buildTrendBuckets,
+  findRecurringIssues,
+  getTrendRange,
+  toStackedChartData,
+} from '@/lib/feedbackTrends';
+
+type TrendPeriod = 'all' | '90' | '180' | '365';
+
+const SERIES_COLORS = ['#3B82F6', '#14B8A6', '#F97316', '#EF4444', '#8B5CF6', '#EAB308', '#EC4899', '#64748B'];
+
+const DIMENSION_LABELS: Record<TrendDimension, string> = {
+  sopCategory: 'SOP category',
+  priority: 'Priority',
+  location: 'Location',
+};
+
+const LOCATION_LEVEL_LABELS: Record<LocationLevel, string> = {
+  county: 'County',
+  subCounty: 'Sub county',
+  village: 'Village',
+};
+
+const toDays = (hours: number | null) => (hours === null ? null : Math.round((hours / 24) * 10) / 10);
+
+/** Trends over time: what is being reported where, how fast it is handled, and which issues keep coming back. */
+export function FeedbackTrendAnalytics() {
+  const { submissions } = useFeedback();
+  const [period, setPeriod] = useState<TrendPeriod>('180');
+  const [dimension, setDimension] = useState<TrendDimension>('sopCategory');
+  const [locationLevel, setLocationLevel] = useState<LocationLevel>('county');
+
+  const range = useMemo(() => {
+    const from = period === 'all' ? null : new Date(Date.now() - parseInt(period, 10) * 24 * 60 * 60 * 1000);
+    return getTrendRange(submissions, from);
+  }, [submissions, period]);
+
+  const periodSubmissions = useMemo(
+    () => submissions.filter(sub => new Date(sub.submittedAt) >= range.from),
+    [submissions, range]
+  );
+
+  const buckets = useMemo(() => buildTrendBuckets(range.from, range.to, range.granularity), [range]);
+
+  const trends = useMemo(
+    () => buildSubmissionTrends(periodSubmissions, buckets, dimension, { locationLevel }),
+    [periodSubmissions, buckets, dimension, locationLevel]
+  );
+
+  const heatmap = useMemo(
+    () => buildLocationCategoryHeatmap(periodSubmissions, locationLevel),
+    [periodSubmissions, locationLevel]
+  );
+
+  const responseTimes = useMemo(() => buildResponseTimeTrend(periodSubmissions, buckets), [periodSubmissions, buckets]);
+
+  const recurringIssues = useMemo(
+    () => findRecurringIssues(periodSubmissions, { locationLevel }),
+    [periodSubmissions, locationLevel]
+  );
+
+  const responseTimeData = responseTimes.map(point => ({
+    name: point.bucket.label,
+    'Median days to acknowledge': toDays(point.medianAcknowledgeHours),
+    'Median days to close': toDays(point.medianCloseHours),
+  }));
+
+  const getChangeBadge = (change: number | null) => {
+    if (change === null) return null;
+    if (Math.abs(change) < 1) {
+      return <span className="flex items-center gap-1 text-xs text-gray-500"><Minus className="w-3 h-3" />0%</span>;
+    }
+    return change > 0 ? (
+      <span className="flex items-center gap-1 text-xs text-red-600"><TrendingUp className="w-3 h-3" />+{Math.round(change)}%</span>
+    ) : (
+      <span className="flex items-center gap-1 text-xs text-green-600"><TrendingDown className="w-3 h-3" />{Math.round(change)}%</span>
+    );
+  };
+
+  const periodName = range.granularity === 'month' ? 'month' : 'week';
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="flex items-center justify-end gap-2 flex-wrap">
+        <Select value={dimension} onValueChange={(v) => setDimension(v as TrendDimension)}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(DIMENSION_LABELS) as TrendDimension[]).map(key => (
+              <SelectItem key={key} value={key}>By {DIMENSION_LABELS[key].toLowerCase()}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={locationLevel} onValueChange={(v) => setLocationLevel(v as LocationLevel)}>
+          <SelectTrigger className="w-[160px]">
+            <MapPin className="w-4 h-4 mr-2" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(LOCATION_LEVEL_LABELS) as LocationLevel[]).map(key => (
+              <SelectItem key={key} value={key}>{LOCATION_LEVEL_LABELS[key]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={period} onValueChange={(v) => setPeriod(v as TrendPeriod)}>
+          <SelectTrigger className="w-[180px]">
+            <Calendar className="w-4 h-4 mr-2" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="90">Last 90 days</SelectItem>
+            <SelectItem value="180">Last 180 days</SelectItem>
+            <SelectItem value="365">Last 365 days</SelectItem>
+            <SelectItem value="all">All time</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Submissions over time */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Submissions per {periodName} by {DIMENSION_LABELS[dimension].toLowerCase()}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {periodSubmissions.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">No submissions in this period.</p>
+          ) : (
+            <>
+              <StackedBarChart data={toStackedChartData(trends)} colors={SERIES_COLORS} />
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+                {trends.series.map(series => (
+                  <div key={series.key} className="flex items-center justify-between p-2 border rounded">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate" title={series.label}>{series.label}</p>
+                      <p className="text-xs text-gray-500">{series.total} total</p>
+                    </div>
+                    {getChangeBadge(series.change)}
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">
+                Change compares the last complete {periodName} with the one before it.
+              </p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Location × category heatmap */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapPin className="w-5 h-5" />
+            {LOCATION_LEVEL_LABELS[locationLevel]} × SOP category
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {heatmap.locations.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">No categorised submissions in this period.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-gray-600">
+                    <th className="py-2 pr-4 font-medium text-left">{LOCATION_LEVEL_LABELS[locationLevel]}</th>
+                    {heatmap.categories.map(category => (
+                      <th key={category} className="py-2 px-2 font-medium text-center" title={SOP_CATEGORY_LABELS[category]}>
+                        SOP {category}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {heatmap.locations.map(location => (
+                    <tr key={location} className="border-b last:border-0">
+                      <td className="py-2 pr-4 font-medium">{location}</td>
+                      {heatmap.categories.map(category => {
+                        const count = heatmap.counts[location]?.[category] || 0;
+                        const intensity = heatmap.max > 0 ? count / heatmap.max : 0;
+                        return (
+                          <td key={category} className="p-1 text-center">
+                            <div
+                              className={`rounded py-1 ${intensity > 0.6 ? 'text-white' : 'text-gray-800'}`}
+                              style={{ backgroundColor: count > 0 ? `rgba(239, 68, 68, ${0.1 + intensity * 0.8})` : undefined }}
+                              title={`${location}: ${count} × ${SOP_CATEGORY_LABELS[category]}`}
+                            >
+                              {count || <span className="text-gray-300">0</span>}
+                            </div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500 mt-3">
+                Locations come from the complaint form; confidential cases you cannot open count as Unspecified.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Response times */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Timer className="w-5 h-5" />
+            Median response times
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {responseTimes.every(point => point.acknowledged === 0 && point.closed === 0) ? (
+            <p className="text-sm text-gray-500 text-center py-6">No acknowledged or closed submissions in this period.</p>
+          ) : (
+            <>
+              <MultiLineChart data={responseTimeData} colors={['#3B82F6', '#14B8A6']} unit="d" />
+              <p className="text-xs text-gray-500 mt-3">
+                By the {periodName} the feedback was received. Cases still open are not included until they are acknowledged or closed.
+              </p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Recurring issues */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Repeat className="w-5 h-5" />
+            Recurring issues
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {recurringIssues.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">
+              No issue has been reported three or more times with similar wording in this period.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {recurringIssues.map(issue => (
+                <div key={issue.id} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex items-center justify-between gap-2 flex-wrap">
+                    <div className="flex items-center gap-1 flex-wrap">
+                      {issue.terms.map(term => (
+                        <Badge key={term} variant="secondary">{term}</Badge>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{issue.count} reports</Badge>
+                      {issue.recentCount > 0 && (
+                        <Badge variant={issue.recentCount >= 3 ? 'destructive' : 'default'}>{issue.recentCount} in last 30 days</Badge>
+                      )}
+                    </div>
+                  </div>
+                  <p className="text-sm text-gray-700 line-clamp-2">“{issue.exampleDescription}”</p>
+                  <div className="flex items-center gap-4 text-xs text-gray-500 flex-wrap">
+                    <span>
+                      {issue.locations.slice(0, 3).map(location => `${location.name} (${location.count})`).join(', ')}
+                      {issue.locations.length > 3 && ` +${issue.locations.length - 3} more`}
+                    </span>
+                    {issue.sopCategories.length > 0 && <span>SOP {issue.sopCategories.join(', ')}</span>}
+                    <span>
+                      {issue.firstSeen.toLocaleDateString()} – {issue.lastSeen.toLocaleDateString()}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { MultiSelect } from '@/components/ui/multi-select';
+import { Loader2, ShieldAlert } from 'lucide-react';
+import { useFeedback } from '@/contexts/FeedbackContext';
+import { userManagementService, User } from '@/services/userManagementService';
+import { toast } from '@/hooks/use-toast';
+
+interface SafeguardingFocalPointsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/** Global admins name the users who may open confidential (safeguarding / code-of-conduct) cases. */
+export function SafeguardingFocalPointsDialog({ isOpen, onClose }: SafeguardingFocalPointsDialogProps) {
+  const { focalPointIds, updateFocalPoints } = useFeedback();
+  const [users, setUsers] = useState<User[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loadingUsers, setLoadingUsers] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelected(focalPointIds);
+    setLoadingUsers(true);
+    userManagementService.getUsers({ limit: 500, isActive: true })
+      .then(res => setUsers(res.users ?? []))
+      .catch(error => console.error('Error loading users:', error))
+      .finally(() => setLoadingUsers(false));
+  }, [isOpen, focalPointIds]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await updateFocalPoints(selected);
+      toast({ title: 'Focal points updated', description: `${selected.length} safeguarding focal point${selected.length === 1 ? '' : 's'} named.` });
+      onClose();
+    } catch (error) {
+      console.error('Error updating focal points:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update focal points',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !saving && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="w-5 h-5 text-red-600" />
+            Safeguarding Focal Points
+          </DialogTitle>
+          <DialogDescription>
+            Only these users can open safeguarding / PSEA (SOP 6), code-of-conduct (SOP 7) and sensitive cases.
+            Everyone else sees them with the reporter and content redacted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Focal points</Label>
+          {loadingUsers ? (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading users...
+            </div>
+          ) : (
+            <MultiSelect
+              options={users.map(u => ({ value: u.id, label: `${u.firstName} ${u.lastName}`.trim() || u.email }))}
+              value={selected}
+              onChange={setSelected}
+              placeholder="Select focal points"
+            />
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loadingUsers}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,11 +6,12 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
-import { MapPin, Phone, Paperclip, X } from 'lucide-react';
+import { MapPin, Phone, Paperclip, X, KeyRound } from 'lucide-react';
 import {
   SOP_CATEGORY_DESCRIPTIONS,
   type SopCategory,
 } from '@/types/feedback';
+import { TRACKING_PIN_PATTERN } from '@/lib/feedbackTracking';
 
 export interface ProjectOption {
   id: string;
@@ -44,6 +45,7 @@ export function FeedbackComplaintForm({
     description: '',
     category: null as SopCategory | null,
     attachments: [] as File[],
+    trackingPin: '',
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -71,6 +73,9 @@ export function FeedbackComplaintForm({
     const next: Record<string, string> = {};
     if (!formData.description.trim()) next.description = 'Description of complaint/feedback is required.';
     if (formData.category == null) next.category = 'Please select a complaint category.';
+    if (formData.trackingPin && !TRACKING_PIN_PATTERN.test(formData.trackingPin)) {
+      next.trackingPin = 'PIN must be 4 to 6 digits.';
+    }
     setErrors(next);
     return Object.keys(next).length === 0;
   };
@@ -336,6 +341,35 @@ export function FeedbackComplaintForm({
         </CardContent>
       </Card>
 
+      {/* Optional PIN protecting the tracking code */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <KeyRound className="w-4 h-4" />
+            Follow up on your feedback (optional)
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            After submitting you will get a tracking code to check progress without an account. Set a PIN so only you can use it.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Label htmlFor="trackingPin">PIN (4–6 digits)</Label>
+          <Input
+            id="trackingPin"
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            maxLength={6}
+            value={formData.trackingPin}
+            onChange={(e) => handleChange('trackingPin', e.target.value.replace(/\D/g, ''))}
+            className="max-w-[12rem]"
+          />
+          {errors.trackingPin && (
+            <p className="text-sm text-red-600 mt-1">{errors.trackingPin}</p>
+          )}
+        </CardContent>
+      </Card>
+
       <div className="flex justify-end gap-2">
         <Button type="submit" disabled={isSubmitting}>
           {isSubmitting ? 'Submitting...' : 'Submit feedback'}
@@ -10,6 +10,7 @@ import { BasicInfoStep } from './BasicInfoStep';
 import { SectionsStep } from './SectionsStep';
 import { QuestionsStep } from './QuestionsStep';
 import { ActivityLinksStep } from './ActivityLinksStep';
+import { TranslationsStep } from './TranslationsStep';
 import { SettingsStep } from './SettingsStep';
 import { ReviewStep } from './ReviewStep';
 import { useForm } from '@/contexts/FormContext';
@@ -43,6 +44,7 @@ export function FormCreationWizard({ formId }: FormCreationWizardProps) {
     linkQuestionToActivity,
     linkQuestionToActivities,
     updateSettings,
+    updateTranslation,
     saveDraft,
     publishForm,
     isPublishing,
@@ -128,6 +130,15 @@ export function FormCreationWizard({ formId }: FormCreationWizardProps) {
           />
         );
       
+      case 'translations':
+        return (
+          <TranslationsStep
+            form={form}
+            onUpdateSettings={updateSettings}
+            onUpdateTranslation={updateTranslation}
+          />
+        );
+      
       case 'settings':
         return (
           <SettingsStep
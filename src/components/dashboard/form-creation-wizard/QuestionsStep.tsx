@@ -49,7 +49,9 @@ import {
   LikertScaleQuestionEditor,
   LocationQuestionEditor,
   MediaUploadQuestionEditor,
+  CalculatedQuestionEditor,
 } from './question-types';
+import { ExpressionQuestionOption } from './question-types/ExpressionEditor';
 import { AddNextQuestionModal } from './AddNextQuestionModal';
 import { toast } from '@/hooks/use-toast';
 
@@ -186,6 +188,22 @@ export function QuestionsStep({
     }
   };
 
+  // Every question in the form, including option-level conditional questions, for expression references
+  const expressionQuestions: ExpressionQuestionOption[] = sections.flatMap(section => {
+    const collect = (questions: FormQuestion[]): ExpressionQuestionOption[] =>
+      questions.flatMap(q => [
+        {
+          id: q.id,
+          title: q.title,
+          type: q.type,
+          sectionTitle: section.title,
+          ...(q.type === 'CALCULATED' ? { expression: q.expression } : {}),
+        },
+        ...collect(('options' in q ? q.options || [] : []).flatMap(opt => opt.conditionalQuestions || [])),
+      ]);
+    return collect(section.questions || []);
+  });
+
   const renderQuestionEditor = (sectionId: string, question: FormQuestion) => {
     const commonProps = {
       question,
@@ -199,6 +217,7 @@ export function QuestionsStep({
         onLinkQuestionToActivities(sectionId, question.id, activityMappings),
       sectionId,
       onAddQuestion: (sid: string, type: QuestionType) => onAddQuestion(sid, type, question.id),
+      availableQuestions: expressionQuestions,
     };
 
     switch (question.type) {
@@ -225,6 +244,8 @@ export function QuestionsStep({
       case 'AUDIO_UPLOAD':
       case 'FILE_UPLOAD':
         return <MediaUploadQuestionEditor {...commonProps} question={question} />;
+      case 'CALCULATED':
+        return <CalculatedQuestionEditor {...commonProps} question={question} />;
       default:
         // For question types we haven't implemented specific editors for yet
         return <BaseQuestionEditor {...commonProps} />;
@@ -34,6 +34,7 @@ import {
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { FormSection } from './types';
+import { ExpressionEditor } from './question-types/ExpressionEditor';
 
 /**
  * Sortable Section Item Component
@@ -303,6 +304,23 @@ function SortableSectionItem({
                 {section.conditional?.dependsOn && previousQuestions.length > 0 && !dependsOnQuestion && (
                   <p className="text-xs text-amber-600">Selected question not found (section or question may have changed).</p>
                 )}
+                {previousSections.length > 0 && (
+                  <ExpressionEditor
+                    id={`section-visible-if-${section.id}`}
+                    label="Or show when an expression is true"
+                    value={section.conditional?.visibleIf}
+                    onChange={(visibleIf) => onUpdateSection(section.id, {
+                      conditional: { ...section.conditional, visibleIf },
+                    })}
+                    availableQuestions={previousQuestions.map(q => ({
+                      id: q.id,
+                      title: q.title,
+                      type: q.type,
+                      sectionTitle: q.sectionTitle,
+                    }))}
+                    helpText="For compound rules across several questions. When set, it replaces the question/answer rule above."
+                  />
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,264 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Languages, Search, X } from 'lucide-react';
+import { Form, FormSettings } from './types';
+import {
+  FORM_LANGUAGES,
+  TranslationTarget,
+  getFormLanguageSettings,
+  getLanguageName,
+  getTranslatableStrings,
+  getTranslationProgress,
+} from '@/lib/formTranslations';
+
+interface TranslationsStepProps {
+  form: Partial<Form>;
+  onUpdateSettings: (settings: Partial<FormSettings>) => void;
+  onUpdateTranslation: (target: TranslationTarget, language: string, text: string) => void;
+}
+
+export function TranslationsStep({ form, onUpdateSettings, onUpdateTranslation }: TranslationsStepProps) {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [missingOnly, setMissingOnly] = useState(false);
+
+  const { defaultLanguage, languages } = useMemo(() => getFormLanguageSettings(form), [form]);
+  const targetLanguages = useMemo(() => languages.filter(code => code !== defaultLanguage), [languages, defaultLanguage]);
+  const availableLanguages = FORM_LANGUAGES.filter(language => !languages.includes(language.code));
+
+  const strings = useMemo(() => getTranslatableStrings(form), [form]);
+
+  const visibleStrings = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return strings.filter(entry => {
+      if (missingOnly && targetLanguages.every(code => entry.translations[code]?.trim())) return false;
+      if (!term) return true;
+      return [entry.source, entry.group, ...Object.values(entry.translations)].some(text =>
+        text.toLowerCase().includes(term)
+      );
+    });
+  }, [strings, searchTerm, missingOnly, targetLanguages]);
+
+  const updateLanguages = (next: { defaultLanguage?: string; languages?: string[] }) => {
+    onUpdateSettings({
+      languages: {
+        defaultLanguage: next.defaultLanguage ?? defaultLanguage,
+        languages: next.languages ?? languages,
+      },
+    });
+  };
+
+  const setDefaultLanguage = (code: string) => {
+    updateLanguages({
+      defaultLanguage: code,
+      languages: languages.includes(code) ? languages : [code, ...languages],
+    });
+  };
+
+  const addLanguage = (code: string) => {
+    if (!languages.includes(code)) updateLanguages({ languages: [...languages, code] });
+  };
+
+  // Translations for a removed language stay on the form, so adding it back restores them
+  const removeLanguage = (code: string) => {
+    updateLanguages({ languages: languages.filter(language => language !== code) });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Languages className="w-5 h-5" />
+            Form Languages & Translations
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-gray-600">
+            Offer the form in more than one language. Respondents pick a language when filling the form,
+            and the language they used is saved with each response. Untranslated text is shown in the
+            form's default language.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Languages */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Languages</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label>Written in</Label>
+              <Select value={defaultLanguage} onValueChange={setDefaultLanguage}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FORM_LANGUAGES.map(language => (
+                    <SelectItem key={language.code} value={language.code}>
+                      {language.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500 mt-1">The language the questions were written in</p>
+            </div>
+            <div>
+              <Label>Add a language</Label>
+              <Select value="" onValueChange={addLanguage} disabled={availableLanguages.length === 0}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue placeholder="Select a language" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableLanguages.map(language => (
+                    <SelectItem key={language.code} value={language.code}>
+                      {language.name} ({language.nativeName})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {languages.map(code => {
+              const progress = getTranslationProgress(strings, code);
+              return (
+                <Badge key={code} variant={code === defaultLanguage ? 'default' : 'secondary'} className="flex items-center gap-1">
+                  {getLanguageName(code)}
+                  {code === defaultLanguage ? (
+                    <span className="opacity-75">(default)</span>
+                  ) : (
+                    <>
+                      <span className="opacity-75">{progress.translated}/{progress.total}</span>
+                      <button
+                        type="button"
+                        onClick={() => removeLanguage(code)}
+                        className="ml-1 hover:text-red-600"
+                        aria-label={`Remove ${getLanguageName(code)}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </>
+                  )}
+                </Badge>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Translation grid */}
+      {targetLanguages.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-sm text-gray-500">
+            This form is only offered in {getLanguageName(defaultLanguage)}. Add a language above to start translating.
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+              <CardTitle className="text-lg">Translations</CardTitle>
+              <div className="flex items-center gap-4">
+                <div className="relative">
+                  <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                  <Input
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    placeholder="Search text..."
+                    className="pl-8 w-56"
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="translations-missing-only"
+                    checked={missingOnly}
+                    onCheckedChange={(checked) => setMissingOnly(checked === true)}
+                  />
+                  <Label htmlFor="translations-missing-only" className="font-normal">Missing only</Label>
+                </div>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {strings.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-6">Add sections and questions to translate them.</p>
+            ) : visibleStrings.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-6">Nothing matches the current filters.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm border-collapse">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left font-medium text-gray-700 p-2 min-w-[220px]">
+                        {getLanguageName(defaultLanguage)}
+                      </th>
+                      {targetLanguages.map(code => (
+                        <th key={code} className="text-left font-medium text-gray-700 p-2 min-w-[220px]">
+                          {getLanguageName(code)}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleStrings.map((entry, index) => {
+                      const isLongText = entry.source.length > 80;
+                      return (
+                        <React.Fragment key={entry.key}>
+                          {(index === 0 || visibleStrings[index - 1].group !== entry.group) && (
+                            <tr>
+                              <td colSpan={targetLanguages.length + 1} className="pt-4 pb-1 px-2 text-xs font-semibold uppercase text-gray-500">
+                                {entry.group}
+                              </td>
+                            </tr>
+                          )}
+                          <tr className="border-b align-top">
+                            <td className="p-2">
+                              <div className="text-xs text-gray-500">{entry.label}</div>
+                              <div className="text-gray-900 whitespace-pre-wrap">{entry.source}</div>
+                            </td>
+                            {targetLanguages.map(code => {
+                              const value = entry.translations[code] || '';
+                              const className = value.trim() ? '' : 'border-amber-300 bg-amber-50';
+                              return (
+                                <td key={code} className="p-2">
+                                  {isLongText ? (
+                                    <Textarea
+                                      rows={3}
+                                      value={value}
+                                      onChange={(e) => onUpdateTranslation(entry.target, code, e.target.value)}
+                                      className={className}
+                                    />
+                                  ) : (
+                                    <Input
+                                      value={value}
+                                      onChange={(e) => onUpdateTranslation(entry.target, code, e.target.value)}
+                                      className={className}
+                                    />
+                                  )}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        </React.Fragment>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -26,6 +26,7 @@ import {
 } from 'lucide-react';
 import { Form } from '../types';
 import { FormPreview } from '../../form-preview/FormPreview';
+import { FormQRCode } from './FormQRCode';
 import { toast } from '@/hooks/use-toast';
 
 interface FormDeploymentProps {
@@ -41,7 +42,6 @@ export function FormDeployment({ form, onUpdateForm }: FormDeploymentProps) {
   const formUrl = `${baseUrl}/fill/${form.id}`;
   const embedUrl = `${baseUrl}/embed/${form.id}`;
   const previewUrl = `/dashboard/projects/${form.projectId}/forms/preview/${form.id}`;
-  const qrCodeUrl = `https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodeURIComponent(formUrl)}`;
 
   const copyToClipboard = async (text: string, type: string) => {
     try {
@@ -332,18 +332,7 @@ export function FormDeployment({ form, onUpdateForm }: FormDeploymentProps) {
             <CardContent>
               <div className="text-center space-y-4">
                 {form.status === 'PUBLISHED' ? (
-                  <>
-                    <div>
-                      <img 
-                        src={qrCodeUrl} 
-                        alt="QR Code for form" 
-                        className="mx-auto border rounded"
-                      />
-                    </div>
-                    <p className="text-sm text-gray-600">
-                      Scan this QR code with a mobile device to access the form
-                    </p>
-                  </>
+                  <FormQRCode form={form} url={formUrl} />
                 ) : (
                   <>
                     <div className="w-48 h-48 mx-auto border-2 border-dashed border-gray-300 rounded-lg flex items-center justify-center">
@@ -358,19 +347,6 @@ export function FormDeployment({ form, onUpdateForm }: FormDeploymentProps) {
                   </>
                 )}
                 <div className="flex justify-center gap-2">
-                  <Button
-                    variant="outline"
-                    onClick={() => {
-                      const link = document.createElement('a');
-                      link.href = qrCodeUrl;
-                      link.download = `${form.title}-qr-code.png`;
-                      link.click();
-                    }}
-                    disabled={form.status !== 'PUBLISHED'}
-                  >
-                    <Download className="w-4 h-4 mr-2" />
-                    Download QR Code
-                  </Button>
                   <Button
                     variant="outline"
                     onClick={() => copyToClipboard(formUrl, "Form URL")}
@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Printer } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { PosterLayout, buildFormPosterHtml, getShortLink, printFormPoster } from '@/lib/qrCode';
+import { Form } from '../types';
+
+interface FormPosterDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  form: Form;
+  url: string;
+}
+
+export function FormPosterDialog({ open, onOpenChange, form, url }: FormPosterDialogProps) {
+  const [layout, setLayout] = useState<PosterLayout>('poster');
+  const [callToAction, setCallToAction] = useState('Share your feedback');
+  const [title, setTitle] = useState(form.title);
+  const [description, setDescription] = useState(form.description || '');
+  const [footer, setFooter] = useState('');
+  const [previewHtml, setPreviewHtml] = useState('');
+
+  // Start from the current form details each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setTitle(form.title);
+      setDescription(form.description || '');
+    }
+  }, [open, form.title, form.description]);
+
+  const content = useMemo(() => ({
+    title,
+    description: description.trim() || undefined,
+    callToAction,
+    url,
+    shortLink: getShortLink(url),
+    footer: footer.trim() || undefined,
+  }), [title, description, callToAction, url, footer]);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    buildFormPosterHtml(content, layout)
+      .then(html => {
+        if (!cancelled) setPreviewHtml(html);
+      })
+      .catch(error => console.error('Failed to build poster preview:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, layout, content]);
+
+  const handlePrint = async () => {
+    const opened = await printFormPoster(content, layout);
+    if (!opened) {
+      toast({
+        title: "Pop-up blocked",
+        description: "Allow pop-ups for this site to print the poster",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Printable Poster</DialogTitle>
+          <DialogDescription>
+            An A4 poster or a sheet of four flyers with the form's QR code and link. Use "Save as PDF" in the print dialog to keep a copy.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <Label>Layout</Label>
+              <RadioGroup value={layout} onValueChange={(value) => setLayout(value as PosterLayout)} className="mt-2">
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="poster" id="layout-poster" />
+                  <Label htmlFor="layout-poster" className="font-normal">A4 poster</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="flyer" id="layout-flyer" />
+                  <Label htmlFor="layout-flyer" className="font-normal">A6 flyers (4 per A4 sheet)</Label>
+                </div>
+              </RadioGroup>
+            </div>
+            <div>
+              <Label htmlFor="poster-cta">Headline</Label>
+              <Input id="poster-cta" value={callToAction} onChange={(e) => setCallToAction(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="poster-title">Title</Label>
+              <Input id="poster-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="poster-description">Description</Label>
+              <Textarea id="poster-description" rows={3} value={description} onChange={(e) => setDescription(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="poster-footer">Footer (optional)</Label>
+              <Input
+                id="poster-footer"
+                value={footer}
+                onChange={(e) => setFooter(e.target.value)}
+                placeholder="e.g. Your answers are confidential"
+              />
+            </div>
+            <div>
+              <Label>Link printed on the poster</Label>
+              <p className="text-sm font-mono text-gray-700 break-all">{getShortLink(url)}</p>
+            </div>
+          </div>
+
+          <div>
+            <Label>Preview</Label>
+            <div className="mt-2 border rounded bg-gray-100 overflow-hidden" style={{ height: 420 }}>
+              {/* A4 page (794 x 1123 CSS px) scaled down to fit */}
+              <iframe
+                title="Poster preview"
+                srcDoc={previewHtml}
+                className="origin-top-left pointer-events-none bg-white"
+                style={{ width: 794, height: 1123, transform: 'scale(0.37)' }}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+          <Button onClick={handlePrint} disabled={!title.trim()}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
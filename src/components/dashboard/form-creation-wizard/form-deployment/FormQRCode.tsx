@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, Loader2, Printer } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { QR_CODE_SIZES, QRCodeFormat, downloadQRCode, generateQRCodeSvg } from '@/lib/qrCode';
+import { Form } from '../types';
+import { FormPosterDialog } from './FormPosterDialog';
+
+interface FormQRCodeProps {
+  form: Form;
+  url: string;
+}
+
+export function FormQRCode({ form, url }: FormQRCodeProps) {
+  const [svg, setSvg] = useState<string | null>(null);
+  const [format, setFormat] = useState<QRCodeFormat>('png');
+  const [size, setSize] = useState(512);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [posterOpen, setPosterOpen] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    generateQRCodeSvg(url)
+      .then(markup => {
+        if (!cancelled) setSvg(markup);
+      })
+      .catch(error => console.error('Failed to generate QR code:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      await downloadQRCode(url, form.title, format, size);
+    } catch (error) {
+      console.error('Failed to download QR code:', error);
+      toast({
+        title: "Download failed",
+        description: "Could not generate the QR code image",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {svg ? (
+        <div
+          className="w-48 h-48 mx-auto border rounded bg-white [&>svg]:w-full [&>svg]:h-full"
+          role="img"
+          aria-label="QR Code for form"
+          dangerouslySetInnerHTML={{ __html: svg }}
+        />
+      ) : (
+        <div className="w-48 h-48 mx-auto border rounded flex items-center justify-center">
+          <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+        </div>
+      )}
+      <p className="text-sm text-gray-600">
+        Scan this QR code with a mobile device to access the form
+      </p>
+
+      <div className="flex flex-wrap items-end justify-center gap-2">
+        <div className="text-left">
+          <Label className="text-xs">Format</Label>
+          <Select value={format} onValueChange={(value: QRCodeFormat) => setFormat(value)}>
+            <SelectTrigger className="w-[110px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="png">PNG</SelectItem>
+              <SelectItem value="svg">SVG</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="text-left">
+          <Label className="text-xs">Size</Label>
+          <Select value={String(size)} onValueChange={(value) => setSize(Number(value))}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {QR_CODE_SIZES.map(option => (
+                <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="outline" onClick={handleDownload} disabled={isDownloading}>
+          <Download className="w-4 h-4 mr-2" />
+          Download QR Code
+        </Button>
+        <Button variant="outline" onClick={() => setPosterOpen(true)}>
+          <Printer className="w-4 h-4 mr-2" />
+          Print Poster
+        </Button>
+      </div>
+
+      <FormPosterDialog open={posterOpen} onOpenChange={setPosterOpen} form={form} url={url} />
+    </div>
+  );
+}
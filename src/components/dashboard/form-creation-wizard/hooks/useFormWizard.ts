@@ -13,9 +13,9 @@ import {
   clearFormWizardAutoSaveTimeout
 } from '@/lib/formLocalStorageUtils';
 import { useForm } from '@/contexts/FormContext';
-import { formsApi } from '@/lib/api/formsApi';
+import { formsApi, PublishFormResult } from '@/lib/api/formsApi';
+import { TranslationTarget, setFormTranslation } from '@/lib/formTranslations';
 import { 
-  Form, 
   FormSection, 
   FormQuestion, 
   FormWizardState, 
@@ -37,7 +37,7 @@ export function useFormWizard(formId?: string) {
   const { user } = useAuth();
   const { currentProject } = useDashboard();
   const { getProjectOutcomes, getProjectActivities, getProjectKPIs } = useProjects();
-  const { createForm, updateForm, loadForm } = useForm();
+  const { createForm, updateForm, publishForm: publishSavedForm, loadForm } = useForm();
   const [isInitialized, setIsInitialized] = useState(false);
   
   const [wizardState, setWizardState] = useState<FormWizardState>({
@@ -75,6 +75,7 @@ export function useFormWizard(formId?: string) {
     { id: 'sections', title: 'Form Structure', description: 'Organize your form into sections' },
     { id: 'questions', title: 'Add Questions', description: 'Create and configure form questions' },
     { id: 'activity-links', title: 'Activity Links', description: 'Link questions to project activities' },
+    { id: 'translations', title: 'Translations', description: 'Offer the form in more than one language' },
     { id: 'settings', title: 'Form Settings', description: 'Configure form behavior and permissions' },
     { id: 'review', title: 'Review & Deploy', description: 'Review your form and deploy it' },
   ];
@@ -534,6 +535,19 @@ export function useFormWizard(formId?: string) {
     }));
   }, []);
 
+  // Translations
+  const updateTranslation = useCallback((target: TranslationTarget, language: string, text: string) => {
+    setWizardState(prev => ({
+      ...prev,
+      form: {
+        ...prev.form,
+        ...setFormTranslation(prev.form, target, language, text),
+        updatedAt: new Date(),
+      },
+      hasUnsavedChanges: true,
+    }));
+  }, []);
+
   // Navigation
   const nextStep = useCallback(() => {
     if (wizardState.currentStep < steps.length - 1) {
@@ -685,25 +699,22 @@ export function useFormWizard(formId?: string) {
         throw new Error('No project selected');
       }
       
+      // The server snapshots the published structure as a new version in the same request,
+      // so older responses can always be read against the version they were submitted on
+      let published: PublishFormResult | null;
       if (wizardState.isEditing && wizardState.form.id) {
-        // Update existing form via API - only send updatable fields
+        // Publish existing form via API - only send updatable fields
         console.log('Publishing existing form via API');
-        const updateData = {
+        published = await publishSavedForm(currentProject.id, wizardState.form.id, {
           title: publishedForm.title,
           description: publishedForm.description,
-          status: publishedForm.status,
           tags: publishedForm.tags,
           category: publishedForm.category,
           sections: publishedForm.sections,
           settings: publishedForm.settings
-        };
-        console.log('Update data being sent:', updateData);
-        const updatedForm = await updateForm(currentProject.id, wizardState.form.id, updateData);
-        if (updatedForm) {
-          setWizardState(prev => ({ ...prev, form: updatedForm }));
-        }
+        });
       } else {
-        // Create new form via API
+        // Create new form via API, then publish it
         console.log('Creating and publishing new form via API');
         const newForm = await createForm(currentProject.id, {
           title: publishedForm.title || '',
@@ -712,13 +723,16 @@ export function useFormWizard(formId?: string) {
           sections: publishedForm.sections || [],
           settings: publishedForm.settings
         });
-        if (newForm) {
-          // Update to published status
-          const publishedNewForm = await updateForm(currentProject.id, newForm.id, { status: 'PUBLISHED' });
-          if (publishedNewForm) {
-            setWizardState(prev => ({ ...prev, form: publishedNewForm, isEditing: true }));
-          }
+        if (!newForm) {
+          return false;
         }
+        // Keep editing the created form if publishing fails, so a retry does not create it again
+        setWizardState(prev => ({ ...prev, form: newForm, isEditing: true }));
+        published = await publishSavedForm(currentProject.id, newForm.id);
+      }
+
+      if (!published) {
+        return false;
       }
 
       // Clear localStorage draft after successful publish
@@ -729,13 +743,14 @@ export function useFormWizard(formId?: string) {
       // Update local state
       setWizardState(prev => ({
         ...prev,
-        form: publishedForm,
+        form: published.form,
+        isEditing: true,
         hasUnsavedChanges: false,
       }));
 
       toast({
         title: "Form Published",
-        description: `${wizardState.form.title} has been published successfully.`,
+        description: `${wizardState.form.title} has been published as version ${published.version.version}.`,
       });
 
       // Navigate to form management after successful publish
@@ -837,6 +852,9 @@ export function useFormWizard(formId?: string) {
     // Settings
     updateSettings,
     
+    // Translations
+    updateTranslation,
+    
     // Save and deploy
     saveDraft,
     publishForm,
@@ -879,6 +897,8 @@ function getDefaultDataType(questionType: QuestionType) {
     case 'AUDIO_UPLOAD':
     case 'FILE_UPLOAD':
       return 'JSON'; // Store file metadata as JSON
+    case 'CALCULATED':
+      return 'DECIMAL'; // Follows the result type chosen in the editor
     default:
       return 'TEXT';
   }
@@ -1019,6 +1039,14 @@ function createQuestionWithDefaults(baseQuestion: any, questionType: QuestionTyp
         allowMultiple: true,
         showPreview: true,
       };
+
+    case 'CALCULATED':
+      return {
+        ...baseQuestion,
+        expression: '',
+        resultType: 'NUMBER',
+        decimalPlaces: 2,
+      };
     
     default:
       return baseQuestion;
@@ -4,6 +4,7 @@ export { BasicInfoStep } from './BasicInfoStep';
 export { SectionsStep } from './SectionsStep';
 export { QuestionsStep } from './QuestionsStep';
 export { ActivityLinksStep } from './ActivityLinksStep';
+export { TranslationsStep } from './TranslationsStep';
 export { SettingsStep } from './SettingsStep';
 export { ReviewStep } from './ReviewStep';
 
@@ -12,6 +12,7 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Trash2, Copy, Settings, Link, ChevronDown, ChevronRight, X } from 'lucide-react';
 import { FormQuestion, ActivityKPIMapping, QuestionType } from '../types';
 import { AddNextQuestionModal } from '../AddNextQuestionModal';
+import { ExpressionEditor, ExpressionQuestionOption } from './ExpressionEditor';
 
 interface BaseQuestionEditorProps {
   question: FormQuestion;
@@ -24,6 +25,7 @@ interface BaseQuestionEditorProps {
   children?: React.ReactNode; // Question-specific configuration
   sectionId?: string; // Section ID for adding next question
   onAddQuestion?: (sectionId: string, questionType: QuestionType) => void; // Function to add next question (injected to insert after current)
+  availableQuestions?: ExpressionQuestionOption[]; // Questions that skip-logic expressions can refer to
 }
 
 export function BaseQuestionEditor({
@@ -37,6 +39,7 @@ export function BaseQuestionEditor({
   children,
   sectionId,
   onAddQuestion,
+  availableQuestions,
 }: BaseQuestionEditorProps) {
   const [isOpen, setIsOpen] = useState(true);
   
@@ -150,6 +153,17 @@ export function BaseQuestionEditor({
                 />
               </div>
 
+              {/* Skip logic */}
+              <ExpressionEditor
+                id={`visible-if-${question.id}`}
+                label="Show this question only when (optional)"
+                value={question.visibleIf}
+                onChange={(visibleIf) => onUpdate({ visibleIf })}
+                availableQuestions={availableQuestions}
+                selfId={question.id}
+                helpText="Leave empty to always show the question. Hidden questions are skipped in validation and not submitted."
+              />
+
               {/* Activity Linking */}
               <div className="space-y-2">
                 <Label>Link to Project Activities (optional)</Label>
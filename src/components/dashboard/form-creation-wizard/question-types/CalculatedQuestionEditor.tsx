@@ -0,0 +1,125 @@
+import React, { useMemo } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Calculator } from 'lucide-react';
+import { BaseQuestionEditor } from './BaseQuestionEditor';
+import { ExpressionEditor, ExpressionQuestionOption } from './ExpressionEditor';
+import { CalculatedQuestion, ActivityKPIMapping, FormQuestion } from '../types';
+
+interface CalculatedQuestionEditorProps {
+  question: CalculatedQuestion;
+  onUpdate: (updates: Partial<FormQuestion>) => void;
+  onDelete: () => void;
+  onDuplicate: () => void;
+  availableActivities: ActivityKPIMapping[];
+  onLinkToActivity: (activityMapping: ActivityKPIMapping) => void;
+  onLinkToActivities: (activityMappings: ActivityKPIMapping[]) => void;
+  availableQuestions?: ExpressionQuestionOption[];
+}
+
+const RESULT_DATA_TYPES = {
+  NUMBER: 'DECIMAL',
+  TEXT: 'TEXT',
+  DATE: 'DATE',
+  BOOLEAN: 'BOOLEAN',
+} as const;
+
+export function CalculatedQuestionEditor(props: CalculatedQuestionEditorProps) {
+  const { question, onUpdate, availableQuestions } = props;
+
+  // The other calculations in the form, so the editor can reject circular references
+  const calculations = useMemo(
+    () => Object.fromEntries(
+      (availableQuestions || [])
+        .filter(q => q.id !== question.id && q.expression)
+        .map(q => [q.id, q.expression as string])
+    ),
+    [availableQuestions, question.id]
+  );
+
+  return (
+    <BaseQuestionEditor {...props}>
+      <div className="space-y-4">
+        <div className="p-4 bg-gray-50 rounded-lg space-y-4">
+          <Label className="text-sm font-medium block">Calculation</Label>
+
+          <ExpressionEditor
+            id={`expression-${question.id}`}
+            label="Expression"
+            value={question.expression}
+            onChange={(expression) => onUpdate({ expression: expression || '' } as Partial<FormQuestion>)}
+            availableQuestions={availableQuestions}
+            selfId={question.id}
+            calculations={calculations}
+            placeholder="age(${dateOfBirthQuestionId})"
+            helpText="The result is recalculated as answers change and stored with the response."
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor={`result-type-${question.id}`}>Result Type</Label>
+              <Select
+                value={question.resultType || 'NUMBER'}
+                onValueChange={(resultType: CalculatedQuestion['resultType']) =>
+                  onUpdate({ resultType, dataType: RESULT_DATA_TYPES[resultType] } as Partial<FormQuestion>)
+                }
+              >
+                <SelectTrigger id={`result-type-${question.id}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="NUMBER">Number</SelectItem>
+                  <SelectItem value="TEXT">Text</SelectItem>
+                  <SelectItem value="DATE">Date</SelectItem>
+                  <SelectItem value="BOOLEAN">Yes / No</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {(question.resultType || 'NUMBER') === 'NUMBER' && (
+              <div>
+                <Label htmlFor={`decimals-${question.id}`}>Decimal Places</Label>
+                <Input
+                  id={`decimals-${question.id}`}
+                  type="number"
+                  min={0}
+                  max={10}
+                  value={question.decimalPlaces ?? 2}
+                  onChange={(e) => onUpdate({
+                    decimalPlaces: e.target.value ? Math.max(0, Math.min(10, parseInt(e.target.value, 10))) : undefined
+                  } as Partial<FormQuestion>)}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor={`hide-calculated-${question.id}`}>Hide from respondents</Label>
+              <p className="text-xs text-gray-500">The value is still calculated and saved with the response</p>
+            </div>
+            <Switch
+              id={`hide-calculated-${question.id}`}
+              checked={question.hideFromRespondent || false}
+              onCheckedChange={(checked) => onUpdate({ hideFromRespondent: checked } as Partial<FormQuestion>)}
+            />
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="p-4 border rounded-lg bg-white">
+          <Label className="text-sm font-medium mb-2 block text-blue-600">Preview</Label>
+          <div className="space-y-2">
+            <Label className="font-medium">{question.title || 'Question Title'}</Label>
+            <div className="flex items-center gap-2 px-3 py-2 border rounded-md bg-gray-50 text-sm text-gray-500">
+              <Calculator className="w-4 h-4" />
+              Calculated automatically
+            </div>
+          </div>
+        </div>
+      </div>
+    </BaseQuestionEditor>
+  );
+}
@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, CheckCircle, HelpCircle } from 'lucide-react';
+import { QuestionType } from '../types';
+import { EXPRESSION_FUNCTIONS, validateExpression } from '@/lib/formExpressions';
+
+export interface ExpressionQuestionOption {
+  id: string;
+  title: string;
+  type: QuestionType;
+  sectionTitle?: string;
+  expression?: string; // CALCULATED questions only
+}
+
+interface ExpressionEditorProps {
+  id: string;
+  label: string;
+  value?: string;
+  onChange: (value: string | undefined) => void;
+  availableQuestions?: ExpressionQuestionOption[];
+  selfId?: string; // Question the expression belongs to (cannot refer to itself)
+  calculations?: Record<string, string>; // Other calculations by question ID, to reject circular references
+  placeholder?: string;
+  helpText?: string;
+}
+
+export function ExpressionEditor({
+  id,
+  label,
+  value,
+  onChange,
+  availableQuestions,
+  selfId,
+  calculations,
+  placeholder = "${questionId} = 'yes' and not is_empty(${otherQuestionId})",
+  helpText,
+}: ExpressionEditorProps) {
+  const [showHelp, setShowHelp] = useState(false);
+  const expression = value || '';
+
+  const referenceOptions = useMemo(
+    () => (availableQuestions || []).filter(q => q.id !== selfId),
+    [availableQuestions, selfId]
+  );
+
+  const error = useMemo(
+    () => validateExpression(expression, availableQuestions ? availableQuestions.map(q => q.id) : undefined, selfId, calculations),
+    [expression, availableQuestions, selfId, calculations]
+  );
+
+  // Readable version of the expression with question titles in place of IDs
+  const readable = useMemo(() => {
+    if (!expression.trim() || !availableQuestions) return '';
+    return expression.replace(/\$\{([^}]+)\}/g, (match, refId) => {
+      const question = availableQuestions.find(q => q.id === refId.trim());
+      return question ? `[${question.title || 'Untitled question'}]` : match;
+    });
+  }, [expression, availableQuestions]);
+
+  const insertReference = (questionId: string) => {
+    const separator = expression && !/\s$/.test(expression) ? ' ' : '';
+    onChange(`${expression}${separator}\${${questionId}}`);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor={id}>{label}</Label>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={() => setShowHelp(!showHelp)}
+        >
+          <HelpCircle className="w-3 h-3 mr-1" />
+          {showHelp ? 'Hide reference' : 'Syntax reference'}
+        </Button>
+      </div>
+
+      <Textarea
+        id={id}
+        value={expression}
+        onChange={(e) => onChange(e.target.value.trim() ? e.target.value : undefined)}
+        placeholder={placeholder}
+        rows={2}
+        className="font-mono text-sm"
+      />
+
+      {referenceOptions.length > 0 && (
+        <Select value="" onValueChange={insertReference}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue placeholder="Insert a question reference..." />
+          </SelectTrigger>
+          <SelectContent>
+            {referenceOptions.map(question => (
+              <SelectItem key={question.id} value={question.id}>
+                {question.sectionTitle ? `${question.sectionTitle} › ` : ''}{question.title || 'Untitled question'}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {expression.trim() && (
+        error ? (
+          <p className="flex items-center gap-1 text-xs text-red-600">
+            <AlertCircle className="w-3 h-3" />
+            {error}
+          </p>
+        ) : (
+          <p className="flex items-start gap-1 text-xs text-green-700">
+            <CheckCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+            <span className="break-all">{readable || 'Valid expression'}</span>
+          </p>
+        )
+      )}
+
+      {helpText && <p className="text-xs text-gray-500">{helpText}</p>}
+
+      {showHelp && (
+        <div className="p-3 bg-gray-50 rounded-lg border text-xs space-y-2">
+          <p>
+            Refer to answers with <code>{'${questionId}'}</code>, text in quotes (<code>'yes'</code>), and combine
+            conditions with <code>and</code>, <code>or</code>, <code>not</code>. Comparisons: <code>=</code>,{' '}
+            <code>!=</code>, <code>&gt;</code>, <code>&gt;=</code>, <code>&lt;</code>, <code>&lt;=</code>. Arithmetic:{' '}
+            <code>+ - * / %</code>.
+          </p>
+          <ul className="space-y-1">
+            {EXPRESSION_FUNCTIONS.map(fn => (
+              <li key={fn.signature}>
+                <code className="text-blue-700">{fn.signature}</code> – {fn.description}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ export { LikertScaleQuestionEditor } from './LikertScaleQuestionEditor';
 export { LocationQuestionEditor } from './LocationQuestionEditor';
 export { MediaUploadQuestionEditor } from './MediaUploadQuestionEditor';
 export { ConditionalQuestionsEditor } from './ConditionalQuestionsEditor';
+export { CalculatedQuestionEditor } from './CalculatedQuestionEditor';
+export { ExpressionEditor } from './ExpressionEditor';
 
 // Question type mapping for dynamic rendering
 import { QuestionType } from '../types';
@@ -30,6 +32,7 @@ export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
   VIDEO_UPLOAD: 'Video Upload',
   AUDIO_UPLOAD: 'Audio Upload',
   FILE_UPLOAD: 'File Upload',
+  CALCULATED: 'Calculated Value',
 };
 
 export const QUESTION_TYPE_DESCRIPTIONS: Record<QuestionType, string> = {
@@ -50,6 +53,7 @@ export const QUESTION_TYPE_DESCRIPTIONS: Record<QuestionType, string> = {
   VIDEO_UPLOAD: 'Upload videos with duration and quality settings',
   AUDIO_UPLOAD: 'Upload audio files with duration and quality settings',
   FILE_UPLOAD: 'Upload documents and files with format restrictions',
+  CALCULATED: 'Value computed from other answers, e.g. age from date of birth or household totals',
 };
 
 export const QUESTION_TYPE_CATEGORIES = {
@@ -58,5 +62,5 @@ export const QUESTION_TYPE_CATEGORIES = {
   'Date & Time': ['DATE', 'DATETIME'],
   'Choice Questions': ['SINGLE_CHOICE', 'MULTIPLE_CHOICE', 'YES_NO'],
   'Location & Media': ['LOCATION', 'IMAGE_UPLOAD', 'VIDEO_UPLOAD', 'AUDIO_UPLOAD', 'FILE_UPLOAD'],
-  'Advanced': ['LIKERT_SCALE'],
+  'Advanced': ['LIKERT_SCALE', 'CALCULATED'],
 } as const;
@@ -35,7 +35,11 @@ export type QuestionType =
   | 'IMAGE_UPLOAD'        // Image upload
   | 'VIDEO_UPLOAD'        // Video upload
   | 'AUDIO_UPLOAD'        // Audio upload
-  | 'FILE_UPLOAD';        // File upload
+  | 'FILE_UPLOAD'         // File upload
+  | 'CALCULATED';         // Value computed from an expression
+
+// Translated copies of a user-facing string, keyed by language code (e.g. 'fr', 'sw')
+export type TranslatedText = Record<string, string>;
 
 // Validation rules for form fields
 export interface ValidationRule {
@@ -59,6 +63,14 @@ export interface BaseQuestion {
     showWhen: string | number | boolean; // Value to match
     operator: 'EQUALS' | 'NOT_EQUALS' | 'GREATER_THAN' | 'LESS_THAN' | 'CONTAINS';
   };
+  // Skip-logic expression (see lib/formExpressions); takes precedence over conditional when set
+  visibleIf?: string;
+  // Per-language versions of the question text (see lib/formTranslations)
+  translations?: {
+    title?: TranslatedText;
+    description?: TranslatedText;
+    placeholder?: TranslatedText;
+  };
   // Link to project activities (supporting multiple activities)
   linkedActivities?: {
     projectId: string;
@@ -123,6 +135,7 @@ export interface ChoiceOption {
   hasConditionalQuestions?: boolean; // Whether this option has conditional questions
   conditionalQuestions?: FormQuestion[]; // Questions that appear when this option is selected
   assignedSectionId?: string; // ID of the conditional section to show when this option is selected
+  translations?: { label?: TranslatedText };
 }
 
 export interface SingleChoiceQuestion extends BaseQuestion {
@@ -161,6 +174,7 @@ export interface LikertScaleStatement {
     neutral?: string;
     positive?: string;
   };
+  translations?: { text?: TranslatedText };
 }
 
 export interface LikertScaleQuestion extends BaseQuestion {
@@ -172,6 +186,11 @@ export interface LikertScaleQuestion extends BaseQuestion {
     neutral?: string;
     positive: string;
   };
+  translations?: BaseQuestion['translations'] & {
+    negative?: TranslatedText;
+    neutral?: TranslatedText;
+    positive?: TranslatedText;
+  };
 }
 
 export interface DateQuestion extends BaseQuestion {
@@ -257,6 +276,14 @@ export interface AudioUploadQuestion extends BaseQuestion {
   allowLinks?: boolean; // Allow users to provide links to media files instead of uploading
 }
 
+export interface CalculatedQuestion extends BaseQuestion {
+  type: 'CALCULATED';
+  expression: string; // e.g. age(${dobQuestionId}) or sum(${incomeQuestionId})
+  resultType: 'NUMBER' | 'TEXT' | 'DATE' | 'BOOLEAN';
+  decimalPlaces?: number; // NUMBER results only
+  hideFromRespondent?: boolean; // Still calculated and stored, just not displayed
+}
+
 // Union type for all question types
 export type FormQuestion = 
   | ShortTextQuestion
@@ -275,7 +302,8 @@ export type FormQuestion =
   | ImageUploadQuestion
   | VideoUploadQuestion
   | FileUploadQuestion
-  | AudioUploadQuestion;
+  | AudioUploadQuestion
+  | CalculatedQuestion;
 
 // Form section for organizing questions
 export interface FormSection {
@@ -293,6 +321,11 @@ export interface FormSection {
     showWhen?: string | number | boolean | (string | number | boolean)[]; // Value(s) to match (array = show when response is any of these)
     operator?: 'EQUALS' | 'NOT_EQUALS' | 'GREATER_THAN' | 'LESS_THAN' | 'CONTAINS';
     repeatable?: boolean; // For repeatable sections
+    visibleIf?: string; // Skip-logic expression; when set it replaces dependsOn/showWhen
+  };
+  translations?: {
+    title?: TranslatedText;
+    description?: TranslatedText;
   };
 }
 
@@ -304,8 +337,66 @@ export interface FormSettings {
   thankYouMessage: string;
   notificationEmails: string[];
   expiryDate?: Date;
+  // Languages respondents can fill the form in; absent means a single-language form
+  languages?: FormLanguageSettings;
+  translations?: {
+    title?: TranslatedText;
+    description?: TranslatedText;
+    thankYouMessage?: TranslatedText;
+  };
+  dataQuality?: DataQualitySettings;
+}
+
+export interface FormLanguageSettings {
+  defaultLanguage: string; // Language the form was written in
+  languages: string[]; // All offered languages, including the default
+}
+
+// Data quality checks run over a form's responses
+export type DataQualityRuleType =
+  | 'DUPLICATE_RESPONDENT'  // Same respondent (or same answers to identifying questions) submitted more than once
+  | 'LOCATION_BOUNDS'       // GPS point that is impossible or outside the expected area
+  | 'FAST_COMPLETION'       // Submitted too soon after it was started
+  | 'NUMBER_OUTLIER';       // Number far outside the spread of other answers or the allowed range
+
+export interface DataQualityRule {
+  id: string;
+  type: DataQualityRuleType;
+  enabled: boolean;
+  questionIds?: string[]; // Questions to check; empty means every question of a matching type (for duplicates: respondent email/ID)
+  minSeconds?: number; // FAST_COMPLETION
+  bounds?: { minLatitude: number; maxLatitude: number; minLongitude: number; maxLongitude: number }; // LOCATION_BOUNDS
+  maxZScore?: number; // NUMBER_OUTLIER, standard deviations from the mean
+}
+
+export interface DataQualitySettings {
+  rules: DataQualityRule[];
+}
+
+export type QualityFlagStatus = 'open' | 'confirmed' | 'cleared';
+
+// A reviewer's decision on a flag, stored with the response so it survives re-running the checks
+export interface ResponseQualityReview {
+  flagKey: string;
+  status: Exclude<QualityFlagStatus, 'open'>;
+  note?: string;
+  reviewedBy?: string;
+  reviewedAt: Date;
+}
+
+export interface ResponseQualityFlag {
+  key: string; // Stable per rule, question and response, e.g. "rule-1:q_age"
+  ruleId: string;
+  type: DataQualityRuleType;
+  questionId?: string;
+  message: string;
+  status: QualityFlagStatus;
+  review?: ResponseQualityReview;
 }
 
+// A flag as the checks raise it, before any reviewer decision is applied
+export type DetectedQualityFlag = Omit<ResponseQualityFlag, 'status' | 'review'>;
+
 // Main form definition
 export interface Form {
   id: string;
@@ -326,6 +417,17 @@ export interface Form {
   category?: string; // Using FormCategoryValue type from constants
 }
 
+// Snapshot of a form as it was published, so responses can be read against the version they were submitted on
+export interface FormVersion {
+  formId: string;
+  version: number;
+  title: string;
+  sections: FormSection[];
+  settings?: FormSettings;
+  publishedAt: Date;
+  publishedBy?: string;
+}
+
 // Media attachment for file uploads
 export interface MediaAttachment {
   id: string;
@@ -350,6 +452,9 @@ export interface FormResponse {
   ipAddress?: string;
   userAgent?: string;
   source?: string; // How they accessed the form
+  language?: string; // Language the respondent filled the form in
+  qualityFlags?: DetectedQualityFlag[]; // Raised by the server when it runs the form's data quality rules
+  qualityReviews?: ResponseQualityReview[]; // Reviewer decisions on data quality flags
   // The actual response data
   data: Record<string, any>; // Question ID -> response value
   // Media attachments for file upload questions
@@ -442,6 +547,49 @@ export interface ExportOptions {
   };
 }
 
+// Server-side response querying (response table filters, sorting and saved views)
+export type ResponseColumnFilter =
+  | { type: 'CHOICE'; questionId: string; values: string[] }
+  | { type: 'NUMBER_RANGE'; questionId: string; min?: number; max?: number }
+  | { type: 'DATE_RANGE'; questionId: string; from?: string; to?: string }; // yyyy-mm-dd, inclusive
+
+export interface ResponseSort {
+  field: 'submittedAt' | 'startedAt' | 'respondentEmail' | 'question';
+  questionId?: string; // Required when field is 'question'
+  direction: 'asc' | 'desc';
+}
+
+export interface ResponseViewQuery {
+  search?: string;
+  status?: 'all' | 'complete' | 'incomplete';
+  submittedBy?: string; // Respondent email or user ID
+  source?: string; // e.g. 'direct', 'embed'
+  language?: string; // Language code the response was filled in
+  submittedWithin?: 'today' | 'week' | 'month'; // Relative range, kept relative in saved views
+  submittedFrom?: string; // yyyy-mm-dd, inclusive
+  submittedTo?: string; // yyyy-mm-dd, inclusive
+  filters?: ResponseColumnFilter[];
+  sort?: ResponseSort;
+  flaggedOnly?: boolean; // Only responses with open or confirmed data quality flags (filtered on the server)
+}
+
+export interface FormResponseQueryOptions extends ResponseViewQuery {
+  page?: number;
+  limit?: number;
+}
+
+// Named response table view, stored per user and form
+export interface SavedResponseView {
+  id: string;
+  formId: string;
+  name: string;
+  query: ResponseViewQuery;
+  itemsPerPage?: number;
+  isDefault?: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Workflow and approval system
 export interface FormWorkflow {
   id: string;
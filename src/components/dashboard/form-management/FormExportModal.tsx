@@ -4,6 +4,8 @@ import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
 import { 
   Download, 
   FileText, 
@@ -15,6 +17,8 @@ import {
 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { Form } from '@/components/dashboard/form-creation-wizard/types';
+import * as XLSX from 'xlsx';
+import { buildXLSForm, getXLSFormFileName, XLSFormIssue } from '@/lib/xlsform';
 
 interface FormExportModalProps {
   forms: Form[];
@@ -26,9 +30,13 @@ interface ExportForm extends Form {
   selected: boolean;
 }
 
+type ExportFormat = 'json' | 'xlsform';
+
 export function FormExportModal({ forms, projectId, trigger }: FormExportModalProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [exportIssues, setExportIssues] = useState<{ formTitle: string; issues: XLSFormIssue[] }[]>([]);
   const [exportForms, setExportForms] = useState<ExportForm[]>(() => 
     forms.map(form => ({ ...form, selected: false }))
   );
@@ -122,6 +130,19 @@ export function FormExportModal({ forms, projectId, trigger }: FormExportModalPr
     };
   };
 
+  // One XLSForm workbook per form, as KoboToolbox / ODK expect a single form per file
+  const exportAsXLSForm = (selectedForms: Form[]) => {
+    const issuesByForm: { formTitle: string; issues: XLSFormIssue[] }[] = [];
+    selectedForms.forEach(form => {
+      const { workbook, issues } = buildXLSForm(form);
+      XLSX.writeFile(workbook, getXLSFormFileName(form));
+      if (issues.length > 0) {
+        issuesByForm.push({ formTitle: form.title, issues });
+      }
+    });
+    return issuesByForm;
+  };
+
   const handleExport = async () => {
     console.log('🚀 handleExport called, selectedCount:', selectedCount);
     
@@ -139,6 +160,22 @@ export function FormExportModal({ forms, projectId, trigger }: FormExportModalPr
     try {
       const selectedForms = exportForms.filter(form => form.selected);
       console.log('🚀 Selected forms for export:', selectedForms.length, selectedForms.map(f => f.title));
+
+      if (format === 'xlsform') {
+        const issuesByForm = exportAsXLSForm(selectedForms);
+        setExportIssues(issuesByForm);
+        toast({
+          title: "Export Successful",
+          description: issuesByForm.length > 0
+            ? `${selectedCount} XLSForm file(s) exported. Some constructs could not be converted; see the list below.`
+            : `${selectedCount} XLSForm file(s) exported successfully.`,
+        });
+        // Keep the modal open so the untranslated constructs can be reviewed
+        if (issuesByForm.length === 0) {
+          setIsOpen(false);
+        }
+        return;
+      }
       
       const exportData = selectedForms.map(prepareFormForExport);
       console.log('🚀 Export data prepared:', exportData.length, 'forms');
@@ -181,6 +218,7 @@ export function FormExportModal({ forms, projectId, trigger }: FormExportModalPr
   const handleClose = () => {
     if (!isExporting) {
       setExportForms(forms.map(form => ({ ...form, selected: false })));
+      setExportIssues([]);
       setIsOpen(false);
     }
   };
@@ -207,25 +245,78 @@ export function FormExportModal({ forms, projectId, trigger }: FormExportModalPr
       </DialogTrigger>
       <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Export Forms to JSON</DialogTitle>
+          <DialogTitle>Export Forms</DialogTitle>
         </DialogHeader>
 
         <div className="space-y-4">
+          {/* Export Format */}
+          <RadioGroup
+            value={format}
+            onValueChange={(value) => {
+              setFormat(value as ExportFormat);
+              setExportIssues([]);
+            }}
+            className="flex items-center space-x-6"
+            disabled={isExporting}
+          >
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="json" id="export-format-json" />
+              <Label htmlFor="export-format-json">JSON</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="xlsform" id="export-format-xlsform" />
+              <Label htmlFor="export-format-xlsform">XLSForm (KoboToolbox / ODK)</Label>
+            </div>
+          </RadioGroup>
+
           {/* Export Info */}
           <Alert>
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>
               <strong>Export Information:</strong>
-              <ul className="mt-2 text-sm space-y-1">
-                <li>• Forms will be exported as a JSON array</li>
-                <li>• Server-generated fields (ID, timestamps, etc.) will be excluded</li>
-                <li>• Original form metadata will be preserved in _exportMetadata</li>
-                <li>• <strong>When imported, all IDs will be regenerated</strong> to avoid conflicts</li>
-                <li>• File will be named: forms-export-{projectId}-{new Date().toISOString().split('T')[0]}.json</li>
-              </ul>
+              {format === 'json' ? (
+                <ul className="mt-2 text-sm space-y-1">
+                  <li>• Forms will be exported as a JSON array</li>
+                  <li>• Server-generated fields (ID, timestamps, etc.) will be excluded</li>
+                  <li>• Original form metadata will be preserved in _exportMetadata</li>
+                  <li>• <strong>When imported, all IDs will be regenerated</strong> to avoid conflicts</li>
+                  <li>• File will be named: forms-export-{projectId}-{new Date().toISOString().split('T')[0]}.json</li>
+                </ul>
+              ) : (
+                <ul className="mt-2 text-sm space-y-1">
+                  <li>• Each form is exported as its own .xlsx workbook (survey, choices, settings)</li>
+                  <li>• Sections become groups; repeatable sections become repeats</li>
+                  <li>• Conditions and validation rules become relevant and constraint expressions</li>
+                  <li>• Anything that cannot be expressed in XLSForm is listed after export</li>
+                </ul>
+              )}
             </AlertDescription>
           </Alert>
 
+          {/* Untranslated XLSForm constructs */}
+          {exportIssues.length > 0 && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                <strong>Not translated to XLSForm:</strong>
+                <div className="mt-2 space-y-2 max-h-40 overflow-y-auto">
+                  {exportIssues.map(({ formTitle, issues }) => (
+                    <div key={formTitle}>
+                      <p className="text-sm font-medium">{formTitle}</p>
+                      <ul className="text-xs space-y-0.5">
+                        {issues.map((issue, index) => (
+                          <li key={index}>
+                            • {issue.name ? `${issue.name} – ` : ''}{issue.construct}: {issue.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Selection Controls */}
           <div className="flex items-center justify-between p-4 border rounded-lg bg-gray-50">
             <div className="flex items-center space-x-2">
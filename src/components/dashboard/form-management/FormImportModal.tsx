@@ -15,6 +15,7 @@ import {
 import { toast } from '@/hooks/use-toast';
 import { formsApi } from '@/lib/api/formsApi';
 import { Form } from '@/components/dashboard/form-creation-wizard/types';
+import { parseXLSForm, isXLSFormFile, XLSFormIssue } from '@/lib/xlsform';
 
 // File logging helper for debugging form imports
 let logFileHandle: FileSystemFileHandle | null = null;
@@ -109,6 +110,7 @@ interface ImportFile {
   importedForm?: Form;
   importedForms?: Form[]; // For multiple forms in one file
   formCount?: number; // Number of forms in the file
+  issues?: XLSFormIssue[]; // XLSForm constructs that could not be translated
 }
 
 export function FormImportModal({ projectId, onImportSuccess, trigger }: FormImportModalProps) {
@@ -121,20 +123,20 @@ export function FormImportModal({ projectId, onImportSuccess, trigger }: FormImp
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = Array.from(event.target.files || []);
     
-    // Filter for JSON files only
-    const jsonFiles = selectedFiles.filter(file => 
-      file.type === 'application/json' || file.name.endsWith('.json')
+    // Filter for JSON and XLSForm files only
+    const supportedFiles = selectedFiles.filter(file => 
+      file.type === 'application/json' || file.name.endsWith('.json') || isXLSFormFile(file)
     );
 
-    if (jsonFiles.length !== selectedFiles.length) {
+    if (supportedFiles.length !== selectedFiles.length) {
       toast({
         title: "Invalid File Type",
-        description: "Only JSON files are allowed for form import.",
+        description: "Only JSON and XLSForm (.xlsx, .xls) files are allowed for form import.",
         variant: "destructive",
       });
     }
 
-    const newFiles: ImportFile[] = jsonFiles.map(file => ({
+    const newFiles: ImportFile[] = supportedFiles.map(file => ({
       file,
       id: `${file.name}-${Date.now()}-${Math.random()}`,
       status: 'pending'
@@ -344,7 +346,20 @@ export function FormImportModal({ projectId, onImportSuccess, trigger }: FormImp
         fileSize: importFile.file.size
       });
       
-      const formsData = await parseFileContent(importFile.file);
+      // XLSForm workbooks (KoboToolbox / ODK) are converted to a single form with fresh IDs
+      const isXLSForm = isXLSFormFile(importFile.file);
+      let formsData: Awaited<ReturnType<typeof parseFileContent>>;
+      let issues: XLSFormIssue[] | undefined;
+      if (isXLSForm) {
+        const result = parseXLSForm(
+          await importFile.file.arrayBuffer(),
+          importFile.file.name.replace(/\.(xlsx|xls)$/i, '')
+        );
+        formsData = [result.form];
+        issues = result.issues;
+      } else {
+        formsData = await parseFileContent(importFile.file);
+      }
       const importedForms: Form[] = [];
       const errors: string[] = [];
 
@@ -372,7 +387,7 @@ export function FormImportModal({ projectId, onImportSuccess, trigger }: FormImp
         }
 
         // Generate new IDs for all form elements to avoid conflicts
-        const formDataWithNewIds = generateNewIds(originalFormData);
+        const formDataWithNewIds = isXLSForm ? originalFormData : generateNewIds(originalFormData);
 
         // Prepare form data for import using CreateFormDto structure
         const createFormData = {
@@ -474,7 +489,8 @@ export function FormImportModal({ projectId, onImportSuccess, trigger }: FormImp
           ...importFile,
           status: 'error',
           error: errors.join('; '),
-          formCount: formsData.length
+          formCount: formsData.length,
+          issues
         };
       } else if (errors.length > 0) {
         return {
@@ -483,7 +499,8 @@ export function FormImportModal({ projectId, onImportSuccess, trigger }: FormImp
           importedForm: importedForms[0], // Show first imported form
           importedForms: importedForms,
           formCount: formsData.length,
-          error: `Imported ${importedForms.length} form(s), ${errors.length} failed: ${errors.join('; ')}`
+          error: `Imported ${importedForms.length} form(s), ${errors.length} failed: ${errors.join('; ')}`,
+          issues
         };
       } else {
         logToFile('✅ Import - File processing completed successfully', {
@@ -496,7 +513,8 @@ export function FormImportModal({ projectId, onImportSuccess, trigger }: FormImp
           status: 'success',
           importedForm: importedForms[0], // Show first imported form
           importedForms: importedForms,
-          formCount: formsData.length
+          formCount: formsData.length,
+          issues
         };
       }
     } catch (error: any) {
@@ -683,7 +701,7 @@ export function FormImportModal({ projectId, onImportSuccess, trigger }: FormImp
       </DialogTrigger>
       <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Import Forms from JSON</DialogTitle>
+          <DialogTitle>Import Forms</DialogTitle>
         </DialogHeader>
 
         <div className="space-y-4">
@@ -693,13 +711,13 @@ export function FormImportModal({ projectId, onImportSuccess, trigger }: FormImp
               ref={fileInputRef}
               type="file"
               multiple
-              accept=".json,application/json"
+              accept=".json,application/json,.xlsx,.xls"
               onChange={handleFileSelect}
               className="hidden"
             />
             <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
             <p className="text-gray-600 mb-2">
-              Drop JSON files here or click to browse
+              Drop JSON or XLSForm files here or click to browse
             </p>
             <Button
               variant="outline"
@@ -709,7 +727,7 @@ export function FormImportModal({ projectId, onImportSuccess, trigger }: FormImp
               Select Files
             </Button>
             <p className="text-sm text-gray-500 mt-2">
-              Select one or more JSON files containing form definitions
+              Select JSON exports or XLSForm workbooks from KoboToolbox / ODK
             </p>
           </div>
 
@@ -746,6 +764,21 @@ export function FormImportModal({ projectId, onImportSuccess, trigger }: FormImp
                             }
                           </p>
                         )}
+                        {file.issues && file.issues.length > 0 && (
+                          <div className="mt-1 text-sm text-amber-700">
+                            <p className="font-medium">
+                              {file.issues.length} construct(s) not translated:
+                            </p>
+                            <ul className="mt-1 space-y-0.5 max-h-32 overflow-y-auto">
+                              {file.issues.map((issue, index) => (
+                                <li key={index} className="text-xs">
+                                  • {issue.sheet}{issue.row ? ` row ${issue.row}` : ''}
+                                  {issue.name ? ` (${issue.name})` : ''} – {issue.construct}: {issue.message}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
                       </div>
                     </div>
                     {file.status === 'pending' && !isImporting && (
@@ -788,6 +821,13 @@ export function FormImportModal({ projectId, onImportSuccess, trigger }: FormImp
                 <li>• <strong>All IDs will be regenerated</strong> to avoid conflicts</li>
                 <li>• Server-generated fields (timestamps, response counts) will be ignored</li>
               </ul>
+              <strong className="block mt-3">XLSForm (.xlsx, .xls):</strong>
+              <ul className="mt-2 text-sm space-y-1">
+                <li>• Reads the survey, choices and settings sheets</li>
+                <li>• Top-level groups and repeats become sections</li>
+                <li>• Simple relevant, required and constraint expressions are converted</li>
+                <li>• Anything that cannot be converted is listed after import</li>
+              </ul>
             </AlertDescription>
           </Alert>
 
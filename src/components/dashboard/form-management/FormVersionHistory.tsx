@@ -0,0 +1,227 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowRight, History, Loader2, Minus, Pencil, Plus } from 'lucide-react';
+import { Form, FormVersion, QuestionType } from '@/components/dashboard/form-creation-wizard/types';
+import { QUESTION_TYPE_LABELS } from '@/components/dashboard/form-creation-wizard/question-types';
+import { formsApi } from '@/lib/api/formsApi';
+import { FieldChange, VersionChangeKind, diffFormVersions } from '@/lib/formVersions';
+
+interface FormVersionHistoryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  form: Form | null;
+  projectId: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  type: 'Type',
+  required: 'Required',
+  section: 'Section',
+  logic: 'Display logic',
+  expression: 'Calculation',
+  range: 'Limits',
+  repeatable: 'Repeatable',
+  label: 'Label',
+  value: 'Stored value',
+  text: 'Statement',
+};
+
+const KIND_STYLES: Record<VersionChangeKind, { className: string; icon: React.ReactNode; label: string }> = {
+  added: { className: 'border-green-200 bg-green-50', icon: <Plus className="w-4 h-4 text-green-600" />, label: 'Added' },
+  removed: { className: 'border-red-200 bg-red-50', icon: <Minus className="w-4 h-4 text-red-600" />, label: 'Removed' },
+  changed: { className: 'border-amber-200 bg-amber-50', icon: <Pencil className="w-4 h-4 text-amber-600" />, label: 'Changed' },
+};
+
+const formatFieldValue = (change: FieldChange, value?: string) => {
+  if (!value) return <span className="italic text-gray-400">none</span>;
+  return change.field === 'type' ? QUESTION_TYPE_LABELS[value as QuestionType] || value : value;
+};
+
+function FieldChangeList({ changes }: { changes: FieldChange[] }) {
+  return (
+    <ul className="mt-1 space-y-0.5 text-xs text-gray-700">
+      {changes.map(change => (
+        <li key={change.field} className="flex flex-wrap items-center gap-1">
+          <span className="font-medium">{FIELD_LABELS[change.field] || change.field}:</span>
+          <span className="line-through text-gray-500">{formatFieldValue(change, change.before)}</span>
+          <ArrowRight className="w-3 h-3 text-gray-400" />
+          <span>{formatFieldValue(change, change.after)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function FormVersionHistory({ open, onOpenChange, form, projectId }: FormVersionHistoryProps) {
+  const [versions, setVersions] = useState<FormVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [fromVersion, setFromVersion] = useState<string>('');
+  const [toVersion, setToVersion] = useState<string>('');
+
+  useEffect(() => {
+    if (!open || !form) return;
+    const loadVersions = async () => {
+      setIsLoading(true);
+      let snapshots: FormVersion[] = [];
+      try {
+        snapshots = await formsApi.getFormVersions(projectId, form.id);
+      } catch (error) {
+        console.error('Failed to load form versions:', error);
+      }
+      // Forms published before snapshots were kept only have their current structure
+      const all = snapshots.some(v => v.version === form.version)
+        ? snapshots
+        : [...snapshots, {
+            formId: form.id, version: form.version, title: form.title, sections: form.sections,
+            settings: form.settings, publishedAt: form.updatedAt,
+          }];
+      const sorted = [...all].sort((a, b) => a.version - b.version);
+      setVersions(sorted);
+      setToVersion(String(sorted[sorted.length - 1].version));
+      setFromVersion(String(sorted[Math.max(sorted.length - 2, 0)].version));
+      setIsLoading(false);
+    };
+    loadVersions();
+  }, [open, form, projectId]);
+
+  const from = versions.find(v => String(v.version) === fromVersion);
+  const to = versions.find(v => String(v.version) === toVersion);
+  const diff = useMemo(() => (from && to ? diffFormVersions(from.sections || [], to.sections || []) : null), [from, to]);
+
+  const renderVersionOption = (version: FormVersion) => (
+    <SelectItem key={version.version} value={String(version.version)}>
+      v{version.version}
+      {version.version === form?.version ? ' (current)' : ''}
+      {' · '}
+      {new Date(version.publishedAt).toLocaleDateString()}
+    </SelectItem>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Version History
+          </DialogTitle>
+          <DialogDescription>
+            {form?.title} — every publish keeps a copy of the form. Compare two versions to see which
+            questions and options changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-10">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {/* Published versions */}
+            <div className="border rounded-md divide-y">
+              {[...versions].reverse().map(version => {
+                const questionCount = version.sections?.reduce((total, section) => total + (section.questions?.length || 0), 0) || 0;
+                return (
+                  <div key={version.version} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={version.version === form?.version ? 'default' : 'outline'}>v{version.version}</Badge>
+                      <span className="text-gray-900">{version.title}</span>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {version.sections?.length || 0} sections · {questionCount} questions · {new Date(version.publishedAt).toLocaleString()}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {versions.length > 1 && (
+              <>
+                <div className="flex items-end gap-3">
+                  <div className="flex-1">
+                    <Label className="text-xs">Compare</Label>
+                    <Select value={fromVersion} onValueChange={setFromVersion}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>{versions.map(renderVersionOption)}</SelectContent>
+                    </Select>
+                  </div>
+                  <ArrowRight className="w-4 h-4 mb-3 text-gray-400" />
+                  <div className="flex-1">
+                    <Label className="text-xs">With</Label>
+                    <Select value={toVersion} onValueChange={setToVersion}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>{versions.map(renderVersionOption)}</SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {diff && (
+                  <div className="space-y-3">
+                    <div className="flex flex-wrap gap-2 text-xs">
+                      <Badge variant="outline" className="text-green-700">{diff.summary.added} questions added</Badge>
+                      <Badge variant="outline" className="text-red-700">{diff.summary.removed} removed</Badge>
+                      <Badge variant="outline" className="text-amber-700">{diff.summary.changed} changed</Badge>
+                    </div>
+
+                    {diff.sections.length === 0 && diff.questions.length === 0 && (
+                      <p className="text-sm text-gray-500 text-center py-4">No structural changes between these versions.</p>
+                    )}
+
+                    {diff.sections.map(change => (
+                      <div key={`section-${change.sectionId}`} className={`border rounded-md p-3 ${KIND_STYLES[change.kind].className}`}>
+                        <div className="flex items-center gap-2 text-sm font-medium">
+                          {KIND_STYLES[change.kind].icon}
+                          Section {KIND_STYLES[change.kind].label.toLowerCase()}: {change.title}
+                        </div>
+                        {change.changes.length > 0 && <FieldChangeList changes={change.changes} />}
+                      </div>
+                    ))}
+
+                    {diff.questions.map(change => (
+                      <div key={`question-${change.questionId}`} className={`border rounded-md p-3 ${KIND_STYLES[change.kind].className}`}>
+                        <div className="flex items-start gap-2">
+                          {KIND_STYLES[change.kind].icon}
+                          <div className="flex-1 min-w-0">
+                            <div className="text-sm font-medium text-gray-900">{change.title || 'Untitled question'}</div>
+                            <div className="text-xs text-gray-500">
+                              {change.sectionTitle}
+                              {change.parentTitle && ` › follow-up to "${change.parentTitle}"`}
+                            </div>
+                            {change.changes.length > 0 && <FieldChangeList changes={change.changes} />}
+                            {change.options.length > 0 && (
+                              <ul className="mt-2 space-y-1">
+                                {change.options.map(option => (
+                                  <li key={option.id} className="text-xs">
+                                    <span className="inline-flex items-center gap-1">
+                                      {KIND_STYLES[option.kind].icon}
+                                      <span className="font-medium">{KIND_STYLES[option.kind].label} option:</span>
+                                      {option.label}
+                                    </span>
+                                    {option.changes.length > 0 && <FieldChangeList changes={option.changes} />}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
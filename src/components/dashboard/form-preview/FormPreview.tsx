@@ -8,6 +8,12 @@ import { ArrowLeft, Send, Save, AlertCircle } from 'lucide-react';
 import { QuestionRenderer } from './QuestionRenderer';
 import { Form, FormQuestion, FormResponse } from '../form-creation-wizard/types';
 import { filterMainQuestions, getNumberQuestionRangeError } from './utils/questionUtils';
+import {
+  createAnswerResolver,
+  isQuestionVisible,
+  isSectionVisibleByExpression,
+  computeCalculatedValues
+} from '@/lib/formExpressions';
 
 import { toast } from '@/hooks/use-toast';
 import { useForm } from '@/contexts/FormContext';
@@ -129,10 +135,36 @@ export function FormPreview({
     }
   }, [form?.id, responses, currentSectionIndex, isPreviewMode, editMode]);
 
+  // Keep CALCULATED answers in sync with the answers they depend on
+  useEffect(() => {
+    if (!form) return;
+    const values = computeCalculatedValues(
+      form.sections.flatMap(section => section.questions),
+      createAnswerResolver({ ...responses, ...conditionalResponses })
+    );
+    const changed = Object.entries(values).some(([key, value]) => (responses[key] ?? null) !== value);
+    if (changed) {
+      setResponses(prev => ({ ...prev, ...values }));
+    }
+  }, [form, responses, conditionalResponses]);
+
+  // Skip logic is evaluated against main and conditional answers together
+  const resolveAnswer = createAnswerResolver({ ...responses, ...conditionalResponses });
+  const visibleSections = form?.sections.filter(section => isSectionVisibleByExpression(section, resolveAnswer) !== false) || [];
+  const getVisibleQuestions = (questions: FormQuestion[]) =>
+    filterMainQuestions(questions).filter(question => isQuestionVisible(question, resolveAnswer));
+
   // Get all questions from all sections
   const allQuestions = form?.sections.flatMap(section => section.questions) || [];
-  const currentSection = form?.sections[currentSectionIndex];
-  const totalSections = form?.sections.length || 0;
+  const currentSection = visibleSections[currentSectionIndex];
+  const totalSections = visibleSections.length;
+
+  // Stay on a valid section when skip logic hides the one being viewed
+  useEffect(() => {
+    if (totalSections > 0 && currentSectionIndex >= totalSections) {
+      setCurrentSectionIndex(totalSections - 1);
+    }
+  }, [totalSections, currentSectionIndex]);
   const isLastSection = currentSectionIndex === totalSections - 1;
 
   // Calculate progress
@@ -182,7 +214,8 @@ export function FormPreview({
     const newErrors: Record<string, string> = {};
     
     // Validate main questions (same set as rendered in the section)
-    filterMainQuestions(currentSection.questions).forEach(question => {
+    getVisibleQuestions(currentSection.questions).forEach(question => {
+      if (question.type === 'CALCULATED') return;
       const response = responses[question.id];
       const empty =
         response === undefined ||
@@ -443,7 +476,7 @@ export function FormPreview({
               )}
             </CardHeader>
             <CardContent className="space-y-8">
-              {filterMainQuestions(currentSection.questions).map((question) => {
+              {getVisibleQuestions(currentSection.questions).map((question) => {
                 console.log('🔍 FormPreview rendering main question:', {
                   questionId: question.id,
                   questionTitle: question.title,
@@ -12,7 +12,8 @@ import {
   DateQuestionRenderer,
   SliderQuestionRenderer,
   LocationQuestionRenderer,
-  MediaUploadQuestionRenderer
+  MediaUploadQuestionRenderer,
+  CalculatedQuestionRenderer
 } from './question-renderers';
 
 interface QuestionRendererProps {
@@ -179,6 +180,16 @@ export function QuestionRenderer({
         />
       );
 
+    case 'CALCULATED':
+      return (
+        <CalculatedQuestionRenderer
+          question={question}
+          value={value}
+          error={error}
+          isPreviewMode={isPreviewMode}
+        />
+      );
+
     default:
       return (
         <div className="p-4 border rounded-lg bg-red-50">
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Calculator } from 'lucide-react';
+import { BaseQuestionRenderer, BaseQuestionRendererProps } from './BaseQuestionRenderer';
+import { CalculatedQuestion } from '../../form-creation-wizard/types';
+
+interface CalculatedQuestionRendererProps extends BaseQuestionRendererProps {
+  question: CalculatedQuestion;
+  value?: string | number | boolean | null;
+}
+
+// Read-only: the value is computed by the form filler from the question's expression
+export function CalculatedQuestionRenderer({
+  question,
+  value,
+  error,
+  isPreviewMode
+}: CalculatedQuestionRendererProps) {
+  if (question.hideFromRespondent) {
+    return null;
+  }
+
+  const hasValue = value !== undefined && value !== null && value !== '';
+  const displayValue = typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value ?? '');
+
+  return (
+    <BaseQuestionRenderer question={question} error={error} isPreviewMode={isPreviewMode}>
+      <div className="flex items-center gap-2 px-3 py-2 border rounded-md bg-gray-50 text-sm">
+        <Calculator className="w-4 h-4 text-gray-400" />
+        {hasValue ? (
+          <span className="font-medium text-gray-900">{displayValue}</span>
+        ) : (
+          <span className="text-gray-500">Calculated from your answers</span>
+        )}
+      </div>
+    </BaseQuestionRenderer>
+  );
+}
@@ -11,6 +11,7 @@ import { useForm } from '@/contexts/FormContext';
 import { useProjects } from '@/contexts/ProjectsContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { generateMediaFileName, createMediaNamingData, getMediaTypeFromExtension } from '@/lib/mediaNamingConvention';
+import { DEFAULT_NAMING_REGISTRY } from '@/lib/namingConvention';
 
 interface MediaUploadQuestionRendererProps {
   question: FormQuestion;
@@ -33,15 +34,17 @@ export function MediaUploadQuestionRenderer({
   locationData
 }: MediaUploadQuestionRendererProps) {
   const { projectId } = useParams();
-  const { currentForm, uploadMediaFile } = useForm();
+  const { currentForm, uploadMediaFile, isOnline } = useForm();
   const { user } = useAuth();
   
   // For public forms, useProjects might not be available
   let projects: any[] = [];
+  let namingRegistry = DEFAULT_NAMING_REGISTRY;
   let isPublicForm = false;
   try {
     const projectsContext = useProjects();
     projects = projectsContext.projects || [];
+    namingRegistry = projectsContext.namingRegistry;
   } catch (error) {
     // useProjects not available (e.g., public forms), continue with empty projects
     isPublicForm = true;
@@ -89,7 +92,8 @@ export function MediaUploadQuestionRenderer({
         project,
         currentForm,
         originalFile.name,
-        mediaType
+        mediaType,
+        namingRegistry
       );
 
       // Generate new file name
@@ -256,23 +260,7 @@ export function MediaUploadQuestionRenderer({
         const originalFile = new (window as any).File([blob], `recorded-video-${Date.now()}.webm`, { type: 'video/webm' });
         const renamedFile = generateProperFileName(originalFile, 'video');
         
-        // Store with metadata if we have context
-        if (projectId && currentForm && user) {
-          const project = projects.find(p => p.id === projectId);
-          if (project) {
-            await uploadMediaFile(
-              renamedFile,
-              project,
-              currentForm,
-              question.id,
-              question.title,
-              `${user.firstName} ${user.lastName}`,
-              'video',
-              locationData
-            );
-          }
-        }
-        
+        // handleFileSelect uploads it, or keeps it on the device while offline
         handleFileSelect([renamedFile] as any);
       };
       
@@ -327,23 +315,7 @@ export function MediaUploadQuestionRenderer({
         const originalFile = new (window as any).File([blob], `recorded-audio-${Date.now()}.webm`, { type: 'audio/webm' });
         const renamedFile = generateProperFileName(originalFile, 'audio');
         
-        // Store with metadata if we have context
-        if (projectId && currentForm && user) {
-          const project = projects.find(p => p.id === projectId);
-          if (project) {
-            await uploadMediaFile(
-              renamedFile,
-              project,
-              currentForm,
-              question.id,
-              question.title,
-              `${user.firstName} ${user.lastName}`,
-              'audio',
-              locationData
-            );
-          }
-        }
-        
+        // handleFileSelect uploads it, or keeps it on the device while offline
         handleFileSelect([renamedFile] as any);
       };
       
@@ -422,23 +394,7 @@ export function MediaUploadQuestionRenderer({
         const originalFile = new (window as any).File([blob], `captured-image-${Date.now()}.jpg`, { type: 'image/jpeg' });
         const renamedFile = generateProperFileName(originalFile, 'image');
         
-        // Store with metadata if we have context
-        if (projectId && currentForm && user) {
-          const project = projects.find(p => p.id === projectId);
-          if (project) {
-            await uploadMediaFile(
-              renamedFile,
-              project,
-              currentForm,
-              question.id,
-              question.title,
-              `${user.firstName} ${user.lastName}`,
-              'image',
-              locationData
-            );
-          }
-        }
-        
+        // handleFileSelect uploads it, or keeps it on the device while offline
         handleFileSelect([renamedFile] as any);
       }
     }, 'image/jpeg', 0.8);
@@ -514,8 +470,8 @@ export function MediaUploadQuestionRenderer({
           const mediaType = getMediaTypeFromExtension(file.name);
           const renamedFile = generateProperFileName(file, mediaType);
           
-          // Store with metadata if we have context (authenticated forms)
-          if (projectId && currentForm && user && !isPublicForm) {
+          // Store with metadata if we have context (authenticated forms with a connection)
+          if (projectId && currentForm && user && !isPublicForm && isOnline) {
             const project = projects.find(p => p.id === projectId);
             if (project) {
               console.log('📝 Uploading media file to server...');
@@ -555,8 +511,8 @@ export function MediaUploadQuestionRenderer({
               });
             }
           } else {
-            // Public form - store file data without server upload
-            console.log('📝 Public form: storing file data locally');
+            // Public form or offline - keep the file on the device; it is uploaded with the response
+            console.log('📝 Storing file data locally until the response is submitted');
             storedFileData.push({
               name: renamedFile.name,
               originalName: file.name,
@@ -996,6 +952,7 @@ export function MediaUploadQuestionRenderer({
               const fileSize = fileData.size || fileData.fileSize || 0;
               const fileUrl = fileData.url;
               const hasUploadError = fileData.uploadError;
+              const isHeldLocally = !fileUrl && !hasUploadError && !!(fileData.file || fileData.pendingMediaId);
               
               return (
                 <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
@@ -1025,6 +982,12 @@ export function MediaUploadQuestionRenderer({
                             <span className="text-red-500">Upload failed</span>
                           </>
                         )}
+                        {isHeldLocally && (
+                          <>
+                            <span>•</span>
+                            <span className="text-amber-600">Saved on device, uploads with the response</span>
+                          </>
+                        )}
                       </div>
                     </div>
                   </div>
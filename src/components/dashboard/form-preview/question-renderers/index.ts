@@ -11,5 +11,6 @@ export { DateQuestionRenderer } from './DateQuestionRenderer';
 export { SliderQuestionRenderer } from './SliderQuestionRenderer';
 export { LocationQuestionRenderer } from './LocationQuestionRenderer';
 export { MediaUploadQuestionRenderer } from './MediaUploadQuestionRenderer';
+export { CalculatedQuestionRenderer } from './CalculatedQuestionRenderer';
 
 export type { BaseQuestionRendererProps } from './BaseQuestionRenderer';
\ No newline at end of file
@@ -4,10 +4,12 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { DollarSign, Calculator, AlertCircle, Loader2 } from 'lucide-react';
 import { Activity } from '@/types/dashboard';
 import { CreateActivityFinancialDataDto } from '@/lib/api/financialApi';
+import { BASE_CURRENCY, CURRENCIES, formatMoney, getCurrency } from '@/lib/exchangeRates';
 
 interface AddFinancialDataModalProps {
   isOpen: boolean;
@@ -35,6 +37,7 @@ export function AddFinancialDataModal({
     q2Cost: 0,
     q3Cost: 0,
     q4Cost: 0,
+    currency: BASE_CURRENCY,
     notes: ''
   });
 
@@ -53,6 +56,7 @@ export function AddFinancialDataModal({
         q2Cost: 0,
         q3Cost: 0,
         q4Cost: 0,
+        currency: BASE_CURRENCY,
         notes: ''
       });
       setErrors({});
@@ -142,6 +146,7 @@ export function AddFinancialDataModal({
 
   const totalQuarterly = (formData.q1Cost || 0) + (formData.q2Cost || 0) + (formData.q3Cost || 0) + (formData.q4Cost || 0);
   const remainingBudget = (formData.totalAnnualBudget || 0) - totalQuarterly;
+  const currencySymbol = getCurrency(formData.currency).symbol;
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
@@ -184,11 +189,33 @@ export function AddFinancialDataModal({
             )}
           </div>
 
+          {/* Currency */}
+          <div className="space-y-2">
+            <Label>Currency</Label>
+            <Select
+              value={formData.currency}
+              onValueChange={(value) => handleInputChange('currency', value)}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map(currency => (
+                  <SelectItem key={currency.code} value={currency.code}>{currency.code} – {currency.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">
+              Enter amounts in the currency they were spent in. Totals are converted using the exchange rate for each quarter.
+            </p>
+          </div>
+
           {/* Total Annual Budget */}
           <div className="space-y-2">
-            <Label htmlFor="totalBudget">Total Annual Budget * (USD)</Label>
+            <Label htmlFor="totalBudget">Total Annual Budget * ({formData.currency})</Label>
             <div className="relative">
-              <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-500" />
+              <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-sm text-gray-500">{currencySymbol}</span>
               <Input
                 id="totalBudget"
                 type="number"
@@ -218,7 +245,7 @@ export function AddFinancialDataModal({
               <div className="space-y-2">
                 <Label htmlFor="q1Cost">Q1 Cost</Label>
                 <div className="relative">
-                  <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-500" />
+                  <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-sm text-gray-500">{currencySymbol}</span>
                   <Input
                     id="q1Cost"
                     type="number"
@@ -237,7 +264,7 @@ export function AddFinancialDataModal({
               <div className="space-y-2">
                 <Label htmlFor="q2Cost">Q2 Cost</Label>
                 <div className="relative">
-                  <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-500" />
+                  <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-sm text-gray-500">{currencySymbol}</span>
                   <Input
                     id="q2Cost"
                     type="number"
@@ -256,7 +283,7 @@ export function AddFinancialDataModal({
               <div className="space-y-2">
                 <Label htmlFor="q3Cost">Q3 Cost</Label>
                 <div className="relative">
-                  <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-500" />
+                  <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-sm text-gray-500">{currencySymbol}</span>
                   <Input
                     id="q3Cost"
                     type="number"
@@ -275,7 +302,7 @@ export function AddFinancialDataModal({
               <div className="space-y-2">
                 <Label htmlFor="q4Cost">Q4 Cost</Label>
                 <div className="relative">
-                  <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-500" />
+                  <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-sm text-gray-500">{currencySymbol}</span>
                   <Input
                     id="q4Cost"
                     type="number"
@@ -295,12 +322,12 @@ export function AddFinancialDataModal({
             <div className="bg-gray-50 rounded-lg p-3 space-y-2">
               <div className="flex justify-between text-sm">
                 <span>Total Quarterly Allocation:</span>
-                <span className="font-medium">${totalQuarterly.toFixed(2)}</span>
+                <span className="font-medium">{formatMoney(totalQuarterly, formData.currency)}</span>
               </div>
               <div className="flex justify-between text-sm">
                 <span>Remaining Budget:</span>
                 <span className={`font-medium ${remainingBudget < 0 ? 'text-red-600' : 'text-green-600'}`}>
-                  ${remainingBudget.toFixed(2)}
+                  {formatMoney(remainingBudget, formData.currency)}
                 </span>
               </div>
               {remainingBudget < 0 && (
@@ -0,0 +1,511 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, CheckCircle, Download, FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+import { Activity } from '@/types/dashboard';
+import { financialApi, ActivityFinancialData } from '@/lib/api/financialApi';
+import { QUARTERS, formatMoney } from '@/lib/exchangeRates';
+import {
+  ColumnMapping,
+  FINANCIAL_IMPORT_FIELDS,
+  FinancialImportField,
+  FinancialImportOperation,
+  SpreadsheetData,
+  buildFinancialImportPlan,
+  getMissingRequiredFields,
+  guessColumnMapping,
+  isFinancialImportFile,
+  readSpreadsheet,
+} from '@/lib/financialImport';
+
+interface FinancialImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  activities: Activity[];
+  year: number;
+  existing: ActivityFinancialData[]; // Records already loaded for `year`
+  onBeforeImport?: () => Promise<unknown>;
+  onImported: () => void; // Called when the dialog closes after an import, so the report stays up until then
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+
+interface RowResult {
+  rowNumber: number;
+  activity: string;
+  status: 'imported' | 'failed' | 'skipped';
+  message: string;
+}
+
+const NOT_MAPPED = '__none__';
+
+const ACTION_STYLES: Record<FinancialImportOperation['action'], { className: string; label: string }> = {
+  create: { className: 'bg-green-100 text-green-800', label: 'Create' },
+  update: { className: 'bg-blue-100 text-blue-800', label: 'Update' },
+  unchanged: { className: 'bg-gray-100 text-gray-600', label: 'No change' },
+};
+
+const escapeCsv = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+
+export function FinancialImportModal({
+  isOpen,
+  onClose,
+  activities,
+  year,
+  existing,
+  onBeforeImport,
+  onImported,
+}: FinancialImportModalProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [data, setData] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [activityOverrides, setActivityOverrides] = useState<Record<string, string>>({});
+  const [otherYearRecords, setOtherYearRecords] = useState<ActivityFinancialData[]>([]);
+  const [checkedKeys, setCheckedKeys] = useState<Set<string>>(new Set());
+  const [isChecking, setIsChecking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [results, setResults] = useState<RowResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setStep('upload');
+      setFileName('');
+      setData(null);
+      setMapping({});
+      setActivityOverrides({});
+      setOtherYearRecords([]);
+      setCheckedKeys(new Set());
+      setResults([]);
+      setProgress(0);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const plan = useMemo(
+    () => (data && step !== 'upload' && getMissingRequiredFields(mapping).length === 0
+      ? buildFinancialImportPlan(data, mapping, activities, [...existing, ...otherYearRecords], year, activityOverrides)
+      : null),
+    [data, step, mapping, activities, existing, otherYearRecords, year, activityOverrides]
+  );
+
+  // Only the selected year is loaded up front; look up records for any other year in the file before previewing
+  useEffect(() => {
+    if (step !== 'preview' || !plan) return;
+    const toCheck = plan.operations.filter(op => op.year !== year && !checkedKeys.has(op.key));
+    if (toCheck.length === 0) return;
+
+    let cancelled = false;
+    const check = async () => {
+      setIsChecking(true);
+      const found: ActivityFinancialData[] = [];
+      for (const op of toCheck) {
+        try {
+          found.push(...(await financialApi.getActivityFinancialData(op.activityId, op.year)));
+        } catch {
+          // No record for that year yet, so the row creates one
+        }
+      }
+      if (cancelled) return;
+      setOtherYearRecords(prev => [...prev, ...found]);
+      setCheckedKeys(prev => new Set([...prev, ...toCheck.map(op => op.key)]));
+      setIsChecking(false);
+    };
+    check();
+    return () => {
+      cancelled = true;
+    };
+  }, [step, plan, year, checkedKeys]);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    if (!isFinancialImportFile(file)) {
+      setError('Choose a CSV or Excel (.xlsx, .xls) file');
+      return;
+    }
+    try {
+      const parsed = readSpreadsheet(await file.arrayBuffer());
+      setFileName(file.name);
+      setData(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setStep('map');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    const operations = plan.operations.filter(op => op.action !== 'unchanged');
+    const rowResults: RowResult[] = plan.issues.map(issue => ({
+      rowNumber: issue.rowNumber,
+      activity: '',
+      status: 'skipped',
+      message: issue.message,
+    }));
+
+    setIsImporting(true);
+    setProgress(0);
+    try {
+      await onBeforeImport?.();
+      for (let i = 0; i < operations.length; i++) {
+        const op = operations[i];
+        const costs = {
+          q1Cost: op.quarters.q1,
+          q2Cost: op.quarters.q2,
+          q3Cost: op.quarters.q3,
+          q4Cost: op.quarters.q4,
+        };
+        try {
+          if (op.existing) {
+            await financialApi.updateActivityFinancialData(op.existing.id, costs);
+          } else {
+            await financialApi.createActivityFinancialData({
+              activityId: op.activityId,
+              activityTitle: op.activityTitle,
+              year: op.year,
+              currency: op.currency,
+              ...costs,
+            });
+          }
+          op.rowNumbers.forEach(rowNumber => rowResults.push({
+            rowNumber,
+            activity: op.activityTitle,
+            status: 'imported',
+            message: `${op.existing ? 'Updated' : 'Created'} ${op.year} costs`,
+          }));
+        } catch (err) {
+          const message = err instanceof Error ? err.message : 'Failed to save';
+          op.rowNumbers.forEach(rowNumber => rowResults.push({ rowNumber, activity: op.activityTitle, status: 'failed', message }));
+        }
+        setProgress(Math.round(((i + 1) / operations.length) * 100));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to prepare the import');
+      setIsImporting(false);
+      return;
+    }
+
+    setResults(rowResults.sort((a, b) => a.rowNumber - b.rowNumber));
+    setIsImporting(false);
+    setStep('done');
+  };
+
+  const handleClose = () => {
+    if (isImporting) return;
+    if (step === 'done') onImported();
+    onClose();
+  };
+
+  const downloadReport = () => {
+    const lines = [
+      ['Row', 'Activity', 'Status', 'Message'].map(escapeCsv).join(','),
+      ...results.map(result => [result.rowNumber, result.activity, result.status, result.message].map(escapeCsv).join(',')),
+    ];
+    const url = URL.createObjectURL(new Blob([lines.join('\n')], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName.replace(/\.(csv|xlsx|xls)$/i, '')}-import-report.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const missingFields = getMissingRequiredFields(mapping);
+  const toImport = plan ? plan.operations.filter(op => op.action !== 'unchanged').length : 0;
+  const failed = results.filter(result => result.status !== 'imported');
+
+  const renderUpload = () => (
+    <div
+      className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center cursor-pointer hover:border-blue-400"
+      onClick={() => fileInputRef.current?.click()}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault();
+        const file = e.dataTransfer.files[0];
+        if (file) handleFile(file);
+      }}
+    >
+      <Upload className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+      <p className="font-medium text-gray-900">Drop an accounting export here or click to browse</p>
+      <p className="text-sm text-gray-500 mt-1">CSV or Excel, one row per transaction or per activity and quarter</p>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.xlsx,.xls"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+
+  const renderMapping = () => data && (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        <FileSpreadsheet className="w-4 h-4 inline mr-1" />
+        {fileName} · {data.rows.length} rows. Choose which column holds each value.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {(Object.keys(FINANCIAL_IMPORT_FIELDS) as FinancialImportField[]).map(field => (
+          <div key={field}>
+            <Label className="text-sm">
+              {FINANCIAL_IMPORT_FIELDS[field].label}
+              {FINANCIAL_IMPORT_FIELDS[field].required && ' *'}
+            </Label>
+            <Select
+              value={mapping[field] || NOT_MAPPED}
+              onValueChange={(value) => setMapping(prev => ({ ...prev, [field]: value === NOT_MAPPED ? undefined : value }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {!FINANCIAL_IMPORT_FIELDS[field].required && <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>}
+                {FINANCIAL_IMPORT_FIELDS[field].required && !mapping[field] && (
+                  <SelectItem value={NOT_MAPPED} disabled>Choose a column</SelectItem>
+                )}
+                {data.headers.map(header => (
+                  <SelectItem key={header} value={header}>{header}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500 mt-1">{FINANCIAL_IMPORT_FIELDS[field].description}</p>
+          </div>
+        ))}
+      </div>
+      <div className="overflow-x-auto border rounded-md">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b bg-gray-50">
+              {data.headers.map(header => <th key={header} className="text-left p-2 whitespace-nowrap">{header}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {data.rows.slice(0, 3).map((row, index) => (
+              <tr key={index} className="border-b">
+                {data.headers.map(header => (
+                  <td key={header} className="p-2 whitespace-nowrap">
+                    {row[header] instanceof Date ? row[header].toLocaleDateString() : String(row[header] ?? '')}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+
+  const renderPreview = () => plan && (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2 text-sm">
+        <Badge className={ACTION_STYLES.create.className}>{plan.operations.filter(op => op.action === 'create').length} to create</Badge>
+        <Badge className={ACTION_STYLES.update.className}>{plan.operations.filter(op => op.action === 'update').length} to update</Badge>
+        <Badge className={ACTION_STYLES.unchanged.className}>{plan.operations.filter(op => op.action === 'unchanged').length} unchanged</Badge>
+        {plan.issues.length > 0 && <Badge className="bg-red-100 text-red-800">{plan.issues.length} rows skipped</Badge>}
+        {isChecking && (
+          <span className="text-xs text-gray-500 flex items-center gap-1">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Checking existing records
+          </span>
+        )}
+      </div>
+
+      {plan.unmatchedActivities.length > 0 && (
+        <div className="border border-amber-200 bg-amber-50 rounded-md p-3 space-y-2">
+          <p className="text-sm text-amber-900">
+            These values did not match an activity by code or title. Assign them or leave them to skip their rows.
+          </p>
+          {plan.unmatchedActivities.map(value => (
+            <div key={value} className="grid grid-cols-2 gap-2 items-center">
+              <span className="text-sm font-medium truncate">{value}</span>
+              <Select
+                value={activityOverrides[value] || NOT_MAPPED}
+                onValueChange={(activityId) => setActivityOverrides(prev => ({ ...prev, [value]: activityId }))}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_MAPPED} disabled>Skip these rows</SelectItem>
+                  {activities.map(activity => (
+                    <SelectItem key={activity.id} value={activity.id}>{activity.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {plan.operations.length > 0 && (
+        <div className="overflow-x-auto border rounded-md">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-gray-50">
+                <th className="text-left p-2">Activity</th>
+                <th className="text-left p-2">Year</th>
+                {QUARTERS.map(quarter => <th key={quarter} className="text-right p-2">{quarter.toUpperCase()}</th>)}
+                <th className="text-right p-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {plan.operations.map(op => (
+                <tr key={op.key} className="border-b">
+                  <td className="p-2">
+                    <div className="font-medium">{op.activityTitle}</div>
+                    <div className="text-xs text-gray-500">Rows {op.rowNumbers.join(', ')}</div>
+                  </td>
+                  <td className="p-2">{op.year}</td>
+                  {QUARTERS.map(quarter => {
+                    const imported = op.quarters[quarter];
+                    const recorded = op.existing ? op.existing[`${quarter}Cost` as const] : undefined;
+                    return (
+                      <td key={quarter} className="p-2 text-right whitespace-nowrap">
+                        {imported === undefined ? (
+                          <span className="text-gray-400">{recorded !== undefined ? formatMoney(recorded, op.currency) : '—'}</span>
+                        ) : (
+                          <>
+                            {recorded !== undefined && recorded !== imported && (
+                              <div className="text-xs text-gray-400 line-through">{formatMoney(recorded, op.currency)}</div>
+                            )}
+                            {formatMoney(imported, op.currency)}
+                          </>
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td className="p-2 text-right">
+                    <Badge className={ACTION_STYLES[op.action].className}>{ACTION_STYLES[op.action].label}</Badge>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {plan.issues.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-sm font-medium text-red-800">Rows that will be skipped</p>
+          <ul className="text-xs text-red-700 max-h-32 overflow-y-auto space-y-0.5">
+            {plan.issues.map((issue, index) => (
+              <li key={`${issue.rowNumber}-${index}`}>Row {issue.rowNumber}: {issue.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {isImporting && <Progress value={progress} />}
+    </div>
+  );
+
+  const renderDone = () => (
+    <div className="space-y-4">
+      <Alert className={failed.length === 0 ? 'border-green-200 bg-green-50' : 'border-amber-200 bg-amber-50'}>
+        {failed.length === 0 ? <CheckCircle className="h-4 w-4 text-green-600" /> : <AlertCircle className="h-4 w-4 text-amber-600" />}
+        <AlertDescription>
+          {results.filter(result => result.status === 'imported').length} rows imported
+          {failed.length > 0 && `, ${failed.length} rows skipped or failed`}.
+        </AlertDescription>
+      </Alert>
+      {failed.length > 0 && (
+        <div className="overflow-x-auto border rounded-md max-h-64">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b bg-gray-50">
+                <th className="text-left p-2">Row</th>
+                <th className="text-left p-2">Activity</th>
+                <th className="text-left p-2">Status</th>
+                <th className="text-left p-2">Message</th>
+              </tr>
+            </thead>
+            <tbody>
+              {failed.map((result, index) => (
+                <tr key={`${result.rowNumber}-${index}`} className="border-b">
+                  <td className="p-2">{result.rowNumber}</td>
+                  <td className="p-2">{result.activity || '—'}</td>
+                  <td className="p-2 capitalize">{result.status}</td>
+                  <td className="p-2">{result.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5" />
+            Import Financial Data
+          </DialogTitle>
+          <DialogDescription>
+            Import quarterly costs from an accounting export. Imported amounts replace the recorded cost for that
+            activity and quarter; rows for the same activity and quarter are added together.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert className="border-red-200 bg-red-50">
+            <AlertCircle className="h-4 w-4 text-red-600" />
+            <AlertDescription className="text-red-800">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {step === 'upload' && renderUpload()}
+        {step === 'map' && renderMapping()}
+        {step === 'preview' && renderPreview()}
+        {step === 'done' && renderDone()}
+
+        <DialogFooter>
+          {step === 'map' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('upload')}>Back</Button>
+              <Button onClick={() => setStep('preview')} disabled={missingFields.length > 0}>
+                {missingFields.length > 0
+                  ? `Map ${missingFields.map(field => FINANCIAL_IMPORT_FIELDS[field].label).join(', ')}`
+                  : 'Preview Import'}
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')} disabled={isImporting}>Back</Button>
+              <Button onClick={handleImport} disabled={isImporting || isChecking || toImport === 0}>
+                {isImporting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Import {toImport} {toImport === 1 ? 'record' : 'records'}
+              </Button>
+            </>
+          )}
+          {step === 'done' && (
+            <>
+              {failed.length > 0 && (
+                <Button variant="outline" onClick={downloadReport}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Download Report
+                </Button>
+              )}
+              <Button onClick={handleClose}>Close</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,284 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { MultiSelect } from '@/components/ui/multi-select';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, HandCoins, Loader2 } from 'lucide-react';
+import { Activity } from '@/types/dashboard';
+import { Grant, GrantStatus, SaveGrantDto } from '@/lib/api/financialApi';
+import { BASE_CURRENCY, CURRENCIES } from '@/lib/exchangeRates';
+import { GRANT_STATUSES } from '@/lib/grants';
+
+interface GrantFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: SaveGrantDto) => Promise<void>;
+  projectId: string;
+  activities: Activity[];
+  grant?: Grant | null; // Edited grant; a new grant when absent
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const toDateInput = (value?: Date | string) => (value ? new Date(value).toISOString().slice(0, 10) : '');
+
+const emptyGrant = (projectId: string): SaveGrantDto => ({
+  donorName: '',
+  title: '',
+  awardReference: '',
+  awardAmount: 0,
+  currency: BASE_CURRENCY,
+  reportingCurrency: undefined,
+  startDate: '',
+  endDate: '',
+  fiscalYearStartMonth: 1,
+  status: 'ACTIVE',
+  restrictions: '',
+  projectIds: [projectId],
+  eligibleActivityIds: [],
+});
+
+export function GrantFormModal({ isOpen, onClose, onSubmit, projectId, activities, grant }: GrantFormModalProps) {
+  const [formData, setFormData] = useState<SaveGrantDto>(emptyGrant(projectId));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFormData(grant
+      ? {
+          donorName: grant.donorName,
+          title: grant.title,
+          awardReference: grant.awardReference || '',
+          awardAmount: grant.awardAmount,
+          currency: grant.currency,
+          reportingCurrency: grant.reportingCurrency,
+          startDate: toDateInput(grant.startDate),
+          endDate: toDateInput(grant.endDate),
+          fiscalYearStartMonth: grant.fiscalYearStartMonth || 1,
+          status: grant.status,
+          restrictions: grant.restrictions || '',
+          // Keep the grant's links to other projects
+          projectIds: grant.projectIds.includes(projectId) ? grant.projectIds : [...grant.projectIds, projectId],
+          eligibleActivityIds: grant.eligibleActivityIds || [],
+        }
+      : emptyGrant(projectId));
+    setErrors({});
+  }, [isOpen, grant, projectId]);
+
+  const update = <K extends keyof SaveGrantDto>(field: K, value: SaveGrantDto[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => {
+        const next = { ...prev };
+        delete next[field];
+        return next;
+      });
+    }
+  };
+
+  const validate = (): boolean => {
+    const next: Record<string, string> = {};
+    if (!formData.donorName.trim()) next.donorName = 'Donor is required';
+    if (!formData.title.trim()) next.title = 'Grant title is required';
+    if (!(formData.awardAmount > 0)) next.awardAmount = 'Award amount must be greater than 0';
+    if (!formData.startDate) next.startDate = 'Start date is required';
+    if (!formData.endDate) next.endDate = 'End date is required';
+    if (formData.startDate && formData.endDate && formData.endDate < formData.startDate) {
+      next.endDate = 'End date must be after the start date';
+    }
+    setErrors(next);
+    return Object.keys(next).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit({
+        ...formData,
+        donorName: formData.donorName.trim(),
+        title: formData.title.trim(),
+        awardReference: formData.awardReference?.trim() || undefined,
+        restrictions: formData.restrictions?.trim() || undefined,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error saving grant:', error);
+      setErrors({ submit: error instanceof Error ? error.message : 'Failed to save grant. Please try again.' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderError = (field: string) =>
+    errors[field] && <p className="text-sm text-red-600">{errors[field]}</p>;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HandCoins className="w-5 h-5 text-green-600" />
+            {grant ? 'Edit Grant' : 'Add Grant'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="donorName">Donor *</Label>
+              <Input id="donorName" value={formData.donorName} onChange={(e) => update('donorName', e.target.value)} />
+              {renderError('donorName')}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="awardReference">Award Reference</Label>
+              <Input
+                id="awardReference"
+                value={formData.awardReference || ''}
+                onChange={(e) => update('awardReference', e.target.value)}
+                placeholder="e.g. AID-621-A-25-00004"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="grantTitle">Grant Title *</Label>
+            <Input id="grantTitle" value={formData.title} onChange={(e) => update('title', e.target.value)} />
+            {renderError('title')}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="awardAmount">Award Amount *</Label>
+              <Input
+                id="awardAmount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.awardAmount || ''}
+                onChange={(e) => update('awardAmount', parseFloat(e.target.value) || 0)}
+              />
+              {renderError('awardAmount')}
+            </div>
+            <div className="space-y-2">
+              <Label>Award Currency</Label>
+              <Select value={formData.currency} onValueChange={(value) => update('currency', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map(currency => (
+                    <SelectItem key={currency.code} value={currency.code}>{currency.code} – {currency.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Reporting Currency</Label>
+              <Select
+                value={formData.reportingCurrency || formData.currency}
+                onValueChange={(value) => update('reportingCurrency', value === formData.currency ? undefined : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map(currency => (
+                    <SelectItem key={currency.code} value={currency.code}>{currency.code} – {currency.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="startDate">Start Date *</Label>
+              <Input id="startDate" type="date" value={formData.startDate} onChange={(e) => update('startDate', e.target.value)} />
+              {renderError('startDate')}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="endDate">End Date *</Label>
+              <Input id="endDate" type="date" value={formData.endDate} onChange={(e) => update('endDate', e.target.value)} />
+              {renderError('endDate')}
+            </div>
+            <div className="space-y-2">
+              <Label>Donor Fiscal Year Starts</Label>
+              <Select
+                value={String(formData.fiscalYearStartMonth)}
+                onValueChange={(value) => update('fiscalYearStartMonth', Number(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MONTHS.map((month, index) => (
+                    <SelectItem key={month} value={String(index + 1)}>{month}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={formData.status} onValueChange={(value) => update('status', value as GrantStatus)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(GRANT_STATUSES) as GrantStatus[]).map(status => (
+                    <SelectItem key={status} value={status}>{GRANT_STATUSES[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Eligible Activities</Label>
+            <MultiSelect
+              options={activities.map(activity => ({ value: activity.id, label: activity.title }))}
+              value={formData.eligibleActivityIds || []}
+              onChange={(eligibleActivityIds) => update('eligibleActivityIds', eligibleActivityIds)}
+              placeholder="All activities in this project"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="restrictions">Restrictions</Label>
+            <Textarea
+              id="restrictions"
+              value={formData.restrictions || ''}
+              onChange={(e) => update('restrictions', e.target.value)}
+              placeholder="e.g. No equipment purchases over $5,000 without prior approval"
+              rows={3}
+            />
+          </div>
+
+          {errors.submit && (
+            <Alert className="border-red-200 bg-red-50">
+              <AlertCircle className="h-4 w-4 text-red-600" />
+              <AlertDescription className="text-red-800">{errors.submit}</AlertDescription>
+            </Alert>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {grant ? 'Save Grant' : 'Add Grant'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
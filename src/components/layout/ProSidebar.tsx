@@ -223,6 +223,14 @@ export function ProSidebar() {
                   Analytics
                 </MenuItem>
               )}
+              {import.meta.env.DEV && permissionManager.hasPermission('feedback:manage') && (
+                <MenuItem
+                  component={<Link to="/dashboard/feedback/channels" onClick={handleCloseSidebar} />}
+                  className="text-sm"
+                >
+                  Channel Simulator
+                </MenuItem>
+              )}
             </SubMenu>
           </SubMenu>
 
@@ -1,9 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   ArrowLeft, 
   ArrowRight, 
@@ -14,6 +15,7 @@ import {
   Send,
   Eye,
   EyeOff,
+  Languages,
   Plus
 } from 'lucide-react';
 import { Form, FormQuestion } from '@/components/dashboard/form-creation-wizard/types';
@@ -33,6 +35,28 @@ import {
 } from '@/lib/formLocalStorageUtils';
 import { useForm } from '@/contexts/FormContext';
 import { formsApi } from '@/lib/api/formsApi';
+import {
+  createAnswerResolver,
+  isQuestionVisible,
+  isSectionVisibleByExpression,
+  computeCalculatedValues
+} from '@/lib/formExpressions';
+import {
+  DEFAULT_FORM_LANGUAGE,
+  formatFillerText,
+  getFormFillerText,
+  getFormLanguageSettings,
+  getLanguageNativeName,
+  isMultilingualForm,
+  localizeForm,
+  resolveFormLanguage
+} from '@/lib/formTranslations';
+
+// Languages the respondent asked for, most preferred first: ?lang= in the link, then the browser's
+const getRequestedLanguages = (): (string | null)[] => [
+  new URLSearchParams(window.location.search).get('lang'),
+  ...(navigator.languages?.length ? navigator.languages : [navigator.language]),
+];
 
 interface PublicFormFillerProps {
   isEmbedded?: boolean;
@@ -43,7 +67,8 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
   const navigate = useNavigate();
   const { addFormResponseToStorage, validateConditionalQuestions, isOnline, syncStatus, processOfflineQueue } = useForm();
   
-  const [form, setForm] = useState<Form | null>(null);
+  const [sourceForm, setSourceForm] = useState<Form | null>(null);
+  const [language, setLanguage] = useState(DEFAULT_FORM_LANGUAGE);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [requiresAuth, setRequiresAuth] = useState(false);
@@ -61,6 +86,10 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
   const [latestFormVersion, setLatestFormVersion] = useState<number>(1);
   const [showVersionUpdatePrompt, setShowVersionUpdatePrompt] = useState(false);
 
+  // Everything below renders the form in the respondent's chosen language
+  const form = useMemo(() => (sourceForm ? localizeForm(sourceForm, language) : null), [sourceForm, language]);
+  const text = getFormFillerText(language);
+
   // Helpers for repeatable sections
   const getSectionInstanceCount = (sectionId: string) => {
     // For backwards compatibility: only use instance counts for repeatable sections
@@ -124,7 +153,8 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
           conditional: s.conditional,
           isRepeatable: (s as any).conditional?.repeatable
         })));
-        setForm(foundForm);
+        setSourceForm(foundForm);
+        setLanguage(resolveFormLanguage(foundForm, getRequestedLanguages()));
         setCurrentFormVersion(foundForm.version || 1);
         setLatestFormVersion(foundForm.version || 1);
         setLoading(false);
@@ -145,7 +175,8 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
                 conditional: s.conditional,
                 isRepeatable: (s as any).conditional?.repeatable
               })));
-              setForm(secureForm);
+              setSourceForm(secureForm);
+              setLanguage(resolveFormLanguage(secureForm, getRequestedLanguages()));
               setCurrentFormVersion(secureForm.version || 1);
               setLatestFormVersion(secureForm.version || 1);
               setRequiresAuth(false);
@@ -205,6 +236,33 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
     }
   }, [responses, form, currentSectionIndex]);
 
+  // Keep CALCULATED answers in sync with the answers they depend on
+  useEffect(() => {
+    if (!form) return;
+
+    const allAnswers = { ...responses, ...conditionalResponses };
+    const updates: Record<string, unknown> = {};
+    form.sections.forEach(section => {
+      if (!section.questions?.some(q => q.type === 'CALCULATED')) return;
+      if (section.conditional?.repeatable === true) {
+        // Same scoping as getSectionInstanceCount / getInstanceScopedQuestionId for repeatable sections
+        for (let i = 0; i < (sectionInstanceCounts[section.id] ?? 1); i++) {
+          const values = computeCalculatedValues(section.questions, createAnswerResolver(allAnswers, i));
+          Object.entries(values).forEach(([questionId, value]) => {
+            updates[`${questionId}__i${i}`] = value;
+          });
+        }
+      } else {
+        Object.assign(updates, computeCalculatedValues(section.questions, createAnswerResolver(allAnswers)));
+      }
+    });
+
+    const changed = Object.entries(updates).some(([key, value]) => (responses[key] ?? null) !== value);
+    if (changed) {
+      setResponses(prev => ({ ...prev, ...updates }));
+    }
+  }, [form, responses, conditionalResponses, sectionInstanceCounts]);
+
   // Auto-save draft data
   useEffect(() => {
     if (form?.id && Object.keys(responses).length > 0) {
@@ -266,6 +324,14 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
     return undefined;
   };
 
+  // Skip logic for a question; inside repeatable sections references resolve to the same instance
+  const isQuestionShown = (question: FormQuestion, instanceIndex?: number) => {
+    const section = form?.sections?.find(s => s.questions?.some(q => q.id === question.id));
+    const isRepeatable = section?.conditional?.repeatable === true;
+    const resolve = createAnswerResolver({ ...responses, ...conditionalResponses }, isRepeatable ? instanceIndex : undefined);
+    return isQuestionVisible(question, resolve);
+  };
+
   // Helper function to evaluate section conditionals
   const shouldShowSection = (section: any, responses: Record<string, any>) => {
     const allResponses = { ...responses, ...conditionalResponses };
@@ -274,6 +340,12 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
       return true;
     }
 
+    // Expression-based skip logic replaces the single-question rule below
+    const expressionResult = isSectionVisibleByExpression(section, createAnswerResolver(allResponses));
+    if (expressionResult !== undefined) {
+      return expressionResult;
+    }
+
     // Section visibility: show only when a controlling question's response matches showWhen
     if (section.conditional.dependsOn != null && section.conditional.showWhen != null) {
       const controllingValue = getResponseForQuestion(section.conditional.dependsOn, allResponses);
@@ -404,6 +476,9 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
     // Validate each instance of the section
     for (let instanceIndex = 0; instanceIndex < instanceCount; instanceIndex++) {
       filterMainQuestions(currentSection.questions).forEach((question: FormQuestion) => {
+        // Hidden and calculated questions cannot be answered by the respondent
+        if (question.type === 'CALCULATED' || !isQuestionShown(question, instanceIndex)) return;
+
         const questionId = isRepeatable ? getInstanceScopedQuestionId(question.id, instanceIndex) : question.id;
         const response = responses[questionId];
 
@@ -426,7 +501,7 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
 
         let fieldError: string | undefined;
         if (question.isRequired && empty) {
-          fieldError = 'This field is required';
+          fieldError = text.required;
         } else {
           fieldError = getNumberQuestionRangeError(question, response);
         }
@@ -525,6 +600,9 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
     // Check each instance of the section
     for (let instanceIndex = 0; instanceIndex < instanceCount; instanceIndex++) {
       filterMainQuestions(currentSection.questions).forEach((question: FormQuestion) => {
+        // Hidden and calculated questions cannot be answered by the respondent
+        if (question.type === 'CALCULATED' || !isQuestionShown(question, instanceIndex)) return;
+
         const questionId = isRepeatable ? getInstanceScopedQuestionId(question.id, instanceIndex) : question.id;
         const response = responses[questionId];
 
@@ -545,7 +623,7 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
 
         let fieldError: string | undefined;
         if (question.isRequired && empty) {
-          fieldError = 'This field is required';
+          fieldError = text.required;
         } else {
           fieldError = getNumberQuestionRangeError(question, response);
         }
@@ -650,11 +728,12 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
               const instanceValues: Record<string, any> = {};
               for (let i = 0; i < instanceCount; i++) {
                 const scopedId = getInstanceScopedQuestionId(question.id, i);
-                instanceValues[String(i)] = responses[scopedId];
+                // Answers to questions hidden by skip logic are not submitted
+                instanceValues[String(i)] = isQuestionShown(question, i) ? responses[scopedId] : undefined;
               }
               singleMergedData[question.id] = instanceValues;
             } else {
-              singleMergedData[question.id] = responses[question.id];
+              singleMergedData[question.id] = isQuestionShown(question) ? responses[question.id] : undefined;
             }
           });
         });
@@ -730,7 +809,8 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
         data: singleMergedData,
         ipAddress: 'Unknown',
         userAgent: navigator.userAgent,
-        source: isEmbedded ? 'embed' : 'direct'
+        source: isEmbedded ? 'embed' : 'direct',
+        language
       };
 
       console.log('📤 Submitting single response:', {
@@ -742,7 +822,7 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
         })
       });
 
-      const submitted = await addFormResponseToStorage(responseObj);
+      const submitted = await addFormResponseToStorage(responseObj, form.projectId);
 
       if (submitted) {
         clearFormPreviewData(form.id);
@@ -755,24 +835,24 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
 
       if (form.settings?.thankYouMessage && form.settings.thankYouMessage !== "Thank you for your response.") {
         toast({
-          title: submitted ? "Form Submitted Successfully!" : "Saved Offline",
+          title: submitted ? text.submitted : text.savedOffline,
           description: submitted ? form.settings.thankYouMessage : `${form.settings.thankYouMessage} (Will auto-submit when online)`,
         });
       } else if (!submitted) {
         toast({
-          title: "Saved Offline",
-          description: "We'll auto-submit your response once connection is restored.",
+          title: text.savedOffline,
+          description: text.savedOfflineDescription,
         });
       } else {
         toast({
-          title: "Form Submitted Successfully!",
-          description: form.settings?.thankYouMessage || "Thank you for your response. Your submission has been received.",
+          title: text.submitted,
+          description: form.settings?.thankYouMessage || text.thankYou,
         });
       }
     } catch (err: any) {
       console.error('Form submission failed:', err);
       toast({
-        title: "Submission Failed",
+        title: text.submissionFailed,
         description: err.message || "Please try again or contact support if the problem persists.",
         variant: "destructive",
       });
@@ -798,8 +878,8 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
       };
       saveFormPreviewData(form.id, previewData);
       toast({
-        title: "Draft Saved",
-        description: "Your progress has been saved. You can continue later.",
+        title: text.draftSaved,
+        description: text.draftSavedDescription,
       });
     }
   };
@@ -830,7 +910,7 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-          <p className="text-gray-600">Loading form...</p>
+          <p className="text-gray-600">{text.loading}</p>
         </div>
       </div>
     );
@@ -883,11 +963,11 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
             <div className="mx-auto mb-4">
               <CheckCircle className="w-16 h-16 text-green-600" />
             </div>
-            <CardTitle className="text-green-600">Form Submitted Successfully!</CardTitle>
+            <CardTitle className="text-green-600">{text.submitted}</CardTitle>
           </CardHeader>
           <CardContent className="text-center">
             <p className="text-gray-600 mb-6">
-              {form.settings?.thankYouMessage || "Thank you for your response. Your submission has been received."}
+              {form.settings?.thankYouMessage || text.thankYou}
             </p>
             <div className="space-y-3">
               <Button 
@@ -907,7 +987,7 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
                 className="w-full"
               >
                 <Plus className="w-4 h-4 mr-2" />
-                Submit Another Response
+                {text.submitAnother}
               </Button>
               <Button 
                 variant="outline"
@@ -915,7 +995,7 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
                 className="w-full"
               >
                 <ArrowLeft className="w-4 h-4 mr-2" />
-                Return Home
+                {text.returnHome}
               </Button>
             </div>
           </CardContent>
@@ -990,15 +1070,30 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
                   <p className="text-gray-600 mt-2">{form.description}</p>
                 )}
               </div>
-              {!isEmbedded && (
-                <Button 
-                  variant="outline" 
-                  size="sm"
-                  onClick={() => setShowProgress(!showProgress)}
-                >
-                  {showProgress ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                </Button>
-              )}
+              <div className="flex items-center gap-2">
+                {sourceForm && isMultilingualForm(sourceForm) && (
+                  <Select value={language} onValueChange={setLanguage}>
+                    <SelectTrigger className="w-[170px]" aria-label={text.language}>
+                      <Languages className="w-4 h-4 mr-2 flex-shrink-0" />
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getFormLanguageSettings(sourceForm).languages.map(code => (
+                        <SelectItem key={code} value={code}>{getLanguageNativeName(code)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {!isEmbedded && (
+                  <Button 
+                    variant="outline" 
+                    size="sm"
+                    onClick={() => setShowProgress(!showProgress)}
+                  >
+                    {showProgress ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </Button>
+                )}
+              </div>
             </div>
           </CardHeader>
           
@@ -1006,8 +1101,8 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
             <CardContent>
               <div className="space-y-2">
                 <div className="flex justify-between text-sm text-gray-600">
-                  <span>Progress</span>
-                  <span>{currentSectionIndex + 1} of {visibleSections.length} sections</span>
+                  <span>{text.progress}</span>
+                  <span>{formatFillerText(text.sectionProgress, { current: currentSectionIndex + 1, total: visibleSections.length })}</span>
                 </div>
                 <Progress value={progress} className="h-2" />
               </div>
@@ -1018,7 +1113,7 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
               {!isOnline ? (
                 <Alert variant="destructive">
                   <AlertDescription>
-                    You are currently offline. Submissions will be saved locally and auto-submitted when connection is restored{syncStatus.pendingItems ? ` (pending: ${syncStatus.pendingItems})` : ''}.
+                    {text.offline}{syncStatus.pendingItems ? ` (pending: ${syncStatus.pendingItems})` : ''}.
                   </AlertDescription>
                 </Alert>
               ) : (
@@ -1032,7 +1127,7 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
                         {syncStatus.isSyncing && (
                           <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-500"></div>
                         )}
-                        <Button variant="outline" size="sm" onClick={processOfflineQueue} disabled={syncStatus.isSyncing}>
+                        <Button variant="outline" size="sm" onClick={() => processOfflineQueue({ ignoreBackoff: true })} disabled={syncStatus.isSyncing}>
                           Sync now
                         </Button>
                       </div>
@@ -1101,18 +1196,20 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
               {Array.from({ length: getSectionInstanceCount(currentSection.id) }).map((_, instanceIndex) => (
                 <div key={`${currentSection.id}-instance-${instanceIndex}`} className="space-y-6 border rounded-md p-4">
                   <div className="flex items-center justify-between">
-                    <div className="text-sm text-muted-foreground">Instance {instanceIndex + 1}</div>
+                    <div className="text-sm text-muted-foreground">{formatFillerText(text.instance, { number: instanceIndex + 1 })}</div>
                     {getSectionInstanceCount(currentSection.id) > 1 && (currentSection as any).conditional?.repeatable && (
                       <Button
                         variant="ghost"
                         size="sm"
                         onClick={() => updateSectionInstanceCount(currentSection.id, getSectionInstanceCount(currentSection.id) - 1)}
                       >
-                        Remove
+                        {text.remove}
                       </Button>
                     )}
                   </div>
-                  {filterMainQuestions(currentSection.questions).map((question: FormQuestion) => {
+                  {filterMainQuestions(currentSection.questions)
+                    .filter((question: FormQuestion) => isQuestionShown(question, instanceIndex))
+                    .map((question: FormQuestion) => {
                     const currentSectionIsRepeatable = (currentSection as any).conditional?.repeatable === true;
                     const scopedId = getInstanceScopedQuestionId(question.id, instanceIndex);
                 // Debug logging to check if conditional questions are being filtered correctly
@@ -1235,7 +1332,7 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
                     size="sm"
                     onClick={() => updateSectionInstanceCount(currentSection.id, getSectionInstanceCount(currentSection.id) + 1)}
                   >
-                    <Plus className="h-4 w-4 mr-1" /> Add another {currentSection.title}
+                    <Plus className="h-4 w-4 mr-1" /> {formatFillerText(text.addAnother, { name: currentSection.title })}
                   </Button>
                 </div>
               )}
@@ -1251,7 +1348,7 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
                 <AlertCircle className="w-5 h-5 text-red-600 mt-0.5 flex-shrink-0" />
                 <div className="flex-1">
                   <h4 className="font-medium text-red-900 mb-2">
-                    Please complete the required fields below:
+                    {text.completeRequired}
                   </h4>
                   <ul className="space-y-1">
                     {getSectionValidationErrors().map((error, index) => (
@@ -1277,7 +1374,7 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
                 onClick={handlePrevSection}
               >
                 <ArrowLeft className="w-4 h-4 mr-2" />
-                Previous
+                {text.previous}
               </Button>
             )}
             
@@ -1286,7 +1383,7 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
               onClick={saveDraft}
             >
               <Save className="w-4 h-4 mr-2" />
-              Save Draft
+              {text.saveDraft}
             </Button>
           </div>
 
@@ -1296,7 +1393,7 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
                 onClick={handleNextSection}
                 disabled={!validateCurrentSection()}
               >
-                Next
+                {text.next}
                 <ArrowRight className="w-4 h-4 ml-2" />
               </Button>
             ) : (
@@ -1307,12 +1404,12 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
                 {isSubmitting ? (
                   <>
                     <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                    Submitting...
+                    {text.submitting}
                   </>
                 ) : (
                   <>
                     <Send className="w-4 h-4 mr-2" />
-                    Submit Form
+                    {text.submit}
                   </>
                 )}
               </Button>
@@ -1325,11 +1422,11 @@ export function PublicFormFiller({ isEmbedded = false }: PublicFormFillerProps)
           <div className="flex items-center justify-center gap-4">
             <div className="flex items-center gap-1">
               <Clock className="w-4 h-4" />
-              <span>Auto-save enabled</span>
+              <span>{text.autoSave}</span>
             </div>
             <div className="flex items-center gap-1">
               <CheckCircle className="w-4 h-4" />
-              <span>{Object.keys(responses).length} questions answered</span>
+              <span>{formatFillerText(text.questionsAnswered, { count: Object.keys(responses).length })}</span>
             </div>
           </div>
         </div>
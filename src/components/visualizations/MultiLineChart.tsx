@@ -0,0 +1,52 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+
+interface MultiLineChartProps {
+  data: Record<string, string | number | null>[]; // `name` is the x value, every other key is a line
+  height?: number;
+  colors?: string[];
+  unit?: string;
+}
+
+export function MultiLineChart({ data, height = 300, colors = ['#3B82F6', '#14B8A6', '#F97316', '#EF4444'], unit }: MultiLineChartProps) {
+  // Extract line keys from data (excluding 'name' field)
+  const lineKeys = data.length > 0 ? Object.keys(data[0]).filter(key => key !== 'name') : [];
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <LineChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+        <XAxis
+          dataKey="name"
+          tick={{ fontSize: 12 }}
+          className="text-muted-foreground"
+        />
+        <YAxis
+          tick={{ fontSize: 12 }}
+          unit={unit}
+          className="text-muted-foreground"
+        />
+        <Tooltip
+          formatter={(value: number) => (unit ? `${value}${unit}` : value)}
+          contentStyle={{
+            backgroundColor: 'hsl(var(--card))',
+            border: '1px solid hsl(var(--border))',
+            borderRadius: '6px'
+          }}
+        />
+        <Legend />
+        {lineKeys.map((key, index) => (
+          <Line
+            key={key}
+            type="monotone"
+            dataKey={key}
+            stroke={colors[index % colors.length]}
+            strokeWidth={2}
+            connectNulls
+            dot={{ r: 3 }}
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
@@ -1,12 +1,22 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { feedbackApi } from '../services/feedbackApi';
-import { FeedbackForm, FeedbackSubmission, FeedbackCategory } from '../types/feedback';
+import {
+  FeedbackForm,
+  FeedbackSubmission,
+  FeedbackCategory,
+  FeedbackAccessLogEntry,
+  FeedbackCommunication,
+} from '../types/feedback';
+import { isSafeguardingFocalPoint } from '@/lib/feedbackConfidentiality';
+import { useAuth } from './AuthContext';
 
 interface FeedbackContextType {
   // Data
   forms: FeedbackForm[];
-  submissions: FeedbackSubmission[];
+  submissions: FeedbackSubmission[]; // Confidential cases always come redacted; open or export them to get them in full
   categories: FeedbackCategory[];
+  focalPointIds: string[];
+  isFocalPoint: boolean;
   
   // Loading states
   loading: boolean;
@@ -17,6 +27,7 @@ interface FeedbackContextType {
   // Actions
   refreshForms: () => Promise<void>;
   refreshSubmissions: () => Promise<void>;
+  refreshSubmission: (id: string) => Promise<void>; // The server logs opening a confidential case
   refreshCategories: () => Promise<void>;
   refreshAll: () => Promise<void>;
   
@@ -24,6 +35,13 @@ interface FeedbackContextType {
   createSubmission: (data: any) => Promise<FeedbackSubmission>;
   updateSubmissionStatus: (id: string, status: string, assignedTo?: string) => Promise<FeedbackSubmission>;
   addNote: (submissionId: string, noteData: any) => Promise<any>;
+  addCommunication: (submissionId: string, data: Partial<FeedbackCommunication>) => Promise<void>;
+  sendChannelReply: (submissionId: string, content: string) => Promise<void>; // SMS/WhatsApp reply to the reporter
+
+  // Confidential cases
+  exportSubmissions: (submissionIds: string[], purpose: string) => Promise<FeedbackSubmission[]>; // The server logs the export
+  getSubmissionAccessLog: (submissionId: string) => Promise<FeedbackAccessLogEntry[]>;
+  updateFocalPoints: (userIds: string[]) => Promise<void>;
   
   // Utility
   getFormById: (id: string) => FeedbackForm | undefined;
@@ -45,12 +63,16 @@ export const FeedbackProvider: React.FC<FeedbackProviderProps> = ({
   const [forms, setForms] = useState<FeedbackForm[]>([]);
   const [submissions, setSubmissions] = useState<FeedbackSubmission[]>([]);
   const [categories, setCategories] = useState<FeedbackCategory[]>([]);
+  const [focalPointIds, setFocalPointIds] = useState<string[]>([]);
   
   const [loading, setLoading] = useState(true);
   const [formsLoading, setFormsLoading] = useState(false);
   const [submissionsLoading, setSubmissionsLoading] = useState(false);
   const [categoriesLoading, setCategoriesLoading] = useState(false);
 
+  const { user, isAuthenticated } = useAuth();
+  const isFocalPoint = isSafeguardingFocalPoint(user?.id, focalPointIds);
+
   // Fetch forms
   const refreshForms = useCallback(async () => {
     try {
@@ -97,6 +119,34 @@ export const FeedbackProvider: React.FC<FeedbackProviderProps> = ({
     }
   }, []);
 
+  // Fetch one submission in full (as far as the user may see it) and keep it in the list
+  const refreshSubmission = useCallback(async (id: string) => {
+    try {
+      const updatedSubmission = (await feedbackApi.getSubmissionById(id)) as FeedbackSubmission;
+      setSubmissions(prev =>
+        prev.map(submission => (submission.id === id ? updatedSubmission : submission))
+      );
+    } catch (error) {
+      console.error('Error fetching submission:', error);
+    }
+  }, []);
+
+  // Fetch safeguarding focal points; they only decide what the UI offers, the server decides what it returns
+  const refreshFocalPoints = useCallback(async () => {
+    try {
+      const response = await feedbackApi.getSafeguardingFocalPoints();
+      setFocalPointIds((response as string[]) || []);
+    } catch (error) {
+      console.error('Error fetching safeguarding focal points:', error);
+      setFocalPointIds([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated) refreshFocalPoints();
+  }, [isAuthenticated, refreshFocalPoints]);
+
+
   // Refresh all data
   const refreshAll = useCallback(async () => {
     setLoading(true);
@@ -170,6 +220,48 @@ export const FeedbackProvider: React.FC<FeedbackProviderProps> = ({
     }
   };
 
+  const exportSubmissions = async (submissionIds: string[], purpose: string): Promise<FeedbackSubmission[]> => {
+    const response = await feedbackApi.exportSubmissions(submissionIds, purpose);
+    return (response as FeedbackSubmission[]) || [];
+  };
+
+  const getSubmissionAccessLog = useCallback(async (submissionId: string): Promise<FeedbackAccessLogEntry[]> => {
+    const response = await feedbackApi.getSubmissionAccessLog(submissionId);
+    return (response as FeedbackAccessLogEntry[]) || [];
+  }, []);
+
+  const updateFocalPoints = async (userIds: string[]): Promise<void> => {
+    const response = await feedbackApi.updateSafeguardingFocalPoints(userIds);
+    setFocalPointIds((response as string[]) || userIds);
+  };
+
+  // Add a communication (e.g. a response shared with the reporter) and reload the submission to show it
+  const addCommunication = async (submissionId: string, data: Partial<FeedbackCommunication>): Promise<void> => {
+    try {
+      await feedbackApi.addCommunication(submissionId, data);
+      const updatedSubmission = (await feedbackApi.getSubmissionById(submissionId)) as FeedbackSubmission;
+      setSubmissions(prev =>
+        prev.map(submission => (submission.id === submissionId ? updatedSubmission : submission))
+      );
+    } catch (error) {
+      console.error('Error adding communication:', error);
+      throw error;
+    }
+  };
+
+  const sendChannelReply = async (submissionId: string, content: string): Promise<void> => {
+    try {
+      await feedbackApi.sendChannelReply(submissionId, { content });
+      const updatedSubmission = (await feedbackApi.getSubmissionById(submissionId)) as FeedbackSubmission;
+      setSubmissions(prev =>
+        prev.map(submission => (submission.id === submissionId ? updatedSubmission : submission))
+      );
+    } catch (error) {
+      console.error('Error sending channel reply:', error);
+      throw error;
+    }
+  };
+
   // Utility functions
   const getFormById = (id: string): FeedbackForm | undefined => {
     return forms.find(form => form.id === id);
@@ -193,6 +285,8 @@ export const FeedbackProvider: React.FC<FeedbackProviderProps> = ({
     forms,
     submissions,
     categories,
+    focalPointIds,
+    isFocalPoint,
     
     // Loading states
     loading,
@@ -203,6 +297,7 @@ export const FeedbackProvider: React.FC<FeedbackProviderProps> = ({
     // Actions
     refreshForms,
     refreshSubmissions,
+    refreshSubmission,
     refreshCategories,
     refreshAll,
     
@@ -210,6 +305,11 @@ export const FeedbackProvider: React.FC<FeedbackProviderProps> = ({
     createSubmission,
     updateSubmissionStatus,
     addNote,
+    addCommunication,
+    sendChannelReply,
+    exportSubmissions,
+    getSubmissionAccessLog,
+    updateFocalPoints,
     
     // Utility
     getFormById,
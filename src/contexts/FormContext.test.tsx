@@ -0,0 +1,65 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import React from 'react';
+import { renderHook, waitFor } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { formsApi } from '../lib/api/formsApi';
+import { clearQueueItems, getQueueItems } from '../lib/offlineQueueStore';
+import { FormProvider, useForm } from './FormContext';
+
+// Lets a test hold the legacy queue migration open until the first sync check has run
+const migration = vi.hoisted(() => ({ gate: Promise.resolve() }));
+
+vi.mock('../lib/offlineQueueStore', async importOriginal => {
+  const store = await importOriginal<typeof import('../lib/offlineQueueStore')>();
+  return {
+    ...store,
+    migrateLegacyQueue: async (...args: Parameters<typeof store.migrateLegacyQueue>) => {
+      await migration.gate;
+      return store.migrateLegacyQueue(...args);
+    },
+  };
+});
+
+vi.mock('./AuthContext', () => ({
+  useAuth: () => ({ isAuthenticated: false }),
+}));
+
+vi.mock('../lib/api/formsApi', () => ({
+  formsApi: {
+    getFormByIdOnly: vi.fn().mockRejectedValue(new Error('offline')),
+    syncOfflineItem: vi.fn().mockResolvedValue({ status: 'synced' }),
+  },
+}));
+
+const wrapper = ({ children }: { children: React.ReactNode }) => <FormProvider>{children}</FormProvider>;
+
+describe('FormProvider offline queue', () => {
+  afterEach(async () => {
+    localStorage.clear();
+    await clearQueueItems();
+    vi.clearAllMocks();
+  });
+
+  it('syncs a queue migrated from localStorage as soon as the migration finishes', async () => {
+    let finishMigration = () => {};
+    migration.gate = new Promise(resolve => { finishMigration = resolve; });
+    localStorage.setItem('formOfflineQueue', JSON.stringify([
+      { id: 'legacy-1', type: 'form_response', data: { formId: 'form-1', isComplete: true, data: { q1: 'Yes' } }, timestamp: 1 },
+    ]));
+
+    const { result } = renderHook(() => useForm(), { wrapper });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    finishMigration();
+
+    await waitFor(() => expect(formsApi.syncOfflineItem).toHaveBeenCalledTimes(1));
+    expect(vi.mocked(formsApi.syncOfflineItem).mock.calls[0][0]).toMatchObject({
+      id: 'legacy-1',
+      type: 'form_response',
+      data: { formId: 'form-1', data: { q1: 'Yes' } },
+    });
+    await waitFor(() => expect(result.current.getOfflineQueue()).toEqual([]));
+    expect(await getQueueItems()).toEqual([]);
+    expect(localStorage.getItem('formOfflineQueue')).toBeNull();
+  });
+});
@@ -1,9 +1,23 @@
-import React, { createContext, useContext, useState, useCallback, ReactNode, useEffect } from 'react';
-import { Form, FormResponse, FormQuestion } from '../components/dashboard/form-creation-wizard/types';
-import { formsApi, CreateFormDto, CreateFormResponseDto, UpdateFormResponseDto } from '../lib/api/formsApi';
+import React, { createContext, useContext, useState, useCallback, ReactNode, useEffect, useRef } from 'react';
+import { Form, FormResponse, FormQuestion, FormResponseQueryOptions } from '../components/dashboard/form-creation-wizard/types';
+import { formsApi, CreateFormDto, CreateFormResponseDto, UpdateFormResponseDto, PublishFormResult } from '../lib/api/formsApi';
 import { toast } from '@/hooks/use-toast';
 import { Project } from '../types/dashboard';
 import { useAuth } from './AuthContext';
+import {
+  OfflineQueueItem,
+  OfflineQueuePayloads,
+  QueuedResponsePayload,
+  createQueueItem,
+  getQueueItems,
+  putQueueItem,
+  deleteQueueItem,
+  clearQueueItems,
+  migrateLegacyQueue,
+  getBackoffDelay,
+  deleteQueuedMediaForItem,
+} from '../lib/offlineQueueStore';
+import { MissingQueuedMediaError, hasLocalMedia, stashResponseMedia, uploadQueuedMedia, uploadInlineMedia } from '../lib/offlineMediaSync';
 
 // Media types matching original system
 export interface MediaMetadata {
@@ -40,24 +54,37 @@ export interface StoredMediaFile {
 }
 
 // Offline queue types
-interface OfflineQueueItem {
-  id: string;
-  type: 'form_response' | 'form_create' | 'form_update' | 'form_delete' | 'media_upload' | 'media_delete';
-  data: any;
-  timestamp: number;
-  retryCount: number;
-  maxRetries: number;
-}
-
 interface OfflineSyncStatus {
   isOnline: boolean;
   isSyncing: boolean;
   lastSyncTime: Date | null;
   pendingItems: number;
   failedItems: number;
+  conflictItems: number;
+  nextRetryAt: Date | null;
   syncProgress: number;
 }
 
+// Strip legacy queued responses down to the fields the API accepts
+const sanitizeQueuedItem = (item: OfflineQueueItem): OfflineQueueItem => {
+  if (item.type !== 'form_response' || item.data?.type === 'update') return item;
+  const d = item.data || {};
+  return {
+    ...item,
+    data: {
+      formId: d.formId,
+      respondentId: d.respondentId,
+      respondentEmail: d.respondentEmail,
+      isComplete: d.isComplete,
+      ipAddress: d.ipAddress,
+      userAgent: d.userAgent,
+      source: d.source,
+      language: d.language,
+      data: d.data,
+    }
+  };
+};
+
 interface FormContextType {
   // Current form being edited/created
   currentForm: Form | null;
@@ -89,26 +116,22 @@ interface FormContextType {
   // Form CRUD operations
   createForm: (projectId: string, formData: CreateFormDto) => Promise<Form | null>;
   updateForm: (projectId: string, formId: string, updates: Partial<Form>) => Promise<Form | null>;
+  publishForm: (projectId: string, formId: string, changes?: Partial<Form>) => Promise<PublishFormResult | null>;
   deleteForm: (projectId: string, formId: string) => Promise<boolean>;
   duplicateForm: (projectId: string, formId: string) => Promise<Form | null>;
   loadForm: (projectId: string, formId: string) => Promise<Form | null>;
   loadProjectForms: (projectId: string) => Promise<Form[]>;
   
   // Form response management
-  getFormResponses: (projectId: string, formId: string, options?: {
-    page?: number;
-    limit?: number;
-    search?: string;
-    status?: 'all' | 'complete' | 'incomplete';
-  }) => Promise<{ 
+  getFormResponses: (projectId: string, formId: string, options?: FormResponseQueryOptions) => Promise<{ 
     responses: FormResponse[]; 
     total: number; 
     page: number; 
     limit: number; 
     totalPages: number;
-    stats: { totalAll: number; totalComplete: number; totalIncomplete: number }
+    stats: { totalAll: number; totalComplete: number; totalIncomplete: number; totalFlagged?: number }
   }>;
-  addFormResponseToStorage: (response: FormResponse) => Promise<FormResponse | null>;
+  addFormResponseToStorage: (response: FormResponse, projectId?: string) => Promise<FormResponse | null>;
   updateFormResponse: (projectId: string, formId: string, responseId: string, updates: UpdateFormResponseDto) => Promise<FormResponse | null>;
   deleteFormResponse: (projectId: string, formId: string, responseId: string) => Promise<void>;
   getProjectForms: (projectId: string) => Promise<Form[]>;
@@ -140,12 +163,14 @@ interface FormContextType {
   // Offline support
   isOnline: boolean;
   syncStatus: OfflineSyncStatus;
-  addToOfflineQueue: (type: OfflineQueueItem['type'], data: any) => void;
-  processOfflineQueue: () => Promise<void>;
+  addToOfflineQueue: <T extends OfflineQueueItem['type']>(type: T, data: OfflineQueuePayloads[T]) => void;
+  processOfflineQueue: (options?: { ignoreBackoff?: boolean }) => Promise<void>;
   retryFailedItems: () => Promise<void>;
   clearOfflineQueue: () => void;
   getOfflineQueue: () => OfflineQueueItem[];
   getFailedItems: () => OfflineQueueItem[];
+  getConflictItems: () => OfflineQueueItem[];
+  resolveConflict: (itemId: string, resolution: 'discard' | 'overwrite') => Promise<void>;
   
   // Conditional question utilities
   getConditionalQuestions: (form: Form) => FormQuestion[];
@@ -190,8 +215,13 @@ export function FormProvider({ children }: FormProviderProps) {
     lastSyncTime: null,
     pendingItems: 0,
     failedItems: 0,
+    conflictItems: 0,
+    nextRetryAt: null,
     syncProgress: 0
   });
+  const isSyncingRef = useRef(false);
+  // Set once the legacy queue has been migrated, so the first sync sees the migrated items
+  const [queueLoaded, setQueueLoaded] = useState(false);
 
   // Network status monitoring
   useEffect(() => {
@@ -213,54 +243,46 @@ export function FormProvider({ children }: FormProviderProps) {
     };
   }, []);
 
-  // Load offline queue from localStorage on mount
-  useEffect(() => {
+  // Reload the in-memory queue from IndexedDB, which is the source of truth
+  const refreshOfflineQueue = useCallback(async () => {
     try {
-      const storedQueue = localStorage.getItem('formOfflineQueue');
-      if (storedQueue) {
-        const rawQueue = JSON.parse(storedQueue);
-        // Sanitize any legacy queued items to only include API-allowed fields
-        const queue = (rawQueue as OfflineQueueItem[]).map(item => {
-          if (item.type === 'form_response') {
-            const d = item.data || {};
-            const sanitized = {
-              formId: d.formId,
-              respondentId: d.respondentId,
-              respondentEmail: d.respondentEmail,
-              isComplete: d.isComplete,
-              ipAddress: d.ipAddress,
-              userAgent: d.userAgent,
-              source: d.source,
-              data: d.data,
-            };
-            return { ...item, data: sanitized } as OfflineQueueItem;
-          }
-          return item;
-        });
-        setOfflineQueue(queue);
-        setSyncStatus(prev => ({ ...prev, pendingItems: queue.length }));
-      }
+      const items = await getQueueItems();
+      setOfflineQueue(items);
+      return items;
     } catch (error) {
       console.error('Error loading offline queue:', error);
+      return [];
     }
   }, []);
 
-  // Save offline queue to localStorage when it changes
+  // Load offline queue on mount, moving any localStorage queue from older versions into IndexedDB
   useEffect(() => {
-    try {
-      localStorage.setItem('formOfflineQueue', JSON.stringify(offlineQueue));
-      setSyncStatus(prev => ({ ...prev, pendingItems: offlineQueue.length }));
-    } catch (error) {
-      console.error('Error saving offline queue:', error);
-    }
-  }, [offlineQueue]);
+    const loadQueue = async () => {
+      try {
+        await migrateLegacyQueue(sanitizeQueuedItem);
+      } catch (error) {
+        console.error('Error migrating legacy offline queue:', error);
+      }
+      await refreshOfflineQueue();
+      setQueueLoaded(true);
+    };
+    loadQueue();
+  }, [refreshOfflineQueue]);
 
-  // Auto-sync when coming back online
+  // Keep the sync status counters in step with the queue
   useEffect(() => {
-    if (isOnline && offlineQueue.length > 0) {
-      processOfflineQueue();
-    }
-  }, [isOnline]);
+    const pending = offlineQueue.filter(item => item.status === 'pending');
+    const nextAttemptAt = pending.length > 0
+      ? Math.min(...pending.map(item => item.nextAttemptAt))
+      : null;
+    setSyncStatus(prev => ({
+      ...prev,
+      pendingItems: pending.length,
+      failedItems: offlineQueue.filter(item => item.status === 'failed').length,
+      conflictItems: offlineQueue.filter(item => item.status === 'conflict').length,
+      nextRetryAt: nextAttemptAt && nextAttemptAt > Date.now() ? new Date(nextAttemptAt) : null
+    }));
+  }, [offlineQueue]);
 
   // Callback setters
   const setCurrentForm = useCallback((form: Form | Partial<Form> | null) => {
@@ -298,16 +320,39 @@ export function FormProvider({ children }: FormProviderProps) {
   }, []);
 
   // Offline queue management
-  const addToOfflineQueue = useCallback((type: OfflineQueueItem['type'], data: any) => {
-    const queueItem: OfflineQueueItem = {
-      id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
-      type,
-      data,
-      timestamp: Date.now(),
-      retryCount: 0,
-      maxRetries: 3
-    };
+  const addToOfflineQueue = useCallback(<T extends OfflineQueueItem['type']>(type: T, data: OfflineQueuePayloads[T]) => {
+    const queueItem = createQueueItem(type, data);
     setOfflineQueue(prev => [...prev, queueItem]);
+    putQueueItem(queueItem).catch(error => {
+      console.error('Error saving offline queue item:', error);
+      toast({
+        title: "Offline Storage Error",
+        description: "This change could not be saved on the device and may be lost",
+        variant: "destructive",
+      });
+    });
+  }, []);
+
+  // Queue a response, moving any captured media blobs into IndexedDB alongside it
+  const queueFormResponse = useCallback(async (data: QueuedResponsePayload) => {
+    const queueItem = createQueueItem('form_response', data);
+    try {
+      const responseData = data.data || {};
+      if (hasLocalMedia(responseData)) {
+        queueItem.data = { ...data, data: await stashResponseMedia(queueItem.id, responseData) };
+      }
+      await putQueueItem(queueItem);
+      setOfflineQueue(prev => [...prev, queueItem]);
+    } catch (error) {
+      console.error('Error saving offline response:', error);
+      await deleteQueuedMediaForItem(queueItem.id).catch(() => undefined);
+      toast({
+        title: "Offline Storage Error",
+        description: "This response could not be saved on the device. Free up storage and try again.",
+        variant: "destructive",
+      });
+      throw error;
+    }
   }, []);
 
   // Migrate legacy (flat) conditional responses into the new nested structure
@@ -400,77 +445,180 @@ export function FormProvider({ children }: FormProviderProps) {
     }
   }, []);
 
-  const processOfflineQueue = useCallback(async () => {
-    if (!isOnline || offlineQueue.length === 0) return;
+  const processOfflineQueue = useCallback(async (options?: { ignoreBackoff?: boolean }) => {
+    if (!isOnline || isSyncingRef.current) return;
+
+    const now = Date.now();
+    const dueItems = (await refreshOfflineQueue()).filter(
+      item => item.status === 'pending' && (options?.ignoreBackoff || item.nextAttemptAt <= now)
+    );
+    if (dueItems.length === 0) return;
 
+    isSyncingRef.current = true;
     setSyncStatus(prev => ({ ...prev, isSyncing: true, syncProgress: 0 }));
-    // Migrate any legacy queued items into the latest schema before syncing
-    const migratedQueue: OfflineQueueItem[] = await Promise.all(
-      offlineQueue.map(async (item) => {
+
+    let syncedCount = 0;
+    let failedCount = 0;
+    let conflictCount = 0;
+
+    // Replay one item at a time so a failure only delays that item
+    for (let index = 0; index < dueItems.length; index++) {
+      let item = dueItems[index];
+      try {
+        // Migrate any legacy queued items into the latest schema before syncing
         if (item.type === 'form_response' && item.data && item.data.data) {
-          const migrated = await migrateConditionalResponses(item.data);
-          return { ...item, data: migrated } as OfflineQueueItem;
+          item = { ...item, data: await migrateConditionalResponses(item.data) };
+          // Media must be on the server before the response that references it
+          item = await uploadQueuedMedia(item);
         }
-        return item;
-      })
-    );
 
-    const results = await formsApi.syncOfflineData(migratedQueue);
-    const syncedCount = migratedQueue.length;
-    
-    if (results.success) {
-      setOfflineQueue([]);
-      setSyncStatus(prev => ({
-        ...prev,
-        isSyncing: false,
-        lastSyncTime: new Date(),
-        pendingItems: 0,
-        failedItems: 0,
-        syncProgress: 100
-      }));
+        const result = await formsApi.syncOfflineItem(item);
+        if (result.status === 'synced') {
+          await deleteQueueItem(item.id);
+          await deleteQueuedMediaForItem(item.id);
+          syncedCount++;
+        } else if (result.status === 'conflict') {
+          await putQueueItem({ ...item, status: 'conflict', lastError: result.error, lastAttemptAt: Date.now() });
+          conflictCount++;
+        } else {
+          throw new Error(result.error);
+        }
+      } catch (err) {
+        if (err instanceof MissingQueuedMediaError && item.type === 'form_response') {
+          // Retrying cannot bring the file back; the respondent decides in the sync panel
+          await putQueueItem({
+            ...item,
+            data: { ...item.data, missingMedia: true },
+            status: 'conflict',
+            lastError: err.message,
+            lastAttemptAt: Date.now()
+          }).catch(error => console.error('Error updating offline queue item:', error));
+          conflictCount++;
+          setSyncStatus(prev => ({ ...prev, syncProgress: ((index + 1) / dueItems.length) * 100 }));
+          continue;
+        }
+
+        const retryCount = item.retryCount + 1;
+        const exhausted = retryCount >= item.maxRetries;
+        await putQueueItem({
+          ...item,
+          retryCount,
+          status: exhausted ? 'failed' : 'pending',
+          nextAttemptAt: Date.now() + getBackoffDelay(retryCount),
+          lastError: err instanceof Error ? err.message : 'Failed to sync item',
+          lastAttemptAt: Date.now()
+        }).catch(error => console.error('Error updating offline queue item:', error));
+        failedCount++;
+      }
+
+      setSyncStatus(prev => ({ ...prev, syncProgress: ((index + 1) / dueItems.length) * 100 }));
+    }
+
+    await refreshOfflineQueue();
+    isSyncingRef.current = false;
+    setSyncStatus(prev => ({
+      ...prev,
+      isSyncing: false,
+      lastSyncTime: syncedCount > 0 ? new Date() : prev.lastSyncTime,
+      syncProgress: 100
+    }));
+
+    if (failedCount === 0 && conflictCount === 0) {
       toast({
         title: "✅ Sync Complete!",
         description: `Successfully synced ${syncedCount} ${syncedCount === 1 ? 'item' : 'items'} to the server. All pending data has been uploaded.`,
         duration: 5000,
       });
+    } else if (conflictCount > 0) {
+      toast({
+        title: "Sync Conflicts",
+        description: `${syncedCount} synced, ${conflictCount} need your attention (form changed on the server or attachments missing). Review them in the sync panel.`,
+        variant: "destructive",
+      });
     } else {
-      setOfflineQueue(results.failedItems);
-      setSyncStatus(prev => ({
-        ...prev,
-        isSyncing: false,
-        pendingItems: results.failedItems.length,
-        failedItems: results.failedItems.length,
-        syncProgress: 100
-      }));
       toast({
         title: "Partial Sync",
-        description: `${offlineQueue.length - results.failedItems.length} items synced, ${results.failedItems.length} failed`,
+        description: `${syncedCount} items synced, ${failedCount} failed and will be retried automatically`,
         variant: "destructive",
       });
     }
-  }, [isOnline, offlineQueue]);
+  }, [isOnline, refreshOfflineQueue, migrateConditionalResponses]);
+
+  // Auto-sync once the queue has loaded, and whenever the device comes back online
+  useEffect(() => {
+    if (isOnline && queueLoaded) {
+      processOfflineQueue();
+    }
+  }, [isOnline, queueLoaded, processOfflineQueue]);
+
+  // Wake up when the earliest backed-off item becomes due
+  useEffect(() => {
+    if (!isOnline || !syncStatus.nextRetryAt) return;
+    const delay = Math.max(syncStatus.nextRetryAt.getTime() - Date.now(), 0);
+    const timer = window.setTimeout(() => {
+      processOfflineQueue();
+    }, delay);
+    return () => window.clearTimeout(timer);
+  }, [isOnline, syncStatus.nextRetryAt, processOfflineQueue]);
 
   const retryFailedItems = useCallback(async () => {
-    const failedItems = offlineQueue.filter(item => item.retryCount >= item.maxRetries);
-    const retryItems = failedItems.map(item => ({ ...item, retryCount: 0 }));
-    
-    setOfflineQueue(prev => [
-      ...prev.filter(item => item.retryCount < item.maxRetries),
-      ...retryItems
-    ]);
-    
+    const failedItems = offlineQueue.filter(item => item.status === 'failed');
+    await Promise.all(failedItems.map(item => putQueueItem({
+      ...item,
+      status: 'pending',
+      retryCount: 0,
+      nextAttemptAt: Date.now()
+    })));
+
     await processOfflineQueue();
   }, [offlineQueue, processOfflineQueue]);
 
+  const resolveConflict = useCallback(async (itemId: string, resolution: 'discard' | 'overwrite') => {
+    const item = offlineQueue.find(queued => queued.id === itemId);
+    if (!item) return;
+
+    if (resolution === 'discard') {
+      await deleteQueueItem(itemId);
+      await deleteQueuedMediaForItem(itemId);
+      await refreshOfflineQueue();
+      return;
+    }
+
+    let resent: OfflineQueueItem = item;
+    if (item.type === 'form_response' && item.data.missingMedia) {
+      // Attachments are gone from the device; send the response without them
+      const data = { ...item.data, allowMissingMedia: true };
+      delete data.missingMedia;
+      resent = { ...item, data };
+    } else if (item.type === 'form_update') {
+      // Resend without the version guard so the local change replaces the server copy
+      const data = { ...item.data };
+      delete data.expectedVersion;
+      resent = { ...item, data };
+    }
+    await putQueueItem({
+      ...resent,
+      status: 'pending',
+      retryCount: 0,
+      nextAttemptAt: Date.now(),
+      lastError: undefined
+    });
+    await processOfflineQueue();
+  }, [offlineQueue, refreshOfflineQueue, processOfflineQueue]);
+
   const clearOfflineQueue = useCallback(() => {
     setOfflineQueue([]);
-    setSyncStatus(prev => ({ ...prev, pendingItems: 0, failedItems: 0 }));
+    clearQueueItems().catch(error => console.error('Error clearing offline queue:', error));
   }, []);
 
   const getOfflineQueue = useCallback(() => offlineQueue, [offlineQueue]);
 
   const getFailedItems = useCallback(() => {
-    return offlineQueue.filter(item => item.retryCount >= item.maxRetries);
+    return offlineQueue.filter(item => item.status === 'failed');
+  }, [offlineQueue]);
+
+  const getConflictItems = useCallback(() => {
+    return offlineQueue.filter(item => item.status === 'conflict');
   }, [offlineQueue]);
 
   // CRUD Operations
@@ -520,10 +668,14 @@ export function FormProvider({ children }: FormProviderProps) {
   const updateForm = useCallback(async (projectId: string, formId: string, updates: Partial<Form>): Promise<Form | null> => {
     setLoading(true);
     setError(null);
+    // Remember which version the edit was based on so a stale replay is rejected, not applied
+    const expectedVersion = updates.version
+      ?? (currentForm?.id === formId ? currentForm.version : undefined)
+      ?? projectForms[projectId]?.find(f => f.id === formId)?.version;
     
     try {
       if (!isOnline) {
-        addToOfflineQueue('form_update', { ...updates, projectId, id: formId });
+        addToOfflineQueue('form_update', { ...updates, projectId, id: formId, expectedVersion });
         toast({
           title: "Offline Mode",
           description: "Changes will be saved when you're back online",
@@ -558,12 +710,50 @@ export function FormProvider({ children }: FormProviderProps) {
         variant: "destructive",
       });
       
-      addToOfflineQueue('form_update', { ...updates, projectId, id: formId });
+      addToOfflineQueue('form_update', { ...updates, projectId, id: formId, expectedVersion });
       return null;
     } finally {
       setLoading(false);
     }
-  }, [isOnline, addToOfflineQueue, currentForm]);
+  }, [isOnline, addToOfflineQueue, currentForm, projectForms]);
+
+  // Publishing is never queued offline: the server records the version snapshot in the same request
+  const publishForm = useCallback(async (projectId: string, formId: string, changes?: Partial<Form>): Promise<PublishFormResult | null> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      if (!isOnline) {
+        throw new Error('Publishing a form needs a connection. Save it as a draft and publish when you are back online.');
+      }
+
+      const result = await formsApi.publishForm(projectId, formId, changes);
+
+      // Update local cache
+      setProjectForms(prev => ({
+        ...prev,
+        [projectId]: (prev[projectId] || []).map(f => f.id === formId ? result.form : f)
+      }));
+
+      if (currentForm?.id === formId) {
+        setCurrentForm(result.form);
+      }
+
+      setHasUnsavedChangesState(false);
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to publish form';
+      setError(errorMessage);
+      toast({
+        title: "Publishing Failed",
+        description: errorMessage,
+        variant: "destructive",
+      });
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [isOnline, currentForm, setCurrentForm]);
 
   const deleteForm = useCallback(async (projectId: string, formId: string): Promise<boolean> => {
     setLoading(true);
@@ -724,19 +914,14 @@ export function FormProvider({ children }: FormProviderProps) {
   const getFormResponses = useCallback(async (
     projectId: string, 
     formId: string,
-    options?: {
-      page?: number;
-      limit?: number;
-      search?: string;
-      status?: 'all' | 'complete' | 'incomplete';
-    }
+    options?: FormResponseQueryOptions
   ): Promise<{ 
     responses: FormResponse[]; 
     total: number; 
     page: number; 
     limit: number; 
     totalPages: number;
-    stats: { totalAll: number; totalComplete: number; totalIncomplete: number }
+    stats: { totalAll: number; totalComplete: number; totalIncomplete: number; totalFlagged?: number }
   }> => {
     try {
       const result = await formsApi.getFormResponses(projectId, formId, options);
@@ -763,22 +948,30 @@ export function FormProvider({ children }: FormProviderProps) {
     }
   }, []); // No dependencies - function is stable and doesn't cause re-renders
 
-  const addFormResponseToStorage = useCallback(async (response: FormResponse): Promise<FormResponse | null> => {
+  const addFormResponseToStorage = useCallback(async (response: FormResponse, projectId?: string): Promise<FormResponse | null> => {
+    // Queue only allowed DTO fields for API
+    // Note: The response.data should already be processed with conditional responses merged
+    // by the calling code (PublicFormFiller.handleSubmit)
+    const queuedResponse = {
+      formId: response.formId,
+      projectId,
+      respondentId: response.respondentId,
+      respondentEmail: response.respondentEmail,
+      isComplete: response.isComplete,
+      ipAddress: (response as any).ipAddress,
+      userAgent: (response as any).userAgent,
+      source: (response as any).source,
+      language: response.language,
+      data: response.data // This should already contain merged conditional responses
+    };
+
     try {
       if (!isOnline) {
-        // Queue only allowed DTO fields for API
-        // Note: The response.data should already be processed with conditional responses merged
-        // by the calling code (PublicFormFiller.handleSubmit)
-        addToOfflineQueue('form_response', {
-          formId: response.formId,
-          respondentId: response.respondentId,
-          respondentEmail: response.respondentEmail,
-          isComplete: response.isComplete,
-          ipAddress: (response as any).ipAddress,
-          userAgent: (response as any).userAgent,
-          source: (response as any).source,
-          data: response.data // This should already contain merged conditional responses
-        });
+        try {
+          await queueFormResponse(queuedResponse);
+        } catch {
+          return null;
+        }
         toast({
           title: "Offline Mode",
           description: "Response will be submitted when you're back online",
@@ -786,12 +979,18 @@ export function FormProvider({ children }: FormProviderProps) {
         return null;
       }
 
+      let responseData = response.data;
+      if (hasLocalMedia(responseData)) {
+        responseData = await uploadInlineMedia(response.formId, responseData, projectId);
+      }
+
       const submitPayload = {
         formId: response.formId,
         respondentId: response.respondentId,
         respondentEmail: response.respondentEmail,
         isComplete: response.isComplete,
-        data: response.data
+        language: response.language,
+        data: responseData
       };
       const submittedResponse = isAuthenticated
         ? await formsApi.submitResponseAuthenticated(submitPayload)
@@ -816,19 +1015,10 @@ export function FormProvider({ children }: FormProviderProps) {
         variant: "destructive",
       });
       // Fallback to queueing allowed DTO only
-      addToOfflineQueue('form_response', {
-        formId: response.formId,
-        respondentId: response.respondentId,
-        respondentEmail: response.respondentEmail,
-        isComplete: response.isComplete,
-        ipAddress: (response as any).ipAddress,
-        userAgent: (response as any).userAgent,
-        source: (response as any).source,
-        data: response.data
-      });
+      await queueFormResponse(queuedResponse).catch(() => undefined);
       return null;
     }
-  }, [isOnline, addToOfflineQueue, isAuthenticated]);
+  }, [isOnline, queueFormResponse, isAuthenticated]);
 
   const updateFormResponse = useCallback(async (projectId: string, formId: string, responseId: string, updates: UpdateFormResponseDto): Promise<FormResponse | null> => {
     try {
@@ -1304,6 +1494,7 @@ export function FormProvider({ children }: FormProviderProps) {
     error,
     createForm,
     updateForm,
+    publishForm,
     deleteForm,
     duplicateForm,
     loadForm,
@@ -1332,6 +1523,8 @@ export function FormProvider({ children }: FormProviderProps) {
     clearOfflineQueue,
     getOfflineQueue,
     getFailedItems,
+    getConflictItems,
+    resolveConflict,
     getConditionalQuestions,
     getConditionalResponses,
     validateConditionalQuestions,
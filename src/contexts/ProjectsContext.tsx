@@ -2,6 +2,8 @@ import React, { createContext, useContext, useState, useEffect, useCallback } fr
 import { Project, User, Outcome, Activity, Report } from '@/types/dashboard';
 import { projectsApi } from '@/lib/api/projectsApi';
 import { projectDataApi } from '@/lib/api/projectDataApi';
+import { namingRegistryApi } from '@/lib/api/namingRegistryApi';
+import { DEFAULT_NAMING_REGISTRY, NamingRegistry } from '@/lib/namingConvention';
 import { useAuth } from './AuthContext';
 import { createEnhancedPermissionManager } from '@/lib/permissions';
 
@@ -31,6 +33,10 @@ interface ProjectsContextType {
   getProjectKPIs: (projectId: string) => Promise<any[]>;
   getProjectReports: (projectId: string) => Promise<Report[]>;
   
+  // Naming convention code lists (server-side registry, built-in lists until loaded)
+  namingRegistry: NamingRegistry;
+  saveNamingRegistry: (registry: NamingRegistry) => Promise<NamingRegistry>;
+  
   // Data refresh trigger for UI components
   dataRefreshTrigger: number;
   triggerDataRefresh: () => void;
@@ -43,6 +49,7 @@ export function ProjectsProvider({ children }: { children: React.ReactNode }) {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [dataRefreshTrigger, setDataRefreshTrigger] = useState(0);
+  const [namingRegistry, setNamingRegistry] = useState<NamingRegistry>(DEFAULT_NAMING_REGISTRY);
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
 
   // Create enhanced permission manager with current auth context
@@ -105,6 +112,20 @@ export function ProjectsProvider({ children }: { children: React.ReactNode }) {
     }
   }, [loadProjects, isAuthenticated, authLoading]);
 
+  // Load the naming registry, keeping the built-in lists if it is unavailable
+  useEffect(() => {
+    if (!isAuthenticated || authLoading) return;
+    namingRegistryApi.getRegistry()
+      .then(setNamingRegistry)
+      .catch(err => console.error('Error loading naming registry, using built-in code lists:', err));
+  }, [isAuthenticated, authLoading]);
+
+  const saveNamingRegistry = useCallback(async (registry: NamingRegistry): Promise<NamingRegistry> => {
+    const saved = await namingRegistryApi.updateRegistry(registry);
+    setNamingRegistry(saved);
+    return saved;
+  }, []);
+
   // Add a new project
   const addProject = async (projectData: Omit<Project, 'id'>): Promise<Project> => {
     try {
@@ -378,6 +399,8 @@ export function ProjectsProvider({ children }: { children: React.ReactNode }) {
     getProjectSubActivities,
     getProjectKPIs,
     getProjectReports,
+    namingRegistry,
+    saveNamingRegistry,
     dataRefreshTrigger,
     triggerDataRefresh,
   };
@@ -5,7 +5,8 @@ import {
   ReportApprovalStep, 
   ReportComment, 
   ReportNotification,
-  User 
+  User,
+  ApprovalChainTemplate
 } from '@/types/dashboard';
 import { 
   createApprovalWorkflow,
@@ -14,6 +15,9 @@ import {
   addCommentToStep,
   skipStep,
   getCurrentStep,
+  getCurrentSteps,
+  getNextStep,
+  resolveApprovalChainTemplate,
   getPendingReviewsForUser,
   getSubmittedReportsPendingReview,
   createPendingReviewNotification
@@ -45,8 +49,8 @@ interface ReportContextType {
   markNotificationAsRead: (notificationId: string) => void;
   clearNotifications: () => void;
   
-  // Create new report with workflow
-  createReportWithWorkflow: (reportData: Omit<Report, 'id' | 'approvalWorkflow' | 'currentAuthLevel' | 'isPendingReview'>, users: User[]) => Report;
+  // Create new report with workflow; the approval chain template matching its project and category applies
+  createReportWithWorkflow: (reportData: Omit<Report, 'id' | 'approvalWorkflow' | 'currentAuthLevel' | 'isPendingReview'>, users: User[], chainTemplates?: ApprovalChainTemplate[]) => Report;
 }
 
 const ReportContext = createContext<ReportContextType | undefined>(undefined);
@@ -122,37 +126,47 @@ export function ReportProvider({ children }: ReportProviderProps) {
 
   const createReportWithWorkflow = (
     reportData: Omit<Report, 'id' | 'approvalWorkflow' | 'currentAuthLevel' | 'isPendingReview'>, 
-    users: User[]
+    users: User[],
+    chainTemplates: ApprovalChainTemplate[] = []
   ): Report => {
     const reportId = `report-${Date.now()}`;
     const workflow = createApprovalWorkflow(
       reportId,
       reportData.projectId,
       reportData.uploadedBy,
-      users
+      users,
+      resolveApprovalChainTemplate(chainTemplates, reportData.projectId, reportData.category)
     );
+    const firstStep = getCurrentStep(workflow);
 
     const newReport: Report = {
       ...reportData,
       id: reportId,
       approvalWorkflow: workflow,
-      currentAuthLevel: 'branch-admin',
+      currentAuthLevel: firstStep?.requiredRole || 'branch-admin',
       isPendingReview: true,
-      currentReviewerId: workflow.steps[0]?.assignedUserId,
-      nextReviewerId: workflow.steps[1]?.assignedUserId
+      currentReviewerId: firstStep?.assignedUserId,
+      nextReviewerId: getNextStep(workflow)?.assignedUserId
     };
 
     addReport(newReport);
 
-    // Create notification for the first reviewer
-    if (workflow.steps[0]?.assignedUserId) {
-      const notification = createPendingReviewNotification(newReport, workflow.steps[0].assignedUserId);
-      addNotification(notification);
-    }
+    // Create notifications for the first stage's reviewers
+    notifyCurrentReviewers(newReport, workflow);
 
     return newReport;
   };
 
+  // Every reviewer of the current stage is notified; parallel stages have more than one
+  const notifyCurrentReviewers = (report: Report, workflow: ReportApprovalWorkflow) => {
+    if (workflow.status !== 'in-progress') return;
+    getCurrentSteps(workflow).forEach(step => {
+      if (step.assignedUserId) {
+        addNotification(createPendingReviewNotification({ ...report, approvalWorkflow: workflow }, step.assignedUserId));
+      }
+    });
+  };
+
   const approveReportStep = (reportId: string, stepId: string, userId: string, userName: string, comment?: string) => {
     const report = getReportById(reportId);
     if (!report) return;
@@ -166,13 +180,12 @@ export function ReportProvider({ children }: ReportProviderProps) {
       currentAuthLevel: updatedWorkflow.status === 'approved' ? 'approved' : currentStep?.requiredRole || 'branch-admin',
       isPendingReview: updatedWorkflow.status !== 'approved',
       currentReviewerId: currentStep?.assignedUserId,
-      nextReviewerId: updatedWorkflow.steps.find(step => step.stepNumber === (currentStep?.stepNumber || 0) + 1)?.assignedUserId
+      nextReviewerId: getNextStep(updatedWorkflow)?.assignedUserId
     });
 
-    // Create notification for next reviewer if workflow is still in progress
-    if (updatedWorkflow.status === 'in-progress' && currentStep?.assignedUserId) {
-      const notification = createPendingReviewNotification(report, currentStep.assignedUserId);
-      addNotification(notification);
+    // Notify the next stage's reviewers when this approval completed the stage
+    if (updatedWorkflow.currentStep !== report.approvalWorkflow.currentStep) {
+      notifyCurrentReviewers(report, updatedWorkflow);
     }
   };
 
@@ -211,13 +224,12 @@ export function ReportProvider({ children }: ReportProviderProps) {
       currentAuthLevel: updatedWorkflow.status === 'approved' ? 'approved' : currentStep?.requiredRole || 'branch-admin',
       isPendingReview: updatedWorkflow.status !== 'approved',
       currentReviewerId: currentStep?.assignedUserId,
-      nextReviewerId: updatedWorkflow.steps.find(step => step.stepNumber === (currentStep?.stepNumber || 0) + 1)?.assignedUserId
+      nextReviewerId: getNextStep(updatedWorkflow)?.assignedUserId
     });
 
-    // Create notification for next reviewer if workflow is still in progress
-    if (updatedWorkflow.status === 'in-progress' && currentStep?.assignedUserId) {
-      const notification = createPendingReviewNotification(report, currentStep.assignedUserId);
-      addNotification(notification);
+    // Notify the next stage's reviewers when the skip completed the stage
+    if (updatedWorkflow.currentStep !== report.approvalWorkflow.currentStep) {
+      notifyCurrentReviewers(report, updatedWorkflow);
     }
   };
 
@@ -6,6 +6,8 @@ export interface APIResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  errorCode?: string; // Machine-readable code from the error body, when the server sends one
+  status?: number;
 }
 
 export class APIClient {
@@ -54,12 +56,13 @@ export class APIClient {
         return {
           success: false,
           error: 'Authentication required',
+          status: 401,
         };
       }
 
       // Handle 204 No Content responses (empty body)
       if (response.status === 204) {
-        return { success: true, data: undefined };
+        return { success: true, data: undefined, status: 204 };
       }
 
       const data = await response.json();
@@ -95,11 +98,13 @@ export class APIClient {
       }
 
       if (response.ok) {
-        return { success: true, data };
+        return { success: true, data, status: response.status };
       } else {
         return {
           success: false,
           error: data.message || `HTTP ${response.status}`,
+          errorCode: typeof data.code === 'string' ? data.code : undefined,
+          status: response.status,
         };
       }
     } catch (error: any) {
@@ -116,38 +121,42 @@ export class APIClient {
     return this.request<T>(endpoint, { method: 'GET' });
   }
 
-  async post<T>(endpoint: string, data?: any): Promise<APIResponse<T>> {
+  async post<T>(endpoint: string, data?: any, headers?: Record<string, string>): Promise<APIResponse<T>> {
     return this.request<T>(endpoint, {
       method: 'POST',
       body: data ? JSON.stringify(data) : undefined,
+      headers,
     });
   }
 
-  async put<T>(endpoint: string, data?: any): Promise<APIResponse<T>> {
+  async put<T>(endpoint: string, data?: any, headers?: Record<string, string>): Promise<APIResponse<T>> {
     return this.request<T>(endpoint, {
       method: 'PUT',
       body: data ? JSON.stringify(data) : undefined,
+      headers,
     });
   }
 
-  async patch<T>(endpoint: string, data?: any): Promise<APIResponse<T>> {
+  async patch<T>(endpoint: string, data?: any, headers?: Record<string, string>): Promise<APIResponse<T>> {
     return this.request<T>(endpoint, {
       method: 'PATCH',
       body: data ? JSON.stringify(data) : undefined,
+      headers,
     });
   }
 
-  async delete<T>(endpoint: string, data?: any): Promise<APIResponse<T>> {
+  async delete<T>(endpoint: string, data?: any, headers?: Record<string, string>): Promise<APIResponse<T>> {
     return this.request<T>(endpoint, {
       method: 'DELETE',
       body: data ? JSON.stringify(data) : undefined,
+      headers,
     });
   }
 
   // Helper method for file uploads
-  async upload<T>(endpoint: string, formData: FormData): Promise<APIResponse<T>> {
+  async upload<T>(endpoint: string, formData: FormData, extraHeaders?: Record<string, string>): Promise<APIResponse<T>> {
     const token = this.getAuthToken();
-    const headers: Record<string, string> = {};
+    const headers: Record<string, string> = { ...extraHeaders };
     
     if (token) {
       headers['Authorization'] = `Bearer ${token}`;
@@ -168,12 +177,13 @@ export class APIClient {
         return {
           success: false,
           error: 'Authentication required',
+          status: 401,
         };
       }
 
       // Handle 204 No Content responses (empty body)
       if (response.status === 204) {
-        return { success: true, data: undefined };
+        return { success: true, data: undefined, status: 204 };
       }
 
       const data = await response.json();
@@ -209,11 +219,13 @@ export class APIClient {
       }
 
       if (response.ok) {
-        return { success: true, data };
+        return { success: true, data, status: response.status };
       } else {
         return {
           success: false,
           error: data.message || `HTTP ${response.status}`,
+          errorCode: typeof data.code === 'string' ? data.code : undefined,
+          status: response.status,
         };
       }
     } catch (error: any) {
@@ -22,6 +22,7 @@ export interface CreateActivityFinancialDataDto {
   q3Cost?: number;
   q4Cost?: number;
   totalAnnualBudget?: number;
+  currency?: string; // Currency the budget and costs are recorded in; USD when omitted
   notes?: string;
 }
 
@@ -32,6 +33,7 @@ export interface UpdateActivityFinancialDataDto {
   q3Cost?: number;
   q4Cost?: number;
   totalAnnualBudget?: number;
+  currency?: string;
   notes?: string;
 }
 
@@ -59,11 +61,136 @@ export interface ActivityFinancialData {
   totalAnnualBudget: number;
   totalAnnualCost: number;
   variance: number;
+  currency?: string; // Original currency of the budget and quarterly costs; USD when absent
   notes?: string;
   createdAt: Date;
   lastUpdated: Date;
 }
 
+// Units of `currency` per 1 USD, effective for a month or a quarter
+export interface ExchangeRate {
+  id: string;
+  currency: string;
+  year: number;
+  period: 'MONTH' | 'QUARTER';
+  month?: number; // 1-12 when period is MONTH
+  quarter?: number; // 1-4 when period is QUARTER
+  rate: number;
+  source?: string; // e.g. "Central bank mid-rate"
+  updatedBy?: string;
+  updatedAt: Date;
+}
+
+export interface SaveExchangeRateDto {
+  currency: string;
+  year: number;
+  period: 'MONTH' | 'QUARTER';
+  month?: number;
+  quarter?: number;
+  rate: number;
+  source?: string;
+}
+
+// Donor budget categories an activity budget is broken down into
+export type BudgetCategory = 'PERSONNEL' | 'TRAVEL' | 'SUPPLIES' | 'EQUIPMENT' | 'SUB_GRANTS' | 'OTHER';
+
+// A spend posted against a budget line, in the activity's currency
+export interface BudgetActual {
+  id: string;
+  budgetLineId: string;
+  amount: number;
+  date: Date;
+  description?: string;
+  reference?: string; // Voucher or invoice number
+  postedBy?: string;
+  createdAt: Date;
+}
+
+// One line of an activity's budget for a year, in the activity's currency
+export interface BudgetLineItem {
+  id: string;
+  activityId: string;
+  year: number;
+  category: BudgetCategory;
+  description: string;
+  budget: number;
+  actuals: BudgetActual[];
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateBudgetLineItemDto {
+  activityId: string;
+  year: number;
+  category: BudgetCategory;
+  description: string;
+  budget: number;
+  notes?: string;
+}
+
+export interface UpdateBudgetLineItemDto {
+  category?: BudgetCategory;
+  description?: string;
+  budget?: number;
+  notes?: string;
+}
+
+export interface PostBudgetActualDto {
+  amount: number;
+  date: string; // ISO date the spend was incurred
+  description?: string;
+  reference?: string;
+}
+
+export type GrantStatus = 'PIPELINE' | 'ACTIVE' | 'CLOSED';
+
+// A donor award funding one or more projects
+export interface Grant {
+  id: string;
+  donorName: string;
+  title: string;
+  awardReference?: string;
+  awardAmount: number;
+  currency: string; // Currency the award is made in
+  reportingCurrency?: string; // Currency the donor wants reports in; the award currency when absent
+  startDate: Date;
+  endDate: Date;
+  fiscalYearStartMonth: number; // 1-12, start of the donor's fiscal year
+  status: GrantStatus;
+  restrictions?: string;
+  projectIds: string[];
+  eligibleActivityIds?: string[]; // Activities the award may fund; any activity of the linked projects when empty
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SaveGrantDto {
+  donorName: string;
+  title: string;
+  awardReference?: string;
+  awardAmount: number;
+  currency: string;
+  reportingCurrency?: string;
+  startDate: string;
+  endDate: string;
+  fiscalYearStartMonth: number;
+  status: GrantStatus;
+  restrictions?: string;
+  projectIds: string[];
+  eligibleActivityIds?: string[];
+}
+
+// Share of an activity's spend in a year charged to a grant
+export interface GrantAllocation {
+  id: string;
+  grantId: string;
+  activityId: string;
+  year: number;
+  percentage: number; // 0-100; an activity's shares add up to at most 100
+  updatedAt: Date;
+}
+
 export interface QuarterlyFinancialData {
   budget: number;
   spent: number;
@@ -182,6 +309,136 @@ export const financialApi = {
       return response.data as { message: string };
   },
 
+  // Budget Line Items
+  async getBudgetLineItems(activityId: string, year: number): Promise<BudgetLineItem[]> {
+    const response = await apiClient.get(`/financial/activities/${activityId}/budget-lines?year=${year}`);
+    if (response.success && response.data) {
+      return response.data as BudgetLineItem[];
+    }
+    throw new Error(response.error || 'Failed to fetch budget lines');
+  },
+
+  async createBudgetLineItem(data: CreateBudgetLineItemDto): Promise<BudgetLineItem> {
+    const response = await apiClient.post('/financial/budget-lines', data);
+    if (response.success && response.data) {
+      return response.data as BudgetLineItem;
+    }
+    throw new Error(response.error || 'Failed to create budget line');
+  },
+
+  async updateBudgetLineItem(id: string, data: UpdateBudgetLineItemDto): Promise<BudgetLineItem> {
+    const response = await apiClient.put(`/financial/budget-lines/${id}`, data);
+    if (response.success && response.data) {
+      return response.data as BudgetLineItem;
+    }
+    throw new Error(response.error || 'Failed to update budget line');
+  },
+
+  async deleteBudgetLineItem(id: string): Promise<void> {
+    const response = await apiClient.delete(`/financial/budget-lines/${id}`);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to delete budget line');
+    }
+  },
+
+  // Returns the budget line with the new actual included
+  async postBudgetActual(budgetLineId: string, data: PostBudgetActualDto): Promise<BudgetLineItem> {
+    const response = await apiClient.post(`/financial/budget-lines/${budgetLineId}/actuals`, data);
+    if (response.success && response.data) {
+      return response.data as BudgetLineItem;
+    }
+    throw new Error(response.error || 'Failed to post actual');
+  },
+
+  async deleteBudgetActual(budgetLineId: string, actualId: string): Promise<BudgetLineItem> {
+    const response = await apiClient.delete(`/financial/budget-lines/${budgetLineId}/actuals/${actualId}`);
+    if (response.success && response.data) {
+      return response.data as BudgetLineItem;
+    }
+    throw new Error(response.error || 'Failed to delete actual');
+  },
+
+  // Grants
+  async getGrants(projectId?: string): Promise<Grant[]> {
+    const url = projectId ? `/financial/grants?projectId=${projectId}` : '/financial/grants';
+    const response = await apiClient.get(url);
+    if (response.success && response.data) {
+      return response.data as Grant[];
+    }
+    throw new Error(response.error || 'Failed to fetch grants');
+  },
+
+  async createGrant(data: SaveGrantDto): Promise<Grant> {
+    const response = await apiClient.post('/financial/grants', data);
+    if (response.success && response.data) {
+      return response.data as Grant;
+    }
+    throw new Error(response.error || 'Failed to create grant');
+  },
+
+  async updateGrant(id: string, data: SaveGrantDto): Promise<Grant> {
+    const response = await apiClient.put(`/financial/grants/${id}`, data);
+    if (response.success && response.data) {
+      return response.data as Grant;
+    }
+    throw new Error(response.error || 'Failed to update grant');
+  },
+
+  async deleteGrant(id: string): Promise<void> {
+    const response = await apiClient.delete(`/financial/grants/${id}`);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to delete grant');
+    }
+  },
+
+  // Every year's allocations to the grant, across all the projects it funds
+  async getGrantAllocations(grantId: string): Promise<GrantAllocation[]> {
+    const response = await apiClient.get(`/financial/grants/${grantId}/allocations`);
+    if (response.success && response.data) {
+      return response.data as GrantAllocation[];
+    }
+    throw new Error(response.error || 'Failed to fetch grant allocations');
+  },
+
+  // Replaces the activity's allocations for the year
+  async saveActivityGrantAllocations(
+    activityId: string,
+    year: number,
+    allocations: Array<{ grantId: string; percentage: number }>
+  ): Promise<GrantAllocation[]> {
+    const response = await apiClient.put(`/financial/activities/${activityId}/grant-allocations`, { year, allocations });
+    if (response.success && response.data) {
+      return response.data as GrantAllocation[];
+    }
+    throw new Error(response.error || 'Failed to save grant allocations');
+  },
+
+  // Exchange Rates (organisation-wide, maintained by finance admins)
+  async getExchangeRates(year?: number): Promise<ExchangeRate[]> {
+    const url = year ? `/financial/exchange-rates?year=${year}` : '/financial/exchange-rates';
+    const response = await apiClient.get(url);
+    if (response.success && response.data) {
+      return response.data as ExchangeRate[];
+    }
+    throw new Error(response.error || 'Failed to fetch exchange rates');
+  },
+
+  // Creates the rate for the currency and period, or replaces the existing one
+  async saveExchangeRate(data: SaveExchangeRateDto): Promise<ExchangeRate> {
+    const response = await apiClient.put('/financial/exchange-rates', data);
+    if (response.success && response.data) {
+      return response.data as ExchangeRate;
+    }
+    throw new Error(response.error || 'Failed to save exchange rate');
+  },
+
+  async deleteExchangeRate(id: string): Promise<void> {
+    const response = await apiClient.delete(`/financial/exchange-rates/${id}`);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to delete exchange rate');
+    }
+  },
+
   // Financial Summary and Analytics
   async getFinancialSummary(projectId: string, year: number): Promise<FinancialSummary> {
     const response = await apiClient.get(`/financial/projects/${projectId}/summary/${year}`);
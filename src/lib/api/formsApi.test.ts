@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ResponseColumnFilter } from '@/components/dashboard/form-creation-wizard/types';
+import { createQueueItem } from '@/lib/offlineQueueStore';
+import { apiClient } from './client';
+import { IDEMPOTENCY_REPLAY_CODE, formsApi } from './formsApi';
+
+vi.mock('./client', () => ({
+  apiClient: {
+    get: vi.fn(),
+    post: vi.fn(),
+    put: vi.fn(),
+    patch: vi.fn(),
+    delete: vi.fn(),
+    upload: vi.fn(),
+  },
+}));
+
+const get = vi.mocked(apiClient.get);
+const post = vi.mocked(apiClient.post);
+
+const responseItem = () => createQueueItem('form_response', {
+  formId: 'form-1',
+  projectId: 'project-1',
+  isComplete: true,
+  language: 'fr',
+  data: { q1: 'yes' },
+});
+
+describe('formsApi.syncOfflineItem for new responses', () => {
+  beforeEach(() => {
+    post.mockReset();
+  });
+
+  it('sends the idempotency key and response language with the submission', async () => {
+    post.mockResolvedValue({ success: true, data: {}, status: 201 });
+    const item = responseItem();
+
+    expect(await formsApi.syncOfflineItem(item)).toEqual({ status: 'synced' });
+    expect(post).toHaveBeenCalledWith(
+      '/forms/responses',
+      expect.objectContaining({ formId: 'form-1', language: 'fr', data: { q1: 'yes' } }),
+      { 'Idempotency-Key': item.idempotencyKey }
+    );
+  });
+
+  it('treats a confirmed idempotency replay as synced', async () => {
+    post.mockResolvedValue({ success: false, status: 409, errorCode: IDEMPOTENCY_REPLAY_CODE, error: 'Already submitted' });
+
+    expect(await formsApi.syncOfflineItem(responseItem())).toEqual({ status: 'synced' });
+  });
+
+  it('keeps the response queued on any other 409', async () => {
+    post.mockResolvedValue({ success: false, status: 409, errorCode: 'FORM_CLOSED', error: 'This form is closed' });
+
+    expect(await formsApi.syncOfflineItem(responseItem())).toEqual({ status: 'conflict', error: 'This form is closed' });
+  });
+
+  it('keeps the response queued on a 409 without an error code', async () => {
+    post.mockResolvedValue({ success: false, status: 409 });
+
+    const result = await formsApi.syncOfflineItem(responseItem());
+    expect(result.status).toBe('conflict');
+    expect(result.error).toBeTruthy();
+  });
+
+  it('reports other errors as failed', async () => {
+    post.mockResolvedValue({ success: false, status: 500, error: 'Server error' });
+
+    expect(await formsApi.syncOfflineItem(responseItem())).toEqual({ status: 'failed', error: 'Server error' });
+  });
+});
+
+describe('formsApi response query encoding', () => {
+  const responsesPage = { responses: [], total: 0, page: 1, limit: 20, totalPages: 0, stats: { totalAll: 0, totalComplete: 0, totalIncomplete: 0 } };
+
+  // Query parameters of the last responses request, as the server would parse them
+  const sentParams = () => new URL(get.mock.calls[get.mock.calls.length - 1][0], 'http://localhost').searchParams;
+
+  beforeEach(() => {
+    get.mockReset();
+    get.mockResolvedValue({ success: true, data: responsesPage });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends no query string when nothing is filtered', async () => {
+    await formsApi.getFormResponses('project-1', 'form-1', { status: 'all', filters: [] });
+
+    expect(get).toHaveBeenCalledWith('/forms/projects/project-1/forms/form-1/responses');
+  });
+
+  it('leaves out column filters that have no values yet', async () => {
+    await formsApi.getFormResponses('project-1', 'form-1', {
+      filters: [
+        { type: 'CHOICE', questionId: 'water', values: [] },
+        { type: 'DATE_RANGE', questionId: 'visit' },
+      ],
+    });
+
+    expect(sentParams().has('filters')).toBe(false);
+  });
+
+  it('round-trips multi-select values and date ranges through the filters parameter', async () => {
+    const filters: ResponseColumnFilter[] = [
+      { type: 'CHOICE', questionId: 'services', values: ['health', 'water, sanitation & hygiene'] },
+      { type: 'DATE_RANGE', questionId: 'visit', from: '2026-03-01', to: '2026-03-31' },
+      { type: 'NUMBER_RANGE', questionId: 'age', min: 0 },
+    ];
+
+    await formsApi.getFormResponses('project-1', 'form-1', { page: 2, limit: 50, filters });
+
+    const params = sentParams();
+    expect(JSON.parse(params.get('filters') || '[]')).toEqual(filters);
+    expect(params.get('page')).toBe('2');
+    expect(params.get('limit')).toBe('50');
+  });
+
+  it('sends an explicit submitted date range as is', async () => {
+    await formsApi.getFormResponsesForExport('project-1', 'form-1', { submittedFrom: '2026-01-01', submittedTo: '2026-01-31' });
+
+    const params = sentParams();
+    expect(params.get('submittedFrom')).toBe('2026-01-01');
+    expect(params.get('submittedTo')).toBe('2026-01-31');
+  });
+
+  it('turns a relative range into a start date, starting weeks on Monday', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 9, 15, 12)); // Thursday 15 October 2026
+
+    await formsApi.getFormResponses('project-1', 'form-1', { submittedWithin: 'week' });
+    expect(sentParams().get('submittedFrom')).toBe('2026-10-12');
+
+    await formsApi.getFormResponses('project-1', 'form-1', { submittedWithin: 'month' });
+    expect(sentParams().get('submittedFrom')).toBe('2026-10-01');
+    expect(sentParams().has('submittedTo')).toBe(false);
+  });
+});
@@ -1,5 +1,16 @@
-import { apiClient } from './client';
-import { Form, FormResponse, FormTemplate } from '@/components/dashboard/form-creation-wizard/types';
+import { apiClient, APIResponse } from './client';
+import {
+  Form,
+  FormResponse,
+  FormTemplate,
+  FormVersion,
+  FormResponseQueryOptions,
+  ResponseQualityReview,
+  ResponseViewQuery,
+  SavedResponseView,
+} from '@/components/dashboard/form-creation-wizard/types';
+import { OfflineQueueItem } from '@/lib/offlineQueueStore';
+import { getActiveFilters } from '@/lib/responseFilters';
 
 // DTO interfaces that match backend expectations
 export interface CreateFormDto {
@@ -21,6 +32,8 @@ export interface UpdateFormDto {
   category?: string;
   sections?: any[];
   settings?: any;
+  // Version the client last saw; the server answers 409 if the form has moved on
+  expectedVersion?: number;
 }
 
 export interface CreateFormResponseDto {
@@ -31,15 +44,28 @@ export interface CreateFormResponseDto {
   ipAddress?: string;
   userAgent?: string;
   source?: string;
+  language?: string;
   data: Record<string, any>;
 }
 
+// Publishing returns the form together with the version snapshot recorded in the same request
+export interface PublishFormResult {
+  form: Form;
+  version: FormVersion;
+}
+
 export interface UpdateFormResponseDto {
   respondentEmail?: string;
   isComplete?: boolean;
   data?: Record<string, any>;
 }
 
+export interface ReviewQualityFlagDto {
+  flagKey: string;
+  status: ResponseQualityReview['status'] | 'open'; // 'open' withdraws an earlier decision
+  note?: string;
+}
+
 export interface CreateFormTemplateDto {
   name: string;
   description: string;
@@ -51,6 +77,65 @@ export interface CreateFormTemplateDto {
   settings: any;
 }
 
+export interface OfflineSyncResult {
+  status: 'synced' | 'failed' | 'conflict';
+  error?: string;
+}
+
+// File record returned by the media upload endpoints
+export interface UploadedMediaFile {
+  id: string;
+  fileName: string;
+  originalName?: string;
+  fileSize: number;
+  mimeType: string;
+  url: string;
+  filePath?: string;
+  uploadedAt?: string;
+}
+
+// Error code the server sends with a 409 when the idempotency key belongs to a submission it already accepted
+export const IDEMPOTENCY_REPLAY_CODE = 'IDEMPOTENCY_KEY_REPLAY';
+
+export interface SaveResponseViewDto {
+  name: string;
+  query: ResponseViewQuery;
+  itemsPerPage?: number;
+  isDefault?: boolean;
+}
+
+const toDateParam = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Start date for a relative "submitted within" range (weeks start on Monday)
+const getSubmittedWithinStart = (within: NonNullable<ResponseViewQuery['submittedWithin']>): string => {
+  const start = new Date();
+  if (within === 'week') start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  if (within === 'month') start.setDate(1);
+  return toDateParam(start);
+};
+
+// Encode response table filters as query parameters; column filters that restrict something travel as a JSON array
+const appendResponseQueryParams = (params: URLSearchParams, query?: FormResponseQueryOptions) => {
+  if (!query) return;
+  if (query.search) params.append('search', query.search);
+  if (query.status && query.status !== 'all') params.append('status', query.status);
+  if (query.submittedBy) params.append('submittedBy', query.submittedBy);
+  if (query.source) params.append('source', query.source);
+  if (query.language) params.append('language', query.language);
+  if (query.flaggedOnly) params.append('flagged', 'true');
+  const submittedFrom = query.submittedFrom || (query.submittedWithin ? getSubmittedWithinStart(query.submittedWithin) : undefined);
+  if (submittedFrom) params.append('submittedFrom', submittedFrom);
+  if (query.submittedTo) params.append('submittedTo', query.submittedTo);
+  const filters = getActiveFilters(query.filters);
+  if (filters.length > 0) params.append('filters', JSON.stringify(filters));
+  if (query.sort) {
+    params.append('sortBy', query.sort.field);
+    if (query.sort.field === 'question' && query.sort.questionId) params.append('sortQuestionId', query.sort.questionId);
+    params.append('sortOrder', query.sort.direction);
+  }
+};
+
 
 export const formsApi = {
   // ========================================
@@ -158,6 +243,28 @@ export const formsApi = {
     throw new Error(response.error || 'Failed to restore form');
   },
 
+  // ========================================
+  // FORM VERSIONS
+  // ========================================
+
+  async getFormVersions(projectId: string, formId: string): Promise<FormVersion[]> {
+    const response = await apiClient.get(`/forms/projects/${projectId}/forms/${formId}/versions`);
+    if (response.success && response.data) {
+      return response.data as FormVersion[];
+    }
+    throw new Error(response.error || 'Failed to fetch form versions');
+  },
+
+  // Saves any changes, sets the form to PUBLISHED and snapshots the published structure as the next
+  // version in one request; the publish fails as a whole if the snapshot cannot be written
+  async publishForm(projectId: string, formId: string, changes: Partial<Form> = {}): Promise<PublishFormResult> {
+    const response = await apiClient.post(`/forms/projects/${projectId}/forms/${formId}/publish`, changes);
+    if (response.success && response.data) {
+      return response.data as PublishFormResult;
+    }
+    throw new Error(response.error || 'Failed to publish form');
+  },
+
 
   // ========================================
   // FORM RESPONSES
@@ -180,28 +287,24 @@ export const formsApi = {
     throw new Error(response.error || 'Failed to submit response');
   },
 
+  // Each response carries the flags the server's data quality checks raised; stats.totalFlagged counts the
+  // responses with open or confirmed flags across the whole form
   async getFormResponses(
     projectId: string, 
     formId: string,
-    options?: {
-      page?: number;
-      limit?: number;
-      search?: string;
-      status?: 'all' | 'complete' | 'incomplete';
-    }
+    options?: FormResponseQueryOptions
   ): Promise<{ 
     responses: FormResponse[]; 
     total: number; 
     page: number; 
     limit: number; 
     totalPages: number;
-    stats: { totalAll: number; totalComplete: number; totalIncomplete: number }
+    stats: { totalAll: number; totalComplete: number; totalIncomplete: number; totalFlagged?: number }
   }> {
     const params = new URLSearchParams();
     if (options?.page) params.append('page', String(options.page));
     if (options?.limit) params.append('limit', String(options.limit));
-    if (options?.search) params.append('search', options.search);
-    if (options?.status && options.status !== 'all') params.append('status', options.status);
+    appendResponseQueryParams(params, options);
     
     const queryString = params.toString();
     const url = `/forms/projects/${projectId}/forms/${formId}/responses${queryString ? `?${queryString}` : ''}`;
@@ -214,7 +317,7 @@ export const formsApi = {
         page: number; 
         limit: number; 
         totalPages: number;
-        stats: { totalAll: number; totalComplete: number; totalIncomplete: number }
+        stats: { totalAll: number; totalComplete: number; totalIncomplete: number; totalFlagged?: number }
       };
     }
     throw new Error(response.error || 'Failed to fetch form responses');
@@ -232,12 +335,10 @@ export const formsApi = {
   async getFormResponsesForExport(
     projectId: string, 
     formId: string,
-    options?: {
-      status?: 'all' | 'complete' | 'incomplete';
-    }
+    options?: FormResponseQueryOptions
   ): Promise<{ responses: FormResponse[]; total: number }> {
     const params = new URLSearchParams();
-    if (options?.status && options.status !== 'all') params.append('status', options.status);
+    appendResponseQueryParams(params, options);
     
     const queryString = params.toString();
     const url = `/forms/projects/${projectId}/forms/${formId}/responses/export${queryString ? `?${queryString}` : ''}`;
@@ -257,6 +358,15 @@ export const formsApi = {
     throw new Error(response.error || 'Failed to update form response');
   },
 
+  // Record a reviewer's decision on a data quality flag; returns all reviews now stored on the response
+  async reviewQualityFlag(projectId: string, formId: string, responseId: string, review: ReviewQualityFlagDto): Promise<ResponseQualityReview[]> {
+    const response = await apiClient.put(`/forms/projects/${projectId}/forms/${formId}/responses/${responseId}/quality-reviews`, review);
+    if (response.success && response.data) {
+      return response.data as ResponseQualityReview[];
+    }
+    throw new Error(response.error || 'Failed to review quality flag');
+  },
+
   async deleteFormResponse(projectId: string, formId: string, responseId: string): Promise<void> {
     const response = await apiClient.delete(`/forms/projects/${projectId}/forms/${formId}/responses/${responseId}`);
     if (!response.success) {
@@ -264,6 +374,46 @@ export const formsApi = {
     }
   },
 
+  // ========================================
+  // SAVED RESPONSE VIEWS (scoped to the signed-in user)
+  // ========================================
+
+  async getResponseViews(projectId: string, formId: string): Promise<SavedResponseView[]> {
+    const response = await apiClient.get(`/forms/projects/${projectId}/forms/${formId}/response-views`);
+    if (response.success && response.data) {
+      return response.data as SavedResponseView[];
+    }
+    throw new Error(response.error || 'Failed to fetch saved views');
+  },
+
+  async createResponseView(projectId: string, formId: string, view: SaveResponseViewDto): Promise<SavedResponseView> {
+    const response = await apiClient.post(`/forms/projects/${projectId}/forms/${formId}/response-views`, view);
+    if (response.success && response.data) {
+      return response.data as SavedResponseView;
+    }
+    throw new Error(response.error || 'Failed to save view');
+  },
+
+  async updateResponseView(
+    projectId: string,
+    formId: string,
+    viewId: string,
+    updates: Partial<SaveResponseViewDto>
+  ): Promise<SavedResponseView> {
+    const response = await apiClient.put(`/forms/projects/${projectId}/forms/${formId}/response-views/${viewId}`, updates);
+    if (response.success && response.data) {
+      return response.data as SavedResponseView;
+    }
+    throw new Error(response.error || 'Failed to update view');
+  },
+
+  async deleteResponseView(projectId: string, formId: string, viewId: string): Promise<void> {
+    const response = await apiClient.delete(`/forms/projects/${projectId}/forms/${formId}/response-views/${viewId}`);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to delete view');
+    }
+  },
+
   // ========================================
   // QUESTION MANAGEMENT
   // ========================================
@@ -349,7 +499,8 @@ export const formsApi = {
         accuracy?: number;
         address?: string;
       };
-    }
+    },
+    idempotencyKey?: string
   ): Promise<any> {
     const formData = new FormData();
     formData.append('file', file);
@@ -357,7 +508,11 @@ export const formsApi = {
     if (responseId) formData.append('responseId', responseId);
     formData.append('metadata', JSON.stringify(metadata));
 
-    const response = await apiClient.upload(`/forms/projects/${projectId}/forms/${formId}/media`, formData);
+    const response = await apiClient.upload(
+      `/forms/projects/${projectId}/forms/${formId}/media`,
+      formData,
+      idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined
+    );
     
     if (!response.success) {
       throw new Error(`Failed to upload media file: ${response.error}`);
@@ -366,6 +521,30 @@ export const formsApi = {
     return response.data;
   },
 
+  /** Public endpoint: attach a file to a public or anonymous submission, which has no session to upload with. */
+  async uploadPublicMediaFile(
+    formId: string,
+    file: File,
+    questionId: string,
+    idempotencyKey?: string
+  ): Promise<UploadedMediaFile> {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('questionId', questionId);
+
+    const response = await apiClient.upload<UploadedMediaFile>(
+      `/forms/public/${formId}/media`,
+      formData,
+      idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(`Failed to upload media file: ${response.error}`);
+    }
+
+    return response.data;
+  },
+
   async uploadDirectMediaFile(
     projectId: string,
     file: File,
@@ -480,41 +659,13 @@ export const formsApi = {
   // OFFLINE SUPPORT UTILITIES
   // ========================================
 
-  async syncOfflineData(offlineQueue: any[]): Promise<{ success: boolean; failedItems: any[] }> {
-    const failedItems: any[] = [];
-    
+  async syncOfflineData(offlineQueue: OfflineQueueItem[]): Promise<{ success: boolean; failedItems: OfflineQueueItem[] }> {
+    const failedItems: OfflineQueueItem[] = [];
+
     for (const item of offlineQueue) {
-      try {
-        switch (item.type) {
-          case 'form_create':
-            await this.createForm(item.data.projectId, item.data);
-            break;
-          case 'form_update':
-            await this.updateForm(item.data.projectId, item.data.id, item.data);
-            break;
-          case 'form_response':
-            // Defensive mapping to allowed DTO fields
-            // Note: item.data.data should already contain properly merged conditional responses
-            // (processed by PublicFormFiller.handleSubmit before being queued)
-            await this.submitResponse({
-              formId: item.data.formId,
-              respondentId: item.data.respondentId,
-              respondentEmail: item.data.respondentEmail,
-              isComplete: item.data.isComplete,
-              ipAddress: item.data.ipAddress,
-              userAgent: item.data.userAgent,
-              source: item.data.source,
-              data: item.data.data // Should already contain nested conditional responses
-            });
-            break;
-          case 'form_delete':
-            await this.deleteForm(item.data.projectId, item.data.id);
-            break;
-          default:
-            console.warn('Unknown offline queue item type:', item.type);
-        }
-      } catch (error) {
-        console.error('Failed to sync offline item:', item, error);
+      const result = await this.syncOfflineItem(item);
+      if (result.status !== 'synced') {
+        console.error('Failed to sync offline item:', item, result.error);
         failedItems.push(item);
       }
     }
@@ -523,5 +674,71 @@ export const formsApi = {
       success: failedItems.length === 0,
       failedItems
     };
+  },
+
+  async syncOfflineItem(item: OfflineQueueItem): Promise<OfflineSyncResult> {
+    const headers = item.idempotencyKey ? { 'Idempotency-Key': item.idempotencyKey } : undefined;
+    let response: APIResponse<unknown>;
+
+    switch (item.type) {
+      case 'form_create':
+        response = await apiClient.post(`/forms/projects/${item.data.projectId}/forms`, item.data, headers);
+        break;
+      case 'form_update': {
+        const { projectId, id, ...updates } = item.data;
+        response = await apiClient.patch(`/forms/projects/${projectId}/forms/${id}`, updates as UpdateFormDto, headers);
+        break;
+      }
+      case 'form_response': {
+        const data = item.data;
+        if (data.type === 'update') {
+          const updates: UpdateFormResponseDto = {
+            respondentEmail: data.respondentEmail,
+            isComplete: data.isComplete,
+            data: data.data
+          };
+          response = await apiClient.put(`/forms/projects/${data.projectId}/forms/${data.formId}/responses/${data.responseId}`, updates, headers);
+        } else {
+          // Defensive mapping to allowed DTO fields
+          // Note: data.data should already contain properly merged conditional responses
+          // (processed by PublicFormFiller.handleSubmit before being queued)
+          const payload: CreateFormResponseDto = {
+            formId: data.formId,
+            respondentId: data.respondentId,
+            respondentEmail: data.respondentEmail,
+            isComplete: data.isComplete,
+            ipAddress: data.ipAddress,
+            userAgent: data.userAgent,
+            source: data.source,
+            language: data.language,
+            data: data.data ?? {}
+          };
+          response = await apiClient.post('/forms/responses', payload, headers);
+          // The server already holds a submission with this key - it was accepted on an earlier attempt.
+          // Any other 409 (closed form, validation conflict) keeps the response queued with its error.
+          if (response.status === 409 && response.errorCode === IDEMPOTENCY_REPLAY_CODE) return { status: 'synced' };
+          if (response.status === 409) {
+            return { status: 'conflict', error: response.error || 'The server rejected this response' };
+          }
+        }
+        break;
+      }
+      case 'form_delete':
+        response = await apiClient.delete(`/forms/projects/${item.data.projectId}/forms/${item.data.id}`, undefined, headers);
+        // Already gone on the server
+        if (response.status === 404) return { status: 'synced' };
+        break;
+      default:
+        console.warn('Unknown offline queue item type:', item.type);
+        return { status: 'failed', error: `Unsupported offline operation: ${item.type}` };
+    }
+
+    if (response.success) {
+      return { status: 'synced' };
+    }
+    if (response.status === 409 || response.status === 412) {
+      return { status: 'conflict', error: response.error || 'The form was changed on the server' };
+    }
+    return { status: 'failed', error: response.error || 'Failed to sync offline item' };
   }
 };
@@ -0,0 +1,27 @@
+import { NamingRegistry } from '@/lib/namingConvention';
+import { apiClient } from './client';
+
+export const namingRegistryApi = {
+  // Get the naming convention code lists
+  async getRegistry(): Promise<NamingRegistry> {
+    const response = await apiClient.get<NamingRegistry>('/naming-registry');
+    if (response.success && response.data) {
+      return response.data;
+    }
+    throw new Error(response.error || 'Failed to fetch naming registry');
+  },
+
+  // Replace the code lists (global admins only)
+  async updateRegistry(registry: NamingRegistry): Promise<NamingRegistry> {
+    const response = await apiClient.put<NamingRegistry>('/naming-registry', {
+      countries: registry.countries,
+      projects: registry.projects,
+      reportTypes: registry.reportTypes,
+      versionControls: registry.versionControls,
+    });
+    if (response.success && response.data) {
+      return response.data;
+    }
+    throw new Error(response.error || 'Failed to update naming registry');
+  },
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { ActivityFinancialData, BudgetActual, BudgetLineItem, ExchangeRate } from '@/lib/api/financialApi';
+import { forecastBudget, getElapsedFraction, getLinesTrendingOver } from './budgetForecast';
+
+const asOf = new Date(2026, 6, 2); // Just under half of 2026 has passed
+
+const activity = (activityId: string, overrides: Partial<ActivityFinancialData> = {}): ActivityFinancialData => ({
+  id: `fin-${activityId}`,
+  activityId,
+  activityTitle: activityId,
+  year: 2026,
+  q1Cost: 0,
+  q2Cost: 0,
+  q3Cost: 0,
+  q4Cost: 0,
+  totalAnnualBudget: 0,
+  totalAnnualCost: 0,
+  variance: 0,
+  createdAt: new Date(2026, 0, 1),
+  lastUpdated: new Date(2026, 0, 1),
+  ...overrides,
+});
+
+const actual = (amount: number, date: Date): BudgetActual => ({
+  id: `actual-${amount}`,
+  budgetLineId: 'line',
+  amount,
+  date,
+  createdAt: date,
+});
+
+const line = (id: string, budget: number, actuals: BudgetActual[]): BudgetLineItem => ({
+  id,
+  activityId: 'training',
+  year: 2026,
+  category: 'TRAVEL',
+  description: id,
+  budget,
+  actuals,
+  createdAt: new Date(2026, 0, 1),
+  updatedAt: new Date(2026, 0, 1),
+});
+
+const rates: ExchangeRate[] = [
+  { id: 'tzs-q1', currency: 'TZS', year: 2026, period: 'QUARTER', quarter: 1, rate: 2500, updatedAt: new Date(2026, 0, 1) },
+];
+
+const lines = [
+  line('Fuel', 1200, [actual(800, new Date(2026, 3, 15))]),
+  line('Venue', 1000, [actual(100, new Date(2026, 1, 10))]),
+  line('Per diem', 100, [actual(150, new Date(2026, 4, 20))]),
+];
+
+describe('getElapsedFraction', () => {
+  it('counts past years as over and future years as not started', () => {
+    expect(getElapsedFraction(2025, asOf)).toBe(1);
+    expect(getElapsedFraction(2027, asOf)).toBe(0);
+    expect(getElapsedFraction(2026, asOf)).toBeCloseTo(182 / 365);
+  });
+});
+
+describe('forecastBudget', () => {
+  const forecast = forecastBudget(2026, [activity('training'), activity('outreach', {
+    currency: 'TZS',
+    totalAnnualBudget: 10_000_000,
+    q1Cost: 2_500_000,
+  })], lines, rates, 'USD', asOf);
+  const byKey = new Map(forecast.items.map(item => [item.key, item]));
+
+  it('projects each line from its burn rate', () => {
+    const fuel = byKey.get('Fuel');
+    expect(fuel?.projected).toBeCloseTo(800 / (182 / 365));
+    expect(fuel?.burnRatePerMonth).toBeCloseTo(800 / (182 / 365) / 12);
+    expect(fuel?.status).toBe('TRENDING_OVER');
+    expect(byKey.get('Venue')?.status).toBe('UNDERSPENDING');
+    expect(byKey.get('Per diem')?.status).toBe('OVERSPENT');
+  });
+
+  it('forecasts activities without budget lines from their quarterly costs, converted to the reporting currency', () => {
+    expect(byKey.get('activity:outreach')).toMatchObject({ budget: 4000, spent: 1000, label: 'Whole activity (no budget lines)' });
+  });
+
+  it('totals the lines and continues the monthly curve to the projected year-end spend', () => {
+    expect(forecast.totalBudget).toBe(6300);
+    expect(forecast.totalSpent).toBe(2050);
+    expect(forecast.monthly[0]).toMatchObject({ actual: 1000, projected: null });
+    expect(forecast.monthly[5].actual).toBe(2050);
+    expect(forecast.monthly[6].actual).toBeNull();
+    expect(forecast.monthly[11].projected).toBeCloseTo(forecast.projectedSpend);
+    expect(forecast.monthly[11].planned).toBe(6300);
+  });
+
+  it('uses the spend as the projection once the year is over', () => {
+    const closed = forecastBudget(2026, [activity('training')], lines, rates, 'USD', new Date(2027, 1, 1));
+    expect(closed.projectedSpend).toBe(closed.totalSpent);
+    expect(closed.monthly.every(point => point.projected === null)).toBe(true);
+  });
+});
+
+describe('getLinesTrendingOver', () => {
+  it('lists lines going over budget, furthest over first', () => {
+    const forecast = forecastBudget(2026, [activity('training')], lines, rates, 'USD', asOf);
+    expect(getLinesTrendingOver(forecast).map(item => item.label)).toEqual(['Fuel', 'Per diem']);
+  });
+});
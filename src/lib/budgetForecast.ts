@@ -0,0 +1,203 @@
+// Budget Forecast Utilities
+// Budget line categories, and a year-end projection of spend from the current burn rate for each
+// budget line (or each activity that has no lines yet), converted into one reporting currency so
+// lines trending over budget can be picked out across a project.
+
+import { ActivityFinancialData, BudgetActual, BudgetCategory, BudgetLineItem, ExchangeRate } from '@/lib/api/financialApi';
+import { BASE_CURRENCY, convertAmount } from '@/lib/exchangeRates';
+
+export const BUDGET_CATEGORIES: Record<BudgetCategory, string> = {
+  PERSONNEL: 'Personnel',
+  TRAVEL: 'Travel',
+  SUPPLIES: 'Supplies',
+  EQUIPMENT: 'Equipment',
+  SUB_GRANTS: 'Sub-grants',
+  OTHER: 'Other',
+};
+
+export type ForecastStatus = 'OVERSPENT' | 'TRENDING_OVER' | 'ON_TRACK' | 'UNDERSPENDING' | 'NO_BUDGET';
+
+export const FORECAST_STATUSES: Record<ForecastStatus, string> = {
+  OVERSPENT: 'Over budget',
+  TRENDING_OVER: 'Trending over',
+  ON_TRACK: 'On track',
+  UNDERSPENDING: 'Underspending',
+  NO_BUDGET: 'No budget',
+};
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Projections made from less than a month of spending swing too much, so the burn rate is taken over at least this share of the year
+const MIN_ELAPSED_FOR_PROJECTION = 1 / 12;
+// Lines projected to use less than this share of their budget (once a quarter has passed) are called out as underspending
+const UNDERSPEND_THRESHOLD = 0.75;
+
+export const getBudgetLineSpent = (line: Pick<BudgetLineItem, 'actuals'>): number =>
+  (line.actuals || []).reduce((sum, actual) => sum + (actual.amount || 0), 0);
+
+// Share of the year that has passed on `asOf`: 0 for future years, 1 for past ones
+export const getElapsedFraction = (year: number, asOf: Date): number => {
+  if (year < asOf.getFullYear()) return 1;
+  if (year > asOf.getFullYear()) return 0;
+  const start = new Date(year, 0, 1).getTime();
+  const end = new Date(year + 1, 0, 1).getTime();
+  return Math.min(1, Math.max(0, (asOf.getTime() - start) / (end - start)));
+};
+
+// ========================================
+// FORECAST
+// ========================================
+
+export interface BudgetLineForecast {
+  key: string;
+  activityId: string;
+  activityTitle: string;
+  budgetLineId?: string; // Absent for activities forecast from their quarterly costs
+  category?: BudgetCategory;
+  label: string;
+  budget: number; // All amounts in the reporting currency
+  spent: number;
+  projected: number; // Year-end spend if the current burn rate continues
+  burnRatePerMonth: number;
+  status: ForecastStatus;
+}
+
+export interface BudgetForecastPoint {
+  month: string;
+  planned: number; // Budget spread evenly across the year, cumulative
+  actual: number | null; // Cumulative spend, up to the current month
+  projected: number | null; // Cumulative projection, from the current month on
+}
+
+export interface BudgetForecast {
+  year: number;
+  asOf: Date;
+  elapsedFraction: number;
+  currency: string;
+  items: BudgetLineForecast[];
+  totalBudget: number;
+  totalSpent: number;
+  projectedSpend: number;
+  burnRatePerMonth: number;
+  monthly: BudgetForecastPoint[];
+}
+
+interface Posting {
+  amount: number; // In the reporting currency
+  date: Date;
+}
+
+const getStatus = (budget: number, spent: number, projected: number, elapsed: number): ForecastStatus => {
+  if (budget <= 0) return spent > 0 ? 'OVERSPENT' : 'NO_BUDGET';
+  if (spent > budget) return 'OVERSPENT';
+  if (projected > budget) return 'TRENDING_OVER';
+  if (elapsed >= 0.25 && projected < budget * UNDERSPEND_THRESHOLD) return 'UNDERSPENDING';
+  return 'ON_TRACK';
+};
+
+const project = (spent: number, elapsed: number): { projected: number; burnRatePerMonth: number } => {
+  if (elapsed <= 0) return { projected: spent, burnRatePerMonth: 0 };
+  const basis = Math.max(elapsed, MIN_ELAPSED_FOR_PROJECTION);
+  return {
+    projected: elapsed >= 1 ? spent : spent / basis,
+    burnRatePerMonth: spent / (basis * 12),
+  };
+};
+
+/**
+ * Project year-end spend for every budget line of the given activities from the spend posted so far. Activities
+ * without budget lines are forecast from their quarterly costs (each counted from the start of its quarter).
+ * Amounts are converted into `currency` at the rate effective when they were spent; the budget is spread evenly
+ * across the quarters, as in the financial summary.
+ */
+export const forecastBudget = (
+  year: number,
+  activities: ActivityFinancialData[],
+  budgetLines: BudgetLineItem[],
+  rates: ExchangeRate[],
+  currency: string,
+  asOf: Date = new Date()
+): BudgetForecast => {
+  const elapsed = getElapsedFraction(year, asOf);
+
+  const convertBudget = (amount: number, from: string) =>
+    [1, 2, 3, 4].reduce((sum, quarter) => sum + (convertAmount(rates, amount / 4, from, currency, year, quarter) ?? 0), 0);
+
+  const convertPosting = (amount: number, from: string, date: Date): Posting => ({
+    amount: convertAmount(rates, amount, from, currency, date.getFullYear(), Math.floor(date.getMonth() / 3) + 1) ?? 0,
+    date,
+  });
+
+  const postings: Posting[] = [];
+  const items: BudgetLineForecast[] = [];
+
+  const addItem = (base: Omit<BudgetLineForecast, 'spent' | 'projected' | 'burnRatePerMonth' | 'status'>, itemPostings: Posting[]) => {
+    const spent = itemPostings.reduce((sum, posting) => sum + posting.amount, 0);
+    const { projected, burnRatePerMonth } = project(spent, elapsed);
+    postings.push(...itemPostings);
+    items.push({ ...base, spent, projected, burnRatePerMonth, status: getStatus(base.budget, spent, projected, elapsed) });
+  };
+
+  activities.forEach(activity => {
+    const from = activity.currency || BASE_CURRENCY;
+    const lines = budgetLines.filter(line => line.activityId === activity.activityId && line.year === year);
+
+    if (lines.length === 0) {
+      const costs = [activity.q1Cost, activity.q2Cost, activity.q3Cost, activity.q4Cost];
+      addItem(
+        {
+          key: `activity:${activity.activityId}`,
+          activityId: activity.activityId,
+          activityTitle: activity.activityTitle,
+          label: 'Whole activity (no budget lines)',
+          budget: convertBudget(activity.totalAnnualBudget || 0, from),
+        },
+        costs
+          .map((cost, index) => (cost ? convertPosting(cost, from, new Date(year, index * 3, 1)) : null))
+          .filter((posting): posting is Posting => posting !== null)
+      );
+      return;
+    }
+
+    lines.forEach(line => {
+      addItem(
+        {
+          key: line.id,
+          activityId: activity.activityId,
+          activityTitle: activity.activityTitle,
+          budgetLineId: line.id,
+          category: line.category,
+          label: line.description || BUDGET_CATEGORIES[line.category],
+          budget: convertBudget(line.budget || 0, from),
+        },
+        (line.actuals || []).map((actual: BudgetActual) => convertPosting(actual.amount || 0, from, new Date(actual.date)))
+      );
+    });
+  });
+
+  const totalBudget = items.reduce((sum, item) => sum + item.budget, 0);
+  const totalSpent = items.reduce((sum, item) => sum + item.spent, 0);
+  const { projected: projectedSpend, burnRatePerMonth } = project(totalSpent, elapsed);
+
+  // Months fully or partly elapsed show actual spend; the projection continues from the current month
+  const elapsedMonths = elapsed * 12;
+  const currentMonth = elapsed >= 1 ? 12 : Math.floor(elapsedMonths);
+  const monthly = MONTH_LABELS.map((month, index) => {
+    const monthEnd = new Date(year, index + 1, 1);
+    const actual = index <= currentMonth && elapsed > 0
+      ? postings.filter(posting => posting.date < monthEnd).reduce((sum, posting) => sum + posting.amount, 0)
+      : null;
+    const projected = elapsed < 1 && index >= currentMonth
+      ? totalSpent + burnRatePerMonth * Math.max(0, index + 1 - elapsedMonths)
+      : null;
+    return { month, planned: (totalBudget * (index + 1)) / 12, actual, projected };
+  });
+
+  return { year, asOf, elapsedFraction: elapsed, currency, items, totalBudget, totalSpent, projectedSpend, burnRatePerMonth, monthly };
+};
+
+// Lines that have gone or are heading over budget, worst first
+export const getLinesTrendingOver = (forecast: BudgetForecast): BudgetLineForecast[] =>
+  forecast.items
+    .filter(item => item.status === 'OVERSPENT' || item.status === 'TRENDING_OVER')
+    .sort((a, b) => (b.projected - b.budget) - (a.projected - a.budget));
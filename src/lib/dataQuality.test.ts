@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { DetectedQualityFlag, Form, ResponseQualityReview } from '@/components/dashboard/form-creation-wizard/types';
+import {
+  applyQualityReviews,
+  createDataQualityRule,
+  getDefaultDataQualityRules,
+  getEnabledQualityRules,
+  getResponseQualityFlags,
+} from './dataQuality';
+
+const settings: Form['settings'] = { requireAuthentication: false, thankYouMessage: 'Thanks', notificationEmails: [] };
+
+const flags: DetectedQualityFlag[] = [
+  { key: 'rule-1', ruleId: 'rule-1', type: 'FAST_COMPLETION', message: 'Completed in 12s (expected at least 60s)' },
+  { key: 'rule-2:age', ruleId: 'rule-2', type: 'NUMBER_OUTLIER', questionId: 'age', message: '"Age" answer 240 is above the maximum of 120' },
+];
+
+const review = (flagKey: string, status: ResponseQualityReview['status']): ResponseQualityReview => ({
+  flagKey,
+  status,
+  reviewedBy: 'user-1',
+  reviewedAt: new Date('2026-03-01'),
+});
+
+describe('createDataQualityRule', () => {
+  it('starts each rule type with usable thresholds', () => {
+    expect(createDataQualityRule('FAST_COMPLETION')).toMatchObject({ enabled: true, minSeconds: 60 });
+    expect(createDataQualityRule('NUMBER_OUTLIER')).toMatchObject({ enabled: true, maxZScore: 3 });
+    expect(createDataQualityRule('LOCATION_BOUNDS').bounds).toBeUndefined();
+  });
+
+  it('offers one rule of every type by default', () => {
+    const rules = getDefaultDataQualityRules();
+    expect(rules.map(rule => rule.type)).toEqual(['DUPLICATE_RESPONDENT', 'LOCATION_BOUNDS', 'FAST_COMPLETION', 'NUMBER_OUTLIER']);
+    expect(new Set(rules.map(rule => rule.id)).size).toBe(rules.length);
+  });
+});
+
+describe('getEnabledQualityRules', () => {
+  it('skips disabled rules and forms without rules', () => {
+    const enabled = createDataQualityRule('FAST_COMPLETION');
+    const disabled = { ...createDataQualityRule('NUMBER_OUTLIER'), enabled: false };
+
+    expect(getEnabledQualityRules({ settings: { ...settings, dataQuality: { rules: [enabled, disabled] } } })).toEqual([enabled]);
+    expect(getEnabledQualityRules({ settings })).toEqual([]);
+  });
+});
+
+describe('applyQualityReviews', () => {
+  it('marks flags without a decision as open', () => {
+    expect(applyQualityReviews(flags, []).map(flag => flag.status)).toEqual(['open', 'open']);
+  });
+
+  it('matches decisions to flags by key', () => {
+    const reviewed = applyQualityReviews(flags, [review('rule-2:age', 'confirmed'), review('rule-9', 'cleared')]);
+
+    expect(reviewed[0]).toMatchObject({ key: 'rule-1', status: 'open', review: undefined });
+    expect(reviewed[1]).toMatchObject({ key: 'rule-2:age', status: 'confirmed', review: { reviewedBy: 'user-1' } });
+  });
+});
+
+describe('getResponseQualityFlags', () => {
+  it('reads the flags and decisions stored on a response', () => {
+    expect(getResponseQualityFlags({ qualityFlags: flags, qualityReviews: [review('rule-1', 'cleared')] }).map(flag => flag.status))
+      .toEqual(['cleared', 'open']);
+    expect(getResponseQualityFlags({})).toEqual([]);
+  });
+});
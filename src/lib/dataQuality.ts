@@ -0,0 +1,77 @@
+// Data Quality Utilities
+// Per-form rules that look for obvious problems in submitted responses (duplicate respondents,
+// impossible GPS points, implausibly fast completion, outlier numbers). The server applies them and
+// returns the resulting flags with each response; reviewers confirm or clear them before the data
+// feeds into KPIs.
+
+import {
+  Form,
+  DataQualityRule,
+  DataQualityRuleType,
+  DetectedQualityFlag,
+  FormResponse,
+  ResponseQualityFlag,
+  ResponseQualityReview,
+} from '@/components/dashboard/form-creation-wizard/types';
+import { generateUuid } from '@/lib/uuid';
+
+export const DATA_QUALITY_RULE_TYPES: Record<DataQualityRuleType, { label: string; description: string }> = {
+  DUPLICATE_RESPONDENT: {
+    label: 'Duplicate respondent',
+    description: 'The same respondent, or the same answers to identifying questions, submitted more than once',
+  },
+  LOCATION_BOUNDS: {
+    label: 'Impossible location',
+    description: 'GPS points that are not valid coordinates, sit at 0,0 or fall outside the expected area',
+  },
+  FAST_COMPLETION: {
+    label: 'Too fast',
+    description: 'Responses submitted sooner after starting than anyone could read and answer the form',
+  },
+  NUMBER_OUTLIER: {
+    label: 'Outlier number',
+    description: 'Numbers outside the question limits or far from the answers given by other respondents',
+  },
+};
+
+// ========================================
+// RULE CONFIGURATION
+// ========================================
+
+export const createDataQualityRule = (type: DataQualityRuleType): DataQualityRule => {
+  const rule: DataQualityRule = { id: generateUuid(), type, enabled: true, questionIds: [] };
+  switch (type) {
+    case 'FAST_COMPLETION':
+      return { ...rule, minSeconds: 60 };
+    case 'NUMBER_OUTLIER':
+      return { ...rule, maxZScore: 3 };
+    default:
+      return rule;
+  }
+};
+
+// Starting set offered to forms that have not configured any rules yet
+export const getDefaultDataQualityRules = (): DataQualityRule[] =>
+  (Object.keys(DATA_QUALITY_RULE_TYPES) as DataQualityRuleType[]).map(createDataQualityRule);
+
+export const getEnabledQualityRules = (form: Pick<Form, 'settings'>): DataQualityRule[] =>
+  (form.settings?.dataQuality?.rules || []).filter(rule => rule.enabled);
+
+// ========================================
+// FLAGS
+// ========================================
+// The checks themselves run on the server, which holds every response: duplicate and outlier rules compare
+// responses with each other, and the flagged-only filter has to page through the same results the table shows.
+
+// Combine the flags raised for a response with the reviewer decisions stored on it
+export const applyQualityReviews = (
+  flags: DetectedQualityFlag[],
+  reviews: ResponseQualityReview[]
+): ResponseQualityFlag[] =>
+  flags.map(item => {
+    const review = reviews.find(r => r.flagKey === item.key);
+    return { ...item, status: review?.status || 'open', review };
+  });
+
+export const getResponseQualityFlags = (response: Pick<FormResponse, 'qualityFlags' | 'qualityReviews'>): ResponseQualityFlag[] =>
+  applyQualityReviews(response.qualityFlags || [], response.qualityReviews || []);
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { ComparisonRow, collapseUnchangedRows, compareDocumentText } from './documentDiff';
+
+describe('compareDocumentText', () => {
+  it('aligns unchanged paragraphs and numbers them on both sides', () => {
+    const { rows, added, removed, changed } = compareDocumentText('Summary\n\nFindings', '  Summary  \nFindings\n');
+
+    expect({ added, removed, changed }).toEqual({ added: 0, removed: 0, changed: 0 });
+    expect(rows.map(row => [row.kind, row.leftLine, row.rightLine])).toEqual([
+      ['unchanged', 1, 1],
+      ['unchanged', 2, 2],
+    ]);
+  });
+
+  it('highlights the words of an edited paragraph', () => {
+    const { rows, changed } = compareDocumentText(
+      'Intro\nWe reached 120 households in March\nEnd',
+      'Intro\nWe reached 150 households in March\nEnd'
+    );
+
+    expect(changed).toBe(1);
+    expect(rows[1]).toEqual({
+      kind: 'changed',
+      left: [{ type: 'equal', text: 'We reached ' }, { type: 'removed', text: '120' }, { type: 'equal', text: ' households in March' }],
+      right: [{ type: 'equal', text: 'We reached ' }, { type: 'added', text: '150' }, { type: 'equal', text: ' households in March' }],
+      leftLine: 2,
+      rightLine: 2,
+    });
+  });
+
+  it('shows a rewritten paragraph as removed and added', () => {
+    const { rows, added, removed, changed } = compareDocumentText(
+      'Intro\nFunding was delayed by two months\nEnd',
+      'Intro\nThe borehole now serves three villages\nEnd'
+    );
+
+    expect({ added, removed, changed }).toEqual({ added: 1, removed: 1, changed: 0 });
+    expect(rows.map(row => row.kind)).toEqual(['unchanged', 'removed', 'added', 'unchanged']);
+    expect(rows[1]).toEqual({ kind: 'removed', left: [{ type: 'removed', text: 'Funding was delayed by two months' }], leftLine: 2 });
+    expect(rows[2]).toEqual({ kind: 'added', right: [{ type: 'added', text: 'The borehole now serves three villages' }], rightLine: 2 });
+  });
+
+  it('reports paragraphs inserted and deleted between unchanged ones', () => {
+    const { rows, added, removed } = compareDocumentText('A\nB\nC', 'A\nC\nD');
+
+    expect({ added, removed }).toEqual({ added: 1, removed: 1 });
+    expect(rows.map(row => [row.kind, row.leftLine, row.rightLine])).toEqual([
+      ['unchanged', 1, 1],
+      ['removed', 2, undefined],
+      ['unchanged', 3, 2],
+      ['added', undefined, 3],
+    ]);
+  });
+});
+
+describe('collapseUnchangedRows', () => {
+  const rows = (kinds: ComparisonRow['kind'][]): ComparisonRow[] => kinds.map(kind => ({ kind }));
+
+  it('keeps context rows around each change and collapses the rest', () => {
+    const display = collapseUnchangedRows(rows(['unchanged', 'unchanged', 'unchanged', 'changed', 'unchanged', 'unchanged', 'unchanged']));
+
+    expect(display.map(row => row.kind === 'collapsed' ? `collapsed ${row.count}` : row.kind)).toEqual([
+      'collapsed 2',
+      'unchanged',
+      'changed',
+      'unchanged',
+      'collapsed 2',
+    ]);
+  });
+
+  it('widens the context on request and collapses everything when nothing changed', () => {
+    expect(collapseUnchangedRows(rows(['unchanged', 'unchanged', 'added']), 2).map(row => row.kind))
+      .toEqual(['unchanged', 'unchanged', 'added']);
+    expect(collapseUnchangedRows(rows(['unchanged', 'unchanged']))).toEqual([{ kind: 'collapsed', count: 2 }]);
+  });
+});
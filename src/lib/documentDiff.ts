@@ -0,0 +1,210 @@
+// Document Diff Utilities
+// Compares the extracted text of two versions of a report document for the side-by-side view: paragraphs
+// are aligned line by line, and paragraphs that were edited rather than replaced get word-level highlights.
+
+export type DiffSegmentType = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+export interface ComparisonRow {
+  kind: 'unchanged' | 'changed' | 'added' | 'removed';
+  left?: DiffSegment[]; // Earlier version; absent for added paragraphs
+  right?: DiffSegment[]; // Later version; absent for removed paragraphs
+  leftLine?: number; // 1-based paragraph numbers
+  rightLine?: number;
+}
+
+export type ComparisonDisplayRow = ComparisonRow | { kind: 'collapsed'; count: number };
+
+export interface DocumentComparison {
+  rows: ComparisonRow[];
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+// Edited paragraphs share at least this proportion of their words; below it they show as removed and added
+const CHANGED_PARAGRAPH_SIMILARITY = 0.4;
+
+// Above this many alignment cells the differing middle of the documents is shown as replaced wholesale
+const MAX_ALIGNMENT_CELLS = 4_000_000;
+
+// ========================================
+// SEQUENCE ALIGNMENT
+// ========================================
+
+type EditOperation =
+  | { type: 'equal'; a: number; b: number }
+  | { type: 'removed'; a: number }
+  | { type: 'added'; b: number };
+
+// Longest common subsequence alignment, after trimming the common start and end
+const diffSequences = (a: string[], b: string[]): EditOperation[] => {
+  const operations: EditOperation[] = [];
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    operations.push({ type: 'equal', a: start, b: start });
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  let i = 0;
+  let j = 0;
+  if (n * m <= MAX_ALIGNMENT_CELLS) {
+    // Common subsequence lengths of the remaining suffixes, so the alignment can be read forwards
+    const width = m + 1;
+    const lengths = new Uint32Array((n + 1) * width);
+    for (let x = n - 1; x >= 0; x--) {
+      for (let y = m - 1; y >= 0; y--) {
+        lengths[x * width + y] = a[start + x] === b[start + y]
+          ? lengths[(x + 1) * width + y + 1] + 1
+          : Math.max(lengths[(x + 1) * width + y], lengths[x * width + y + 1]);
+      }
+    }
+
+    while (i < n && j < m) {
+      if (a[start + i] === b[start + j]) {
+        operations.push({ type: 'equal', a: start + i++, b: start + j++ });
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        operations.push({ type: 'removed', a: start + i++ });
+      } else {
+        operations.push({ type: 'added', b: start + j++ });
+      }
+    }
+  }
+  while (i < n) operations.push({ type: 'removed', a: start + i++ });
+  while (j < m) operations.push({ type: 'added', b: start + j++ });
+
+  for (let k = 0; k < a.length - endA; k++) {
+    operations.push({ type: 'equal', a: endA + k, b: endB + k });
+  }
+  return operations;
+};
+
+// ========================================
+// COMPARISON
+// ========================================
+
+const toParagraphs = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const tokenize = (paragraph: string) => paragraph.match(/\s+|[^\s]+/g) ?? [];
+
+const pushSegment = (segments: DiffSegment[], type: DiffSegmentType, text: string) => {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) last.text += text;
+  else segments.push({ type, text });
+};
+
+const diffWords = (before: string, after: string) => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const left: DiffSegment[] = [];
+  const right: DiffSegment[] = [];
+  let sharedWords = 0;
+
+  diffSequences(a, b).forEach(operation => {
+    if (operation.type === 'equal') {
+      if (a[operation.a].trim()) sharedWords++;
+      pushSegment(left, 'equal', a[operation.a]);
+      pushSegment(right, 'equal', b[operation.b]);
+    } else if (operation.type === 'removed') {
+      pushSegment(left, 'removed', a[operation.a]);
+    } else {
+      pushSegment(right, 'added', b[operation.b]);
+    }
+  });
+
+  const wordCount = a.filter(token => token.trim()).length + b.filter(token => token.trim()).length;
+  return { left, right, similarity: wordCount > 0 ? (sharedWords * 2) / wordCount : 1 };
+};
+
+/** Side-by-side comparison of the text of two document versions, in reading order. */
+export function compareDocumentText(before: string, after: string): DocumentComparison {
+  const a = toParagraphs(before);
+  const b = toParagraphs(after);
+  const rows: ComparisonRow[] = [];
+  let removedRun: number[] = [];
+  let addedRun: number[] = [];
+
+  // Paragraphs removed and added at the same place are paired up as edits when they are similar enough
+  const flushRuns = () => {
+    const pairs = Math.min(removedRun.length, addedRun.length);
+    const unpairedRemoved: ComparisonRow[] = [];
+    const unpairedAdded: ComparisonRow[] = [];
+    for (let k = 0; k < pairs; k++) {
+      const words = diffWords(a[removedRun[k]], b[addedRun[k]]);
+      if (words.similarity >= CHANGED_PARAGRAPH_SIMILARITY) {
+        rows.push({ kind: 'changed', left: words.left, right: words.right, leftLine: removedRun[k] + 1, rightLine: addedRun[k] + 1 });
+      } else {
+        unpairedRemoved.push({ kind: 'removed', left: [{ type: 'removed', text: a[removedRun[k]] }], leftLine: removedRun[k] + 1 });
+        unpairedAdded.push({ kind: 'added', right: [{ type: 'added', text: b[addedRun[k]] }], rightLine: addedRun[k] + 1 });
+      }
+    }
+    removedRun.slice(pairs).forEach(index => {
+      unpairedRemoved.push({ kind: 'removed', left: [{ type: 'removed', text: a[index] }], leftLine: index + 1 });
+    });
+    addedRun.slice(pairs).forEach(index => {
+      unpairedAdded.push({ kind: 'added', right: [{ type: 'added', text: b[index] }], rightLine: index + 1 });
+    });
+    rows.push(...unpairedRemoved, ...unpairedAdded);
+    removedRun = [];
+    addedRun = [];
+  };
+
+  diffSequences(a, b).forEach(operation => {
+    if (operation.type === 'equal') {
+      flushRuns();
+      rows.push({
+        kind: 'unchanged',
+        left: [{ type: 'equal', text: a[operation.a] }],
+        right: [{ type: 'equal', text: b[operation.b] }],
+        leftLine: operation.a + 1,
+        rightLine: operation.b + 1,
+      });
+    } else if (operation.type === 'removed') {
+      removedRun.push(operation.a);
+    } else {
+      addedRun.push(operation.b);
+    }
+  });
+  flushRuns();
+
+  return {
+    rows,
+    added: rows.filter(row => row.kind === 'added').length,
+    removed: rows.filter(row => row.kind === 'removed').length,
+    changed: rows.filter(row => row.kind === 'changed').length,
+  };
+}
+
+/** Rows to show when only changes are wanted: unchanged runs are collapsed, keeping `context` rows around each change. */
+export function collapseUnchangedRows(rows: ComparisonRow[], context = 1): ComparisonDisplayRow[] {
+  const keep = rows.map(row => row.kind !== 'unchanged');
+  rows.forEach((row, index) => {
+    if (row.kind === 'unchanged') return;
+    for (let k = Math.max(0, index - context); k <= Math.min(rows.length - 1, index + context); k++) keep[k] = true;
+  });
+
+  const display: ComparisonDisplayRow[] = [];
+  rows.forEach((row, index) => {
+    if (keep[index]) {
+      display.push(row);
+      return;
+    }
+    const last = display[display.length - 1];
+    if (last?.kind === 'collapsed') last.count++;
+    else display.push({ kind: 'collapsed', count: 1 });
+  });
+  return display;
+}
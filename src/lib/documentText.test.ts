@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import { extractDocumentText, isTextComparable } from './documentText';
+
+// The browser build of pdf.js loads its worker from a Vite asset URL; under Node the legacy build runs it in-process
+vi.mock('./pdfjs', async () => {
+  const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  return { loadPdfDocument: (data: Uint8Array) => getDocument({ data, verbosity: 0 }).promise };
+});
+
+// Minimal PDF with one uncompressed content stream per page, in a standard font
+const pdf = (pages: string[]) => {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${i + 4} 0 R`).join(' ')}] /Count ${pages.length} /Resources << /Font << /F1 3 0 R >> >> >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    ...pages.map((_, i) => `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents ${i + 4 + pages.length} 0 R >>`),
+    ...pages.map(content => `<< /Length ${content.length} >>\nstream\n${content}\nendstream`),
+  ];
+  const body = objects.map((object, i) => `${i + 1} 0 obj\n${object}\nendobj\n`).join('');
+  return new Blob([`%PDF-1.4\n${body}trailer\n<< /Root 1 0 R >>\n%%EOF`]);
+};
+
+// Word document as a zip archive with a single stored (uncompressed) word/document.xml entry
+const docx = (documentXml: string) => {
+  const encoder = new TextEncoder();
+  const name = encoder.encode('word/document.xml');
+  const data = encoder.encode(documentXml);
+
+  const local = new DataView(new ArrayBuffer(30));
+  local.setUint32(0, 0x04034b50, true);
+  local.setUint32(18, data.length, true);
+  local.setUint32(22, data.length, true);
+  local.setUint16(26, name.length, true);
+
+  const central = new DataView(new ArrayBuffer(46));
+  central.setUint32(0, 0x02014b50, true);
+  central.setUint32(20, data.length, true);
+  central.setUint32(24, data.length, true);
+  central.setUint16(28, name.length, true);
+
+  const directoryOffset = 30 + name.length + data.length;
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, 1, true);
+  end.setUint16(10, 1, true);
+  end.setUint32(12, 46 + name.length, true);
+  end.setUint32(16, directoryOffset, true);
+
+  return new Blob([local.buffer, name, data, central.buffer, name, end.buffer]);
+};
+
+describe('isTextComparable', () => {
+  it('accepts PDF, Word and plain text documents in any case', () => {
+    expect(isTextComparable('Q1 report.PDF')).toBe(true);
+    expect(isTextComparable('report.v2.docx')).toBe(true);
+    expect(isTextComparable('indicators.csv')).toBe(true);
+  });
+
+  it('rejects other and extensionless files', () => {
+    expect(isTextComparable('report.doc')).toBe(false);
+    expect(isTextComparable('photo.jpg')).toBe(false);
+    expect(isTextComparable('README')).toBe(false);
+  });
+});
+
+describe('extractDocumentText', () => {
+  it('tidies whitespace and blank lines in text files', async () => {
+    const text = await extractDocumentText(new Blob(['  Summary\r\n\r\n\r\n\r\nWe  reached\t120 households  \r\n']), 'notes.txt');
+    expect(text).toBe('Summary\n\nWe reached 120 households');
+  });
+
+  it('gives null for empty and unsupported files', async () => {
+    expect(await extractDocumentText(new Blob([' \n ']), 'empty.txt')).toBeNull();
+    expect(await extractDocumentText(new Blob(['text']), 'scan.jpg')).toBeNull();
+  });
+
+  it('reads Word paragraphs, tabs and entities', async () => {
+    const xml = '<w:document><w:body>'
+      + '<w:p><w:r><w:t>Water &amp; sanitation</w:t></w:r></w:p>'
+      + '<w:p><w:r><w:t xml:space="preserve">Target</w:t><w:tab/><w:t>120</w:t></w:r></w:p>'
+      + '</w:body></w:document>';
+    expect(await extractDocumentText(docx(xml), 'report.docx')).toBe('Water & sanitation\nTarget 120');
+  });
+
+  it('reads PDF text line by line across pages', async () => {
+    const pages = [
+      'BT /F1 12 Tf 72 720 Td (Quarterly report) Tj 0 -14 Td [(Water) -300 (points)] TJ ET',
+      'BT /F1 12 Tf 72 720 Td (Page \\(two\\)) Tj ET',
+    ];
+    expect(await extractDocumentText(pdf(pages), 'report.pdf')).toBe('Quarterly report\nWater points\nPage (two)');
+  });
+
+  it('gives null for files pdf.js cannot open', async () => {
+    expect(await extractDocumentText(new Blob(['not a pdf']), 'report.pdf')).toBeNull();
+    expect(await extractDocumentText(new Blob(['%PDF-1.4\n<< /Encrypt 9 0 R >>']), 'report.pdf')).toBeNull();
+  });
+});
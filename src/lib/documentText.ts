@@ -0,0 +1,143 @@
+// Document Text Utilities
+// Reads the plain text of uploaded report documents in the browser so that versions can be compared:
+// Word (.docx) files through the document.xml in their zip archive, PDFs through pdf.js's text content,
+// and text files as they are. Scanned PDFs give no text, and encrypted ones cannot be opened.
+
+import { loadPdfDocument } from '@/lib/pdfjs';
+
+const PLAIN_TEXT_EXTENSIONS = ['txt', 'csv', 'md'];
+const COMPARABLE_EXTENSIONS = ['pdf', 'docx', ...PLAIN_TEXT_EXTENSIONS];
+
+const getExtension = (fileName: string) => (fileName.split('.').pop() || '').toLowerCase();
+
+/** Whether text can be read from documents of this type for version comparison. */
+export function isTextComparable(fileName: string): boolean {
+  return COMPARABLE_EXTENSIONS.includes(getExtension(fileName));
+}
+
+const normaliseText = (text: string) => text
+  .replace(/\r\n?/g, '\n')
+  .split('\n')
+  .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+  .join('\n')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+/**
+ * The text of a document with one paragraph (Word) or printed line (PDF) per line, or null when the
+ * file type is not supported or no text could be read from it.
+ */
+export async function extractDocumentText(data: Blob, fileName: string): Promise<string | null> {
+  const extension = getExtension(fileName);
+  try {
+    let text: string | null = null;
+    if (PLAIN_TEXT_EXTENSIONS.includes(extension)) {
+      text = await data.text();
+    } else if (extension === 'docx') {
+      text = await extractDocxText(new Uint8Array(await data.arrayBuffer()));
+    } else if (extension === 'pdf') {
+      text = await extractPdfText(new Uint8Array(await data.arrayBuffer()));
+    }
+    return text && text.trim() ? normaliseText(text) : null;
+  } catch (error) {
+    console.error(`Error reading text from ${fileName}:`, error);
+    return null;
+  }
+}
+
+// ========================================
+// BINARY HELPERS
+// ========================================
+
+const inflate = async (bytes: Uint8Array, format: 'deflate' | 'deflate-raw'): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// ========================================
+// WORD DOCUMENTS
+// ========================================
+
+const readZipEntry = async (bytes: Uint8Array, entryName: string): Promise<Uint8Array | null> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end of central directory record sits in the last 64 KB, before an optional archive comment
+  let directoryEnd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      directoryEnd = i;
+      break;
+    }
+  }
+  if (directoryEnd < 0) return null;
+
+  const decoder = new TextDecoder();
+  const entryCount = view.getUint16(directoryEnd + 10, true);
+  let offset = view.getUint32(directoryEnd + 16, true);
+  for (let i = 0; i < entryCount && view.getUint32(offset, true) === 0x02014b50; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeader = view.getUint32(offset + 42, true);
+
+    if (decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)) === entryName) {
+      const dataStart = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+      const data = bytes.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflate(data, 'deflate-raw');
+      return null;
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+};
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXmlEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] !== '#') return XML_ENTITIES[entity] ?? match;
+    return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+  });
+
+// Text runs, tabs and line breaks. Tab stops (<w:tab w:val=... />) and deleted text (<w:delText>) are not matched.
+const DOCX_TEXT = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br(?:\s[^>]*)?\/>/g;
+
+const extractDocxText = async (bytes: Uint8Array) => {
+  const documentXml = await readZipEntry(bytes, 'word/document.xml');
+  if (!documentXml) return null;
+
+  return new TextDecoder()
+    .decode(documentXml)
+    .split('</w:p>')
+    .map(paragraph => {
+      let text = '';
+      for (const match of paragraph.matchAll(DOCX_TEXT)) {
+        if (match[1] !== undefined) text += decodeXmlEntities(match[1]);
+        else text += match[0].startsWith('<w:tab') ? '\t' : '\n';
+      }
+      return text;
+    })
+    .join('\n');
+};
+
+// ========================================
+// PDF DOCUMENTS
+// ========================================
+
+// pdf.js marks the items that end a printed line; each page starts on a new line
+const extractPdfText = async (bytes: Uint8Array) => {
+  const pdf = await loadPdfDocument(bytes);
+  try {
+    const pageTexts: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const { items } = await (await pdf.getPage(pageNumber)).getTextContent();
+      pageTexts.push(items.map(item => ('str' in item ? `${item.str}${item.hasEOL ? '\n' : ''}` : '')).join(''));
+    }
+    return pageTexts.join('\n');
+  } finally {
+    pdf.destroy();
+  }
+};
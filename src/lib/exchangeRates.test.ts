@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { ActivityFinancialData, ExchangeRate } from '@/lib/api/financialApi';
+import { convertActivityFinancials, convertAmount, findEffectiveRate, formatMoney } from './exchangeRates';
+
+const rate = (currency: string, value: number, period: Partial<ExchangeRate>): ExchangeRate => ({
+  id: `${currency}-${period.year}-${period.quarter ?? `m${period.month}`}`,
+  currency,
+  year: 2026,
+  period: period.month ? 'MONTH' : 'QUARTER',
+  rate: value,
+  updatedAt: new Date('2026-01-01'),
+  ...period,
+});
+
+const rates: ExchangeRate[] = [
+  rate('TZS', 2500, { quarter: 1 }),
+  rate('TZS', 2600, { month: 4 }),
+  rate('TZS', 2700, { month: 5 }),
+  rate('EUR', 0.9, { year: 2025, quarter: 4 }),
+];
+
+const activity = (overrides: Partial<ActivityFinancialData>): ActivityFinancialData => ({
+  id: 'fin-1',
+  activityId: 'activity-1',
+  activityTitle: 'Teacher training',
+  year: 2026,
+  q1Cost: 0,
+  q2Cost: 0,
+  q3Cost: 0,
+  q4Cost: 0,
+  totalAnnualBudget: 0,
+  totalAnnualCost: 0,
+  variance: 0,
+  createdAt: new Date('2026-01-01'),
+  lastUpdated: new Date('2026-02-01'),
+  ...overrides,
+});
+
+describe('findEffectiveRate', () => {
+  it('uses the rate recorded for the quarter', () => {
+    expect(findEffectiveRate(rates, 'TZS', 2026, 1)).toMatchObject({ rate: 2500, basis: 'Q1 2026', isFallback: false });
+  });
+
+  it('averages the monthly rates of the quarter', () => {
+    expect(findEffectiveRate(rates, 'TZS', 2026, 2)).toMatchObject({ rate: 2650, basis: 'Average of Apr, May 2026', isFallback: false });
+  });
+
+  it('falls back to the closest earlier rate, or the earliest one', () => {
+    expect(findEffectiveRate(rates, 'TZS', 2026, 4)).toMatchObject({ rate: 2700, isFallback: true, basis: 'May 2026 (no rate for Q4 2026)' });
+    expect(findEffectiveRate(rates, 'TZS', 2025, 1)).toMatchObject({ rate: 2500, isFallback: true });
+    expect(findEffectiveRate(rates, 'EUR', 2026, 3)).toMatchObject({ rate: 0.9, isFallback: true });
+  });
+
+  it('needs no rate for the base currency and returns null for unknown currencies', () => {
+    expect(findEffectiveRate([], 'USD', 2026, 1)).toMatchObject({ rate: 1, isFallback: false });
+    expect(findEffectiveRate(rates, 'UGX', 2026, 1)).toBeNull();
+  });
+});
+
+describe('convertAmount', () => {
+  it('converts through USD at the rates of the quarter', () => {
+    expect(convertAmount(rates, 5000, 'TZS', 'USD', 2026, 1)).toBe(2);
+    expect(convertAmount(rates, 2500, 'TZS', 'EUR', 2026, 1)).toBeCloseTo(0.9);
+  });
+
+  it('returns null when a currency has no rate', () => {
+    expect(convertAmount(rates, 100, 'UGX', 'USD', 2026, 1)).toBeNull();
+    expect(convertAmount(rates, 100, 'UGX', 'UGX', 2026, 1)).toBe(100);
+  });
+});
+
+describe('convertActivityFinancials', () => {
+  it('converts each quarter at its own rate and reports the rates used', () => {
+    const result = convertActivityFinancials('project-1', 2026, [
+      activity({ currency: 'TZS', totalAnnualBudget: 10_000_000, q1Cost: 2_500_000, q2Cost: 2_650_000 }),
+      activity({ activityId: 'activity-2', totalAnnualBudget: 400, q1Cost: 100 }),
+    ], rates, 'USD');
+
+    expect(result.activities[0].spent).toBeCloseTo(2000);
+    expect(result.summary.byQuarter.q1).toMatchObject({ spent: 1100 });
+    expect(result.summary.totalSpent).toBeCloseTo(2100);
+    expect(result.appliedRates.map(applied => `${applied.currency} Q${applied.quarter}`)).toEqual(['TZS Q1', 'TZS Q2', 'TZS Q3', 'TZS Q4']);
+    expect(result.missingRates).toEqual([]);
+  });
+
+  it('leaves amounts without a rate out of the totals and lists the missing rates', () => {
+    const result = convertActivityFinancials('project-1', 2026, [
+      activity({ currency: 'UGX', totalAnnualBudget: 4_000_000, q1Cost: 1_000_000 }),
+      activity({ activityId: 'activity-2', totalAnnualBudget: 400, q1Cost: 100 }),
+    ], rates, 'USD');
+
+    expect(result.summary.totalBudget).toBe(400);
+    expect(result.summary.totalSpent).toBe(100);
+    expect(result.missingRates).toContainEqual({ currency: 'UGX', quarter: 1 });
+  });
+});
+
+describe('formatMoney', () => {
+  it('uses the currency symbol and decimals', () => {
+    expect(formatMoney(1234.5)).toBe('$1,234.50');
+    expect(formatMoney(1234.5, 'TZS')).toBe('TSh 1,235');
+  });
+});
@@ -0,0 +1,213 @@
+// Exchange Rate Utilities
+// Currency metadata, lookup of the rate effective for a month or quarter, and conversion of
+// activity budgets and quarterly costs (recorded in their original currency) into one reporting
+// currency, keeping track of which rates were applied.
+
+import { ExchangeRate, ActivityFinancialData } from '@/lib/api/financialApi';
+import { FinancialSummary, QuarterlyFinancialData } from '@/types/dashboard';
+
+export const BASE_CURRENCY = 'USD'; // Rates are quoted as units of a currency per 1 USD
+
+export interface CurrencyInfo {
+  code: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export const CURRENCIES: CurrencyInfo[] = [
+  { code: 'USD', name: 'US Dollar', symbol: '$', decimals: 2 },
+  { code: 'TZS', name: 'Tanzanian Shilling', symbol: 'TSh', decimals: 0 },
+  { code: 'KSH', name: 'Kenyan Shilling', symbol: 'KSh', decimals: 0 },
+  { code: 'UGX', name: 'Ugandan Shilling', symbol: 'USh', decimals: 0 },
+  { code: 'RWF', name: 'Rwandan Franc', symbol: 'FRw', decimals: 0 },
+  { code: 'EUR', name: 'Euro', symbol: '€', decimals: 2 },
+  { code: 'CIF', name: 'CIF', symbol: 'CIF', decimals: 2 },
+];
+
+export type QuarterKey = 'q1' | 'q2' | 'q3' | 'q4';
+export const QUARTERS: QuarterKey[] = ['q1', 'q2', 'q3', 'q4'];
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export const getCurrency = (code?: string): CurrencyInfo =>
+  CURRENCIES.find(currency => currency.code === code) || { code: code || BASE_CURRENCY, name: code || BASE_CURRENCY, symbol: code || '$', decimals: 2 };
+
+export const formatMoney = (amount: number, code: string = BASE_CURRENCY): string => {
+  const { symbol, decimals } = getCurrency(code);
+  const formatted = amount.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+  return symbol.length === 1 ? `${symbol}${formatted}` : `${symbol} ${formatted}`;
+};
+
+export const getRatePeriodLabel = (rate: Pick<ExchangeRate, 'period' | 'year' | 'month' | 'quarter'>): string =>
+  rate.period === 'MONTH' ? `${MONTH_NAMES[(rate.month || 1) - 1]} ${rate.year}` : `Q${rate.quarter} ${rate.year}`;
+
+// ========================================
+// RATE LOOKUP
+// ========================================
+
+export interface EffectiveRate {
+  currency: string;
+  year: number;
+  quarter: number;
+  rate: number;
+  basis: string; // Human-readable description of where the rate came from
+  isFallback: boolean; // True when no rate was recorded for the quarter itself
+}
+
+// Sortable position of a rate's period, at month resolution (quarters sit on their middle month)
+const periodIndex = (rate: ExchangeRate): number =>
+  rate.year * 12 + (rate.period === 'MONTH' ? (rate.month || 1) - 1 : ((rate.quarter || 1) - 1) * 3 + 1);
+
+/**
+ * The rate for a currency in a given quarter: the quarterly rate if one is recorded, otherwise the
+ * average of that quarter's monthly rates, otherwise the closest earlier rate (or the closest later
+ * one when nothing earlier exists). Returns null when the currency has no rates at all.
+ */
+export const findEffectiveRate = (
+  rates: ExchangeRate[],
+  currency: string,
+  year: number,
+  quarter: number
+): EffectiveRate | null => {
+  if (currency === BASE_CURRENCY) {
+    return { currency, year, quarter, rate: 1, basis: 'Base currency', isFallback: false };
+  }
+
+  const forCurrency = rates.filter(rate => rate.currency === currency && rate.rate > 0);
+  const quarterly = forCurrency.find(rate => rate.period === 'QUARTER' && rate.year === year && rate.quarter === quarter);
+  if (quarterly) {
+    return { currency, year, quarter, rate: quarterly.rate, basis: getRatePeriodLabel(quarterly), isFallback: false };
+  }
+
+  const monthly = forCurrency.filter(rate =>
+    rate.period === 'MONTH' && rate.year === year && Math.ceil((rate.month || 1) / 3) === quarter
+  );
+  if (monthly.length > 0) {
+    const average = monthly.reduce((sum, rate) => sum + rate.rate, 0) / monthly.length;
+    const basis = monthly.length === 1
+      ? getRatePeriodLabel(monthly[0])
+      : `Average of ${monthly.map(rate => MONTH_NAMES[(rate.month || 1) - 1]).join(', ')} ${year}`;
+    return { currency, year, quarter, rate: average, basis, isFallback: false };
+  }
+
+  const target = year * 12 + (quarter - 1) * 3 + 1;
+  const sorted = [...forCurrency].sort((a, b) => periodIndex(a) - periodIndex(b));
+  const nearest = [...sorted].reverse().find(rate => periodIndex(rate) <= target) || sorted[0];
+  if (!nearest) return null;
+  return {
+    currency, year, quarter, rate: nearest.rate,
+    basis: `${getRatePeriodLabel(nearest)} (no rate for Q${quarter} ${year})`,
+    isFallback: true,
+  };
+};
+
+// ========================================
+// CONVERSION
+// ========================================
+
+// Convert a single amount at the rates effective in a quarter; null when either currency has no rate
+export const convertAmount = (
+  rates: ExchangeRate[],
+  amount: number,
+  from: string,
+  to: string,
+  year: number,
+  quarter: number
+): number | null => {
+  if (!amount || from === to) return amount;
+  const fromRate = findEffectiveRate(rates, from, year, quarter);
+  const toRate = findEffectiveRate(rates, to, year, quarter);
+  if (!fromRate || !toRate) return null;
+  return (amount / fromRate.rate) * toRate.rate;
+};
+
+export interface ConvertedFinancials {
+  summary: FinancialSummary; // In the reporting currency
+  activities: Array<{ activityId: string; budget: number; spent: number; variance: number }>; // In the reporting currency
+  appliedRates: EffectiveRate[];
+  missingRates: Array<{ currency: string; quarter: number }>; // Amounts left out of the totals
+}
+
+/**
+ * Convert activity budgets and quarterly costs from their original currency into `reportingCurrency`,
+ * using for each quarter the rate effective in that quarter (amounts go through USD). The annual budget
+ * is spread evenly across the quarters so it is converted at the same rates as the spending.
+ */
+export const convertActivityFinancials = (
+  projectId: string,
+  year: number,
+  activities: ActivityFinancialData[],
+  rates: ExchangeRate[],
+  reportingCurrency: string
+): ConvertedFinancials => {
+  const applied = new Map<string, EffectiveRate>();
+  const missing = new Map<string, { currency: string; quarter: number }>();
+
+  const rateFor = (currency: string, quarter: number): EffectiveRate | null => {
+    const effective = findEffectiveRate(rates, currency, year, quarter);
+    if (!effective) {
+      missing.set(`${currency}:${quarter}`, { currency, quarter });
+      return null;
+    }
+    if (currency !== BASE_CURRENCY) applied.set(`${currency}:${quarter}`, effective);
+    return effective;
+  };
+
+  const convert = (amount: number, from: string, quarter: number): number | null => {
+    if (!amount) return 0;
+    if (from === reportingCurrency) return amount;
+    const fromRate = rateFor(from, quarter);
+    const toRate = rateFor(reportingCurrency, quarter);
+    if (!fromRate || !toRate) return null;
+    return (amount / fromRate.rate) * toRate.rate;
+  };
+
+  const byQuarter = Object.fromEntries(
+    QUARTERS.map(key => [key, { budget: 0, spent: 0, variance: 0 } as QuarterlyFinancialData])
+  ) as FinancialSummary['byQuarter'];
+
+  const converted = activities.map(activity => {
+    const currency = activity.currency || BASE_CURRENCY;
+    const costs = [activity.q1Cost, activity.q2Cost, activity.q3Cost, activity.q4Cost];
+    let budget = 0;
+    let spent = 0;
+    QUARTERS.forEach((key, index) => {
+      const quarter = index + 1;
+      const quarterBudget = convert((activity.totalAnnualBudget || 0) / 4, currency, quarter) ?? 0;
+      const quarterSpent = convert(costs[index] || 0, currency, quarter) ?? 0;
+      byQuarter[key].budget += quarterBudget;
+      byQuarter[key].spent += quarterSpent;
+      budget += quarterBudget;
+      spent += quarterSpent;
+    });
+    return { activityId: activity.activityId, budget, spent, variance: budget - spent };
+  });
+
+  QUARTERS.forEach(key => {
+    byQuarter[key].variance = byQuarter[key].budget - byQuarter[key].spent;
+  });
+
+  const totalBudget = converted.reduce((sum, activity) => sum + activity.budget, 0);
+  const totalSpent = converted.reduce((sum, activity) => sum + activity.spent, 0);
+  const lastUpdated = activities.reduce<Date>((latest, activity) => {
+    const updated = new Date(activity.lastUpdated);
+    return updated > latest ? updated : latest;
+  }, new Date(0));
+
+  return {
+    summary: {
+      projectId,
+      year,
+      totalBudget,
+      totalSpent,
+      totalVariance: totalBudget - totalSpent,
+      byQuarter,
+      activityCount: activities.length,
+      lastUpdated,
+    },
+    activities: converted,
+    appliedRates: Array.from(applied.values()).sort((a, b) => a.currency.localeCompare(b.currency) || a.quarter - b.quarter),
+    missingRates: Array.from(missing.values()),
+  };
+};
@@ -0,0 +1,158 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FeedbackChannel } from '@/types/feedback';
+import {
+  INTAKE_MENU_TEXT,
+  InboundChannelMessage,
+  IntakeOptions,
+  createMemorySessionStore,
+  getReplyChannel,
+  handleInboundMessage,
+  smsAdapter,
+  ussdAdapter,
+  whatsAppAdapter,
+} from './feedbackChannels';
+
+const receivedAt = new Date('2026-03-01T10:00:00Z');
+
+const message = (text: string, channel: FeedbackChannel = 'SMS', sessionId?: string): InboundChannelMessage => ({
+  channel,
+  from: '+254700000001',
+  text,
+  sessionId,
+  receivedAt,
+});
+
+const intake = (overrides: Partial<IntakeOptions> = {}): IntakeOptions => ({
+  sessions: createMemorySessionStore(),
+  submit: vi.fn().mockResolvedValue({ trackingCode: 'ICS-7KX4-P9QM' }),
+  projectId: 'project-1',
+  now: receivedAt,
+  ...overrides,
+});
+
+describe('handleInboundMessage', () => {
+  it('submits at once when a keyword comes with a description', async () => {
+    const options = intake();
+    const result = await handleInboundMessage(message('complaint the water point is broken'), options);
+
+    expect(result.endSession).toBe(true);
+    expect(result.reply).toContain('ICS-7KX4-P9QM');
+    expect(result.payload).toMatchObject({
+      projectId: 'project-1',
+      channel: 'SMS',
+      channelContact: '+254700000001',
+      isAnonymous: true,
+      data: { description: 'the water point is broken', category: 4, feedbackType: 'COMPLAINT' },
+    });
+    expect(options.submit).toHaveBeenCalledWith(result.payload);
+  });
+
+  it('accepts keywords in Swahili', async () => {
+    const result = await handleInboundMessage(message('MALALAMIKO maji hayatoki'), intake());
+    expect(result.payload?.data).toMatchObject({ category: 4, description: 'maji hayatoki' });
+  });
+
+  it('asks for a description after a bare keyword or menu number, then submits the next message', async () => {
+    const options = intake();
+
+    const prompt = await handleInboundMessage(message('4'), options);
+    expect(prompt).toEqual({ reply: 'Complaint: please describe your feedback. Reply STOP to cancel.', endSession: false });
+
+    const result = await handleInboundMessage(message('The borehole is broken'), options);
+    expect(result.payload?.data).toMatchObject({ category: 4, description: 'The borehole is broken' });
+  });
+
+  it('marks abuse reports confidential and high priority', async () => {
+    const result = await handleInboundMessage(message('ABUSE a staff member asked for money'), intake());
+    expect(result.payload).toMatchObject({ priority: 'HIGH', sensitivity: 'CONFIDENTIAL', data: { category: 6 } });
+  });
+
+  it('sends the menu for anything it does not recognise', async () => {
+    const result = await handleInboundMessage(message('hello'), intake());
+    expect(result).toEqual({ reply: INTAKE_MENU_TEXT, endSession: false });
+  });
+
+  it('cancels a conversation on STOP', async () => {
+    const options = intake();
+    await handleInboundMessage(message('4'), options);
+
+    const cancelled = await handleInboundMessage(message('stop'), options);
+    expect(cancelled.endSession).toBe(true);
+
+    const result = await handleInboundMessage(message('The borehole is broken'), options);
+    expect(result.reply).toBe(INTAKE_MENU_TEXT);
+    expect(options.submit).not.toHaveBeenCalled();
+  });
+
+  it('forgets a menu choice after 30 minutes', async () => {
+    const sessions = createMemorySessionStore();
+    await handleInboundMessage(message('4'), intake({ sessions }));
+
+    const later = new Date(receivedAt.getTime() + 31 * 60 * 1000);
+    const result = await handleInboundMessage(message('The borehole is broken'), intake({ sessions, now: later }));
+    expect(result.reply).toBe(INTAKE_MENU_TEXT);
+  });
+
+  it('follows the USSD menu path carried in the message', async () => {
+    const options = intake();
+
+    expect(await handleInboundMessage(message('', 'USSD', 's1'), options)).toEqual({ reply: INTAKE_MENU_TEXT, endSession: false });
+    expect((await handleInboundMessage(message('4', 'USSD', 's1'), options)).reply).toBe('Complaint: please describe your feedback.');
+    expect((await handleInboundMessage(message('9', 'USSD', 's1'), options)).endSession).toBe(true);
+
+    const result = await handleInboundMessage(message('4*The borehole is broken', 'USSD', 's1'), options);
+    expect(result.payload?.data).toMatchObject({ category: 4, description: 'The borehole is broken' });
+  });
+
+  it('does not make up a tracking code when the backend returns none', async () => {
+    const result = await handleInboundMessage(message('HELP no food distribution'), intake({ submit: vi.fn().mockResolvedValue(undefined) }));
+    expect(result.reply).not.toContain('Tracking code');
+    expect(result.reply).toContain('do not send it again');
+  });
+});
+
+describe('channel adapters', () => {
+  it('reads Africa\'s Talking and Twilio SMS webhooks', () => {
+    expect(smsAdapter.parseWebhook({ from: '+254700000001', text: 'HELP', id: 'at-1' })[0])
+      .toMatchObject({ channel: 'SMS', from: '+254700000001', text: 'HELP', providerMessageId: 'at-1' });
+    expect(smsAdapter.parseWebhook({ From: '+254700000002', Body: 'INFO', MessageSid: 'SM1' })[0])
+      .toMatchObject({ from: '+254700000002', text: 'INFO', providerMessageId: 'SM1' });
+    expect(smsAdapter.parseWebhook({ from: '+254700000001', text: ' ' })).toEqual([]);
+  });
+
+  it('reads USSD sessions and ends or continues them in the reply', () => {
+    expect(ussdAdapter.parseWebhook({ sessionId: 's1', phoneNumber: '+254700000001', text: '4' })[0])
+      .toMatchObject({ channel: 'USSD', sessionId: 's1', text: '4' });
+    expect(ussdAdapter.buildReply('+254700000001', 'Thanks', true)).toBe('END Thanks');
+    expect(ussdAdapter.buildReply('+254700000001', 'Menu', false)).toBe('CON Menu');
+  });
+
+  it('reads WhatsApp text messages and button replies and skips other events', () => {
+    const payload = {
+      entry: [{
+        changes: [{
+          value: {
+            messages: [
+              { from: '254700000001', id: 'wamid-1', timestamp: '1772359200', type: 'text', text: { body: 'HELP' } },
+              { from: '254700000001', id: 'wamid-2', type: 'interactive', interactive: { button_reply: { id: '4' } } },
+              { from: '254700000001', id: 'wamid-3', type: 'image' },
+            ],
+          },
+        }],
+      }],
+    };
+
+    const messages = whatsAppAdapter.parseWebhook(payload);
+    expect(messages.map(m => m.text)).toEqual(['HELP', '4']);
+    expect(messages[0].receivedAt).toEqual(new Date(1772359200 * 1000));
+    expect(whatsAppAdapter.parseWebhook({ entry: [{ changes: [{ value: { statuses: [] } }] }] })).toEqual([]);
+  });
+});
+
+describe('getReplyChannel', () => {
+  it('replies on the same channel, or by SMS for USSD', () => {
+    expect(getReplyChannel('WHATSAPP')).toBe('WHATSAPP');
+    expect(getReplyChannel('USSD')).toBe('SMS');
+    expect(getReplyChannel('WEB')).toBeNull();
+  });
+});
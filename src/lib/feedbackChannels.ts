@@ -0,0 +1,374 @@
+// Feedback Channel Utilities
+// Feedback arriving by SMS, USSD and WhatsApp Business: provider adapters that turn webhook payloads into plain
+// messages, a keyword/menu conversation that collects the feedback type, SOP category and description, and the
+// submission it creates. Gateways post to the server's webhook endpoints, which run the same flow; in the client a
+// local stub plays the part of the gateways so the development simulator can try it without them.
+
+import {
+  DEFAULT_FEEDBACK_CATEGORIES,
+  FeedbackChannel,
+  FeedbackType,
+  SOP_CATEGORY_TO_CATEGORY_ID,
+  SopCategory,
+  isSensitiveSopCategory,
+} from '@/types/feedback';
+
+export interface InboundChannelMessage {
+  channel: FeedbackChannel;
+  from: string; // Sender's phone number
+  text: string;
+  sessionId?: string; // USSD session; SMS and WhatsApp conversations are keyed by sender
+  providerMessageId?: string;
+  receivedAt: Date;
+}
+
+export interface ChannelAdapter {
+  channel: FeedbackChannel;
+  /** Messages in a provider webhook payload; empty for delivery receipts and other non-message events */
+  parseWebhook: (payload: unknown) => InboundChannelMessage[];
+  /** Provider payload for a reply: a send request for SMS/WhatsApp, the session response text for USSD */
+  buildReply: (to: string, text: string, endSession: boolean) => unknown;
+}
+
+type Payload = Record<string, unknown>;
+
+const asString = (value: unknown): string => (value == null ? '' : String(value));
+const asPayload = (value: unknown): Payload => (value && typeof value === 'object' ? value as Payload : {});
+const asPayloads = (value: unknown): Payload[] => (Array.isArray(value) ? value.map(asPayload) : []);
+
+// ========================================
+// ADAPTERS
+// ========================================
+
+/** SMS gateways posting form fields: Africa's Talking (from/text/id/date) or Twilio (From/Body/MessageSid). */
+export const smsAdapter: ChannelAdapter = {
+  channel: 'SMS',
+  parseWebhook: (payload) => {
+    const body = asPayload(payload);
+    const from = asString(body.from ?? body.From);
+    const text = asString(body.text ?? body.Body);
+    if (!from || !text.trim()) return [];
+    return [{
+      channel: 'SMS',
+      from,
+      text,
+      providerMessageId: asString(body.id ?? body.MessageSid) || undefined,
+      receivedAt: body.date ? new Date(asString(body.date)) : new Date(),
+    }];
+  },
+  buildReply: (to, text) => ({ to, message: text }),
+};
+
+/**
+ * USSD gateways (Africa's Talking style): every step posts the session id and the whole menu path so far in
+ * `text`, e.g. "4*The borehole is broken"; the response starts "CON " to continue the session or "END " to close it.
+ */
+export const ussdAdapter: ChannelAdapter = {
+  channel: 'USSD',
+  parseWebhook: (payload) => {
+    const body = asPayload(payload);
+    const from = asString(body.phoneNumber);
+    const sessionId = asString(body.sessionId);
+    if (!from || !sessionId) return [];
+    return [{ channel: 'USSD', from, sessionId, text: asString(body.text), receivedAt: new Date() }];
+  },
+  buildReply: (_to, text, endSession) => `${endSession ? 'END' : 'CON'} ${text}`,
+};
+
+/** WhatsApp Business Cloud API webhooks: text messages and replies to interactive buttons/lists. */
+export const whatsAppAdapter: ChannelAdapter = {
+  channel: 'WHATSAPP',
+  parseWebhook: (payload) => {
+    const messages: InboundChannelMessage[] = [];
+    asPayloads(asPayload(payload).entry).forEach(entry => {
+      asPayloads(entry.changes).forEach(change => {
+        asPayloads(asPayload(change.value).messages).forEach(message => {
+          const interactive = asPayload(message.interactive);
+          const text = message.type === 'interactive'
+            ? asString(asPayload(interactive.button_reply).id ?? asPayload(interactive.list_reply).id)
+            : asString(asPayload(message.text).body);
+          if (!message.from || !text.trim()) return;
+          messages.push({
+            channel: 'WHATSAPP',
+            from: asString(message.from),
+            text,
+            providerMessageId: asString(message.id) || undefined,
+            receivedAt: message.timestamp ? new Date(Number(message.timestamp) * 1000) : new Date(),
+          });
+        });
+      });
+    });
+    return messages;
+  },
+  buildReply: (to, text) => ({ messaging_product: 'whatsapp', to, type: 'text', text: { body: text } }),
+};
+
+export const CHANNEL_ADAPTERS: Partial<Record<FeedbackChannel, ChannelAdapter>> = {
+  SMS: smsAdapter,
+  USSD: ussdAdapter,
+  WHATSAPP: whatsAppAdapter,
+};
+
+/** Channel staff replies go out on: the same one, except USSD which cannot be pushed to and falls back to SMS. */
+export const getReplyChannel = (channel: FeedbackChannel | undefined): FeedbackChannel | null => {
+  if (channel === 'SMS' || channel === 'WHATSAPP') return channel;
+  if (channel === 'USSD') return 'SMS';
+  return null;
+};
+
+// ========================================
+// CONVERSATION
+// ========================================
+
+export interface IntakeOption {
+  key: string; // Menu number
+  keywords: string[]; // First word that picks this option directly, e.g. "COMPLAINT the tap is broken"
+  label: string;
+  feedbackType: FeedbackType;
+  sopCategory: SopCategory;
+}
+
+export const INTAKE_OPTIONS: IntakeOption[] = [
+  { key: '1', keywords: ['THANKS', 'THANK', 'ASANTE'], label: 'Thanks', feedbackType: 'GENERAL', sopCategory: 1 },
+  { key: '2', keywords: ['INFO', 'QUESTION'], label: 'Information', feedbackType: 'GENERAL', sopCategory: 2 },
+  { key: '3', keywords: ['HELP', 'MSAADA'], label: 'Help', feedbackType: 'ISSUE', sopCategory: 3 },
+  { key: '4', keywords: ['COMPLAINT', 'COMPLAIN', 'MALALAMIKO'], label: 'Complaint', feedbackType: 'COMPLAINT', sopCategory: 4 },
+  { key: '5', keywords: ['ABUSE', 'REPORT'], label: 'Report abuse/misconduct', feedbackType: 'SAFETY_INCIDENT', sopCategory: 6 },
+];
+
+const CANCEL_KEYWORDS = ['STOP', 'CANCEL'];
+const SESSION_TTL_MS = 30 * 60 * 1000;
+
+export const INTAKE_MENU_TEXT = `ICS Feedback. Reply with a number:\n${INTAKE_OPTIONS.map(option => `${option.key} ${option.label}`).join('\n')}`;
+
+// USSD sessions are cancelled from the handset, so only SMS/WhatsApp mention STOP
+const describePrompt = (option: IntakeOption, channel: FeedbackChannel) => {
+  const prompt = option.sopCategory === 6
+    ? 'Please describe what happened. Your report is confidential.'
+    : `${option.label}: please describe your feedback.`;
+  return channel === 'USSD' ? prompt : `${prompt} Reply STOP to cancel.`;
+};
+
+export interface ChannelSession {
+  optionKey?: string; // Set once the reporter has picked a menu option; the next message is the description
+  updatedAt: Date;
+}
+
+export interface ChannelSessionStore {
+  get: (key: string) => ChannelSession | undefined;
+  set: (key: string, session: ChannelSession) => void;
+  delete: (key: string) => void;
+}
+
+export const createMemorySessionStore = (): ChannelSessionStore => {
+  const sessions = new Map<string, ChannelSession>();
+  return {
+    get: (key) => sessions.get(key),
+    set: (key, session) => { sessions.set(key, session); },
+    delete: (key) => { sessions.delete(key); },
+  };
+};
+
+/** Submission body for createSubmission, shaped like the web form's */
+export interface ChannelSubmissionPayload {
+  formId: string;
+  projectId: string;
+  categoryId: string;
+  priority: string;
+  sensitivity: string;
+  escalationLevel: string;
+  data: Record<string, unknown>;
+  isAnonymous: boolean;
+  channel: FeedbackChannel;
+  channelContact: string;
+}
+
+export interface IntakeOptions {
+  sessions: ChannelSessionStore;
+  submit: (payload: ChannelSubmissionPayload) => Promise<{ trackingCode?: string } | void>; // The backend generates the code
+  projectId?: string;
+  formId?: string;
+  now?: Date;
+}
+
+export interface IntakeResult {
+  reply: string;
+  endSession: boolean;
+  payload?: ChannelSubmissionPayload; // Set when the message completed a submission
+}
+
+const findOption = (word: string): IntakeOption | undefined => {
+  const upper = word.toUpperCase();
+  return INTAKE_OPTIONS.find(option => option.key === upper || option.keywords.includes(upper));
+};
+
+export const buildChannelSubmission = (
+  message: InboundChannelMessage,
+  option: IntakeOption,
+  description: string,
+  options: Pick<IntakeOptions, 'projectId' | 'formId'> = {}
+): ChannelSubmissionPayload => {
+  const categoryId = SOP_CATEGORY_TO_CATEGORY_ID[option.sopCategory];
+  const category = DEFAULT_FEEDBACK_CATEGORIES.find(c => c.id === categoryId);
+  const isSensitive = isSensitiveSopCategory(option.sopCategory);
+  return {
+    formId: options.formId || 'general_feedback_form',
+    projectId: options.projectId || 'organization',
+    categoryId,
+    priority: isSensitive ? 'HIGH' : (category?.defaultPriority ?? 'MEDIUM'),
+    sensitivity: isSensitive ? 'CONFIDENTIAL' : (category?.defaultSensitivity ?? 'INTERNAL'),
+    escalationLevel: category?.escalationLevel ?? 'NONE',
+    data: {
+      date: message.receivedAt.toISOString().slice(0, 10),
+      time: message.receivedAt.toTimeString().slice(0, 5),
+      description,
+      category: option.sopCategory,
+      feedbackType: option.feedbackType,
+      channel: message.channel,
+      providerMessageId: message.providerMessageId,
+    },
+    isAnonymous: true,
+    channel: message.channel,
+    channelContact: message.from,
+  };
+};
+
+const completeIntake = async (
+  message: InboundChannelMessage,
+  option: IntakeOption,
+  description: string,
+  options: IntakeOptions
+): Promise<IntakeResult> => {
+  const payload = buildChannelSubmission(message, option, description, options);
+  const created = await options.submit(payload);
+  const trackingCode = created && created.trackingCode;
+  return {
+    reply: trackingCode
+      ? `Thank you, your feedback has been received. Tracking code: ${trackingCode}. Keep it to follow up.`
+      : 'Thank you, your feedback has been received. No tracking code could be issued; please do not send it again.',
+    endSession: true,
+    payload,
+  };
+};
+
+// USSD posts the whole path each time, so the conversation state is in the message itself
+const handleUssd = async (message: InboundChannelMessage, options: IntakeOptions): Promise<IntakeResult> => {
+  const [choice, ...rest] = message.text ? message.text.split('*') : [];
+  if (!choice) return { reply: INTAKE_MENU_TEXT, endSession: false };
+  const option = INTAKE_OPTIONS.find(o => o.key === choice);
+  if (!option) return { reply: 'Invalid choice. Please dial again.', endSession: true };
+  const description = rest.join('*').trim();
+  if (!description) return { reply: describePrompt(option, message.channel), endSession: false };
+  return completeIntake(message, option, description, options);
+};
+
+/**
+ * Moves one message through the intake conversation and returns the reply to send. A keyword with text
+ * ("COMPLAINT the water point is broken") submits at once; otherwise the reporter picks from the menu and the
+ * next message is the description. SMS/WhatsApp sessions are per sender and expire after 30 minutes.
+ */
+export const handleInboundMessage = async (message: InboundChannelMessage, options: IntakeOptions): Promise<IntakeResult> => {
+  if (message.channel === 'USSD') return handleUssd(message, options);
+
+  const now = options.now || new Date();
+  const key = `${message.channel}:${message.from}`;
+  const text = message.text.trim();
+  const [firstWord = '', ...restWords] = text.split(/\s+/);
+
+  if (CANCEL_KEYWORDS.includes(firstWord.toUpperCase())) {
+    options.sessions.delete(key);
+    return { reply: 'Cancelled. Send any message to start again.', endSession: true };
+  }
+
+  const stored = options.sessions.get(key);
+  const session = stored && now.getTime() - new Date(stored.updatedAt).getTime() < SESSION_TTL_MS ? stored : undefined;
+  const pendingOption = session?.optionKey ? INTAKE_OPTIONS.find(o => o.key === session.optionKey) : undefined;
+
+  if (pendingOption) {
+    options.sessions.delete(key);
+    return completeIntake(message, pendingOption, text, options);
+  }
+
+  const option = findOption(firstWord);
+  if (option && restWords.length > 0) {
+    options.sessions.delete(key);
+    return completeIntake(message, option, restWords.join(' '), options);
+  }
+  if (option) {
+    options.sessions.set(key, { optionKey: option.key, updatedAt: now });
+    return { reply: describePrompt(option, message.channel), endSession: false };
+  }
+
+  options.sessions.set(key, { updatedAt: now });
+  return { reply: INTAKE_MENU_TEXT, endSession: false };
+};
+
+// ========================================
+// LOCAL STUB
+// ========================================
+
+export interface StubExchange {
+  channel: FeedbackChannel;
+  inboundPayload: unknown;
+  replyPayload: unknown;
+  result: IntakeResult;
+}
+
+/**
+ * Stands in for the SMS, USSD and WhatsApp gateways: builds the webhook payload each provider would post for
+ * a message typed by a test "phone", runs it through the adapter and the intake conversation, and returns the
+ * provider reply payload. Keeps the USSD menu path per phone the way a real USSD session would.
+ */
+export const createLocalChannelStub = (options: Omit<IntakeOptions, 'sessions'>) => {
+  let sessions = createMemorySessionStore();
+  const ussdSessions = new Map<string, { sessionId: string; path: string[] }>();
+  let sequence = 0;
+
+  const buildPayload = (channel: FeedbackChannel, from: string, text: string): unknown => {
+    sequence++;
+    if (channel === 'SMS') {
+      return { from, to: '40404', text, id: `stub-sms-${sequence}`, date: new Date().toISOString() };
+    }
+    if (channel === 'USSD') {
+      const ussd = ussdSessions.get(from) || { sessionId: `stub-ussd-${sequence}`, path: [] };
+      // Empty text is a plain dial; a choice on the first message is a shortcut dial like *384*123*4#
+      const path = text.trim() ? [...ussd.path, text.trim()] : ussd.path;
+      ussdSessions.set(from, { ...ussd, path });
+      return { sessionId: ussd.sessionId, serviceCode: '*384*123#', phoneNumber: from, text: path.join('*') };
+    }
+    return {
+      object: 'whatsapp_business_account',
+      entry: [{
+        id: 'stub-waba',
+        changes: [{
+          field: 'messages',
+          value: {
+            messaging_product: 'whatsapp',
+            messages: [{ from, id: `stub-wamid-${sequence}`, timestamp: String(Math.floor(Date.now() / 1000)), type: 'text', text: { body: text } }],
+          },
+        }],
+      }],
+    };
+  };
+
+  const send = async (channel: FeedbackChannel, from: string, text: string): Promise<StubExchange[]> => {
+    const adapter = CHANNEL_ADAPTERS[channel];
+    if (!adapter) throw new Error(`No adapter for the ${channel} channel`);
+    const inboundPayload = buildPayload(channel, from, text);
+    const exchanges: StubExchange[] = [];
+    for (const message of adapter.parseWebhook(inboundPayload)) {
+      const result = await handleInboundMessage(message, { ...options, sessions });
+      if (channel === 'USSD' && result.endSession) ussdSessions.delete(from);
+      exchanges.push({ channel, inboundPayload, replyPayload: adapter.buildReply(message.from, result.reply, result.endSession), result });
+    }
+    return exchanges;
+  };
+
+  const reset = () => {
+    sessions = createMemorySessionStore();
+    ussdSessions.clear();
+    sequence = 0;
+  };
+
+  return { send, reset };
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { FeedbackCategory, FeedbackSensitivity } from '@/types/feedback';
+import { isConfidentialSubmission, isSafeguardingFocalPoint } from './feedbackConfidentiality';
+
+const submission = (sopCategory: number | undefined, sensitivity: FeedbackSensitivity = 'INTERNAL') => ({
+  category: { id: 'category-1', name: 'Category', sopCategory } as FeedbackCategory,
+  sensitivity,
+});
+
+describe('isConfidentialSubmission', () => {
+  it('treats safeguarding and code-of-conduct categories as confidential', () => {
+    expect(isConfidentialSubmission(submission(6))).toBe(true);
+    expect(isConfidentialSubmission(submission(7))).toBe(true);
+  });
+
+  it('treats confidential and sensitive submissions as confidential in any category', () => {
+    expect(isConfidentialSubmission(submission(3, 'CONFIDENTIAL'))).toBe(true);
+    expect(isConfidentialSubmission(submission(3, 'SENSITIVE'))).toBe(true);
+    expect(isConfidentialSubmission(submission(undefined, 'SENSITIVE'))).toBe(true);
+  });
+
+  it('leaves other submissions open', () => {
+    expect(isConfidentialSubmission(submission(3))).toBe(false);
+    expect(isConfidentialSubmission(submission(8, 'PUBLIC'))).toBe(false);
+    expect(isConfidentialSubmission(submission(undefined))).toBe(false);
+  });
+});
+
+describe('isSafeguardingFocalPoint', () => {
+  it('only accepts named focal points', () => {
+    expect(isSafeguardingFocalPoint('user-1', ['user-1', 'user-2'])).toBe(true);
+    expect(isSafeguardingFocalPoint('user-3', ['user-1', 'user-2'])).toBe(false);
+  });
+
+  it('rejects a missing user', () => {
+    expect(isSafeguardingFocalPoint(undefined, ['user-1'])).toBe(false);
+    expect(isSafeguardingFocalPoint(null, [])).toBe(false);
+  });
+});
@@ -0,0 +1,13 @@
+// Feedback Confidentiality Utilities
+// Safeguarding/PSEA (SOP 6), code-of-conduct (SOP 7), CONFIDENTIAL and SENSITIVE submissions are restricted to the
+// named safeguarding focal points. The server enforces this: lists always carry these cases redacted (`isRedacted`),
+// and only focal points get the full case, from the single-case and export endpoints, which write the access log.
+// Everyone sees the case exists, its status and deadlines; the client only displays what it was sent.
+
+import { FeedbackSubmission, isConfidentialFeedback } from '@/types/feedback';
+
+export const isConfidentialSubmission = (submission: Pick<FeedbackSubmission, 'category' | 'sensitivity'>): boolean =>
+  isConfidentialFeedback(submission.category?.sopCategory, submission.sensitivity);
+
+export const isSafeguardingFocalPoint = (userId: string | null | undefined, focalPointIds: string[]): boolean =>
+  !!userId && focalPointIds.includes(userId);
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { FeedbackCategory, FeedbackFormSettings, FeedbackStatus, FeedbackSubmission } from '@/types/feedback';
+import { evaluateSubmissionSla, summarizeSlaCompliance } from './feedbackSla';
+
+const HOUR = 60 * 60 * 1000;
+const receivedAt = new Date('2026-03-02T08:00:00Z');
+const hoursLater = (hours: number) => new Date(receivedAt.getTime() + hours * HOUR);
+
+const category = (sopCategory: number): FeedbackCategory => ({
+  id: `sop-${sopCategory}`,
+  name: `Category ${sopCategory}`,
+  description: '',
+  type: 'GENERAL',
+  defaultPriority: 'MEDIUM',
+  defaultSensitivity: 'INTERNAL',
+  escalationLevel: 'NONE',
+  requiresImmediateNotification: false,
+  allowedStakeholders: [],
+  sopCategory,
+});
+
+const submission = (overrides: Partial<FeedbackSubmission> = {}): FeedbackSubmission => ({
+  id: 'sub-1',
+  formId: 'form-1',
+  projectId: 'project-1',
+  category: category(4),
+  priority: 'MEDIUM',
+  sensitivity: 'INTERNAL',
+  escalationLevel: 'NONE',
+  isAnonymous: true,
+  data: {},
+  attachments: [],
+  status: 'SUBMITTED',
+  submittedAt: receivedAt,
+  updatedAt: receivedAt,
+  communications: [],
+  internalNotes: [],
+  statusHistory: [],
+  ...overrides,
+});
+
+const movedTo = (status: FeedbackStatus, hours: number) => ({
+  id: `history-${status}`,
+  submissionId: 'sub-1',
+  status,
+  changedBy: 'user-1',
+  changedByName: 'Case worker',
+  createdAt: hoursLater(hours),
+});
+
+describe('evaluateSubmissionSla', () => {
+  it('gives programmatic cases 72 hours to acknowledge and 30 days to close', () => {
+    const sla = evaluateSubmissionSla(submission(), hoursLater(10));
+    expect(sla.acknowledgement).toMatchObject({ status: 'ON_TRACK', dueAt: hoursLater(72) });
+    expect(sla.closure).toMatchObject({ status: 'ON_TRACK', dueAt: hoursLater(720) });
+    expect(sla.breaches).toEqual([]);
+  });
+
+  it('gives sensitive cases 24 hours to acknowledge and 72 to close', () => {
+    const sla = evaluateSubmissionSla(submission({ category: category(6) }), hoursLater(20));
+    expect(sla.acknowledgement).toMatchObject({ status: 'AT_RISK', dueAt: hoursLater(24) });
+    expect(sla.closure.dueAt).toEqual(hoursLater(72));
+  });
+
+  it('uses the form response deadline for acknowledgement', () => {
+    const settings = { responseDeadline: 12 } as FeedbackFormSettings;
+    const sla = evaluateSubmissionSla(submission(), hoursLater(15), { settings });
+    expect(sla.acknowledgement).toMatchObject({ status: 'BREACHED', hoursOverdue: 3 });
+    expect(sla.breaches).toEqual(['ACKNOWLEDGEMENT']);
+  });
+
+  it('counts a deadline met late as missed rather than breached', () => {
+    const sla = evaluateSubmissionSla(
+      submission({ status: 'IN_PROGRESS', statusHistory: [movedTo('ACKNOWLEDGED', 80)] }),
+      hoursLater(100)
+    );
+    expect(sla.acknowledgement).toMatchObject({ status: 'MISSED', completedAt: hoursLater(80), hoursOverdue: 8 });
+    expect(sla.breaches).toEqual([]);
+  });
+
+  it('treats a case closed without acknowledgement as acknowledged when it closed', () => {
+    const sla = evaluateSubmissionSla(
+      submission({ status: 'RESOLVED', resolvedAt: hoursLater(30) }),
+      hoursLater(200)
+    );
+    expect(sla.acknowledgement.status).toBe('MET');
+    expect(sla.closure.status).toBe('MET');
+  });
+
+  it('has no closure deadline for out-of-scope cases', () => {
+    expect(evaluateSubmissionSla(submission({ category: category(8) }), hoursLater(2000)).closure.status).toBe('NOT_APPLICABLE');
+  });
+});
+
+describe('summarizeSlaCompliance', () => {
+  it('rolls deadlines up per project, worst closure compliance first', () => {
+    const now = hoursLater(800);
+    const summary = summarizeSlaCompliance([
+      submission({ id: 'a', projectId: 'p1', status: 'CLOSED', closedAt: hoursLater(100), statusHistory: [movedTo('ACKNOWLEDGED', 5)] }),
+      submission({ id: 'b', projectId: 'p2', escalationLevel: 'REGIONAL' }),
+      submission({ id: 'c', projectId: 'p2', status: 'RESOLVED', resolvedAt: hoursLater(700), statusHistory: [movedTo('ACKNOWLEDGED', 90)] }),
+    ], now);
+
+    expect(summary.map(project => project.projectId)).toEqual(['p2', 'p1']);
+    expect(summary[0]).toMatchObject({
+      total: 2,
+      openBreaches: 1,
+      escalated: 1,
+      acknowledgement: { met: 0, missed: 1, breached: 1, compliance: 0 },
+      closure: { met: 1, breached: 1, compliance: 50 },
+    });
+    expect(summary[1].closure.compliance).toBe(100);
+  });
+});
@@ -0,0 +1,189 @@
+// Feedback SLA Utilities
+// Acknowledgement and closure deadlines per submission from the ICS SOP, and SLA compliance rolled up
+// per project. Escalating missed deadlines (PROJECT → REGIONAL → NATIONAL) and notifying the assignee
+// is done by a scheduled backend job, once per submission and level; the dashboard only shows the
+// escalation level it has recorded.
+
+import {
+  EscalationLevel,
+  FeedbackForm,
+  FeedbackStatus,
+  FeedbackSubmission,
+  SlaDeadlineStatus,
+  SlaDeadlineType,
+  getAcknowledgementDueDate,
+  getClosureDueDate,
+} from '@/types/feedback';
+
+const HOUR_MS = 60 * 60 * 1000;
+const AT_RISK_SHARE = 0.2; // Open deadlines with less than this share of their window left are at risk
+
+const ACKNOWLEDGED_STATUSES: FeedbackStatus[] = ['ACKNOWLEDGED', 'IN_PROGRESS', 'RESOLVED', 'CLOSED'];
+
+const ESCALATION_RANK: Record<EscalationLevel, number> = {
+  NONE: 0,
+  PROJECT: 1,
+  REGIONAL: 2,
+  NATIONAL: 3,
+  EMERGENCY: 4,
+};
+
+export const isEscalationAbove = (level: EscalationLevel, than: EscalationLevel | null | undefined): boolean =>
+  ESCALATION_RANK[level] > ESCALATION_RANK[than || 'NONE'];
+
+// ========================================
+// DEADLINES
+// ========================================
+
+export interface SlaDeadline {
+  type: SlaDeadlineType;
+  dueAt: Date | null;
+  completedAt: Date | null;
+  status: SlaDeadlineStatus;
+  hoursOverdue: number; // 0 unless breached or missed
+}
+
+export interface SubmissionSla {
+  submission: FeedbackSubmission;
+  acknowledgement: SlaDeadline;
+  closure: SlaDeadline;
+  breaches: SlaDeadlineType[]; // Deadlines currently open and past due
+}
+
+// First move out of SUBMITTED (other than an escalation) counts as acknowledgement
+const getAcknowledgedAt = (submission: FeedbackSubmission): Date | null => {
+  const acknowledged = (submission.statusHistory || [])
+    .filter(entry => ACKNOWLEDGED_STATUSES.includes(entry.status))
+    .map(entry => new Date(entry.createdAt))
+    .sort((a, b) => a.getTime() - b.getTime());
+  if (acknowledged.length > 0) return acknowledged[0];
+  if (ACKNOWLEDGED_STATUSES.includes(submission.status)) {
+    return new Date(submission.assignedAt || submission.updatedAt);
+  }
+  return null;
+};
+
+// Closure is met by resolving or closing, as in isOverdueForClosure
+const getClosedAt = (submission: FeedbackSubmission): Date | null => {
+  if (submission.status !== 'RESOLVED' && submission.status !== 'CLOSED') return null;
+  const completedAt = submission.resolvedAt || submission.closedAt || submission.updatedAt;
+  return new Date(completedAt);
+};
+
+const evaluateDeadline = (
+  type: SlaDeadlineType,
+  startedAt: Date,
+  dueAt: Date | null,
+  completedAt: Date | null,
+  now: Date
+): SlaDeadline => {
+  if (!dueAt) return { type, dueAt, completedAt, status: 'NOT_APPLICABLE', hoursOverdue: 0 };
+
+  const reference = completedAt || now;
+  const hoursOverdue = Math.max(0, (reference.getTime() - dueAt.getTime()) / HOUR_MS);
+  if (completedAt) {
+    return { type, dueAt, completedAt, status: hoursOverdue > 0 ? 'MISSED' : 'MET', hoursOverdue };
+  }
+  if (hoursOverdue > 0) return { type, dueAt, completedAt, status: 'BREACHED', hoursOverdue };
+
+  const window = dueAt.getTime() - startedAt.getTime();
+  const left = dueAt.getTime() - now.getTime();
+  return { type, dueAt, completedAt, status: window > 0 && left / window < AT_RISK_SHARE ? 'AT_RISK' : 'ON_TRACK', hoursOverdue: 0 };
+};
+
+/**
+ * Acknowledgement and closure deadlines for one submission as of `now`. Acknowledgement is due 24h (sensitive)
+ * or 72h after receipt unless the form sets a responseDeadline; closure follows getClosureDueDate. Only open
+ * deadlines count as breaches — a deadline met late is MISSED.
+ */
+export const evaluateSubmissionSla = (
+  submission: FeedbackSubmission,
+  now: Date = new Date(),
+  form?: Pick<FeedbackForm, 'settings'>
+): SubmissionSla => {
+  const submittedAt = new Date(submission.submittedAt);
+  const sopCategory = submission.category?.sopCategory;
+  const closedAt = getClosedAt(submission);
+  // A case closed without an explicit acknowledgement was acknowledged when it closed
+  const acknowledgedAt = getAcknowledgedAt(submission) || closedAt;
+
+  const acknowledgement = evaluateDeadline(
+    'ACKNOWLEDGEMENT',
+    submittedAt,
+    getAcknowledgementDueDate(submittedAt, sopCategory, form?.settings?.responseDeadline),
+    acknowledgedAt,
+    now
+  );
+  const closure = evaluateDeadline(
+    'CLOSURE',
+    submittedAt,
+    getClosureDueDate(submittedAt, sopCategory, submission.category?.closureDeadlineHours),
+    closedAt,
+    now
+  );
+
+  return {
+    submission,
+    acknowledgement,
+    closure,
+    breaches: [acknowledgement, closure].filter(deadline => deadline.status === 'BREACHED').map(deadline => deadline.type),
+  };
+};
+
+// ========================================
+// COMPLIANCE
+// ========================================
+
+export interface SlaDeadlineCompliance {
+  met: number;
+  missed: number;
+  breached: number;
+  atRisk: number;
+  compliance: number | null; // Met share of deadlines that are met, missed or breached, 0-100; null when none are
+}
+
+export interface ProjectSlaCompliance {
+  projectId: string;
+  total: number;
+  acknowledgement: SlaDeadlineCompliance;
+  closure: SlaDeadlineCompliance;
+  openBreaches: number; // Submissions with at least one breached deadline
+  escalated: number; // Submissions above their category's own escalation level
+}
+
+const summarizeDeadlines = (deadlines: SlaDeadline[]): SlaDeadlineCompliance => {
+  const count = (status: SlaDeadlineStatus) => deadlines.filter(deadline => deadline.status === status).length;
+  const met = count('MET');
+  const missed = count('MISSED');
+  const breached = count('BREACHED');
+  const decided = met + missed + breached;
+  return { met, missed, breached, atRisk: count('AT_RISK'), compliance: decided > 0 ? (met / decided) * 100 : null };
+};
+
+/** SLA compliance per project, worst closure compliance first. */
+export const summarizeSlaCompliance = (
+  submissions: FeedbackSubmission[],
+  now: Date = new Date(),
+  forms: Pick<FeedbackForm, 'id' | 'settings'>[] = []
+): ProjectSlaCompliance[] => {
+  const byProject = new Map<string, SubmissionSla[]>();
+  submissions.forEach(submission => {
+    const sla = evaluateSubmissionSla(submission, now, forms.find(form => form.id === submission.formId));
+    const list = byProject.get(submission.projectId) || [];
+    list.push(sla);
+    byProject.set(submission.projectId, list);
+  });
+
+  return Array.from(byProject.entries())
+    .map(([projectId, slas]) => ({
+      projectId,
+      total: slas.length,
+      acknowledgement: summarizeDeadlines(slas.map(sla => sla.acknowledgement)),
+      closure: summarizeDeadlines(slas.map(sla => sla.closure)),
+      openBreaches: slas.filter(sla => sla.breaches.length > 0).length,
+      escalated: slas.filter(sla =>
+        isEscalationAbove(sla.submission.escalationLevel || 'NONE', sla.submission.category?.escalationLevel)
+      ).length,
+    }))
+    .sort((a, b) => (a.closure.compliance ?? 101) - (b.closure.compliance ?? 101));
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { TrackedFeedbackCase } from '@/types/feedback';
+import { TRACKING_PIN_PATTERN, isValidTrackingCode, normalizeTrackingCode, toPublicTrackedCase } from './feedbackTracking';
+
+describe('normalizeTrackingCode', () => {
+  it('uppercases and re-inserts the dashes', () => {
+    expect(normalizeTrackingCode('ics-7kx4-p9qm')).toBe('ICS-7KX4-P9QM');
+    expect(normalizeTrackingCode(' ICS 7KX4 P9QM ')).toBe('ICS-7KX4-P9QM');
+  });
+
+  it('accepts the code without its prefix', () => {
+    expect(normalizeTrackingCode('7kx4p9qm')).toBe('ICS-7KX4-P9QM');
+    expect(normalizeTrackingCode('7KX4-P9QM')).toBe('ICS-7KX4-P9QM');
+  });
+
+  it('leaves codes of the wrong length for validation to reject', () => {
+    expect(normalizeTrackingCode('ics-7kx4')).toBe('ICS7KX4');
+    expect(isValidTrackingCode(normalizeTrackingCode('ics-7kx4'))).toBe(false);
+  });
+});
+
+describe('isValidTrackingCode', () => {
+  it('accepts normalized codes', () => {
+    expect(isValidTrackingCode('ICS-7KX4-P9QM')).toBe(true);
+  });
+
+  it('rejects characters that are left out of codes because they are easily confused', () => {
+    expect(isValidTrackingCode('ICS-7KX4-P9Q0')).toBe(false);
+    expect(isValidTrackingCode('ICS-7KX4-P9QS')).toBe(false);
+    expect(isValidTrackingCode('ICS-1KX4-P9QM')).toBe(false);
+  });
+
+  it('requires the prefix and dashes', () => {
+    expect(isValidTrackingCode('7KX4P9QM')).toBe(false);
+    expect(isValidTrackingCode('ABC-7KX4-P9QM')).toBe(false);
+  });
+});
+
+describe('TRACKING_PIN_PATTERN', () => {
+  it('accepts 4 to 6 digits', () => {
+    expect(TRACKING_PIN_PATTERN.test('1234')).toBe(true);
+    expect(TRACKING_PIN_PATTERN.test('123456')).toBe(true);
+    expect(TRACKING_PIN_PATTERN.test('123')).toBe(false);
+    expect(TRACKING_PIN_PATTERN.test('12a4')).toBe(false);
+  });
+});
+
+describe('toPublicTrackedCase', () => {
+  it('drops fields the tracking page may not show and orders messages oldest first', () => {
+    const raw = {
+      trackingCode: 'ICS-7KX4-P9QM',
+      status: 'IN_PROGRESS',
+      categoryName: 'Service delivery',
+      submittedAt: '2026-03-01T10:00:00Z',
+      updatedAt: '2026-03-04T10:00:00Z',
+      assignedTo: 'staff-1',
+      internalNotes: [{ id: 'n1', content: 'Internal' }],
+      messages: [
+        { id: 'm2', direction: 'OUTBOUND', content: 'We are on it', sentAt: '2026-03-03T10:00:00Z', sentBy: 'staff-1' },
+        { id: 'm1', direction: 'INBOUND', content: 'Any news?', sentAt: '2026-03-02T10:00:00Z' },
+      ],
+    } as TrackedFeedbackCase;
+
+    expect(toPublicTrackedCase(raw)).toEqual({
+      trackingCode: 'ICS-7KX4-P9QM',
+      status: 'IN_PROGRESS',
+      categoryName: 'Service delivery',
+      submittedAt: '2026-03-01T10:00:00Z',
+      updatedAt: '2026-03-04T10:00:00Z',
+      messages: [
+        { id: 'm1', direction: 'INBOUND', content: 'Any news?', sentAt: '2026-03-02T10:00:00Z' },
+        { id: 'm2', direction: 'OUTBOUND', content: 'We are on it', sentAt: '2026-03-03T10:00:00Z' },
+      ],
+    });
+  });
+});
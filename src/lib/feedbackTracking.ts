@@ -0,0 +1,57 @@
+// Feedback Tracking Utilities
+// Tracking codes handed to reporters on submission (generated by the backend, which also keeps only a hash of the
+// PIN), and the reporter-facing view of a case on the public tracking page: its status in plain language and only
+// the messages shared with the reporter.
+
+import { FeedbackStatus, TrackedFeedbackCase, TrackedCaseMessage } from '@/types/feedback';
+
+// No 0/O, 1/I/L or 5/S, so codes survive being read out over the phone or copied by hand
+const TRACKING_CODE_ALPHABET = '2346789ABCDEFGHJKMNPQRTUVWXYZ';
+const TRACKING_CODE_LENGTH = 8;
+const TRACKING_CODE_PREFIX = 'ICS';
+
+export const TRACKING_PIN_PATTERN = /^\d{4,6}$/;
+
+/** Reporter-facing wording for each status; never mentions staff, levels or internal steps. */
+export const PUBLIC_STATUS_LABELS: Record<FeedbackStatus, { label: string; description: string }> = {
+  SUBMITTED: { label: 'Received', description: 'Your feedback has been received and is waiting to be reviewed.' },
+  ACKNOWLEDGED: { label: 'Under review', description: 'Your feedback has been reviewed and assigned to the team.' },
+  IN_PROGRESS: { label: 'In progress', description: 'The team is working on your feedback.' },
+  ESCALATED: { label: 'In progress', description: 'Your feedback has been referred for further action.' },
+  RESOLVED: { label: 'Resolved', description: 'Action has been taken on your feedback.' },
+  CLOSED: { label: 'Closed', description: 'This case is closed. You can still add information if something has changed.' },
+};
+
+/** Uppercases, drops spaces and dashes, accepts the code with or without its prefix, and re-inserts the dashes. */
+export const normalizeTrackingCode = (input: string): string => {
+  let chars = input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (chars.startsWith(TRACKING_CODE_PREFIX) && chars.length === TRACKING_CODE_PREFIX.length + TRACKING_CODE_LENGTH) {
+    chars = chars.slice(TRACKING_CODE_PREFIX.length);
+  }
+  if (chars.length !== TRACKING_CODE_LENGTH) return chars;
+  return `${TRACKING_CODE_PREFIX}-${chars.slice(0, 4)}-${chars.slice(4)}`;
+};
+
+/** Codes look like "ICS-7KX4-P9QM". */
+export const isValidTrackingCode = (code: string): boolean =>
+  new RegExp(`^${TRACKING_CODE_PREFIX}-[${TRACKING_CODE_ALPHABET}]{4}-[${TRACKING_CODE_ALPHABET}]{4}$`).test(code);
+
+/**
+ * Keeps only the fields the tracking page may show. The backend already filters to shareable communications and
+ * the reporter's own follow-ups; this drops anything else that comes back (sender ids, notes, assignees).
+ */
+export const toPublicTrackedCase = (raw: TrackedFeedbackCase): TrackedFeedbackCase => ({
+  trackingCode: raw.trackingCode,
+  status: raw.status,
+  categoryName: raw.categoryName,
+  submittedAt: raw.submittedAt,
+  updatedAt: raw.updatedAt,
+  messages: (raw.messages || [])
+    .map((message): TrackedCaseMessage => ({
+      id: message.id,
+      direction: message.direction,
+      content: message.content,
+      sentAt: message.sentAt,
+    }))
+    .sort((a, b) => new Date(a.sentAt).getTime() - new Date(b.sentAt).getTime()),
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { FeedbackCategory, FeedbackSubmission } from '@/types/feedback';
+import {
+  UNSPECIFIED_LOCATION,
+  buildSubmissionTrends,
+  buildTrendBuckets,
+  findRecurringIssues,
+  getSubmissionLocation,
+} from './feedbackTrends';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2026-03-31T12:00:00');
+const daysAgo = (days: number) => new Date(now.getTime() - days * DAY);
+
+const category = (sopCategory: number): FeedbackCategory => ({
+  id: `sop-${sopCategory}`,
+  name: `Category ${sopCategory}`,
+  description: '',
+  type: 'GENERAL',
+  defaultPriority: 'MEDIUM',
+  defaultSensitivity: 'INTERNAL',
+  escalationLevel: 'NONE',
+  requiresImmediateNotification: false,
+  allowedStakeholders: [],
+  sopCategory,
+});
+
+let sequence = 0;
+const submission = (description: string, overrides: Partial<FeedbackSubmission> = {}): FeedbackSubmission => ({
+  id: `sub-${++sequence}`,
+  formId: 'form-1',
+  projectId: 'project-1',
+  category: category(4),
+  priority: 'MEDIUM',
+  sensitivity: 'INTERNAL',
+  escalationLevel: 'NONE',
+  isAnonymous: true,
+  data: { description, county: 'Turkana' },
+  attachments: [],
+  status: 'SUBMITTED',
+  submittedAt: daysAgo(10),
+  updatedAt: daysAgo(10),
+  communications: [],
+  internalNotes: [],
+  statusHistory: [],
+  ...overrides,
+});
+
+describe('findRecurringIssues', () => {
+  const waterReports = [
+    submission('The water point in block 4 is broken', { submittedAt: daysAgo(60), data: { description: 'The water point in block 4 is broken', county: 'turkana ' } }),
+    submission('Water point broken again, no water for days', { submittedAt: daysAgo(20) }),
+    submission('Our water points are broken and nobody came', { submittedAt: daysAgo(5), data: { description: 'Our water points are broken and nobody came', county: 'Garissa' } }),
+  ];
+  const otherReports = [
+    submission('Food distribution started late'),
+    submission('Thank you for the new latrines'),
+  ];
+
+  it('groups descriptions that share wording into one issue', () => {
+    const [issue, ...rest] = findRecurringIssues([...otherReports, ...waterReports], { now });
+
+    expect(rest).toHaveLength(0);
+    expect(issue.submissionIds).toEqual(waterReports.map(report => report.id));
+    expect(issue.count).toBe(3);
+    expect(issue.terms.slice(0, 3)).toEqual(expect.arrayContaining(['water', 'point', 'broken']));
+  });
+
+  it('describes the issue with its dates, locations and latest wording', () => {
+    const [issue] = findRecurringIssues(waterReports, { now });
+
+    expect(issue.id).toBe(waterReports[0].id);
+    expect(issue.firstSeen).toEqual(daysAgo(60));
+    expect(issue.lastSeen).toEqual(daysAgo(5));
+    expect(issue.recentCount).toBe(2);
+    expect(issue.locations).toEqual([{ name: 'Turkana', count: 2 }, { name: 'Garissa', count: 1 }]);
+    expect(issue.sopCategories).toEqual([4]);
+    expect(issue.exampleDescription).toBe('Our water points are broken and nobody came');
+  });
+
+  it('leaves out clusters smaller than the minimum count', () => {
+    expect(findRecurringIssues(waterReports.slice(0, 2), { now })).toEqual([]);
+    expect(findRecurringIssues(waterReports.slice(0, 2), { now, minCount: 2 })).toHaveLength(1);
+  });
+
+  it('skips redacted cases and descriptions made only of stop words', () => {
+    const redacted = waterReports.map(report => ({ ...report, isRedacted: true }));
+    expect(findRecurringIssues(redacted, { now, minCount: 1 })).toEqual([]);
+    expect(findRecurringIssues([submission('it is what it is')], { now, minCount: 1 })).toEqual([]);
+  });
+
+  it('keeps dissimilar descriptions apart at a stricter similarity', () => {
+    const issues = findRecurringIssues(waterReports, { now, minCount: 1, similarity: 0.9 });
+    expect(issues.length).toBeGreaterThan(1);
+  });
+
+  it('lists the issues with most recent reports first', () => {
+    const latrineReports = [1, 2, 3].map(days => submission('Latrine in block 2 is full and overflowing', { submittedAt: daysAgo(days) }));
+    const issues = findRecurringIssues([...waterReports, ...latrineReports], { now });
+    expect(issues.map(issue => issue.count)).toEqual([3, 3]);
+    expect(issues[0].submissionIds).toEqual(latrineReports.map(report => report.id).reverse());
+  });
+});
+
+describe('getSubmissionLocation', () => {
+  it('tidies typed locations and joins the requested levels', () => {
+    const report = submission('x', { data: { county: ' turkana', subCounty: 'kakuma  camp', village: '' } });
+    expect(getSubmissionLocation(report, 'county')).toBe('Turkana');
+    expect(getSubmissionLocation(report, 'village')).toBe('Turkana / Kakuma Camp');
+    expect(getSubmissionLocation(submission('x', { data: {} }), 'county')).toBe(UNSPECIFIED_LOCATION);
+  });
+});
+
+describe('buildSubmissionTrends', () => {
+  it('counts submissions per week and compares the last two complete weeks', () => {
+    const buckets = buildTrendBuckets(new Date('2026-03-09'), new Date('2026-03-25'), 'week');
+    expect(buckets.map(bucket => bucket.key)).toEqual(['2026-03-09', '2026-03-16', '2026-03-23']);
+
+    const reports = [
+      submission('a', { submittedAt: new Date('2026-03-10T09:00:00') }),
+      submission('b', { submittedAt: new Date('2026-03-16T09:00:00') }),
+      submission('c', { submittedAt: new Date('2026-03-18T09:00:00') }),
+      submission('d', { submittedAt: new Date('2026-03-24T09:00:00'), category: category(6) }),
+    ];
+    const { series } = buildSubmissionTrends(reports, buckets, 'sopCategory');
+
+    expect(series.map(s => s.key)).toEqual(['4', '6']);
+    expect(series[0]).toMatchObject({ counts: [1, 2, 0], total: 3, change: 100 });
+    expect(series[1]).toMatchObject({ counts: [0, 0, 1], change: 0 });
+  });
+});
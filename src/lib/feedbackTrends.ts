@@ -0,0 +1,413 @@
+// Feedback Trend Utilities
+// Week/month time series of submissions by SOP category, priority and location, a location × category heatmap,
+// median time-to-acknowledge and time-to-close per period, and clustering of similar descriptions so an issue
+// reported many times shows up as one recurring theme with a count.
+
+import { FeedbackPriority, FeedbackSubmission, SOP_CATEGORY_LABELS, SopCategory } from '@/types/feedback';
+import { evaluateSubmissionSla } from '@/lib/feedbackSla';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type TrendGranularity = 'week' | 'month';
+export type TrendDimension = 'sopCategory' | 'priority' | 'location';
+export type LocationLevel = 'county' | 'subCounty' | 'village';
+
+export const UNSPECIFIED_LOCATION = 'Unspecified';
+const OTHER_SERIES_KEY = '__other';
+
+// ========================================
+// PERIODS
+// ========================================
+
+export interface TrendBucket {
+  key: string; // Month ("2026-02") or the Monday a week starts on ("2026-02-09")
+  label: string;
+  start: Date;
+  end: Date; // Exclusive
+}
+
+// Weeks start on Monday
+const getBucketStart = (date: Date, granularity: TrendGranularity): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), granularity === 'month' ? 1 : date.getDate());
+  if (granularity === 'week') start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+const nextBucketStart = (start: Date, granularity: TrendGranularity): Date =>
+  granularity === 'month'
+    ? new Date(start.getFullYear(), start.getMonth() + 1, 1)
+    : new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7);
+
+const toBucket = (start: Date, granularity: TrendGranularity): TrendBucket => {
+  const month = String(start.getMonth() + 1).padStart(2, '0');
+  const day = String(start.getDate()).padStart(2, '0');
+  return {
+    key: granularity === 'month' ? `${start.getFullYear()}-${month}` : `${start.getFullYear()}-${month}-${day}`,
+    label: granularity === 'month'
+      ? start.toLocaleDateString(undefined, { month: 'short', year: '2-digit' })
+      : start.toLocaleDateString(undefined, { day: 'numeric', month: 'short' }),
+    start,
+    end: nextBucketStart(start, granularity),
+  };
+};
+
+/** Consecutive periods covering `from`..`to`, so periods without submissions still show as zero. */
+export const buildTrendBuckets = (from: Date, to: Date, granularity: TrendGranularity): TrendBucket[] => {
+  const buckets: TrendBucket[] = [];
+  for (let start = getBucketStart(from, granularity); start <= to; start = nextBucketStart(start, granularity)) {
+    buckets.push(toBucket(start, granularity));
+  }
+  return buckets;
+};
+
+const findBucketIndex = (buckets: TrendBucket[], date: Date): number =>
+  buckets.findIndex(bucket => date >= bucket.start && date < bucket.end);
+
+/** Periods from the earliest submission (or `from`) up to `to`; weekly up to ~6 months of data, monthly beyond. */
+export const getTrendRange = (
+  submissions: FeedbackSubmission[],
+  from: Date | null,
+  to: Date = new Date()
+): { from: Date; to: Date; granularity: TrendGranularity } => {
+  const earliest = submissions.reduce<Date | null>((min, submission) => {
+    const submittedAt = new Date(submission.submittedAt);
+    return !min || submittedAt < min ? submittedAt : min;
+  }, null);
+  const start = from || earliest || new Date(to.getTime() - 90 * DAY_MS);
+  const granularity: TrendGranularity = to.getTime() - start.getTime() > 190 * DAY_MS ? 'month' : 'week';
+  return { from: start, to, granularity };
+};
+
+// ========================================
+// SERIES AND HEATMAP
+// ========================================
+
+// Location fields are typed free text on the complaint form; tidy them so "kakuma " and "Kakuma" group together
+const normalizeLocation = (value: unknown): string => {
+  const text = typeof value === 'string' ? value.trim().replace(/\s+/g, ' ') : '';
+  if (!text) return '';
+  return text.toLowerCase().replace(/(^|[\s-])\S/g, match => match.toUpperCase());
+};
+
+/** County, "County / Sub county" or "County / Sub county / Village"; redacted cases have no location. */
+export const getSubmissionLocation = (submission: FeedbackSubmission, level: LocationLevel): string => {
+  const parts = [normalizeLocation(submission.data?.county)];
+  if (level !== 'county') parts.push(normalizeLocation(submission.data?.subCounty));
+  if (level === 'village') parts.push(normalizeLocation(submission.data?.village));
+  const known = parts.filter(Boolean);
+  return known.length > 0 ? known.join(' / ') : UNSPECIFIED_LOCATION;
+};
+
+const getDimensionValue = (
+  submission: FeedbackSubmission,
+  dimension: TrendDimension,
+  locationLevel: LocationLevel
+): { key: string; label: string } => {
+  if (dimension === 'priority') return { key: submission.priority, label: submission.priority };
+  if (dimension === 'location') {
+    const location = getSubmissionLocation(submission, locationLevel);
+    return { key: location, label: location };
+  }
+  const sopCategory = submission.category?.sopCategory as SopCategory | undefined;
+  return sopCategory
+    ? { key: String(sopCategory), label: `SOP ${sopCategory}` }
+    : { key: 'none', label: 'Uncategorised' };
+};
+
+export interface TrendSeries {
+  key: string;
+  label: string;
+  counts: number[]; // One per bucket
+  total: number;
+  change: number | null; // Last full period against the one before, in percent; null without a base
+}
+
+export interface TrendSeriesResult {
+  buckets: TrendBucket[];
+  series: TrendSeries[];
+}
+
+// Compares the last two complete periods; the current one is still filling up
+const getPeriodChange = (counts: number[]): number | null => {
+  if (counts.length < 3) return null;
+  const previous = counts[counts.length - 3];
+  const last = counts[counts.length - 2];
+  if (previous === 0) return last > 0 ? null : 0;
+  return ((last - previous) / previous) * 100;
+};
+
+const PRIORITY_ORDER: FeedbackPriority[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+
+/**
+ * Submission counts per period for each value of `dimension`. Locations are limited to the `maxSeries` busiest,
+ * with the rest summed into "Other locations"; categories and priorities are always listed in full.
+ */
+export const buildSubmissionTrends = (
+  submissions: FeedbackSubmission[],
+  buckets: TrendBucket[],
+  dimension: TrendDimension,
+  options: { locationLevel?: LocationLevel; maxSeries?: number } = {}
+): TrendSeriesResult => {
+  const locationLevel = options.locationLevel || 'county';
+  const byKey = new Map<string, TrendSeries>();
+
+  submissions.forEach(submission => {
+    const index = findBucketIndex(buckets, new Date(submission.submittedAt));
+    if (index === -1) return;
+    const { key, label } = getDimensionValue(submission, dimension, locationLevel);
+    if (!byKey.has(key)) byKey.set(key, { key, label, counts: buckets.map(() => 0), total: 0, change: null });
+    const series = byKey.get(key)!;
+    series.counts[index]++;
+    series.total++;
+  });
+
+  let series = Array.from(byKey.values());
+  if (dimension === 'sopCategory') {
+    series.sort((a, b) => (Number(a.key) || 99) - (Number(b.key) || 99));
+  } else if (dimension === 'priority') {
+    series.sort((a, b) => PRIORITY_ORDER.indexOf(a.key as FeedbackPriority) - PRIORITY_ORDER.indexOf(b.key as FeedbackPriority));
+  } else {
+    series.sort((a, b) => b.total - a.total);
+    const maxSeries = options.maxSeries ?? 6;
+    if (series.length > maxSeries) {
+      const rest = series.slice(maxSeries);
+      series = series.slice(0, maxSeries);
+      series.push({
+        key: OTHER_SERIES_KEY,
+        label: 'Other locations',
+        counts: buckets.map((_, i) => rest.reduce((sum, s) => sum + s.counts[i], 0)),
+        total: rest.reduce((sum, s) => sum + s.total, 0),
+        change: null,
+      });
+    }
+  }
+
+  series.forEach(s => { s.change = getPeriodChange(s.counts); });
+  return { buckets, series };
+};
+
+/** Rows shaped for StackedBarChart: `{ name, [series label]: count }` per period. */
+export const toStackedChartData = ({ buckets, series }: TrendSeriesResult): Record<string, string | number>[] =>
+  buckets.map((bucket, i) => {
+    const row: Record<string, string | number> = { name: bucket.label };
+    series.forEach(s => { row[s.label] = s.counts[i]; });
+    return row;
+  });
+
+export interface LocationCategoryHeatmap {
+  locations: string[]; // Busiest first
+  categories: SopCategory[];
+  counts: Record<string, Record<number, number>>; // location → SOP category → submissions
+  max: number;
+}
+
+export const buildLocationCategoryHeatmap = (
+  submissions: FeedbackSubmission[],
+  locationLevel: LocationLevel = 'county',
+  maxLocations = 15
+): LocationCategoryHeatmap => {
+  const categories = Object.keys(SOP_CATEGORY_LABELS).map(Number) as SopCategory[];
+  const counts: Record<string, Record<number, number>> = {};
+  const totals: Record<string, number> = {};
+
+  submissions.forEach(submission => {
+    const sopCategory = submission.category?.sopCategory;
+    if (!sopCategory) return;
+    const location = getSubmissionLocation(submission, locationLevel);
+    counts[location] = counts[location] || {};
+    counts[location][sopCategory] = (counts[location][sopCategory] || 0) + 1;
+    totals[location] = (totals[location] || 0) + 1;
+  });
+
+  const locations = Object.keys(totals).sort((a, b) => totals[b] - totals[a]).slice(0, maxLocations);
+  const max = locations.reduce(
+    (highest, location) => Math.max(highest, ...Object.values(counts[location])),
+    0
+  );
+  return { locations, categories, counts, max };
+};
+
+// ========================================
+// RESPONSE TIMES
+// ========================================
+
+export interface ResponseTimePoint {
+  bucket: TrendBucket;
+  medianAcknowledgeHours: number | null;
+  medianCloseHours: number | null;
+  acknowledged: number;
+  closed: number;
+}
+
+export const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/**
+ * Median hours from receipt to acknowledgement and to resolution, grouped by the period the feedback was
+ * received in. Uses the same acknowledgement and closure dates as the SLA engine.
+ */
+export const buildResponseTimeTrend = (
+  submissions: FeedbackSubmission[],
+  buckets: TrendBucket[],
+  now: Date = new Date()
+): ResponseTimePoint[] => {
+  const acknowledgeHours: number[][] = buckets.map(() => []);
+  const closeHours: number[][] = buckets.map(() => []);
+
+  submissions.forEach(submission => {
+    const submittedAt = new Date(submission.submittedAt);
+    const index = findBucketIndex(buckets, submittedAt);
+    if (index === -1) return;
+    const sla = evaluateSubmissionSla(submission, now);
+    if (sla.acknowledgement.completedAt) {
+      acknowledgeHours[index].push(Math.max(0, (sla.acknowledgement.completedAt.getTime() - submittedAt.getTime()) / HOUR_MS));
+    }
+    if (sla.closure.completedAt) {
+      closeHours[index].push(Math.max(0, (sla.closure.completedAt.getTime() - submittedAt.getTime()) / HOUR_MS));
+    }
+  });
+
+  return buckets.map((bucket, i) => ({
+    bucket,
+    medianAcknowledgeHours: median(acknowledgeHours[i]),
+    medianCloseHours: median(closeHours[i]),
+    acknowledged: acknowledgeHours[i].length,
+    closed: closeHours[i].length,
+  }));
+};
+
+// ========================================
+// RECURRING ISSUES
+// ========================================
+
+// Common English and Swahili words that say nothing about the issue itself
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but',
+  'by', 'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'he', 'her', 'here', 'him', 'his',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'me', 'more', 'my', 'no', 'not', 'now', 'of', 'on',
+  'one', 'or', 'our', 'out', 'over', 'please', 'she', 'so', 'some', 'still', 'than', 'that', 'the', 'their', 'them',
+  'then', 'there', 'they', 'this', 'to', 'too', 'us', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which',
+  'who', 'why', 'will', 'with', 'would', 'you', 'your', 'ya', 'na', 'wa', 'kwa', 'ni', 'la', 'za', 'katika', 'sisi',
+]);
+
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word) && !/^\d+$/.test(word))
+    // Crude plural folding so "latrines" and "latrine" match
+    .map(word => (word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+
+type TermVector = Map<string, number>;
+
+const toVector = (tokens: string[]): TermVector => {
+  const vector: TermVector = new Map();
+  tokens.forEach(token => vector.set(token, (vector.get(token) || 0) + 1));
+  return vector;
+};
+
+const cosineSimilarity = (a: TermVector, b: TermVector): number => {
+  let dot = 0;
+  a.forEach((weight, term) => { dot += weight * (b.get(term) || 0); });
+  if (dot === 0) return 0;
+  const norm = (v: TermVector) => Math.sqrt(Array.from(v.values()).reduce((sum, w) => sum + w * w, 0));
+  return dot / (norm(a) * norm(b));
+};
+
+export interface RecurringIssue {
+  id: string;
+  terms: string[]; // Most frequent words across the cluster, used as its label
+  submissionIds: string[];
+  count: number;
+  recentCount: number; // Received in the last `recentDays`
+  locations: { name: string; count: number }[];
+  sopCategories: SopCategory[];
+  firstSeen: Date;
+  lastSeen: Date;
+  exampleDescription: string;
+}
+
+export interface RecurringIssueOptions {
+  similarity?: number; // Minimum cosine similarity to a cluster's combined wording to join it
+  minCount?: number; // Clusters smaller than this are not a recurring issue
+  recentDays?: number;
+  locationLevel?: LocationLevel;
+  now?: Date;
+}
+
+/**
+ * Groups submissions whose descriptions share wording, so the same issue reported many times appears as one
+ * theme. Greedy single pass, oldest first: each description joins the most similar existing cluster above the
+ * threshold or starts a new one; a cluster's wording is the sum of its members'. Redacted cases are skipped.
+ */
+export const findRecurringIssues = (
+  submissions: FeedbackSubmission[],
+  options: RecurringIssueOptions = {}
+): RecurringIssue[] => {
+  const similarity = options.similarity ?? 0.35;
+  const minCount = options.minCount ?? 3;
+  const recentSince = (options.now || new Date()).getTime() - (options.recentDays ?? 30) * DAY_MS;
+  const locationLevel = options.locationLevel || 'county';
+
+  const documents = submissions
+    .filter(submission => !submission.isRedacted && typeof submission.data?.description === 'string')
+    .map(submission => ({ submission, vector: toVector(tokenize(submission.data.description)) }))
+    .filter(document => document.vector.size > 0)
+    .sort((a, b) => new Date(a.submission.submittedAt).getTime() - new Date(b.submission.submittedAt).getTime());
+
+  const clusters: { vector: TermVector; members: FeedbackSubmission[] }[] = [];
+  documents.forEach(({ submission, vector }) => {
+    let bestIndex = -1;
+    let bestScore = similarity;
+    clusters.forEach((cluster, index) => {
+      const score = cosineSimilarity(vector, cluster.vector);
+      if (score >= bestScore) {
+        bestIndex = index;
+        bestScore = score;
+      }
+    });
+    if (bestIndex !== -1) {
+      const target = clusters[bestIndex];
+      target.members.push(submission);
+      vector.forEach((weight, term) => target.vector.set(term, (target.vector.get(term) || 0) + weight));
+    } else {
+      clusters.push({ vector: new Map(vector), members: [submission] });
+    }
+  });
+
+  return clusters
+    .filter(cluster => cluster.members.length >= minCount)
+    .map(cluster => {
+      const dates = cluster.members.map(member => new Date(member.submittedAt));
+      const locationCounts: Record<string, number> = {};
+      cluster.members.forEach(member => {
+        const location = getSubmissionLocation(member, locationLevel);
+        locationCounts[location] = (locationCounts[location] || 0) + 1;
+      });
+      const sopCategories = Array.from(new Set(
+        cluster.members.map(member => member.category?.sopCategory).filter((c): c is SopCategory => !!c)
+      )).sort();
+      const latest = cluster.members[cluster.members.length - 1];
+      return {
+        id: cluster.members[0].id,
+        terms: Array.from(cluster.vector.entries()).sort((a, b) => b[1] - a[1]).slice(0, 4).map(([term]) => term),
+        submissionIds: cluster.members.map(member => member.id),
+        count: cluster.members.length,
+        recentCount: dates.filter(date => date.getTime() >= recentSince).length,
+        locations: Object.entries(locationCounts)
+          .map(([name, count]) => ({ name, count }))
+          .sort((a, b) => b.count - a.count),
+        sopCategories,
+        firstSeen: dates[0],
+        lastSeen: dates[dates.length - 1],
+        exampleDescription: latest.data.description,
+      };
+    })
+    .sort((a, b) => b.recentCount - a.recentCount || b.count - a.count);
+};
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { ActivityFinancialData } from '@/lib/api/financialApi';
+import { Activity } from '@/types/dashboard';
+import { buildFinancialImportPlan, detectDecimalSeparator, parseAmount, parseQuarter } from './financialImport';
+
+const activity = (id: string, title: string): Activity => ({
+  id,
+  outcomeId: 'outcome-1',
+  title,
+  description: '',
+  progress: 0,
+  status: 'ACTIVE',
+  startDate: new Date(2026, 0, 1),
+  endDate: new Date(2026, 11, 31),
+  responsible: 'Programme team',
+});
+
+const activities = [
+  activity('a1', '1.1.1 Train community health workers'),
+  activity('a2', '1.2.1 Distribute water filters'),
+];
+
+const mapping = { activity: 'Cost centre', quarter: 'Date', amount: 'Amount', currency: 'Currency' };
+
+const record = (overrides: Partial<ActivityFinancialData>): ActivityFinancialData => ({
+  id: 'fin-a2',
+  activityId: 'a2',
+  activityTitle: '1.2.1 Distribute water filters',
+  year: 2026,
+  q1Cost: 300,
+  q2Cost: 0,
+  q3Cost: 0,
+  q4Cost: 0,
+  totalAnnualBudget: 1000,
+  totalAnnualCost: 300,
+  variance: 700,
+  currency: 'USD',
+  createdAt: new Date(2026, 0, 1),
+  lastUpdated: new Date(2026, 0, 1),
+  ...overrides,
+});
+
+describe('parseAmount', () => {
+  it('reads amounts written with either decimal separator', () => {
+    expect(parseAmount('1,250.00')).toBe(1250);
+    expect(parseAmount('1.250,00')).toBe(1250);
+    expect(parseAmount('1.250.000')).toBe(1250000);
+    expect(parseAmount('12,5')).toBe(12.5);
+    expect(parseAmount('TSh 3 000')).toBe(3000);
+  });
+
+  it('reads accounting negatives', () => {
+    expect(parseAmount('(400.00)')).toBe(-400);
+    expect(parseAmount('-1.250,50')).toBe(-1250.5);
+  });
+
+  it('rejects amounts that could be read either way unless the separator is known', () => {
+    expect(parseAmount('1.250')).toBeNull();
+    expect(parseAmount('1,250')).toBeNull();
+    expect(parseAmount('1.250', ',')).toBe(1250);
+    expect(parseAmount('1,250', '.')).toBe(1250);
+    expect(parseAmount('1,250', ',')).toBe(1.25);
+  });
+
+  it('rejects malformed amounts', () => {
+    expect(parseAmount('1,2,3.4')).toBeNull();
+    expect(parseAmount('n/a')).toBeNull();
+    expect(parseAmount('')).toBeNull();
+  });
+});
+
+describe('detectDecimalSeparator', () => {
+  it('takes the separator from the amounts that can only be read one way', () => {
+    expect(detectDecimalSeparator(['1.250', '3.400,50', 12])).toBe(',');
+    expect(detectDecimalSeparator(['1,250', '980.00'])).toBe('.');
+    expect(detectDecimalSeparator(['1,250', 400])).toBeNull();
+  });
+});
+
+describe('parseQuarter', () => {
+  it('reads quarter labels with or without a year', () => {
+    expect(parseQuarter('Q2')).toEqual({ quarter: 2, year: undefined });
+    expect(parseQuarter('2026-Q3')).toEqual({ quarter: 3, year: 2026 });
+    expect(parseQuarter('Qtr 4 2025')).toEqual({ quarter: 4, year: 2025 });
+    expect(parseQuarter('3')).toEqual({ quarter: 3 });
+    expect(parseQuarter('Jul-Sep')).toEqual({ quarter: 3 });
+  });
+
+  it('takes the quarter and year from transaction dates', () => {
+    expect(parseQuarter(new Date(2026, 4, 14))).toEqual({ quarter: 2, year: 2026 });
+    expect(parseQuarter('2026-11-03')).toEqual({ quarter: 4, year: 2026 });
+  });
+
+  it('returns null for values that are not a period', () => {
+    expect(parseQuarter('Q5')).toBeNull();
+    expect(parseQuarter('soon')).toBeNull();
+  });
+});
+
+describe('buildFinancialImportPlan', () => {
+  it('adds up transactions per activity and quarter and compares them with recorded costs', () => {
+    const plan = buildFinancialImportPlan({
+      headers: ['Cost centre', 'Date', 'Amount', 'Currency'],
+      rows: [
+        { 'Cost centre': '1.1.1', Date: '2026-02-10', Amount: '1.200,00', Currency: 'TZS' },
+        { 'Cost centre': '1.1.1 - CHW training', Date: '2026-03-02', Amount: '1.250', Currency: 'TZS' },
+        { 'Cost centre': 'Distribute water filters', Date: 'Q1', Amount: '300', Currency: '' },
+        { 'Cost centre': '', Date: '', Amount: '', Currency: '' },
+      ],
+    }, mapping, activities, [record({})], 2026);
+
+    expect(plan.issues).toEqual([]);
+    expect(plan.operations).toEqual([
+      expect.objectContaining({ activityId: 'a1', action: 'create', currency: 'TZS', quarters: { q1: 2450 }, rowNumbers: [2, 3] }),
+      expect.objectContaining({ activityId: 'a2', action: 'unchanged', currency: 'USD', quarters: { q1: 300 } }),
+    ]);
+  });
+
+  it('reports rows it cannot use instead of importing them', () => {
+    const plan = buildFinancialImportPlan({
+      headers: ['Cost centre', 'Date', 'Amount', 'Currency'],
+      rows: [
+        { 'Cost centre': '9.9.9', Date: 'Q1', Amount: '10', Currency: '' },
+        { 'Cost centre': '1.1.1', Date: 'someday', Amount: '10', Currency: '' },
+        { 'Cost centre': '1.1.1', Date: 'Q1', Amount: '1,250', Currency: '' },
+        { 'Cost centre': '1.2.1', Date: 'Q2', Amount: '50', Currency: 'EUR' },
+      ],
+    }, mapping, activities, [record({})], 2026);
+
+    expect(plan.operations).toEqual([]);
+    expect(plan.unmatchedActivities).toEqual(['9.9.9']);
+    expect(plan.issues.map(issue => issue.rowNumber)).toEqual([2, 3, 4, 5]);
+    expect(plan.issues[2].message).toMatch(/uses "\." or ","/);
+    expect(plan.issues[3].message).toBe('"1.2.1 Distribute water filters" is recorded in USD for 2026, but the import is in EUR');
+  });
+
+  it('assigns unmatched activity values through overrides', () => {
+    const plan = buildFinancialImportPlan({
+      headers: ['Cost centre', 'Date', 'Amount'],
+      rows: [{ 'Cost centre': 'CHW', Date: 'Q2', Amount: 75 }],
+    }, mapping, activities, [], 2025, { CHW: 'a1' });
+
+    expect(plan.operations).toEqual([
+      expect.objectContaining({ activityId: 'a1', year: 2025, action: 'create', currency: 'USD', quarters: { q2: 75 } }),
+    ]);
+  });
+});
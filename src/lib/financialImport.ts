@@ -0,0 +1,381 @@
+// Financial Import Utilities
+// Reads CSV / XLSX exports from an accounting system, maps their columns to activity, year,
+// quarter, amount and currency, matches rows to project activities by code or title, and
+// groups them into the activity financial records to create or update.
+
+import * as XLSX from 'xlsx';
+import { ActivityFinancialData } from '@/lib/api/financialApi';
+import { Activity } from '@/types/dashboard';
+import { BASE_CURRENCY, CURRENCIES, QUARTERS, QuarterKey } from '@/lib/exchangeRates';
+
+export type FinancialImportField = 'activity' | 'year' | 'quarter' | 'amount' | 'currency';
+
+export const FINANCIAL_IMPORT_FIELDS: Record<FinancialImportField, { label: string; required: boolean; description: string }> = {
+  activity: { label: 'Activity', required: true, description: 'Activity code (e.g. 1.2.3) or title' },
+  year: { label: 'Year', required: false, description: 'Financial year; the selected year is used when not mapped' },
+  quarter: { label: 'Quarter', required: true, description: 'Q1-Q4, 1-4 or a transaction date' },
+  amount: { label: 'Amount', required: true, description: 'Cost incurred' },
+  currency: { label: 'Currency', required: false, description: "Currency code; the activity's currency is used when not mapped" },
+};
+
+export type ColumnMapping = Partial<Record<FinancialImportField, string>>;
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: Record<string, unknown>[];
+}
+
+// Header names accounting packages commonly use for each field
+const HEADER_HINTS: Record<FinancialImportField, RegExp> = {
+  activity: /activity|project line|cost cent(er|re)|budget line|code/i,
+  year: /year|fy|fiscal/i,
+  quarter: /quarter|qtr|period|date/i,
+  amount: /amount|cost|debit|spent|expenditure|value|total/i,
+  currency: /currency|curr|ccy/i,
+};
+
+// Codes seen in exports that differ from the ones used here
+const CURRENCY_ALIASES: Record<string, string> = {
+  KES: 'KSH',
+  TSH: 'TZS',
+  USH: 'UGX',
+};
+
+// ========================================
+// READING AND MAPPING
+// ========================================
+
+const asText = (value: unknown): string => (value === undefined || value === null ? '' : String(value).trim());
+
+export const isFinancialImportFile = (file: File): boolean => /\.(csv|xlsx|xls)$/i.test(file.name);
+
+// The first sheet of a workbook (CSV files are read as a single-sheet workbook)
+export function readSpreadsheet(data: ArrayBuffer): SpreadsheetData {
+  const workbook = XLSX.read(data, { type: 'array', cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    throw new Error('The file does not contain any sheets');
+  }
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '' });
+  const headers = (XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1 })[0] || []).map(asText).filter(Boolean);
+  if (headers.length === 0 || rows.length === 0) {
+    throw new Error('The file has no header row or no data rows');
+  }
+  return { headers, rows };
+}
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  // Currency and year first so "Currency" is not taken as the amount column or "Fiscal year" as the period
+  (['currency', 'year', 'activity', 'quarter', 'amount'] as FinancialImportField[]).forEach(field => {
+    const header = headers.find(h => !used.has(h) && HEADER_HINTS[field].test(h));
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  });
+  return mapping;
+};
+
+export const getMissingRequiredFields = (mapping: ColumnMapping): FinancialImportField[] =>
+  (Object.keys(FINANCIAL_IMPORT_FIELDS) as FinancialImportField[]).filter(
+    field => FINANCIAL_IMPORT_FIELDS[field].required && !mapping[field]
+  );
+
+// ========================================
+// VALUE PARSING
+// ========================================
+
+export type DecimalSeparator = '.' | ',';
+
+/**
+ * The decimal separator an amount as written must be using, or null when it has no separator or could be read
+ * either way: "1.250,00" and "1.250.000" can only use ",", while "1.250" and "1,250" could be 1250 or 1.25.
+ */
+export const inferDecimalSeparator = (value: unknown): DecimalSeparator | null => {
+  if (typeof value === 'number') return null;
+  const text = asText(value).replace(/[^0-9.,]/g, '');
+  const lastDot = text.lastIndexOf('.');
+  const lastComma = text.lastIndexOf(',');
+  if (lastDot >= 0 && lastComma >= 0) return lastDot > lastComma ? '.' : ',';
+  const separator: DecimalSeparator | null = lastDot >= 0 ? '.' : lastComma >= 0 ? ',' : null;
+  if (!separator) return null;
+  const parts = text.split(separator);
+  // A separator that repeats groups thousands, so decimals would use the other one
+  if (parts.length > 2) return separator === '.' ? ',' : '.';
+  return parts[1].length === 3 ? null : separator;
+};
+
+// The decimal separator most amounts in a column can only be read with; null when none of them tells
+export const detectDecimalSeparator = (values: unknown[]): DecimalSeparator | null => {
+  let dots = 0;
+  let commas = 0;
+  values.forEach(value => {
+    const separator = inferDecimalSeparator(value);
+    if (separator === '.') dots += 1;
+    if (separator === ',') commas += 1;
+  });
+  if (dots === commas) return null;
+  return dots > commas ? '.' : ',';
+};
+
+/**
+ * Accepts "1,250.00", "1.250,00", "$1 250", "TSh 3,000" and accounting negatives like "(400.00)". Amounts whose
+ * separator could be read either way ("1.250") need `decimalSeparator`, usually detected from the rest of the
+ * column; without it they are rejected rather than guessed.
+ */
+export const parseAmount = (value: unknown, decimalSeparator?: DecimalSeparator | null): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const text = asText(value);
+  const digits = text.replace(/[^0-9.,]/g, '');
+  if (!/\d/.test(digits)) return null;
+  const negative = /^\(.*\)$/.test(text) || text.startsWith('-');
+
+  let parsed: number;
+  if (!/[.,]/.test(digits)) {
+    parsed = Number(digits);
+  } else {
+    const separator = inferDecimalSeparator(digits) || decimalSeparator;
+    if (!separator) return null;
+    const thousands = separator === '.' ? ',' : '.';
+    const [integer, fraction = '', ...rest] = digits.split(separator);
+    const grouped = new RegExp(`^\\d{1,3}(\\${thousands}\\d{3})*$`);
+    if (rest.length > 0 || fraction.includes(thousands)) return null;
+    if (integer.includes(thousands) && !grouped.test(integer)) return null;
+    parsed = Number(`${integer.split(thousands).join('') || '0'}.${fraction || '0'}`);
+  }
+  if (!Number.isFinite(parsed)) return null;
+  return negative ? -parsed : parsed;
+};
+
+// Quarter and (when the value is a date) year from "Q2", "2", "2025-Q2", "Apr-Jun" or a transaction date
+export const parseQuarter = (value: unknown): { quarter: number; year?: number } | null => {
+  if (value instanceof Date && !Number.isNaN(value.getTime())) {
+    return { quarter: Math.floor(value.getMonth() / 3) + 1, year: value.getFullYear() };
+  }
+  const text = asText(value);
+  if (!text) return null;
+
+  const quarterMatch = text.match(/^(?:(\d{4})\s*[-/ ]?\s*)?q(?:uarter|tr)?\s*([1-4])(?:\s*[-/ ]?\s*(\d{4}))?$/i);
+  if (quarterMatch) {
+    const year = quarterMatch[1] || quarterMatch[3];
+    return { quarter: Number(quarterMatch[2]), year: year ? Number(year) : undefined };
+  }
+  if (/^[1-4]$/.test(text)) return { quarter: Number(text) };
+
+  const monthRange = text.match(/^(jan|apr|jul|oct)[a-z]*\s*[-–]\s*(mar|jun|sep|dec)/i);
+  if (monthRange) {
+    return { quarter: ['jan', 'apr', 'jul', 'oct'].indexOf(monthRange[1].toLowerCase()) + 1 };
+  }
+
+  const date = new Date(text);
+  if (/\d{4}/.test(text) && !Number.isNaN(date.getTime())) {
+    return { quarter: Math.floor(date.getMonth() / 3) + 1, year: date.getFullYear() };
+  }
+  return null;
+};
+
+export const parseCurrency = (value: unknown): string | null => {
+  const text = asText(value).toUpperCase();
+  if (!text) return null;
+  const code = CURRENCY_ALIASES[text] || text;
+  const match = CURRENCIES.find(currency => currency.code === code || currency.symbol.toUpperCase() === text);
+  return match ? match.code : null;
+};
+
+// ========================================
+// ACTIVITY MATCHING
+// ========================================
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Leading reference number of an activity title, e.g. "1.2.3" in "1.2.3 Train community health workers"
+export const getActivityCode = (title: string): string | undefined =>
+  title.match(/^\s*([a-z]{0,3}\d+(?:\.\d+)*)(?=[\s.:)-])/i)?.[1].toLowerCase();
+
+export const matchActivity = (value: string, activities: Activity[]): Activity | undefined => {
+  const text = value.trim();
+  if (!text) return undefined;
+  const code = text.toLowerCase().replace(/[.\s]+$/, '');
+  // A code followed by a shortened title, e.g. "1.2.3 - CHW training"
+  const leadingCode = getActivityCode(`${text} `);
+  const normalized = normalize(text);
+  return (
+    activities.find(activity => activity.id === text) ||
+    activities.find(activity => getActivityCode(activity.title) === code) ||
+    activities.find(activity => normalize(activity.title) === normalized) ||
+    // The title without its leading code
+    activities.find(activity => normalize(activity.title.replace(/^\s*[a-z]{0,3}\d+(?:\.\d+)*[\s.:)-]+/i, '')) === normalized) ||
+    (leadingCode ? activities.find(activity => getActivityCode(activity.title) === leadingCode) : undefined)
+  );
+};
+
+// ========================================
+// IMPORT PLAN
+// ========================================
+
+export interface ImportRowIssue {
+  rowNumber: number; // 1-based spreadsheet row, counting the header
+  message: string;
+}
+
+export interface FinancialImportOperation {
+  key: string;
+  action: 'create' | 'update' | 'unchanged';
+  activityId: string;
+  activityTitle: string;
+  year: number;
+  currency: string;
+  quarters: Partial<Record<QuarterKey, number>>; // Imported costs, replacing the recorded ones
+  existing?: ActivityFinancialData;
+  rowNumbers: number[];
+}
+
+export interface FinancialImportPlan {
+  operations: FinancialImportOperation[];
+  issues: ImportRowIssue[];
+  unmatchedActivities: string[]; // Distinct activity values that matched no activity
+}
+
+interface ParsedRow {
+  rowNumber: number;
+  activity: Activity;
+  year: number;
+  quarter: number;
+  amount: number;
+  currency?: string;
+}
+
+/**
+ * Turn mapped spreadsheet rows into one create or update per activity and year. Rows for the same activity and
+ * quarter are added together (accounting exports list individual transactions); the total replaces that quarter's
+ * recorded cost. `activityOverrides` assigns activity values that could not be matched automatically.
+ */
+export const buildFinancialImportPlan = (
+  data: SpreadsheetData,
+  mapping: ColumnMapping,
+  activities: Activity[],
+  existing: ActivityFinancialData[],
+  defaultYear: number,
+  activityOverrides: Record<string, string> = {}
+): FinancialImportPlan => {
+  const issues: ImportRowIssue[] = [];
+  const unmatched = new Set<string>();
+  const parsed: ParsedRow[] = [];
+  const decimalSeparator = detectDecimalSeparator(data.rows.map(row => row[mapping.amount!]));
+
+  data.rows.forEach((row, index) => {
+    // __rowNum__ (non-enumerable on SheetJS rows) accounts for blank lines the parser skipped
+    const rowNumber = typeof row.__rowNum__ === 'number' ? row.__rowNum__ + 1 : index + 2;
+    const activityValue = asText(row[mapping.activity!]);
+    const amountValue = row[mapping.amount!];
+    // Blank lines and subtotal rows without an activity are skipped silently
+    if (!activityValue && asText(amountValue) === '') return;
+    if (!activityValue) {
+      issues.push({ rowNumber, message: 'No activity' });
+      return;
+    }
+
+    const overrideId = activityOverrides[activityValue];
+    const activity = overrideId
+      ? activities.find(a => a.id === overrideId)
+      : matchActivity(activityValue, activities);
+    if (!activity) {
+      unmatched.add(activityValue);
+      issues.push({ rowNumber, message: `No activity matches "${activityValue}"` });
+      return;
+    }
+
+    const quarter = parseQuarter(row[mapping.quarter!]);
+    if (!quarter) {
+      issues.push({ rowNumber, message: `Cannot read a quarter from "${asText(row[mapping.quarter!])}"` });
+      return;
+    }
+
+    const amount = parseAmount(amountValue, decimalSeparator);
+    if (amount === null) {
+      const ambiguous = parseAmount(amountValue, '.') !== null;
+      issues.push({
+        rowNumber,
+        message: ambiguous
+          ? `Cannot tell whether "${asText(amountValue)}" uses "." or "," for decimals; no other amount in the column shows which`
+          : `Cannot read an amount from "${asText(amountValue)}"`,
+      });
+      return;
+    }
+
+    let year = quarter.year ?? defaultYear;
+    if (mapping.year) {
+      const yearValue = Number(asText(row[mapping.year]).match(/\d{4}/)?.[0]);
+      if (!yearValue) {
+        issues.push({ rowNumber, message: `Cannot read a year from "${asText(row[mapping.year])}"` });
+        return;
+      }
+      year = yearValue;
+    }
+
+    let currency: string | undefined;
+    if (mapping.currency && asText(row[mapping.currency])) {
+      currency = parseCurrency(row[mapping.currency]) || undefined;
+      if (!currency) {
+        issues.push({ rowNumber, message: `Unknown currency "${asText(row[mapping.currency])}"` });
+        return;
+      }
+    }
+
+    parsed.push({ rowNumber, activity, year, quarter: quarter.quarter, amount, currency });
+  });
+
+  const groups = new Map<string, ParsedRow[]>();
+  parsed.forEach(row => {
+    const key = `${row.activity.id}:${row.year}`;
+    groups.set(key, [...(groups.get(key) || []), row]);
+  });
+
+  const operations: FinancialImportOperation[] = [];
+  groups.forEach((rows, key) => {
+    const { activity, year } = rows[0];
+    const record = existing.find(item => item.activityId === activity.id && item.year === year);
+    const currencies = Array.from(new Set(rows.map(row => row.currency).filter((c): c is string => !!c)));
+    const recordCurrency = record ? record.currency || BASE_CURRENCY : undefined;
+
+    // Costs are stored in one currency per activity record, so mixed or mismatched currencies are not merged
+    if (currencies.length > 1 || (recordCurrency && currencies.length === 1 && currencies[0] !== recordCurrency)) {
+      const message = currencies.length > 1
+        ? `Rows for "${activity.title}" (${year}) mix ${currencies.join(', ')}; an activity's costs must be in one currency`
+        : `"${activity.title}" is recorded in ${recordCurrency} for ${year}, but the import is in ${currencies[0]}`;
+      rows.forEach(row => issues.push({ rowNumber: row.rowNumber, message }));
+      return;
+    }
+
+    const quarters: Partial<Record<QuarterKey, number>> = {};
+    rows.forEach(row => {
+      const quarterKey = QUARTERS[row.quarter - 1];
+      quarters[quarterKey] = (quarters[quarterKey] || 0) + row.amount;
+    });
+
+    const recordedCosts: Record<QuarterKey, number> | undefined = record
+      ? { q1: record.q1Cost, q2: record.q2Cost, q3: record.q3Cost, q4: record.q4Cost }
+      : undefined;
+    const unchanged = !!recordedCosts && (Object.keys(quarters) as QuarterKey[]).every(
+      quarterKey => Math.abs((recordedCosts[quarterKey] || 0) - (quarters[quarterKey] || 0)) < 0.005
+    );
+
+    operations.push({
+      key,
+      action: !record ? 'create' : unchanged ? 'unchanged' : 'update',
+      activityId: activity.id,
+      activityTitle: activity.title,
+      year,
+      currency: recordCurrency || currencies[0] || BASE_CURRENCY,
+      quarters,
+      existing: record,
+      rowNumbers: rows.map(row => row.rowNumber),
+    });
+  });
+
+  operations.sort((a, b) => a.activityTitle.localeCompare(b.activityTitle) || a.year - b.year);
+  issues.sort((a, b) => a.rowNumber - b.rowNumber);
+  return { operations, issues, unmatchedActivities: Array.from(unmatched) };
+};
@@ -0,0 +1,149 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CalculatedQuestion, FormQuestion } from '@/components/dashboard/form-creation-wizard/types';
+import {
+  ExpressionError,
+  computeCalculatedValues,
+  createAnswerResolver,
+  evaluateCondition,
+  evaluateExpression,
+  findCalculationCycle,
+  getExpressionReferences,
+  isQuestionVisible,
+  parseExpression,
+  validateExpression,
+} from './formExpressions';
+
+const answers = (values: Record<string, unknown>) => createAnswerResolver(values);
+
+const calculation = (id: string, expression: string, resultType: CalculatedQuestion['resultType'] = 'NUMBER'): CalculatedQuestion => ({
+  id,
+  type: 'CALCULATED',
+  title: id,
+  isRequired: false,
+  validationRules: [],
+  dataType: 'DECIMAL',
+  order: 1,
+  expression,
+  resultType,
+});
+
+describe('parseExpression', () => {
+  it('reports the position of a syntax error', () => {
+    expect(() => parseExpression("${a} = 'yes' and")).toThrow(ExpressionError);
+    expect(() => parseExpression('sum(${a}, ')).toThrow(/at character/);
+  });
+
+  it('rejects unknown functions', () => {
+    expect(() => parseExpression('alert(1)')).toThrow(ExpressionError);
+  });
+
+  it('lists references in order of first use', () => {
+    expect(getExpressionReferences('${b} + ${a} * ${b}')).toEqual(['b', 'a']);
+  });
+});
+
+describe('evaluateExpression', () => {
+  it('follows operator precedence', () => {
+    expect(evaluateExpression('1 + 2 * 3', answers({}))).toBe(7);
+    expect(evaluateExpression('(1 + 2) * 3', answers({}))).toBe(9);
+  });
+
+  it('compares answers loosely and case-insensitively', () => {
+    const resolve = answers({ consent: 'Yes', age: '42' });
+    expect(evaluateExpression("${consent} = 'yes'", resolve)).toBe(true);
+    expect(evaluateExpression('${age} >= 18', resolve)).toBe(true);
+  });
+
+  it('treats a multiple choice answer as equal to any selected value', () => {
+    const resolve = answers({ services: ['health', 'water'] });
+    expect(evaluateExpression("${services} = 'water'", resolve)).toBe(true);
+    expect(evaluateExpression("contains(${services}, 'education')", resolve)).toBe(false);
+    expect(evaluateExpression('count(${services})', resolve)).toBe(2);
+  });
+
+  it('sums repeat instances', () => {
+    const resolve = answers({ income__i0: 100, income__i1: '250', income__i2: '' });
+    expect(evaluateExpression('sum(${income})', resolve)).toBe(350);
+    expect(createAnswerResolver({ income__i0: 100, income__i1: 250 }, 1)('income')).toBe(250);
+  });
+
+  it('returns empty instead of dividing by zero', () => {
+    expect(evaluateExpression('10 / ${n}', answers({ n: 0 }))).toBeNull();
+  });
+
+  it('computes ages from a date of birth', () => {
+    expect(evaluateExpression("age('2000-06-15', '2026-06-14')", answers({}))).toBe(25);
+    expect(evaluateExpression("age('2000-06-15', '2026-06-15')", answers({}))).toBe(26);
+  });
+});
+
+describe('evaluateCondition', () => {
+  it('shows the question when the condition cannot be evaluated', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(evaluateCondition('${a} =', answers({}))).toBe(true);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('prefers visibleIf over the legacy conditional', () => {
+    const question = {
+      ...calculation('q', '1'),
+      visibleIf: "${a} = 'no'",
+      conditional: { dependsOn: 'a', showWhen: 'yes', operator: 'EQUALS' as const },
+    } as FormQuestion;
+    expect(isQuestionVisible(question, answers({ a: 'no' }))).toBe(true);
+    expect(isQuestionVisible(question, answers({ a: 'yes' }))).toBe(false);
+  });
+});
+
+describe('findCalculationCycle', () => {
+  it('returns the chain that leads back to the calculation', () => {
+    expect(findCalculationCycle({ a: '${b} + 1', b: '${c} * 2', c: '${a}' }, 'a')).toEqual(['a', 'b', 'c', 'a']);
+  });
+
+  it('returns null for calculations that only depend on answers or other calculations', () => {
+    expect(findCalculationCycle({ a: '${b} + ${income}', b: '${income} * 2' }, 'a')).toBeNull();
+  });
+});
+
+describe('validateExpression', () => {
+  it('rejects references to the question itself and to unknown questions', () => {
+    expect(validateExpression('${self} + 1', ['self', 'a'], 'self')).toMatch(/own question/);
+    expect(validateExpression('${missing} + 1', ['self', 'a'], 'self')).toMatch(/Unknown question reference/);
+  });
+
+  it('rejects a calculation that would close a cycle with other calculations', () => {
+    const error = validateExpression('${b} + 1', ['a', 'b'], 'a', { b: '${a} * 2' });
+    expect(error).toBe('Circular calculation: ${a} → ${b} → ${a}');
+  });
+
+  it('accepts a calculation whose dependencies do not lead back to it', () => {
+    expect(validateExpression('${b} + 1', ['a', 'b', 'c'], 'a', { b: '${c} * 2' })).toBeNull();
+  });
+});
+
+describe('computeCalculatedValues', () => {
+  it('resolves calculations that depend on later calculations', () => {
+    const values = computeCalculatedValues(
+      [calculation('total', '${subtotal} + ${tax}'), calculation('tax', '${subtotal} * 0.1'), calculation('subtotal', '${price} * ${qty}')],
+      answers({ price: 20, qty: 3 })
+    );
+    expect(values).toEqual({ subtotal: 60, tax: 6, total: 66 });
+  });
+
+  it('leaves circular calculations empty and still computes the rest', () => {
+    const values = computeCalculatedValues(
+      [calculation('a', '${b} + 1'), calculation('b', '${a} + 1'), calculation('c', '${price} * 2')],
+      answers({ price: 5 })
+    );
+    expect(values).toEqual({ a: null, b: null, c: 10 });
+  });
+
+  it('formats results to the declared type', () => {
+    const values = computeCalculatedValues(
+      [calculation('ratio', '${a} / 3'), calculation('adult', '${age} >= 18', 'BOOLEAN')],
+      answers({ a: 1, age: 20 })
+    );
+    expect(values).toEqual({ ratio: 0.33, adult: true });
+  });
+});
@@ -0,0 +1,816 @@
+// Form Expression Language
+// A small, sandboxed expression language for skip logic (`visibleIf`) and CALCULATED questions.
+// Expressions are tokenized and parsed into a tree that is walked by a fixed interpreter:
+// there is no access to JavaScript globals, properties or user-defined functions.
+//
+//   ${questionId} = 'yes' and not is_empty(${otherId})
+//   in_range(${age}, 18, 59) or contains(${services}, 'health')
+//   age(${dateOfBirth})          sum(${householdMemberIncome})
+
+import { FormQuestion, FormSection, CalculatedQuestion } from '@/components/dashboard/form-creation-wizard/types';
+
+export type AnswerResolver = (questionId: string) => unknown;
+
+export class ExpressionError extends Error {
+  position?: number;
+
+  constructor(message: string, position?: number) {
+    super(position !== undefined ? `${message} (at character ${position + 1})` : message);
+    this.name = 'ExpressionError';
+    this.position = position;
+  }
+}
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'string'; value: string; pos: number }
+  | { kind: 'ref'; value: string; pos: number }
+  | { kind: 'ident'; value: string; pos: number }
+  | { kind: 'op'; value: string; pos: number }
+  | { kind: 'paren'; value: '(' | ')'; pos: number }
+  | { kind: 'comma'; pos: number }
+  | { kind: 'end'; pos: number };
+
+type ExpressionNode =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'ref'; id: string }
+  | { type: 'unary'; operator: '-' | 'not'; operand: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[]; pos: number };
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_NESTING_DEPTH = 40;
+const MAX_CALCULATION_PASSES = 25;
+
+// ========================================
+// TOKENIZER
+// ========================================
+
+const OPERATORS = ['==', '!=', '>=', '<=', '&&', '||', '=', '>', '<', '+', '-', '*', '/', '%', '!'];
+const WORD_OPERATORS = new Set(['and', 'or', 'not']);
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    if (char === '$' && source[pos + 1] === '{') {
+      const end = source.indexOf('}', pos);
+      if (end === -1) throw new ExpressionError('Unclosed question reference', pos);
+      const id = source.slice(pos + 2, end).trim();
+      if (!id) throw new ExpressionError('Empty question reference', pos);
+      tokens.push({ kind: 'ref', value: id, pos });
+      pos = end + 1;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[pos + 1] || ''))) {
+      const match = source.slice(pos).match(/^\d*\.?\d+(?:[eE][+-]?\d+)?/)!;
+      tokens.push({ kind: 'number', value: Number(match[0]), pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let cursor = pos + 1;
+      while (cursor < source.length && source[cursor] !== char) {
+        if (source[cursor] === '\\' && cursor + 1 < source.length) cursor++;
+        value += source[cursor];
+        cursor++;
+      }
+      if (cursor >= source.length) throw new ExpressionError('Unclosed string', pos);
+      tokens.push({ kind: 'string', value, pos });
+      pos = cursor + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = source.slice(pos).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+      const word = match[0].toLowerCase();
+      tokens.push(WORD_OPERATORS.has(word) ? { kind: 'op', value: word, pos } : { kind: 'ident', value: word, pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: 'paren', value: char, pos });
+      pos++;
+      continue;
+    }
+
+    if (char === ',') {
+      tokens.push({ kind: 'comma', pos });
+      pos++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, pos));
+    if (operator) {
+      const normalized = operator === '&&' ? 'and' : operator === '||' ? 'or' : operator === '!' ? 'not' : operator === '==' ? '=' : operator;
+      tokens.push({ kind: 'op', value: normalized, pos });
+      pos += operator.length;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character "${char}"`, pos);
+  }
+
+  tokens.push({ kind: 'end', pos });
+  return tokens;
+};
+
+// ========================================
+// PARSER (recursive descent)
+// ========================================
+
+const parseTokens = (tokens: Token[]): ExpressionNode => {
+  let index = 0;
+  let depth = 0;
+
+  const peek = () => tokens[index];
+  const isOp = (...values: string[]) => {
+    const token = peek();
+    return token.kind === 'op' && values.includes(token.value);
+  };
+  const describe = (token: Token) => (token.kind === 'end' ? 'end of expression' : `"${'value' in token ? token.value : ','}"`);
+
+  const enter = () => {
+    if (++depth > MAX_NESTING_DEPTH) throw new ExpressionError('Expression is nested too deeply', peek().pos);
+  };
+
+  const parseOr = (): ExpressionNode => {
+    let left = parseAnd();
+    while (isOp('or')) {
+      index++;
+      left = { type: 'binary', operator: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): ExpressionNode => {
+    let left = parseNot();
+    while (isOp('and')) {
+      index++;
+      left = { type: 'binary', operator: 'and', left, right: parseNot() };
+    }
+    return left;
+  };
+
+  const parseNot = (): ExpressionNode => {
+    if (isOp('not')) {
+      index++;
+      enter();
+      const operand = parseNot();
+      depth--;
+      return { type: 'unary', operator: 'not', operand };
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): ExpressionNode => {
+    const left = parseAdditive();
+    if (isOp('=', '!=', '>', '>=', '<', '<=')) {
+      const operator = (tokens[index++] as { value: string }).value;
+      return { type: 'binary', operator, left, right: parseAdditive() };
+    }
+    return left;
+  };
+
+  const parseAdditive = (): ExpressionNode => {
+    let left = parseMultiplicative();
+    while (isOp('+', '-')) {
+      const operator = (tokens[index++] as { value: string }).value;
+      left = { type: 'binary', operator, left, right: parseMultiplicative() };
+    }
+    return left;
+  };
+
+  const parseMultiplicative = (): ExpressionNode => {
+    let left = parseUnary();
+    while (isOp('*', '/', '%')) {
+      const operator = (tokens[index++] as { value: string }).value;
+      left = { type: 'binary', operator, left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (isOp('-')) {
+      index++;
+      enter();
+      const operand = parseUnary();
+      depth--;
+      return { type: 'unary', operator: '-', operand };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = tokens[index++];
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'ref':
+        return { type: 'ref', id: token.value };
+      case 'ident': {
+        if (token.value === 'true' || token.value === 'false') return { type: 'literal', value: token.value === 'true' };
+        if (token.value === 'null') return { type: 'literal', value: null };
+        if (!FUNCTIONS[token.value]) throw new ExpressionError(`Unknown function "${token.value}"`, token.pos);
+        const open = tokens[index++];
+        if (open.kind !== 'paren' || open.value !== '(') throw new ExpressionError(`Expected "(" after ${token.value}`, open.pos);
+        const args: ExpressionNode[] = [];
+        enter();
+        if (!(peek().kind === 'paren' && (peek() as { value: string }).value === ')')) {
+          args.push(parseOr());
+          while (peek().kind === 'comma') {
+            index++;
+            args.push(parseOr());
+          }
+        }
+        depth--;
+        const close = tokens[index++];
+        if (close.kind !== 'paren' || close.value !== ')') throw new ExpressionError(`Expected ")" but found ${describe(close)}`, close.pos);
+        const { minArgs, maxArgs } = FUNCTIONS[token.value];
+        if (args.length < minArgs || (maxArgs !== undefined && args.length > maxArgs)) {
+          const expected = maxArgs === undefined ? `at least ${minArgs}` : minArgs === maxArgs ? `${minArgs}` : `${minArgs}-${maxArgs}`;
+          throw new ExpressionError(`${token.value}() expects ${expected} argument(s)`, token.pos);
+        }
+        return { type: 'call', name: token.value, args, pos: token.pos };
+      }
+      case 'paren':
+        if (token.value === '(') {
+          enter();
+          const inner = parseOr();
+          depth--;
+          const close = tokens[index++];
+          if (close.kind !== 'paren' || close.value !== ')') throw new ExpressionError(`Expected ")" but found ${describe(close)}`, close.pos);
+          return inner;
+        }
+        throw new ExpressionError('Unexpected ")"', token.pos);
+      default:
+        throw new ExpressionError(`Unexpected ${describe(token)}`, token.pos);
+    }
+  };
+
+  const tree = parseOr();
+  if (peek().kind !== 'end') {
+    throw new ExpressionError(`Unexpected ${describe(peek())}`, peek().pos);
+  }
+  return tree;
+};
+
+// ========================================
+// VALUE HELPERS
+// ========================================
+
+const isEmptyValue = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (typeof value === 'number' && Number.isNaN(value)) ||
+  (Array.isArray(value) && value.every(isEmptyValue));
+
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (isEmptyValue(value)) return 0;
+  if (Array.isArray(value)) return value.length === 1 ? toNumber(value[0]) : NaN;
+  return Number(value);
+};
+
+const toBoolean = (value: unknown): boolean => {
+  if (Array.isArray(value)) return value.some(entry => !isEmptyValue(entry));
+  if (typeof value === 'string') return value.trim() !== '' && value.toLowerCase() !== 'false' && value !== '0';
+  if (typeof value === 'number') return value !== 0 && !Number.isNaN(value);
+  return !!value;
+};
+
+const flatten = (values: unknown[]): unknown[] =>
+  values.flatMap(value => (Array.isArray(value) ? flatten(value) : [value]));
+
+const toDate = (value: unknown): Date | null => {
+  if (isEmptyValue(value)) return null;
+  const date = value instanceof Date ? value : new Date(typeof value === 'number' ? value : String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const toIsoDate = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const isNumericLike = (value: unknown): boolean =>
+  typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value)));
+
+const looseEquals = (left: unknown, right: unknown): boolean => {
+  if (isEmptyValue(left) || isEmptyValue(right)) return isEmptyValue(left) && isEmptyValue(right);
+  // A multiple choice answer "equals" a value when that value is selected
+  if (Array.isArray(left) && !Array.isArray(right)) return left.some(entry => looseEquals(entry, right));
+  if (Array.isArray(right) && !Array.isArray(left)) return right.some(entry => looseEquals(left, entry));
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((entry, i) => looseEquals(entry, right[i]));
+  }
+  if (typeof left === 'boolean' || typeof right === 'boolean') return toBoolean(left) === toBoolean(right);
+  if (isNumericLike(left) && isNumericLike(right)) return Number(left) === Number(right);
+  return String(left).toLowerCase() === String(right).toLowerCase();
+};
+
+// Numbers compare numerically, ISO dates and other strings lexically
+const compare = (left: unknown, right: unknown): number | null => {
+  if (isEmptyValue(left) || isEmptyValue(right)) return null;
+  if (isNumericLike(left) && isNumericLike(right)) return Number(left) - Number(right);
+  const leftText = String(left);
+  const rightText = String(right);
+  return leftText < rightText ? -1 : leftText > rightText ? 1 : 0;
+};
+
+const contains = (container: unknown, value: unknown): boolean => {
+  if (Array.isArray(container)) return container.some(entry => looseEquals(entry, value));
+  if (isEmptyValue(container)) return false;
+  return String(container).toLowerCase().includes(String(value).toLowerCase());
+};
+
+const finiteOrNull = (value: number): number | null => (Number.isFinite(value) ? value : null);
+
+/**
+ * Reduce a stored answer to the value expressions work with: repeat instances
+ * ({ "0": a, "1": b }) become lists, choice answers carrying conditional
+ * sub-answers resolve to the selected value, dates become ISO strings.
+ */
+export const normalizeAnswer = (value: unknown): unknown => {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalizeAnswer);
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if ('_parentValue' in record) return normalizeAnswer(record._parentValue);
+    const keys = Object.keys(record);
+    if (keys.length > 0 && keys.every(key => /^\d+$/.test(key))) {
+      return keys.sort((a, b) => Number(a) - Number(b)).map(key => normalizeAnswer(record[key]));
+    }
+  }
+  return value;
+};
+
+// ========================================
+// FUNCTIONS
+// ========================================
+
+interface ExpressionFunction {
+  minArgs: number;
+  maxArgs?: number;
+  signature: string;
+  description: string;
+  call: (args: unknown[]) => unknown;
+}
+
+const FUNCTIONS: Record<string, ExpressionFunction> = {
+  is_empty: {
+    minArgs: 1, maxArgs: 1, signature: 'is_empty(value)',
+    description: 'True when the question has no answer',
+    call: ([value]) => isEmptyValue(value),
+  },
+  not_empty: {
+    minArgs: 1, maxArgs: 1, signature: 'not_empty(value)',
+    description: 'True when the question has an answer',
+    call: ([value]) => !isEmptyValue(value),
+  },
+  in_range: {
+    minArgs: 3, maxArgs: 3, signature: 'in_range(value, min, max)',
+    description: 'True when the value is between min and max (inclusive)',
+    call: ([value, min, max]) => {
+      if (isEmptyValue(value)) return false;
+      const low = compare(value, min);
+      const high = compare(value, max);
+      return low !== null && high !== null && low >= 0 && high <= 0;
+    },
+  },
+  contains: {
+    minArgs: 2, maxArgs: 2, signature: 'contains(answer, value)',
+    description: 'True when a multiple choice answer includes the value, or text contains it',
+    call: ([container, value]) => contains(container, value),
+  },
+  selected: {
+    minArgs: 2, maxArgs: 2, signature: 'selected(answer, value)',
+    description: 'Same as contains(); familiar from XLSForm',
+    call: ([container, value]) => contains(container, value),
+  },
+  count: {
+    minArgs: 1, maxArgs: 1, signature: 'count(answer)',
+    description: 'Number of selected options or answered repeat instances',
+    call: ([value]) => (Array.isArray(value) ? flatten(value).filter(entry => !isEmptyValue(entry)).length : isEmptyValue(value) ? 0 : 1),
+  },
+  sum: {
+    minArgs: 1, signature: 'sum(a, b, ...)',
+    description: 'Total of the values; repeat answers are added across instances',
+    call: args => finiteOrNull(flatten(args).filter(v => !isEmptyValue(v)).reduce<number>((total, v) => total + toNumber(v), 0)),
+  },
+  avg: {
+    minArgs: 1, signature: 'avg(a, b, ...)',
+    description: 'Average of the answered values',
+    call: args => {
+      const values = flatten(args).filter(v => !isEmptyValue(v)).map(toNumber);
+      return values.length ? finiteOrNull(values.reduce((a, b) => a + b, 0) / values.length) : null;
+    },
+  },
+  min: {
+    minArgs: 1, signature: 'min(a, b, ...)',
+    description: 'Smallest of the answered values',
+    call: args => {
+      const values = flatten(args).filter(v => !isEmptyValue(v)).map(toNumber);
+      return values.length ? finiteOrNull(Math.min(...values)) : null;
+    },
+  },
+  max: {
+    minArgs: 1, signature: 'max(a, b, ...)',
+    description: 'Largest of the answered values',
+    call: args => {
+      const values = flatten(args).filter(v => !isEmptyValue(v)).map(toNumber);
+      return values.length ? finiteOrNull(Math.max(...values)) : null;
+    },
+  },
+  round: {
+    minArgs: 1, maxArgs: 2, signature: 'round(value, decimals)',
+    description: 'Round to the given number of decimal places (default 0)',
+    call: ([value, decimals]) => {
+      if (isEmptyValue(value)) return null;
+      const factor = Math.pow(10, Math.max(0, Math.min(10, Math.trunc(toNumber(decimals ?? 0)))));
+      return finiteOrNull(Math.round(toNumber(value) * factor) / factor);
+    },
+  },
+  number: {
+    minArgs: 1, maxArgs: 1, signature: 'number(value)',
+    description: 'Convert text to a number (empty when not numeric)',
+    call: ([value]) => (isEmptyValue(value) ? null : finiteOrNull(toNumber(value))),
+  },
+  length: {
+    minArgs: 1, maxArgs: 1, signature: 'length(text)',
+    description: 'Number of characters in the answer',
+    call: ([value]) => (isEmptyValue(value) ? 0 : String(value).length),
+  },
+  concat: {
+    minArgs: 1, signature: 'concat(a, b, ...)',
+    description: 'Join values into one piece of text',
+    call: args => flatten(args).filter(v => !isEmptyValue(v)).map(String).join(''),
+  },
+  if: {
+    minArgs: 3, maxArgs: 3, signature: 'if(condition, then, else)',
+    description: 'Choose between two values',
+    call: ([condition, whenTrue, whenFalse]) => (toBoolean(condition) ? whenTrue : whenFalse),
+  },
+  coalesce: {
+    minArgs: 1, signature: 'coalesce(a, b, ...)',
+    description: 'First value that is not empty',
+    call: args => args.find(v => !isEmptyValue(v)) ?? null,
+  },
+  today: {
+    minArgs: 0, maxArgs: 0, signature: 'today()',
+    description: "Today's date (YYYY-MM-DD)",
+    call: () => toIsoDate(new Date()),
+  },
+  age: {
+    minArgs: 1, maxArgs: 2, signature: 'age(dateOfBirth, onDate)',
+    description: 'Completed years from a date of birth to today (or onDate)',
+    call: ([birth, onDate]) => {
+      const birthDate = toDate(birth);
+      const reference = onDate === undefined ? new Date() : toDate(onDate);
+      if (!birthDate || !reference) return null;
+      let years = reference.getFullYear() - birthDate.getFullYear();
+      const beforeBirthday =
+        reference.getMonth() < birthDate.getMonth() ||
+        (reference.getMonth() === birthDate.getMonth() && reference.getDate() < birthDate.getDate());
+      if (beforeBirthday) years--;
+      return years;
+    },
+  },
+  days_between: {
+    minArgs: 2, maxArgs: 2, signature: 'days_between(start, end)',
+    description: 'Whole days from start to end',
+    call: ([start, end]) => {
+      const startDate = toDate(start);
+      const endDate = toDate(end);
+      if (!startDate || !endDate) return null;
+      const utc = (date: Date) => Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+      return Math.round((utc(endDate) - utc(startDate)) / (24 * 60 * 60 * 1000));
+    },
+  },
+};
+
+export const EXPRESSION_FUNCTIONS = Object.values(FUNCTIONS).map(({ signature, description }) => ({ signature, description }));
+
+// ========================================
+// EVALUATION
+// ========================================
+
+const evaluateNode = (node: ExpressionNode, resolve: AnswerResolver): unknown => {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'ref':
+      return normalizeAnswer(resolve(node.id));
+    case 'unary': {
+      const operand = evaluateNode(node.operand, resolve);
+      if (node.operator === 'not') return !toBoolean(operand);
+      return isEmptyValue(operand) ? null : finiteOrNull(-toNumber(operand));
+    }
+    case 'binary': {
+      // Short-circuit so that the right side may rely on the left (e.g. not_empty(x) and x > 3)
+      if (node.operator === 'and') return toBoolean(evaluateNode(node.left, resolve)) && toBoolean(evaluateNode(node.right, resolve));
+      if (node.operator === 'or') return toBoolean(evaluateNode(node.left, resolve)) || toBoolean(evaluateNode(node.right, resolve));
+
+      const left = evaluateNode(node.left, resolve);
+      const right = evaluateNode(node.right, resolve);
+      switch (node.operator) {
+        case '=':
+          return looseEquals(left, right);
+        case '!=':
+          return !looseEquals(left, right);
+        case '>':
+        case '>=':
+        case '<':
+        case '<=': {
+          const result = compare(left, right);
+          if (result === null) return false;
+          if (node.operator === '>') return result > 0;
+          if (node.operator === '>=') return result >= 0;
+          if (node.operator === '<') return result < 0;
+          return result <= 0;
+        }
+        case '+':
+          // "+" joins text when either side is non-numeric text
+          if ((typeof left === 'string' && !isNumericLike(left) && !isEmptyValue(left)) ||
+              (typeof right === 'string' && !isNumericLike(right) && !isEmptyValue(right))) {
+            return `${isEmptyValue(left) ? '' : left}${isEmptyValue(right) ? '' : right}`;
+          }
+          return finiteOrNull(toNumber(left) + toNumber(right));
+        case '-':
+          return finiteOrNull(toNumber(left) - toNumber(right));
+        case '*':
+          return finiteOrNull(toNumber(left) * toNumber(right));
+        case '/':
+          return toNumber(right) === 0 ? null : finiteOrNull(toNumber(left) / toNumber(right));
+        case '%':
+          return toNumber(right) === 0 ? null : finiteOrNull(toNumber(left) % toNumber(right));
+      }
+      throw new ExpressionError(`Unknown operator "${node.operator}"`);
+    }
+    case 'call':
+      return FUNCTIONS[node.name].call(node.args.map(arg => evaluateNode(arg, resolve)));
+  }
+};
+
+const parseCache = new Map<string, ExpressionNode | ExpressionError>();
+
+/**
+ * Parse an expression, throwing an ExpressionError with the position of the problem.
+ * Parsed trees are cached per expression text.
+ */
+export const parseExpression = (source: string): ExpressionNode => {
+  const cached = parseCache.get(source);
+  if (cached instanceof ExpressionError) throw cached;
+  if (cached) return cached;
+
+  try {
+    if (source.length > MAX_EXPRESSION_LENGTH) {
+      throw new ExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+    }
+    const tree = parseTokens(tokenize(source));
+    parseCache.set(source, tree);
+    return tree;
+  } catch (error) {
+    if (error instanceof ExpressionError) parseCache.set(source, error);
+    throw error;
+  }
+};
+
+export const evaluateExpression = (source: string, resolve: AnswerResolver): unknown =>
+  evaluateNode(parseExpression(source), resolve);
+
+/**
+ * Evaluate a skip-logic condition. A broken expression shows the question
+ * rather than silently hiding it from respondents.
+ */
+export const evaluateCondition = (source: string, resolve: AnswerResolver): boolean => {
+  try {
+    return toBoolean(evaluateExpression(source, resolve));
+  } catch (error) {
+    console.warn('Failed to evaluate condition:', source, error);
+    return true;
+  }
+};
+
+// Question IDs referenced by an expression, in order of first use
+export const getExpressionReferences = (source: string): string[] => {
+  const references: string[] = [];
+  const walk = (node: ExpressionNode) => {
+    switch (node.type) {
+      case 'ref':
+        if (!references.includes(node.id)) references.push(node.id);
+        break;
+      case 'unary':
+        walk(node.operand);
+        break;
+      case 'binary':
+        walk(node.left);
+        walk(node.right);
+        break;
+      case 'call':
+        node.args.forEach(walk);
+        break;
+    }
+  };
+  walk(parseExpression(source));
+  return references;
+};
+
+/**
+ * Find a chain of calculations leading from a calculation back to itself, e.g. [a, b, a]
+ * when a uses b and b uses a. `calculations` maps CALCULATED question IDs to their expressions;
+ * expressions that do not parse are treated as having no references.
+ */
+export const findCalculationCycle = (calculations: Record<string, string>, startId: string): string[] | null => {
+  const dependencies = (id: string): string[] => {
+    try {
+      return getExpressionReferences(calculations[id] || '').filter(ref => ref in calculations);
+    } catch {
+      return [];
+    }
+  };
+
+  const visited = new Set<string>();
+  const search = (id: string, path: string[]): string[] | null => {
+    for (const next of dependencies(id)) {
+      if (next === startId) return [...path, next];
+      if (visited.has(next)) continue;
+      visited.add(next);
+      const found = search(next, [...path, next]);
+      if (found) return found;
+    }
+    return null;
+  };
+  return search(startId, [startId]);
+};
+
+/**
+ * Check an expression for the builder. Returns an error message, or null when the
+ * expression parses and only references known questions. For a calculation, pass the
+ * expressions of the form's other CALCULATED questions to reject circular references.
+ */
+export const validateExpression = (
+  source: string,
+  knownQuestionIds?: string[],
+  selfId?: string,
+  calculations?: Record<string, string>
+): string | null => {
+  if (!source.trim()) return null;
+  try {
+    const references = getExpressionReferences(source);
+    if (selfId && references.includes(selfId)) {
+      return 'An expression cannot refer to its own question';
+    }
+    if (knownQuestionIds) {
+      const unknown = references.filter(id => !knownQuestionIds.includes(id));
+      if (unknown.length > 0) return `Unknown question reference: \${${unknown[0]}}`;
+    }
+    if (selfId && calculations) {
+      const cycle = findCalculationCycle({ ...calculations, [selfId]: source }, selfId);
+      if (cycle) return `Circular calculation: ${cycle.map(id => `\${${id}}`).join(' → ')}`;
+    }
+    return null;
+  } catch (error) {
+    return (error instanceof Error && error.message) || 'Invalid expression';
+  }
+};
+
+// ========================================
+// FORM HELPERS
+// ========================================
+
+/**
+ * Build a resolver over a responses map. Answers of repeatable sections are stored as
+ * `${questionId}__i${n}`: with an instance index the matching instance is used, without
+ * one the reference resolves to the list of all instance answers (e.g. for sum()).
+ */
+export const createAnswerResolver = (answers: Record<string, unknown>, instanceIndex?: number): AnswerResolver => questionId => {
+  if (instanceIndex !== undefined) {
+    const scoped = answers[`${questionId}__i${instanceIndex}`];
+    if (scoped !== undefined) return scoped;
+  }
+  if (answers[questionId] !== undefined) return answers[questionId];
+
+  const prefix = `${questionId}__i`;
+  const instances = Object.keys(answers)
+    .filter(key => key.startsWith(prefix) && /^\d+$/.test(key.slice(prefix.length)))
+    .sort((a, b) => Number(a.slice(prefix.length)) - Number(b.slice(prefix.length)))
+    .map(key => answers[key]);
+  return instances.length > 0 ? instances : undefined;
+};
+
+const matchesLegacyCondition = (
+  actual: unknown,
+  operator: 'EQUALS' | 'NOT_EQUALS' | 'GREATER_THAN' | 'LESS_THAN' | 'CONTAINS' | undefined,
+  expected: unknown
+): boolean => {
+  const expectedValues = Array.isArray(expected) ? expected : [expected];
+  switch (operator || 'EQUALS') {
+    case 'NOT_EQUALS':
+      return !expectedValues.some(value => looseEquals(actual, value));
+    case 'GREATER_THAN':
+      return expectedValues.some(value => (compare(actual, value) ?? 0) > 0);
+    case 'LESS_THAN':
+      return expectedValues.some(value => (compare(actual, value) ?? 0) < 0);
+    case 'CONTAINS':
+      return expectedValues.some(value => contains(actual, value));
+    default:
+      return expectedValues.some(value => looseEquals(actual, value));
+  }
+};
+
+/**
+ * Whether a question should be shown: `visibleIf` wins over the single-question
+ * `conditional` rule; questions with neither are always shown.
+ */
+export const isQuestionVisible = (question: FormQuestion, resolve: AnswerResolver): boolean => {
+  if (question.visibleIf?.trim()) {
+    return evaluateCondition(question.visibleIf, resolve);
+  }
+  if (question.conditional?.dependsOn && question.conditional.showWhen !== undefined) {
+    const actual = normalizeAnswer(resolve(question.conditional.dependsOn));
+    return matchesLegacyCondition(actual, question.conditional.operator, question.conditional.showWhen);
+  }
+  return true;
+};
+
+// Section-level skip logic; undefined when the section has no expression so callers fall back to their own rules
+export const isSectionVisibleByExpression = (section: FormSection, resolve: AnswerResolver): boolean | undefined => {
+  const expression = section.conditional?.visibleIf;
+  if (!expression?.trim()) return undefined;
+  return evaluateCondition(expression, resolve);
+};
+
+// Coerce a raw result to the question's declared result type
+export const formatCalculatedValue = (question: CalculatedQuestion, value: unknown): string | number | boolean | null => {
+  if (isEmptyValue(value)) return null;
+  switch (question.resultType) {
+    case 'NUMBER': {
+      const number = toNumber(value);
+      if (!Number.isFinite(number)) return null;
+      const decimals = question.decimalPlaces ?? 2;
+      const factor = Math.pow(10, decimals);
+      return Math.round(number * factor) / factor;
+    }
+    case 'BOOLEAN':
+      return toBoolean(value);
+    case 'DATE': {
+      const date = toDate(value);
+      return date ? toIsoDate(date) : null;
+    }
+    default:
+      return Array.isArray(value) ? flatten(value).filter(v => !isEmptyValue(v)).join(', ') : String(value);
+  }
+};
+
+/**
+ * Compute every CALCULATED question in the list. Calculations may refer to each other;
+ * passes are repeated until the values settle, up to a fixed limit. Calculations that are
+ * part of a cycle are left empty.
+ */
+export const computeCalculatedValues = (questions: FormQuestion[], resolve: AnswerResolver): Record<string, unknown> => {
+  const withExpression = questions.filter((q): q is CalculatedQuestion => q.type === 'CALCULATED' && !!q.expression?.trim());
+  const calculations = Object.fromEntries(withExpression.map(q => [q.id, q.expression]));
+  const values: Record<string, unknown> = {};
+  const calculated = withExpression.filter(question => {
+    if (!findCalculationCycle(calculations, question.id)) return true;
+    values[question.id] = null;
+    return false;
+  });
+  const layered: AnswerResolver = id => (id in values ? values[id] : resolve(id));
+
+  for (let pass = 0; pass < Math.min(Math.max(1, calculated.length), MAX_CALCULATION_PASSES); pass++) {
+    let changed = false;
+    calculated.forEach(question => {
+      let next: ReturnType<typeof formatCalculatedValue> = null;
+      try {
+        next = formatCalculatedValue(question, evaluateExpression(question.expression, layered));
+      } catch {
+        next = null;
+      }
+      if (values[question.id] !== next) {
+        values[question.id] = next;
+        changed = true;
+      }
+    });
+    if (!changed) break;
+  }
+
+  return values;
+};
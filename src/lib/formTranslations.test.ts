@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { Form, FormQuestion } from '@/components/dashboard/form-creation-wizard/types';
+import {
+  getTranslatableStrings,
+  getTranslationProgress,
+  localizeForm,
+  resolveFormLanguage,
+  setFormTranslation,
+} from './formTranslations';
+
+const base = { isRequired: false, validationRules: [], dataType: 'TEXT' as const };
+
+const water: FormQuestion = {
+  ...base,
+  id: 'water',
+  type: 'SINGLE_CHOICE',
+  title: 'Main water source',
+  description: 'Pick one',
+  order: 1,
+  displayType: 'RADIO',
+  translations: { title: { fr: "Source d'eau principale" } },
+  options: [
+    { id: 'o1', label: 'Piped', value: 'piped', translations: { label: { fr: 'Robinet' } } },
+    {
+      id: 'o2',
+      label: 'Other',
+      value: 'other',
+      conditionalQuestions: [{ ...base, id: 'other_source', type: 'SHORT_TEXT', title: 'Which source?', order: 1 }],
+    },
+  ],
+};
+
+const satisfaction: FormQuestion = {
+  ...base,
+  id: 'satisfaction',
+  type: 'LIKERT_SCALE',
+  title: 'Satisfaction',
+  order: 2,
+  defaultScaleType: '3_POINT',
+  defaultLabels: { negative: 'Unhappy', positive: 'Happy' },
+  statements: [{ id: 's1', text: 'Staff were helpful', scaleType: '3_POINT', translations: { text: { fr: 'Le personnel était serviable' } } }],
+  translations: { positive: { fr: 'Content' } },
+};
+
+const makeForm = (overrides: Partial<Form> = {}): Form => ({
+  id: 'form-1',
+  title: 'Household Survey',
+  description: 'Annual survey',
+  projectId: 'project-1',
+  createdBy: 'user-1',
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-01-01'),
+  status: 'PUBLISHED',
+  version: 1,
+  sections: [
+    { id: 'main', title: 'Household', order: 1, questions: [water, satisfaction], translations: { title: { fr: 'Ménage' } } },
+  ],
+  settings: {
+    requireAuthentication: false,
+    thankYouMessage: 'Thanks',
+    notificationEmails: [],
+    languages: { defaultLanguage: 'en', languages: ['en', 'fr'] },
+    translations: { title: { fr: 'Enquête ménage' } },
+  },
+  responseCount: 0,
+  tags: [],
+  ...overrides,
+});
+
+describe('resolveFormLanguage', () => {
+  it('picks the first candidate the form is offered in, matching on the base code', () => {
+    expect(resolveFormLanguage(makeForm(), [null, 'sw', 'fr-FR', 'en'])).toBe('fr');
+  });
+
+  it('falls back to the default language when no candidate is offered', () => {
+    expect(resolveFormLanguage(makeForm(), ['sw', undefined])).toBe('en');
+    expect(resolveFormLanguage(makeForm({ settings: undefined }), ['fr'])).toBe('en');
+  });
+});
+
+describe('getTranslatableStrings', () => {
+  it('lists every string in the order a respondent sees them, with existing translations', () => {
+    const strings = getTranslatableStrings(makeForm());
+
+    expect(strings.map(entry => entry.key)).toEqual([
+      'form:title',
+      'form:description',
+      'form:thankYouMessage',
+      'section:main:title',
+      'question:water:title',
+      'question:water:description',
+      'option:water:o1',
+      'option:water:o2',
+      'question:other_source:title',
+      'question:satisfaction:title',
+      'statement:satisfaction:s1',
+      'scale:satisfaction:negative',
+      'scale:satisfaction:positive',
+    ]);
+    expect(strings.find(entry => entry.key === 'option:water:o1')).toMatchObject({
+      group: 'Household',
+      label: 'Option',
+      source: 'Piped',
+      translations: { fr: 'Robinet' },
+    });
+    expect(getTranslationProgress(strings, 'fr')).toEqual({ translated: 6, total: 13 });
+  });
+});
+
+describe('setFormTranslation', () => {
+  it('sets a translation on an option of a nested conditional question', () => {
+    const form = makeForm();
+    const { sections } = setFormTranslation(form, { kind: 'question', questionId: 'other_source', field: 'title' }, 'fr', 'Quelle source ?');
+
+    const other = sections?.[0].questions[0];
+    expect(other && 'options' in other && other.options[1].conditionalQuestions?.[0].translations?.title).toEqual({ fr: 'Quelle source ?' });
+    // The original form is left untouched
+    expect(getTranslatableStrings(form).find(entry => entry.key === 'question:other_source:title')?.translations).toEqual({});
+  });
+
+  it('clears a translation when the text is empty', () => {
+    const { settings } = setFormTranslation(makeForm(), { kind: 'form', field: 'title' }, 'fr', '  ');
+
+    expect(settings?.translations?.title).toEqual({});
+  });
+
+  it('translates options and statements', () => {
+    let form = makeForm();
+    form = { ...form, ...setFormTranslation(form, { kind: 'option', questionId: 'water', optionId: 'o2' }, 'fr', 'Autre') };
+    form = { ...form, ...setFormTranslation(form, { kind: 'statement', questionId: 'satisfaction', statementId: 's1' }, 'sw', 'Wafanyakazi walisaidia') };
+
+    const strings = getTranslatableStrings(form);
+    expect(strings.find(entry => entry.key === 'option:water:o2')?.translations).toEqual({ fr: 'Autre' });
+    expect(strings.find(entry => entry.key === 'statement:satisfaction:s1')?.translations).toEqual({
+      fr: 'Le personnel était serviable',
+      sw: 'Wafanyakazi walisaidia',
+    });
+  });
+});
+
+describe('localizeForm', () => {
+  it('swaps in translations and keeps the source text where there is none', () => {
+    const localized = localizeForm(makeForm(), 'fr');
+    const [question, scale] = localized.sections[0].questions;
+
+    expect(localized.title).toBe('Enquête ménage');
+    expect(localized.description).toBe('Annual survey');
+    expect(localized.settings.thankYouMessage).toBe('Thanks');
+    expect(localized.sections[0].title).toBe('Ménage');
+    expect(question.title).toBe("Source d'eau principale");
+    expect(question.description).toBe('Pick one');
+    expect('options' in question && question.options.map(option => option.label)).toEqual(['Robinet', 'Other']);
+    expect(scale.type === 'LIKERT_SCALE' && scale.defaultLabels).toEqual({ negative: 'Unhappy', neutral: undefined, positive: 'Content' });
+    expect(scale.type === 'LIKERT_SCALE' && scale.statements[0].text).toBe('Le personnel était serviable');
+  });
+
+  it('returns the form as is in its default language', () => {
+    const form = makeForm();
+
+    expect(localizeForm(form, 'en')).toBe(form);
+  });
+});
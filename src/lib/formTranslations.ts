@@ -0,0 +1,477 @@
+// Form Translation Utilities
+// Multilingual forms keep their source text where it always was (question.title, option.label, ...)
+// and store other languages alongside it in `translations` maps keyed by language code.
+// The form filler renders a localized copy of the form built with localizeForm().
+
+import {
+  Form,
+  FormLanguageSettings,
+  FormQuestion,
+  FormSection,
+  ChoiceOption,
+  LikertScaleQuestion,
+  LikertScaleStatement,
+  TranslatedText,
+} from '@/components/dashboard/form-creation-wizard/types';
+
+export interface FormLanguage {
+  code: string;
+  name: string;
+  nativeName: string;
+}
+
+export const FORM_LANGUAGES: FormLanguage[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+  { code: 'sw', name: 'Swahili', nativeName: 'Kiswahili' },
+  { code: 'rw', name: 'Kinyarwanda', nativeName: 'Ikinyarwanda' },
+  { code: 'rn', name: 'Kirundi', nativeName: 'Ikirundi' },
+  { code: 'lg', name: 'Luganda', nativeName: 'Luganda' },
+  { code: 'so', name: 'Somali', nativeName: 'Soomaali' },
+  { code: 'am', name: 'Amharic', nativeName: 'አማርኛ' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+];
+
+export const DEFAULT_FORM_LANGUAGE = 'en';
+
+export const getLanguageName = (code: string): string =>
+  FORM_LANGUAGES.find(language => language.code === code)?.name || code.toUpperCase();
+
+export const getLanguageNativeName = (code: string): string =>
+  FORM_LANGUAGES.find(language => language.code === code)?.nativeName || code.toUpperCase();
+
+// Forms created before translations existed are single-language English forms
+export const getFormLanguageSettings = (form: Partial<Form>): FormLanguageSettings => {
+  const settings = form.settings?.languages;
+  const defaultLanguage = settings?.defaultLanguage || DEFAULT_FORM_LANGUAGE;
+  const languages = settings?.languages?.length ? settings.languages : [defaultLanguage];
+  return {
+    defaultLanguage,
+    languages: languages.includes(defaultLanguage) ? languages : [defaultLanguage, ...languages],
+  };
+};
+
+export const isMultilingualForm = (form: Partial<Form>): boolean =>
+  getFormLanguageSettings(form).languages.length > 1;
+
+/**
+ * Pick the language to show a respondent: the first candidate (e.g. ?lang=, then the browser's
+ * languages) the form is offered in, matching on the base code so 'fr-FR' selects 'fr'.
+ */
+export const resolveFormLanguage = (form: Partial<Form>, candidates: (string | null | undefined)[]): string => {
+  const { defaultLanguage, languages } = getFormLanguageSettings(form);
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const code = candidate.toLowerCase().split(/[-_]/)[0];
+    if (languages.includes(code)) return code;
+  }
+  return defaultLanguage;
+};
+
+// ========================================
+// TRANSLATABLE STRINGS
+// ========================================
+
+export type TranslationTarget =
+  | { kind: 'form'; field: 'title' | 'description' | 'thankYouMessage' }
+  | { kind: 'section'; sectionId: string; field: 'title' | 'description' }
+  | { kind: 'question'; questionId: string; field: 'title' | 'description' | 'placeholder' }
+  | { kind: 'scaleLabel'; questionId: string; field: 'negative' | 'neutral' | 'positive' }
+  | { kind: 'option'; questionId: string; optionId: string }
+  | { kind: 'statement'; questionId: string; statementId: string };
+
+export interface TranslatableString {
+  key: string;
+  target: TranslationTarget;
+  group: string; // Where the string appears, e.g. the section title
+  label: string; // What the string is, e.g. 'Question' or 'Option'
+  source: string;
+  translations: TranslatedText;
+}
+
+export const getTranslationKey = (target: TranslationTarget): string => {
+  switch (target.kind) {
+    case 'form':
+      return `form:${target.field}`;
+    case 'section':
+      return `section:${target.sectionId}:${target.field}`;
+    case 'question':
+      return `question:${target.questionId}:${target.field}`;
+    case 'scaleLabel':
+      return `scale:${target.questionId}:${target.field}`;
+    case 'option':
+      return `option:${target.questionId}:${target.optionId}`;
+    case 'statement':
+      return `statement:${target.questionId}:${target.statementId}`;
+  }
+};
+
+const hasText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const collectQuestionStrings = (question: FormQuestion, group: string, out: TranslatableString[]) => {
+  const add = (target: TranslationTarget, label: string, source: unknown, translations?: TranslatedText) => {
+    if (!hasText(source)) return;
+    out.push({ key: getTranslationKey(target), target, group, label, source, translations: translations || {} });
+  };
+  const questionId = question.id;
+
+  add({ kind: 'question', questionId, field: 'title' }, 'Question', question.title, question.translations?.title);
+  add({ kind: 'question', questionId, field: 'description' }, 'Help text', question.description, question.translations?.description);
+  if ('placeholder' in question) {
+    add({ kind: 'question', questionId, field: 'placeholder' }, 'Placeholder', question.placeholder, question.translations?.placeholder);
+  }
+
+  if (question.type === 'LIKERT_SCALE') {
+    question.statements?.forEach(statement =>
+      add({ kind: 'statement', questionId, statementId: statement.id }, 'Statement', statement.text, statement.translations?.text)
+    );
+    (['negative', 'neutral', 'positive'] as const).forEach(field =>
+      add({ kind: 'scaleLabel', questionId, field }, 'Scale label', question.defaultLabels?.[field], question.translations?.[field])
+    );
+  }
+
+  if ('options' in question && Array.isArray(question.options)) {
+    question.options.forEach(option => {
+      add({ kind: 'option', questionId, optionId: option.id }, 'Option', option.label, option.translations?.label);
+      option.conditionalQuestions?.forEach(child => collectQuestionStrings(child, group, out));
+    });
+  }
+};
+
+// Every user-facing string on the form, in the order a respondent sees them
+export const getTranslatableStrings = (form: Partial<Form>): TranslatableString[] => {
+  const out: TranslatableString[] = [];
+  const formGroup = 'Form';
+  const formTranslations = form.settings?.translations;
+  const addForm = (field: 'title' | 'description' | 'thankYouMessage', label: string, source: unknown) => {
+    if (!hasText(source)) return;
+    const target: TranslationTarget = { kind: 'form', field };
+    out.push({ key: getTranslationKey(target), target, group: formGroup, label, source, translations: formTranslations?.[field] || {} });
+  };
+
+  addForm('title', 'Form title', form.title);
+  addForm('description', 'Form description', form.description);
+  addForm('thankYouMessage', 'Thank-you message', form.settings?.thankYouMessage);
+
+  (form.sections || []).forEach((section, index) => {
+    const group = section.title || `Section ${index + 1}`;
+    (['title', 'description'] as const).forEach(field => {
+      if (!hasText(section[field])) return;
+      const target: TranslationTarget = { kind: 'section', sectionId: section.id, field };
+      out.push({
+        key: getTranslationKey(target),
+        target,
+        group,
+        label: field === 'title' ? 'Section title' : 'Section description',
+        source: section[field] as string,
+        translations: section.translations?.[field] || {},
+      });
+    });
+    section.questions.forEach(question => collectQuestionStrings(question, group, out));
+  });
+
+  return out;
+};
+
+export interface TranslationProgress {
+  translated: number;
+  total: number;
+}
+
+export const getTranslationProgress = (strings: TranslatableString[], language: string): TranslationProgress => ({
+  translated: strings.filter(entry => hasText(entry.translations[language])).length,
+  total: strings.length,
+});
+
+// ========================================
+// EDITING
+// ========================================
+
+const withText = (translations: TranslatedText | undefined, language: string, text: string): TranslatedText => {
+  const next = { ...translations };
+  if (hasText(text)) {
+    next[language] = text;
+  } else {
+    delete next[language];
+  }
+  return next;
+};
+
+const updateQuestionTree = (
+  questions: FormQuestion[],
+  questionId: string,
+  update: (question: FormQuestion) => FormQuestion
+): FormQuestion[] =>
+  questions.map(question => {
+    if (question.id === questionId) return update(question);
+    if (!('options' in question) || !Array.isArray(question.options)) return question;
+    const options = question.options.map(option =>
+      option.conditionalQuestions?.length
+        ? { ...option, conditionalQuestions: updateQuestionTree(option.conditionalQuestions, questionId, update) }
+        : option
+    );
+    return { ...question, options } as FormQuestion;
+  });
+
+const translateQuestion = (question: FormQuestion, target: TranslationTarget, language: string, text: string): FormQuestion => {
+  switch (target.kind) {
+    case 'question':
+    case 'scaleLabel': {
+      const translations: LikertScaleQuestion['translations'] = { ...question.translations };
+      translations[target.field] = withText(translations[target.field], language, text);
+      return { ...question, translations } as FormQuestion;
+    }
+    case 'option':
+      if (!('options' in question)) return question;
+      return {
+        ...question,
+        options: question.options.map((option: ChoiceOption) =>
+          option.id === target.optionId
+            ? { ...option, translations: { ...option.translations, label: withText(option.translations?.label, language, text) } }
+            : option
+        ),
+      } as FormQuestion;
+    case 'statement':
+      if (question.type !== 'LIKERT_SCALE') return question;
+      return {
+        ...question,
+        statements: question.statements.map((statement: LikertScaleStatement) =>
+          statement.id === target.statementId
+            ? { ...statement, translations: { ...statement.translations, text: withText(statement.translations?.text, language, text) } }
+            : statement
+        ),
+      };
+    default:
+      return question;
+  }
+};
+
+/**
+ * Return the form with one translation set (or cleared, when text is empty). Only the parts of
+ * the form that hold translations (settings and sections) are returned, ready to merge into state.
+ */
+export const setFormTranslation = (
+  form: Partial<Form>,
+  target: TranslationTarget,
+  language: string,
+  text: string
+): Pick<Partial<Form>, 'settings' | 'sections'> => {
+  if (target.kind === 'form') {
+    const translations = { ...form.settings?.translations };
+    translations[target.field] = withText(translations[target.field], language, text);
+    return { settings: { ...form.settings!, translations } };
+  }
+
+  const sections = (form.sections || []).map((section): FormSection => {
+    if (target.kind === 'section') {
+      if (section.id !== target.sectionId) return section;
+      const translations = { ...section.translations };
+      translations[target.field] = withText(translations[target.field], language, text);
+      return { ...section, translations };
+    }
+    return {
+      ...section,
+      questions: updateQuestionTree(section.questions, target.questionId, question =>
+        translateQuestion(question, target, language, text)
+      ),
+    };
+  });
+  return { sections };
+};
+
+// ========================================
+// LOCALIZATION
+// ========================================
+
+const pick = (source: string, translations: TranslatedText | undefined, language: string): string => {
+  const translated = translations?.[language];
+  return hasText(translated) ? translated : source;
+};
+
+const pickOptional = (source: string | undefined, translations: TranslatedText | undefined, language: string) =>
+  source === undefined ? undefined : pick(source, translations, language);
+
+const localizeQuestion = (question: FormQuestion, language: string): FormQuestion => {
+  const localized: Record<string, unknown> = {
+    title: pick(question.title, question.translations?.title, language),
+    description: pickOptional(question.description, question.translations?.description, language),
+  };
+  if ('placeholder' in question) {
+    localized.placeholder = pickOptional(question.placeholder, question.translations?.placeholder, language);
+  }
+  if ('options' in question && Array.isArray(question.options)) {
+    localized.options = question.options.map(option => ({
+      ...option,
+      label: pick(option.label, option.translations?.label, language),
+      conditionalQuestions: option.conditionalQuestions?.map(child => localizeQuestion(child, language)),
+    }));
+  }
+  if (question.type === 'LIKERT_SCALE') {
+    localized.statements = question.statements.map(statement => ({
+      ...statement,
+      text: pick(statement.text, statement.translations?.text, language),
+    }));
+    localized.defaultLabels = {
+      negative: pick(question.defaultLabels.negative, question.translations?.negative, language),
+      neutral: pickOptional(question.defaultLabels.neutral, question.translations?.neutral, language),
+      positive: pick(question.defaultLabels.positive, question.translations?.positive, language),
+    };
+  }
+  return { ...question, ...localized } as FormQuestion;
+};
+
+// Copy of the form with every translated string swapped in; untranslated strings keep the source text
+export const localizeForm = (form: Form, language: string): Form => {
+  if (language === getFormLanguageSettings(form).defaultLanguage) return form;
+  const formTranslations = form.settings?.translations;
+
+  return {
+    ...form,
+    title: pick(form.title, formTranslations?.title, language),
+    description: pickOptional(form.description, formTranslations?.description, language),
+    settings: form.settings && {
+      ...form.settings,
+      thankYouMessage: pick(form.settings.thankYouMessage, formTranslations?.thankYouMessage, language),
+    },
+    sections: form.sections.map(section => ({
+      ...section,
+      title: pick(section.title, section.translations?.title, language),
+      description: pickOptional(section.description, section.translations?.description, language),
+      questions: section.questions.map(question => localizeQuestion(question, language)),
+    })),
+  };
+};
+
+// ========================================
+// FORM FILLER INTERFACE TEXT
+// ========================================
+
+const FORM_FILLER_TEXT_EN = {
+  language: 'Language',
+  loading: 'Loading form...',
+  required: 'This field is required',
+  completeRequired: 'Please complete the required fields below:',
+  progress: 'Progress',
+  sectionProgress: '{current} of {total} sections',
+  instance: 'Instance {number}',
+  remove: 'Remove',
+  addAnother: 'Add another {name}',
+  previous: 'Previous',
+  next: 'Next',
+  saveDraft: 'Save Draft',
+  submit: 'Submit Form',
+  submitting: 'Submitting...',
+  submitted: 'Form Submitted Successfully!',
+  thankYou: 'Thank you for your response. Your submission has been received.',
+  submitAnother: 'Submit Another Response',
+  returnHome: 'Return Home',
+  draftSaved: 'Draft Saved',
+  draftSavedDescription: 'Your progress has been saved. You can continue later.',
+  savedOffline: 'Saved Offline',
+  savedOfflineDescription: "We'll auto-submit your response once connection is restored.",
+  submissionFailed: 'Submission Failed',
+  offline: 'You are currently offline. Submissions will be saved locally and auto-submitted when connection is restored',
+  autoSave: 'Auto-save enabled',
+  questionsAnswered: '{count} questions answered',
+};
+
+export type FormFillerText = typeof FORM_FILLER_TEXT_EN;
+
+const FORM_FILLER_TEXT: Record<string, Partial<FormFillerText>> = {
+  en: FORM_FILLER_TEXT_EN,
+  fr: {
+    language: 'Langue',
+    loading: 'Chargement du formulaire...',
+    required: 'Ce champ est obligatoire',
+    completeRequired: 'Veuillez remplir les champs obligatoires ci-dessous :',
+    progress: 'Progression',
+    sectionProgress: 'Section {current} sur {total}',
+    instance: 'Entrée {number}',
+    remove: 'Supprimer',
+    addAnother: 'Ajouter : {name}',
+    previous: 'Précédent',
+    next: 'Suivant',
+    saveDraft: 'Enregistrer le brouillon',
+    submit: 'Envoyer le formulaire',
+    submitting: 'Envoi en cours...',
+    submitted: 'Formulaire envoyé avec succès !',
+    thankYou: 'Merci pour votre réponse. Votre soumission a bien été reçue.',
+    submitAnother: 'Envoyer une autre réponse',
+    returnHome: "Retour à l'accueil",
+    draftSaved: 'Brouillon enregistré',
+    draftSavedDescription: 'Votre progression a été enregistrée. Vous pourrez continuer plus tard.',
+    savedOffline: 'Enregistré hors ligne',
+    savedOfflineDescription: 'Votre réponse sera envoyée automatiquement dès le retour de la connexion.',
+    submissionFailed: "Échec de l'envoi",
+    offline: 'Vous êtes hors ligne. Les réponses seront enregistrées localement et envoyées automatiquement au retour de la connexion',
+    autoSave: 'Enregistrement automatique activé',
+    questionsAnswered: '{count} questions répondues',
+  },
+  sw: {
+    language: 'Lugha',
+    loading: 'Inapakia fomu...',
+    required: 'Sehemu hii inahitajika',
+    completeRequired: 'Tafadhali jaza sehemu zinazohitajika hapa chini:',
+    progress: 'Maendeleo',
+    sectionProgress: 'Sehemu {current} kati ya {total}',
+    instance: 'Nakala {number}',
+    remove: 'Ondoa',
+    addAnother: 'Ongeza {name}',
+    previous: 'Iliyotangulia',
+    next: 'Inayofuata',
+    saveDraft: 'Hifadhi rasimu',
+    submit: 'Tuma fomu',
+    submitting: 'Inatuma...',
+    submitted: 'Fomu imetumwa kikamilifu!',
+    thankYou: 'Asante kwa jibu lako. Tumepokea majibu yako.',
+    submitAnother: 'Tuma jibu jingine',
+    returnHome: 'Rudi mwanzo',
+    draftSaved: 'Rasimu imehifadhiwa',
+    draftSavedDescription: 'Maendeleo yako yamehifadhiwa. Unaweza kuendelea baadaye.',
+    savedOffline: 'Imehifadhiwa bila mtandao',
+    savedOfflineDescription: 'Jibu lako litatumwa kiotomatiki mtandao ukirudi.',
+    submissionFailed: 'Imeshindwa kutuma',
+    offline: 'Huna mtandao kwa sasa. Majibu yatahifadhiwa kwenye kifaa na kutumwa kiotomatiki mtandao ukirudi',
+    autoSave: 'Kuhifadhi kiotomatiki kumewashwa',
+    questionsAnswered: 'Maswali {count} yamejibiwa',
+  },
+  rw: {
+    language: 'Ururimi',
+    loading: 'Ifishi irimo gufunguka...',
+    required: 'Iki kibazo kigomba gusubizwa',
+    completeRequired: 'Mwuzuze ibisabwa bikurikira:',
+    progress: 'Aho mugeze',
+    sectionProgress: 'Igice {current} kuri {total}',
+    instance: 'Inshuro ya {number}',
+    remove: 'Kuraho',
+    addAnother: 'Ongeraho {name}',
+    previous: 'Ibibanza',
+    next: 'Ibikurikira',
+    saveDraft: "Bika by'agateganyo",
+    submit: 'Ohereza ifishi',
+    submitting: 'Birimo koherezwa...',
+    submitted: 'Ifishi yoherejwe neza!',
+    thankYou: 'Murakoze ku gisubizo cyanyu. Twakiriye ibisubizo byanyu.',
+    submitAnother: 'Ohereza ikindi gisubizo',
+    returnHome: 'Subira ahabanza',
+    draftSaved: 'Byabitswe',
+    draftSavedDescription: 'Ibyo mwujuje byabitswe. Mushobora gukomeza nyuma.',
+    savedOffline: 'Byabitswe nta murandasi',
+    savedOfflineDescription: 'Igisubizo cyanyu kizoherezwa ubwacyo murandasi igarutse.',
+    submissionFailed: 'Kohereza byanze',
+    offline: 'Ntabwo muri kuri murandasi. Ibisubizo birabikwa kuri iki gikoresho bikoherezwa ubwabyo murandasi igarutse',
+    autoSave: 'Kubika byikora birakora',
+    questionsAnswered: 'Ibibazo {count} byasubijwe',
+  },
+};
+
+// Interface text for the form filler; languages without a built-in translation fall back to English
+export const getFormFillerText = (language: string): FormFillerText => ({
+  ...FORM_FILLER_TEXT_EN,
+  ...FORM_FILLER_TEXT[language],
+});
+
+export const formatFillerText = (template: string, values: Record<string, string | number>): string =>
+  template.replace(/\{(\w+)\}/g, (match, name) => (name in values ? String(values[name]) : match));
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { Form, FormQuestion, FormSection, FormVersion } from '@/components/dashboard/form-creation-wizard/types';
+import { diffFormVersions, getFormAtVersion, mergeVersionSections } from './formVersions';
+
+const base = { isRequired: false, validationRules: [], dataType: 'TEXT' as const, order: 1 };
+
+const text = (id: string, title: string, fields: Partial<FormQuestion> = {}) =>
+  ({ ...base, id, type: 'SHORT_TEXT', title, ...fields }) as FormQuestion;
+
+const choice = (id: string, title: string, labels: string[], fields: Partial<FormQuestion> = {}) =>
+  ({
+    ...base,
+    id,
+    type: 'SINGLE_CHOICE',
+    title,
+    displayType: 'RADIO',
+    options: labels.map((label, index) => ({ id: `${id}-o${index + 1}`, label, value: label.toLowerCase() })),
+    ...fields,
+  }) as FormQuestion;
+
+const section = (id: string, title: string, questions: FormQuestion[], fields: Partial<FormSection> = {}): FormSection =>
+  ({ id, title, order: 1, questions, ...fields });
+
+const makeForm = (sections: FormSection[]): Form => ({
+  id: 'form-1',
+  title: 'Household Survey',
+  projectId: 'project-1',
+  createdBy: 'user-1',
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-03-01'),
+  status: 'PUBLISHED',
+  version: 3,
+  sections,
+  settings: { requireAuthentication: false, thankYouMessage: 'Thanks', notificationEmails: [] },
+  responseCount: 0,
+  tags: [],
+});
+
+describe('diffFormVersions', () => {
+  const before = [
+    section('main', 'Household', [
+      text('name', 'Name'),
+      choice('water', 'Water source', ['Piped', 'Well', 'River']),
+      text('phone', 'Phone number'),
+    ]),
+  ];
+
+  it('reports added, removed and changed questions', () => {
+    const after = [
+      section('main', 'Household', [
+        text('name', 'Full name', { isRequired: true }),
+        choice('water', 'Water source', ['Piped water', 'Well']),
+        text('email', 'Email'),
+      ]),
+    ];
+
+    const diff = diffFormVersions(before, after);
+
+    expect(diff.summary).toEqual({ added: 1, removed: 1, changed: 2 });
+    expect(diff.questions.find(change => change.questionId === 'name')).toMatchObject({
+      kind: 'changed',
+      title: 'Full name',
+      previousTitle: 'Name',
+      changes: [
+        { field: 'title', before: 'Name', after: 'Full name' },
+        { field: 'required', before: 'Optional', after: 'Required' },
+      ],
+    });
+    expect(diff.questions.find(change => change.questionId === 'water')?.options).toEqual([
+      {
+        kind: 'changed', id: 'water-o1', label: 'Piped water', previousLabel: 'Piped',
+        changes: [{ field: 'label', before: 'Piped', after: 'Piped water' }, { field: 'value', before: 'piped', after: 'piped water' }],
+      },
+      { kind: 'removed', id: 'water-o3', label: 'River', changes: [] },
+    ]);
+    expect(diff.questions.find(change => change.questionId === 'email')).toMatchObject({ kind: 'added', sectionTitle: 'Household' });
+    expect(diff.questions.find(change => change.questionId === 'phone')).toMatchObject({ kind: 'removed', title: 'Phone number' });
+  });
+
+  it('reports questions moved to another section and follow-ups by their parent', () => {
+    const withFollowUp = choice('water', 'Water source', ['Piped', 'Well', 'River']);
+    if ('options' in withFollowUp) withFollowUp.options[2].conditionalQuestions = [text('treated', 'Do you treat it?')];
+    const after = [
+      section('main', 'Household', [text('name', 'Name'), withFollowUp]),
+      section('contact', 'Contact', [text('phone', 'Phone number')]),
+    ];
+
+    const diff = diffFormVersions(before, after);
+
+    expect(diff.sections).toEqual([{ kind: 'added', sectionId: 'contact', title: 'Contact', changes: [] }]);
+    expect(diff.questions).toEqual([
+      expect.objectContaining({ kind: 'added', questionId: 'treated', parentTitle: 'Water source' }),
+      expect.objectContaining({
+        kind: 'changed', questionId: 'phone', changes: [{ field: 'section', before: 'Household', after: 'Contact' }],
+      }),
+    ]);
+  });
+
+  it('finds no changes between identical versions', () => {
+    expect(diffFormVersions(before, structuredClone(before))).toEqual({
+      sections: [],
+      questions: [],
+      summary: { added: 0, removed: 0, changed: 0 },
+    });
+  });
+});
+
+describe('getFormAtVersion', () => {
+  const current = makeForm([section('main', 'Household', [text('email', 'Email')])]);
+  const versions: FormVersion[] = [
+    { formId: 'form-1', version: 1, title: 'Household Survey', sections: [section('main', 'Household', [text('phone', 'Phone')])], publishedAt: new Date('2026-01-01') },
+  ];
+
+  it('uses the sections published in that version', () => {
+    const form = getFormAtVersion(current, versions, 1);
+
+    expect(form.version).toBe(1);
+    expect(form.sections[0].questions.map(question => question.id)).toEqual(['phone']);
+    expect(form.title).toBe('Household Survey');
+  });
+
+  it('falls back to the current form without a version or snapshot', () => {
+    expect(getFormAtVersion(current, versions)).toBe(current);
+    expect(getFormAtVersion(current, versions, 2)).toBe(current);
+  });
+});
+
+describe('mergeVersionSections', () => {
+  it('adds questions that only exist in older versions and marks them retired', () => {
+    const current = [section('main', 'Household', [text('name', 'Name')])];
+    const oldFollowUp = choice('water', 'Water source', ['Piped', 'River']);
+    if ('options' in oldFollowUp) oldFollowUp.options[1].conditionalQuestions = [text('treated', 'Do you treat it?')];
+    const olderVersions = [
+      [section('main', 'Household', [text('name', 'Name'), text('phone', 'Phone')])],
+      [section('main', 'Household', [text('phone', 'Phone'), oldFollowUp]), section('income', 'Income', [text('salary', 'Salary')])],
+    ];
+
+    const { sections, retiredQuestionIds } = mergeVersionSections(current, olderVersions);
+
+    expect(sections.map(s => [s.id, s.questions.map(question => question.id)])).toEqual([
+      ['main', ['name', 'phone', 'water']],
+      ['income', ['salary']],
+    ]);
+    expect([...retiredQuestionIds].sort()).toEqual(['phone', 'salary', 'treated', 'water']);
+    // The current sections are not modified
+    expect(current[0].questions).toHaveLength(1);
+  });
+});
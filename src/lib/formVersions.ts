@@ -0,0 +1,323 @@
+// Form Version Utilities
+// Structural comparison of published form versions (sections, questions, options) and helpers
+// for reading responses against the version of the form they were submitted on.
+
+import {
+  Form,
+  FormQuestion,
+  FormSection,
+  FormVersion,
+  ChoiceOption,
+  LikertScaleStatement,
+} from '@/components/dashboard/form-creation-wizard/types';
+
+export type VersionChangeKind = 'added' | 'removed' | 'changed';
+
+export type QuestionField =
+  | 'title'
+  | 'description'
+  | 'type'
+  | 'required'
+  | 'section'
+  | 'logic'
+  | 'expression'
+  | 'range';
+
+export interface FieldChange<F extends string = string> {
+  field: F;
+  before?: string;
+  after?: string;
+}
+
+export interface OptionChange {
+  kind: VersionChangeKind;
+  id: string;
+  label: string;
+  previousLabel?: string;
+  changes: FieldChange<'label' | 'value' | 'text'>[];
+}
+
+export interface QuestionChange {
+  kind: VersionChangeKind;
+  questionId: string;
+  title: string;
+  previousTitle?: string;
+  sectionTitle: string;
+  parentTitle?: string; // Set for conditional follow-up questions
+  changes: FieldChange<QuestionField>[];
+  options: OptionChange[]; // Choice options and Likert statements
+}
+
+export interface SectionChange {
+  kind: VersionChangeKind;
+  sectionId: string;
+  title: string;
+  previousTitle?: string;
+  changes: FieldChange<'title' | 'description' | 'repeatable' | 'logic'>[];
+}
+
+export interface FormVersionDiff {
+  sections: SectionChange[];
+  questions: QuestionChange[];
+  summary: Record<VersionChangeKind, number>; // Question counts
+}
+
+// ========================================
+// QUESTION LOOKUP
+// ========================================
+
+interface LocatedQuestion {
+  question: FormQuestion;
+  section: FormSection;
+  parent?: FormQuestion;
+  order: number;
+}
+
+// Every question in the sections, including conditional follow-ups, keyed by question ID
+const indexQuestions = (sections: FormSection[]): Map<string, LocatedQuestion> => {
+  const index = new Map<string, LocatedQuestion>();
+  const visit = (question: FormQuestion, section: FormSection, parent?: FormQuestion) => {
+    index.set(question.id, { question, section, parent, order: index.size });
+    if ('options' in question && Array.isArray(question.options)) {
+      question.options.forEach(option => option.conditionalQuestions?.forEach(child => visit(child, section, question)));
+    }
+  };
+  sections.forEach(section => section.questions?.forEach(question => visit(question, section)));
+  return index;
+};
+
+export const getQuestionsById = (sections: FormSection[]): Map<string, FormQuestion> =>
+  new Map(Array.from(indexQuestions(sections), ([id, located]) => [id, located.question]));
+
+// ========================================
+// DIFF
+// ========================================
+
+const text = (value: unknown): string => (value === undefined || value === null ? '' : String(value));
+
+const compareField = <F extends string>(changes: FieldChange<F>[], field: F, before: unknown, after: unknown) => {
+  if (text(before) !== text(after)) changes.push({ field, before: text(before), after: text(after) });
+};
+
+interface LogicFields {
+  visibleIf?: string;
+  conditional?: { dependsOn?: string; operator?: string; showWhen?: unknown };
+}
+
+const describeLogic = (item: LogicFields): string => {
+  if (item.visibleIf) return item.visibleIf;
+  const conditional = item.conditional;
+  if (!conditional?.dependsOn) return '';
+  return `${conditional.dependsOn} ${conditional.operator || 'EQUALS'} ${JSON.stringify(conditional.showWhen)}`;
+};
+
+const describeSectionLogic = (section: FormSection): string =>
+  describeLogic({ visibleIf: section.conditional?.visibleIf, conditional: section.conditional });
+
+const describeRange = (question: FormQuestion): string => {
+  const q = question as Partial<Record<'min' | 'max' | 'minSelections' | 'maxSelections', number>>;
+  const parts = [
+    q.min !== undefined ? `min ${q.min}` : '',
+    q.max !== undefined ? `max ${q.max}` : '',
+    q.minSelections !== undefined ? `at least ${q.minSelections}` : '',
+    q.maxSelections !== undefined ? `at most ${q.maxSelections}` : '',
+  ].filter(Boolean);
+  return parts.join(', ');
+};
+
+const diffOptions = (before: ChoiceOption[], after: ChoiceOption[]): OptionChange[] => {
+  const previous = new Map(before.map(option => [option.id, option]));
+  const current = new Map(after.map(option => [option.id, option]));
+  const changes: OptionChange[] = [];
+
+  after.forEach(option => {
+    const old = previous.get(option.id);
+    if (!old) {
+      changes.push({ kind: 'added', id: option.id, label: option.label, changes: [] });
+      return;
+    }
+    const fieldChanges: OptionChange['changes'] = [];
+    compareField(fieldChanges, 'label', old.label, option.label);
+    compareField(fieldChanges, 'value', old.value, option.value);
+    if (fieldChanges.length > 0) {
+      changes.push({ kind: 'changed', id: option.id, label: option.label, previousLabel: old.label, changes: fieldChanges });
+    }
+  });
+  before.forEach(option => {
+    if (!current.has(option.id)) changes.push({ kind: 'removed', id: option.id, label: option.label, changes: [] });
+  });
+  return changes;
+};
+
+const diffStatements = (before: LikertScaleStatement[], after: LikertScaleStatement[]): OptionChange[] => {
+  const previous = new Map(before.map(statement => [statement.id, statement]));
+  const current = new Set(after.map(statement => statement.id));
+  const changes: OptionChange[] = [];
+
+  after.forEach(statement => {
+    const old = previous.get(statement.id);
+    if (!old) {
+      changes.push({ kind: 'added', id: statement.id, label: statement.text, changes: [] });
+    } else if (old.text !== statement.text) {
+      changes.push({
+        kind: 'changed', id: statement.id, label: statement.text, previousLabel: old.text,
+        changes: [{ field: 'text', before: old.text, after: statement.text }],
+      });
+    }
+  });
+  before.forEach(statement => {
+    if (!current.has(statement.id)) changes.push({ kind: 'removed', id: statement.id, label: statement.text, changes: [] });
+  });
+  return changes;
+};
+
+const optionsOf = (question: FormQuestion): ChoiceOption[] => ('options' in question && question.options) || [];
+
+const statementsOf = (question: FormQuestion): LikertScaleStatement[] =>
+  ('statements' in question && question.statements) || [];
+
+const expressionOf = (question: FormQuestion): string | undefined =>
+  'expression' in question ? question.expression : undefined;
+
+const diffQuestion = (before: LocatedQuestion, after: LocatedQuestion): QuestionChange | null => {
+  const oldQuestion = before.question;
+  const newQuestion = after.question;
+  const changes: FieldChange<QuestionField>[] = [];
+
+  compareField(changes, 'title', oldQuestion.title, newQuestion.title);
+  compareField(changes, 'description', oldQuestion.description, newQuestion.description);
+  compareField(changes, 'type', oldQuestion.type, newQuestion.type);
+  compareField(changes, 'required', oldQuestion.isRequired ? 'Required' : 'Optional', newQuestion.isRequired ? 'Required' : 'Optional');
+  if (before.section.id !== after.section.id) {
+    changes.push({ field: 'section', before: before.section.title, after: after.section.title });
+  }
+  compareField(changes, 'logic', describeLogic(oldQuestion), describeLogic(newQuestion));
+  compareField(changes, 'expression', expressionOf(oldQuestion), expressionOf(newQuestion));
+  compareField(changes, 'range', describeRange(oldQuestion), describeRange(newQuestion));
+
+  const options = [
+    ...diffOptions(optionsOf(oldQuestion), optionsOf(newQuestion)),
+    ...diffStatements(statementsOf(oldQuestion), statementsOf(newQuestion)),
+  ];
+
+  if (changes.length === 0 && options.length === 0) return null;
+  return {
+    kind: 'changed',
+    questionId: newQuestion.id,
+    title: newQuestion.title,
+    previousTitle: oldQuestion.title !== newQuestion.title ? oldQuestion.title : undefined,
+    sectionTitle: after.section.title,
+    parentTitle: after.parent?.title,
+    changes,
+    options,
+  };
+};
+
+const diffSections = (before: FormSection[], after: FormSection[]): SectionChange[] => {
+  const previous = new Map(before.map(section => [section.id, section]));
+  const current = new Set(after.map(section => section.id));
+  const changes: SectionChange[] = [];
+
+  after.forEach(section => {
+    const old = previous.get(section.id);
+    if (!old) {
+      changes.push({ kind: 'added', sectionId: section.id, title: section.title, changes: [] });
+      return;
+    }
+    const fieldChanges: SectionChange['changes'] = [];
+    compareField(fieldChanges, 'title', old.title, section.title);
+    compareField(fieldChanges, 'description', old.description, section.description);
+    compareField(fieldChanges, 'repeatable', old.conditional?.repeatable ? 'Yes' : 'No', section.conditional?.repeatable ? 'Yes' : 'No');
+    compareField(fieldChanges, 'logic', describeSectionLogic(old), describeSectionLogic(section));
+    if (fieldChanges.length > 0) {
+      changes.push({
+        kind: 'changed', sectionId: section.id, title: section.title,
+        previousTitle: old.title !== section.title ? old.title : undefined, changes: fieldChanges,
+      });
+    }
+  });
+  before.forEach(section => {
+    if (!current.has(section.id)) changes.push({ kind: 'removed', sectionId: section.id, title: section.title, changes: [] });
+  });
+  return changes;
+};
+
+/**
+ * Compare two versions of a form's structure. Questions, options and sections are matched by ID,
+ * so a renamed question shows up as changed rather than as removed plus added.
+ */
+export const diffFormVersions = (before: FormSection[], after: FormSection[]): FormVersionDiff => {
+  const oldQuestions = indexQuestions(before);
+  const newQuestions = indexQuestions(after);
+  const questions: QuestionChange[] = [];
+
+  newQuestions.forEach((located, questionId) => {
+    const previous = oldQuestions.get(questionId);
+    if (!previous) {
+      questions.push({
+        kind: 'added', questionId, title: located.question.title, sectionTitle: located.section.title,
+        parentTitle: located.parent?.title, changes: [], options: [],
+      });
+      return;
+    }
+    const change = diffQuestion(previous, located);
+    if (change) questions.push(change);
+  });
+  oldQuestions.forEach((located, questionId) => {
+    if (!newQuestions.has(questionId)) {
+      questions.push({
+        kind: 'removed', questionId, title: located.question.title, sectionTitle: located.section.title,
+        parentTitle: located.parent?.title, changes: [], options: [],
+      });
+    }
+  });
+
+  const summary: Record<VersionChangeKind, number> = { added: 0, removed: 0, changed: 0 };
+  questions.forEach(change => summary[change.kind]++);
+
+  return { sections: diffSections(before, after), questions, summary };
+};
+
+// ========================================
+// READING RESPONSES ACROSS VERSIONS
+// ========================================
+
+// The form as respondents saw it in a given version (falls back to the current form when no snapshot exists)
+export const getFormAtVersion = (form: Form, versions: FormVersion[], version?: number): Form => {
+  const snapshot = version === undefined ? undefined : versions.find(v => v.version === version);
+  return snapshot ? { ...form, version: snapshot.version, sections: snapshot.sections } : form;
+};
+
+/**
+ * Current form sections plus any top-level questions that only exist in older versions, so answers
+ * to questions removed since are still shown. Retired questions go back into their original section
+ * when it still exists, otherwise into a copy of that section at the end.
+ */
+export const mergeVersionSections = (
+  current: FormSection[],
+  olderVersions: FormSection[][]
+): { sections: FormSection[]; retiredQuestionIds: Set<string> } => {
+  const known = new Set(indexQuestions(current).keys());
+  const retiredQuestionIds = new Set<string>();
+  const sections = current.map(section => ({ ...section, questions: [...section.questions] }));
+
+  olderVersions.forEach(versionSections => {
+    versionSections.forEach(oldSection => {
+      oldSection.questions?.forEach(question => {
+        if (known.has(question.id)) return;
+        let target = sections.find(section => section.id === oldSection.id);
+        if (!target) {
+          target = { ...oldSection, questions: [] };
+          sections.push(target);
+        }
+        target.questions.push(question);
+        indexQuestions([{ ...oldSection, questions: [question] }]).forEach((_, id) => {
+          known.add(id);
+          retiredQuestionIds.add(id);
+        });
+      });
+    });
+  });
+
+  return { sections, retiredQuestionIds };
+};
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { ActivityFinancialData, ExchangeRate, Grant, GrantAllocation } from '@/lib/api/financialApi';
+import { getDonorFiscalYear, isQuarterInGrantPeriod, summarizeGrant } from './grants';
+
+const rates: ExchangeRate[] = [
+  { id: 'eur-q1', currency: 'EUR', year: 2026, period: 'QUARTER', quarter: 1, rate: 0.8, updatedAt: new Date('2026-01-01') },
+  { id: 'eur-q2', currency: 'EUR', year: 2026, period: 'QUARTER', quarter: 2, rate: 0.9, updatedAt: new Date('2026-04-01') },
+];
+
+const makeGrant = (overrides: Partial<Grant> = {}): Grant => ({
+  id: 'grant-1',
+  donorName: 'Donor Foundation',
+  title: 'Education award',
+  awardAmount: 90000,
+  currency: 'EUR',
+  startDate: new Date(2026, 3, 1),
+  endDate: new Date(2027, 2, 31),
+  fiscalYearStartMonth: 7,
+  status: 'ACTIVE',
+  projectIds: ['project-1'],
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-01-01'),
+  ...overrides,
+});
+
+const allocation = (activityId: string, percentage: number, grantId = 'grant-1'): GrantAllocation => ({
+  id: `${grantId}-${activityId}`,
+  grantId,
+  activityId,
+  year: 2026,
+  percentage,
+  updatedAt: new Date('2026-01-01'),
+});
+
+const record = (activityId: string, costs: Partial<ActivityFinancialData>): ActivityFinancialData => ({
+  id: `fin-${activityId}`,
+  activityId,
+  activityTitle: `Activity ${activityId}`,
+  year: 2026,
+  q1Cost: 0,
+  q2Cost: 0,
+  q3Cost: 0,
+  q4Cost: 0,
+  totalAnnualBudget: 0,
+  totalAnnualCost: 0,
+  variance: 0,
+  createdAt: new Date('2026-01-01'),
+  lastUpdated: new Date('2026-01-01'),
+  ...costs,
+});
+
+describe('grant periods', () => {
+  it('charges quarters that overlap the award period', () => {
+    const grant = makeGrant();
+
+    expect(isQuarterInGrantPeriod(grant, 2026, 1)).toBe(false);
+    expect(isQuarterInGrantPeriod(grant, 2026, 2)).toBe(true);
+    expect(isQuarterInGrantPeriod(grant, 2027, 1)).toBe(true);
+    expect(isQuarterInGrantPeriod(grant, 2027, 2)).toBe(false);
+  });
+
+  it('labels donor fiscal years by their start year', () => {
+    expect(getDonorFiscalYear(new Date(2026, 5, 30), 7)).toBe('FY2025/26');
+    expect(getDonorFiscalYear(new Date(2026, 6, 1), 7)).toBe('FY2026/27');
+    expect(getDonorFiscalYear(new Date(2026, 6, 1), 1)).toBe('2026');
+  });
+});
+
+describe('summarizeGrant', () => {
+  it('charges each activity its allocation share of spend inside the award period', () => {
+    const grant = makeGrant({ eligibleActivityIds: ['activity-1'] });
+    const allocations = [allocation('activity-1', 50), allocation('activity-2', 100), allocation('activity-1', 50, 'grant-2')];
+    const activities = [
+      record('activity-1', { q1Cost: 1000, q2Cost: 2000, q3Cost: 4000 }),
+      record('activity-2', { q4Cost: 1000, currency: 'EUR' }),
+    ];
+
+    const summary = summarizeGrant(grant, allocations, activities, rates, new Date(2026, 9, 1));
+
+    // USD spend converts at the quarter's EUR rate; Q3 and Q4 fall back to the Q2 rate
+    expect(summary.currency).toBe('EUR');
+    expect(summary.awarded).toBe(90000);
+    expect(summary.spent).toBeCloseTo(900 + 1800 + 1000);
+    expect(summary.remaining).toBeCloseTo(90000 - 3700);
+    expect(summary.percentSpent).toBeCloseTo((3700 / 90000) * 100);
+    expect(summary.outsidePeriod).toBeCloseTo(400);
+    expect(summary.byFiscalYear).toEqual([
+      { label: 'FY2025/26', spent: expect.closeTo(900) },
+      { label: 'FY2026/27', spent: expect.closeTo(2800) },
+    ]);
+    expect(summary.byActivity.map(item => item.activityId)).toEqual(['activity-1', 'activity-2']);
+    expect(summary.ineligibleActivityIds).toEqual(['activity-2']);
+    expect(summary.periodElapsed).toBeCloseTo(0.5, 1);
+    expect(summary.missingRates).toBe(false);
+  });
+
+  it('converts the award into the reporting currency at the rate for the quarter the grant starts in', () => {
+    const grant = makeGrant({ awardAmount: 80000, reportingCurrency: 'USD', startDate: new Date(2026, 1, 15) });
+
+    const summary = summarizeGrant(grant, [allocation('activity-1', 100)], [record('activity-1', { q2Cost: 10000 })], rates);
+
+    expect(summary.currency).toBe('USD');
+    expect(summary.awarded).toBeCloseTo(100000);
+    expect(summary.remaining).toBeCloseTo(90000);
+    expect(summary.percentSpent).toBeCloseTo(10);
+  });
+
+  it('leaves the award unset instead of mixing currencies when it has no rate', () => {
+    const grant = makeGrant({ awardAmount: 50000, currency: 'GBP', reportingCurrency: 'EUR' });
+
+    const summary = summarizeGrant(grant, [allocation('activity-1', 100)], [record('activity-1', { q2Cost: 1000 })], rates);
+
+    expect(summary.awarded).toBeNull();
+    expect(summary.remaining).toBeNull();
+    expect(summary.percentSpent).toBeNull();
+    expect(summary.spent).toBeCloseTo(900);
+    expect(summary.missingRates).toBe(true);
+  });
+
+  it('leaves out spend with no rate to the reporting currency', () => {
+    const summary = summarizeGrant(makeGrant(), [allocation('activity-1', 100)], [record('activity-1', { q2Cost: 1000, currency: 'UGX' })], rates);
+
+    expect(summary.spent).toBe(0);
+    expect(summary.awarded).toBe(90000);
+    expect(summary.missingRates).toBe(true);
+  });
+});
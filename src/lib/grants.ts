@@ -0,0 +1,139 @@
+// Grant Utilities
+// Donor award periods and fiscal years, and per-grant summaries of the activity spend charged to
+// each award through its allocation shares, converted into the donor's reporting currency.
+
+import { ActivityFinancialData, ExchangeRate, Grant, GrantAllocation, GrantStatus } from '@/lib/api/financialApi';
+import { BASE_CURRENCY, convertAmount } from '@/lib/exchangeRates';
+
+export const GRANT_STATUSES: Record<GrantStatus, string> = {
+  PIPELINE: 'Pipeline',
+  ACTIVE: 'Active',
+  CLOSED: 'Closed',
+};
+
+export const getGrantReportingCurrency = (grant: Pick<Grant, 'currency' | 'reportingCurrency'>): string =>
+  grant.reportingCurrency || grant.currency;
+
+// Quarters are charged to a grant when any part of them falls inside the award period
+export const isQuarterInGrantPeriod = (grant: Pick<Grant, 'startDate' | 'endDate'>, year: number, quarter: number): boolean => {
+  const quarterStart = new Date(year, (quarter - 1) * 3, 1);
+  const quarterEnd = new Date(year, quarter * 3, 0, 23, 59, 59);
+  return quarterStart <= new Date(grant.endDate) && quarterEnd >= new Date(grant.startDate);
+};
+
+// Label of the donor fiscal year containing `date`: the calendar year for January starts, otherwise e.g. "FY2024/25"
+export const getDonorFiscalYear = (date: Date, fiscalYearStartMonth: number): string => {
+  if (fiscalYearStartMonth <= 1) return String(date.getFullYear());
+  const startYear = date.getMonth() + 1 >= fiscalYearStartMonth ? date.getFullYear() : date.getFullYear() - 1;
+  return `FY${startYear}/${String(startYear + 1).slice(-2)}`;
+};
+
+export const isActivityEligible = (grant: Pick<Grant, 'eligibleActivityIds'>, activityId: string): boolean =>
+  !grant.eligibleActivityIds || grant.eligibleActivityIds.length === 0 || grant.eligibleActivityIds.includes(activityId);
+
+export const getAllocatedPercentage = (allocations: GrantAllocation[], activityId: string, year: number): number =>
+  allocations
+    .filter(allocation => allocation.activityId === activityId && allocation.year === year)
+    .reduce((sum, allocation) => sum + (allocation.percentage || 0), 0);
+
+// ========================================
+// SUMMARIES
+// ========================================
+
+export interface GrantSummary {
+  grant: Grant;
+  currency: string; // The donor's reporting currency; all amounts below are in it
+  awarded: number | null; // Null, like remaining and percentSpent, when the award has no rate to the reporting currency
+  spent: number;
+  remaining: number | null;
+  percentSpent: number | null;
+  periodElapsed: number; // Share of the award period that has passed, 0-1
+  byFiscalYear: Array<{ label: string; spent: number }>;
+  byActivity: Array<{ activityId: string; activityTitle: string; spent: number }>;
+  outsidePeriod: number; // Allocated spend in quarters outside the award period, not counted as spent
+  ineligibleActivityIds: string[]; // Activities with an allocation that the award restrictions exclude
+  missingRates: boolean; // Some amounts could not be converted and are left out
+}
+
+/**
+ * How much of a grant's award has been spent: each activity's quarterly costs times the grant's allocation share
+ * for that activity and year, for quarters inside the award period. Pass the activity records for every year of
+ * the award, not just the year on screen. Costs are converted at the rate for the quarter they were spent in;
+ * the award itself at the rate for the quarter the grant starts in. An award that can't be converted is left
+ * unset rather than compared with spend in another currency.
+ */
+export const summarizeGrant = (
+  grant: Grant,
+  allocations: GrantAllocation[],
+  activities: ActivityFinancialData[],
+  rates: ExchangeRate[],
+  asOf: Date = new Date()
+): GrantSummary => {
+  const currency = getGrantReportingCurrency(grant);
+  const start = new Date(grant.startDate);
+  const end = new Date(grant.endDate);
+  let missingRates = false;
+
+  const convert = (amount: number, from: string, year: number, quarter: number): number => {
+    const converted = convertAmount(rates, amount, from, currency, year, quarter);
+    if (converted === null) {
+      missingRates = true;
+      return 0;
+    }
+    return converted;
+  };
+
+  const awarded = convertAmount(rates, grant.awardAmount, grant.currency, currency, start.getFullYear(), Math.floor(start.getMonth() / 3) + 1);
+  if (awarded === null) missingRates = true;
+
+  let spent = 0;
+  let outsidePeriod = 0;
+  const byFiscalYear = new Map<string, number>();
+  const byActivity = new Map<string, { activityId: string; activityTitle: string; spent: number }>();
+
+  allocations
+    .filter(allocation => allocation.grantId === grant.id && allocation.percentage > 0)
+    .forEach(allocation => {
+      const record = activities.find(activity => activity.activityId === allocation.activityId && activity.year === allocation.year);
+      if (!record) return;
+      const from = record.currency || BASE_CURRENCY;
+      [record.q1Cost, record.q2Cost, record.q3Cost, record.q4Cost].forEach((cost, index) => {
+        if (!cost) return;
+        const quarter = index + 1;
+        const amount = convert((cost * allocation.percentage) / 100, from, record.year, quarter);
+        if (!isQuarterInGrantPeriod(grant, record.year, quarter)) {
+          outsidePeriod += amount;
+          return;
+        }
+        spent += amount;
+        const label = getDonorFiscalYear(new Date(record.year, index * 3, 1), grant.fiscalYearStartMonth);
+        byFiscalYear.set(label, (byFiscalYear.get(label) || 0) + amount);
+        const activitySpend = byActivity.get(record.activityId) || { activityId: record.activityId, activityTitle: record.activityTitle, spent: 0 };
+        activitySpend.spent += amount;
+        byActivity.set(record.activityId, activitySpend);
+      });
+    });
+
+  const period = end.getTime() - start.getTime();
+
+  return {
+    grant,
+    currency,
+    awarded,
+    spent,
+    remaining: awarded === null ? null : awarded - spent,
+    percentSpent: awarded === null ? null : awarded > 0 ? (spent / awarded) * 100 : 0,
+    periodElapsed: period > 0 ? Math.min(1, Math.max(0, (asOf.getTime() - start.getTime()) / period)) : 1,
+    byFiscalYear: Array.from(byFiscalYear.entries())
+      .map(([label, amount]) => ({ label, spent: amount }))
+      .sort((a, b) => a.label.localeCompare(b.label)),
+    byActivity: Array.from(byActivity.values()).sort((a, b) => b.spent - a.spent),
+    outsidePeriod,
+    ineligibleActivityIds: Array.from(new Set(
+      allocations
+        .filter(allocation => allocation.grantId === grant.id && allocation.percentage > 0 && !isActivityEligible(grant, allocation.activityId))
+        .map(allocation => allocation.activityId)
+    )),
+    missingRates,
+  };
+};
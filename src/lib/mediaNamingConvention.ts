@@ -1,5 +1,6 @@
 import { Form } from '../components/dashboard/form-creation-wizard/types';
 import { Project } from '../types/dashboard';
+import { DEFAULT_NAMING_REGISTRY, NamingRegistry, getNamingProjectById } from './namingConvention';
 
 export interface MediaNamingData {
   countryCode: string;
@@ -66,17 +67,21 @@ function getDefaultExtension(mediaType: 'image' | 'video' | 'audio' | 'file'): s
 }
 
 /**
- * Generate media naming data from project and form information
+ * Generate media naming data from project and form information.
+ * Country and project codes come from the naming registry entry linked to the project; unlinked projects
+ * fall back to their country and ID.
  */
 export function createMediaNamingData(
   project: Project,
   form: Form,
   originalFileName: string,
-  mediaType: 'image' | 'video' | 'audio' | 'file'
+  mediaType: 'image' | 'video' | 'audio' | 'file',
+  registry: NamingRegistry = DEFAULT_NAMING_REGISTRY
 ): MediaNamingData {
+  const namingProject = getNamingProjectById(project.id, registry);
   return {
-    countryCode: project.country,
-    projectCode: project.id, // Use project ID as code since dashboard Project doesn't have code
+    countryCode: namingProject?.country || project.country,
+    projectCode: namingProject?.code || project.id,
     formName: form.title,
     originalFileName,
     mediaType,
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_NAMING_REGISTRY, NamingRegistry, validateFileName, validateNamingRegistry } from './namingConvention';
+
+const registry = (overrides: Partial<NamingRegistry> = {}): NamingRegistry => ({
+  countries: [
+    { code: 'KE', name: 'Kenya', regions: [{ code: 'KE-N', name: 'Northern', areas: [] }] },
+    { code: 'TZ', name: 'Tanzania', regions: [{ code: 'TZ-N', name: 'Northern', areas: [] }] },
+  ],
+  projects: [
+    { code: 'VACIS', name: 'VACIS', description: '', country: 'KE', projectId: 'project-1' },
+    { code: 'VACIS', name: 'VACIS', description: '', country: 'TZ' },
+  ],
+  reportTypes: [{ code: 'FIN', name: 'Financial Reports', description: '' }],
+  versionControls: [{ code: 'FINAL', name: 'Final', description: '' }],
+  ...overrides,
+});
+
+describe('validateNamingRegistry', () => {
+  it('accepts the built-in registry and a project code reused in another country', () => {
+    expect(validateNamingRegistry(DEFAULT_NAMING_REGISTRY)).toEqual([]);
+    expect(validateNamingRegistry(registry())).toEqual([]);
+  });
+
+  it('rejects missing, duplicate and underscored codes', () => {
+    const errors = validateNamingRegistry(registry({
+      reportTypes: [
+        { code: 'FIN', name: 'Financial', description: '' },
+        { code: 'FIN', name: 'Finance', description: '' },
+        { code: ' ', name: 'Blank', description: '' },
+      ],
+      versionControls: [{ code: 'REV_01', name: 'Revision', description: '' }],
+    }));
+
+    expect(errors).toEqual([
+      'Report type code FIN is used more than once',
+      'Report type code is required',
+      'Version control code REV_01 must not contain underscores',
+    ]);
+  });
+
+  it('rejects a project code used twice in one country', () => {
+    const base = registry();
+    const errors = validateNamingRegistry({
+      ...base,
+      projects: [...base.projects, { code: 'VACIS', name: 'VACIS 2', description: '', country: 'KE' }],
+    });
+    expect(errors).toEqual(['Kenya project code VACIS is used more than once']);
+  });
+
+  it('rejects projects in unknown countries and dashboard projects linked twice', () => {
+    const errors = validateNamingRegistry(registry({
+      projects: [
+        { code: 'VACIS', name: 'VACIS', description: '', country: 'KE', projectId: 'project-1' },
+        { code: 'CLP', name: 'CLP', description: '', country: 'CI', projectId: 'project-1' },
+      ],
+    }));
+    expect(errors).toEqual([
+      'Project CLP has unknown country: CI',
+      'A dashboard project can only be linked to one naming code',
+    ]);
+  });
+});
+
+describe('validateFileName', () => {
+  it('accepts names built from the registry, with or without extension and suffixes', () => {
+    expect(validateFileName('KE_KE-N_VACIS_FIN_20260315.pdf', registry())).toEqual({ isValid: true, errors: [] });
+    expect(validateFileName('TZ_TZ-N_VACIS_FIN_20260315_FINAL.docx', registry()).isValid).toBe(true);
+  });
+
+  it('rejects names that do not follow the pattern', () => {
+    expect(validateFileName('Quarterly report.pdf', registry())).toEqual({
+      isValid: false,
+      errors: ['Name does not follow the CountryCode_Region_ProjectCode_ReportType_YYYYMMDD pattern'],
+    });
+  });
+
+  it('reports unknown codes, mismatched countries and bad dates', () => {
+    const { isValid, errors } = validateFileName('KE_TZ-N_MTOTO_XYZ_2026-03.pdf', registry());
+
+    expect(isValid).toBe(false);
+    expect(errors).toEqual([
+      'Invalid project code: MTOTO',
+      'Invalid report type code: XYZ',
+      'Region TZ-N does not belong to country KE',
+      'Invalid date: 2026-03',
+    ]);
+  });
+
+  it('checks codes against the registry it is given', () => {
+    const withoutVacisInTanzania = registry({ projects: [registry().projects[0]] });
+    expect(validateFileName('TZ_TZ-N_VACIS_FIN_20260315.pdf', withoutVacisInTanzania).errors)
+      .toEqual(['Project VACIS does not belong to country TZ']);
+  });
+});
@@ -1,5 +1,7 @@
 // Hierarchical Geographic Naming Protocol
 // CountryCode_Region_ProjectCode_ReportType_YYYYMMDD
+// The code lists live in a server-side registry maintained by global admins; the constants below are the
+// built-in lists, used until the registry has loaded and as its initial contents.
 
 export interface Country {
   code: string;
@@ -18,6 +20,7 @@ export interface Project {
   name: string;
   description: string;
   country: string;
+  projectId?: string; // Dashboard project this naming code belongs to
 }
 
 export interface ReportType {
@@ -32,6 +35,15 @@ export interface VersionControl {
   description: string;
 }
 
+export interface NamingRegistry {
+  countries: Country[];
+  projects: Project[];
+  reportTypes: ReportType[];
+  versionControls: VersionControl[];
+  updatedAt?: string;
+  updatedByName?: string;
+}
+
 // Country and Region Data
 export const COUNTRIES: Country[] = [
   {
@@ -201,36 +213,48 @@ export const VERSION_CONTROLS: VersionControl[] = [
   { code: 'REV01', name: 'Revision 01', description: 'Revision number' }
 ];
 
+export const DEFAULT_NAMING_REGISTRY: NamingRegistry = {
+  countries: COUNTRIES,
+  projects: PROJECTS,
+  reportTypes: REPORT_TYPES,
+  versionControls: VERSION_CONTROLS
+};
+
 // Utility Functions
-export function getCountryByCode(code: string): Country | undefined {
-  return COUNTRIES.find(country => country.code === code);
+export function getCountryByCode(code: string, registry: NamingRegistry = DEFAULT_NAMING_REGISTRY): Country | undefined {
+  return registry.countries.find(country => country.code === code);
 }
 
-export function getRegionByCode(code: string): Region | undefined {
-  for (const country of COUNTRIES) {
+export function getRegionByCode(code: string, registry: NamingRegistry = DEFAULT_NAMING_REGISTRY): Region | undefined {
+  for (const country of registry.countries) {
     const region = country.regions.find(r => r.code === code);
     if (region) return region;
   }
   return undefined;
 }
 
-export function getProjectByCode(code: string): Project | undefined {
-  return PROJECTS.find(project => project.code === code);
+export function getProjectByCode(code: string, registry: NamingRegistry = DEFAULT_NAMING_REGISTRY): Project | undefined {
+  return registry.projects.find(project => project.code === code);
 }
 
-export function getReportTypeByCode(code: string): ReportType | undefined {
-  return REPORT_TYPES.find(type => type.code === code);
+export function getReportTypeByCode(code: string, registry: NamingRegistry = DEFAULT_NAMING_REGISTRY): ReportType | undefined {
+  return registry.reportTypes.find(type => type.code === code);
 }
 
-export function getProjectsByCountry(countryCode: string): Project[] {
-  return PROJECTS.filter(project => project.country === countryCode);
+export function getProjectsByCountry(countryCode: string, registry: NamingRegistry = DEFAULT_NAMING_REGISTRY): Project[] {
+  return registry.projects.filter(project => project.country === countryCode);
 }
 
-export function getRegionsByCountry(countryCode: string): Region[] {
-  const country = getCountryByCode(countryCode);
+export function getRegionsByCountry(countryCode: string, registry: NamingRegistry = DEFAULT_NAMING_REGISTRY): Region[] {
+  const country = getCountryByCode(countryCode, registry);
   return country ? country.regions : [];
 }
 
+// Naming code linked to a dashboard project, if an admin has linked one
+export function getNamingProjectById(projectId: string, registry: NamingRegistry = DEFAULT_NAMING_REGISTRY): Project | undefined {
+  return registry.projects.find(project => project.projectId === projectId);
+}
+
 // Naming Convention Generator
 export interface NamingConventionData {
   countryCode: string;
@@ -285,35 +309,49 @@ export function parseFileName(fileName: string): NamingConventionData | null {
   };
 }
 
+// Revised documents keep the name of the version they replace, with the version control suffix set to
+// the revision number (REV01 for version 2). Files not named by the convention keep their own name.
+export function getRevisionFileName(previousFileName: string, versionNumber: number, revisedFileName: string): string {
+  const extensionMatch = revisedFileName.match(/\.[^/.]+$/);
+  const parts = previousFileName.replace(/\.[^/.]+$/, '').split('_');
+  if (!parseFileName(previousFileName) || !/^\d{8}$/.test(parts[4])) return revisedFileName;
+
+  const activityPart = parts.slice(5).find(part => part.startsWith('ACT'));
+  const revision = `REV${String(versionNumber - 1).padStart(2, '0')}`;
+  return [...parts.slice(0, 5), ...(activityPart ? [activityPart] : []), revision].join('_') + (extensionMatch?.[0] ?? '');
+}
+
 // Validation Functions
-export function validateNamingConvention(data: NamingConventionData): { isValid: boolean; errors: string[] } {
+export function validateNamingConvention(
+  data: NamingConventionData,
+  registry: NamingRegistry = DEFAULT_NAMING_REGISTRY
+): { isValid: boolean; errors: string[] } {
   const errors: string[] = [];
   
-  if (!getCountryByCode(data.countryCode)) {
+  if (!getCountryByCode(data.countryCode, registry)) {
     errors.push(`Invalid country code: ${data.countryCode}`);
   }
   
-  if (!getRegionByCode(data.regionCode)) {
+  if (!getRegionByCode(data.regionCode, registry)) {
     errors.push(`Invalid region code: ${data.regionCode}`);
   }
   
-  if (!getProjectByCode(data.projectCode)) {
+  if (!getProjectByCode(data.projectCode, registry)) {
     errors.push(`Invalid project code: ${data.projectCode}`);
   }
   
-  if (!getReportTypeByCode(data.reportTypeCode)) {
+  if (!getReportTypeByCode(data.reportTypeCode, registry)) {
     errors.push(`Invalid report type code: ${data.reportTypeCode}`);
   }
   
   // Validate that region belongs to country
-  const country = getCountryByCode(data.countryCode);
+  const country = getCountryByCode(data.countryCode, registry);
   if (country && !country.regions.find(r => r.code === data.regionCode)) {
     errors.push(`Region ${data.regionCode} does not belong to country ${data.countryCode}`);
   }
   
-  // Validate that project belongs to country
-  const project = getProjectByCode(data.projectCode);
-  if (project && project.country !== data.countryCode) {
+  // Validate that project belongs to country (the same code can be registered in several countries)
+  if (getProjectByCode(data.projectCode, registry) && !getProjectsByCountry(data.countryCode, registry).some(p => p.code === data.projectCode)) {
     errors.push(`Project ${data.projectCode} does not belong to country ${data.countryCode}`);
   }
   
@@ -322,3 +360,64 @@ export function validateNamingConvention(data: NamingConventionData): { isValid:
     errors
   };
 }
+
+// Checks the name of an existing file against the registry
+export function validateFileName(
+  fileName: string,
+  registry: NamingRegistry = DEFAULT_NAMING_REGISTRY
+): { isValid: boolean; errors: string[] } {
+  const data = parseFileName(fileName);
+  if (!data) {
+    return { isValid: false, errors: ['Name does not follow the CountryCode_Region_ProjectCode_ReportType_YYYYMMDD pattern'] };
+  }
+
+  const errors = validateNamingConvention(data, registry).errors;
+  const dateStr = fileName.replace(/\.[^/.]+$/, '').split('_')[4];
+  if (!/^\d{8}$/.test(dateStr) || isNaN(data.date.getTime())) {
+    errors.push(`Invalid date: ${dateStr}`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+// Checks a registry before it is saved: codes must be present, unique and free of the '_' separator
+export function validateNamingRegistry(registry: NamingRegistry): string[] {
+  const errors: string[] = [];
+
+  const checkCodes = (label: string, codes: string[]) => {
+    const seen = new Set<string>();
+    codes.forEach(code => {
+      if (!code.trim()) errors.push(`${label} code is required`);
+      else if (code.includes('_')) errors.push(`${label} code ${code} must not contain underscores`);
+      else if (seen.has(code)) errors.push(`${label} code ${code} is used more than once`);
+      seen.add(code);
+    });
+  };
+
+  checkCodes('Country', registry.countries.map(country => country.code));
+  checkCodes('Region', registry.countries.flatMap(country => country.regions.map(region => region.code)));
+  checkCodes('Report type', registry.reportTypes.map(type => type.code));
+  checkCodes('Version control', registry.versionControls.map(version => version.code));
+  registry.countries.forEach(country => {
+    checkCodes(
+      `${country.name || country.code} project`,
+      registry.projects.filter(project => project.country === country.code).map(project => project.code)
+    );
+  });
+
+  registry.projects.forEach(project => {
+    if (!getCountryByCode(project.country, registry)) {
+      errors.push(`Project ${project.code} has unknown country: ${project.country || '(none)'}`);
+    }
+  });
+
+  const linkedIds = registry.projects.map(project => project.projectId).filter(Boolean);
+  if (new Set(linkedIds).size !== linkedIds.length) {
+    errors.push('A dashboard project can only be linked to one naming code');
+  }
+
+  return errors;
+}
@@ -0,0 +1,119 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { apiClient } from './api/client';
+import { formsApi } from './api/formsApi';
+import { MissingQueuedMediaError, stashResponseMedia, uploadInlineMedia, uploadQueuedMedia } from './offlineMediaSync';
+import { createQueueItem, deleteQueuedMedia, getQueuedMediaForItem } from './offlineQueueStore';
+
+vi.mock('./api/client', () => ({
+  apiClient: {
+    getAuthToken: vi.fn(),
+  },
+}));
+
+vi.mock('./api/formsApi', () => ({
+  formsApi: {
+    getFormByIdOnly: vi.fn(),
+    uploadMediaFile: vi.fn(),
+    uploadPublicMediaFile: vi.fn(),
+  },
+}));
+
+const getAuthToken = vi.mocked(apiClient.getAuthToken);
+const uploadMediaFile = vi.mocked(formsApi.uploadMediaFile);
+const uploadPublicMediaFile = vi.mocked(formsApi.uploadPublicMediaFile);
+
+const uploadedFile = {
+  id: 'media-1',
+  fileName: 'photo.jpg',
+  fileSize: 3,
+  mimeType: 'image/jpeg',
+  url: '/uploads/photo.jpg',
+};
+
+const photoEntry = () => ({
+  file: new File(['abc'], 'photo.jpg', { type: 'image/jpeg' }),
+  name: 'photo.jpg',
+  type: 'image/jpeg',
+  size: 3,
+  mediaType: 'IMAGE',
+});
+
+describe('uploadInlineMedia', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    uploadMediaFile.mockResolvedValue(uploadedFile);
+    uploadPublicMediaFile.mockResolvedValue(uploadedFile);
+  });
+
+  it('uses the public upload route when there is no session', async () => {
+    getAuthToken.mockReturnValue(null);
+
+    const data = await uploadInlineMedia('form-1', { q1: 'yes', photo: photoEntry() });
+
+    expect(uploadPublicMediaFile).toHaveBeenCalledWith('form-1', expect.any(File), 'photo', undefined);
+    expect(uploadMediaFile).not.toHaveBeenCalled();
+    expect(formsApi.getFormByIdOnly).not.toHaveBeenCalled();
+    expect(data.photo).toMatchObject({ id: 'media-1', url: '/uploads/photo.jpg', mediaType: 'IMAGE' });
+    expect(data.q1).toBe('yes');
+  });
+
+  it('uses the project media endpoint for signed-in users', async () => {
+    getAuthToken.mockReturnValue('token');
+
+    await uploadInlineMedia('form-1', { photo: photoEntry() }, 'project-1');
+
+    expect(uploadMediaFile).toHaveBeenCalledWith('project-1', 'form-1', expect.any(File), 'photo', '', {}, undefined);
+    expect(uploadPublicMediaFile).not.toHaveBeenCalled();
+  });
+});
+
+describe('uploadQueuedMedia', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getAuthToken.mockReturnValue(null);
+    uploadPublicMediaFile.mockResolvedValue(uploadedFile);
+  });
+
+  const queueResponseWithPhoto = async () => {
+    const item = createQueueItem('form_response', { formId: 'form-1', isComplete: true, data: {} });
+    item.data.data = await stashResponseMedia(item.id, { photo: photoEntry() });
+    return item;
+  };
+
+  it('uploads held files and replaces the placeholders', async () => {
+    const item = await queueResponseWithPhoto();
+
+    const synced = await uploadQueuedMedia(item);
+
+    expect(uploadPublicMediaFile).toHaveBeenCalledWith(
+      'form-1',
+      expect.any(File),
+      'photo',
+      expect.stringContaining(item.idempotencyKey)
+    );
+    expect(synced.data.data?.photo).toMatchObject({ id: 'media-1' });
+    expect(await getQueuedMediaForItem(item.id)).toHaveLength(0);
+  });
+
+  it('reports a missing file instead of sending the response without it', async () => {
+    const item = await queueResponseWithPhoto();
+    const [media] = await getQueuedMediaForItem(item.id);
+    await deleteQueuedMedia(media.id);
+
+    await expect(uploadQueuedMedia(item)).rejects.toBeInstanceOf(MissingQueuedMediaError);
+    expect(uploadPublicMediaFile).not.toHaveBeenCalled();
+  });
+
+  it('sends the response without the missing file once the respondent allows it', async () => {
+    const item = await queueResponseWithPhoto();
+    const [media] = await getQueuedMediaForItem(item.id);
+    await deleteQueuedMedia(media.id);
+    item.data.allowMissingMedia = true;
+
+    const synced = await uploadQueuedMedia(item);
+
+    expect(synced.data.data?.photo).toMatchObject({ name: 'photo.jpg', uploadError: true });
+    expect(synced.data.data?.photo).not.toHaveProperty('pendingMediaId');
+  });
+});
@@ -0,0 +1,235 @@
+// Offline Media Sync
+// Media answers (IMAGE/VIDEO/AUDIO/FILE upload questions) are kept in the response data as
+// entries carrying a `file` Blob until they reach the server. When a response is queued the
+// blobs are moved into IndexedDB and replaced by `pendingMediaId` placeholders; during sync
+// they are uploaded first and the placeholders are patched with the resulting media IDs.
+// Signed-in users upload through the project media endpoint; public and anonymous respondents
+// have no session, so their files go through the form's public upload route.
+
+import { apiClient } from './api/client';
+import { formsApi, UploadedMediaFile } from './api/formsApi';
+import {
+  QueuedResponseItem,
+  putQueueItem,
+  putQueuedMedia,
+  getQueuedMedia,
+  deleteQueuedMedia,
+  generateIdempotencyKey,
+} from './offlineQueueStore';
+
+type ResponseData = Record<string, unknown>;
+
+interface MediaEntryDetails {
+  name?: string;
+  originalName?: string;
+  type?: string;
+  size?: number;
+  mediaType?: string;
+  uploadError?: boolean;
+  [key: string]: unknown;
+}
+
+interface LocalMediaEntry extends MediaEntryDetails {
+  file: Blob;
+}
+
+interface PendingMediaEntry extends MediaEntryDetails {
+  pendingMediaId: string;
+}
+
+/** Thrown when a queued response refers to a file that is no longer held on the device. */
+export class MissingQueuedMediaError extends Error {
+  constructor(public readonly questionIds: string[]) {
+    super(
+      `${questionIds.length === 1 ? 'An attachment for this response is' : `${questionIds.length} attachments for this response are`} ` +
+      'no longer stored on this device (storage may have been cleared).'
+    );
+    this.name = 'MissingQueuedMediaError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !(value instanceof Date) && !(value instanceof Blob);
+
+const isLocalMediaEntry = (value: unknown): value is LocalMediaEntry =>
+  isObject(value) && value.file instanceof Blob;
+
+const isPendingMediaEntry = (value: unknown): value is PendingMediaEntry =>
+  isObject(value) && typeof value.pendingMediaId === 'string';
+
+/**
+ * Walk response data and replace matching media entries.
+ * Keys that are repeat instance indexes ("0", "1") or internal markers (_parentValue)
+ * inherit the question ID of their parent; any other key is a (conditional) question ID.
+ */
+const replaceMediaEntries = async <T>(
+  value: unknown,
+  questionId: string,
+  matches: (entry: unknown) => entry is T,
+  replacer: (entry: T, questionId: string) => Promise<unknown>
+): Promise<unknown> => {
+  if (matches(value)) {
+    return replacer(value, questionId);
+  }
+  if (Array.isArray(value)) {
+    const result: unknown[] = [];
+    for (const entry of value) {
+      result.push(await replaceMediaEntries(entry, questionId, matches, replacer));
+    }
+    return result;
+  }
+  if (isObject(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      const childQuestionId = /^\d+$/.test(key) || key.startsWith('_') ? questionId : key;
+      result[key] = await replaceMediaEntries(entry, childQuestionId, matches, replacer);
+    }
+    return result;
+  }
+  return value;
+};
+
+const replaceInResponse = async <T>(
+  data: ResponseData,
+  matches: (entry: unknown) => entry is T,
+  replacer: (entry: T, questionId: string) => Promise<unknown>
+): Promise<ResponseData> => (await replaceMediaEntries(data, '', matches, replacer)) as ResponseData;
+
+const containsEntry = (value: unknown, matches: (entry: unknown) => boolean): boolean => {
+  if (matches(value)) return true;
+  if (Array.isArray(value)) return value.some(entry => containsEntry(entry, matches));
+  if (isObject(value)) return Object.values(value).some(entry => containsEntry(entry, matches));
+  return false;
+};
+
+export const hasLocalMedia = (data: ResponseData): boolean => containsEntry(data, isLocalMediaEntry);
+
+export const hasPendingMedia = (data: ResponseData): boolean => containsEntry(data, isPendingMediaEntry);
+
+// Shape stored in response data once a file is on the server (matches MediaUploadQuestionRenderer)
+const toUploadedEntry = (entry: MediaEntryDetails, uploadedFile: UploadedMediaFile) => ({
+  id: uploadedFile.id,
+  name: uploadedFile.fileName,
+  originalName: uploadedFile.originalName || entry.originalName,
+  size: uploadedFile.fileSize,
+  type: uploadedFile.mimeType,
+  url: uploadedFile.url,
+  filePath: uploadedFile.filePath,
+  mediaType: entry.mediaType,
+  uploadedAt: uploadedFile.uploadedAt
+});
+
+// Uploads the files of one response; the form's project is only looked up for signed-in uploads
+const createMediaUploader = (formId: string, projectId?: string) => {
+  let resolvedProjectId = projectId;
+
+  return async (file: File, questionId: string, idempotencyKey?: string): Promise<UploadedMediaFile> => {
+    if (!apiClient.getAuthToken()) {
+      return formsApi.uploadPublicMediaFile(formId, file, questionId, idempotencyKey);
+    }
+
+    if (!resolvedProjectId) {
+      resolvedProjectId = (await formsApi.getFormByIdOnly(formId))?.projectId;
+    }
+    if (!resolvedProjectId) {
+      throw new Error('Cannot upload media: the project for this form could not be resolved');
+    }
+    return formsApi.uploadMediaFile(resolvedProjectId, formId, file, questionId, '', {}, idempotencyKey);
+  };
+};
+
+/**
+ * Move the blobs of a response that is about to be queued into IndexedDB,
+ * returning the response data with each blob replaced by a placeholder.
+ */
+export const stashResponseMedia = async (
+  queueItemId: string,
+  data: ResponseData
+): Promise<ResponseData> => {
+  return replaceInResponse(data, isLocalMediaEntry, async (entry, questionId) => {
+    const { file, ...details } = entry;
+    delete details.uploadError;
+    const pendingMediaId = generateIdempotencyKey();
+    await putQueuedMedia({
+      id: pendingMediaId,
+      queueItemId,
+      questionId,
+      blob: file,
+      name: details.name || (file instanceof File ? file.name : '') || 'attachment',
+      type: details.type || file.type,
+      size: details.size ?? file.size,
+      createdAt: Date.now()
+    });
+    return { ...details, pendingMediaId };
+  });
+};
+
+/**
+ * Upload the held blobs of a queued response before the response itself is submitted.
+ * The item is saved after every upload so a retry never sends the same file twice.
+ * If a held blob is missing, MissingQueuedMediaError is thrown so the respondent can decide what
+ * to do, unless the item has been marked `allowMissingMedia` to send the response without it.
+ */
+export const uploadQueuedMedia = async (item: QueuedResponseItem): Promise<QueuedResponseItem> => {
+  const responseData: ResponseData = item.data.data || {};
+  if (!hasPendingMedia(responseData)) return item;
+
+  // Check every placeholder before uploading anything
+  if (!item.data.allowMissingMedia) {
+    const missingQuestionIds: string[] = [];
+    await replaceInResponse(responseData, isPendingMediaEntry, async (entry, questionId) => {
+      if (!(await getQueuedMedia(entry.pendingMediaId))) missingQuestionIds.push(questionId);
+      return entry;
+    });
+    if (missingQuestionIds.length > 0) {
+      throw new MissingQueuedMediaError(missingQuestionIds);
+    }
+  }
+
+  const upload = createMediaUploader(item.data.formId, item.data.projectId);
+  let current = item;
+  const data = await replaceInResponse(responseData, isPendingMediaEntry, async (entry, questionId) => {
+    const media = await getQueuedMedia(entry.pendingMediaId);
+    if (!media) {
+      // The respondent chose to send the response without this file; keep its details for the record
+      const details: MediaEntryDetails = { ...entry };
+      delete details.pendingMediaId;
+      return { ...details, uploadError: true };
+    }
+
+    const file = new File([media.blob], media.name, { type: media.type });
+    const uploadedEntry = toUploadedEntry(
+      entry,
+      await upload(file, media.questionId || questionId, `${current.idempotencyKey}:${media.id}`)
+    );
+
+    // Persist progress before dropping the blob
+    const patchedData = await replaceInResponse(
+      current.data.data || {},
+      (candidate): candidate is PendingMediaEntry => isPendingMediaEntry(candidate) && candidate.pendingMediaId === media.id,
+      async () => uploadedEntry
+    );
+    current = { ...current, data: { ...current.data, data: patchedData } };
+    await putQueueItem(current);
+    await deleteQueuedMedia(media.id);
+
+    return uploadedEntry;
+  });
+
+  return { ...current, data: { ...current.data, data } };
+};
+
+/**
+ * Upload blobs still held in response data when submitting while online.
+ */
+export const uploadInlineMedia = async (
+  formId: string,
+  data: ResponseData,
+  projectId?: string
+): Promise<ResponseData> => {
+  const upload = createMediaUploader(formId, projectId);
+  return replaceInResponse(data, isLocalMediaEntry, async (entry, questionId) => {
+    const file = entry.file instanceof File ? entry.file : new File([entry.file], entry.name || 'attachment', { type: entry.file.type });
+    return toUploadedEntry(entry, await upload(file, questionId));
+  });
+};
@@ -0,0 +1,131 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_MAX_RETRIES,
+  OfflineQueueItem,
+  clearQueueItems,
+  createQueueItem,
+  getBackoffDelay,
+  getQueueItems,
+  migrateLegacyQueue,
+} from './offlineQueueStore';
+
+const createLocalStorage = (): Storage => {
+  const values = new Map<string, string>();
+  return {
+    get length() {
+      return values.size;
+    },
+    clear: () => values.clear(),
+    getItem: key => values.get(key) ?? null,
+    key: index => [...values.keys()][index] ?? null,
+    removeItem: key => {
+      values.delete(key);
+    },
+    setItem: (key, value) => {
+      values.set(key, String(value));
+    },
+  };
+};
+
+describe('getBackoffDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('doubles the delay from five seconds for each retry', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(getBackoffDelay(0)).toBe(5000);
+    expect(getBackoffDelay(1)).toBe(10000);
+    expect(getBackoffDelay(3)).toBe(40000);
+  });
+
+  it('caps the delay at one hour', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(getBackoffDelay(20)).toBe(60 * 60 * 1000);
+  });
+
+  it('adds up to 20% jitter either way', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getBackoffDelay(1)).toBe(8000);
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(getBackoffDelay(1)).toBe(12000);
+  });
+});
+
+describe('createQueueItem', () => {
+  it('creates a pending item that can be attempted immediately', () => {
+    const item = createQueueItem('form_response', { formId: 'form-1' });
+    expect(item.status).toBe('pending');
+    expect(item.retryCount).toBe(0);
+    expect(item.maxRetries).toBe(DEFAULT_MAX_RETRIES);
+    expect(item.nextAttemptAt).toBeLessThanOrEqual(Date.now());
+    expect(item.idempotencyKey).toBeTruthy();
+  });
+
+  it('gives every item its own idempotency key', () => {
+    const first = createQueueItem('form_response', { formId: 'form-1' });
+    const second = createQueueItem('form_response', { formId: 'form-1' });
+    expect(first.idempotencyKey).not.toBe(second.idempotencyKey);
+  });
+});
+
+describe('migrateLegacyQueue', () => {
+  beforeEach(async () => {
+    vi.stubGlobal('localStorage', createLocalStorage());
+    await clearQueueItems();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('does nothing when there is no legacy queue', async () => {
+    expect(await migrateLegacyQueue()).toBe(0);
+    expect(await getQueueItems()).toEqual([]);
+  });
+
+  it('moves legacy items into IndexedDB and removes the localStorage key', async () => {
+    localStorage.setItem('formOfflineQueue', JSON.stringify([
+      { id: 'b', type: 'form_response', data: { formId: 'f2' }, timestamp: 2, retryCount: 1 },
+      { id: 'a', type: 'form_create', data: { projectId: 'p1' }, timestamp: 1 },
+    ]));
+
+    expect(await migrateLegacyQueue()).toBe(2);
+    expect(localStorage.getItem('formOfflineQueue')).toBeNull();
+
+    const items = await getQueueItems();
+    expect(items.map(item => item.id)).toEqual(['a', 'b']);
+    expect(items[1]).toMatchObject({
+      type: 'form_response',
+      data: { formId: 'f2' },
+      retryCount: 1,
+      maxRetries: DEFAULT_MAX_RETRIES,
+      status: 'pending',
+      nextAttemptAt: 0,
+    });
+    expect(items[0].idempotencyKey).toBeTruthy();
+  });
+
+  it('marks items that already used up their retries as failed', async () => {
+    localStorage.setItem('formOfflineQueue', JSON.stringify([
+      { id: 'a', type: 'form_response', data: {}, timestamp: 1, retryCount: 3, maxRetries: 3 },
+    ]));
+
+    await migrateLegacyQueue();
+    const [item] = await getQueueItems();
+    expect(item.status).toBe('failed');
+  });
+
+  it('applies the sanitizer to every migrated item', async () => {
+    localStorage.setItem('formOfflineQueue', JSON.stringify([
+      { id: 'a', type: 'form_response', data: { secret: 'x', formId: 'f1' }, timestamp: 1 },
+    ]));
+
+    await migrateLegacyQueue((item: OfflineQueueItem) =>
+      item.type === 'form_response' ? { ...item, data: { formId: item.data.formId } } : item
+    );
+    const [item] = await getQueueItems();
+    expect(item.data).toEqual({ formId: 'f1' });
+  });
+});
@@ -0,0 +1,251 @@
+// Offline Queue Storage
+// Persists queued form operations in IndexedDB so that large submissions do not
+// hit the localStorage quota, and each item can be retried independently.
+
+export type OfflineQueueItemType =
+  | 'form_response'
+  | 'form_create'
+  | 'form_update'
+  | 'form_delete'
+  | 'media_upload'
+  | 'media_delete';
+
+export type OfflineQueueItemStatus = 'pending' | 'failed' | 'conflict';
+
+// Queued form create, update or delete: the form fields, with the ids the request is addressed by
+export interface QueuedFormPayload {
+  projectId?: string;
+  id?: string;
+  expectedVersion?: number; // Dropped when the user chooses to overwrite the server copy
+  [field: string]: unknown;
+}
+
+// Queued response: a new submission, or an edit (type 'update') of one already on the server
+export interface QueuedResponsePayload {
+  formId: string;
+  projectId?: string;
+  responseId?: string;
+  type?: 'update';
+  respondentId?: string;
+  respondentEmail?: string;
+  isComplete?: boolean;
+  ipAddress?: string;
+  userAgent?: string;
+  source?: string;
+  language?: string;
+  data?: Record<string, unknown>;
+  missingMedia?: boolean; // A held attachment is gone from the device
+  allowMissingMedia?: boolean; // The respondent chose to send the response without it
+}
+
+export interface OfflineQueuePayloads {
+  form_response: QueuedResponsePayload;
+  form_create: QueuedFormPayload;
+  form_update: QueuedFormPayload;
+  form_delete: QueuedFormPayload;
+  media_upload: Record<string, unknown>;
+  media_delete: Record<string, unknown>;
+}
+
+interface OfflineQueueItemBase {
+  id: string;
+  timestamp: number;
+  retryCount: number;
+  maxRetries: number;
+  // Sent with every replay so the server can drop duplicates of the same operation
+  idempotencyKey: string;
+  status: OfflineQueueItemStatus;
+  // Epoch ms before which the item must not be retried (exponential backoff)
+  nextAttemptAt: number;
+  lastError?: string;
+  lastAttemptAt?: number;
+}
+
+// Each item carries the payload of its own type, so switching on `type` narrows `data`
+export type OfflineQueueItem = {
+  [T in OfflineQueueItemType]: OfflineQueueItemBase & { type: T; data: OfflineQueuePayloads[T] };
+}[OfflineQueueItemType];
+
+export type QueuedResponseItem = Extract<OfflineQueueItem, { type: 'form_response' }>;
+
+// Binary answer held on the device until its queued response is synced
+export interface QueuedMediaBlob {
+  id: string;
+  queueItemId: string;
+  questionId: string;
+  blob: Blob;
+  name: string;
+  type: string;
+  size: number;
+  createdAt: number;
+}
+
+const DB_NAME = 'ics-offline-queue';
+const DB_VERSION = 2;
+const QUEUE_STORE = 'queue';
+const MEDIA_STORE = 'media';
+const LEGACY_QUEUE_KEY = 'formOfflineQueue';
+
+export const DEFAULT_MAX_RETRIES = 8;
+const BASE_BACKOFF_MS = 5 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        const store = db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      }
+      if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+        const store = db.createObjectStore(MEDIA_STORE, { keyPath: 'id' });
+        store.createIndex('queueItemId', 'queueItemId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | void,
+  storeName: string = QUEUE_STORE
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Generate a random key; crypto.randomUUID is unavailable on plain-http field deployments
+export const generateIdempotencyKey = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 12)}`;
+};
+
+// Delay before the next attempt: 5s, 10s, 20s ... capped at one hour, with jitter
+export const getBackoffDelay = (retryCount: number): number => {
+  const delay = Math.min(BASE_BACKOFF_MS * Math.pow(2, retryCount), MAX_BACKOFF_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+export const createQueueItem = <T extends OfflineQueueItemType>(
+  type: T,
+  data: OfflineQueuePayloads[T]
+): Extract<OfflineQueueItem, { type: T }> => {
+  const now = Date.now();
+  return {
+    id: now.toString() + Math.random().toString(36).substr(2, 9),
+    type,
+    data,
+    timestamp: now,
+    retryCount: 0,
+    maxRetries: DEFAULT_MAX_RETRIES,
+    idempotencyKey: generateIdempotencyKey(),
+    status: 'pending',
+    nextAttemptAt: now,
+  } as Extract<OfflineQueueItem, { type: T }>;
+};
+
+// Fill in fields missing from items queued before per-item retry tracking existed
+const normalizeQueueItem = (item: Partial<OfflineQueueItemBase> & Pick<OfflineQueueItem, 'type' | 'data'>): OfflineQueueItem => {
+  const retryCount = item.retryCount ?? 0;
+  const maxRetries = item.maxRetries ?? DEFAULT_MAX_RETRIES;
+  return {
+    id: item.id || Date.now().toString() + Math.random().toString(36).substr(2, 9),
+    type: item.type,
+    data: item.data ?? {},
+    timestamp: item.timestamp ?? Date.now(),
+    retryCount,
+    maxRetries,
+    idempotencyKey: item.idempotencyKey || generateIdempotencyKey(),
+    status: item.status || (retryCount >= maxRetries ? 'failed' : 'pending'),
+    nextAttemptAt: item.nextAttemptAt ?? 0,
+    lastError: item.lastError,
+    lastAttemptAt: item.lastAttemptAt,
+  } as OfflineQueueItem;
+};
+
+export const getQueueItems = async (): Promise<OfflineQueueItem[]> => {
+  const items = await runTransaction<OfflineQueueItem[]>('readonly', store => store.getAll());
+  return (items || []).sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const putQueueItem = async (item: OfflineQueueItem): Promise<void> => {
+  await runTransaction('readwrite', store => store.put(item));
+};
+
+export const deleteQueueItem = async (id: string): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(id));
+};
+
+export const clearQueueItems = async (): Promise<void> => {
+  await runTransaction('readwrite', store => store.clear());
+  await runTransaction('readwrite', store => store.clear(), MEDIA_STORE);
+};
+
+export const putQueuedMedia = async (media: QueuedMediaBlob): Promise<void> => {
+  await runTransaction('readwrite', store => store.put(media), MEDIA_STORE);
+};
+
+export const getQueuedMedia = async (id: string): Promise<QueuedMediaBlob | undefined> => {
+  return runTransaction<QueuedMediaBlob>('readonly', store => store.get(id), MEDIA_STORE);
+};
+
+export const getQueuedMediaForItem = async (queueItemId: string): Promise<QueuedMediaBlob[]> => {
+  const media = await runTransaction<QueuedMediaBlob[]>(
+    'readonly',
+    store => store.index('queueItemId').getAll(queueItemId),
+    MEDIA_STORE
+  );
+  return media || [];
+};
+
+export const deleteQueuedMedia = async (id: string): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(id), MEDIA_STORE);
+};
+
+export const deleteQueuedMediaForItem = async (queueItemId: string): Promise<void> => {
+  const media = await getQueuedMediaForItem(queueItemId);
+  for (const entry of media) {
+    await deleteQueuedMedia(entry.id);
+  }
+};
+
+/**
+ * Move a queue persisted by earlier versions in localStorage into IndexedDB.
+ * The localStorage key is only removed once every item has been written.
+ */
+export const migrateLegacyQueue = async (
+  sanitize: (item: OfflineQueueItem) => OfflineQueueItem = item => item
+): Promise<number> => {
+  const stored = localStorage.getItem(LEGACY_QUEUE_KEY);
+  if (!stored) return 0;
+
+  const rawQueue = JSON.parse(stored);
+  const items = Array.isArray(rawQueue) ? rawQueue.map(normalizeQueueItem).map(sanitize) : [];
+  for (const item of items) {
+    await putQueueItem(item);
+  }
+  localStorage.removeItem(LEGACY_QUEUE_KEY);
+  return items.length;
+};
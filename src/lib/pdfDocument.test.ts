@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { PdfBlock, createPdfBlob, renderPdfDocument, wrapText } from './pdfDocument';
+
+// Objects, xref entries and trailer of the PDF source, checked the way a reader resolves them
+const parsePdf = (source: string) => {
+  const startxref = Number(source.match(/startxref\n(\d+)\n%%EOF\n$/)?.[1]);
+  const xref = source.slice(startxref).match(/^xref\n0 (\d+)\n([\s\S]*?)trailer\n<< ([^\n]*) >>/);
+  if (!xref) throw new Error('No xref table at startxref');
+  const entries = xref[2].split('\n').filter(Boolean);
+  return { size: Number(xref[1]), entries, trailer: xref[3] };
+};
+
+const contentStreams = (source: string) =>
+  Array.from(source.matchAll(/stream\n([\s\S]*?)\nendstream/g), match => match[1]);
+
+describe('renderPdfDocument', () => {
+  it('writes a PDF whose xref table points at each object', () => {
+    const source = renderPdfDocument(
+      [{ type: 'heading', text: 'Quarterly report', level: 1 }, { type: 'paragraph', text: 'All activities on track.' }],
+      { title: 'Quarterly report', author: 'M&E officer' }
+    );
+
+    expect(source.startsWith('%PDF-1.4\n')).toBe(true);
+    const { size, entries, trailer } = parsePdf(source);
+    expect(entries).toHaveLength(size);
+    expect(entries[0]).toBe('0000000000 65535 f ');
+    entries.slice(1).forEach((entry, index) => {
+      expect(entry).toMatch(/^\d{10} 00000 n $/);
+      expect(source.slice(Number(entry.slice(0, 10)))).toMatch(new RegExp(`^${index + 1} 0 obj\\n`));
+    });
+    expect(trailer).toMatch(new RegExp(`^/Size ${size} /Root 1 0 R /Info ${size - 1} 0 R$`));
+    expect(source).toContain('/Title (Quarterly report) /Author (M&E officer)');
+  });
+
+  it('gives each content stream its length', () => {
+    const source = renderPdfDocument([{ type: 'paragraph', text: 'Short' }]);
+
+    const [stream] = contentStreams(source);
+    expect(source).toContain(`<< /Length ${stream.length} >>\nstream\n`);
+  });
+
+  it('escapes string delimiters and backslashes', () => {
+    const source = renderPdfDocument([{ type: 'paragraph', text: 'Budget (USD) C:\\reports' }]);
+
+    expect(source).toContain('(Budget \\(USD\\) C:\\\\reports) Tj');
+  });
+
+  it('writes WinAnsi characters as octal escapes and others as "?"', () => {
+    const source = renderPdfDocument([{ type: 'paragraph', text: 'Café – “Maji” €5 水' }]);
+
+    expect(source).toContain('(Caf\\351 \\226 \\223Maji\\224 \\2005 ?) Tj');
+    // Only ASCII is written, so the string length is the byte length the xref offsets count
+    expect(source).toMatch(/^[\x20-\x7e\n]*$/);
+  });
+
+  it('numbers the pages and repeats table headers on each page', () => {
+    const rows = Array.from({ length: 80 }, (_, index) => [`Activity ${index + 1}`, String(index * 100)]);
+    const blocks: PdfBlock[] = [{ type: 'table', columns: ['Activity', 'Spent'], rows }];
+
+    const source = renderPdfDocument(blocks, { footer: 'Water project' });
+    const streams = contentStreams(source);
+
+    expect(streams.length).toBeGreaterThan(1);
+    expect(source).toContain(`/Count ${streams.length}`);
+    streams.forEach((stream, index) => {
+      expect(stream).toContain('/F2 9 Tf');
+      expect(stream).toContain('(Activity) Tj');
+      expect(stream).toContain(`(Water project  \\267  Page ${index + 1} of ${streams.length}) Tj`);
+    });
+  });
+});
+
+describe('wrapText', () => {
+  it('wraps on spaces, keeps line breaks and splits words longer than the line', () => {
+    expect(wrapText('one two three', 10, 40)).toEqual(['one two', 'three']);
+    expect(wrapText('first\n\nsecond', 10, 200)).toEqual(['first', '', 'second']);
+    expect(wrapText('abcdefghij', 10, 30)).toEqual(['abcde', 'fghij']);
+  });
+});
+
+describe('createPdfBlob', () => {
+  it('writes one byte per character of the PDF source', async () => {
+    const blocks: PdfBlock[] = [{ type: 'paragraph', text: 'Hello' }];
+    const blob = createPdfBlob(blocks);
+
+    expect(blob.type).toBe('application/pdf');
+    expect(new TextDecoder('latin1').decode(await blob.arrayBuffer())).toBe(renderPdfDocument(blocks));
+  });
+});
@@ -0,0 +1,322 @@
+// PDF Document Utilities
+// Lays out headings, paragraphs and tables on A4 pages and writes them as a PDF using the standard
+// Helvetica fonts, so generated reports need no PDF library or embedded fonts. Text is limited to the
+// WinAnsi character set; anything outside it is written as "?".
+
+export type PdfBlock =
+  | { type: 'heading'; text: string; level?: 1 | 2 | 3 }
+  | { type: 'paragraph'; text: string; muted?: boolean }
+  | { type: 'table'; columns: string[]; rows: string[][]; columnWidths?: number[] } // Relative widths
+  | { type: 'spacer'; height?: number };
+
+export interface PdfDocumentOptions {
+  title?: string;
+  author?: string;
+  footer?: string; // Printed on every page next to the page number
+}
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_Y = 30;
+
+const BODY_SIZE = 10;
+const TABLE_SIZE = 9;
+const HEADING_SIZES = { 1: 18, 2: 13, 3: 11 } as const;
+const LINE_HEIGHT = 1.35;
+const CELL_PADDING = 4;
+
+// ========================================
+// TEXT MEASUREMENT
+// ========================================
+
+// Helvetica advance widths (1/1000 em) for characters 32–126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const DEFAULT_WIDTH = 556;
+const BOLD_FACTOR = 1.07; // Helvetica-Bold is slightly wider; close enough for wrapping
+
+// Characters WinAnsi places at 0x80–0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+const charWidth = (char: string) => {
+  const code = char.charCodeAt(0);
+  return code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : DEFAULT_WIDTH;
+};
+
+const measureText = (text: string, size: number, bold = false) => {
+  let width = 0;
+  for (const char of text) width += charWidth(char);
+  return (width / 1000) * size * (bold ? BOLD_FACTOR : 1);
+};
+
+/** Splits text into lines that fit `maxWidth`, keeping explicit line breaks and breaking over-long words. */
+export function wrapText(text: string, size: number, maxWidth: number, bold = false): string[] {
+  const lines: string[] = [];
+
+  text.split(/\r?\n/).forEach(paragraph => {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      lines.push('');
+      return;
+    }
+
+    let current = '';
+    words.forEach(word => {
+      const candidate = current ? `${current} ${word}` : word;
+      if (measureText(candidate, size, bold) <= maxWidth) {
+        current = candidate;
+        return;
+      }
+      if (current) lines.push(current);
+
+      // A single word wider than the line is split by character
+      current = '';
+      for (const char of word) {
+        if (current && measureText(current + char, size, bold) > maxWidth) {
+          lines.push(current);
+          current = '';
+        }
+        current += char;
+      }
+    });
+    lines.push(current);
+  });
+
+  return lines;
+}
+
+const encodeText = (text: string) => {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (char === '(' || char === ')' || char === '\\') {
+      encoded += `\\${char}`;
+    } else if (code >= 32 && code <= 126) {
+      encoded += char;
+    } else if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      encoded += `\\${WIN_ANSI_EXTRAS[char].toString(8)}`;
+    } else if (code >= 160 && code <= 255) {
+      encoded += `\\${code.toString(8)}`;
+    } else {
+      encoded += '?';
+    }
+  }
+  return encoded;
+};
+
+const formatNumber = (value: number) => (Math.round(value * 100) / 100).toString();
+
+// ========================================
+// LAYOUT
+// ========================================
+
+class PageLayout {
+  pages: string[][] = [[]];
+  private y = PAGE_HEIGHT - MARGIN;
+
+  private get ops() {
+    return this.pages[this.pages.length - 1];
+  }
+
+  get remaining() {
+    return this.y - (FOOTER_Y + 20);
+  }
+
+  newPage() {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  ensureSpace(height: number) {
+    if (height > this.remaining && this.y < PAGE_HEIGHT - MARGIN) this.newPage();
+  }
+
+  moveDown(height: number) {
+    this.y -= height;
+  }
+
+  text(text: string, x: number, size: number, options: { bold?: boolean; gray?: number; offset?: number } = {}) {
+    const baseline = this.y - (options.offset ?? 0) - size;
+    const gray = options.gray ?? 0;
+    this.ops.push(
+      `BT ${formatNumber(gray)} g /${options.bold ? 'F2' : 'F1'} ${size} Tf ${formatNumber(x)} ${formatNumber(baseline)} Td (${encodeText(text)}) Tj ET`
+    );
+  }
+
+  rect(x: number, height: number, width: number, fill?: number) {
+    const y = this.y - height;
+    this.ops.push(
+      fill !== undefined
+        ? `${formatNumber(fill)} g ${formatNumber(x)} ${formatNumber(y)} ${formatNumber(width)} ${formatNumber(height)} re f 0 g`
+        : `0.75 G 0.5 w ${formatNumber(x)} ${formatNumber(y)} ${formatNumber(width)} ${formatNumber(height)} re S`
+    );
+  }
+
+  rule(gray = 0.8) {
+    this.ops.push(`${formatNumber(gray)} G 0.75 w ${MARGIN} ${formatNumber(this.y)} m ${formatNumber(PAGE_WIDTH - MARGIN)} ${formatNumber(this.y)} l S`);
+  }
+
+  textLines(lines: string[], size: number, options: { bold?: boolean; gray?: number } = {}) {
+    const lineHeight = size * LINE_HEIGHT;
+    lines.forEach(line => {
+      this.ensureSpace(lineHeight);
+      this.text(line, MARGIN, size, options);
+      this.moveDown(lineHeight);
+    });
+  }
+}
+
+const layoutTable = (layout: PageLayout, block: Extract<PdfBlock, { type: 'table' }>) => {
+  const relative = block.columns.map((_, index) => block.columnWidths?.[index] ?? 1);
+  const total = relative.reduce((sum, width) => sum + width, 0) || 1;
+  const widths = relative.map(width => (width / total) * CONTENT_WIDTH);
+  const lineHeight = TABLE_SIZE * LINE_HEIGHT;
+
+  const drawRow = (cells: string[], header: boolean) => {
+    const wrapped = widths.map((width, index) => wrapText(cells[index] ?? '', TABLE_SIZE, width - CELL_PADDING * 2, header));
+    const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + CELL_PADDING * 2;
+    return { wrapped, height };
+  };
+
+  const paintRow = (row: ReturnType<typeof drawRow>, header: boolean) => {
+    let x = MARGIN;
+    if (header) layout.rect(MARGIN, row.height, CONTENT_WIDTH, 0.93);
+    row.wrapped.forEach((lines, index) => {
+      layout.rect(x, row.height, widths[index]);
+      lines.forEach((line, lineIndex) => {
+        layout.text(line, x + CELL_PADDING, TABLE_SIZE, {
+          bold: header,
+          offset: CELL_PADDING + lineIndex * lineHeight + (lineHeight - TABLE_SIZE) / 2,
+        });
+      });
+      x += widths[index];
+    });
+    layout.moveDown(row.height);
+  };
+
+  const header = drawRow(block.columns, true);
+  layout.ensureSpace(header.height + lineHeight * 2);
+  paintRow(header, true);
+
+  block.rows.forEach(cells => {
+    const row = drawRow(cells, false);
+    if (row.height > layout.remaining) {
+      // Repeat the header on the next page
+      layout.newPage();
+      paintRow(header, true);
+    }
+    paintRow(row, false);
+  });
+};
+
+// ========================================
+// SERIALISATION
+// ========================================
+
+const toPdf = (pages: string[][], options: PdfDocumentOptions) => {
+  const objects: string[] = [];
+  const addObject = (body: string) => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const catalogId = addObject('');
+  const pagesId = addObject('');
+  const regularFontId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  const boldFontId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  const pageIds = pages.map(ops => {
+    const stream = ops.join('\n');
+    const contentId = addObject(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    return addObject(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >> >> /Contents ${contentId} 0 R >>`
+    );
+  });
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  const info: string[] = [`/Producer (${encodeText('ICS Dashboard')})`];
+  if (options.title) info.push(`/Title (${encodeText(options.title)})`);
+  if (options.author) info.push(`/Author (${encodeText(options.author)})`);
+  const infoId = addObject(`<< ${info.join(' ')} >>`);
+
+  // Every character is ASCII after encoding, so string length equals byte length
+  let output = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return output;
+};
+
+/** Lays out the blocks on A4 pages and returns the PDF source; page numbers are added to every page. */
+export function renderPdfDocument(blocks: PdfBlock[], options: PdfDocumentOptions = {}): string {
+  const layout = new PageLayout();
+
+  blocks.forEach((block, index) => {
+    switch (block.type) {
+      case 'heading': {
+        const level = block.level ?? 2;
+        const size = HEADING_SIZES[level];
+        const lines = wrapText(block.text, size, CONTENT_WIDTH, true);
+        if (index > 0) layout.moveDown(size * 0.6);
+        // Keep a heading with at least a few lines of what follows
+        layout.ensureSpace(lines.length * size * LINE_HEIGHT + BODY_SIZE * LINE_HEIGHT * 3);
+        layout.textLines(lines, size, { bold: true });
+        if (level === 1) {
+          layout.moveDown(2);
+          layout.rule();
+          layout.moveDown(8);
+        }
+        break;
+      }
+      case 'paragraph':
+        layout.textLines(wrapText(block.text, BODY_SIZE, CONTENT_WIDTH), BODY_SIZE, { gray: block.muted ? 0.4 : 0 });
+        layout.moveDown(BODY_SIZE * 0.5);
+        break;
+      case 'table':
+        layoutTable(layout, block);
+        layout.moveDown(BODY_SIZE);
+        break;
+      case 'spacer':
+        layout.moveDown(block.height ?? BODY_SIZE);
+        break;
+    }
+  });
+
+  const pages = layout.pages;
+  pages.forEach((ops, index) => {
+    const pageLabel = `Page ${index + 1} of ${pages.length}`;
+    const footer = options.footer ? `${options.footer}  ·  ${pageLabel}` : pageLabel;
+    ops.push(`BT 0.45 g /F1 8 Tf ${MARGIN} ${FOOTER_Y} Td (${encodeText(footer)}) Tj ET`);
+  });
+
+  return toPdf(pages, options);
+}
+
+/** Renders the blocks as a PDF Blob, ready to download or upload. */
+export function createPdfBlob(blocks: PdfBlock[], options: PdfDocumentOptions = {}): Blob {
+  const source = renderPdfDocument(blocks, options);
+  // Characters are all below 256, so each maps to one byte
+  const bytes = new Uint8Array(source.length);
+  for (let i = 0; i < source.length; i++) bytes[i] = source.charCodeAt(i);
+  return new Blob([bytes], { type: 'application/pdf' });
+}
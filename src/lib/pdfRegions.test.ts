@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { RegionViewport, mergeSelectionBoxes, toPageBox, toPdfRegion } from './pdfRegions';
+
+// Unrotated A4 page at the given scale, converting as a pdf.js PageViewport does
+const viewport = (scale: number): RegionViewport => {
+  const pageHeight = 842;
+  return {
+    convertToPdfPoint: (x, y) => [x / scale, pageHeight - y / scale],
+    convertToViewportRectangle: ([x1, y1, x2, y2]) => [x1 * scale, (pageHeight - y1) * scale, x2 * scale, (pageHeight - y2) * scale],
+  };
+};
+
+describe('toPdfRegion', () => {
+  it('measures regions in points from the bottom left of the page', () => {
+    expect(toPdfRegion(viewport(2), { left: 144, top: 200, width: 100, height: 40 })).toEqual({ x: 72, y: 722, width: 50, height: 20 });
+  });
+
+  it('places a region at the same spot on the page at any scale', () => {
+    const region = toPdfRegion(viewport(1.5), { left: 90, top: 300, width: 150, height: 30 });
+
+    expect(toPageBox(viewport(1.5), region)).toEqual({ left: 90, top: 300, width: 150, height: 30 });
+    expect(toPageBox(viewport(0.75), region)).toEqual({ left: 45, top: 150, width: 75, height: 15 });
+  });
+});
+
+describe('mergeSelectionBoxes', () => {
+  it('joins the boxes of each selected line', () => {
+    const boxes = [
+      { left: 150, top: 100, width: 60, height: 12 },
+      { left: 72, top: 101, width: 80, height: 10 },
+      { left: 72, top: 116, width: 120, height: 12 },
+    ];
+
+    expect(mergeSelectionBoxes(boxes, 600, 800)).toEqual([
+      { left: 72, top: 100, width: 138, height: 12 },
+      { left: 72, top: 116, width: 120, height: 12 },
+    ]);
+  });
+
+  it('clips boxes to the page and drops empty ones', () => {
+    const boxes = [
+      { left: 560, top: 100, width: 80, height: 12 },
+      { left: 72, top: 116, width: 0, height: 12 },
+      { left: 700, top: 130, width: 20, height: 12 },
+    ];
+
+    expect(mergeSelectionBoxes(boxes, 600, 800)).toEqual([{ left: 560, top: 100, width: 40, height: 12 }]);
+  });
+});
@@ -0,0 +1,88 @@
+// PDF Region Utilities
+// Annotation regions are kept in PDF user space, so they mark the same passage whatever size or zoom each
+// reviewer renders the page at. pdf.js page viewports convert between that space and the pixels of the
+// rendered canvas and text layer; the conversions here only need those two viewport methods.
+
+import { PdfPageRegion } from '@/types/dashboard';
+
+/** The part of a pdf.js PageViewport used to place regions. */
+export interface RegionViewport {
+  convertToPdfPoint(x: number, y: number): number[];
+  convertToViewportRectangle(rect: number[]): number[];
+}
+
+/** Rectangle in viewport pixels, from the top left corner of the rendered page. */
+export interface PageBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Boxes smaller than this in either direction are leftovers of the selection, such as line breaks
+const MIN_BOX_SIZE = 1;
+
+/** The region of a PDF page covered by a box on its rendered viewport. */
+export function toPdfRegion(viewport: RegionViewport, box: PageBox): PdfPageRegion {
+  const [x1, y1] = viewport.convertToPdfPoint(box.left, box.top);
+  const [x2, y2] = viewport.convertToPdfPoint(box.left + box.width, box.top + box.height);
+  return {
+    x: Math.min(x1, x2),
+    y: Math.min(y1, y2),
+    width: Math.abs(x2 - x1),
+    height: Math.abs(y2 - y1),
+  };
+}
+
+/** Where a stored region sits on a rendered viewport. */
+export function toPageBox(viewport: RegionViewport, region: PdfPageRegion): PageBox {
+  const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([
+    region.x,
+    region.y,
+    region.x + region.width,
+    region.y + region.height,
+  ]);
+  return {
+    left: Math.min(x1, x2),
+    top: Math.min(y1, y2),
+    width: Math.abs(x2 - x1),
+    height: Math.abs(y2 - y1),
+  };
+}
+
+/**
+ * One box per line of a text selection. Browsers return a box for each text layer span the selection
+ * touches, often overlapping; boxes whose middles fall within the same line are joined.
+ */
+export function mergeSelectionBoxes(boxes: PageBox[], pageWidth: number, pageHeight: number): PageBox[] {
+  const clipped = boxes
+    .map(box => {
+      const left = Math.max(0, box.left);
+      const top = Math.max(0, box.top);
+      return {
+        left,
+        top,
+        width: Math.min(pageWidth, box.left + box.width) - left,
+        height: Math.min(pageHeight, box.top + box.height) - top,
+      };
+    })
+    .filter(box => box.width >= MIN_BOX_SIZE && box.height >= MIN_BOX_SIZE)
+    .sort((a, b) => a.top - b.top || a.left - b.left);
+
+  const lines: PageBox[] = [];
+  clipped.forEach(box => {
+    const middle = box.top + box.height / 2;
+    const line = lines.find(existing => middle >= existing.top && middle <= existing.top + existing.height);
+    if (!line) {
+      lines.push({ ...box });
+      return;
+    }
+    const right = Math.max(line.left + line.width, box.left + box.width);
+    const bottom = Math.max(line.top + line.height, box.top + box.height);
+    line.left = Math.min(line.left, box.left);
+    line.top = Math.min(line.top, box.top);
+    line.width = right - line.left;
+    line.height = bottom - line.top;
+  });
+  return lines;
+}
@@ -0,0 +1,11 @@
+// pdf.js Setup
+// Shared by the document viewer and version text extraction, so the worker is configured in one place:
+// Vite bundles pdf.js's worker script and serves it from its own URL.
+
+import { GlobalWorkerOptions, getDocument, type PDFDocumentProxy } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+/** Opens a PDF from its bytes; destroy the document once done with it. */
+export const loadPdfDocument = (data: Uint8Array): Promise<PDFDocumentProxy> => getDocument({ data }).promise;
@@ -554,6 +554,14 @@ export class EnhancedPermissionManager {
   canExportFormResponses(projectId: string): boolean {
     return this.hasProjectPermission('forms', 'responses-export', projectId) || this.hasResourcePermission('forms', 'responses-export', 'regional') || this.hasResourcePermission('forms', 'responses-export', 'global');
   }
+
+  /**
+   * Reports-specific helpers
+   * Editing covers the project's report templates and reporting schedule; approval chains stay with project admins.
+   */
+  canEditReports(projectId: string): boolean {
+    return this.hasProjectPermission('reports', 'update', projectId) || this.hasResourcePermission('reports', 'update', 'regional') || this.hasResourcePermission('reports', 'update', 'global');
+  }
 }
 
 /**
@@ -0,0 +1,150 @@
+// QR Code Utilities
+// Renders QR codes in the browser (no third-party image service, so form URLs are not
+// shared with anyone and codes keep working offline) and builds printable form posters.
+
+import QRCode from 'qrcode';
+
+export type QRCodeFormat = 'svg' | 'png';
+
+export interface QRCodeSizeOption {
+  value: number;
+  label: string;
+}
+
+export const QR_CODE_SIZES: QRCodeSizeOption[] = [
+  { value: 256, label: 'Small (256 px)' },
+  { value: 512, label: 'Medium (512 px)' },
+  { value: 1024, label: 'Large (1024 px)' },
+  { value: 2048, label: 'Print (2048 px)' },
+];
+
+export type PosterLayout = 'poster' | 'flyer';
+
+export interface FormPosterContent {
+  title: string;
+  description?: string;
+  callToAction: string;
+  url: string;
+  shortLink: string;
+  footer?: string;
+}
+
+// Quartile error correction keeps codes readable when printed posters get worn or dirty
+const QR_OPTIONS = { errorCorrectionLevel: 'Q' as const, margin: 2 };
+
+export const generateQRCodeSvg = (text: string): Promise<string> =>
+  QRCode.toString(text, { ...QR_OPTIONS, type: 'svg' });
+
+export const generateQRCodeDataUrl = (text: string, size: number): Promise<string> =>
+  QRCode.toDataURL(text, { ...QR_OPTIONS, width: size });
+
+// Form URL without the protocol, short enough to print under the code
+export const getShortLink = (url: string): string => url.replace(/^https?:\/\//, '').replace(/\/$/, '');
+
+const toFileBaseName = (title: string) => title.replace(/[^a-z0-9]+/gi, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'form';
+
+export async function downloadQRCode(text: string, title: string, format: QRCodeFormat, size: number): Promise<void> {
+  const link = document.createElement('a');
+  let objectUrl: string | null = null;
+
+  if (format === 'svg') {
+    // Give the SVG explicit dimensions so it opens at the chosen size (it stays vector)
+    const svg = (await generateQRCodeSvg(text)).replace('<svg ', `<svg width="${size}" height="${size}" `);
+    objectUrl = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+    link.href = objectUrl;
+  } else {
+    link.href = await generateQRCodeDataUrl(text, size);
+  }
+
+  link.download = `${toFileBaseName(title)}-qr-code-${size}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  if (objectUrl) URL.revokeObjectURL(objectUrl);
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const renderPosterCard = (content: FormPosterContent, qrSvg: string, layout: PosterLayout) => `
+  <section class="card ${layout}">
+    <div class="cta">${escapeHtml(content.callToAction)}</div>
+    <h1>${escapeHtml(content.title)}</h1>
+    ${content.description ? `<p class="description">${escapeHtml(content.description)}</p>` : ''}
+    <div class="qr">${qrSvg}</div>
+    <p class="scan">Scan with your phone camera or visit</p>
+    <p class="link">${escapeHtml(content.shortLink)}</p>
+    ${content.footer ? `<p class="footer">${escapeHtml(content.footer)}</p>` : ''}
+  </section>`;
+
+/**
+ * Build a self-contained, print-ready HTML document: one A4 poster per page, or an A4
+ * sheet of four A6 flyers to cut out. Everything is inline, so it prints offline.
+ */
+export async function buildFormPosterHtml(content: FormPosterContent, layout: PosterLayout): Promise<string> {
+  const qrSvg = await generateQRCodeSvg(content.url);
+  const cards = layout === 'flyer'
+    ? Array.from({ length: 4 }, () => renderPosterCard(content, qrSvg, layout)).join('')
+    : renderPosterCard(content, qrSvg, layout);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(content.title)} - ${layout === 'flyer' ? 'Flyers' : 'Poster'}</title>
+<style>
+  @page { size: A4 portrait; margin: 0; }
+  * { box-sizing: border-box; }
+  html, body { margin: 0; padding: 0; }
+  body { font-family: Arial, Helvetica, sans-serif; color: #111827; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  .sheet { width: 210mm; height: 297mm; margin: 0 auto; display: flex; flex-wrap: wrap; }
+  .card { display: flex; flex-direction: column; align-items: center; justify-content: center; text-align: center; overflow: hidden; }
+  .card.poster { width: 210mm; height: 297mm; padding: 20mm; }
+  .card.flyer { width: 105mm; height: 148.5mm; padding: 8mm; border: 1px dashed #9ca3af; }
+  .cta { background: #2563eb; color: #fff; font-weight: bold; text-transform: uppercase; letter-spacing: 0.05em; border-radius: 999px; }
+  .poster .cta { font-size: 18pt; padding: 3mm 10mm; margin-bottom: 10mm; }
+  .flyer .cta { font-size: 9pt; padding: 1.5mm 5mm; margin-bottom: 4mm; }
+  h1 { margin: 0; line-height: 1.15; }
+  .poster h1 { font-size: 36pt; margin-bottom: 6mm; }
+  .flyer h1 { font-size: 15pt; margin-bottom: 2mm; }
+  .description { color: #374151; margin: 0; }
+  .poster .description { font-size: 15pt; max-width: 160mm; margin-bottom: 10mm; }
+  .flyer .description { font-size: 8pt; margin-bottom: 3mm; display: -webkit-box; -webkit-line-clamp: 3; -webkit-box-orient: vertical; overflow: hidden; }
+  .qr svg { display: block; width: 100%; height: 100%; }
+  .poster .qr { width: 120mm; height: 120mm; margin-bottom: 8mm; }
+  .flyer .qr { width: 60mm; height: 60mm; margin-bottom: 3mm; }
+  .scan { color: #4b5563; margin: 0; }
+  .poster .scan { font-size: 14pt; margin-bottom: 2mm; }
+  .flyer .scan { font-size: 7pt; margin-bottom: 1mm; }
+  .link { font-family: 'Courier New', monospace; font-weight: bold; margin: 0; word-break: break-all; }
+  .poster .link { font-size: 16pt; }
+  .flyer .link { font-size: 8pt; }
+  .footer { color: #6b7280; margin: 0; }
+  .poster .footer { font-size: 11pt; margin-top: 10mm; }
+  .flyer .footer { font-size: 6pt; margin-top: 2mm; }
+  @media screen { body { background: #e5e7eb; } .sheet { background: #fff; } }
+</style>
+</head>
+<body>
+<div class="sheet">${cards}</div>
+</body>
+</html>`;
+}
+
+// Open the poster in a new window and bring up the print dialog (the user can also save as PDF)
+export async function printFormPoster(content: FormPosterContent, layout: PosterLayout): Promise<boolean> {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  printWindow.document.open();
+  printWindow.document.write(await buildFormPosterHtml(content, layout));
+  printWindow.document.close();
+  printWindow.focus();
+  // Give the window a moment to lay out the inline SVG before printing
+  setTimeout(() => printWindow.print(), 250);
+  return true;
+}
@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest';
+import { ReportTemplate, ReportTemplateField } from '@/types/dashboard';
+import { FinancialSummary } from '@/lib/api/financialApi';
+import {
+  buildFinancialSummaryValue,
+  buildKpiRows,
+  buildReportPdf,
+  createInitialValues,
+  getMissingRequiredFields,
+  getRecentReportingPeriods,
+  getReportFileName,
+  getReportingPeriod,
+  getTemplateSections,
+  getTemplatesForProject,
+  validateReportTemplate,
+} from './reportTemplates';
+
+const field = (id: string, type: ReportTemplateField['type'], fields: Partial<ReportTemplateField> = {}): ReportTemplateField => ({
+  id,
+  name: id,
+  type,
+  required: false,
+  ...fields,
+});
+
+const makeTemplate = (overrides: Partial<ReportTemplate> = {}): ReportTemplate => ({
+  id: 'template-1',
+  name: 'Quarterly Donor Report',
+  description: 'Narrative report for the donor',
+  category: 'quarterly',
+  requiredAuthLevels: ['project-admin'],
+  sections: [
+    { id: 'progress', title: 'Progress' },
+    { id: 'finance', title: 'Finance' },
+  ],
+  fields: [
+    field('summary', 'textarea', { sectionId: 'progress', required: true, name: 'Summary' }),
+    field('kpis', 'kpi', { sectionId: 'progress', kpiIds: ['kpi-2', 'kpi-1'], name: 'Indicators' }),
+    field('budget', 'financial-summary', { sectionId: 'finance', name: 'Budget' }),
+    field('risks', 'table', { columns: ['Risk', 'Mitigation'], required: true, name: 'Risks' }),
+    field('status', 'select', { sectionId: 'missing', options: ['On track', 'Delayed'], defaultValue: 'On track', name: 'Status' }),
+  ],
+  createdAt: '2026-01-01',
+  createdBy: 'user-1',
+  ...overrides,
+});
+
+const summary: FinancialSummary = {
+  projectId: 'project-1',
+  year: 2026,
+  totalBudget: 40000,
+  totalSpent: 18000,
+  totalVariance: 22000,
+  byQuarter: {
+    q1: { budget: 10000, spent: 8000, variance: 2000 },
+    q2: { budget: 10000, spent: 10000, variance: 0 },
+    q3: { budget: 10000, spent: 0, variance: 10000 },
+    q4: { budget: 10000, spent: 0, variance: 10000 },
+  },
+  activityCount: 3,
+  lastUpdated: new Date('2026-07-01'),
+};
+
+describe('templates', () => {
+  it('lists project templates before organisation-wide ones', () => {
+    const templates = [
+      makeTemplate({ id: 'org-b', name: 'B report' }),
+      makeTemplate({ id: 'other', name: 'Other project', projectId: 'project-2' }),
+      makeTemplate({ id: 'org-a', name: 'A report' }),
+      makeTemplate({ id: 'own', name: 'Z report', projectId: 'project-1' }),
+    ];
+
+    expect(getTemplatesForProject(templates, 'project-1').map(template => template.id)).toEqual(['own', 'org-a', 'org-b']);
+  });
+
+  it('groups fields by section, with unsectioned fields under General first', () => {
+    const sections = getTemplateSections(makeTemplate());
+
+    expect(sections.map(({ section, fields }) => [section.title, fields.map(f => f.id)])).toEqual([
+      ['General', ['risks', 'status']],
+      ['Progress', ['summary', 'kpis']],
+      ['Finance', ['budget']],
+    ]);
+  });
+
+  it('reports what stops a template from being used', () => {
+    const template = makeTemplate({
+      name: ' ',
+      sections: [{ id: 's1', title: '' }],
+      fields: [field('choice', 'select', { options: ['Only one', ' '] }), field('grid', 'table', { name: '', columns: [''] })],
+    });
+
+    expect(validateReportTemplate(template)).toEqual([
+      'Give the template a name.',
+      'Section 1 needs a title.',
+      '"choice" needs at least two choices.',
+      'Field 2 needs a label.',
+      '"Field 2" needs at least one column.',
+    ]);
+    expect(validateReportTemplate(makeTemplate())).toEqual([]);
+  });
+});
+
+describe('reporting periods', () => {
+  it('finds the period containing a date for each category', () => {
+    const date = new Date(2026, 9, 15); // Thursday 15 October 2026
+
+    expect(getReportingPeriod('quarterly', date)).toMatchObject({
+      key: '2026-Q4', label: 'Q4 2026 (Oct – Dec)', start: new Date(2026, 9, 1), end: new Date(2026, 11, 31),
+    });
+    expect(getReportingPeriod('bimonthly', date)).toMatchObject({ key: '2026-B5', label: 'Sep – Oct 2026' });
+    expect(getReportingPeriod('bi-annual', date)).toMatchObject({ key: '2026-H2', end: new Date(2026, 11, 31) });
+    expect(getReportingPeriod('monthly', date)).toMatchObject({ key: '2026-10', end: new Date(2026, 9, 31) });
+    expect(getReportingPeriod('weekly', date)).toMatchObject({
+      key: '2026-W42', start: new Date(2026, 9, 12), end: new Date(2026, 9, 18),
+    });
+  });
+
+  it('gives ISO week numbers to weeks that span the new year', () => {
+    expect(getReportingPeriod('weekly', new Date(2027, 0, 1))).toMatchObject({ key: '2026-W53', year: 2026 });
+    expect(getReportingPeriod('weekly', new Date(2025, 11, 31))).toMatchObject({ key: '2026-W01', year: 2026 });
+  });
+
+  it('lists the current period and the ones before it', () => {
+    expect(getRecentReportingPeriods('quarterly', new Date(2026, 1, 10), 3).map(period => period.key)).toEqual(['2026-Q1', '2025-Q4', '2025-Q3']);
+    expect(getRecentReportingPeriods('adhoc', new Date(2026, 1, 10))).toHaveLength(1);
+  });
+});
+
+describe('values', () => {
+  it('starts every field empty or at its default', () => {
+    expect(createInitialValues(makeTemplate())).toEqual({ summary: '', kpis: [], risks: [['', '']], status: 'On track' });
+  });
+
+  it('pulls the selected KPIs in field order and keeps written comments', () => {
+    const kpis = [
+      { id: 'kpi-1', name: 'Wells built', unit: 'wells', target: 10, value: '4' },
+      { id: 'kpi-2', title: 'People reached', targetValue: '5000', currentValue: 'n/a' },
+      { id: 'kpi-3', name: 'Not selected' },
+    ];
+    const rows = buildKpiRows(makeTemplate().fields[1], kpis, [
+      { kpiId: 'kpi-1', name: 'Wells built', unit: 'wells', target: 10, value: 3, comment: 'Two more under way' },
+    ]);
+
+    expect(rows).toEqual([
+      { kpiId: 'kpi-2', name: 'People reached', unit: '', target: 5000, value: null, comment: '' },
+      { kpiId: 'kpi-1', name: 'Wells built', unit: 'wells', target: 10, value: 4, comment: 'Two more under way' },
+    ]);
+  });
+
+  it('keeps financial quarters up to the end of the period', () => {
+    const value = buildFinancialSummaryValue(summary, getReportingPeriod('quarterly', new Date(2026, 4, 1)));
+
+    expect(value.quarters).toEqual([
+      { quarter: 'Q1', budget: 10000, spent: 8000 },
+      { quarter: 'Q2', budget: 10000, spent: 10000 },
+    ]);
+    expect(value).toMatchObject({ year: 2026, totalSpent: 18000, variance: 22000, comment: '' });
+  });
+
+  it('lists required fields that are still empty', () => {
+    const template = makeTemplate();
+    const values = createInitialValues(template);
+
+    expect(getMissingRequiredFields(template, values).map(f => f.id)).toEqual(['summary', 'risks']);
+    expect(getMissingRequiredFields(template, { ...values, summary: 'Done', risks: [['Floods', '']] })).toEqual([]);
+  });
+});
+
+describe('buildReportPdf', () => {
+  it('renders the cover details and every section with its fields', async () => {
+    const template = makeTemplate();
+    const period = getReportingPeriod('quarterly', new Date(2026, 4, 1));
+    const blob = buildReportPdf(
+      template,
+      {
+        ...createInitialValues(template),
+        summary: 'Work (phase 2) is on track',
+        kpis: [{ kpiId: 'kpi-1', name: 'Wells built', unit: 'wells', target: 10, value: 4, comment: '' }],
+        budget: buildFinancialSummaryValue(summary, period),
+      },
+      { title: 'Q2 donor report', projectName: 'Water project', period, preparedBy: 'M&E officer', preparedAt: new Date(2026, 6, 20) }
+    );
+
+    const source = new TextDecoder('latin1').decode(await blob.arrayBuffer());
+    expect(source.startsWith('%PDF')).toBe(true);
+    ['(Q2 donor report) Tj', '(Water project) Tj', '(20/07/2026) Tj', '(General) Tj', '(Progress) Tj', '(Finance) Tj',
+      '(Work \\(phase 2\\) is on track) Tj', '(4 wells) Tj', '(40%) Tj', '(18,000) Tj', '(Not provided.) Tj',
+    ].forEach(text => expect(source).toContain(text));
+  });
+
+  it('names the file after the template and period', () => {
+    expect(getReportFileName(makeTemplate(), getReportingPeriod('quarterly', new Date(2026, 7, 1)))).toBe('Quarterly_Donor_Report_2026-Q3.pdf');
+    expect(getReportFileName(makeTemplate({ name: ' !! ' }), getReportingPeriod('annual', new Date(2026, 0, 1)))).toBe('Report_2026.pdf');
+  });
+});
@@ -0,0 +1,427 @@
+// Report Template Utilities
+// Narrative reports written in-app from a ReportTemplate: reporting periods per report category, initial
+// field values, KPI and financial summary values pulled from project data, required-field checks, and the
+// PDF rendering that is uploaded into the approval workflow like any other report file.
+
+import { Report, ReportTemplate, ReportTemplateField, ReportTemplateSection } from '@/types/dashboard';
+import { FinancialSummary } from '@/lib/api/financialApi';
+import { PdfBlock, createPdfBlob } from '@/lib/pdfDocument';
+
+/** A KPI as the project data API returns it; older KPIs use title/targetValue/currentValue. */
+export interface ProjectKpiSource {
+  id: string;
+  name?: string;
+  title?: string;
+  unit?: string;
+  target?: number | string;
+  targetValue?: number | string;
+  value?: number | string;
+  current?: number | string;
+  currentValue?: number | string;
+}
+
+export interface KpiValueRow {
+  kpiId: string;
+  name: string;
+  unit: string;
+  target: number | null;
+  value: number | null;
+  comment: string;
+}
+
+export interface FinancialSummaryValue {
+  year: number;
+  totalBudget: number;
+  totalSpent: number;
+  variance: number;
+  quarters: { quarter: string; budget: number; spent: number }[];
+  comment: string;
+}
+
+export type ReportFieldValue = string | KpiValueRow[] | FinancialSummaryValue | string[][];
+export type ReportFieldValues = Record<string, ReportFieldValue>;
+
+export const REPORT_TEMPLATE_FIELD_TYPE_LABELS: Record<ReportTemplateField['type'], string> = {
+  text: 'Short text',
+  textarea: 'Narrative',
+  number: 'Number',
+  date: 'Date',
+  select: 'Choice',
+  kpi: 'KPI table',
+  'financial-summary': 'Financial summary',
+  table: 'Table',
+};
+
+// Fields that belong to no (existing) section are shown under this one
+const GENERAL_SECTION: ReportTemplateSection = { id: 'general', title: 'General' };
+
+// ========================================
+// TEMPLATES
+// ========================================
+
+/** Templates available to a project: its own plus the organisation-wide ones, project templates first. */
+export function getTemplatesForProject(templates: ReportTemplate[], projectId: string): ReportTemplate[] {
+  return templates
+    .filter(template => !template.projectId || template.projectId === projectId)
+    .sort((a, b) => Number(!!b.projectId) - Number(!!a.projectId) || a.name.localeCompare(b.name));
+}
+
+/** Sections in template order, each with its fields; fields without a known section go under "General". */
+export function getTemplateSections(template: ReportTemplate): { section: ReportTemplateSection; fields: ReportTemplateField[] }[] {
+  const sections = template.sections ?? [];
+  const sectionIds = new Set(sections.map(section => section.id));
+  const grouped = sections.map(section => ({
+    section,
+    fields: template.fields.filter(field => field.sectionId === section.id),
+  }));
+
+  const unsectioned = template.fields.filter(field => !field.sectionId || !sectionIds.has(field.sectionId));
+  if (unsectioned.length > 0) grouped.unshift({ section: GENERAL_SECTION, fields: unsectioned });
+
+  return grouped;
+}
+
+/** Problems that would stop a template from being used, as messages for the editor. */
+export function validateReportTemplate(template: ReportTemplate): string[] {
+  const errors: string[] = [];
+
+  if (!template.name.trim()) errors.push('Give the template a name.');
+  if (template.fields.length === 0) errors.push('Add at least one field.');
+
+  (template.sections ?? []).forEach((section, index) => {
+    if (!section.title.trim()) errors.push(`Section ${index + 1} needs a title.`);
+  });
+
+  template.fields.forEach((field, index) => {
+    const label = field.name.trim() || `Field ${index + 1}`;
+    if (!field.name.trim()) errors.push(`Field ${index + 1} needs a label.`);
+    if (field.type === 'select' && (field.options ?? []).filter(option => option.trim()).length < 2) {
+      errors.push(`"${label}" needs at least two choices.`);
+    }
+    if (field.type === 'table' && (field.columns ?? []).filter(column => column.trim()).length === 0) {
+      errors.push(`"${label}" needs at least one column.`);
+    }
+  });
+
+  return errors;
+}
+
+// ========================================
+// REPORTING PERIODS
+// ========================================
+
+export interface ReportingPeriod {
+  key: string; // e.g. "2026-Q3", "2026-10", "2026-W42"
+  label: string; // e.g. "Q3 2026 (Jul – Sep)"
+  start: Date;
+  end: Date; // Inclusive last day
+  year: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const monthRange = (year: number, month: number, months: number) => ({
+  start: new Date(year, month, 1),
+  end: new Date(year, month + months, 0),
+});
+
+const monthSpanLabel = (start: Date, end: Date) =>
+  `${MONTH_NAMES[start.getMonth()]} – ${MONTH_NAMES[end.getMonth()]} ${end.getFullYear()}`;
+
+/** The reporting period of a category that contains `date`; ad-hoc periods are the day itself. */
+export function getReportingPeriod(category: Report['category'], date: Date): ReportingPeriod {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+
+  switch (category) {
+    case 'weekly': {
+      const start = new Date(year, month, date.getDate() - ((date.getDay() + 6) % 7));
+      const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 6);
+      // ISO week number: the week's Thursday decides the year
+      const thursday = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 3);
+      const firstThursday = new Date(thursday.getFullYear(), 0, 4);
+      const week = 1 + Math.round(((thursday.getTime() - firstThursday.getTime()) / DAY_MS - 3 + ((firstThursday.getDay() + 6) % 7)) / 7);
+      return {
+        key: `${thursday.getFullYear()}-W${String(week).padStart(2, '0')}`,
+        label: `Week ${week}, ${start.getDate()} ${MONTH_NAMES[start.getMonth()]} – ${end.getDate()} ${MONTH_NAMES[end.getMonth()]} ${end.getFullYear()}`,
+        start,
+        end,
+        year: thursday.getFullYear(),
+      };
+    }
+    case 'bimonthly': {
+      const { start, end } = monthRange(year, month - (month % 2), 2);
+      return { key: `${year}-B${Math.floor(month / 2) + 1}`, label: monthSpanLabel(start, end), start, end, year };
+    }
+    case 'monthly': {
+      const { start, end } = monthRange(year, month, 1);
+      return {
+        key: `${year}-${String(month + 1).padStart(2, '0')}`,
+        label: start.toLocaleDateString('en-GB', { month: 'long', year: 'numeric' }),
+        start,
+        end,
+        year,
+      };
+    }
+    case 'quarterly': {
+      const quarter = Math.floor(month / 3);
+      const { start, end } = monthRange(year, quarter * 3, 3);
+      return { key: `${year}-Q${quarter + 1}`, label: `Q${quarter + 1} ${year} (${monthSpanLabel(start, end).replace(` ${year}`, '')})`, start, end, year };
+    }
+    case 'bi-annual': {
+      const half = month < 6 ? 0 : 1;
+      const { start, end } = monthRange(year, half * 6, 6);
+      return { key: `${year}-H${half + 1}`, label: `H${half + 1} ${year} (${monthSpanLabel(start, end).replace(` ${year}`, '')})`, start, end, year };
+    }
+    case 'annual': {
+      const { start, end } = monthRange(year, 0, 12);
+      return { key: `${year}`, label: `${year}`, start, end, year };
+    }
+    default: {
+      const start = new Date(year, month, date.getDate());
+      const key = `${year}-${String(month + 1).padStart(2, '0')}-${String(start.getDate()).padStart(2, '0')}`;
+      return { key, label: start.toLocaleDateString('en-GB'), start, end: start, year };
+    }
+  }
+}
+
+/** The current reporting period for a category and the ones before it, newest first. */
+export function getRecentReportingPeriods(category: Report['category'], now = new Date(), count = 6): ReportingPeriod[] {
+  const current = getReportingPeriod(category, now);
+  if (category === 'adhoc') return [current];
+
+  const periods = [current];
+  while (periods.length < count) {
+    const { start } = periods[periods.length - 1];
+    periods.push(getReportingPeriod(category, new Date(start.getFullYear(), start.getMonth(), start.getDate() - 1)));
+  }
+  return periods;
+}
+
+// ========================================
+// VALUES
+// ========================================
+
+const toNumber = (value: unknown): number | null => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/** Empty values for every field, using field defaults; KPI and financial values are pulled separately. */
+export function createInitialValues(template: ReportTemplate): ReportFieldValues {
+  const values: ReportFieldValues = {};
+  template.fields.forEach(field => {
+    switch (field.type) {
+      case 'kpi':
+        values[field.id] = [];
+        break;
+      case 'table':
+        values[field.id] = [(field.columns ?? []).map(() => '')];
+        break;
+      case 'financial-summary':
+        break;
+      default:
+        values[field.id] = field.defaultValue ?? '';
+    }
+  });
+  return values;
+}
+
+/**
+ * KPI rows for a kpi field from the project's KPIs, in the order the field lists them. Comments already
+ * written for a KPI are kept when the values are refreshed.
+ */
+export function buildKpiRows(field: ReportTemplateField, projectKpis: ProjectKpiSource[], existing: KpiValueRow[] = []): KpiValueRow[] {
+  const selected = field.kpiIds && field.kpiIds.length > 0
+    ? field.kpiIds
+      .map(id => projectKpis.find(kpi => kpi.id === id))
+      .filter((kpi): kpi is ProjectKpiSource => !!kpi)
+    : projectKpis;
+
+  return selected.map(kpi => ({
+    kpiId: kpi.id,
+    name: kpi.name ?? kpi.title ?? 'KPI',
+    unit: kpi.unit ?? '',
+    target: toNumber(kpi.target ?? kpi.targetValue),
+    value: toNumber(kpi.value ?? kpi.current ?? kpi.currentValue),
+    comment: existing.find(row => row.kpiId === kpi.id)?.comment ?? '',
+  }));
+}
+
+/** Financial summary for the period's year, keeping quarters up to the end of the period. */
+export function buildFinancialSummaryValue(
+  summary: FinancialSummary,
+  period: ReportingPeriod,
+  existing?: FinancialSummaryValue
+): FinancialSummaryValue {
+  const lastQuarter = period.end.getFullYear() > summary.year ? 4 : Math.floor(period.end.getMonth() / 3) + 1;
+  const quarters = (['q1', 'q2', 'q3', 'q4'] as const)
+    .slice(0, lastQuarter)
+    .map((key, index) => ({ quarter: `Q${index + 1}`, budget: summary.byQuarter[key].budget, spent: summary.byQuarter[key].spent }));
+
+  return {
+    year: summary.year,
+    totalBudget: summary.totalBudget,
+    totalSpent: summary.totalSpent,
+    variance: summary.totalVariance,
+    quarters,
+    comment: existing?.comment ?? '',
+  };
+}
+
+const isEmptyValue = (field: ReportTemplateField, value: ReportFieldValue | undefined) => {
+  if (value === undefined) return true;
+  if (typeof value === 'string') return !value.trim();
+  if (field.type === 'kpi') return (value as KpiValueRow[]).length === 0;
+  if (field.type === 'table') return !(value as string[][]).some(row => row.some(cell => cell.trim()));
+  return false;
+};
+
+/** Required fields that are still empty. */
+export function getMissingRequiredFields(template: ReportTemplate, values: ReportFieldValues): ReportTemplateField[] {
+  return template.fields.filter(field => field.required && isEmptyValue(field, values[field.id]));
+}
+
+// ========================================
+// PDF
+// ========================================
+
+export interface ReportDocumentDetails {
+  title: string;
+  projectName: string;
+  period: ReportingPeriod;
+  preparedBy: string;
+  preparedAt?: Date;
+}
+
+const formatAmount = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 0 });
+
+const formatKpiValue = (value: number | null, unit: string) =>
+  value === null ? '—' : `${value.toLocaleString('en-US')}${unit ? ` ${unit}` : ''}`;
+
+const fieldBlocks = (field: ReportTemplateField, value: ReportFieldValue | undefined): PdfBlock[] => {
+  const heading: PdfBlock = { type: 'heading', text: field.name, level: 3 };
+
+  switch (field.type) {
+    case 'kpi': {
+      const rows = (value as KpiValueRow[] | undefined) ?? [];
+      if (rows.length === 0) return [heading, { type: 'paragraph', text: 'No KPIs reported.', muted: true }];
+      return [heading, {
+        type: 'table',
+        columns: ['Indicator', 'Target', 'Achieved', '% of target', 'Comment'],
+        columnWidths: [3, 1.3, 1.3, 1, 3],
+        rows: rows.map(row => [
+          row.name,
+          formatKpiValue(row.target, row.unit),
+          formatKpiValue(row.value, row.unit),
+          row.target && row.value !== null ? `${Math.round((row.value / row.target) * 100)}%` : '—',
+          row.comment,
+        ]),
+      }];
+    }
+    case 'financial-summary': {
+      const summary = value as FinancialSummaryValue | undefined;
+      if (!summary) return [heading, { type: 'paragraph', text: 'No financial data available.', muted: true }];
+      const burnRate = summary.totalBudget > 0 ? `${Math.round((summary.totalSpent / summary.totalBudget) * 100)}%` : '—';
+      const blocks: PdfBlock[] = [
+        heading,
+        {
+          type: 'table',
+          columns: ['', 'Budget', 'Spent', 'Variance'],
+          rows: [
+            ...summary.quarters.map(q => [q.quarter, formatAmount(q.budget), formatAmount(q.spent), formatAmount(q.budget - q.spent)]),
+            [`${summary.year} total`, formatAmount(summary.totalBudget), formatAmount(summary.totalSpent), formatAmount(summary.variance)],
+          ],
+        },
+        { type: 'paragraph', text: `Burn rate: ${burnRate} of the ${summary.year} budget spent.`, muted: true },
+      ];
+      if (summary.comment.trim()) blocks.push({ type: 'paragraph', text: summary.comment });
+      return blocks;
+    }
+    case 'table': {
+      const rows = ((value as string[][] | undefined) ?? []).filter(row => row.some(cell => cell.trim()));
+      if (rows.length === 0) return [heading, { type: 'paragraph', text: 'Not provided.', muted: true }];
+      return [heading, { type: 'table', columns: field.columns ?? [], rows }];
+    }
+    case 'date': {
+      const text = typeof value === 'string' && value ? new Date(value).toLocaleDateString('en-GB') : '';
+      return [heading, { type: 'paragraph', text: text || 'Not provided.', muted: !text }];
+    }
+    default: {
+      const text = typeof value === 'string' ? value.trim() : '';
+      return [heading, { type: 'paragraph', text: text || 'Not provided.', muted: !text }];
+    }
+  }
+};
+
+/** Renders the filled-in template as a PDF: cover details, then each section with its fields. */
+export function buildReportPdf(template: ReportTemplate, values: ReportFieldValues, details: ReportDocumentDetails): Blob {
+  const preparedAt = details.preparedAt ?? new Date();
+  const blocks: PdfBlock[] = [
+    { type: 'heading', text: details.title, level: 1 },
+    {
+      type: 'table',
+      columns: ['Project', 'Reporting period', 'Prepared by', 'Date'],
+      rows: [[details.projectName, details.period.label, details.preparedBy, preparedAt.toLocaleDateString('en-GB')]],
+    },
+  ];
+  if (template.description.trim()) blocks.push({ type: 'paragraph', text: template.description, muted: true });
+
+  getTemplateSections(template).forEach(({ section, fields }) => {
+    if (fields.length === 0) return;
+    blocks.push({ type: 'heading', text: section.title, level: 2 });
+    fields.forEach(field => blocks.push(...fieldBlocks(field, values[field.id])));
+  });
+
+  return createPdfBlob(blocks, {
+    title: details.title,
+    author: details.preparedBy,
+    footer: `${details.projectName} · ${details.period.label}`,
+  });
+}
+
+/** File name for the generated PDF, e.g. "Quarterly_Donor_Report_2026-Q3.pdf". */
+export function getReportFileName(template: ReportTemplate, period: ReportingPeriod): string {
+  const base = template.name.trim().replace(/[^A-Za-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'Report';
+  return `${base}_${period.key}.pdf`;
+}
+
+// ========================================
+// DRAFTS
+// ========================================
+
+// Drafts stay in this browser until the report is submitted
+const draftKey = (projectId: string, templateId: string, periodKey: string) =>
+  `report-draft:${projectId}:${templateId}:${periodKey}`;
+
+export interface ReportDraft {
+  title: string;
+  values: ReportFieldValues;
+  savedAt: string;
+}
+
+export function loadReportDraft(projectId: string, templateId: string, periodKey: string): ReportDraft | null {
+  try {
+    const stored = localStorage.getItem(draftKey(projectId, templateId, periodKey));
+    return stored ? (JSON.parse(stored) as ReportDraft) : null;
+  } catch (error) {
+    console.error('Error loading report draft:', error);
+    return null;
+  }
+}
+
+export function saveReportDraft(projectId: string, templateId: string, periodKey: string, draft: Omit<ReportDraft, 'savedAt'>): void {
+  try {
+    localStorage.setItem(
+      draftKey(projectId, templateId, periodKey),
+      JSON.stringify({ ...draft, savedAt: new Date().toISOString() })
+    );
+  } catch (error) {
+    console.error('Error saving report draft:', error);
+  }
+}
+
+export function clearReportDraft(projectId: string, templateId: string, periodKey: string): void {
+  localStorage.removeItem(draftKey(projectId, templateId, periodKey));
+}
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApprovalChainStage, ApprovalChainTemplate, User } from '@/types/dashboard';
+import {
+  DEFAULT_APPROVAL_CHAIN_TEMPLATE,
+  approveStep,
+  createApprovalWorkflow,
+  getCurrentSteps,
+  rejectStep,
+  resolveApprovalChainTemplate,
+  skipStep,
+  validateApprovalChainTemplate,
+} from './reportWorkflowUtils';
+
+const chain = (id: string, overrides: Partial<ApprovalChainTemplate> = {}): ApprovalChainTemplate => ({
+  id,
+  name: id,
+  stages: [{ id: `${id}-stage`, name: 'Review', approvers: [{ role: 'project-admin' }], requiredApprovals: 1 }],
+  createdAt: '2026-01-01T00:00:00Z',
+  createdBy: 'admin',
+  ...overrides,
+});
+
+const user = (id: string, roleName: string): User => ({
+  id,
+  email: `${id}@example.org`,
+  firstName: id,
+  lastName: 'User',
+  isActive: true,
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  roles: [{ id: `${id}-role`, roleName, level: 1, isActive: true }],
+  projectAccess: [],
+  permissions: [],
+});
+
+describe('resolveApprovalChainTemplate', () => {
+  const organisationWide = chain('organisation');
+  const annual = chain('annual', { reportCategory: 'annual' });
+  const project = chain('project', { projectId: 'project-1' });
+  const projectAnnual = chain('project-annual', { projectId: 'project-1', reportCategory: 'annual' });
+  const otherProject = chain('other-project', { projectId: 'project-2', reportCategory: 'annual' });
+
+  it('prefers the template matching both project and category', () => {
+    const templates = [organisationWide, annual, project, projectAnnual, otherProject];
+    expect(resolveApprovalChainTemplate(templates, 'project-1', 'annual').id).toBe('project-annual');
+  });
+
+  it('prefers a project template over a category template', () => {
+    expect(resolveApprovalChainTemplate([organisationWide, annual, project], 'project-1', 'annual').id).toBe('project');
+  });
+
+  it('falls back to category, then organisation-wide templates', () => {
+    expect(resolveApprovalChainTemplate([organisationWide, annual, otherProject], 'project-1', 'annual').id).toBe('annual');
+    expect(resolveApprovalChainTemplate([organisationWide, annual, otherProject], 'project-1', 'weekly').id).toBe('organisation');
+  });
+
+  it('uses the standard chain when nothing matches or the match has no stages', () => {
+    expect(resolveApprovalChainTemplate([otherProject], 'project-1', 'annual')).toBe(DEFAULT_APPROVAL_CHAIN_TEMPLATE);
+    expect(resolveApprovalChainTemplate([chain('empty', { stages: [] })], 'project-1', 'annual')).toBe(DEFAULT_APPROVAL_CHAIN_TEMPLATE);
+  });
+});
+
+describe('validateApprovalChainTemplate', () => {
+  it('reports stages without approvers and impossible approval counts', () => {
+    const errors = validateApprovalChainTemplate(chain('x', {
+      name: ' ',
+      stages: [
+        { id: 's1', name: 'Finance', approvers: [], requiredApprovals: 1 },
+        { id: 's2', name: '', approvers: [{ role: 'project-admin' }], requiredApprovals: 2, dueInDays: -1 },
+      ],
+    }));
+    expect(errors).toEqual([
+      'Template name is required',
+      'Finance: add at least one approver',
+      'Finance: required approvals must be between 1 and the number of approvers',
+      'Stage 2: required approvals must be between 1 and the number of approvers',
+      'Stage 2: due date offset cannot be negative',
+    ]);
+  });
+});
+
+describe('approval workflow stages', () => {
+  const users = [user('finance-1', 'project-admin'), user('finance-2', 'project-admin'), user('director', 'country-admin')];
+  const stages: ApprovalChainStage[] = [
+    {
+      id: 'finance',
+      name: 'Finance review',
+      approvers: [{ role: 'project-admin', userId: 'finance-1' }, { role: 'project-admin', userId: 'finance-2' }],
+      requiredApprovals: 1,
+      dueInDays: 3,
+    },
+    { id: 'director', name: 'Country director', approvers: [{ role: 'country-admin' }], requiredApprovals: 1 },
+  ];
+  const template = chain('finance-route', { stages });
+  const newWorkflow = () => createApprovalWorkflow('report-1', 'project-1', 'author', users, template);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-02T09:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('puts every approver of the first stage in review with the stage due date', () => {
+    const workflow = newWorkflow();
+
+    expect(workflow).toMatchObject({ totalSteps: 2, currentStep: 1, status: 'in-progress', templateId: 'finance-route' });
+    expect(workflow.steps.map(step => [step.assignedUserId, step.stageNumber, step.status])).toEqual([
+      ['finance-1', 1, 'in-review'],
+      ['finance-2', 1, 'in-review'],
+      ['director', 2, 'pending'],
+    ]);
+    expect(getCurrentSteps(workflow).map(step => step.dueDate)).toEqual([
+      '2026-03-05T09:00:00.000Z',
+      '2026-03-05T09:00:00.000Z',
+    ]);
+  });
+
+  it('starts the next stage once a parallel stage has enough approvals', () => {
+    const workflow = newWorkflow();
+    const approved = approveStep(workflow, workflow.steps[0].id, 'finance-1', 'Finance One');
+
+    expect(approved.currentStep).toBe(2);
+    expect(approved.steps.map(step => step.status)).toEqual(['approved', 'skipped', 'in-review']);
+    expect(getCurrentSteps(approved).map(step => step.assignedUserId)).toEqual(['director']);
+  });
+
+  it('waits for every required approval of a stage', () => {
+    const workflow = createApprovalWorkflow('report-1', 'project-1', 'author', users, chain('both', {
+      stages: [{ ...stages[0], requiredApprovals: 2 }, stages[1]],
+    }));
+    const once = approveStep(workflow, workflow.steps[0].id, 'finance-1', 'Finance One');
+    expect(once.currentStep).toBe(1);
+    expect(once.steps.map(step => step.status)).toEqual(['approved', 'in-review', 'pending']);
+
+    const twice = approveStep(once, once.steps[1].id, 'finance-2', 'Finance Two');
+    expect(twice.currentStep).toBe(2);
+  });
+
+  it('approves the workflow after the last stage', () => {
+    const workflow = newWorkflow();
+    const finance = approveStep(workflow, workflow.steps[0].id, 'finance-1', 'Finance One');
+    const done = approveStep(finance, finance.steps[2].id, 'director', 'Director');
+
+    expect(done).toMatchObject({ status: 'approved', currentStep: 2, finalApprovedBy: 'Director' });
+    expect(getCurrentSteps(done)).toEqual([]);
+  });
+
+  it('counts a skipped step towards its stage', () => {
+    const workflow = newWorkflow();
+    const skipped = skipStep(workflow, workflow.steps[0].id, 'director', 'Director', 'Finance on leave');
+
+    expect(skipped.currentStep).toBe(2);
+    expect(skipped.steps[0].comments[0].comment).toBe('Step skipped: Finance on leave');
+  });
+
+  it('rejects the whole workflow from any step', () => {
+    const workflow = newWorkflow();
+    const rejected = rejectStep(workflow, workflow.steps[1].id, 'finance-2', 'Finance Two', 'Figures do not add up');
+
+    expect(rejected.status).toBe('rejected');
+    expect(rejected.steps[1].status).toBe('rejected');
+  });
+});
@@ -5,7 +5,8 @@ import {
   ReportApprovalStep, 
   ReportComment, 
   ReportNotification,
-  ReportTemplate 
+  ReportTemplate,
+  ApprovalChainTemplate
 } from '@/types/dashboard';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -26,6 +27,20 @@ export const APPROVAL_CHAIN = [
   'global-admin'
 ] as const;
 
+// Used when no approval chain template matches a report's project and category
+export const DEFAULT_APPROVAL_CHAIN_TEMPLATE: ApprovalChainTemplate = {
+  id: 'default',
+  name: 'Standard approval',
+  stages: APPROVAL_CHAIN.map(level => ({
+    id: `default-${level}`,
+    name: getAuthLevelDisplayName(level),
+    approvers: [{ role: level }],
+    requiredApprovals: 1
+  })),
+  createdAt: new Date(0).toISOString(),
+  createdBy: 'system'
+};
+
 /**
  * Get the next authorization level in the chain
  */
@@ -96,31 +111,154 @@ export function getUsersForAuthLevel(
 }
 
 /**
- * Create a new approval workflow for a report
+ * Pick the approval chain template for a report: project and category both matching first, then project only,
+ * then category only, then an organisation-wide template, falling back to the standard four-level chain
+ */
+export function resolveApprovalChainTemplate(
+  templates: ApprovalChainTemplate[],
+  projectId: string,
+  category: Report['category']
+): ApprovalChainTemplate {
+  const rank = (template: ApprovalChainTemplate): number => {
+    if (template.projectId && template.projectId !== projectId) return -1;
+    if (template.reportCategory && template.reportCategory !== category) return -1;
+    return (template.projectId ? 2 : 0) + (template.reportCategory ? 1 : 0);
+  };
+  return templates
+    .filter(template => template.stages.length > 0 && rank(template) >= 0)
+    .sort((a, b) => rank(b) - rank(a))[0] || DEFAULT_APPROVAL_CHAIN_TEMPLATE;
+}
+
+/**
+ * Check an approval chain template before it is saved; returns the problems found
+ */
+export function validateApprovalChainTemplate(template: ApprovalChainTemplate): string[] {
+  const errors: string[] = [];
+  if (!template.name.trim()) errors.push('Template name is required');
+  if (template.stages.length === 0) errors.push('Add at least one stage');
+  template.stages.forEach((stage, index) => {
+    const label = stage.name.trim() || `Stage ${index + 1}`;
+    if (stage.approvers.length === 0) errors.push(`${label}: add at least one approver`);
+    if (stage.requiredApprovals < 1 || stage.requiredApprovals > stage.approvers.length) {
+      errors.push(`${label}: required approvals must be between 1 and the number of approvers`);
+    }
+    if (stage.dueInDays !== undefined && stage.dueInDays < 0) errors.push(`${label}: due date offset cannot be negative`);
+  });
+  return errors;
+}
+
+// Steps from before approval chain templates have no stage and stand alone
+const getStepStage = (step: ReportApprovalStep): number => step.stageNumber ?? step.stepNumber;
+
+const getDueDate = (dueInDays: number | undefined, from: Date): string | undefined => {
+  if (dueInDays === undefined) return undefined;
+  const due = new Date(from);
+  due.setDate(due.getDate() + dueInDays);
+  return due.toISOString();
+};
+
+// Puts every step of a stage in review and starts its due dates
+function activateStage(steps: ReportApprovalStep[], stageNumber: number): ReportApprovalStep[] {
+  const now = new Date();
+  return steps.map(step => getStepStage(step) === stageNumber
+    ? {
+        ...step,
+        status: 'in-review' as const,
+        isCurrentStep: true,
+        submittedAt: now.toISOString(),
+        dueDate: getDueDate(step.dueInDays, now)
+      }
+    : step
+  );
+}
+
+// A stage is done once enough of its steps are approved (or skipped by a higher level)
+function isStageComplete(steps: ReportApprovalStep[], stageNumber: number): boolean {
+  const stageSteps = steps.filter(step => getStepStage(step) === stageNumber);
+  const done = stageSteps.filter(step => step.status === 'approved' || step.status === 'skipped').length;
+  return done >= (stageSteps[0]?.requiredApprovals ?? stageSteps.length);
+}
+
+/**
+ * Moves the workflow past `stageNumber` once it is complete: approvers of the stage who have not acted yet are no
+ * longer needed, and the next stage starts or the workflow is approved
+ */
+function advanceWorkflow(
+  workflow: ReportApprovalWorkflow,
+  steps: ReportApprovalStep[],
+  stageNumber: number,
+  userName: string
+): ReportApprovalWorkflow {
+  if (!isStageComplete(steps, stageNumber)) {
+    return { ...workflow, steps, currentStep: stageNumber };
+  }
+
+  const closedSteps = steps.map(step =>
+    getStepStage(step) === stageNumber && step.status === 'in-review'
+      ? { ...step, status: 'skipped' as const, isCurrentStep: false }
+      : step
+  );
+  const nextStage = closedSteps
+    .map(getStepStage)
+    .filter(stage => stage > stageNumber)
+    .sort((a, b) => a - b)[0];
+
+  if (nextStage === undefined) {
+    // All steps completed
+    return {
+      ...workflow,
+      steps: closedSteps,
+      currentStep: workflow.totalSteps,
+      status: 'approved',
+      finalApprovalDate: new Date().toISOString(),
+      finalApprovedBy: userName
+    };
+  }
+
+  return {
+    ...workflow,
+    steps: activateStage(closedSteps, nextStage),
+    currentStep: nextStage
+  };
+}
+
+/**
+ * Create a new approval workflow for a report from an approval chain template (the standard four-level chain by
+ * default). Each approver of a stage gets a step; steps of the same stage are reviewed in parallel.
  */
 export function createApprovalWorkflow(
   reportId: string,
   projectId: string,
   createdBy: string,
-  users: User[]
+  users: User[],
+  template: ApprovalChainTemplate = DEFAULT_APPROVAL_CHAIN_TEMPLATE
 ): ReportApprovalWorkflow {
-  const steps: ReportApprovalStep[] = APPROVAL_CHAIN.map((level, index) => {
-    const availableUsers = getUsersForAuthLevel(users, level, projectId);
-    const assignedUser = availableUsers.length > 0 ? availableUsers[0] : undefined;
-    
-    return {
-      id: uuidv4(),
-      stepNumber: index + 1,
-      requiredRole: level,
-      assignedUserId: assignedUser?.id,
-      assignedUserName: assignedUser ? `${assignedUser.firstName} ${assignedUser.lastName}` : undefined,
-      status: index === 0 ? 'in-review' : 'pending',
-      submittedAt: index === 0 ? new Date().toISOString() : undefined,
-      comments: [],
-      canSkip: false,
-      isCurrentStep: index === 0
-    };
-  });
+  let stepNumber = 0;
+  const steps: ReportApprovalStep[] = template.stages.flatMap((stage, stageIndex) =>
+    stage.approvers.map(approver => {
+      const assignedUser = approver.userId
+        ? users.find(user => user.id === approver.userId)
+        : getUsersForAuthLevel(users, approver.role, projectId)[0];
+      stepNumber++;
+
+      return {
+        id: uuidv4(),
+        stepNumber,
+        requiredRole: approver.role,
+        assignedUserId: assignedUser?.id ?? approver.userId,
+        assignedUserName: assignedUser ? `${assignedUser.firstName} ${assignedUser.lastName}` : undefined,
+        status: 'pending' as const,
+        comments: [],
+        canSkip: false,
+        isCurrentStep: false,
+        stageNumber: stageIndex + 1,
+        stageName: stage.name,
+        requiredApprovals: Math.min(Math.max(stage.requiredApprovals, 1), stage.approvers.length),
+        approverLabel: approver.label,
+        dueInDays: stage.dueInDays
+      };
+    })
+  );
 
   return {
     id: uuidv4(),
@@ -129,9 +267,11 @@ export function createApprovalWorkflow(
     createdAt: new Date().toISOString(),
     createdBy,
     currentStep: 1,
-    totalSteps: steps.length,
-    steps,
-    status: 'in-progress'
+    totalSteps: template.stages.length,
+    steps: activateStage(steps, 1),
+    status: 'in-progress',
+    templateId: template.id,
+    templateName: template.name
   };
 }
 
@@ -143,14 +283,23 @@ export function getCurrentStep(workflow: ReportApprovalWorkflow): ReportApproval
 }
 
 /**
- * Get the next step of a workflow
+ * Get every step in review; more than one when the current stage has parallel approvers
+ */
+export function getCurrentSteps(workflow: ReportApprovalWorkflow): ReportApprovalStep[] {
+  return workflow.steps.filter(step => step.isCurrentStep);
+}
+
+/**
+ * Get the next step of a workflow (the first step of the next stage)
  */
 export function getNextStep(workflow: ReportApprovalWorkflow): ReportApprovalStep | null {
   const currentStep = getCurrentStep(workflow);
   if (!currentStep) return null;
   
-  const nextStepIndex = currentStep.stepNumber;
-  return workflow.steps.find(step => step.stepNumber === nextStepIndex) || null;
+  const currentStage = getStepStage(currentStep);
+  return workflow.steps
+    .filter(step => getStepStage(step) > currentStage)
+    .sort((a, b) => a.stepNumber - b.stepNumber)[0] || null;
 }
 
 /**
@@ -187,35 +336,10 @@ export function approveStep(
     return step;
   });
 
-  // Find the next step to activate
+  // Start the next stage once this one has enough approvals
   const currentStep = updatedSteps.find(step => step.id === stepId);
-  if (currentStep) {
-    const nextStepIndex = updatedSteps.findIndex(step => step.stepNumber === currentStep.stepNumber + 1);
-    if (nextStepIndex !== -1) {
-      updatedSteps[nextStepIndex] = {
-        ...updatedSteps[nextStepIndex],
-        status: 'in-review' as const,
-        isCurrentStep: true,
-        submittedAt: new Date().toISOString()
-      };
-    } else {
-      // All steps completed
-      return {
-        ...workflow,
-        steps: updatedSteps,
-        currentStep: workflow.totalSteps,
-        status: 'approved',
-        finalApprovalDate: new Date().toISOString(),
-        finalApprovedBy: userName
-      };
-    }
-  }
-
-  return {
-    ...workflow,
-    steps: updatedSteps,
-    currentStep: (currentStep?.stepNumber || 0) + 1
-  };
+  if (!currentStep) return workflow;
+  return advanceWorkflow(workflow, updatedSteps, getStepStage(currentStep), userName);
 }
 
 /**
@@ -418,20 +542,8 @@ export function skipStep(
     return step;
   });
 
-  // Find the next step to activate
+  // A skipped step counts towards its stage like an approval
   const currentStep = updatedSteps.find(step => step.id === stepId);
-  if (currentStep) {
-    const nextStep = updatedSteps.find(step => step.stepNumber === currentStep.stepNumber + 1);
-    if (nextStep) {
-      nextStep.status = 'in-review';
-      nextStep.isCurrentStep = true;
-      nextStep.submittedAt = new Date().toISOString();
-    }
-  }
-
-  return {
-    ...workflow,
-    steps: updatedSteps,
-    currentStep: (currentStep?.stepNumber || 0) + 1
-  };
+  if (!currentStep) return workflow;
+  return advanceWorkflow(workflow, updatedSteps, getStepStage(currentStep), userName);
 }
@@ -0,0 +1,253 @@
+// Reporting Calendar Utilities
+// Turns per-project reporting schedules into dated obligations (one per reporting period), matches them with
+// submitted reports, and summarises on-time compliance per project for the organisation overview. Reminders
+// are emailed by a scheduled backend job, once per obligation and threshold; the dashboard only shows status.
+
+import { ReportingSchedule } from '@/types/dashboard';
+import { ReportingPeriod, getReportingPeriod } from '@/lib/reportTemplates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DUE_SOON_DAYS = 7;
+
+// Workflow statuses that do not count as having submitted the report
+const NOT_SUBMITTED_STATUSES = ['rejected', 'cancelled'];
+
+/** A submitted report as far as the calendar is concerned. */
+export interface SubmittedReportRecord {
+  id: string;
+  name: string;
+  projectId: string;
+  frequency: string; // Report['category']
+  submittedAt: string;
+  status: string;
+  reportingScheduleId?: string;
+  reportingPeriod?: string;
+}
+
+export const SCHEDULE_FREQUENCIES: { value: ReportingSchedule['frequency']; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'bimonthly', label: 'Bi-monthly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'bi-annual', label: 'Bi-annual' },
+  { value: 'annual', label: 'Annual' },
+];
+
+export type ObligationStatus = 'upcoming' | 'due-soon' | 'overdue' | 'submitted' | 'submitted-late';
+
+export const OBLIGATION_STATUS_LABELS: Record<ObligationStatus, string> = {
+  upcoming: 'Upcoming',
+  'due-soon': 'Due soon',
+  overdue: 'Overdue',
+  submitted: 'Submitted',
+  'submitted-late': 'Submitted late',
+};
+
+export interface ReportingObligation {
+  id: string; // Schedule id and period key
+  schedule: ReportingSchedule;
+  period: ReportingPeriod;
+  dueDate: Date; // Start of the due day; the report is late after the end of it
+  status: ObligationStatus;
+  report?: SubmittedReportRecord;
+  daysUntilDue: number; // Whole days; negative once overdue
+}
+
+// ========================================
+// REPORT RECORDS
+// ========================================
+
+/** A report workflow as reportService.getReports returns it; only the fields the calendar reads. */
+export interface ReportWorkflowSource {
+  id: string;
+  name?: string;
+  title?: string;
+  projectId?: string;
+  reportFrequency?: string;
+  frequency?: string;
+  category?: string;
+  submittedAt?: string;
+  createdAt: string;
+  status?: string;
+  reportingScheduleId?: string;
+  reportingPeriod?: string;
+}
+
+/**
+ * Records from the report list the backend returns for a project: one workflow per submitted report,
+ * with its frequency in `reportFrequency` or, for older reports, in `category`.
+ */
+export function toSubmittedReportRecords(workflows: ReportWorkflowSource[], projectId: string): SubmittedReportRecord[] {
+  return workflows.map(workflow => ({
+    id: workflow.id,
+    name: workflow.name || workflow.title || 'Report',
+    projectId: workflow.projectId || projectId,
+    frequency: String(workflow.reportFrequency || workflow.frequency || workflow.category || 'adhoc').toLowerCase(),
+    submittedAt: workflow.submittedAt || workflow.createdAt,
+    status: String(workflow.status || 'pending').toLowerCase(),
+    reportingScheduleId: workflow.reportingScheduleId,
+    reportingPeriod: workflow.reportingPeriod,
+  }));
+}
+
+// ========================================
+// OBLIGATIONS
+// ========================================
+
+const parseDay = (value: string) => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const daysBetween = (from: Date, to: Date) => Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+
+/** Due date of one period of a schedule: the donor's override, or a fixed number of days after the period. */
+export function getObligationDueDate(schedule: ReportingSchedule, period: ReportingPeriod): Date {
+  const override = schedule.dueDateOverrides?.[period.key];
+  if (override) return parseDay(override);
+  return new Date(period.end.getFullYear(), period.end.getMonth(), period.end.getDate() + schedule.dueDaysAfterPeriod);
+}
+
+const isSubmitted = (report: SubmittedReportRecord) => !NOT_SUBMITTED_STATUSES.includes(report.status);
+
+// Reports not linked to a schedule count for the earliest open period of the same frequency
+// whose window (period start until the next period's due date) contains the submission date
+const matchReport = (
+  schedule: ReportingSchedule,
+  period: ReportingPeriod,
+  dueDate: Date,
+  reports: SubmittedReportRecord[],
+  used: Set<string>
+) => {
+  const linked = reports.find(report =>
+    !used.has(report.id) &&
+    report.reportingScheduleId === schedule.id &&
+    report.reportingPeriod === period.key
+  );
+  if (linked) return linked;
+
+  const periodDays = daysBetween(period.start, period.end) + 1;
+  const windowEnd = dueDate.getTime() + periodDays * DAY_MS;
+  return reports
+    .filter(report =>
+      !used.has(report.id) &&
+      !report.reportingScheduleId &&
+      report.projectId === schedule.projectId &&
+      report.frequency === schedule.frequency
+    )
+    .sort((a, b) => new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime())
+    .find(report => {
+      const submitted = new Date(report.submittedAt).getTime();
+      return submitted >= period.start.getTime() && submitted < windowEnd;
+    });
+};
+
+const getStatus = (schedule: ReportingSchedule, dueDate: Date, now: Date, report?: SubmittedReportRecord): ObligationStatus => {
+  if (report) return daysBetween(dueDate, new Date(report.submittedAt)) > 0 ? 'submitted-late' : 'submitted';
+
+  const daysUntilDue = daysBetween(now, dueDate);
+  if (daysUntilDue < 0) return 'overdue';
+  const dueSoonDays = Math.max(DEFAULT_DUE_SOON_DAYS, ...schedule.reminderDaysBefore);
+  return daysUntilDue <= dueSoonDays ? 'due-soon' : 'upcoming';
+};
+
+/**
+ * Every obligation of the schedules with a due date between `from` and `to`, oldest first. Each submitted
+ * report counts towards at most one obligation.
+ */
+export function buildReportingObligations(
+  schedules: ReportingSchedule[],
+  reports: SubmittedReportRecord[],
+  options: { from: Date; to: Date; now?: Date }
+): ReportingObligation[] {
+  const now = options.now ?? new Date();
+  const submitted = reports.filter(isSubmitted);
+  const used = new Set<string>();
+  const obligations: ReportingObligation[] = [];
+
+  schedules
+    .filter(schedule => schedule.isActive)
+    .forEach(schedule => {
+      const scheduleStart = parseDay(schedule.startDate);
+      const scheduleEnd = schedule.endDate ? parseDay(schedule.endDate) : null;
+      let period = getReportingPeriod(schedule.frequency, scheduleStart);
+
+      while (!scheduleEnd || period.start <= scheduleEnd) {
+        const dueDate = getObligationDueDate(schedule, period);
+        if (dueDate > options.to) break;
+
+        // Earlier periods are still matched so their reports are not counted for a later one
+        const report = matchReport(schedule, period, dueDate, submitted, used);
+        if (report) used.add(report.id);
+        if (dueDate >= startOfDay(options.from)) {
+          obligations.push({
+            id: `${schedule.id}:${period.key}`,
+            schedule,
+            period,
+            dueDate,
+            status: getStatus(schedule, dueDate, now, report),
+            report,
+            daysUntilDue: daysBetween(now, dueDate),
+          });
+        }
+
+        period = getReportingPeriod(
+          schedule.frequency,
+          new Date(period.end.getFullYear(), period.end.getMonth(), period.end.getDate() + 1)
+        );
+      }
+    });
+
+  return obligations.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+}
+
+// ========================================
+// COMPLIANCE
+// ========================================
+
+export interface ReportingComplianceRow {
+  projectId: string;
+  onTime: number;
+  late: number;
+  missing: number; // Overdue and still not submitted
+  upcoming: number; // Not yet due and not yet submitted
+  complianceRate: number | null; // Share of due reports submitted on time, 0–100
+  overdue: ReportingObligation[];
+  nextDue?: ReportingObligation;
+}
+
+/** On-time compliance per project, worst first. Reports submitted early for periods not yet due count as on time. */
+export function buildReportingCompliance(obligations: ReportingObligation[]): ReportingComplianceRow[] {
+  const rows = new Map<string, ReportingComplianceRow>();
+
+  obligations.forEach(obligation => {
+    const projectId = obligation.schedule.projectId;
+    const row = rows.get(projectId) ?? { projectId, onTime: 0, late: 0, missing: 0, upcoming: 0, complianceRate: null, overdue: [] };
+
+    switch (obligation.status) {
+      case 'submitted':
+        row.onTime++;
+        break;
+      case 'submitted-late':
+        row.late++;
+        break;
+      case 'overdue':
+        row.missing++;
+        row.overdue.push(obligation);
+        break;
+      default:
+        row.upcoming++;
+        if (!row.nextDue) row.nextDue = obligation;
+    }
+    rows.set(projectId, row);
+  });
+
+  return Array.from(rows.values())
+    .map(row => {
+      const due = row.onTime + row.late + row.missing;
+      return { ...row, complianceRate: due > 0 ? Math.round((row.onTime / due) * 100) : null };
+    })
+    .sort((a, b) => b.missing - a.missing || (a.complianceRate ?? 101) - (b.complianceRate ?? 101));
+}
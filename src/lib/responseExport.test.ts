@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { Form, FormQuestion, FormSection } from '@/components/dashboard/form-creation-wizard/types';
+import { ResponseExportRecord, buildResponsesWorkbook, buildSpssExport } from './responseExport';
+
+const base = { isRequired: false, validationRules: [], dataType: 'TEXT' as const, description: '' };
+
+const questions: FormQuestion[] = [
+  { ...base, id: 'age', type: 'NUMBER', title: 'Age', order: 1 },
+  {
+    ...base,
+    id: 'water',
+    type: 'SINGLE_CHOICE',
+    title: "Household's water source",
+    order: 2,
+    displayType: 'RADIO',
+    allowOther: true,
+    options: [
+      { id: 'o1', label: 'Piped', value: 'piped' },
+      { id: 'o2', label: 'Well', value: 'well' },
+    ],
+  },
+  {
+    ...base,
+    id: 'services',
+    type: 'MULTIPLE_CHOICE',
+    title: 'Services',
+    order: 3,
+    displayType: 'RADIO',
+    options: [
+      { id: 'o3', label: 'Health', value: 1 },
+      { id: 'o4', label: 'Education', value: 2 },
+    ],
+  },
+  { ...base, id: 'visit', type: 'DATE', title: 'Visit date', order: 4 },
+];
+
+const members: FormSection = {
+  id: 'members',
+  title: 'Members',
+  order: 2,
+  conditional: { repeatable: true },
+  questions: [{ ...base, id: 'name', type: 'SHORT_TEXT', title: 'Name', order: 1 }],
+};
+
+const form: Form = {
+  id: 'form-1',
+  title: 'Household Survey',
+  projectId: 'project-1',
+  createdBy: 'user-1',
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-01-01'),
+  status: 'PUBLISHED',
+  version: 1,
+  sections: [{ id: 'main', title: 'Main', order: 1, questions }, members],
+  settings: { requireAuthentication: false, thankYouMessage: 'Thanks', notificationEmails: [] },
+  responseCount: 2,
+  tags: [],
+};
+
+const records: ResponseExportRecord[] = [
+  {
+    id: 'r1',
+    respondentEmail: 'a@example.org',
+    isComplete: true,
+    startedAt: '2026-03-01T10:00:00',
+    submittedAt: '2026-03-01T10:12:00',
+    values: { age: '34', water: 'well', services: [1, 2], visit: '2026-02-28' },
+    instances: { members: [{ name: 'Amina' }, { name: 'Joseph, Jr.' }] },
+  },
+  {
+    id: 'r2',
+    isComplete: false,
+    startedAt: null,
+    submittedAt: null,
+    values: { water: 'river' },
+    instances: {},
+  },
+];
+
+describe('buildSpssExport', () => {
+  const spss = buildSpssExport(form, records);
+  const [header, first, second] = spss.data.split('\r\n');
+
+  it('names the files after the form', () => {
+    expect(spss.syntaxFileName).toBe('Household_Survey_responses.sps');
+    expect(spss.dataFileName).toBe('Household_Survey_responses.csv');
+    expect(spss.syntax).toContain("/FILE='Household_Survey_responses.csv'");
+  });
+
+  it('writes one variable per column, repeat instances wide', () => {
+    expect(header).toBe([
+      'submission_id', 'email', 'complete', 'submitted_at', 'completion_minutes',
+      'Age', 'Household_s_water_source', 'Household_s_water_source_other',
+      'Services_1', 'Services_2', 'Visit_date', 'Name_1', 'Name_2',
+    ].join(','));
+  });
+
+  it('codes choices and keeps other answers in their own variable', () => {
+    expect(first).toBe('r1,a@example.org,1,01-MAR-2026 10:12:00,12,34,2,,1,1,02/28/2026,Amina,"Joseph, Jr."');
+    expect(second).toBe('r2,,0,,,,,river,,,,,');
+  });
+
+  it('declares formats, labels and measurement levels', () => {
+    expect(spss.syntax).toContain('    Age F8.0');
+    expect(spss.syntax).toContain('    Visit_date ADATE10');
+    expect(spss.syntax).toContain("Household_s_water_source 'Household''s water source'");
+    expect(spss.syntax).toMatch(/Household_s_water_source\n {4}1 'Piped'\n {4}2 'Well'/);
+    expect(spss.syntax).toContain("Services_1 'Services - Health'");
+    expect(spss.syntax).toMatch(/VARIABLE LEVEL .*Household_s_water_source.* \(NOMINAL\)/);
+    expect(spss.syntax).toMatch(/Age .*\(SCALE\)/);
+  });
+});
+
+describe('buildResponsesWorkbook', () => {
+  it('writes typed cells and a sheet per repeatable section', () => {
+    const workbook = buildResponsesWorkbook(form, records, { choiceFormat: 'LABELS' });
+    expect(workbook.SheetNames).toEqual(['Responses', 'Members']);
+
+    const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets.Responses);
+    expect(rows[0]).toMatchObject({ 'Submission ID': 'r1', Age: 34, "Household's water source": 'Well', Services: 'Health; Education' });
+    expect(rows[1]).toMatchObject({ 'Submission ID': 'r2', Email: 'Anonymous', Status: 'Incomplete' });
+
+    const instances = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets.Members);
+    expect(instances).toEqual([
+      { 'Submission ID': 'r1', Instance: 1, Name: 'Amina' },
+      { 'Submission ID': 'r1', Instance: 2, Name: 'Joseph, Jr.' },
+    ]);
+  });
+
+  it('writes choice values when asked to', () => {
+    const workbook = buildResponsesWorkbook(form, records, { choiceFormat: 'VALUES' });
+    const [row] = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets.Responses);
+    expect(row).toMatchObject({ "Household's water source": 'well', Services: '1; 2' });
+  });
+});
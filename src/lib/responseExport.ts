@@ -0,0 +1,694 @@
+// Form Response Export Utilities
+// Builds analyst-facing exports of form responses: an XLSX workbook (main sheet plus one
+// sheet per repeatable section, linked by submission ID) with typed cells, and an SPSS
+// export made of a syntax file (.sps) and the comma-separated data file it reads.
+
+import * as XLSX from 'xlsx';
+import {
+  Form,
+  FormQuestion,
+  ChoiceOption,
+  LikertScaleQuestion,
+  LikertScaleStatement,
+  MediaAttachment,
+} from '@/components/dashboard/form-creation-wizard/types';
+import { getLanguageName, isMultilingualForm } from '@/lib/formTranslations';
+
+export interface ResponseExportRecord {
+  id: string;
+  respondentEmail?: string;
+  isComplete: boolean;
+  language?: string; // Language code the form was filled in
+  submittedAt: Date | string | null;
+  startedAt: Date | string | null;
+  values: Record<string, unknown>; // Answers of non-repeatable questions by question ID
+  instances: Record<string, Array<Record<string, unknown>>>; // Repeatable section ID -> answers per instance
+  attachments?: MediaAttachment[];
+}
+
+export interface ResponseExportOptions {
+  choiceFormat: 'LABELS' | 'VALUES'; // How choice answers are written to the XLSX workbook
+}
+
+export interface SpssExport {
+  syntax: string;
+  data: string;
+  syntaxFileName: string;
+  dataFileName: string;
+}
+
+type ColumnKind = 'TEXT' | 'NUMBER' | 'DATE' | 'DATETIME' | 'BOOLEAN' | 'CHOICE' | 'MULTI_CHOICE';
+
+interface ValueLabel {
+  value: string | number;
+  label: string;
+}
+
+interface ExportColumn {
+  questionId: string;
+  header: string;
+  baseName: string; // Seed for the SPSS variable name
+  kind: ColumnKind;
+  options?: ValueLabel[];
+  allowOther?: boolean;
+  ordinal?: boolean;
+  extract: (answer: unknown, attachments: MediaAttachment[]) => unknown;
+}
+
+// Stored media answer: an uploaded file or a link
+interface MediaAnswerItem {
+  type?: string;
+  url?: string;
+  label?: string;
+  fileName?: string;
+  name?: string;
+  originalName?: string;
+  fileSize?: number;
+  size?: number;
+}
+
+interface ExportSection {
+  id: string;
+  title: string;
+  columns: ExportColumn[];
+}
+
+const MEDIA_TYPES = new Set(['IMAGE_UPLOAD', 'VIDEO_UPLOAD', 'AUDIO_UPLOAD', 'FILE_UPLOAD']);
+
+const SPSS_RESERVED = new Set(['ALL', 'AND', 'BY', 'EQ', 'GE', 'GT', 'LE', 'LT', 'NE', 'NOT', 'OR', 'TO', 'WITH']);
+
+// Days between the spreadsheet epoch (1899-12-30) and the Unix epoch
+const EXCEL_EPOCH_OFFSET = 25569;
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// ========================================
+// SHARED HELPERS
+// ========================================
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const toNumber = (value: unknown): number | null => {
+  if (isEmpty(value) || typeof value === 'boolean') return null;
+  const parsed = typeof value === 'number' ? value : Number(String(value).trim());
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Date-only answers ("2024-05-01") are read as calendar dates so they do not shift with the time zone
+const toDate = (value: unknown): Date | null => {
+  if (isEmpty(value)) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  const text = String(value);
+  const dateOnly = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = dateOnly
+    ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]))
+    : new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const toBoolean = (value: unknown): boolean | null => {
+  if (isEmpty(value)) return null;
+  if (typeof value === 'boolean') return value;
+  const text = String(value).trim().toLowerCase();
+  if (['true', 'yes', '1'].includes(text)) return true;
+  if (['false', 'no', '0'].includes(text)) return false;
+  return null;
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const getCompletionMinutes = (record: ResponseExportRecord): number | null => {
+  const started = toDate(record.startedAt);
+  const submitted = toDate(record.submittedAt);
+  if (!started || !submitted) return null;
+  return Math.round((submitted.getTime() - started.getTime()) / (1000 * 60));
+};
+
+const formatFileSize = (bytes: number) => {
+  if (!bytes) return '0 B';
+  const units = ['B', 'KB', 'MB', 'GB'];
+  const index = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+  return `${(bytes / Math.pow(1024, index)).toFixed(index === 0 ? 0 : 1)} ${units[index]}`;
+};
+
+const describeMedia = (value: unknown, attachments: MediaAttachment[]): string => {
+  const items = Array.isArray(value) ? value : isEmpty(value) ? [] : [value];
+  const parts = items.map((entry: unknown) => {
+    if (typeof entry === 'string') return entry;
+    const item = (entry || {}) as MediaAnswerItem;
+    if (item.type === 'link' || (item?.url && !item.fileName && !item.name)) {
+      return `Link: ${item.label || item.url} → ${item.url}`;
+    }
+    const fileName = item.fileName || item.name || item.originalName || 'Unknown file';
+    return `${fileName} (${formatFileSize(item.fileSize || item.size || 0)})`;
+  });
+  attachments.forEach(attachment => {
+    parts.push(`${attachment.fileName} (${formatFileSize(attachment.fileSize)})`);
+  });
+  return parts.join('; ');
+};
+
+const getLikertScaleOptions = (question: LikertScaleQuestion, statement: LikertScaleStatement): ValueLabel[] => {
+  const labels = statement.customLabels || {};
+  switch (statement.scaleType) {
+    case '3_POINT':
+      return [
+        { value: 1, label: labels.negative || question.defaultLabels?.negative || 'Disagree' },
+        { value: 2, label: labels.neutral || question.defaultLabels?.neutral || 'Neutral' },
+        { value: 3, label: labels.positive || question.defaultLabels?.positive || 'Agree' },
+      ];
+    case '7_POINT':
+      return [
+        { value: 1, label: 'Strongly disagree' },
+        { value: 2, label: 'Disagree' },
+        { value: 3, label: 'Somewhat disagree' },
+        { value: 4, label: 'Neither agree nor disagree' },
+        { value: 5, label: 'Somewhat agree' },
+        { value: 6, label: 'Agree' },
+        { value: 7, label: 'Strongly agree' },
+      ];
+    default:
+      return [
+        { value: 1, label: 'Strongly disagree' },
+        { value: 2, label: 'Disagree' },
+        { value: 3, label: 'Neither agree nor disagree' },
+        { value: 4, label: 'Agree' },
+        { value: 5, label: 'Strongly agree' },
+      ];
+  }
+};
+
+const getOptions = (question: FormQuestion): ChoiceOption[] => ('options' in question && question.options) || [];
+
+const getChoiceOptions = (question: FormQuestion): ValueLabel[] =>
+  getOptions(question)
+    .filter(option => !option.isOther)
+    .map(option => ({ value: option.value, label: option.label || String(option.value) }));
+
+// ========================================
+// COLUMN MODEL
+// ========================================
+
+const getQuestionColumns = (question: FormQuestion, header: string): ExportColumn[] => {
+  const column = (overrides: Partial<ExportColumn> & Pick<ExportColumn, 'kind'>): ExportColumn => ({
+    questionId: question.id,
+    header,
+    baseName: question.title || question.id,
+    extract: (answer: unknown) => answer,
+    ...overrides,
+  });
+
+  switch (question.type) {
+    case 'NUMBER':
+    case 'SLIDER':
+      return [column({ kind: 'NUMBER' })];
+    case 'DATE':
+      return [column({ kind: 'DATE' })];
+    case 'DATETIME':
+      return [column({ kind: 'DATETIME' })];
+    case 'SINGLE_CHOICE':
+    case 'YES_NO':
+      return [column({
+        kind: 'CHOICE',
+        options: getChoiceOptions(question),
+        allowOther: question.type === 'SINGLE_CHOICE' && !!question.allowOther,
+      })];
+    case 'MULTIPLE_CHOICE':
+      return [column({
+        kind: 'MULTI_CHOICE',
+        options: getChoiceOptions(question),
+        allowOther: !!question.allowOther,
+        extract: (answer: unknown) => (isEmpty(answer) ? [] : Array.isArray(answer) ? answer : [answer]),
+      })];
+    case 'LIKERT_SCALE':
+      return (question.statements || []).map((statement, index) => column({
+        header: `${header} - ${statement.text || `Statement ${index + 1}`}`,
+        baseName: `${question.title || question.id} ${index + 1}`,
+        kind: 'CHOICE',
+        ordinal: true,
+        options: getLikertScaleOptions(question, statement),
+        extract: (answer: unknown) => (answer && typeof answer === 'object' ? (answer as Record<string, unknown>)[statement.id] : undefined),
+      }));
+    case 'LOCATION': {
+      const part = (label: string, kind: ColumnKind, read: (location: Record<string, unknown>) => unknown) => column({
+        header: `${header} - ${label}`,
+        baseName: `${question.title || question.id} ${label}`,
+        kind,
+        extract: (answer: unknown) => (answer && typeof answer === 'object' ? read(answer as Record<string, unknown>) : undefined),
+      });
+      return [
+        part('Latitude', 'NUMBER', location => location.latitude ?? location.lat),
+        part('Longitude', 'NUMBER', location => location.longitude ?? location.lng),
+        part('Accuracy', 'NUMBER', location => location.accuracy),
+        part('Address', 'TEXT', location => location.address),
+      ];
+    }
+    case 'CALCULATED': {
+      const kinds: Record<string, ColumnKind> = { NUMBER: 'NUMBER', DATE: 'DATE', BOOLEAN: 'BOOLEAN', TEXT: 'TEXT' };
+      return [column({ kind: kinds[question.resultType] || 'NUMBER' })];
+    }
+    default:
+      if (MEDIA_TYPES.has(question.type)) {
+        return [column({ kind: 'TEXT', extract: (answer, attachments) => describeMedia(answer, attachments) })];
+      }
+      return [column({ kind: 'TEXT' })];
+  }
+};
+
+// Main questions followed by the conditional questions of each of their options, as in the viewer
+const getSectionColumns = (questions: FormQuestion[]): ExportColumn[] => {
+  const columns: ExportColumn[] = [];
+  questions.forEach(question => {
+    columns.push(...getQuestionColumns(question, question.title));
+    getOptions(question).forEach(option => {
+      (option.conditionalQuestions || []).forEach(conditionalQuestion => {
+        columns.push(...getQuestionColumns(
+          conditionalQuestion,
+          `${conditionalQuestion.title} (Conditional: ${question.title} → ${option.label})`
+        ));
+      });
+    });
+  });
+  return columns;
+};
+
+const getExportLayout = (form: Form): { main: ExportColumn[]; repeatable: ExportSection[] } => {
+  const main: ExportColumn[] = [];
+  const repeatable: ExportSection[] = [];
+  form.sections.forEach(section => {
+    const columns = getSectionColumns(section.questions || []);
+    if (section.conditional?.repeatable) {
+      repeatable.push({ id: section.id, title: section.title, columns });
+    } else {
+      main.push(...columns);
+    }
+  });
+  return { main, repeatable };
+};
+
+const readColumn = (column: ExportColumn, answers: Record<string, unknown>, attachments: MediaAttachment[]) =>
+  column.extract(answers[column.questionId], attachments.filter(a => a.questionId === column.questionId));
+
+// ========================================
+// XLSX
+// ========================================
+
+const toSerialDate = (date: Date, includeTime: boolean): number => {
+  const utc = Date.UTC(
+    date.getFullYear(), date.getMonth(), date.getDate(),
+    includeTime ? date.getHours() : 0, includeTime ? date.getMinutes() : 0, includeTime ? date.getSeconds() : 0
+  );
+  return utc / 86400000 + EXCEL_EPOCH_OFFSET;
+};
+
+const labelFor = (column: ExportColumn, value: unknown): string => {
+  const option = column.options?.find(o => String(o.value) === String(value));
+  return option ? option.label : String(value);
+};
+
+const toCell = (column: ExportColumn, value: unknown, options: ResponseExportOptions): XLSX.CellObject | null => {
+  if (isEmpty(value)) return null;
+
+  switch (column.kind) {
+    case 'NUMBER': {
+      const number = toNumber(value);
+      return number === null ? { t: 's', v: String(value) } : { t: 'n', v: number };
+    }
+    case 'DATE':
+    case 'DATETIME': {
+      const date = toDate(value);
+      if (!date) return { t: 's', v: String(value) };
+      const withTime = column.kind === 'DATETIME';
+      return { t: 'n', v: toSerialDate(date, withTime), z: withTime ? 'yyyy-mm-dd hh:mm' : 'yyyy-mm-dd' };
+    }
+    case 'BOOLEAN': {
+      const bool = toBoolean(value);
+      return bool === null ? { t: 's', v: String(value) } : { t: 'b', v: bool };
+    }
+    case 'CHOICE': {
+      if (options.choiceFormat === 'LABELS') return { t: 's', v: labelFor(column, value) };
+      const number = toNumber(value);
+      return number === null ? { t: 's', v: String(value) } : { t: 'n', v: number };
+    }
+    case 'MULTI_CHOICE': {
+      const selected = (value as unknown[]).map(item => (options.choiceFormat === 'LABELS' ? labelFor(column, item) : String(item)));
+      return { t: 's', v: selected.join('; ') };
+    }
+    default:
+      return { t: 's', v: typeof value === 'object' ? JSON.stringify(value) : String(value) };
+  }
+};
+
+const buildSheet = (headers: string[], rows: Array<Array<XLSX.CellObject | null>>): XLSX.WorkSheet => {
+  const sheet: XLSX.WorkSheet = {};
+  headers.forEach((header, c) => {
+    sheet[XLSX.utils.encode_cell({ r: 0, c })] = { t: 's', v: header };
+  });
+  rows.forEach((row, r) => {
+    row.forEach((cell, c) => {
+      if (cell) sheet[XLSX.utils.encode_cell({ r: r + 1, c })] = cell;
+    });
+  });
+  sheet['!ref'] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: rows.length, c: Math.max(headers.length - 1, 0) } });
+  sheet['!cols'] = headers.map(header => ({ wch: Math.min(Math.max(header.length, 10), 50) }));
+  return sheet;
+};
+
+const getSheetName = (title: string, used: Set<string>): string => {
+  const base = (title.replace(/[[\]:*?/\\]/g, ' ').trim() || 'Section').slice(0, 31);
+  let name = base;
+  for (let n = 2; used.has(name.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    name = `${base.slice(0, 31 - suffix.length)}${suffix}`;
+  }
+  used.add(name.toLowerCase());
+  return name;
+};
+
+/**
+ * Build an XLSX workbook of the responses. Non-repeatable answers go to the "Responses"
+ * sheet (one row per submission); each repeatable section gets its own sheet with one row
+ * per instance, linked back through the Submission ID column.
+ */
+export function buildResponsesWorkbook(
+  form: Form,
+  records: ResponseExportRecord[],
+  options: ResponseExportOptions
+): XLSX.WorkBook {
+  const { main, repeatable } = getExportLayout(form);
+  const workbook = XLSX.utils.book_new();
+  const usedNames = new Set<string>();
+  const includeLanguage = isMultilingualForm(form);
+
+  const mainHeaders = [
+    'Submission ID', 'Email', 'Status', ...(includeLanguage ? ['Language'] : []), 'Submitted At', 'Completion Time (minutes)',
+    ...main.map(c => c.header),
+  ];
+  const mainRows = records.map(record => {
+    const submittedAt = toDate(record.submittedAt);
+    const completion = getCompletionMinutes(record);
+    const attachments = record.attachments || [];
+    return [
+      { t: 's', v: record.id } as XLSX.CellObject,
+      { t: 's', v: record.respondentEmail || 'Anonymous' } as XLSX.CellObject,
+      { t: 's', v: record.isComplete ? 'Complete' : 'Incomplete' } as XLSX.CellObject,
+      ...(includeLanguage ? [record.language ? { t: 's', v: getLanguageName(record.language) } as XLSX.CellObject : null] : []),
+      submittedAt ? { t: 'n', v: toSerialDate(submittedAt, true), z: 'yyyy-mm-dd hh:mm' } as XLSX.CellObject : null,
+      completion === null ? null : { t: 'n', v: completion } as XLSX.CellObject,
+      ...main.map(column => toCell(column, readColumn(column, record.values, attachments), options)),
+    ];
+  });
+  XLSX.utils.book_append_sheet(workbook, buildSheet(mainHeaders, mainRows), getSheetName('Responses', usedNames));
+
+  repeatable.forEach(section => {
+    const headers = ['Submission ID', 'Instance', ...section.columns.map(c => c.header)];
+    const rows: Array<Array<XLSX.CellObject | null>> = [];
+    records.forEach(record => {
+      (record.instances[section.id] || []).forEach((answers, index) => {
+        rows.push([
+          { t: 's', v: record.id },
+          { t: 'n', v: index + 1 },
+          ...section.columns.map(column => toCell(column, readColumn(column, answers, record.attachments || []), options)),
+        ]);
+      });
+    });
+    XLSX.utils.book_append_sheet(workbook, buildSheet(headers, rows), getSheetName(section.title, usedNames));
+  });
+
+  return workbook;
+}
+
+// ========================================
+// SPSS
+// ========================================
+
+interface SpssVariable {
+  name: string;
+  label: string;
+  format: string; // e.g. F8.2, A40, ADATE10
+  level: 'NOMINAL' | 'ORDINAL' | 'SCALE';
+  valueLabels?: ValueLabel[];
+  values: string[]; // Already formatted for the data file, '' for missing
+}
+
+const createVariableNamer = () => {
+  const used = new Set<string>();
+  return (text: string): string => {
+    let base = text
+      .replace(/[^A-Za-z0-9_]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .slice(0, 32);
+    if (!/^[A-Za-z]/.test(base)) base = `v_${base}`.slice(0, 32);
+    if (SPSS_RESERVED.has(base.toUpperCase())) base = `${base}_`;
+    let name = base;
+    for (let n = 2; used.has(name.toUpperCase()); n++) {
+      const suffix = `_${n}`;
+      name = `${base.slice(0, 32 - suffix.length)}${suffix}`;
+    }
+    used.add(name.toUpperCase());
+    return name;
+  };
+};
+
+const quoteSpss = (text: string, maxLength: number): string =>
+  `'${text.replace(/\s+/g, ' ').trim().slice(0, maxLength).replace(/'/g, "''")}'`;
+
+const quoteCsv = (value: string): string =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const formatSpssNumber = (value: number | null): string => (value === null ? '' : String(value));
+
+const formatSpssDate = (date: Date | null): string =>
+  date ? `${pad(date.getMonth() + 1)}/${pad(date.getDate())}/${date.getFullYear()}` : '';
+
+const formatSpssDateTime = (date: Date | null): string =>
+  date
+    ? `${pad(date.getDate())}-${MONTHS[date.getMonth()]}-${date.getFullYear()} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+    : '';
+
+const numericFormat = (values: string[]): string => {
+  const decimals = Math.min(
+    values.reduce((max, value) => Math.max(max, value.includes('.') ? value.split('.')[1].length : 0), 0),
+    6
+  );
+  const integerWidth = values.reduce((max, value) => Math.max(max, value.split('.')[0].length), 1);
+  return `F${Math.max(integerWidth + decimals + (decimals ? 1 : 0), 8)}.${decimals}`;
+};
+
+const stringFormat = (values: string[]): string =>
+  `A${Math.min(Math.max(...values.map(value => new TextEncoder().encode(value).length), 1), 32767)}`;
+
+// Choice values become numeric codes: the option values when they are all numeric, else 1..n in option order
+const getChoiceCoding = (options: ValueLabel[]): ValueLabel[] => {
+  const numeric = options.length > 0 && options.every(option => toNumber(option.value) !== null);
+  return options.map((option, index) => ({
+    value: numeric ? (toNumber(option.value) as number) : index + 1,
+    label: option.label,
+  }));
+};
+
+const buildColumnVariables = (
+  column: ExportColumn,
+  read: (record: ResponseExportRecord) => unknown,
+  records: ResponseExportRecord[],
+  nameFor: (text: string) => string,
+  labelSuffix: string,
+  nameSuffix: string
+): SpssVariable[] => {
+  const label = `${column.header}${labelSuffix}`;
+  const answers = records.map(read);
+
+  switch (column.kind) {
+    case 'NUMBER': {
+      const values = answers.map(answer => formatSpssNumber(toNumber(answer)));
+      return [{ name: nameFor(`${column.baseName}${nameSuffix}`), label, format: numericFormat(values), level: 'SCALE', values }];
+    }
+    case 'DATE':
+      return [{
+        name: nameFor(`${column.baseName}${nameSuffix}`), label, format: 'ADATE10', level: 'SCALE',
+        values: answers.map(answer => formatSpssDate(toDate(answer))),
+      }];
+    case 'DATETIME':
+      return [{
+        name: nameFor(`${column.baseName}${nameSuffix}`), label, format: 'DATETIME20', level: 'SCALE',
+        values: answers.map(answer => formatSpssDateTime(toDate(answer))),
+      }];
+    case 'BOOLEAN':
+      return [{
+        name: nameFor(`${column.baseName}${nameSuffix}`), label, format: 'F1.0', level: 'NOMINAL',
+        valueLabels: [{ value: 0, label: 'No' }, { value: 1, label: 'Yes' }],
+        values: answers.map(answer => {
+          const bool = toBoolean(answer);
+          return bool === null ? '' : bool ? '1' : '0';
+        }),
+      }];
+    case 'CHOICE': {
+      const options = column.options || [];
+      const coding = getChoiceCoding(options);
+      const codeFor = (answer: unknown): string => {
+        const index = options.findIndex(option => String(option.value) === String(answer));
+        return index === -1 ? '' : String(coding[index].value);
+      };
+      const codes = answers.map(answer => (isEmpty(answer) ? '' : codeFor(answer)));
+      const variables: SpssVariable[] = [{
+        name: nameFor(`${column.baseName}${nameSuffix}`), label, format: numericFormat(codes),
+        level: column.ordinal ? 'ORDINAL' : 'NOMINAL', valueLabels: coding, values: codes,
+      }];
+      if (column.allowOther) {
+        const others = answers.map(answer => (!isEmpty(answer) && codeFor(answer) === '' ? String(answer) : ''));
+        variables.push({
+          name: nameFor(`${column.baseName}_other${nameSuffix}`), label: `${label} - Other`,
+          format: stringFormat(others), level: 'NOMINAL', values: others,
+        });
+      }
+      return variables;
+    }
+    case 'MULTI_CHOICE': {
+      // One 0/1 variable per option (multiple dichotomy set)
+      const options = column.options || [];
+      const selections = answers.map(answer => (Array.isArray(answer) ? answer.map(String) : []));
+      const variables: SpssVariable[] = options.map(option => ({
+        name: nameFor(`${column.baseName}_${option.value}${nameSuffix}`),
+        label: `${label} - ${option.label}`,
+        format: 'F1.0',
+        level: 'NOMINAL',
+        valueLabels: [{ value: 0, label: 'Not selected' }, { value: 1, label: 'Selected' }],
+        values: selections.map((selected, index) =>
+          isEmpty(answers[index]) ? '' : selected.includes(String(option.value)) ? '1' : '0'
+        ),
+      }));
+      if (column.allowOther) {
+        const known = new Set(options.map(option => String(option.value)));
+        const others = selections.map(selected => selected.filter(value => !known.has(value)).join('; '));
+        variables.push({
+          name: nameFor(`${column.baseName}_other${nameSuffix}`), label: `${label} - Other`,
+          format: stringFormat(others), level: 'NOMINAL', values: others,
+        });
+      }
+      return variables;
+    }
+    default: {
+      const values = answers.map(answer =>
+        isEmpty(answer) ? '' : typeof answer === 'object' ? JSON.stringify(answer) : String(answer)
+      );
+      return [{ name: nameFor(`${column.baseName}${nameSuffix}`), label, format: stringFormat(values), level: 'NOMINAL', values }];
+    }
+  }
+};
+
+const getFileBaseName = (form: Form) => form.title.replace(/[^a-z0-9]/gi, '_') || 'form';
+
+export const getResponseExportFileName = (form: Form, extension: string) =>
+  `${getFileBaseName(form)}_responses.${extension}`;
+
+/**
+ * Build an SPSS export: a comma-separated data file plus syntax that reads it and applies
+ * variable labels (question titles), value labels (choice options) and measurement levels.
+ * Repeatable sections are written wide, one set of variables per instance.
+ */
+export function buildSpssExport(form: Form, records: ResponseExportRecord[]): SpssExport {
+  const { main, repeatable } = getExportLayout(form);
+  const nameFor = createVariableNamer();
+  const attachmentsOf = (record: ResponseExportRecord) => record.attachments || [];
+
+  const variables: SpssVariable[] = [];
+  const ids = records.map(record => record.id);
+  const emails = records.map(record => record.respondentEmail || '');
+  const completion = records.map(record => formatSpssNumber(getCompletionMinutes(record)));
+  variables.push(
+    { name: nameFor('submission_id'), label: 'Submission ID', format: stringFormat(ids), level: 'NOMINAL', values: ids },
+    { name: nameFor('email'), label: 'Respondent email', format: stringFormat(emails), level: 'NOMINAL', values: emails },
+    {
+      name: nameFor('complete'), label: 'Response status', format: 'F1.0', level: 'NOMINAL',
+      valueLabels: [{ value: 0, label: 'Incomplete' }, { value: 1, label: 'Complete' }],
+      values: records.map(record => (record.isComplete ? '1' : '0')),
+    }
+  );
+  if (isMultilingualForm(form)) {
+    const languages = records.map(record => record.language || '');
+    variables.push({ name: nameFor('language'), label: 'Response language', format: stringFormat(languages), level: 'NOMINAL', values: languages });
+  }
+  variables.push(
+    {
+      name: nameFor('submitted_at'), label: 'Submitted at', format: 'DATETIME20', level: 'SCALE',
+      values: records.map(record => formatSpssDateTime(toDate(record.submittedAt))),
+    },
+    { name: nameFor('completion_minutes'), label: 'Completion time (minutes)', format: numericFormat(completion), level: 'SCALE', values: completion }
+  );
+
+  main.forEach(column => {
+    variables.push(...buildColumnVariables(
+      column,
+      record => readColumn(column, record.values, attachmentsOf(record)),
+      records, nameFor, '', ''
+    ));
+  });
+
+  repeatable.forEach(section => {
+    const instanceCount = records.reduce((max, record) => Math.max(max, (record.instances[section.id] || []).length), 0);
+    for (let index = 0; index < instanceCount; index++) {
+      section.columns.forEach(column => {
+        variables.push(...buildColumnVariables(
+          column,
+          record => readColumn(column, record.instances[section.id]?.[index] || {}, attachmentsOf(record)),
+          records, nameFor, ` (Instance ${index + 1})`, `_${index + 1}`
+        ));
+      });
+    }
+  });
+
+  const dataFileName = getResponseExportFileName(form, 'csv');
+  const data = [
+    variables.map(variable => variable.name).join(','),
+    ...records.map((_, row) => variables.map(variable => quoteCsv(variable.values[row])).join(',')),
+  ].join('\r\n');
+
+  const labelled = variables.filter(variable => variable.valueLabels && variable.valueLabels.length > 0);
+  const levels = (['NOMINAL', 'ORDINAL', 'SCALE'] as const)
+    .map(level => ({ level, names: variables.filter(variable => variable.level === level).map(variable => variable.name) }))
+    .filter(group => group.names.length > 0);
+
+  const syntax = [
+    `* Encoding: UTF-8.`,
+    `* ${form.title.replace(/\s+/g, ' ')} - exported ${new Date().toISOString()}.`,
+    `* Keep this file in the same folder as ${dataFileName} (or edit the FILE path below) and run all.`,
+    '',
+    'GET DATA',
+    '  /TYPE=TXT',
+    `  /FILE=${quoteSpss(dataFileName, 255)}`,
+    "  /ENCODING='UTF8'",
+    '  /ARRANGEMENT=DELIMITED',
+    '  /DELCASE=LINE',
+    '  /FIRSTCASE=2',
+    '  /DELIMITERS=","',
+    "  /QUALIFIER='\"'",
+    '  /VARIABLES=',
+    ...variables.map(variable => `    ${variable.name} ${variable.format}`),
+    '.',
+    '',
+    'VARIABLE LABELS',
+    `  ${variables.map(variable => `${variable.name} ${quoteSpss(variable.label, 256)}`).join('\n  /')}`,
+    '.',
+    ...(labelled.length > 0 ? [
+      '',
+      'VALUE LABELS',
+      `  ${labelled.map(variable =>
+        `${variable.name}\n${variable.valueLabels!.map(v => `    ${v.value} ${quoteSpss(v.label, 120)}`).join('\n')}`
+      ).join('\n  /')}`,
+      '.',
+    ] : []),
+    '',
+    `VARIABLE LEVEL ${levels.map(group => `${group.names.join(' ')} (${group.level})`).join('\n  /')}.`,
+    '',
+    'EXECUTE.',
+    '',
+  ].join('\n');
+
+  return {
+    syntax,
+    data,
+    syntaxFileName: getResponseExportFileName(form, 'sps'),
+    dataFileName,
+  };
+}
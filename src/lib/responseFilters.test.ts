@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { FormQuestion, ResponseColumnFilter } from '@/components/dashboard/form-creation-wizard/types';
+import { createFilter, getActiveFilters, getFilterType, isFilterActive } from './responseFilters';
+
+const base = { isRequired: false, validationRules: [], dataType: 'TEXT' as const, description: '', order: 1 };
+
+const question = (fields: Partial<FormQuestion> & Pick<FormQuestion, 'type'>) =>
+  ({ ...base, id: 'q1', title: 'Question', ...fields }) as FormQuestion;
+
+describe('getFilterType', () => {
+  it('filters choices by value, numbers and dates by range', () => {
+    expect(getFilterType(question({ type: 'MULTIPLE_CHOICE', options: [], displayType: 'RADIO' }))).toBe('CHOICE');
+    expect(getFilterType(question({ type: 'YES_NO' }))).toBe('CHOICE');
+    expect(getFilterType(question({ type: 'SLIDER' }))).toBe('NUMBER_RANGE');
+    expect(getFilterType(question({ type: 'DATETIME' }))).toBe('DATE_RANGE');
+    expect(getFilterType(question({ type: 'SHORT_TEXT' }))).toBeNull();
+  });
+
+  it('filters calculated questions by their result type', () => {
+    const calculated = (resultType: 'NUMBER' | 'TEXT' | 'DATE' | 'BOOLEAN') =>
+      question({ type: 'CALCULATED', expression: '1', resultType });
+
+    expect(getFilterType(calculated('NUMBER'))).toBe('NUMBER_RANGE');
+    expect(getFilterType(calculated('DATE'))).toBe('DATE_RANGE');
+    expect(getFilterType(calculated('TEXT'))).toBeNull();
+  });
+});
+
+describe('createFilter', () => {
+  it('starts filters empty so they restrict nothing until values are picked', () => {
+    const filter = createFilter(question({ id: 'water', type: 'SINGLE_CHOICE', options: [], displayType: 'RADIO' }));
+
+    expect(filter).toEqual({ type: 'CHOICE', questionId: 'water', values: [] });
+    expect(filter && isFilterActive(filter)).toBe(false);
+    expect(createFilter(question({ type: 'LONG_TEXT' }))).toBeNull();
+  });
+});
+
+describe('getActiveFilters', () => {
+  it('keeps filters with at least one bound or value', () => {
+    const filters: ResponseColumnFilter[] = [
+      { type: 'CHOICE', questionId: 'water', values: [] },
+      { type: 'CHOICE', questionId: 'services', values: ['health'] },
+      { type: 'NUMBER_RANGE', questionId: 'age' },
+      { type: 'NUMBER_RANGE', questionId: 'income', min: 0 },
+      { type: 'DATE_RANGE', questionId: 'visit', from: '' },
+      { type: 'DATE_RANGE', questionId: 'birth', to: '2026-01-31' },
+    ];
+
+    expect(getActiveFilters(filters).map(filter => filter.questionId)).toEqual(['services', 'income', 'birth']);
+    expect(getActiveFilters(undefined)).toEqual([]);
+  });
+});
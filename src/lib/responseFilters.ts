@@ -0,0 +1,51 @@
+// Response Filter Utilities
+// Column filters for the response table. The filters panel builds them from form questions and saves
+// them in views; the responses API sends the ones that restrict something to the server as JSON.
+
+import { FormQuestion, ResponseColumnFilter } from '@/components/dashboard/form-creation-wizard/types';
+
+const CHOICE_TYPES = ['SINGLE_CHOICE', 'MULTIPLE_CHOICE', 'YES_NO'];
+const NUMBER_TYPES = ['NUMBER', 'SLIDER'];
+const DATE_TYPES = ['DATE', 'DATETIME'];
+
+/** The kind of filter a question's answers support, or null when they can't be filtered. */
+export const getFilterType = (question: FormQuestion): ResponseColumnFilter['type'] | null => {
+  if (CHOICE_TYPES.includes(question.type)) return 'CHOICE';
+  if (NUMBER_TYPES.includes(question.type)) return 'NUMBER_RANGE';
+  if (question.type === 'CALCULATED') {
+    const resultType = question.resultType || 'NUMBER';
+    if (resultType === 'NUMBER') return 'NUMBER_RANGE';
+    if (resultType === 'DATE') return 'DATE_RANGE';
+    return null;
+  }
+  if (DATE_TYPES.includes(question.type)) return 'DATE_RANGE';
+  return null;
+};
+
+/** An empty filter on a question, ready for the user to pick values. */
+export const createFilter = (question: FormQuestion): ResponseColumnFilter | null => {
+  switch (getFilterType(question)) {
+    case 'CHOICE':
+      return { type: 'CHOICE', questionId: question.id, values: [] };
+    case 'NUMBER_RANGE':
+      return { type: 'NUMBER_RANGE', questionId: question.id };
+    case 'DATE_RANGE':
+      return { type: 'DATE_RANGE', questionId: question.id };
+    default:
+      return null;
+  }
+};
+
+// Filters still being set up (no values chosen yet) are not counted, saved or sent
+export const isFilterActive = (filter: ResponseColumnFilter) => {
+  switch (filter.type) {
+    case 'CHOICE':
+      return filter.values.length > 0;
+    case 'NUMBER_RANGE':
+      return filter.min !== undefined || filter.max !== undefined;
+    case 'DATE_RANGE':
+      return !!filter.from || !!filter.to;
+  }
+};
+
+export const getActiveFilters = (filters?: ResponseColumnFilter[]) => (filters || []).filter(isFilterActive);
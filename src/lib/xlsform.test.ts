@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { Form, FormQuestion, FormSection } from '@/components/dashboard/form-creation-wizard/types';
+import { buildXLSForm, parseXLSForm } from './xlsform';
+
+const sheetRows = (workbook: XLSX.WorkBook, name: string) =>
+  XLSX.utils.sheet_to_json<Record<string, string>>(workbook.Sheets[name], { defval: '' });
+
+const toArrayBuffer = (workbook: XLSX.WorkBook): ArrayBuffer =>
+  XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+
+const makeForm = (sections: FormSection[]): Form => ({
+  id: 'form-1',
+  title: 'Household Survey',
+  projectId: 'project-1',
+  createdBy: 'user-1',
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-01-01'),
+  status: 'DRAFT',
+  version: 1,
+  sections,
+  settings: { requireAuthentication: false, thankYouMessage: 'Thanks', notificationEmails: [] },
+  responseCount: 0,
+  tags: [],
+});
+
+const base = { isRequired: false, validationRules: [], dataType: 'TEXT' as const, description: '' };
+
+const waterSource: FormQuestion = {
+  ...base,
+  id: 'water',
+  type: 'SINGLE_CHOICE',
+  title: 'Water source',
+  order: 1,
+  displayType: 'RADIO',
+  options: [
+    { id: 'o1', label: 'Piped water', value: 'piped water' },
+    { id: 'o2', label: 'Well', value: 'well' },
+    {
+      id: 'o3',
+      label: 'Other (2+ km)',
+      value: '2+ km',
+      conditionalQuestions: [
+        { ...base, id: 'distance', type: 'NUMBER', title: 'Walking time', order: 1, step: 1, min: 0, max: 600 },
+      ],
+    },
+  ],
+};
+
+const treatment: FormQuestion = {
+  ...base,
+  id: 'treatment',
+  type: 'SHORT_TEXT',
+  title: 'How is it treated',
+  order: 2,
+  conditional: { dependsOn: 'water', operator: 'EQUALS', showWhen: 'piped water' },
+};
+
+describe('buildXLSForm', () => {
+  const { workbook, issues } = buildXLSForm(makeForm([
+    { id: 's1', title: 'Water', order: 1, questions: [waterSource, treatment] },
+  ]));
+  const survey = sheetRows(workbook, 'survey');
+  const choices = sheetRows(workbook, 'choices');
+
+  it('renames option values that are not valid XLSForm names and reports them', () => {
+    expect(choices.map(choice => choice.name)).toEqual(['piped_water', 'well', 'q_2_km']);
+    expect(issues.filter(issue => issue.construct === 'choice name')).toHaveLength(2);
+  });
+
+  it('uses the renamed choice names in relevant conditions', () => {
+    const treatmentRow = survey.find(row => row.name === 'how_is_it_treated');
+    expect(treatmentRow?.relevant).toBe("selected(${water_source}, 'piped_water')");
+
+    const distanceRow = survey.find(row => row.name === 'walking_time');
+    expect(distanceRow?.relevant).toBe("selected(${water_source}, 'q_2_km')");
+    expect(distanceRow?.constraint).toBe('. >= 0 and . <= 600');
+  });
+
+  it('keeps values that are already valid names', () => {
+    const { workbook: validWorkbook, issues: validIssues } = buildXLSForm(makeForm([
+      { id: 's1', title: 'Water', order: 1, questions: [{ ...waterSource, options: waterSource.options.slice(1, 2) }] },
+    ]));
+    expect(sheetRows(validWorkbook, 'choices').map(choice => choice.name)).toEqual(['well']);
+    expect(validIssues).toHaveLength(0);
+  });
+});
+
+describe('parseXLSForm', () => {
+  it('round-trips questions, choices and conditions', () => {
+    const { workbook } = buildXLSForm(makeForm([
+      { id: 's1', title: 'Water', order: 1, questions: [waterSource, treatment] },
+    ]));
+
+    const { form } = parseXLSForm(toArrayBuffer(workbook));
+    const [section] = form.sections;
+    const [water, distance, treated] = section.questions;
+
+    expect(section.title).toBe('Water');
+    expect(water.type).toBe('SINGLE_CHOICE');
+    expect('options' in water && water.options.map(option => option.value)).toEqual(['piped_water', 'well', 'q_2_km']);
+    expect(distance).toMatchObject({ type: 'NUMBER', min: 0, max: 600 });
+    expect(distance.conditional).toEqual({ dependsOn: water.id, showWhen: 'q_2_km', operator: 'EQUALS' });
+    expect(treated.conditional).toEqual({ dependsOn: water.id, showWhen: 'piped_water', operator: 'EQUALS' });
+  });
+
+  it('reports unsupported constructs instead of failing', () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet([
+      { type: 'start', name: 'start' },
+      { type: 'geotrace', name: 'route', label: 'Route' },
+      { type: 'text', name: 'name', label: 'Name', relevant: "${missing} = 'x'" },
+    ]), 'survey');
+
+    const { form, issues } = parseXLSForm(toArrayBuffer(workbook));
+
+    expect(form.sections[0].questions.map(question => question.title)).toEqual(['Name']);
+    expect(issues.map(issue => issue.construct)).toEqual(['type: start', 'type: geotrace', 'relevant']);
+  });
+
+  it('requires a survey sheet', () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet([{ list_name: 'a', name: 'b' }]), 'choices');
+
+    expect(() => parseXLSForm(toArrayBuffer(workbook))).toThrow('survey');
+  });
+});
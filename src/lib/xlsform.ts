@@ -0,0 +1,820 @@
+// XLSForm Conversion Utilities
+// Converts between XLSForm workbooks (KoboToolbox / ODK: survey, choices and settings
+// sheets) and the form builder's Form / FormSection / FormQuestion model. Constructs that
+// have no equivalent on the other side are skipped and listed in the returned issues.
+
+import * as XLSX from 'xlsx';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Form,
+  FormSection,
+  FormQuestion,
+  FormSettings,
+  ChoiceOption,
+  QuestionType,
+  PostgreSQLDataType,
+  ValidationRule,
+} from '@/components/dashboard/form-creation-wizard/types';
+
+export interface XLSFormIssue {
+  sheet: 'survey' | 'choices' | 'settings';
+  row?: number; // 1-based spreadsheet row
+  name?: string; // XLSForm field name (import) or question title (export)
+  construct: string; // e.g. "type: geotrace", "relevant", "constraint"
+  message: string;
+}
+
+export interface XLSFormImportResult {
+  form: {
+    title: string;
+    description: string;
+    sections: FormSection[];
+    settings: FormSettings;
+    tags: string[];
+    category: string;
+  };
+  issues: XLSFormIssue[];
+}
+
+export interface XLSFormExportResult {
+  workbook: XLSX.WorkBook;
+  issues: XLSFormIssue[];
+}
+
+type ConditionalOperator = 'EQUALS' | 'NOT_EQUALS' | 'GREATER_THAN' | 'LESS_THAN' | 'CONTAINS';
+
+interface ParsedRelevant {
+  dependsOnName: string;
+  operator: ConditionalOperator;
+  showWhen: string | number;
+  // selected() means "equals" for select_one and "contains" for select_multiple
+  viaSelected?: boolean;
+}
+
+type SurveyRow = Record<string, unknown>;
+
+const METADATA_TYPES = new Set([
+  'start', 'end', 'today', 'deviceid', 'subscriberid', 'simserial', 'phonenumber',
+  'username', 'email', 'audit', 'start-geopoint', 'background-audio',
+]);
+
+const DEFAULT_SETTINGS: FormSettings = {
+  requireAuthentication: false,
+  thankYouMessage: 'Thank you for your response!',
+  notificationEmails: [],
+};
+
+const DATA_TYPES: Partial<Record<QuestionType, PostgreSQLDataType>> = {
+  NUMBER: 'DECIMAL',
+  DATE: 'DATE',
+  DATETIME: 'TIMESTAMP',
+  MULTIPLE_CHOICE: 'ARRAY_TEXT',
+  SLIDER: 'INTEGER',
+  LOCATION: 'JSON',
+  LIKERT_SCALE: 'JSON',
+  IMAGE_UPLOAD: 'JSON',
+  VIDEO_UPLOAD: 'JSON',
+  AUDIO_UPLOAD: 'JSON',
+  FILE_UPLOAD: 'JSON',
+};
+
+// ========================================
+// SHARED HELPERS
+// ========================================
+
+const asText = (value: unknown): string => (value === undefined || value === null ? '' : String(value).trim());
+
+// Read a column, falling back to its first translated variant (e.g. "label::English (en)")
+const getLocalized = (row: SurveyRow, column: string): string => {
+  const direct = asText(row[column]);
+  if (direct) return direct;
+  const translatedKey = Object.keys(row).find(key => key.startsWith(`${column}::`));
+  return translatedKey ? asText(row[translatedKey]) : '';
+};
+
+const getRowNumber = (row: SurveyRow): number | undefined =>
+  typeof row.__rowNum__ === 'number' ? row.__rowNum__ + 1 : undefined;
+
+const normalizeRows = (sheet: XLSX.WorkSheet): SurveyRow[] => {
+  const rows = XLSX.utils.sheet_to_json<SurveyRow>(sheet, { defval: '' });
+  return rows.map(row => {
+    const normalized: SurveyRow = {};
+    Object.entries(row).forEach(([key, value]) => {
+      normalized[key.trim().toLowerCase()] = value;
+    });
+    // __rowNum__ is non-enumerable on SheetJS rows
+    Object.defineProperty(normalized, '__rowNum__', { value: (row as { __rowNum__?: number }).__rowNum__, enumerable: false });
+    return normalized;
+  });
+};
+
+const getOptions = (question: FormQuestion): ChoiceOption[] => ('options' in question && question.options) || [];
+
+const findSheet = (workbook: XLSX.WorkBook, name: string): XLSX.WorkSheet | undefined => {
+  const sheetName = workbook.SheetNames.find(sheet => sheet.trim().toLowerCase() === name);
+  return sheetName ? workbook.Sheets[sheetName] : undefined;
+};
+
+const isTruthyXPath = (value: string): boolean => /^(yes|true|true\(\)|1)$/i.test(value);
+
+const parseLiteral = (raw: string): string | number => {
+  const quoted = raw.match(/^'([^']*)'$/) || raw.match(/^"([^"]*)"$/);
+  if (quoted) return quoted[1];
+  return Number(raw);
+};
+
+// ========================================
+// IMPORT: XLSForm -> Form
+// ========================================
+
+const parseRelevant = (expression: string): ParsedRelevant | null => {
+  const expr = expression.trim();
+
+  const comparison = expr.match(/^\$\{([\w.-]+)\}\s*(=|!=|>|<)\s*('[^']*'|"[^"]*"|-?\d+(?:\.\d+)?)$/);
+  if (comparison) {
+    const operators: Record<string, ConditionalOperator> = {
+      '=': 'EQUALS',
+      '!=': 'NOT_EQUALS',
+      '>': 'GREATER_THAN',
+      '<': 'LESS_THAN',
+    };
+    return { dependsOnName: comparison[1], operator: operators[comparison[2]], showWhen: parseLiteral(comparison[3]) };
+  }
+
+  const selected = expr.match(/^selected\(\s*\$\{([\w.-]+)\}\s*,\s*('[^']*'|"[^"]*")\s*\)$/);
+  if (selected) {
+    return { dependsOnName: selected[1], operator: 'EQUALS', showWhen: parseLiteral(selected[2]), viaSelected: true };
+  }
+
+  const notSelected = expr.match(/^not\(\s*selected\(\s*\$\{([\w.-]+)\}\s*,\s*('[^']*'|"[^"]*")\s*\)\s*\)$/);
+  if (notSelected) {
+    return { dependsOnName: notSelected[1], operator: 'NOT_EQUALS', showWhen: parseLiteral(notSelected[2]), viaSelected: true };
+  }
+
+  return null;
+};
+
+// Apply a constraint to a question; returns the clauses that could not be translated
+const applyConstraint = (question: FormQuestion, expression: string, message: string): string[] => {
+  const untranslated: string[] = [];
+
+  expression.split(/\s+and\s+/i).forEach(rawClause => {
+    const clause = rawClause.trim().replace(/^\((.*)\)$/, '$1').trim();
+
+    const numeric = clause.match(/^\.\s*(>=|>|<=|<)\s*(-?\d+(?:\.\d+)?)$/);
+    if (numeric && (question.type === 'NUMBER' || question.type === 'SLIDER') && (numeric[1].length === 2 || question.step === 1)) {
+      let bound = Number(numeric[2]);
+      if (numeric[1] === '>') bound += 1;
+      if (numeric[1] === '<') bound -= 1;
+      const isMin = numeric[1].startsWith('>');
+      if (isMin) question.min = bound;
+      else question.max = bound;
+      question.validationRules.push({
+        type: isMin ? 'MIN_VALUE' : 'MAX_VALUE',
+        value: bound,
+        message: message || `Value must be ${isMin ? 'at least' : 'at most'} ${bound}`,
+      } as ValidationRule);
+      return;
+    }
+
+    const length = clause.match(/^string-length\(\s*\.\s*\)\s*(>=|>|<=|<)\s*(\d+)$/);
+    if (length) {
+      let bound = Number(length[2]);
+      if (length[1] === '>') bound += 1;
+      if (length[1] === '<') bound -= 1;
+      const isMin = length[1].startsWith('>');
+      question.validationRules.push({
+        type: isMin ? 'MIN_LENGTH' : 'MAX_LENGTH',
+        value: bound,
+        message: message || `Must be ${isMin ? 'at least' : 'at most'} ${bound} characters`,
+      } as ValidationRule);
+      return;
+    }
+
+    const regex = clause.match(/^regex\(\s*\.\s*,\s*'(.*)'\s*\)$/);
+    if (regex) {
+      question.validationRules.push({ type: 'REGEX', value: regex[1], message: message || 'Invalid format' });
+      return;
+    }
+
+    untranslated.push(clause);
+  });
+
+  return untranslated;
+};
+
+const buildChoiceOptions = (choices: { name: string; label: string }[]): ChoiceOption[] =>
+  choices.map(choice => ({
+    id: uuidv4(),
+    label: choice.label || choice.name,
+    value: choice.name,
+    hasConditionalQuestions: false,
+    conditionalQuestions: [],
+  }));
+
+const parseRangeParameters = (parameters: string) => {
+  const values: Record<string, number> = {};
+  parameters.split(/\s+/).forEach(pair => {
+    const [key, value] = pair.split('=');
+    if (key && value !== undefined && !isNaN(Number(value))) values[key.trim()] = Number(value);
+  });
+  return { min: values.start ?? 0, max: values.end ?? 10, step: values.step ?? 1 };
+};
+
+/**
+ * Convert an XLSForm workbook (as read from an .xlsx/.xls file) into form builder data.
+ * All IDs are freshly generated; the returned issues list every construct that was skipped.
+ */
+export function parseXLSForm(data: ArrayBuffer, fallbackTitle = 'Imported XLSForm'): XLSFormImportResult {
+  const workbook = XLSX.read(data, { type: 'array', cellDates: true });
+  const surveySheet = findSheet(workbook, 'survey');
+  if (!surveySheet) {
+    throw new Error('XLSForm is missing a "survey" sheet');
+  }
+
+  const issues: XLSFormIssue[] = [];
+  const surveyRows = normalizeRows(surveySheet);
+  const choicesSheet = findSheet(workbook, 'choices');
+  const settingsSheet = findSheet(workbook, 'settings');
+
+  // Choice lists
+  const choiceLists = new Map<string, { name: string; label: string }[]>();
+  if (choicesSheet) {
+    normalizeRows(choicesSheet).forEach(row => {
+      const listName = asText(row.list_name);
+      const name = asText(row.name);
+      if (!listName || !name) return;
+      if (!choiceLists.has(listName)) choiceLists.set(listName, []);
+      choiceLists.get(listName)!.push({ name, label: getLocalized(row, 'label') });
+    });
+  }
+
+  const settingsRow = settingsSheet ? normalizeRows(settingsSheet)[0] || {} : {};
+  const title = asText(settingsRow.form_title) || fallbackTitle;
+
+  const sections: FormSection[] = [];
+  const questionsByName = new Map<string, FormQuestion>();
+  const sectionByQuestionId = new Map<string, FormSection>();
+  const pendingRelevant: { target: FormQuestion | FormSection; kind: 'question' | 'section'; expression: string; row?: number; name: string }[] = [];
+
+  let currentSection: FormSection | null = null;
+  let looseSection: FormSection | null = null;
+  let groupDepth = 0;
+
+  const createSection = (sectionTitle: string, description?: string, repeatable = false): FormSection => {
+    const section: FormSection = {
+      id: uuidv4(),
+      title: sectionTitle,
+      description: description || '',
+      order: sections.length + 1,
+      questions: [],
+      ...(repeatable ? { config: { repeatable: true }, conditional: { repeatable: true } } : {}),
+    };
+    sections.push(section);
+    return section;
+  };
+
+  surveyRows.forEach(row => {
+    const rawType = asText(row.type);
+    if (!rawType) return;
+
+    const rowNumber = getRowNumber(row);
+    const name = asText(row.name);
+    const label = getLocalized(row, 'label');
+    const hint = getLocalized(row, 'hint');
+    const relevant = asText(row.relevant);
+    const typeKey = rawType.toLowerCase().replace(/\s+/g, '_');
+
+    // Groups and repeats
+    if (typeKey === 'begin_group' || typeKey === 'begin_repeat') {
+      const isRepeat = typeKey === 'begin_repeat';
+      if (groupDepth === 0) {
+        currentSection = createSection(label || name || `Section ${sections.length + 1}`, hint, isRepeat);
+        looseSection = null;
+        if (relevant) {
+          pendingRelevant.push({ target: currentSection, kind: 'section', expression: relevant, row: rowNumber, name });
+        }
+      } else {
+        issues.push({
+          sheet: 'survey',
+          row: rowNumber,
+          name,
+          construct: rawType,
+          message: isRepeat
+            ? `Nested repeat is not supported; its questions were added to "${currentSection?.title}" without repetition`
+            : `Nested group was flattened into "${currentSection?.title}"`,
+        });
+        if (relevant) {
+          issues.push({ sheet: 'survey', row: rowNumber, name, construct: 'relevant', message: `Condition on nested group was dropped: ${relevant}` });
+        }
+      }
+      if (asText(row.repeat_count)) {
+        issues.push({ sheet: 'survey', row: rowNumber, name, construct: 'repeat_count', message: 'Fixed repeat counts are not supported' });
+      }
+      groupDepth++;
+      return;
+    }
+    if (typeKey === 'end_group' || typeKey === 'end_repeat') {
+      groupDepth = Math.max(groupDepth - 1, 0);
+      if (groupDepth === 0) currentSection = null;
+      return;
+    }
+
+    if (METADATA_TYPES.has(typeKey)) {
+      issues.push({ sheet: 'survey', row: rowNumber, name, construct: `type: ${rawType}`, message: 'Metadata field ignored; the platform records submission metadata itself' });
+      return;
+    }
+
+    const [baseType, listName, orOther] = rawType.split(/\s+/);
+    const base = baseType.toLowerCase();
+    const appearance = asText(row.appearance).toLowerCase();
+
+    let question: FormQuestion;
+    const common = {
+      id: uuidv4(),
+      title: label || name,
+      description: hint,
+      isRequired: false,
+      validationRules: [] as ValidationRule[],
+      dataType: 'TEXT' as PostgreSQLDataType,
+      order: 0,
+    };
+
+    switch (base) {
+      case 'text':
+        question = appearance.includes('multiline')
+          ? { ...common, type: 'LONG_TEXT', rows: 4 }
+          : { ...common, type: 'SHORT_TEXT' };
+        break;
+      case 'integer':
+        question = { ...common, type: 'NUMBER', step: 1 };
+        break;
+      case 'decimal':
+        question = { ...common, type: 'NUMBER', step: 0.01 };
+        break;
+      case 'range':
+        question = { ...common, type: 'SLIDER', ...parseRangeParameters(asText(row.parameters)), showValue: true };
+        break;
+      case 'date':
+        question = { ...common, type: 'DATE' };
+        break;
+      case 'datetime':
+        question = { ...common, type: 'DATETIME' };
+        break;
+      case 'geopoint':
+        question = { ...common, type: 'LOCATION', enableHighAccuracy: true, allowManualInput: true };
+        break;
+      case 'image':
+        question = { ...common, type: 'IMAGE_UPLOAD', allowMultiple: false, maxFiles: 1 };
+        break;
+      case 'video':
+        question = { ...common, type: 'VIDEO_UPLOAD', allowMultiple: false, maxFiles: 1 };
+        break;
+      case 'audio':
+        question = { ...common, type: 'AUDIO_UPLOAD', allowMultiple: false, maxFiles: 1 };
+        break;
+      case 'file':
+        question = { ...common, type: 'FILE_UPLOAD', allowMultiple: false, maxFiles: 1 };
+        break;
+      case 'select_one':
+      case 'select_multiple': {
+        const choices = listName ? choiceLists.get(listName) : undefined;
+        if (!choices || choices.length === 0) {
+          issues.push({ sheet: 'choices', row: rowNumber, name, construct: rawType, message: `Choice list "${listName || ''}" not found; question imported without options` });
+        }
+        question = {
+          ...common,
+          type: base === 'select_one' ? 'SINGLE_CHOICE' : 'MULTIPLE_CHOICE',
+          options: buildChoiceOptions(choices || []),
+          displayType: appearance.includes('minimal') ? 'DROPDOWN' : 'RADIO',
+          allowOther: orOther === 'or_other',
+        };
+        break;
+      }
+      default:
+        issues.push({
+          sheet: 'survey',
+          row: rowNumber,
+          name,
+          construct: `type: ${rawType}`,
+          message: 'Question type has no equivalent in the form builder and was skipped',
+        });
+        return;
+    }
+
+    question.dataType = DATA_TYPES[question.type] || 'TEXT';
+
+    // Required
+    const required = asText(row.required);
+    if (required) {
+      if (isTruthyXPath(required)) {
+        question.isRequired = true;
+      } else if (!/^(no|false|false\(\)|0)$/i.test(required)) {
+        issues.push({ sheet: 'survey', row: rowNumber, name, construct: 'required', message: `Dynamic required expression not supported: ${required}` });
+      }
+    }
+    const requiredMessage = getLocalized(row, 'required_message');
+    if (question.isRequired && requiredMessage) {
+      question.validationRules.push({ type: 'REQUIRED', message: requiredMessage });
+    }
+
+    // Constraint
+    const constraint = asText(row.constraint);
+    if (constraint) {
+      const untranslated = applyConstraint(question, constraint, getLocalized(row, 'constraint_message'));
+      untranslated.forEach(clause => {
+        issues.push({ sheet: 'survey', row: rowNumber, name, construct: 'constraint', message: `Constraint not translated: ${clause}` });
+      });
+    }
+
+    ['calculation', 'default', 'choice_filter', 'read_only', 'trigger'].forEach(column => {
+      if (asText(row[column])) {
+        issues.push({ sheet: 'survey', row: rowNumber, name, construct: column, message: `"${column}" is not supported and was dropped` });
+      }
+    });
+
+    // Place the question; questions outside any group share a section
+    let section: FormSection | null = currentSection;
+    if (!section) {
+      if (!looseSection) looseSection = createSection(sections.length === 0 ? title : `Section ${sections.length + 1}`);
+      section = looseSection;
+    }
+    question.order = section.questions.length + 1;
+    section.questions.push(question);
+    sectionByQuestionId.set(question.id, section);
+    if (name) questionsByName.set(name, question);
+
+    if (relevant) {
+      pendingRelevant.push({ target: question, kind: 'question', expression: relevant, row: rowNumber, name });
+    }
+  });
+
+  // Resolve relevant expressions now that every question name is known
+  pendingRelevant.forEach(({ target, kind, expression, row, name }) => {
+    const parsed = parseRelevant(expression);
+    const dependsOn = parsed ? questionsByName.get(parsed.dependsOnName) : undefined;
+    if (!parsed || !dependsOn) {
+      issues.push({
+        sheet: 'survey',
+        row,
+        name,
+        construct: 'relevant',
+        message: parsed
+          ? `Condition refers to unknown field "${parsed.dependsOnName}": ${expression}`
+          : `Condition is too complex to translate and was dropped: ${expression}`,
+      });
+      return;
+    }
+
+    let operator = parsed.operator;
+    if (parsed.viaSelected && dependsOn.type === 'MULTIPLE_CHOICE') {
+      if (operator === 'NOT_EQUALS') {
+        issues.push({ sheet: 'survey', row, name, construct: 'relevant', message: `"not selected" on a multiple choice question is not supported: ${expression}` });
+        return;
+      }
+      operator = 'CONTAINS';
+    }
+
+    if (kind === 'question') {
+      (target as FormQuestion).conditional = { dependsOn: dependsOn.id, showWhen: parsed.showWhen, operator };
+    } else {
+      const section = target as FormSection;
+      section.conditional = {
+        ...section.conditional,
+        dependsOnSectionId: sectionByQuestionId.get(dependsOn.id)?.id,
+        dependsOn: dependsOn.id,
+        showWhen: parsed.showWhen,
+        operator,
+      };
+    }
+  });
+
+  return {
+    form: {
+      title,
+      description: asText(settingsRow.description),
+      sections,
+      settings: { ...DEFAULT_SETTINGS },
+      tags: ['xlsform'],
+      category: 'General',
+    },
+    issues,
+  };
+}
+
+// ========================================
+// EXPORT: Form -> XLSForm
+// ========================================
+
+const SURVEY_COLUMNS = ['type', 'name', 'label', 'hint', 'required', 'relevant', 'constraint', 'constraint_message', 'appearance', 'parameters'];
+
+const toXmlName = (text: string, fallback: string): string => {
+  const slug = text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 40);
+  if (!slug) return fallback;
+  return /^[a-z_]/.test(slug) ? slug : `q_${slug}`;
+};
+
+const formatLiteral = (value: string | number | boolean): string =>
+  typeof value === 'number' ? String(value) : `'${String(value).replace(/'/g, '')}'`;
+
+/**
+ * Convert a form into an XLSForm workbook. Each section becomes a group (or repeat),
+ * option-level conditional questions follow their parent with a selected() condition.
+ */
+export function buildXLSForm(form: Form): XLSFormExportResult {
+  const issues: XLSFormIssue[] = [];
+  const surveyRows: Record<string, string>[] = [];
+  const choiceRows: Record<string, string>[] = [];
+  const usedNames = new Set<string>();
+  const nameById = new Map<string, string>();
+  const typeById = new Map<string, QuestionType>();
+  // Choice names per question, keyed by option value, so conditions use the names written to the choices sheet
+  const choiceNamesById = new Map<string, Map<string, string>>();
+  const sectionRelevant = new Map<string, string[]>();
+
+  const uniqueName = (text: string, fallback: string): string => {
+    const baseName = toXmlName(text, fallback);
+    let candidate = baseName;
+    let counter = 2;
+    while (usedNames.has(candidate)) {
+      candidate = `${baseName}_${counter++}`;
+    }
+    usedNames.add(candidate);
+    return candidate;
+  };
+
+  // Values that are already valid XLSForm names are kept; others are renamed and reported
+  const assignChoiceNames = (question: FormQuestion) => {
+    const choiceNames = new Map<string, string>();
+    const usedChoiceNames = new Set<string>();
+    getOptions(question).forEach((option, index) => {
+      const value = String(option.value);
+      if (choiceNames.has(value)) return;
+      let choiceName = value;
+      if (!/^[A-Za-z_][\w.-]*$/.test(choiceName)) {
+        choiceName = toXmlName(choiceName, `option_${index + 1}`);
+        issues.push({ sheet: 'choices', name: question.title, construct: 'choice name', message: `Option value "${option.value}" renamed to "${choiceName}" to be a valid XLSForm name` });
+      }
+      while (usedChoiceNames.has(choiceName)) choiceName = `${choiceName}_${index + 1}`;
+      usedChoiceNames.add(choiceName);
+      choiceNames.set(value, choiceName);
+    });
+    choiceNamesById.set(question.id, choiceNames);
+  };
+
+  const getChoiceName = (questionId: string, value: string | number | boolean): string =>
+    choiceNamesById.get(questionId)?.get(String(value)) ?? String(value);
+
+  // Assign names up front so conditions can refer to later questions
+  const registerQuestion = (question: FormQuestion) => {
+    nameById.set(question.id, uniqueName(question.title, `q${nameById.size + 1}`));
+    typeById.set(question.id, question.type);
+    assignChoiceNames(question);
+    getOptions(question).forEach(option => {
+      option.conditionalQuestions?.forEach(registerQuestion);
+    });
+  };
+  form.sections.forEach(section => section.questions.forEach(registerQuestion));
+
+  const buildCondition = (dependsOn: string, operator: ConditionalOperator | undefined, value: string | number | boolean): string | null => {
+    const fieldName = nameById.get(dependsOn);
+    if (!fieldName) return null;
+    const field = `\${${fieldName}}`;
+    const isChoice = typeById.get(dependsOn) === 'MULTIPLE_CHOICE' || typeById.get(dependsOn) === 'SINGLE_CHOICE';
+    const choice = isChoice ? formatLiteral(getChoiceName(dependsOn, value)) : '';
+    switch (operator || 'EQUALS') {
+      case 'EQUALS':
+        return isChoice ? `selected(${field}, ${choice})` : `${field} = ${formatLiteral(value)}`;
+      case 'NOT_EQUALS':
+        return isChoice ? `not(selected(${field}, ${choice}))` : `${field} != ${formatLiteral(value)}`;
+      case 'GREATER_THAN':
+        return `${field} > ${formatLiteral(value)}`;
+      case 'LESS_THAN':
+        return `${field} < ${formatLiteral(value)}`;
+      case 'CONTAINS':
+        return isChoice ? `selected(${field}, ${choice})` : `contains(${field}, ${formatLiteral(value)})`;
+    }
+  };
+
+  const addChoiceList = (listName: string, question: FormQuestion) => {
+    const written = new Set<string>();
+    getOptions(question).forEach(option => {
+      const choiceName = getChoiceName(question.id, option.value);
+      if (written.has(choiceName)) return;
+      written.add(choiceName);
+      choiceRows.push({ list_name: listName, name: choiceName, label: option.label });
+    });
+  };
+
+  const buildConstraint = (question: FormQuestion): { constraint: string; message: string } => {
+    const clauses: string[] = [];
+    const messages: string[] = [];
+    const min = question.type === 'NUMBER' ? question.min : undefined;
+    const max = question.type === 'NUMBER' ? question.max : undefined;
+    if (typeof min === 'number') clauses.push(`. >= ${min}`);
+    if (typeof max === 'number') clauses.push(`. <= ${max}`);
+    if (question.type === 'EMAIL') {
+      clauses.push(`regex(., '^[^@\\s]+@[^@\\s]+\\.[^@\\s]+$')`);
+    }
+    question.validationRules?.forEach(rule => {
+      switch (rule.type) {
+        case 'MIN_LENGTH':
+          clauses.push(`string-length(.) >= ${rule.value}`);
+          break;
+        case 'MAX_LENGTH':
+          clauses.push(`string-length(.) <= ${rule.value}`);
+          break;
+        case 'MIN_VALUE':
+          if (typeof min !== 'number') clauses.push(`. >= ${rule.value}`);
+          break;
+        case 'MAX_VALUE':
+          if (typeof max !== 'number') clauses.push(`. <= ${rule.value}`);
+          break;
+        case 'REGEX':
+          clauses.push(`regex(., '${String(rule.value).replace(/'/g, '')}')`);
+          break;
+        case 'CUSTOM':
+          issues.push({ sheet: 'survey', name: question.title, construct: 'validation', message: 'Custom validation rule cannot be expressed in XLSForm' });
+          return;
+        default:
+          return;
+      }
+      if (rule.message) messages.push(rule.message);
+    });
+    return { constraint: clauses.join(' and '), message: messages.join('; ') };
+  };
+
+  const addQuestion = (question: FormQuestion, relevant: string) => {
+    const name = nameById.get(question.id)!;
+    const conditions = [relevant];
+    if (question.conditional?.dependsOn) {
+      const condition = buildCondition(question.conditional.dependsOn, question.conditional.operator, question.conditional.showWhen);
+      if (condition) conditions.push(condition);
+      else issues.push({ sheet: 'survey', name: question.title, construct: 'relevant', message: 'Condition refers to a question that is not in this form' });
+    }
+    const { constraint, message } = buildConstraint(question);
+    const row: Record<string, string> = {
+      name,
+      label: question.title,
+      hint: question.description || '',
+      required: question.isRequired ? 'yes' : '',
+      relevant: conditions.filter(Boolean).join(' and '),
+      constraint,
+      constraint_message: message,
+    };
+
+    switch (question.type) {
+      case 'SHORT_TEXT':
+      case 'EMAIL':
+        row.type = 'text';
+        break;
+      case 'PHONE':
+        row.type = 'text';
+        row.appearance = 'numbers';
+        break;
+      case 'LONG_TEXT':
+        row.type = 'text';
+        row.appearance = 'multiline';
+        break;
+      case 'NUMBER':
+        row.type = question.step === undefined || Number.isInteger(question.step) ? 'integer' : 'decimal';
+        break;
+      case 'DATE':
+        row.type = 'date';
+        break;
+      case 'DATETIME':
+        row.type = 'dateTime';
+        break;
+      case 'SLIDER':
+        row.type = 'range';
+        row.parameters = `start=${question.min} end=${question.max} step=${question.step}`;
+        break;
+      case 'LOCATION':
+        row.type = 'geopoint';
+        break;
+      case 'IMAGE_UPLOAD':
+        row.type = 'image';
+        break;
+      case 'VIDEO_UPLOAD':
+        row.type = 'video';
+        break;
+      case 'AUDIO_UPLOAD':
+        row.type = 'audio';
+        break;
+      case 'FILE_UPLOAD':
+        row.type = 'file';
+        break;
+      case 'SINGLE_CHOICE':
+      case 'YES_NO':
+      case 'MULTIPLE_CHOICE': {
+        const listName = `${name}_options`;
+        const allowOther = question.type !== 'YES_NO' && question.allowOther;
+        row.type = `${question.type === 'MULTIPLE_CHOICE' ? 'select_multiple' : 'select_one'} ${listName}${allowOther ? ' or_other' : ''}`;
+        if (question.displayType === 'DROPDOWN') row.appearance = 'minimal';
+        addChoiceList(listName, question);
+        break;
+      }
+      case 'LIKERT_SCALE': {
+        // One select_one per statement inside a field-list group
+        const listName = `${name}_scale`;
+        const labels: Partial<typeof question.defaultLabels> = question.defaultLabels || {};
+        const points = question.defaultScaleType === '3_POINT' ? 3 : question.defaultScaleType === '7_POINT' ? 7 : 5;
+        Array.from({ length: points }, (_, index) => index + 1).forEach(point => {
+          const label = point === 1 ? labels.negative : point === points ? labels.positive : point === Math.ceil(points / 2) ? labels.neutral : '';
+          choiceRows.push({ list_name: listName, name: String(point), label: label || String(point) });
+        });
+        surveyRows.push({ type: 'begin_group', name, label: question.title, hint: row.hint, relevant: row.relevant, appearance: 'field-list' });
+        (question.statements || []).forEach((statement, index) => {
+          surveyRows.push({
+            type: `select_one ${listName}`,
+            name: `${name}_${index + 1}`,
+            label: statement.text,
+            required: row.required,
+            appearance: 'likert',
+          });
+        });
+        surveyRows.push({ type: 'end_group', name });
+        issues.push({ sheet: 'survey', name: question.title, construct: 'LIKERT_SCALE', message: 'Exported as one select_one per statement; per-statement scale types use the default scale' });
+        return;
+      }
+      default:
+        issues.push({ sheet: 'survey', name: question.title, construct: question.type, message: 'Question type has no XLSForm equivalent and was skipped' });
+        return;
+    }
+
+    surveyRows.push(row);
+
+    // Option-level conditional questions and section branching
+    getOptions(question).forEach(option => {
+      const selectedCondition = `selected(\${${name}}, ${formatLiteral(getChoiceName(question.id, option.value))})`;
+      option.conditionalQuestions?.forEach(conditionalQuestion => {
+        addQuestion(conditionalQuestion, [row.relevant, selectedCondition].filter(Boolean).join(' and '));
+      });
+      if (option.assignedSectionId) {
+        const conditions = sectionRelevant.get(option.assignedSectionId) || [];
+        conditions.push(selectedCondition);
+        sectionRelevant.set(option.assignedSectionId, conditions);
+      }
+    });
+  };
+
+  const sortedSections = [...form.sections].sort((a, b) => a.order - b.order);
+  const sectionNames = new Map(sortedSections.map(section => [section.id, uniqueName(section.title, `section_${section.order}`)]));
+
+  sortedSections.forEach(section => {
+    const sectionName = sectionNames.get(section.id)!;
+    const isRepeat = !!(section.config?.repeatable || section.conditional?.repeatable);
+    const groupRow: Record<string, string> = {
+      type: isRepeat ? 'begin_repeat' : 'begin_group',
+      name: sectionName,
+      label: section.title,
+      hint: section.description || '',
+    };
+    surveyRows.push(groupRow);
+
+    [...section.questions].sort((a, b) => a.order - b.order).forEach(question => addQuestion(question, ''));
+
+    surveyRows.push({ type: isRepeat ? 'end_repeat' : 'end_group', name: sectionName });
+  });
+
+  // Section conditions are resolved last because option branching can target any section
+  sortedSections.forEach(section => {
+    const groupRow = surveyRows.find(row => row.name === sectionNames.get(section.id) && row.type.startsWith('begin_'));
+    if (!groupRow) return;
+    const conditions: string[] = [];
+    const conditional = section.conditional;
+    if (conditional?.dependsOn && conditional.showWhen !== undefined) {
+      const values = Array.isArray(conditional.showWhen) ? conditional.showWhen : [conditional.showWhen];
+      const parts = values
+        .map(value => buildCondition(conditional.dependsOn!, conditional.operator, value))
+        .filter((part): part is string => !!part);
+      if (parts.length > 0) {
+        conditions.push(parts.length > 1 ? `(${parts.join(' or ')})` : parts[0]);
+      } else {
+        issues.push({ sheet: 'survey', name: section.title, construct: 'relevant', message: 'Section condition refers to a question that is not in this form' });
+      }
+    }
+    const branching = sectionRelevant.get(section.id);
+    if (branching) conditions.push(branching.length > 1 ? `(${branching.join(' or ')})` : branching[0]);
+    groupRow.relevant = conditions.join(' and ');
+  });
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(surveyRows, { header: SURVEY_COLUMNS }), 'survey');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(choiceRows, { header: ['list_name', 'name', 'label'] }), 'choices');
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.json_to_sheet([{ form_title: form.title, form_id: toXmlName(form.title, 'form'), version: String(form.version || 1) }]),
+    'settings'
+  );
+
+  return { workbook, issues };
+}
+
+export const isXLSFormFile = (file: File): boolean => /\.(xlsx|xls)$/i.test(file.name);
+
+export const getXLSFormFileName = (form: Form): string => `${toXmlName(form.title, 'form')}-xlsform.xlsx`;
@@ -90,11 +90,19 @@ class FeedbackApiService {
     if (projectId) params.append('projectId', projectId);
     if (formId) params.append('formId', formId);
     const query = params.toString() ? `?${params.toString()}` : '';
-    return this.request(`/submissions${query}`); // Protected endpoint
+    return this.request(`/submissions${query}`); // Protected endpoint; confidential cases always come redacted
   }
 
   async getSubmissionById(id: string) {
-    return this.request(`/submissions/${id}`); // Protected endpoint
+    return this.request(`/submissions/${id}`); // Protected endpoint; confidential cases are unredacted for focal points only, and the view is logged
+  }
+
+  // Confidential cases are unredacted for focal points only, and the export is logged against each of them
+  async exportSubmissions(submissionIds: string[], purpose: string) {
+    return this.request('/submissions/export', {
+      method: 'POST',
+      body: JSON.stringify({ submissionIds, purpose }),
+    }); // Protected endpoint
   }
 
   async createSubmission(data: any) {
@@ -117,6 +125,37 @@ class FeedbackApiService {
     }); // Protected endpoint
   }
 
+  // Public case tracking by code (and PIN, when the reporter set one)
+  async trackSubmission(trackingCode: string, pin?: string) {
+    return this.request('/track', {
+      method: 'POST',
+      body: JSON.stringify({ trackingCode, pin }),
+    }, false); // Public endpoint; POST so the PIN stays out of URLs and logs
+  }
+
+  async addTrackingFollowUp(trackingCode: string, data: { pin?: string; content: string }) {
+    return this.request('/track/follow-up', {
+      method: 'POST',
+      body: JSON.stringify({ trackingCode, ...data }),
+    }, false); // Public endpoint
+  }
+
+  // Confidential cases: the server appends to the access log as it serves them, there is no write endpoint
+  async getSubmissionAccessLog(submissionId: string) {
+    return this.request(`/submissions/${submissionId}/access-log`); // Protected endpoint
+  }
+
+  async getSafeguardingFocalPoints() {
+    return this.request('/safeguarding/focal-points'); // Protected endpoint
+  }
+
+  async updateSafeguardingFocalPoints(userIds: string[]) {
+    return this.request('/safeguarding/focal-points', {
+      method: 'PUT',
+      body: JSON.stringify({ userIds }),
+    }); // Protected endpoint, global admins only
+  }
+
   // Categories
   async getCategories() {
     return this.request('/categories', {}, false); // Public endpoint
@@ -134,6 +173,14 @@ class FeedbackApiService {
     }); // Protected endpoint
   }
 
+  // Sends the reply to the reporter's phone on the channel the feedback came in on (SMS for USSD) and records it
+  async sendChannelReply(submissionId: string, data: { content: string }) {
+    return this.request(`/submissions/${submissionId}/channel-reply`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }); // Protected endpoint
+  }
+
   async addNote(submissionId: string, data: any) {
     return this.request(`/submissions/${submissionId}/notes`, {
       method: 'POST',
@@ -8,6 +8,12 @@ export interface ReportUploadData {
   reportType?: string;
   activityId?: string;
   reportFrequency?: 'weekly' | 'bimonthly' | 'monthly' | 'quarterly' | 'bi-annual' | 'annual' | 'adhoc';
+  approvalChainTemplateId?: string; // Omitted for the standard four-level chain
+  // Set for reports written in-app; the values let the backend keep the structured data next to the PDF
+  reportTemplateId?: string;
+  reportingPeriod?: string;
+  templateValues?: Record<string, unknown>;
+  reportingScheduleId?: string; // Reporting schedule the report is submitted for, with reportingPeriod
 }
 
 export interface ReportFile {
@@ -53,6 +59,19 @@ class ReportService {
     if (reportData.reportFrequency) {
       formData.append('reportFrequency', reportData.reportFrequency);
     }
+    if (reportData.approvalChainTemplateId) {
+      formData.append('approvalChainTemplateId', reportData.approvalChainTemplateId);
+    }
+    if (reportData.reportTemplateId) {
+      formData.append('reportTemplateId', reportData.reportTemplateId);
+      formData.append('templateValues', JSON.stringify(reportData.templateValues ?? {}));
+    }
+    if (reportData.reportingPeriod) {
+      formData.append('reportingPeriod', reportData.reportingPeriod);
+    }
+    if (reportData.reportingScheduleId) {
+      formData.append('reportingScheduleId', reportData.reportingScheduleId);
+    }
 
 
     const response = await apiClient.upload<ReportUploadResponse>(
@@ -91,7 +110,7 @@ class ReportService {
     return response.data;
   }
 
-  async downloadReportFile(projectId: string, reportId: string): Promise<void> {
+  async getReportFileContent(projectId: string, reportId: string): Promise<{ blob: Blob; fileName: string }> {
     // Get presigned URL from backend
     const response = await apiClient.get<{ presignedUrl: string; fileName: string; mimeType: string }>(
       `${this.baseUrl}/${projectId}/reports/preview/${reportId}`
@@ -108,11 +127,14 @@ class ReportService {
       throw new Error(`Failed to download file: ${fileResponse.statusText}`);
     }
 
-    // Get the blob from the response
-    const blob = await fileResponse.blob();
-    
+    return { blob: await fileResponse.blob(), fileName: response.data.fileName || `report-${reportId}` };
+  }
+
+  async downloadReportFile(projectId: string, reportId: string): Promise<void> {
+    const { blob, fileName } = await this.getReportFileContent(projectId, reportId);
+
     // Use file-saver to download the file with proper filename
-    saveAs(blob, response.data.fileName || `report-${reportId}`);
+    saveAs(blob, fileName);
   }
 
   async getPreviewUrl(projectId: string, reportId: string): Promise<string> {
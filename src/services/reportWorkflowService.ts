@@ -1,4 +1,5 @@
 import { apiClient } from '@/lib/api/client';
+import { ApprovalChainTemplate, ReportAnnotation, ReportDocumentVersion, ReportTemplate, ReportingSchedule } from '@/types/dashboard';
 
 export interface WorkflowReportSummary {
   id: string;
@@ -9,9 +10,13 @@ export interface WorkflowReportSummary {
   submittedAt: string;
   lastReviewAt?: string;
   completedAt?: string;
-  approvalSteps?: Array<{ id: string; stepOrder: number; isCompleted: boolean; reviewerId: string }>
+  currentVersionId?: string; // Latest document version
+  currentVersionNumber?: number;
+  approvalSteps?: Array<{ id: string; stepOrder: number; isCompleted: boolean; reviewerId: string; reviewedVersionId?: string; reviewedVersionNumber?: number }>
 }
 
+export type NewReportAnnotation = Pick<ReportAnnotation, 'fileId' | 'versionId' | 'page' | 'regions' | 'quote' | 'comment'>;
+
 export interface WorkflowListResponse {
   reports: WorkflowReportSummary[];
   total: number;
@@ -57,8 +62,8 @@ class ReportWorkflowService {
     return response.data;
   }
 
-  async review(reportId: string, action: 'APPROVE' | 'REJECT' | 'REQUEST_CHANGES' | 'SKIP', comment?: string, reasoning?: string, skipToFinalApproval?: boolean): Promise<WorkflowReportSummary> {
-    const payload: any = { reportId, action, comment, reasoning, skipToFinalApproval };
+  async review(reportId: string, action: 'APPROVE' | 'REJECT' | 'REQUEST_CHANGES' | 'SKIP', comment?: string, reasoning?: string, skipToFinalApproval?: boolean, versionId?: string, overrideUnresolvedAnnotations?: boolean): Promise<WorkflowReportSummary> {
+    const payload: any = { reportId, action, comment, reasoning, skipToFinalApproval, versionId, overrideUnresolvedAnnotations };
     const response = await apiClient.post<WorkflowReportSummary>(`${this.baseUrl}/review`, payload);
     if (!response.success || !response.data) {
       throw new Error(response.error || 'Failed to submit review');
@@ -66,16 +71,16 @@ class ReportWorkflowService {
     return response.data;
   }
 
-  async addComment(reportId: string, content: string, isInternal?: boolean, replyToCommentId?: string): Promise<void> {
-    const payload: any = { reportId, content, isInternal, replyToCommentId };
+  async addComment(reportId: string, content: string, isInternal?: boolean, replyToCommentId?: string, versionId?: string): Promise<void> {
+    const payload: any = { reportId, content, isInternal, replyToCommentId, versionId };
     const response = await apiClient.post<void>(`${this.baseUrl}/comments`, payload);
     if (!response.success) {
       throw new Error(response.error || 'Failed to add comment');
     }
   }
 
-  async resubmitWorkflow(reportId: string, fileIds?: string[]): Promise<WorkflowReportSummary> {
-    const payload: any = { fileIds };
+  async resubmitWorkflow(reportId: string, fileIds?: string[], versionId?: string): Promise<WorkflowReportSummary> {
+    const payload: any = { fileIds, versionId };
     const response = await apiClient.post<WorkflowReportSummary>(`${this.baseUrl}/reports/${reportId}/resubmit`, payload);
     if (!response.success || !response.data) {
       throw new Error(response.error || 'Failed to resubmit workflow');
@@ -83,6 +88,65 @@ class ReportWorkflowService {
     return response.data;
   }
 
+  // Document versions, oldest first
+  async getReportVersions(reportId: string): Promise<ReportDocumentVersion[]> {
+    const response = await apiClient.get<ReportDocumentVersion[]>(`${this.baseUrl}/reports/${reportId}/versions`);
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch report versions');
+    }
+    return response.data;
+  }
+
+  async uploadReportVersion(reportId: string, file: File, changeSummary?: string): Promise<ReportDocumentVersion> {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (changeSummary) {
+      formData.append('changeSummary', changeSummary);
+    }
+    const response = await apiClient.upload<ReportDocumentVersion>(`${this.baseUrl}/reports/${reportId}/versions`, formData);
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to upload report version');
+    }
+    return response.data;
+  }
+
+  async getReportAnnotations(reportId: string): Promise<ReportAnnotation[]> {
+    const response = await apiClient.get<ReportAnnotation[]>(`${this.baseUrl}/reports/${reportId}/annotations`);
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch annotations');
+    }
+    return response.data;
+  }
+
+  // Unresolved annotations block approval unless the reviewer overrides them
+  async getUnresolvedAnnotationCount(reportId: string): Promise<number> {
+    const annotations = await this.getReportAnnotations(reportId);
+    return annotations.filter(annotation => !annotation.resolved).length;
+  }
+
+  async addReportAnnotation(reportId: string, annotation: NewReportAnnotation): Promise<ReportAnnotation> {
+    const response = await apiClient.post<ReportAnnotation>(`${this.baseUrl}/reports/${reportId}/annotations`, annotation);
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to add annotation');
+    }
+    return response.data;
+  }
+
+  async setAnnotationResolved(annotationId: string, resolved: boolean): Promise<ReportAnnotation> {
+    const response = await apiClient.put<ReportAnnotation>(`${this.baseUrl}/annotations/${annotationId}/resolve`, { resolved });
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to update annotation');
+    }
+    return response.data;
+  }
+
+  async deleteReportAnnotation(annotationId: string): Promise<void> {
+    const response = await apiClient.delete<void>(`${this.baseUrl}/annotations/${annotationId}`);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to delete annotation');
+    }
+  }
+
   async cancelWorkflow(reportId: string, reason?: string): Promise<WorkflowReportSummary> {
     const payload: any = { reason };
     const response = await apiClient.post<WorkflowReportSummary>(`${this.baseUrl}/reports/${reportId}/cancel`, payload);
@@ -209,8 +273,8 @@ class ReportWorkflowService {
     return response.data;
   }
 
-  async bulkApprove(reportIds: string[], comment?: string): Promise<{ success: number; failed: number; errors: string[] }> {
-    const payload = { reportIds, comment };
+  async bulkApprove(reportIds: string[], comment?: string, overrideUnresolvedAnnotations?: boolean): Promise<{ success: number; failed: number; errors: string[] }> {
+    const payload = { reportIds, comment, overrideUnresolvedAnnotations };
     const response = await apiClient.post<{ success: number; failed: number; errors: string[] }>(
       `${this.baseUrl}/bulk/approve`,
       payload
@@ -245,6 +309,87 @@ class ReportWorkflowService {
     return response.data;
   }
 
+  // Approval chain templates: project templates plus the organisation-wide ones
+  async getApprovalChainTemplates(projectId?: string): Promise<ApprovalChainTemplate[]> {
+    const params = projectId ? `?projectId=${encodeURIComponent(projectId)}` : '';
+    const response = await apiClient.get<ApprovalChainTemplate[]>(`${this.baseUrl}/chain-templates${params}`);
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch approval chain templates');
+    }
+    return response.data;
+  }
+
+  async saveApprovalChainTemplate(template: ApprovalChainTemplate, isNew: boolean): Promise<ApprovalChainTemplate> {
+    const response = isNew
+      ? await apiClient.post<ApprovalChainTemplate>(`${this.baseUrl}/chain-templates`, template)
+      : await apiClient.put<ApprovalChainTemplate>(`${this.baseUrl}/chain-templates/${template.id}`, template);
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to save approval chain template');
+    }
+    return response.data;
+  }
+
+  async deleteApprovalChainTemplate(templateId: string): Promise<void> {
+    const response = await apiClient.delete<void>(`${this.baseUrl}/chain-templates/${templateId}`);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to delete approval chain template');
+    }
+  }
+
+  // Report templates for narrative reports written in-app: project templates plus the organisation-wide ones
+  async getReportTemplates(projectId?: string): Promise<ReportTemplate[]> {
+    const params = projectId ? `?projectId=${encodeURIComponent(projectId)}` : '';
+    const response = await apiClient.get<ReportTemplate[]>(`${this.baseUrl}/report-templates${params}`);
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch report templates');
+    }
+    return response.data;
+  }
+
+  async saveReportTemplate(template: ReportTemplate, isNew: boolean): Promise<ReportTemplate> {
+    const response = isNew
+      ? await apiClient.post<ReportTemplate>(`${this.baseUrl}/report-templates`, template)
+      : await apiClient.put<ReportTemplate>(`${this.baseUrl}/report-templates/${template.id}`, template);
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to save report template');
+    }
+    return response.data;
+  }
+
+  async deleteReportTemplate(templateId: string): Promise<void> {
+    const response = await apiClient.delete<void>(`${this.baseUrl}/report-templates/${templateId}`);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to delete report template');
+    }
+  }
+
+  // Reporting schedules: what each project owes and when; without a project, every schedule the user can see
+  async getReportingSchedules(projectId?: string): Promise<ReportingSchedule[]> {
+    const params = projectId ? `?projectId=${encodeURIComponent(projectId)}` : '';
+    const response = await apiClient.get<ReportingSchedule[]>(`${this.baseUrl}/reporting-schedules${params}`);
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch reporting schedules');
+    }
+    return response.data;
+  }
+
+  async saveReportingSchedule(schedule: ReportingSchedule, isNew: boolean): Promise<ReportingSchedule> {
+    const response = isNew
+      ? await apiClient.post<ReportingSchedule>(`${this.baseUrl}/reporting-schedules`, schedule)
+      : await apiClient.put<ReportingSchedule>(`${this.baseUrl}/reporting-schedules/${schedule.id}`, schedule);
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to save reporting schedule');
+    }
+    return response.data;
+  }
+
+  async deleteReportingSchedule(scheduleId: string): Promise<void> {
+    const response = await apiClient.delete<void>(`${this.baseUrl}/reporting-schedules/${scheduleId}`);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to delete reporting schedule');
+    }
+  }
+
   async getReviewerWorkload(projectId?: string, reviewerId?: string): Promise<{
     reviewers: Array<{
       reviewerId: string;
@@ -79,6 +79,7 @@ export interface ActivityFinancialData {
   totalAnnualBudget: number;
   totalAnnualCost: number;
   variance: number;
+  currency?: string; // Original currency of the budget and quarterly costs; USD when absent
   notes?: string;
   createdAt: Date;
   lastUpdated: Date;
@@ -111,6 +112,7 @@ export interface LegacyActivityFinancialData {
   totalAnnualBudget: number;
   totalAnnualCost: number;
   variance: number;
+  currency?: string;
   notes?: string;
   lastUpdated: Date;
   createdBy: string;
@@ -336,6 +338,8 @@ export interface Report {
   isPendingReview: boolean;
   currentReviewerId?: string;
   nextReviewerId?: string;
+  reportingScheduleId?: string; // Reporting schedule and period key the report was submitted for
+  reportingPeriod?: string;
 }
 
 export interface ReportApprovalWorkflow {
@@ -344,12 +348,14 @@ export interface ReportApprovalWorkflow {
   projectId: string;
   createdAt: string;
   createdBy: string;
-  currentStep: number;
-  totalSteps: number;
+  currentStep: number; // Stage number; parallel steps share a stage
+  totalSteps: number; // Number of stages
   steps: ReportApprovalStep[];
   status: 'pending' | 'in-progress' | 'approved' | 'rejected' | 'cancelled';
   finalApprovalDate?: string;
   finalApprovedBy?: string;
+  templateId?: string; // Approval chain template the steps were built from
+  templateName?: string;
 }
 
 export interface ReportApprovalStep {
@@ -364,6 +370,15 @@ export interface ReportApprovalStep {
   comments: ReportComment[];
   canSkip: boolean;
   isCurrentStep: boolean;
+  // Set on workflows built from an approval chain template; older workflows have one step per stage
+  stageNumber?: number;
+  stageName?: string;
+  requiredApprovals?: number; // Approvals needed from the steps of this stage
+  approverLabel?: string; // e.g. "Finance reviewer"
+  dueInDays?: number;
+  dueDate?: string;
+  reviewedVersionId?: string; // Document version the reviewer acted on
+  reviewedVersionNumber?: number;
 }
 
 export interface ReportComment {
@@ -376,6 +391,8 @@ export interface ReportComment {
   timestamp: string;
   type: 'comment' | 'approval' | 'rejection' | 'request-changes';
   attachments?: ReportAttachment[];
+  versionId?: string; // Document version the comment is about
+  versionNumber?: number;
 }
 
 export interface ReportAttachment {
@@ -386,26 +403,130 @@ export interface ReportAttachment {
   type: string;
 }
 
+// One uploaded revision of a report's document; revisions form a chain through previousVersionId
+export interface ReportDocumentVersion {
+  id: string;
+  reportId: string;
+  versionNumber: number; // 1 for the original submission
+  fileId: string;
+  fileName: string;
+  fileSize?: number;
+  mimeType?: string;
+  changeSummary?: string;
+  previousVersionId?: string;
+  uploadedAt: string;
+  uploadedBy: string;
+  uploadedByName?: string;
+}
+
+// Rectangle on a PDF page in PDF user space: points from the bottom left corner of the unrotated page
+export interface PdfPageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A reviewer's note on a passage or area of one page of a report document
+export interface ReportAnnotation {
+  id: string;
+  reportId: string;
+  fileId: string;
+  versionId?: string;
+  versionNumber?: number;
+  page: number; // 1-based
+  regions: PdfPageRegion[]; // One per line of highlighted text, or a single marked area
+  quote?: string; // Text highlighted in the document's text layer; absent for marked areas
+  comment: string;
+  authorId: string;
+  authorName: string;
+  createdAt: string;
+  resolved: boolean;
+  resolvedById?: string;
+  resolvedByName?: string;
+  resolvedAt?: string;
+}
+
 export interface ReportTemplate {
   id: string;
   name: string;
   description: string;
-  category: 'quarterly' | 'annual' | 'monthly' | 'adhoc';
+  category: Report['category'];
   projectId?: string; // If null, template is available for all projects
   requiredAuthLevels: ('branch-admin' | 'project-admin' | 'country-admin' | 'global-admin')[];
   templateFile?: string;
+  sections?: ReportTemplateSection[]; // Narrative templates filled in-app; fields point at a section
   fields: ReportTemplateField[];
   createdAt: string;
   createdBy: string;
+  updatedAt?: string;
+}
+
+export interface ReportTemplateSection {
+  id: string;
+  title: string;
+  description?: string; // Guidance shown to the person writing the report
+}
+
+export interface ApprovalChainApprover {
+  role: ReportApprovalStep['requiredRole']; // Minimum role; also what the step shows when no user is named
+  userId?: string; // Named approver, e.g. the project's finance reviewer; otherwise the first user with the role
+  label?: string;
+}
+
+export interface ApprovalChainStage {
+  id: string;
+  name: string;
+  approvers: ApprovalChainApprover[]; // Reviewed in parallel when there is more than one
+  requiredApprovals: number; // How many of `approvers` must approve before the next stage starts
+  dueInDays?: number; // Counted from when the stage starts
+}
+
+/** Route a report takes for approval; the most specific template for its project and category applies. */
+export interface ApprovalChainTemplate {
+  id: string;
+  name: string;
+  projectId?: string; // If null, template applies to all projects
+  reportCategory?: Report['category']; // If null, template applies to all categories
+  stages: ApprovalChainStage[];
+  createdAt: string;
+  createdBy: string;
+  updatedAt?: string;
 }
 
 export interface ReportTemplateField {
   id: string;
   name: string;
-  type: 'text' | 'number' | 'date' | 'select' | 'textarea';
+  // kpi and financial-summary fields are pre-filled from project data when the report is written
+  type: 'text' | 'number' | 'date' | 'select' | 'textarea' | 'kpi' | 'financial-summary' | 'table';
   required: boolean;
   options?: string[]; // For select fields
   defaultValue?: string;
+  sectionId?: string;
+  helpText?: string;
+  kpiIds?: string[]; // For kpi fields; empty means every project KPI
+  columns?: string[]; // For table fields
+}
+
+/** When a project owes a recurring report, e.g. a quarterly donor report due 30 days after each quarter. */
+export interface ReportingSchedule {
+  id: string;
+  projectId: string;
+  name: string;
+  frequency: Exclude<Report['category'], 'adhoc'>;
+  donor?: string;
+  dueDaysAfterPeriod: number; // Due date is this many days after the period ends
+  dueDateOverrides?: Record<string, string>; // Period key → due date (YYYY-MM-DD) where a donor set a different deadline
+  responsibleUserId?: string;
+  responsibleUserName?: string;
+  reminderDaysBefore: number[]; // e.g. [14, 3]; the backend emails the responsible user, and always sends an overdue reminder
+  reportTemplateId?: string; // Reports written from this template count towards the schedule
+  startDate: string; // First period covered (YYYY-MM-DD)
+  endDate?: string;
+  isActive: boolean;
+  createdAt: string;
+  createdBy: string;
+  updatedAt?: string;
 }
 
 export interface ReportNotification {
@@ -46,6 +46,14 @@ export function isSensitiveSopCategory(sopCategory: number | null | undefined):
   return sopCategory === 6 || sopCategory === 7;
 }
 
+/** Safeguarding/PSEA (6), code-of-conduct (7), CONFIDENTIAL and SENSITIVE cases: restricted to safeguarding focal points. */
+export function isConfidentialFeedback(
+  sopCategory: number | null | undefined,
+  sensitivity: string | null | undefined
+): boolean {
+  return isSensitiveSopCategory(sopCategory) || sensitivity === 'CONFIDENTIAL' || sensitivity === 'SENSITIVE';
+}
+
 export function isProgrammaticSopCategory(sopCategory: number | null | undefined): boolean {
   return sopCategory === 3 || sopCategory === 4 || sopCategory === 5;
 }
@@ -79,7 +87,26 @@ export function getClosureDueDate(
   return due;
 }
 
-export type FeedbackType = 
+/** Acknowledgement from receipt: 24 hours for sensitive (6–7), 72 hours for everything else. */
+export const SOP_ACKNOWLEDGEMENT_SENSITIVE_HOURS = 24;
+export const SOP_ACKNOWLEDGEMENT_HOURS = 72;
+
+export function getSopAcknowledgementDeadlineHours(sopCategory: number | null | undefined): number {
+  return isSensitiveSopCategory(sopCategory) ? SOP_ACKNOWLEDGEMENT_SENSITIVE_HOURS : SOP_ACKNOWLEDGEMENT_HOURS;
+}
+
+/** Due date for acknowledgement from submission receipt (submittedAt); a form's responseDeadline overrides the SOP default. */
+export function getAcknowledgementDueDate(
+  submittedAt: Date | string,
+  sopCategory: number | null | undefined,
+  responseDeadlineHours?: number | null
+): Date {
+  const hours = responseDeadlineHours ?? getSopAcknowledgementDeadlineHours(sopCategory);
+  const t = typeof submittedAt === 'string' ? new Date(submittedAt) : submittedAt;
+  return new Date(t.getTime() + hours * 60 * 60 * 1000);
+}
+
+export type FeedbackType =
   | 'GENERAL'           // General feedback about the program
   | 'ISSUE'             // Reporting an issue or problem
   | 'EMERGENCY'         // Emergency situation requiring immediate attention
@@ -91,6 +118,16 @@ export type FeedbackType =
   | 'RESOURCE_ISSUE'    // Issues with resources or materials
   | 'PROCESS_FEEDBACK'; // Feedback about program processes
 
+/** How a submission reached us; USSD sessions cannot be replied to, so replies to them go out by SMS. */
+export type FeedbackChannel = 'WEB' | 'SMS' | 'USSD' | 'WHATSAPP';
+
+export const FEEDBACK_CHANNEL_LABELS: Record<FeedbackChannel, string> = {
+  WEB: 'Web form',
+  SMS: 'SMS',
+  USSD: 'USSD',
+  WHATSAPP: 'WhatsApp',
+};
+
 export type FeedbackPriority = 
   | 'LOW'       // Can be addressed in normal timeframe
   | 'MEDIUM'    // Should be addressed within a few days
@@ -118,6 +155,16 @@ export type EscalationLevel =
   | 'NATIONAL'    // Escalate to national office
   | 'EMERGENCY';  // Emergency escalation
 
+export type SlaDeadlineType = 'ACKNOWLEDGEMENT' | 'CLOSURE';
+
+export type SlaDeadlineStatus =
+  | 'ON_TRACK'       // Open, deadline not yet close
+  | 'AT_RISK'        // Open, less than a fifth of the window left
+  | 'BREACHED'       // Open and past the deadline
+  | 'MET'            // Completed on time
+  | 'MISSED'         // Completed after the deadline
+  | 'NOT_APPLICABLE'; // No deadline for this category (e.g. 8 = out of scope)
+
 export interface FeedbackCategory {
   id: string;
   name: string;
@@ -220,6 +267,9 @@ export interface FeedbackSubmission {
   
   // Submitter information
   submitterId?: string; // If authenticated
+  trackingCode?: string; // Given to the reporter to follow the case on the public tracking page
+  channel?: FeedbackChannel; // Absent on submissions from before channels were recorded (web form)
+  channelContact?: string; // Phone number SMS/USSD/WhatsApp replies go to
   submitterEmail?: string;
   submitterName?: string;
   stakeholderType?: string;
@@ -244,6 +294,22 @@ export interface FeedbackSubmission {
   communications: FeedbackCommunication[];
   internalNotes: FeedbackNote[];
   statusHistory: FeedbackStatusHistory[];
+
+  /** Set by the server on confidential cases it returns without their reporter identity and content */
+  isRedacted?: boolean;
+}
+
+export type FeedbackAccessAction = 'VIEW' | 'EXPORT';
+
+/** Entry in a confidential case's access log; the backend writes it when it serves the case and only ever appends. */
+export interface FeedbackAccessLogEntry {
+  id: string;
+  submissionId: string;
+  action: FeedbackAccessAction;
+  userId: string;
+  userName: string;
+  details?: string;
+  accessedAt: Date;
 }
 
 export interface FeedbackStatusHistory {
@@ -271,13 +337,32 @@ export interface FeedbackAttachment {
 
 export interface FeedbackCommunication {
   id: string;
-  type: 'EMAIL' | 'SMS' | 'INTERNAL_NOTE' | 'PUBLIC_RESPONSE';
+  type: 'EMAIL' | 'SMS' | 'WHATSAPP' | 'INTERNAL_NOTE' | 'PUBLIC_RESPONSE' | 'FOLLOW_UP'; // FOLLOW_UP: added by the reporter on the tracking page
   direction: 'INBOUND' | 'OUTBOUND';
   content: string;
   sentBy?: string;
   sentTo?: string;
   sentAt: Date;
   status: 'SENT' | 'DELIVERED' | 'READ' | 'FAILED';
+  isShareable?: boolean; // Shown to the reporter on the public tracking page
+}
+
+/** A message on the public tracking page: a shareable staff response or one of the reporter's follow-ups. */
+export interface TrackedCaseMessage {
+  id: string;
+  direction: 'INBOUND' | 'OUTBOUND';
+  content: string;
+  sentAt: Date | string;
+}
+
+/** What a reporter sees for their tracking code: no internal notes, assignees or staff names. */
+export interface TrackedFeedbackCase {
+  trackingCode: string;
+  status: FeedbackStatus;
+  categoryName?: string;
+  submittedAt: Date | string;
+  updatedAt: Date | string;
+  messages: TrackedCaseMessage[];
 }
 
 export interface FeedbackNote {